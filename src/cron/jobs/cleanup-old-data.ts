@@ -0,0 +1,71 @@
+/**
+ * Cleanup Old Data Cron Job
+ * Purges expired Link sessions, thins out old net worth snapshots, and removes
+ * recurring series left behind by users' deleted connections
+ *
+ * Render Schedule: 0 10 * * 0 (Sundays, 2am PST / 10am UTC, after the daily syncs)
+ * Manual Trigger: npm run cron:cleanup-old-data
+ */
+
+import { deleteExpiredAccountSessions } from "../../storage/repositories/account-sessions.js";
+import {
+  deleteOrphanedRecurringSeries,
+  pruneNetWorthSnapshots,
+} from "../../storage/repositories/data-retention.js";
+import { logEvent, serializeError } from "../../utils/logger.js";
+import type { CronJob } from "./plaid-sync.js";
+
+export interface DataRetentionSummary {
+  sessionsDeleted: number;
+  snapshotsPruned: number;
+  orphanedRecurringSeriesDeleted: number;
+  failedSteps: string[];
+}
+
+/**
+ * Run every cleanup step, isolating failures so one bad table doesn't block the rest
+ */
+export async function runDataRetentionCleanup(asOf: Date = new Date()): Promise<DataRetentionSummary> {
+  const failedSteps: string[] = [];
+
+  async function step(name: string, fn: () => Promise<number>): Promise<number> {
+    try {
+      const count = await fn();
+      logEvent("CRON:cleanup-old-data", "step-complete", { step: name, count });
+      return count;
+    } catch (error: any) {
+      failedSteps.push(name);
+      logEvent(
+        "CRON:cleanup-old-data",
+        "step-error",
+        { step: name, error: serializeError(error) },
+        "error"
+      );
+      return 0;
+    }
+  }
+
+  const summary: DataRetentionSummary = {
+    sessionsDeleted: await step("expired-sessions", deleteExpiredAccountSessions),
+    snapshotsPruned: await step("net-worth-snapshots", () => pruneNetWorthSnapshots(asOf)),
+    orphanedRecurringSeriesDeleted: await step("orphaned-recurring-series", deleteOrphanedRecurringSeries),
+    failedSteps,
+  };
+
+  logEvent("CRON:cleanup-old-data", "cleanup-complete", { ...summary });
+
+  return summary;
+}
+
+export const cleanupOldDataJob: CronJob = {
+  name: "cleanup-old-data",
+  description: "Purge expired sessions, prune old net worth snapshots, and remove orphaned data",
+
+  async run(): Promise<void> {
+    const summary = await runDataRetentionCleanup();
+
+    if (summary.failedSteps.length > 0) {
+      throw new Error(`Cleanup steps failed: ${summary.failedSteps.join(", ")}`);
+    }
+  },
+};
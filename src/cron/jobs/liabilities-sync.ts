@@ -0,0 +1,43 @@
+/**
+ * Liabilities Sync Cron Job
+ * Refreshes credit card, mortgage and student loan details for all users
+ * Only syncs connections from the environment PLAID_ENV points at, since the
+ * Plaid client can't use access tokens issued by another environment
+ *
+ * Render Schedule: 0 9 * * * (1am PST / 9am UTC, after plaid-sync)
+ * Manual Trigger: npm run cron:liabilities-sync
+ */
+
+import { createPlaidClient } from "../../utils/clients/plaid.js";
+import { getSupabaseServiceRole } from "../../storage/supabase.js";
+import { LiabilitySyncService } from "../../services/liability-sync.js";
+import { UserBatchSyncService } from "../services/user-batch-sync.service.js";
+import type { CronJob } from "./plaid-sync.js";
+
+export const liabilitiesSyncJob: CronJob = {
+  name: "liabilities-sync",
+  description: "Sync liabilities (credit cards, mortgages, student loans) for all users",
+
+  async run(): Promise<void> {
+    const environment = process.env.PLAID_ENV === "production" ? "production" : "sandbox";
+
+    const plaidClient = createPlaidClient();
+    const supabase = getSupabaseServiceRole(); // Use service role to access all users' data
+    const liabilitySyncService = new LiabilitySyncService(plaidClient, supabase);
+    const batchSyncService = new UserBatchSyncService();
+
+    await batchSyncService.syncAllUsers({
+      environment,
+      failOnError: process.env.NODE_ENV !== "test",
+      lockHolder: "cron:liabilities-sync",
+      syncFn: async (userId, connection) => {
+        // Failures are recorded in liabilities_sync_state, so get-liabilities can report them
+        await liabilitySyncService.syncConnectionLiabilities({
+          itemId: connection.itemId,
+          userId,
+          accessToken: connection.accessToken,
+        });
+      },
+    });
+  },
+};
@@ -9,12 +9,16 @@
  *
  * Examples:
  *   npm run cron plaid-sync
+ *   npm run cron liabilities-sync
+ *   npm run cron cleanup-old-data
  *   npm run cron --list
  */
 
 import dotenv from "dotenv";
 import { plaidSyncJob } from "./jobs/plaid-sync.js";
 import { plaidSyncSandboxJob } from "./jobs/plaid-sync-sandbox.js";
+import { liabilitiesSyncJob } from "./jobs/liabilities-sync.js";
+import { cleanupOldDataJob } from "./jobs/cleanup-old-data.js";
 import { logEvent, serializeError } from "../utils/logger.js";
 
 // Load environment variables
@@ -24,10 +28,10 @@ dotenv.config();
 const jobs = {
   "plaid-sync": plaidSyncJob,
   "plaid-sync-sandbox": plaidSyncSandboxJob,
+  "liabilities-sync": liabilitiesSyncJob,
+  "cleanup-old-data": cleanupOldDataJob,
   // Future jobs:
   // "identity-sync": identitySyncJob,
-  // "liabilities-sync": liabilitiesSyncJob,
-  // "cleanup-old-data": cleanupOldDataJob,
 };
 
 /**
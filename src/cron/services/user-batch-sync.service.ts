@@ -1,7 +1,7 @@
 /**
  * User Batch Sync Service
  * Reusable service for syncing operations across all users
- * Handles user fetching, error isolation, and progress tracking
+ * Handles user fetching, error isolation, per-item locking, bounded concurrency, and progress tracking
  */
 
 import { getSupabaseServiceRole } from "../../storage/supabase.js";
@@ -9,7 +9,13 @@ import {
   findAccountConnectionsByUserId,
   AccountConnection,
 } from "../../storage/repositories/account-connections.js";
-import { logBatchOperation, logEvent } from "../../utils/logger.js";
+import { shouldSkipConnectionSync } from "../../services/connection-health.js";
+import { withItemSyncLock } from "../../services/sync-lock.js";
+import { runWithConcurrency } from "../../utils/worker-pool.js";
+import { logEvent } from "../../utils/logger.js";
+
+const DEFAULT_CONCURRENCY = 1;
+const DEFAULT_USER_TIME_BUDGET_MS = 10 * 60 * 1000;
 
 export interface UserSyncOptions {
   /**
@@ -18,9 +24,22 @@ export interface UserSyncOptions {
   syncFn: (userId: string, connection: AccountConnection) => Promise<void>;
 
   /**
-   * Whether to run syncs in parallel (default: false)
+   * How many users to sync at once (default: CRON_SYNC_CONCURRENCY or 1)
+   * Keep this low enough to stay under Plaid's per-client rate limits
    */
-  parallel?: boolean;
+  concurrency?: number;
+
+  /**
+   * Time a single user may spend before their remaining connections are deferred
+   * to the next run (default: CRON_USER_TIME_BUDGET_MS or 10 minutes).
+   * Checked between connections - an in-flight sync is never interrupted.
+   */
+  userTimeBudgetMs?: number;
+
+  /**
+   * Name recorded on the per-item sync lease (default: "cron:batch-sync")
+   */
+  lockHolder?: string;
 
   /**
    * Filter connections by Plaid environment
@@ -35,6 +54,42 @@ export interface UserSyncOptions {
   failOnError?: boolean;
 }
 
+/**
+ * Outcome of one user's sync within a batch run
+ */
+export interface UserSyncResult {
+  userId: string;
+  success: boolean;
+  durationMs: number;
+  syncedItemIds: string[];
+  skippedLockedItemIds: string[];
+  skippedNeedsReconnectItemIds: string[];
+  deferredItemIds: string[];
+  failures: Array<{ itemId: string; error: string }>;
+}
+
+/**
+ * Structured summary of a batch run, logged at the end and returned to the job
+ */
+export interface BatchSyncSummary {
+  totalUsers: number;
+  successfulUsers: number;
+  failedUsers: number;
+  concurrency: number;
+  durationSeconds: number;
+  syncedConnections: number;
+  skippedDueToLock: number;
+  skippedNeedsReconnect: number;
+  deferredDueToTimeBudget: number;
+  failures: Array<{ userId: string; itemId: string; error: string }>;
+  users: UserSyncResult[];
+}
+
+function readPositiveIntEnv(name: string, fallback: number): number {
+  const value = Number(process.env[name]);
+  return Number.isFinite(value) && value > 0 ? Math.floor(value) : fallback;
+}
+
 export class UserBatchSyncService {
   private readonly ignoredUserIds = new Set(
     (process.env.CRON_IGNORE_USER_IDS || "")
@@ -79,11 +134,24 @@ export class UserBatchSyncService {
 
   /**
    * Sync all connections for a single user
+   * Each connection runs under its sync lease; failures are isolated per connection
    */
   private async syncUserConnections(
     userId: string,
-    syncFn: UserSyncOptions["syncFn"]
-  ): Promise<{ success: boolean; error?: unknown }> {
+    options: Required<Pick<UserSyncOptions, "syncFn" | "userTimeBudgetMs" | "lockHolder">>
+  ): Promise<UserSyncResult> {
+    const startTime = Date.now();
+    const result: UserSyncResult = {
+      userId,
+      success: true,
+      durationMs: 0,
+      syncedItemIds: [],
+      skippedLockedItemIds: [],
+      skippedNeedsReconnectItemIds: [],
+      deferredItemIds: [],
+      failures: [],
+    };
+
     try {
       logEvent("CRON:batch-sync", "user-sync-start", { userId });
 
@@ -92,7 +160,7 @@ export class UserBatchSyncService {
 
       if (connections.length === 0) {
         logEvent("CRON:batch-sync", "user-no-connections", { userId }, "warn");
-        return { success: true };
+        return { ...result, durationMs: Date.now() - startTime };
       }
 
       logEvent("CRON:batch-sync", "user-connections-found", {
@@ -102,38 +170,93 @@ export class UserBatchSyncService {
 
       // Sync each connection
       for (const connection of connections) {
+        // Broken items fail every Plaid call until the user reconnects via update-account-link
+        if (shouldSkipConnectionSync(connection.status)) {
+          logEvent("CRON:batch-sync", "connection-skipped-needs-reconnect", {
+            userId,
+            itemId: connection.itemId,
+            status: connection.status,
+          });
+          result.skippedNeedsReconnectItemIds.push(connection.itemId);
+          continue;
+        }
+
+        // One slow institution shouldn't starve every other user; pick the rest up next run
+        if (Date.now() - startTime > options.userTimeBudgetMs) {
+          logEvent("CRON:batch-sync", "connection-deferred-time-budget", {
+            userId,
+            itemId: connection.itemId,
+            budgetMs: options.userTimeBudgetMs,
+          }, "warn");
+          result.deferredItemIds.push(connection.itemId);
+          continue;
+        }
+
         logEvent("CRON:batch-sync", "connection-sync-start", {
           userId,
           itemId: connection.itemId,
         });
 
-        await syncFn(userId, connection);
+        try {
+          const locked = await withItemSyncLock(
+            connection.itemId,
+            userId,
+            options.lockHolder,
+            () => options.syncFn(userId, connection)
+          );
 
-        logEvent("CRON:batch-sync", "connection-sync-complete", {
-          userId,
-          itemId: connection.itemId,
-        });
+          if (!locked.acquired) {
+            result.skippedLockedItemIds.push(connection.itemId);
+            continue;
+          }
+
+          result.syncedItemIds.push(connection.itemId);
+          logEvent("CRON:batch-sync", "connection-sync-complete", {
+            userId,
+            itemId: connection.itemId,
+          });
+        } catch (error: any) {
+          result.success = false;
+          result.failures.push({ itemId: connection.itemId, error: error.message });
+          logEvent(
+            "CRON:batch-sync",
+            "connection-sync-error",
+            { userId, itemId: connection.itemId, error: error.message },
+            "error"
+          );
+        }
       }
 
-      logEvent("CRON:batch-sync", "user-sync-complete", { userId });
-      return { success: true };
+      logEvent("CRON:batch-sync", "user-sync-complete", {
+        userId,
+        success: result.success,
+        durationMs: Date.now() - startTime,
+      });
     } catch (error: any) {
+      result.success = false;
+      result.failures.push({ itemId: "*", error: error.message });
       logEvent(
         "CRON:batch-sync",
         "user-sync-error",
         { userId, error: error.message },
         "error"
       );
-      return { success: false, error };
     }
+
+    return { ...result, durationMs: Date.now() - startTime };
   }
 
   /**
    * Sync all users with Plaid connections
-   * Handles error isolation, stats tracking, and logging
+   * Runs users through a bounded worker pool and returns a structured summary
    */
-  async syncAllUsers(options: UserSyncOptions): Promise<void> {
+  async syncAllUsers(options: UserSyncOptions): Promise<BatchSyncSummary> {
     const { syncFn, environment, failOnError = true } = options;
+    const concurrency = options.concurrency ?? readPositiveIntEnv("CRON_SYNC_CONCURRENCY", DEFAULT_CONCURRENCY);
+    const userTimeBudgetMs =
+      options.userTimeBudgetMs ?? readPositiveIntEnv("CRON_USER_TIME_BUDGET_MS", DEFAULT_USER_TIME_BUDGET_MS);
+    const lockHolder = options.lockHolder ?? "cron:batch-sync";
+    const startTime = Date.now();
 
     if (environment) {
       logEvent("CRON:batch-sync", "filter-environment", { environment });
@@ -153,25 +276,51 @@ export class UserBatchSyncService {
         },
         "warn"
       );
-      return;
+    } else {
+      logEvent("CRON:batch-sync", "users-found", {
+        userCount: userIds.length,
+        concurrency,
+        userTimeBudgetMs,
+      });
     }
 
-    logEvent("CRON:batch-sync", "users-found", {
-      userCount: userIds.length,
-    });
-
-    // Use functional batch logger to process all users
-    const result = await logBatchOperation(
-      "CRON:batch-sync",
-      userIds,
-      async (userId) => {
-        return await this.syncUserConnections(userId, syncFn);
-      }
+    const users = await runWithConcurrency(userIds, concurrency, (userId) =>
+      this.syncUserConnections(userId, { syncFn, userTimeBudgetMs, lockHolder })
     );
 
+    const summary: BatchSyncSummary = {
+      totalUsers: users.length,
+      successfulUsers: users.filter((user) => user.success).length,
+      failedUsers: users.filter((user) => !user.success).length,
+      concurrency,
+      durationSeconds: Number(((Date.now() - startTime) / 1000).toFixed(2)),
+      syncedConnections: users.reduce((sum, user) => sum + user.syncedItemIds.length, 0),
+      skippedDueToLock: users.reduce((sum, user) => sum + user.skippedLockedItemIds.length, 0),
+      skippedNeedsReconnect: users.reduce((sum, user) => sum + user.skippedNeedsReconnectItemIds.length, 0),
+      deferredDueToTimeBudget: users.reduce((sum, user) => sum + user.deferredItemIds.length, 0),
+      failures: users.flatMap((user) =>
+        user.failures.map((failure) => ({ userId: user.userId, ...failure }))
+      ),
+      users,
+    };
+
+    logEvent("CRON:batch-sync", "summary", {
+      ...summary,
+      users: users.map((user) => ({
+        userId: user.userId,
+        success: user.success,
+        durationMs: user.durationMs,
+        synced: user.syncedItemIds.length,
+        skippedLocked: user.skippedLockedItemIds,
+        deferred: user.deferredItemIds,
+      })),
+    });
+
     // Exit with error code if any users failed
-    if (result.failedItems > 0 && failOnError) {
+    if (summary.failedUsers > 0 && failOnError) {
       process.exit(1);
     }
+
+    return summary;
   }
 }
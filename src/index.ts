@@ -14,6 +14,7 @@ import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
 import type { PlaidApi } from "plaid";
 import { createServer } from "./create-server.js";
 import { createPlaidRouter } from "./routes/plaid/index.js";
+import { captureRawBody } from "./routes/plaid/webhook.js";
 import { createDataRouter } from "./routes/data/index.js";
 import { createPlaidClient } from "./utils/clients/plaid.js";
 import adminRouter from "./routes/admin.js";
@@ -85,7 +86,7 @@ function configureMiddleware(app: Express) {
   app.options("*", cors());
 
   app.use(clerkMiddleware());
-  app.use(express.json());
+  app.use(express.json({ verify: captureRawBody }));
 }
 
 function registerStaticRoutes(app: Express) {
@@ -1,15 +1,17 @@
 /**
  * Plaid Routes
- * Express routes for Plaid Link UI and callback handling
+ * Express routes for Plaid Link UI, callback, update-complete and webhook handling
  */
 
 import { Router } from "express";
 import { PlaidApi } from "plaid";
 import { plaidLinkHandler } from "./link-ui.js";
 import { plaidCallbackHandler } from "./callback.js";
+import { plaidUpdateCompleteHandler } from "./update-complete.js";
+import { plaidWebhookHandler } from "./webhook.js";
 
 /**
- * Create Plaid router with Link UI and callback endpoints
+ * Create Plaid router with Link UI, callback, update-complete and webhook endpoints
  */
 export function createPlaidRouter(plaidClient: PlaidApi): Router {
   const router = Router();
@@ -20,5 +22,11 @@ export function createPlaidRouter(plaidClient: PlaidApi): Router {
   // POST /plaid/callback - Token exchange callback
   router.post("/callback", (req, res) => plaidCallbackHandler(req, res, plaidClient));
 
+  // POST /plaid/update-complete - Re-check item health after Link update mode
+  router.post("/update-complete", (req, res) => plaidUpdateCompleteHandler(req, res, plaidClient));
+
+  // POST /plaid/webhook - Signed Plaid webhooks (sync updates, item errors)
+  router.post("/webhook", (req, res) => plaidWebhookHandler(req, res, plaidClient));
+
   return router;
 }
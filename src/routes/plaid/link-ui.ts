@@ -6,19 +6,27 @@
 import { Request, Response } from "express";
 import { getBaseUrl } from "../../utils/config.js";
 
+/**
+ * Serialize a query parameter as a JavaScript string literal for an inline script
+ * Escaping "<" keeps a value from closing the script tag
+ */
+function toScriptString(value: unknown): string {
+  return JSON.stringify(typeof value === "string" ? value : "").replace(/</g, "\\u003c");
+}
+
 /**
  * GET /plaid/link
  * Renders the Plaid Link UI page with embedded JavaScript
  */
 export function plaidLinkHandler(req: Request, res: Response) {
-  const { token, session } = req.query;
+  const { token, session, item } = req.query;
 
   if (!token) {
     return res.status(400).send("Missing token parameter");
   }
 
-  // Session is optional - required for new connections, not needed for update mode
-  const isUpdateMode = !session;
+  // Update mode links carry the item being repaired; new connections don't
+  const isUpdateMode = !!item;
   const baseUrl = getBaseUrl();
 
   // Serve HTML page that initializes Plaid Link
@@ -87,22 +95,44 @@ export function plaidLinkHandler(req: Request, res: Response) {
       </div>
 
       <script>
-        const linkToken = "${token}";
-        const sessionId = "${session || ''}";
+        const linkToken = ${toScriptString(token)};
+        const sessionId = ${toScriptString(session)};
         const isUpdateMode = ${isUpdateMode};
+        const itemId = ${toScriptString(item)};
 
         // Initialize Plaid Link
         const handler = Plaid.create({
           token: linkToken,
           onSuccess: async (public_token, metadata) => {
-            // Update mode: No callback needed (access_token stays the same)
+            // Update mode: access_token stays the same, so only ask the server to re-check the item
             if (isUpdateMode) {
-              document.getElementById('status').innerHTML =
-                \`<h2 class="success">✓ Update Complete!</h2>
-                 <p>Your account connection has been updated successfully.</p>
-                 <p style="margin-top: 2rem; color: #666; font-size: 0.9rem;">
-                   Return to ChatGPT and say: <strong>"I've updated it, please refresh my transactions"</strong>
-                 </p>\`;
+              let repaired = true;
+              if (itemId) {
+                document.getElementById('status').innerHTML =
+                  '<div class="spinner"></div><p>Verifying your connection...</p>';
+                try {
+                  const response = await fetch('${baseUrl}/plaid/update-complete', {
+                    method: 'POST',
+                    headers: { 'Content-Type': 'application/json' },
+                    body: JSON.stringify({ item_id: itemId, session: sessionId }),
+                  });
+                  const data = await response.json();
+                  repaired = response.ok && data.success;
+                } catch (error) {
+                  console.error('Error:', error);
+                  repaired = false;
+                }
+              }
+
+              document.getElementById('status').innerHTML = repaired
+                ? \`<h2 class="success">✓ Update Complete!</h2>
+                   <p>Your account connection has been updated successfully.</p>
+                   <p style="margin-top: 2rem; color: #666; font-size: 0.9rem;">
+                     Return to ChatGPT and say: <strong>"I've updated it, please refresh my transactions"</strong>
+                   </p>\`
+                : \`<h2 class="error">Still Needs Attention</h2>
+                   <p>The institution still reports a problem with this connection.</p>
+                   <p style="font-size: 0.9rem; margin-top: 1rem;">Return to ChatGPT and ask to update the account link again.</p>\`;
               return;
             }
 
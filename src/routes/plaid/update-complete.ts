@@ -0,0 +1,51 @@
+/**
+ * Plaid Update Complete Route Handler
+ * Re-checks a connection after the user finishes Link update mode
+ */
+
+import { Request, Response } from "express";
+import { PlaidApi } from "plaid";
+import { completeAccountUpdate } from "../../services/account-service.js";
+import { shouldSkipConnectionSync } from "../../services/connection-health.js";
+import { logRouteEvent, serializeError } from "../../utils/logger.js";
+
+/**
+ * POST /plaid/update-complete
+ * Asks Plaid whether the item is healthy again and resumes syncing if so
+ * Requires the session issued with the update link, which must belong to the item's owner
+ */
+export async function plaidUpdateCompleteHandler(
+  req: Request,
+  res: Response,
+  plaidClient: PlaidApi
+) {
+  const { item_id, session } = req.body;
+
+  logRouteEvent("plaid-update-complete", "request-received", { itemId: item_id });
+
+  if (!item_id || typeof item_id !== "string" || !session || typeof session !== "string") {
+    logRouteEvent("plaid-update-complete", "missing-fields", undefined, "error");
+    return res.status(400).json({ error: "Missing item_id or session" });
+  }
+
+  try {
+    const { status } = await completeAccountUpdate(session, item_id, plaidClient);
+    const repaired = !shouldSkipConnectionSync(status);
+
+    res.json({
+      success: repaired,
+      item_id,
+      status,
+      message: repaired
+        ? "Connection repaired. Syncing has resumed in the background."
+        : "The institution still reports a problem with this connection. Please try updating it again.",
+    });
+  } catch (error: any) {
+    logRouteEvent("plaid-update-complete", "error", { itemId: item_id, error: serializeError(error) }, "error");
+
+    res.status(500).json({
+      error: "Failed to verify account update",
+      details: error.message,
+    });
+  }
+}
@@ -0,0 +1,77 @@
+/**
+ * Plaid Webhook Route Handler
+ * Receives signed Plaid webhooks and hands them off to the webhook service
+ */
+
+import { IncomingMessage, ServerResponse } from "http";
+import { Request, Response } from "express";
+import { PlaidApi } from "plaid";
+import {
+  verifyPlaidWebhook,
+  handlePlaidWebhook,
+  PlaidWebhookPayload,
+} from "../../services/webhook-service.js";
+import { logRouteEvent, serializeError } from "../../utils/logger.js";
+
+type RequestWithRawBody = IncomingMessage & { rawBody?: Buffer };
+
+/**
+ * express.json() verify hook that keeps the unparsed body around
+ * Plaid signs the exact bytes it sent, so the hash must use the raw body
+ */
+export function captureRawBody(
+  req: IncomingMessage,
+  _res: ServerResponse,
+  buf: Buffer
+): void {
+  (req as RequestWithRawBody).rawBody = buf;
+}
+
+/**
+ * POST /plaid/webhook
+ * Verifies the Plaid-Verification JWT, acknowledges, then processes in background
+ */
+export async function plaidWebhookHandler(
+  req: Request,
+  res: Response,
+  plaidClient: PlaidApi
+) {
+  const rawBody = (req as unknown as RequestWithRawBody).rawBody;
+  const verificationToken = req.header("plaid-verification");
+  const payload = req.body as PlaidWebhookPayload | undefined;
+
+  logRouteEvent("plaid-webhook", "request-received", {
+    type: payload?.webhook_type,
+    code: payload?.webhook_code,
+    itemId: payload?.item_id,
+    hasVerificationHeader: !!verificationToken,
+  });
+
+  if (!rawBody || !payload?.webhook_type || !payload?.webhook_code) {
+    logRouteEvent("plaid-webhook", "invalid-body", undefined, "error");
+    return res.status(400).json({ error: "Invalid webhook body" });
+  }
+
+  const verified = await verifyPlaidWebhook(rawBody, verificationToken, plaidClient);
+  if (!verified) {
+    logRouteEvent("plaid-webhook", "verification-failed", { itemId: payload.item_id }, "warn");
+    return res.status(401).json({ error: "Invalid webhook signature" });
+  }
+
+  // Acknowledge immediately - Plaid retries webhooks that take too long to answer
+  res.json({ received: true });
+
+  setImmediate(async () => {
+    try {
+      const result = await handlePlaidWebhook(payload, plaidClient);
+      logRouteEvent("plaid-webhook", "processed", { ...result });
+    } catch (error: any) {
+      logRouteEvent(
+        "plaid-webhook",
+        "processing-error",
+        { itemId: payload.item_id, error: serializeError(error) },
+        "error"
+      );
+    }
+  });
+}
@@ -0,0 +1,279 @@
+/**
+ * Account Refresh Service
+ * On-demand refresh of transactions, balances and investments for a user's connections,
+ * tracked in account_refresh_jobs so the assistant can report progress
+ */
+
+import { PlaidApi } from "plaid";
+import {
+  AccountConnection,
+  findAccountConnectionByItemId,
+  findAccountConnectionsByUserId,
+} from "../storage/repositories/account-connections.js";
+import {
+  AccountRefreshItemResult,
+  AccountRefreshJob,
+  completeAccountRefreshJob,
+  createAccountRefreshJob,
+  findLatestAccountRefreshJob,
+  markAccountRefreshJobRunning,
+} from "../storage/repositories/account-refresh-jobs.js";
+import { getAccountsByItemId } from "../storage/repositories/accounts.js";
+import { AccountSyncStateRepository } from "../storage/repositories/account-sync-state.js";
+import { TransactionSyncService } from "./transaction-sync.js";
+import { InvestmentSyncService } from "./investment-sync.js";
+import { shouldSkipConnectionSync } from "./connection-health.js";
+import { withItemSyncLock } from "./sync-lock.js";
+import { getSupabaseServiceRole } from "../storage/supabase.js";
+import { ClaudeClient } from "../utils/clients/claude.js";
+import { getPlaidItemError } from "../utils/plaid-errors.js";
+import { logServiceEvent, serializeError } from "../utils/logger.js";
+
+/**
+ * Repeated "refresh my accounts" requests inside this window reuse the running job,
+ * as long as it covers the requested connections
+ */
+export const REFRESH_REUSE_WINDOW_MS = 5 * 60 * 1000;
+
+export interface AccountRefreshRequestResult {
+  job: AccountRefreshJob;
+  reused: boolean;
+}
+
+/**
+ * Ask Plaid to pull fresh transactions from the institution
+ * Plaid delivers them later through a SYNC_UPDATES_AVAILABLE webhook; items without the
+ * transactions product (or institutions that don't support it) just keep the data already at Plaid
+ */
+async function requestPlaidTransactionsRefresh(
+  connection: AccountConnection,
+  plaidClient: PlaidApi
+): Promise<void> {
+  try {
+    await plaidClient.transactionsRefresh({ access_token: connection.accessToken });
+    logServiceEvent("account-refresh", "plaid-refresh-requested", { itemId: connection.itemId });
+  } catch (error: any) {
+    logServiceEvent(
+      "account-refresh",
+      "plaid-refresh-unavailable",
+      {
+        itemId: connection.itemId,
+        errorCode: getPlaidItemError(error)?.errorCode,
+        error: serializeError(error),
+      },
+      "warn"
+    );
+  }
+}
+
+/**
+ * Refresh one connection: Plaid refresh, then balances + transactions, then investments
+ */
+async function refreshConnection(
+  connection: AccountConnection,
+  plaidClient: PlaidApi,
+  claudeClient?: ClaudeClient
+): Promise<void> {
+  const supabase = getSupabaseServiceRole();
+
+  await requestPlaidTransactionsRefresh(connection, plaidClient);
+
+  // Also refreshes account balances before syncing transactions
+  const transactionSyncService = new TransactionSyncService(plaidClient, supabase, claudeClient);
+  await transactionSyncService.initiateSyncForConnection(
+    connection.itemId,
+    connection.userId,
+    connection.accessToken
+  );
+
+  try {
+    const investmentSyncService = new InvestmentSyncService(plaidClient, supabase);
+    await investmentSyncService.syncConnectionInvestments({
+      itemId: connection.itemId,
+      userId: connection.userId,
+      accessToken: connection.accessToken,
+    });
+  } catch (error: any) {
+    // Failures are recorded per account in account_investment_sync_state
+    logServiceEvent(
+      "account-refresh",
+      "investment-sync-error",
+      { itemId: connection.itemId, error: serializeError(error) },
+      "warn"
+    );
+  }
+}
+
+/**
+ * Errors recorded on a connection's accounts by a transaction sync that started at or after since
+ * The sync catches per-account failures so one account can't stop the rest; read them back here
+ */
+async function findAccountSyncErrors(connection: AccountConnection, since: string): Promise<string[]> {
+  const accounts = await getAccountsByItemId(connection.userId, connection.itemId);
+  const syncStates = await new AccountSyncStateRepository(getSupabaseServiceRole()).getSyncStatesByAccountIds(
+    accounts.map((account) => account.account_id)
+  );
+
+  return syncStates
+    .filter((state) => state.sync_status === "error" && state.updated_at >= since)
+    .map((state) => `${state.account_id}: ${state.error_message ?? "sync failed"}`);
+}
+
+/**
+ * Run a queued refresh job to completion
+ * Each connection runs under its sync lease; a connection already being synced is reported
+ * as skipped_locked since that sync will bring in the same data
+ * A connection whose accounts failed to sync is reported as failed with their errors
+ */
+export async function runAccountRefreshJob(
+  job: AccountRefreshJob,
+  connections: AccountConnection[],
+  plaidClient: PlaidApi,
+  claudeClient?: ClaudeClient
+): Promise<AccountRefreshItemResult[]> {
+  logServiceEvent("account-refresh", "job-start", {
+    userId: job.userId,
+    jobId: job.id,
+    itemCount: connections.length,
+  });
+
+  await markAccountRefreshJobRunning(job.id);
+
+  const results: AccountRefreshItemResult[] = [];
+
+  for (const connection of connections) {
+    const result: AccountRefreshItemResult = {
+      itemId: connection.itemId,
+      institutionName: connection.institutionName ?? null,
+      status: "synced",
+      error: null,
+    };
+
+    if (shouldSkipConnectionSync(connection.status)) {
+      results.push({ ...result, status: "needs_reconnect", error: connection.errorMessage ?? null });
+      continue;
+    }
+
+    try {
+      const startedAt = new Date().toISOString();
+      const locked = await withItemSyncLock(connection.itemId, connection.userId, "manual-refresh", () =>
+        refreshConnection(connection, plaidClient, claudeClient)
+      );
+
+      if (!locked.acquired) {
+        result.status = "skipped_locked";
+      } else {
+        // The sync records item errors on the connection; pick up a break that happened mid-refresh
+        const refreshed = await findAccountConnectionByItemId(connection.itemId);
+        if (shouldSkipConnectionSync(refreshed?.status)) {
+          result.status = "needs_reconnect";
+          result.error = refreshed?.errorMessage ?? null;
+        } else {
+          const accountErrors = await findAccountSyncErrors(connection, startedAt);
+          if (accountErrors.length > 0) {
+            result.status = "failed";
+            result.error = accountErrors.join("; ");
+            logServiceEvent(
+              "account-refresh",
+              "account-sync-failed",
+              { jobId: job.id, itemId: connection.itemId, failedAccounts: accountErrors.length },
+              "warn"
+            );
+          }
+        }
+      }
+    } catch (error: any) {
+      result.status = "failed";
+      result.error = error.message;
+      logServiceEvent(
+        "account-refresh",
+        "connection-refresh-error",
+        { jobId: job.id, itemId: connection.itemId, error: serializeError(error) },
+        "error"
+      );
+    }
+
+    results.push(result);
+  }
+
+  const syncedCount = results.filter((result) => result.status === "synced").length;
+  const anyFailed = results.some((result) => result.status === "failed");
+  let status: "complete" | "partial" | "failed" = "partial";
+  if (syncedCount === results.length) {
+    status = "complete";
+  } else if (syncedCount === 0 && anyFailed) {
+    status = "failed";
+  }
+
+  await completeAccountRefreshJob(job.id, status, results);
+
+  logServiceEvent("account-refresh", "job-complete", {
+    userId: job.userId,
+    jobId: job.id,
+    status,
+    syncedCount,
+    itemCount: results.length,
+  });
+
+  return results;
+}
+
+/**
+ * Start a refresh for all of a user's connections (or the given item IDs)
+ * Returns immediately with the job; the refresh itself runs in the background
+ */
+export async function requestAccountRefresh(
+  userId: string,
+  plaidClient: PlaidApi,
+  options: { itemIds?: string[]; claudeClient?: ClaudeClient } = {}
+): Promise<AccountRefreshRequestResult> {
+  const allConnections = await findAccountConnectionsByUserId(userId);
+  let connections = allConnections;
+
+  if (options.itemIds && options.itemIds.length > 0) {
+    for (const itemId of options.itemIds) {
+      if (!allConnections.some((connection) => connection.itemId === itemId)) {
+        throw new Error(`Connection with item ID "${itemId}" not found`);
+      }
+    }
+    connections = allConnections.filter((connection) => options.itemIds!.includes(connection.itemId));
+  }
+
+  if (connections.length === 0) {
+    throw new Error("No connected accounts to refresh. Use connect-account to link an institution first.");
+  }
+
+  const activeJob = await findLatestAccountRefreshJob(userId, {
+    activeOnly: true,
+    since: new Date(Date.now() - REFRESH_REUSE_WINDOW_MS),
+  });
+  // A running job only stands in for this request if it covers every connection asked for
+  const requestedItemIds = connections.map((connection) => connection.itemId);
+  if (activeJob && requestedItemIds.every((itemId) => activeJob.itemIds.includes(itemId))) {
+    logServiceEvent("account-refresh", "job-reused", { userId, jobId: activeJob.id });
+    return { job: activeJob, reused: true };
+  }
+
+  const job = await createAccountRefreshJob(userId, requestedItemIds);
+
+  // Fire-and-forget; progress is read back through get-refresh-status
+  setImmediate(async () => {
+    try {
+      await runAccountRefreshJob(job, connections, plaidClient, options.claudeClient);
+    } catch (error: any) {
+      logServiceEvent(
+        "account-refresh",
+        "job-error",
+        { userId, jobId: job.id, error: serializeError(error) },
+        "error"
+      );
+      try {
+        await completeAccountRefreshJob(job.id, "failed", [], error.message);
+      } catch {
+        // Already logged above; the job stays "running" and is superseded after the reuse window
+      }
+    }
+  });
+
+  return { job, reused: false };
+}
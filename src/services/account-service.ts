@@ -9,7 +9,9 @@ import crypto from "crypto";
 import {
   AccountConnection,
   upsertAccountConnection,
+  ConnectionStatus,
   findAccountConnectionsByUserId,
+  findAccountConnectionByItemId,
   deleteAccountConnectionByItemId,
 } from "../storage/repositories/account-connections.js";
 import {
@@ -22,8 +24,12 @@ import {
   upsertAccounts,
   PlaidAccountData,
 } from "../storage/repositories/accounts.js";
+import { recordAccountBalances } from "../storage/repositories/account-balance-history.js";
 import { TransactionSyncService } from "./transaction-sync.js";
 import { InvestmentSyncService } from "./investment-sync.js";
+import { LiabilitySyncService } from "./liability-sync.js";
+import { shouldSkipConnectionSync, verifyConnectionRepaired } from "./connection-health.js";
+import { withItemSyncLock } from "./sync-lock.js";
 import { getSupabaseServiceRole } from "../storage/supabase.js";
 import { ClaudeClient } from "../utils/clients/claude.js";
 import { logServiceEvent, serializeError } from "../utils/logger.js";
@@ -64,6 +70,7 @@ export async function initiateAccountConnection(
     },
     country_codes: [CountryCode.Us],
     language: "en",
+    webhook: `${baseUrl}/plaid/webhook`,
   });
 
   const linkToken = response.data.link_token;
@@ -149,7 +156,8 @@ export async function completeAccountConnection(
       })
     );
 
-    await upsertAccounts(session.userId, itemId, plaidAccounts);
+    const storedAccounts = await upsertAccounts(session.userId, itemId, plaidAccounts);
+    await recordAccountBalances(session.userId, storedAccounts);
     logServiceEvent("account-service", "accounts-stored", {
       userId: session.userId,
       itemId,
@@ -177,10 +185,13 @@ export async function completeAccountConnection(
         itemId,
       });
       const syncService = new TransactionSyncService(plaidClient, getSupabaseServiceRole(), claudeClient);
-      await syncService.initiateSyncForConnection(itemId, session.userId, accessToken);
+      const locked = await withItemSyncLock(itemId, session.userId, "initial-sync", () =>
+        syncService.initiateSyncForConnection(itemId, session.userId, accessToken)
+      );
       logServiceEvent("account-service", "background-sync-complete", {
         userId: session.userId,
         itemId,
+        skippedLocked: !locked.acquired,
       });
     } catch (error: any) {
       logServiceEvent(
@@ -222,6 +233,27 @@ export async function completeAccountConnection(
     }
   });
 
+  // Sync liabilities in background (fire-and-forget)
+  // get-liabilities only reads stored data, so new connections need an initial snapshot
+  setImmediate(async () => {
+    try {
+      const liabilitySyncService = new LiabilitySyncService(plaidClient, getSupabaseServiceRole());
+      await liabilitySyncService.syncConnectionLiabilities({
+        itemId,
+        userId: session.userId,
+        accessToken,
+      });
+    } catch (error: any) {
+      logServiceEvent(
+        "account-service",
+        "background-liability-sync-error",
+        { userId: session.userId, itemId, error: serializeError(error) },
+        "error"
+      );
+      // Error is logged but does not affect OAuth callback response
+    }
+  });
+
   logServiceEvent("account-service", "connection-completed", {
     userId: session.userId,
     itemId,
@@ -374,11 +406,82 @@ export async function initiateAccountUpdate(
 
   const linkToken = response.data.link_token;
 
-  // Build Link URL (simpler than new connections - no session needed)
+  // The session authenticates the page's completion report; the item ID says which connection to re-check
+  const sessionId = crypto.randomUUID();
+  await createAccountSession(sessionId, userId);
+
+  // Build Link URL
   const encodedLinkToken = encodeURIComponent(linkToken);
-  const linkUrl = `${baseUrl}/plaid/link?token=${encodedLinkToken}`;
+  const encodedSessionId = encodeURIComponent(sessionId);
+  const linkUrl = `${baseUrl}/plaid/link?token=${encodedLinkToken}&session=${encodedSessionId}&item=${encodeURIComponent(itemId)}`;
 
   logServiceEvent("account-service", "update-link-generated", { userId, itemId });
 
   return { linkUrl };
 }
+
+/**
+ * Complete account update flow
+ * Called when Plaid Link update mode succeeds; the access token is unchanged,
+ * so we only re-check item health with Plaid and resume syncing once it's repaired
+ * The session from initiateAccountUpdate must belong to the connection's owner; it stays
+ * pending until the connection is repaired so a failed check can be retried
+ */
+export async function completeAccountUpdate(
+  sessionId: string,
+  itemId: string,
+  plaidClient: PlaidApi,
+  claudeClient?: ClaudeClient
+): Promise<{ userId: string; itemId: string; status: ConnectionStatus }> {
+  logServiceEvent("account-service", "update-complete-start", { itemId });
+
+  const session = await findAccountSessionById(sessionId);
+  if (!session) {
+    throw new Error("Session not found or expired");
+  }
+
+  if (session.status !== "pending") {
+    throw new Error(`Session already ${session.status}`);
+  }
+
+  const connection = await findAccountConnectionByItemId(itemId);
+  if (!connection || connection.userId !== session.userId) {
+    throw new Error(`Connection with item ID "${itemId}" not found`);
+  }
+
+  const status = await verifyConnectionRepaired(itemId, connection.accessToken, plaidClient);
+
+  if (!shouldSkipConnectionSync(status)) {
+    await markAccountSessionCompleted(sessionId);
+
+    // Catch up on everything missed while the item was broken (fire-and-forget)
+    setImmediate(async () => {
+      try {
+        const syncService = new TransactionSyncService(plaidClient, getSupabaseServiceRole(), claudeClient);
+        const locked = await withItemSyncLock(itemId, connection.userId, "update-mode", () =>
+          syncService.initiateSyncForConnection(itemId, connection.userId, connection.accessToken)
+        );
+        logServiceEvent("account-service", "repair-sync-complete", {
+          userId: connection.userId,
+          itemId,
+          skippedLocked: !locked.acquired,
+        });
+      } catch (error: any) {
+        logServiceEvent(
+          "account-service",
+          "repair-sync-error",
+          { userId: connection.userId, itemId, error: serializeError(error) },
+          "error"
+        );
+      }
+    });
+  }
+
+  logServiceEvent("account-service", "update-complete", {
+    userId: connection.userId,
+    itemId,
+    status,
+  });
+
+  return { userId: connection.userId, itemId, status };
+}
@@ -0,0 +1,138 @@
+/**
+ * Background Jobs Service
+ * Runs fire-and-forget work under a background_jobs record so get-job-status can report
+ * progress, partial failures and the final outcome
+ */
+
+import {
+  BackgroundJob,
+  BackgroundJobCounts,
+  BackgroundJobType,
+  completeBackgroundJob,
+  createBackgroundJob,
+  markBackgroundJobRunning,
+  updateBackgroundJobProgress,
+} from "../storage/repositories/background-jobs.js";
+import { resolveBackgroundJobStatus } from "../utils/background-job-status.js";
+import { logServiceEvent, serializeError } from "../utils/logger.js";
+
+/**
+ * Progress reporting handed to the job's work function
+ * Progress writes never throw; a lost update only makes get-job-status lag behind
+ */
+export interface JobProgress {
+  /** Set how many items the job will process */
+  setTotal(total: number): Promise<void>;
+  /** Count items as attempted; failed items are included in processed */
+  advance(processed: number, failed?: number, errorMessage?: string): Promise<void>;
+  /** Mark the whole job as failed (work that swallows its own errors reports them here) */
+  fail(errorMessage: string): Promise<void>;
+}
+
+/**
+ * Run a job to completion, recording progress and the final status
+ */
+export async function runBackgroundJob(
+  job: BackgroundJob,
+  work: (progress: JobProgress) => Promise<void>
+): Promise<void> {
+  const counts: BackgroundJobCounts = {
+    totalCount: null,
+    processedCount: 0,
+    failedCount: 0,
+    errorMessage: null,
+  };
+  let fatal = false;
+
+  const persist = async () => {
+    try {
+      await updateBackgroundJobProgress(job.id, counts);
+    } catch (error: any) {
+      logServiceEvent(
+        "background-jobs",
+        "progress-write-error",
+        { jobId: job.id, error: serializeError(error) },
+        "warn"
+      );
+    }
+  };
+
+  const progress: JobProgress = {
+    async setTotal(total) {
+      counts.totalCount = total;
+      await persist();
+    },
+    async advance(processed, failed = 0, errorMessage) {
+      counts.processedCount += processed;
+      counts.failedCount += failed;
+      if (errorMessage) {
+        counts.errorMessage = errorMessage;
+      }
+      await persist();
+    },
+    async fail(errorMessage) {
+      fatal = true;
+      counts.errorMessage = errorMessage;
+    },
+  };
+
+  logServiceEvent("background-jobs", "job-start", {
+    userId: job.userId,
+    jobId: job.id,
+    jobType: job.jobType,
+  });
+
+  try {
+    await markBackgroundJobRunning(job.id);
+    await work(progress);
+  } catch (error: any) {
+    fatal = true;
+    counts.errorMessage = error.message;
+    logServiceEvent(
+      "background-jobs",
+      "job-error",
+      { userId: job.userId, jobId: job.id, error: serializeError(error) },
+      "error"
+    );
+  }
+
+  const status = resolveBackgroundJobStatus(counts, fatal);
+  try {
+    await completeBackgroundJob(job.id, status, counts);
+  } catch (error: any) {
+    logServiceEvent(
+      "background-jobs",
+      "complete-write-error",
+      { jobId: job.id, error: serializeError(error) },
+      "error"
+    );
+  }
+
+  logServiceEvent("background-jobs", "job-complete", {
+    userId: job.userId,
+    jobId: job.id,
+    jobType: job.jobType,
+    status,
+    ...counts,
+  });
+}
+
+/**
+ * Create a job record and start the work in the background
+ * Returns immediately with the queued job
+ */
+export async function startBackgroundJob(
+  userId: string,
+  jobType: BackgroundJobType,
+  metadata: Record<string, unknown>,
+  work: (progress: JobProgress) => Promise<void>
+): Promise<BackgroundJob> {
+  const job = await createBackgroundJob(userId, jobType, metadata);
+
+  // Fire-and-forget; runBackgroundJob records its own failures
+  setImmediate(() => {
+    void runBackgroundJob(job, work);
+  });
+
+  return job;
+}
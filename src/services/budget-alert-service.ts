@@ -0,0 +1,98 @@
+/**
+ * Budget Alert Service
+ * Checks each budget's current period against its alert thresholds after a sync and writes
+ * new alerts to the notifications outbox (one per budget, period and threshold)
+ */
+
+import type { SupabaseClient } from "@supabase/supabase-js";
+import type { Database } from "../storage/database.types.js";
+import { getBudgets } from "../storage/budgets/budgets.js";
+import {
+  insertNotifications,
+  Notification,
+  NotificationInput,
+} from "../storage/repositories/notifications.js";
+import {
+  BudgetAlert,
+  formatBudgetAlert,
+  getBudgetAlertDedupeKey,
+  getCrossedAlertThreshold,
+} from "../utils/budget-alerts.js";
+import { getBudgetHistory } from "./budget-spending-service.js";
+import { logServiceEvent, serializeError } from "../utils/logger.js";
+
+/**
+ * Write alerts for budgets whose current-period spending crossed a threshold
+ * @returns Only alerts that hadn't been raised before
+ */
+export async function evaluateBudgetAlerts(
+  userId: string,
+  supabaseClient: SupabaseClient<Database>,
+  now: Date = new Date()
+): Promise<Notification[]> {
+  const budgets = (await getBudgets(userId)).filter(
+    (budget) => budget.processing_status !== "processing" && budget.alert_thresholds.length > 0
+  );
+
+  const alerts: BudgetAlert[] = [];
+  for (const budget of budgets) {
+    try {
+      const [current] = await getBudgetHistory(userId, budget, 0, true, now);
+      if (!current || current.spent <= 0) {
+        continue;
+      }
+
+      // Unrounded, so 79.6% doesn't count as reaching 80%
+      const percentage = current.limit > 0 ? (current.spent / current.limit) * 100 : 100;
+      const threshold = getCrossedAlertThreshold(budget.alert_thresholds, percentage);
+      if (threshold === null) {
+        continue;
+      }
+
+      alerts.push({
+        budgetId: budget.id,
+        budgetTitle: budget.title,
+        threshold,
+        percentage: current.percentage,
+        spent: current.spent,
+        limit: current.limit,
+        periodStart: current.start,
+        periodEnd: current.end,
+      });
+    } catch (error: any) {
+      logServiceEvent(
+        "budget-alerts",
+        "budget-error",
+        { userId, budgetId: budget.id, error: serializeError(error) },
+        "warn"
+      );
+    }
+  }
+
+  const notifications: NotificationInput[] = alerts.map((alert) => ({
+    type: "budget_threshold",
+    dedupeKey: getBudgetAlertDedupeKey(alert.budgetId, alert.periodStart, alert.threshold),
+    ...formatBudgetAlert(alert),
+    data: {
+      budget_id: alert.budgetId,
+      budget_title: alert.budgetTitle,
+      threshold: alert.threshold,
+      percentage: alert.percentage,
+      spent: alert.spent,
+      limit: alert.limit,
+      period_start: alert.periodStart,
+      period_end: alert.periodEnd,
+    },
+  }));
+
+  const created = await insertNotifications(userId, notifications, supabaseClient);
+
+  logServiceEvent("budget-alerts", "complete", {
+    userId,
+    budgetCount: budgets.length,
+    crossedCount: alerts.length,
+    createdCount: created.length,
+  });
+
+  return created;
+}
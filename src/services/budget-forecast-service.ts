@@ -0,0 +1,87 @@
+/**
+ * Budget Forecast Service
+ * Links detected recurring charges to budgets and forecasts each budget's current period
+ * Used by get-budgets
+ */
+
+import type { Budget } from "../storage/budgets/budgets.js";
+import {
+  findRecurringSeriesByUserId,
+  RecurringSeries,
+} from "../storage/repositories/recurring-series.js";
+import { findTransactionsByIds } from "../storage/repositories/transactions.js";
+import { withUserSupabaseRetry } from "../storage/supabase.js";
+import { getBudgetPeriodEnd } from "../utils/budget-periods.js";
+import { BudgetForecast, forecastBudget, getUpcomingCharges } from "../utils/budget-forecast.js";
+import { normalizeMerchantName } from "../utils/recurring-detection.js";
+
+export interface BudgetRecurringSeries extends RecurringSeries {
+  budgetIds: string[]; // Budgets the latest charge is labeled with
+}
+
+/**
+ * Active recurring series with the budgets their latest charge counts toward
+ */
+export async function findBudgetRecurringSeries(userId: string): Promise<BudgetRecurringSeries[]> {
+  return withUserSupabaseRetry(userId, async (supabaseClient) => {
+    const series = (await findRecurringSeriesByUserId(userId, supabaseClient)).filter(
+      (s) => s.status === "active" && s.transactionIds.length > 0
+    );
+
+    const latestIds = series.map((s) => s.transactionIds[s.transactionIds.length - 1]);
+    const latest = await findTransactionsByIds(latestIds, supabaseClient);
+    const budgetIdsByTransaction = new Map(latest.map((tx) => [tx.transactionId, tx.budgetIds ?? []]));
+
+    return series.map((s) => ({
+      ...s,
+      budgetIds: budgetIdsByTransaction.get(s.transactionIds[s.transactionIds.length - 1]) ?? [],
+    }));
+  });
+}
+
+type SpendingLine = { transactionId: string; date: string; name: string; amount: number };
+
+/**
+ * Whether a spending line is a charge from the series
+ * Falls back to the merchant for charges that posted after the series was last detected
+ */
+function isSeriesCharge(series: BudgetRecurringSeries, line: SpendingLine): boolean {
+  return series.transactionIds.includes(line.transactionId) || normalizeMerchantName(line.name) === series.merchantKey;
+}
+
+/**
+ * Forecast a budget's current period
+ * @param lines - The period's spending lines (from findBudgetSpendingLines)
+ * @returns null for rolling budgets, whose window never reaches an end
+ */
+export function getBudgetForecast(
+  budget: Budget,
+  current: { start: string; spent: number; limit: number },
+  lines: SpendingLine[],
+  recurringSeries: BudgetRecurringSeries[],
+  now: Date = new Date()
+): BudgetForecast | null {
+  if (budget.time_period === "rolling") {
+    return null;
+  }
+
+  const today = now.toISOString().split("T")[0];
+  const periodEnd = getBudgetPeriodEnd(budget.time_period, budget.custom_period_days, budget.fixed_period_start_date, now);
+  const budgetSeries = recurringSeries.filter((s) => s.budgetIds.includes(budget.id));
+
+  // Charges already in spent are left out of the pace and not expected again
+  const seriesLines = budgetSeries.map((s) => lines.filter((line) => isSeriesCharge(s, line)));
+  const recurringLines = new Set(seriesLines.flat());
+
+  return forecastBudget({
+    spent: current.spent,
+    limit: current.limit,
+    recurringSpent: [...recurringLines].reduce((sum, line) => sum + line.amount, 0),
+    periodStart: current.start,
+    periodEnd,
+    today,
+    upcomingCharges: budgetSeries.flatMap((s, index) =>
+      getUpcomingCharges(s, today, periodEnd, [s.lastDate, ...seriesLines[index].map((line) => line.date)])
+    ),
+  });
+}
@@ -0,0 +1,188 @@
+/**
+ * Budget Spending Service
+ * Spending against a budget in any of its periods, from pre-labeled transactions and splits
+ * Used by get-budgets and get-budget-history
+ */
+
+import type { Budget } from "../storage/budgets/budgets.js";
+import {
+  findTransactionsByBudgetId,
+  findTransactionsByIds,
+  Transaction,
+} from "../storage/repositories/transactions.js";
+import {
+  findSplitsByBudgetId,
+  findSplitsByTransactionIds,
+} from "../storage/repositories/transaction-splits.js";
+import { withUserSupabaseRetry } from "../storage/supabase.js";
+import { expandSplitTransactions, SplitLine } from "../utils/transaction-splits.js";
+import { BudgetPeriod, getBudgetDateRange, getPreviousBudgetPeriods } from "../utils/budget-periods.js";
+import {
+  BudgetRollover,
+  calculateBudgetRollover,
+  isRolloverMode,
+  MAX_ROLLOVER_PERIODS,
+} from "../utils/budget-rollover.js";
+
+export type BudgetStatus = "under" | "near" | "over";
+
+export interface BudgetPeriodPerformance extends BudgetPeriod {
+  limit: number; // Includes rollover carryover
+  spent: number;
+  remaining: number;
+  percentage: number; // Rounded
+  status: BudgetStatus;
+  transactionCount: number;
+  current: boolean; // The period in progress (it ends today)
+}
+
+/**
+ * Status from the share of the limit spent: under (< 70%), near (70-99%) or over (>= 100%)
+ */
+export function getBudgetStatus(percentage: number): BudgetStatus {
+  return percentage >= 100 ? "over" : percentage >= 70 ? "near" : "under";
+}
+
+/**
+ * Spending lines for a budget in a date range: labeled transactions that aren't split, plus
+ * labeled splits whose parent transaction falls in the range
+ */
+export async function findBudgetSpendingLines(
+  userId: string,
+  budgetId: string,
+  startDate: string,
+  endDate: string
+): Promise<SplitLine<Transaction>[]> {
+  return withUserSupabaseRetry(userId, async (supabaseClient) => {
+    const transactions = await findTransactionsByBudgetId(userId, budgetId, { supabaseClient, startDate, endDate });
+    const budgetSplits = await findSplitsByBudgetId(userId, budgetId, supabaseClient);
+
+    // A parent labeled before it was split must not count on top of its splits
+    const splitParentIds = new Set(
+      (await findSplitsByTransactionIds(transactions.map((tx) => tx.transactionId), supabaseClient))
+        .map((split) => split.transactionId)
+    );
+
+    const parents = (
+      await findTransactionsByIds([...new Set(budgetSplits.map((split) => split.transactionId))], supabaseClient)
+    ).filter((tx) => tx.date >= startDate && tx.date <= endDate);
+
+    // Internal transfers never count, even if a label outlived the match
+    return [
+      ...expandSplitTransactions(transactions.filter((tx) => !splitParentIds.has(tx.transactionId)), []),
+      ...expandSplitTransactions(parents, budgetSplits),
+    ]
+      .filter((line) => !line.transferPairId)
+      .sort((a, b) => b.date.localeCompare(a.date));
+  });
+}
+
+/**
+ * Carryover into the current period from the budget's past periods
+ * Returns null when the budget doesn't roll over (rolling budgets never do)
+ */
+export async function findBudgetRollover(
+  userId: string,
+  budget: Budget,
+  now: Date = new Date()
+): Promise<BudgetRollover | null> {
+  const mode = budget.rollover_mode;
+  if (!isRolloverMode(mode) || mode === "none" || budget.time_period === "rolling") {
+    return null;
+  }
+
+  // Periods from the one containing rollover_start_date onward, oldest first
+  const periods = getPreviousBudgetPeriods(
+    budget.time_period,
+    budget.custom_period_days,
+    budget.fixed_period_start_date,
+    MAX_ROLLOVER_PERIODS,
+    now
+  )
+    .filter((period) => !budget.rollover_start_date || period.end >= budget.rollover_start_date)
+    .reverse();
+
+  const lines = periods.length > 0
+    ? await findBudgetSpendingLines(userId, budget.id, periods[0].start, periods[periods.length - 1].end)
+    : [];
+
+  return calculateBudgetRollover(
+    budget.budget_amount,
+    mode,
+    budget.rollover_cap,
+    periods.map((period) => ({
+      ...period,
+      spent: lines
+        .filter((line) => line.date >= period.start && line.date <= period.end)
+        .reduce((sum, line) => sum + line.amount, 0),
+    }))
+  );
+}
+
+/**
+ * Spending, limit and status for each of the budget's last periods, oldest first
+ * @param pastPeriodCount - Complete periods before the current one
+ * @param includeCurrent - Also include the period in progress (last)
+ */
+export async function getBudgetHistory(
+  userId: string,
+  budget: Budget,
+  pastPeriodCount: number,
+  includeCurrent: boolean,
+  now: Date = new Date()
+): Promise<BudgetPeriodPerformance[]> {
+  const { start, end } = getBudgetDateRange(
+    budget.time_period,
+    budget.custom_period_days,
+    budget.fixed_period_start_date,
+    now
+  );
+  const current = {
+    start: start.toISOString().split("T")[0],
+    end: end.toISOString().split("T")[0],
+  };
+
+  const periods: (BudgetPeriod & { current: boolean })[] = [
+    ...getPreviousBudgetPeriods(
+      budget.time_period,
+      budget.custom_period_days,
+      budget.fixed_period_start_date,
+      pastPeriodCount,
+      now
+    )
+      .reverse()
+      .map((period) => ({ ...period, current: false })),
+    ...(includeCurrent ? [{ ...current, current: true }] : []),
+  ];
+
+  if (periods.length === 0) {
+    return [];
+  }
+
+  const lines = await findBudgetSpendingLines(userId, budget.id, periods[0].start, periods[periods.length - 1].end);
+
+  // Past limits include what carried into them; periods before rollover started use the base amount
+  const rollover = await findBudgetRollover(userId, budget, now);
+  const limitsByStart = new Map((rollover?.periods ?? []).map((period) => [period.start, period.limit]));
+
+  return periods.map((period) => {
+    const periodLines = lines.filter((line) => line.date >= period.start && line.date <= period.end);
+    const spent = Math.round(periodLines.reduce((sum, line) => sum + line.amount, 0) * 100) / 100;
+    const limit = period.current
+      ? budget.budget_amount + (rollover?.carryover ?? 0)
+      : limitsByStart.get(period.start) ?? budget.budget_amount;
+    const percentage = limit > 0 ? (spent / limit) * 100 : 100;
+
+    return {
+      start: period.start,
+      end: period.end,
+      limit,
+      spent,
+      remaining: Math.round((limit - spent) * 100) / 100,
+      percentage: Math.round(percentage),
+      status: getBudgetStatus(percentage),
+      transactionCount: periodLines.length,
+      current: period.current,
+    };
+  });
+}
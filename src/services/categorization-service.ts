@@ -0,0 +1,480 @@
+/**
+ * Categorization Service
+ * Applies the user's structured rules first, then cached merchant categories, and sends only
+ * the remaining transactions to Claude
+ */
+
+import type { SupabaseClient } from "@supabase/supabase-js";
+import type { Database } from "../storage/database.types.js";
+import { getCategorizationRules } from "../storage/categorization/categorization-rules.js";
+import {
+  batchUpdateTransactionTags,
+  CategorySource,
+  findTransactionsByIds,
+  findTransactionsByUserId,
+  setTransactionCategoryOverride,
+  Transaction,
+  updateTransactionCategories,
+} from "../storage/repositories/transactions.js";
+import {
+  deleteTransactionSplits,
+  NewTransactionSplit,
+  replaceTransactionSplits,
+  TransactionSplit,
+} from "../storage/repositories/transaction-splits.js";
+import {
+  findMerchantCategoryCacheEntries,
+  upsertMerchantCategoryCacheEntries,
+} from "../storage/repositories/merchant-category-cache.js";
+import { Budget, getBudgets } from "../storage/budgets/budgets.js";
+import { labelTransactionArrayForBudgets } from "../utils/budget-labeling.js";
+import { relabelCategoryBudgets } from "../utils/budget-processing-worker.js";
+import {
+  categorizeTransactions,
+  TransactionForCategorization,
+  ClaudeClient,
+} from "../utils/clients/claude.js";
+import {
+  CategorizationRule,
+  findMatchingRule,
+  RuleMatchInput,
+  sortCategorizationRules,
+} from "../utils/categorization-rules.js";
+import {
+  getMerchantCacheKey,
+  isMerchantCacheEntryUsable,
+  MerchantCacheEntry,
+  MerchantCacheKey,
+  merchantCacheKeyString,
+  recordMerchantCategoryObservation,
+} from "../utils/merchant-category-cache.js";
+import { addTags, MAX_TAGS_PER_TRANSACTION, removeTags } from "../utils/transaction-tags.js";
+import { logServiceEvent, serializeError } from "../utils/logger.js";
+
+/**
+ * Sources an automatic categorization can produce; "manual" only comes from an override
+ */
+export type AutomaticCategorySource = Exclude<CategorySource, "manual">;
+
+/**
+ * A transaction to categorize: the prompt row for Claude plus the fields rules match on
+ */
+export interface CategorizationCandidate {
+  transaction: TransactionForCategorization;
+  match: RuleMatchInput;
+}
+
+export interface CategorizationOutcome {
+  customCategory: string | null;
+  source: AutomaticCategorySource | null;
+  ruleId: string | null;
+  fromCache: boolean; // AI category reused from merchant_category_cache
+}
+
+/**
+ * Load a user's rules for a sync or recategorization run
+ * A failed lookup falls back to Claude-only categorization rather than failing the run
+ */
+export async function loadCategorizationRules(
+  userId: string,
+  supabaseClient?: SupabaseClient<Database>
+): Promise<CategorizationRule[]> {
+  try {
+    return sortCategorizationRules(await getCategorizationRules(userId, supabaseClient));
+  } catch (error: any) {
+    logServiceEvent(
+      "categorization",
+      "rules-load-error",
+      { userId, error: serializeError(error) },
+      "warn"
+    );
+    return [];
+  }
+}
+
+/**
+ * Look up cached AI categories for candidates no rule matched
+ * Cache errors are logged and treated as misses so categorization still happens
+ */
+async function loadMerchantCache(
+  userId: string,
+  keys: (MerchantCacheKey | null)[],
+  supabaseClient: SupabaseClient<Database>
+): Promise<Map<string, MerchantCacheEntry>> {
+  const merchantKeys = [...new Set(keys.flatMap((key) => (key ? [key.merchantKey] : [])))];
+  try {
+    const entries = await findMerchantCategoryCacheEntries(userId, merchantKeys, supabaseClient);
+    return new Map(entries.map((entry) => [merchantCacheKeyString(entry), entry]));
+  } catch (error: any) {
+    logServiceEvent("categorization", "merchant-cache-load-error", { userId, error: serializeError(error) }, "warn");
+    return new Map();
+  }
+}
+
+/**
+ * Categorize transactions: structured rules first, then the merchant cache (when given a
+ * client), then Claude for the rest
+ * @param rules - Rules in evaluation order (see loadCategorizationRules)
+ * @param customRules - Free-text rules passed through to the Claude prompt
+ * @param categoryList - The user's taxonomy for the Claude prompt (see loadCategoryPromptList)
+ * @param merchantCacheClient - Client for merchant_category_cache; omit to always ask Claude
+ * @returns One outcome per candidate, in input order
+ */
+export async function categorizeWithRules(
+  userId: string,
+  candidates: CategorizationCandidate[],
+  rules: CategorizationRule[],
+  options: {
+    customRules?: string;
+    categoryList?: string;
+    claudeClient?: ClaudeClient;
+    merchantCacheClient?: SupabaseClient<Database>;
+  } = {}
+): Promise<CategorizationOutcome[]> {
+  const outcomes: CategorizationOutcome[] = new Array(candidates.length);
+  let unmatchedIndexes: number[] = [];
+
+  candidates.forEach((candidate, index) => {
+    const match = findMatchingRule(rules, candidate.match);
+    if (match) {
+      outcomes[index] = { customCategory: match.category, source: "rule", ruleId: match.ruleId, fromCache: false };
+    } else {
+      unmatchedIndexes.push(index);
+    }
+  });
+
+  const ruleMatched = candidates.length - unmatchedIndexes.length;
+
+  const cacheKeys = candidates.map((candidate) =>
+    getMerchantCacheKey(candidate.match.name, candidate.match.amount)
+  );
+  let cache = new Map<string, MerchantCacheEntry>();
+  let cacheHits = 0;
+
+  if (options.merchantCacheClient && unmatchedIndexes.length > 0) {
+    cache = await loadMerchantCache(
+      userId,
+      unmatchedIndexes.map((index) => cacheKeys[index]),
+      options.merchantCacheClient
+    );
+
+    unmatchedIndexes = unmatchedIndexes.filter((index) => {
+      const key = cacheKeys[index];
+      const entry = key ? cache.get(merchantCacheKeyString(key)) : undefined;
+      if (entry && isMerchantCacheEntryUsable(entry)) {
+        outcomes[index] = { customCategory: entry.category, source: "ai", ruleId: null, fromCache: true };
+        cacheHits++;
+        return false;
+      }
+      return true;
+    });
+
+    const lookups = cacheHits + unmatchedIndexes.length;
+    logServiceEvent("categorization", "merchant-cache", {
+      userId,
+      lookups,
+      hits: cacheHits,
+      hitRate: lookups > 0 ? Number((cacheHits / lookups).toFixed(3)) : 0,
+    });
+  }
+
+  logServiceEvent("categorization", "rules-applied", {
+    userId,
+    total: candidates.length,
+    ruleMatched,
+    cacheHits,
+    sentToClaude: unmatchedIndexes.length,
+  });
+
+  if (unmatchedIndexes.length > 0) {
+    const categorized = await categorizeTransactions(
+      unmatchedIndexes.map((index) => candidates[index].transaction),
+      options.customRules,
+      options.claudeClient,
+      options.categoryList
+    );
+
+    const changedEntries = new Map<string, MerchantCacheEntry>();
+    unmatchedIndexes.forEach((candidateIndex, resultIndex) => {
+      const category = categorized[resultIndex]?.custom_category || null;
+      outcomes[candidateIndex] = {
+        customCategory: category,
+        source: category ? "ai" : null,
+        ruleId: null,
+        fromCache: false,
+      };
+
+      const key = cacheKeys[candidateIndex];
+      if (options.merchantCacheClient && key && category) {
+        const keyString = merchantCacheKeyString(key);
+        const entry = recordMerchantCategoryObservation(key, cache.get(keyString) ?? null, category);
+        cache.set(keyString, entry);
+        changedEntries.set(keyString, entry);
+      }
+    });
+
+    if (options.merchantCacheClient && changedEntries.size > 0) {
+      try {
+        await upsertMerchantCategoryCacheEntries(
+          userId,
+          [...changedEntries.values()],
+          options.merchantCacheClient
+        );
+      } catch (error: any) {
+        // The categories themselves are fine; the next sync just asks Claude again
+        logServiceEvent("categorization", "merchant-cache-save-error", { userId, error: serializeError(error) }, "warn");
+      }
+    }
+  }
+
+  return outcomes;
+}
+
+/**
+ * Apply a newly created rule to already-stored transactions
+ * Purely deterministic (no Claude call): a transaction is updated only when this rule is the
+ * first match in evaluation order, so higher-priority rules keep their transactions.
+ * Manually overridden transactions are left alone; budgets with a category criterion are
+ * re-matched in the background
+ * @returns Number of transactions whose category changed
+ */
+export async function applyRuleToExistingTransactions(
+  userId: string,
+  ruleId: string,
+  supabaseClient: SupabaseClient<Database>
+): Promise<number> {
+  const rules = sortCategorizationRules(await getCategorizationRules(userId, supabaseClient));
+  const transactions = await findTransactionsByUserId(userId, supabaseClient);
+
+  const updates: { transactionId: string; customCategory: string; categorySource: "rule"; categoryRuleId: string }[] = [];
+  for (const tx of transactions) {
+    if (tx.categoryLocked) {
+      continue;
+    }
+    const match = findMatchingRule(rules, {
+      name: tx.name,
+      amount: tx.amount,
+      accountId: tx.accountId,
+      plaidCategory: tx.plaidCategory,
+    });
+    if (match?.ruleId === ruleId && tx.customCategory !== match.category) {
+      updates.push({
+        transactionId: tx.transactionId,
+        customCategory: match.category,
+        categorySource: "rule",
+        categoryRuleId: ruleId,
+      });
+    }
+  }
+
+  if (updates.length > 0) {
+    await updateTransactionCategories(updates, supabaseClient);
+    // Budgets that filter by category can gain or lose matches
+    await relabelCategoryBudgets(userId);
+  }
+
+  logServiceEvent("categorization", "rule-applied-to-existing", {
+    userId,
+    ruleId,
+    scanned: transactions.length,
+    updated: updates.length,
+  });
+
+  return updates.length;
+}
+
+/**
+ * Record a manual category for transactions and lock it against recategorization
+ * Budget labels for the changed transactions are refreshed in the background
+ * @returns The updated transactions (unknown IDs are skipped)
+ */
+export async function overrideTransactionCategory(
+  userId: string,
+  transactionIds: string[],
+  category: string,
+  supabaseClient: SupabaseClient<Database>,
+  claudeClient?: ClaudeClient
+): Promise<Transaction[]> {
+  const updated = await setTransactionCategoryOverride(userId, transactionIds, category, supabaseClient);
+
+  logServiceEvent("categorization", "manual-override", {
+    userId,
+    requested: transactionIds.length,
+    updated: updated.length,
+  });
+
+  if (updated.length > 0) {
+    // Budget membership may depend on the new category
+    relabelBudgetsInBackground(userId, updated, supabaseClient, claudeClient, "override-budget-labeling-error");
+  }
+
+  return updated;
+}
+
+/**
+ * Split a transaction into parts with their own amounts and categories, replacing any
+ * existing split. Spending totals and budgets count the splits instead of the transaction;
+ * budget labels are refreshed in the background
+ * @param splits - Already checked with validateTransactionSplits
+ */
+export async function splitTransaction(
+  userId: string,
+  transaction: Transaction,
+  splits: NewTransactionSplit[],
+  supabaseClient: SupabaseClient<Database>,
+  claudeClient?: ClaudeClient
+): Promise<TransactionSplit[]> {
+  const saved = await replaceTransactionSplits(userId, transaction.transactionId, splits, supabaseClient);
+
+  logServiceEvent("categorization", "transaction-split", {
+    userId,
+    transactionId: transaction.transactionId,
+    splitCount: saved.length,
+  });
+
+  relabelBudgetsInBackground(userId, [transaction], supabaseClient, claudeClient, "split-budget-labeling-error");
+
+  return saved;
+}
+
+/**
+ * Undo a split so the whole transaction counts under its own category again
+ * @returns Number of splits removed
+ */
+export async function unsplitTransaction(
+  userId: string,
+  transaction: Transaction,
+  supabaseClient: SupabaseClient<Database>,
+  claudeClient?: ClaudeClient
+): Promise<number> {
+  const removed = await deleteTransactionSplits(userId, transaction.transactionId, supabaseClient);
+
+  logServiceEvent("categorization", "transaction-unsplit", {
+    userId,
+    transactionId: transaction.transactionId,
+    removed,
+  });
+
+  if (removed > 0) {
+    relabelBudgetsInBackground(userId, [transaction], supabaseClient, claudeClient, "unsplit-budget-labeling-error");
+  }
+
+  return removed;
+}
+
+/**
+ * Add tags to transactions
+ * A transaction that would end up with more than MAX_TAGS_PER_TRANSACTION tags is left as is.
+ * Tag budgets are relabeled in the background when a transaction's tags changed
+ * @param tags - Already normalized with normalizeTags
+ * @returns The transactions found (unknown IDs are skipped), with their new tags
+ */
+export async function tagTransactions(
+  userId: string,
+  transactionIds: string[],
+  tags: string[],
+  supabaseClient: SupabaseClient<Database>,
+  claudeClient?: ClaudeClient
+): Promise<Transaction[]> {
+  return updateTransactionTags(
+    userId,
+    transactionIds,
+    (current) => {
+      const next = addTags(current, tags);
+      return next.length > MAX_TAGS_PER_TRANSACTION ? current : next;
+    },
+    supabaseClient,
+    claudeClient
+  );
+}
+
+/**
+ * Remove tags from transactions
+ * @returns The transactions found (unknown IDs are skipped), with their new tags
+ */
+export async function untagTransactions(
+  userId: string,
+  transactionIds: string[],
+  tags: string[],
+  supabaseClient: SupabaseClient<Database>,
+  claudeClient?: ClaudeClient
+): Promise<Transaction[]> {
+  return updateTransactionTags(userId, transactionIds, (current) => removeTags(current, tags), supabaseClient, claudeClient);
+}
+
+async function updateTransactionTags(
+  userId: string,
+  transactionIds: string[],
+  change: (current: string[]) => string[],
+  supabaseClient: SupabaseClient<Database>,
+  claudeClient?: ClaudeClient
+): Promise<Transaction[]> {
+  const transactions = (await findTransactionsByIds(transactionIds, supabaseClient)).filter(
+    (tx) => tx.userId === userId
+  );
+  const updated = transactions.map((tx) => ({ ...tx, tags: change(tx.tags) }));
+  const changed = updated.filter((tx, index) => tx.tags.join(",") !== transactions[index].tags.join(","));
+
+  if (changed.length > 0) {
+    await batchUpdateTransactionTags(
+      userId,
+      changed.map((tx) => ({ transactionId: tx.transactionId, tags: tx.tags })),
+      supabaseClient
+    );
+
+    // Only tag budgets (and budgets with tag criteria) look at tags
+    relabelBudgetsInBackground(userId, changed, supabaseClient, claudeClient, "tag-budget-labeling-error", (budgets) =>
+      budgets.some((budget) => budget.tag || budget.filter_tags.length > 0)
+    );
+  }
+
+  logServiceEvent("categorization", "tags-updated", {
+    userId,
+    requested: transactionIds.length,
+    found: transactions.length,
+    changed: changed.length,
+  });
+
+  return updated;
+}
+
+/**
+ * Fire-and-forget budget relabeling for transactions whose category, split, tags or transfer
+ * link changed
+ * @param needsRelabel - Whether the user's budgets can be affected by the change
+ */
+export function relabelBudgetsInBackground(
+  userId: string,
+  transactions: Transaction[],
+  supabaseClient: SupabaseClient<Database>,
+  claudeClient: ClaudeClient | undefined,
+  errorEvent: string,
+  needsRelabel: (budgets: Budget[]) => boolean = (budgets) => budgets.length > 0
+): void {
+  setImmediate(async () => {
+    try {
+      const budgets = await getBudgets(userId);
+      if (needsRelabel(budgets)) {
+        await labelTransactionArrayForBudgets(
+          transactions.map((tx) => ({
+            transactionId: tx.transactionId,
+            date: tx.date,
+            name: tx.name,
+            amount: tx.amount,
+            customCategory: tx.customCategory,
+            accountName: tx.accountName,
+            accountId: tx.accountId,
+            pending: tx.pending,
+            tags: tx.tags,
+            transferPairId: tx.transferPairId,
+          })),
+          budgets,
+          supabaseClient,
+          claudeClient
+        );
+      }
+    } catch (error: any) {
+      logServiceEvent("categorization", errorEvent, { userId, error: serializeError(error) }, "warn");
+    }
+  });
+}
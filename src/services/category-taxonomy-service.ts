@@ -0,0 +1,231 @@
+/**
+ * Category Taxonomy Service
+ * Loads a user's category tree for categorization and filtering, and applies edits
+ * (create, rename, merge) together with the transactions and rules that use the names
+ */
+
+import type { SupabaseClient } from "@supabase/supabase-js";
+import type { Database } from "../storage/database.types.js";
+import {
+  createCategory,
+  deleteCategory,
+  getCategories,
+  insertDefaultCategories,
+  moveSubcategories,
+  updateCategoryName,
+} from "../storage/categorization/categories.js";
+import { renameCategorizationRuleCategory } from "../storage/categorization/categorization-rules.js";
+import { renameBudgetFilterCategory } from "../storage/budgets/budgets.js";
+import { renameTransactionCategory } from "../storage/repositories/transactions.js";
+import { renameSplitCategory } from "../storage/repositories/transaction-splits.js";
+import { clearMerchantCategoryCache } from "../storage/repositories/merchant-category-cache.js";
+import {
+  Category,
+  DEFAULT_CATEGORIES,
+  findCategoryByName,
+  formatTaxonomyForPrompt,
+  getDefaultTaxonomy,
+  getSubcategories,
+  validateNewCategory,
+} from "../utils/category-taxonomy.js";
+import { relabelCategoryBudgets } from "../utils/budget-processing-worker.js";
+import { logServiceEvent, serializeError } from "../utils/logger.js";
+
+export interface NewUserCategory {
+  name: string;
+  parentName?: string | null;
+  description?: string | null;
+  color?: string | null;
+  icon?: string | null;
+  excludeFromSpending?: boolean;
+}
+
+export interface CategoryMigrationResult {
+  category: Category;
+  transactionsUpdated: number;
+  budgetsRelabeled: number;
+}
+
+/**
+ * Get a user's taxonomy, or the defaults when they haven't edited it
+ * A failed lookup falls back to the defaults rather than failing sync or a tool call
+ */
+export async function loadCategoryTaxonomy(
+  userId: string,
+  supabaseClient?: SupabaseClient<Database>
+): Promise<Category[]> {
+  try {
+    const stored = await getCategories(userId, supabaseClient);
+    return stored.length > 0 ? stored : getDefaultTaxonomy();
+  } catch (error: any) {
+    logServiceEvent(
+      "category-taxonomy",
+      "load-error",
+      { userId, error: serializeError(error) },
+      "warn"
+    );
+    return getDefaultTaxonomy();
+  }
+}
+
+/**
+ * The user's taxonomy rendered as the category list for the categorization prompt
+ */
+export async function loadCategoryPromptList(
+  userId: string,
+  supabaseClient?: SupabaseClient<Database>
+): Promise<string> {
+  return formatTaxonomyForPrompt(await loadCategoryTaxonomy(userId, supabaseClient));
+}
+
+/**
+ * Get the stored taxonomy, copying the defaults in on a user's first edit
+ */
+async function getEditableTaxonomy(userId: string): Promise<Category[]> {
+  const stored = await getCategories(userId);
+  if (stored.length > 0) {
+    return stored;
+  }
+  return insertDefaultCategories(userId, DEFAULT_CATEGORIES);
+}
+
+function requireCategory(categories: Category[], name: string): Category {
+  const category = findCategoryByName(categories, name);
+  if (!category) {
+    throw new Error(`Category "${name}" not found. Use list-categories to see the user's categories.`);
+  }
+  return category;
+}
+
+/**
+ * Cached AI answers were given against the old category list
+ */
+async function invalidateCategoryCache(
+  userId: string,
+  supabaseClient: SupabaseClient<Database>
+): Promise<void> {
+  await clearMerchantCategoryCache(userId, supabaseClient);
+}
+
+/**
+ * Add a category or subcategory
+ */
+export async function createUserCategory(
+  userId: string,
+  input: NewUserCategory,
+  supabaseClient: SupabaseClient<Database>
+): Promise<Category> {
+  const categories = await getEditableTaxonomy(userId);
+
+  const validationError = validateNewCategory(categories, input);
+  if (validationError) {
+    throw new Error(validationError);
+  }
+
+  const parent = input.parentName ? findCategoryByName(categories, input.parentName) : undefined;
+  const created = await createCategory(userId, {
+    name: input.name.trim(),
+    parentId: parent?.id ?? null,
+    description: input.description?.trim() || null,
+    color: input.color ?? null,
+    icon: input.icon ?? null,
+    excludeFromSpending: input.excludeFromSpending ?? false,
+  });
+
+  await invalidateCategoryCache(userId, supabaseClient);
+  return created;
+}
+
+/**
+ * Rename a category and every transaction, rule and budget criterion that uses the old name
+ */
+export async function renameUserCategory(
+  userId: string,
+  currentName: string,
+  newName: string,
+  supabaseClient: SupabaseClient<Database>
+): Promise<CategoryMigrationResult> {
+  const categories = await getEditableTaxonomy(userId);
+  const category = requireCategory(categories, currentName);
+
+  const name = newName.trim();
+  if (!name) {
+    throw new Error("A category needs a name");
+  }
+  const conflict = findCategoryByName(categories, name);
+  if (conflict && conflict.id !== category.id) {
+    throw new Error(`Category "${conflict.name}" already exists. Use merge-categories to combine them.`);
+  }
+
+  // Values first: if this fails the old name still resolves and the rename can be retried
+  const transactionsUpdated = await renameTransactionCategory(userId, category.name, name, supabaseClient);
+  await renameSplitCategory(userId, category.name, name, supabaseClient);
+  await renameCategorizationRuleCategory(userId, category.name, name);
+  const budgets = await renameBudgetFilterCategory(userId, category.name, name);
+  await updateCategoryName(userId, category.id, name);
+  await invalidateCategoryCache(userId, supabaseClient);
+  await relabelCategoryBudgets(userId, budgets);
+
+  logServiceEvent("category-taxonomy", "renamed", {
+    userId,
+    categoryId: category.id,
+    transactionsUpdated,
+    budgetsRelabeled: budgets.length,
+  });
+
+  return { category: { ...category, name }, transactionsUpdated, budgetsRelabeled: budgets.length };
+}
+
+/**
+ * Fold one category into another: its transactions, rules and budget criteria move to the
+ * target, its subcategories are moved under the target, and the category is deleted
+ */
+export async function mergeUserCategories(
+  userId: string,
+  sourceName: string,
+  targetName: string,
+  supabaseClient: SupabaseClient<Database>
+): Promise<CategoryMigrationResult> {
+  const categories = await getEditableTaxonomy(userId);
+  const source = requireCategory(categories, sourceName);
+  const target = requireCategory(categories, targetName);
+
+  if (source.id === target.id) {
+    throw new Error("Choose two different categories to merge");
+  }
+  if (target.parentId === source.id) {
+    throw new Error(`"${target.name}" is a subcategory of "${source.name}"; merge it the other way around`);
+  }
+
+  const subcategories = getSubcategories(categories, source.id);
+  if (subcategories.length > 0 && target.parentId !== null) {
+    throw new Error(
+      `"${source.name}" has subcategories and "${target.name}" is itself a subcategory; merge into a top-level category instead`
+    );
+  }
+
+  const transactionsUpdated = await renameTransactionCategory(userId, source.name, target.name, supabaseClient);
+  await renameSplitCategory(userId, source.name, target.name, supabaseClient);
+  await renameCategorizationRuleCategory(userId, source.name, target.name);
+  await renameBudgetFilterCategory(userId, source.name, target.name);
+  if (subcategories.length > 0) {
+    await moveSubcategories(userId, source.id, target.id);
+  }
+  await deleteCategory(userId, source.id);
+  await invalidateCategoryCache(userId, supabaseClient);
+
+  // Transactions changed category, so any category budget (the target's, or a parent's) can gain
+  // or lose matches
+  const budgets = await relabelCategoryBudgets(userId);
+
+  logServiceEvent("category-taxonomy", "merged", {
+    userId,
+    sourceId: source.id,
+    targetId: target.id,
+    transactionsUpdated,
+    subcategoriesMoved: subcategories.length,
+    budgetsRelabeled: budgets.length,
+  });
+
+  return { category: target, transactionsUpdated, budgetsRelabeled: budgets.length };
+}
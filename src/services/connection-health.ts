@@ -0,0 +1,160 @@
+/**
+ * Connection Health Service
+ * Classifies Plaid item errors into typed connection states and records them on plaid_connections
+ * so broken items are skipped by syncs and surfaced with a reconnect action
+ */
+
+import { PlaidApi } from "plaid";
+import {
+  ConnectionStatus,
+  updateAccountConnectionStatus,
+} from "../storage/repositories/account-connections.js";
+import { getPlaidItemError } from "../utils/plaid-errors.js";
+import { logServiceEvent, serializeError } from "../utils/logger.js";
+
+/**
+ * Error codes that mean the user has to log in again through Link update mode
+ */
+const LOGIN_REQUIRED_CODES = new Set([
+  "ITEM_LOGIN_REQUIRED",
+  "INVALID_CREDENTIALS",
+  "INVALID_MFA",
+  "INVALID_UPDATED_USERNAME",
+  "INSUFFICIENT_CREDENTIALS",
+  "ITEM_LOCKED",
+  "USER_SETUP_REQUIRED",
+  "MFA_NOT_SUPPORTED",
+]);
+
+/**
+ * Error codes for outages on the institution's side; these clear on their own
+ */
+const INSTITUTION_DOWN_CODES = new Set([
+  "INSTITUTION_DOWN",
+  "INSTITUTION_NOT_RESPONDING",
+  "INSTITUTION_NOT_AVAILABLE",
+]);
+
+/**
+ * Other item errors that won't resolve until the user reconnects
+ */
+const RECONNECT_REQUIRED_CODES = new Set([
+  "ACCESS_NOT_GRANTED",
+  "NO_ACCOUNTS",
+  "INSTITUTION_NO_LONGER_SUPPORTED",
+]);
+
+/**
+ * Map a Plaid error code to the connection status it implies
+ * Returns null when the error doesn't say anything about item health (rate limits, bad input, ...)
+ */
+export function getConnectionStatusForError(
+  errorCode: string,
+  errorType?: string | null
+): ConnectionStatus | null {
+  if (errorCode === "PENDING_EXPIRATION" || errorCode === "PENDING_DISCONNECT") {
+    return "pending_expiration";
+  }
+  if (LOGIN_REQUIRED_CODES.has(errorCode)) {
+    return "login_required";
+  }
+  if (INSTITUTION_DOWN_CODES.has(errorCode) || errorType === "INSTITUTION_ERROR") {
+    return "institution_down";
+  }
+  if (RECONNECT_REQUIRED_CODES.has(errorCode)) {
+    return "error";
+  }
+  return null;
+}
+
+/**
+ * Whether syncs should skip a connection until the user repairs it via update-account-link
+ * institution_down is still retried since outages are temporary
+ */
+export function shouldSkipConnectionSync(status?: ConnectionStatus | null): boolean {
+  return status === "login_required" || status === "error";
+}
+
+/**
+ * Whether to offer the user a reconnect action
+ * Includes pending_expiration, which still syncs but stops once consent lapses
+ */
+export function connectionNeedsReconnect(status?: ConnectionStatus | null): boolean {
+  return shouldSkipConnectionSync(status) || status === "pending_expiration";
+}
+
+/**
+ * Record the connection status implied by a failed Plaid call
+ * @returns The status written, or null when the error wasn't an item health error
+ */
+export async function recordConnectionError(
+  itemId: string,
+  error: any
+): Promise<ConnectionStatus | null> {
+  const itemError = getPlaidItemError(error);
+  if (!itemError) {
+    return null;
+  }
+
+  const status = getConnectionStatusForError(itemError.errorCode, itemError.errorType);
+  if (!status) {
+    return null;
+  }
+
+  try {
+    await updateAccountConnectionStatus(itemId, status, itemError.errorCode, itemError.errorMessage);
+    logServiceEvent("connection-health", "status-recorded", {
+      itemId,
+      status,
+      errorCode: itemError.errorCode,
+    });
+  } catch (updateError: any) {
+    // The sync is already failing; don't mask the original Plaid error
+    logServiceEvent(
+      "connection-health",
+      "status-record-error",
+      { itemId, status, error: serializeError(updateError) },
+      "warn"
+    );
+  }
+
+  return status;
+}
+
+/**
+ * Re-check an item with Plaid after the user completes Link update mode
+ * Marks the connection active when Plaid no longer reports an item error
+ * @returns The connection status after the check
+ */
+export async function verifyConnectionRepaired(
+  itemId: string,
+  accessToken: string,
+  plaidClient: PlaidApi
+): Promise<ConnectionStatus> {
+  logServiceEvent("connection-health", "verify-repair-start", { itemId });
+
+  const response = await plaidClient.itemGet({ access_token: accessToken });
+  const itemError = response.data.item.error;
+
+  if (!itemError) {
+    await updateAccountConnectionStatus(itemId, "active");
+    logServiceEvent("connection-health", "verify-repair-complete", { itemId, status: "active" });
+    return "active";
+  }
+
+  const status = getConnectionStatusForError(itemError.error_code, itemError.error_type) ?? "error";
+  await updateAccountConnectionStatus(
+    itemId,
+    status,
+    itemError.error_code,
+    itemError.display_message || itemError.error_message
+  );
+
+  logServiceEvent("connection-health", "verify-repair-complete", {
+    itemId,
+    status,
+    errorCode: itemError.error_code,
+  });
+
+  return status;
+}
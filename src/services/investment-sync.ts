@@ -2,11 +2,16 @@
  * Investment Sync Service
  * Handles syncing investment holdings from Plaid using /investments/holdings/get endpoint
  * Unlike transactions, holdings use a full snapshot approach (no cursor-based incremental sync)
+ * Investment activity comes from /investments/transactions/get, paged through date windows
  */
 
 import { PlaidApi } from "plaid";
 import { SupabaseClient } from "@supabase/supabase-js";
 import { upsertHoldingsForAccount } from "../storage/repositories/investment-holdings.js";
+import {
+  upsertInvestmentTransactions,
+  getLatestInvestmentTransactionDate,
+} from "../storage/repositories/investment-transactions.js";
 import { getAccountsByItemId } from "../storage/repositories/accounts.js";
 import { AccountInvestmentSyncStateRepository } from "../storage/repositories/account-investment-sync-state.js";
 import { logServiceEvent, serializeError } from "../utils/logger.js";
@@ -17,6 +22,25 @@ interface InvestmentSyncOptions {
   accessToken: string;
 }
 
+// Plaid keeps up to 24 months of investment activity
+const INITIAL_HISTORY_DAYS = 730;
+// Re-read recent activity so late-posting corrections and cancels are picked up
+const INCREMENTAL_OVERLAP_DAYS = 30;
+// Each /investments/transactions/get call covers at most this many days
+const WINDOW_DAYS = 180;
+// Max page size allowed by /investments/transactions/get
+const PAGE_SIZE = 500;
+
+function toDateString(date: Date): string {
+  return date.toISOString().split("T")[0];
+}
+
+function addDays(date: Date, days: number): Date {
+  const result = new Date(date);
+  result.setUTCDate(result.getUTCDate() + days);
+  return result;
+}
+
 export class InvestmentSyncService {
   private syncStateRepo: AccountInvestmentSyncStateRepository;
 
@@ -146,6 +170,21 @@ export class InvestmentSyncService {
         }
       }
 
+      // Investment activity is best-effort - a failure here shouldn't discard fresh holdings
+      try {
+        await this.syncInvestmentTransactions(
+          options,
+          investmentAccounts.map((account) => account.account_id)
+        );
+      } catch (error: any) {
+        logServiceEvent(
+          "investment-sync",
+          "transactions-sync-error",
+          { itemId, userId, error: serializeError(error) },
+          "warn"
+        );
+      }
+
       logServiceEvent("investment-sync", "connection-sync-complete", {
         itemId,
         userId,
@@ -161,4 +200,98 @@ export class InvestmentSyncService {
       throw error;
     }
   }
+
+  /**
+   * Sync investment transactions (buys, sells, dividends, fees, contributions)
+   * First sync pulls the full 24 months; later syncs resume from the newest stored
+   * date minus an overlap. The range is walked in date windows, each paged by offset.
+   * @returns Number of investment transactions stored
+   */
+  async syncInvestmentTransactions(
+    options: InvestmentSyncOptions,
+    accountIds?: string[]
+  ): Promise<number> {
+    const { itemId, userId, accessToken } = options;
+
+    if (!accountIds) {
+      const accounts = await getAccountsByItemId(userId, itemId);
+      accountIds = accounts
+        .filter((account) => account.type === "investment")
+        .map((account) => account.account_id);
+    }
+
+    if (accountIds.length === 0) {
+      return 0;
+    }
+
+    const today = new Date();
+    const latestDate = await getLatestInvestmentTransactionDate(userId, accountIds);
+    const startDate = latestDate
+      ? addDays(new Date(`${latestDate}T00:00:00Z`), -INCREMENTAL_OVERLAP_DAYS)
+      : addDays(today, -INITIAL_HISTORY_DAYS);
+
+    logServiceEvent("investment-sync", "transactions-sync-start", {
+      itemId,
+      userId,
+      startDate: toDateString(startDate),
+      endDate: toDateString(today),
+      incremental: !!latestDate,
+    });
+
+    let totalStored = 0;
+    let windowStart = startDate;
+
+    while (windowStart <= today) {
+      const windowEnd = addDays(windowStart, WINDOW_DAYS - 1) < today
+        ? addDays(windowStart, WINDOW_DAYS - 1)
+        : today;
+
+      let offset = 0;
+      let windowTotal = 0;
+
+      do {
+        const response = await this.plaidClient.investmentsTransactionsGet({
+          access_token: accessToken,
+          start_date: toDateString(windowStart),
+          end_date: toDateString(windowEnd),
+          options: {
+            account_ids: accountIds,
+            count: PAGE_SIZE,
+            offset,
+          },
+        });
+
+        const { investment_transactions, securities, total_investment_transactions } = response.data;
+
+        await upsertInvestmentTransactions(userId, investment_transactions, securities);
+
+        windowTotal = total_investment_transactions;
+        offset += investment_transactions.length;
+        totalStored += investment_transactions.length;
+
+        // Guard against a short page that would otherwise loop forever
+        if (investment_transactions.length === 0) {
+          break;
+        }
+      } while (offset < windowTotal);
+
+      logServiceEvent("investment-sync", "transactions-window-synced", {
+        itemId,
+        userId,
+        windowStart: toDateString(windowStart),
+        windowEnd: toDateString(windowEnd),
+        count: offset,
+      });
+
+      windowStart = addDays(windowEnd, 1);
+    }
+
+    logServiceEvent("investment-sync", "transactions-sync-complete", {
+      itemId,
+      userId,
+      totalStored,
+    });
+
+    return totalStored;
+  }
 }
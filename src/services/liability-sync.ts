@@ -0,0 +1,135 @@
+/**
+ * Liability Sync Service
+ * Handles syncing credit card, mortgage and student loan details from Plaid using /liabilities/get
+ * Like holdings, liabilities use a full snapshot approach - each sync overwrites the stored rows
+ */
+
+import { PlaidApi } from "plaid";
+import { SupabaseClient } from "@supabase/supabase-js";
+import {
+  upsertCreditLiabilities,
+  upsertMortgageLiabilities,
+  upsertStudentLiabilities,
+} from "../storage/repositories/liabilities.js";
+import {
+  LiabilitiesSyncStateRepository,
+  type LiabilityCounts,
+} from "../storage/repositories/liabilities-sync-state.js";
+import { logServiceEvent, serializeError } from "../utils/logger.js";
+
+interface LiabilitySyncOptions {
+  itemId: string;
+  userId: string;
+  accessToken: string;
+}
+
+// Plaid error codes meaning the item simply has nothing to sync
+const NO_LIABILITIES_ERROR_CODES = new Set([
+  "NO_LIABILITY_ACCOUNTS",
+  "PRODUCTS_NOT_SUPPORTED",
+]);
+
+export class LiabilitySyncService {
+  private syncStateRepo: LiabilitiesSyncStateRepository;
+
+  constructor(
+    private plaidClient: PlaidApi,
+    supabase: SupabaseClient
+  ) {
+    this.syncStateRepo = new LiabilitiesSyncStateRepository(supabase);
+  }
+
+  /**
+   * Sync all liabilities for a connection and record the outcome in liabilities_sync_state
+   * @returns Number of liabilities stored per type
+   */
+  async syncConnectionLiabilities(
+    options: LiabilitySyncOptions
+  ): Promise<LiabilityCounts> {
+    const { itemId, userId, accessToken } = options;
+
+    logServiceEvent("liability-sync", "connection-sync-start", {
+      itemId,
+      userId,
+    });
+
+    await this.syncStateRepo.createSyncState(itemId, userId);
+    await this.syncStateRepo.markSyncInProgress(itemId);
+
+    try {
+      const counts = await this.fetchAndStoreLiabilities(options);
+
+      await this.syncStateRepo.markSyncComplete(itemId, counts);
+
+      logServiceEvent("liability-sync", "connection-sync-complete", {
+        itemId,
+        userId,
+        ...counts,
+      });
+
+      return counts;
+    } catch (error: any) {
+      const errorCode = error.response?.data?.error_code;
+
+      if (errorCode && NO_LIABILITIES_ERROR_CODES.has(errorCode)) {
+        const counts = { creditCount: 0, mortgageCount: 0, studentCount: 0 };
+        await this.syncStateRepo.markSyncComplete(itemId, counts);
+
+        logServiceEvent("liability-sync", "no-liability-accounts", {
+          itemId,
+          userId,
+          errorCode,
+        });
+
+        return counts;
+      }
+
+      await this.syncStateRepo.markSyncError(
+        itemId,
+        error.response?.data?.error_message || error.message
+      );
+
+      logServiceEvent(
+        "liability-sync",
+        "connection-sync-error",
+        { itemId, userId, error: serializeError(error) },
+        "error"
+      );
+      throw error;
+    }
+  }
+
+  private async fetchAndStoreLiabilities(
+    options: LiabilitySyncOptions
+  ): Promise<LiabilityCounts> {
+    const { userId, accessToken } = options;
+
+    const response = await this.plaidClient.liabilitiesGet({
+      access_token: accessToken,
+    });
+
+    const { liabilities } = response.data;
+    const counts: LiabilityCounts = { creditCount: 0, mortgageCount: 0, studentCount: 0 };
+
+    for (const credit of liabilities.credit || []) {
+      if (credit.account_id) {
+        await upsertCreditLiabilities(userId, credit.account_id, credit);
+        counts.creditCount++;
+      }
+    }
+
+    for (const mortgage of liabilities.mortgage || []) {
+      await upsertMortgageLiabilities(userId, mortgage.account_id, mortgage);
+      counts.mortgageCount++;
+    }
+
+    for (const student of liabilities.student || []) {
+      if (student.account_id) {
+        await upsertStudentLiabilities(userId, student.account_id, student);
+        counts.studentCount++;
+      }
+    }
+
+    return counts;
+  }
+}
@@ -0,0 +1,153 @@
+/**
+ * Notification Delivery Service
+ * Delivers notifications from the outbox to each user's notification channels
+ *
+ * Each channel type has a deliverer; adding a channel means adding a deliverer here and the
+ * channel name to notification_channels. Delivery is at least once: each notification remembers
+ * the channels that received it, and only the channels that failed are retried on the next run,
+ * up to MAX_DELIVERY_ATTEMPTS.
+ */
+
+import type { SupabaseClient } from "@supabase/supabase-js";
+import type { Database } from "../storage/database.types.js";
+import {
+  findNotificationChannels,
+  findUndeliveredNotifications,
+  Notification,
+  NotificationChannelType,
+  recordNotificationDelivery,
+} from "../storage/repositories/notifications.js";
+import { sendEmail, SmtpConfig } from "../utils/clients/smtp.js";
+import { postWebhook } from "../utils/clients/webhook.js";
+import { CONFIG } from "../utils/config.js";
+import { logServiceEvent, serializeError } from "../utils/logger.js";
+
+export const MAX_DELIVERY_ATTEMPTS = 3;
+
+export interface NotificationDeliverer {
+  channel: NotificationChannelType;
+  deliver(notification: Notification, target: string): Promise<void>;
+}
+
+export interface NotificationDeliverySummary {
+  delivered: number;
+  failed: number;
+  skipped: number;
+}
+
+/**
+ * Email through plain SMTP
+ */
+export function createEmailDeliverer(config: SmtpConfig): NotificationDeliverer {
+  return {
+    channel: "email",
+    async deliver(notification, target) {
+      if (!config.host) {
+        throw new Error("Email delivery is not configured (SMTP_HOST is not set)");
+      }
+      await sendEmail(config, {
+        to: target,
+        subject: notification.title,
+        text: notification.message,
+      });
+    },
+  };
+}
+
+/**
+ * JSON POST to the user's https:// URL; private addresses are refused and a non-2xx response
+ * (including a redirect) counts as a failure
+ */
+export function createWebhookDeliverer(timeoutMs: number, post: typeof postWebhook = postWebhook): NotificationDeliverer {
+  return {
+    channel: "webhook",
+    async deliver(notification, target) {
+      const status = await post(
+        target,
+        JSON.stringify({
+          id: notification.id,
+          type: notification.type,
+          title: notification.title,
+          message: notification.message,
+          data: notification.data,
+          created_at: notification.createdAt,
+        }),
+        timeoutMs
+      );
+
+      if (status < 200 || status >= 300) {
+        throw new Error(`Webhook responded with ${status}`);
+      }
+    },
+  };
+}
+
+export function getDefaultDeliverers(): NotificationDeliverer[] {
+  return [
+    createEmailDeliverer(CONFIG.notifications.smtp),
+    createWebhookDeliverer(CONFIG.notifications.webhookTimeoutMs),
+  ];
+}
+
+/**
+ * Deliver a user's pending (and retryable failed) notifications to their enabled channels
+ * Notifications are marked skipped when the user has no channels - they stay readable in-app
+ */
+export async function deliverPendingNotifications(
+  userId: string,
+  supabaseClient: SupabaseClient<Database>,
+  deliverers: NotificationDeliverer[] = getDefaultDeliverers()
+): Promise<NotificationDeliverySummary> {
+  const summary: NotificationDeliverySummary = { delivered: 0, failed: 0, skipped: 0 };
+
+  const notifications = await findUndeliveredNotifications(userId, supabaseClient, MAX_DELIVERY_ATTEMPTS);
+  if (notifications.length === 0) {
+    return summary;
+  }
+
+  const channels = (await findNotificationChannels(userId, supabaseClient))
+    .filter((channel) => channel.enabled)
+    .flatMap((channel) => {
+      const deliverer = deliverers.find((candidate) => candidate.channel === channel.channel);
+      return deliverer ? [{ target: channel.target, deliverer }] : [];
+    });
+
+  for (const notification of notifications) {
+    if (channels.length === 0) {
+      await recordNotificationDelivery(notification, "skipped", null, supabaseClient);
+      summary.skipped++;
+      continue;
+    }
+
+    const deliveredChannels = [...notification.deliveredChannels];
+    const errors: string[] = [];
+    for (const { target, deliverer } of channels) {
+      if (deliveredChannels.includes(deliverer.channel)) {
+        continue;
+      }
+      try {
+        await deliverer.deliver(notification, target);
+        deliveredChannels.push(deliverer.channel);
+      } catch (error: any) {
+        errors.push(`${deliverer.channel}: ${error.message}`);
+        logServiceEvent(
+          "notification-delivery",
+          "channel-error",
+          { userId, notificationId: notification.id, channel: deliverer.channel, error: serializeError(error) },
+          "warn"
+        );
+      }
+    }
+
+    if (errors.length > 0) {
+      await recordNotificationDelivery(notification, "failed", errors.join("; "), supabaseClient, deliveredChannels);
+      summary.failed++;
+    } else {
+      await recordNotificationDelivery(notification, "delivered", null, supabaseClient, deliveredChannels);
+      summary.delivered++;
+    }
+  }
+
+  logServiceEvent("notification-delivery", "complete", { userId, ...summary });
+  return summary;
+}
@@ -6,29 +6,96 @@
 
 import type { SupabaseClient } from "@supabase/supabase-js";
 import type { Database } from "../storage/database.types.js";
-import { findTransactionsByUserId, updateTransactionCategories } from "../storage/repositories/transactions.js";
 import {
-  categorizeTransactions,
-  TransactionForCategorization,
-  ClaudeClient,
-} from "../utils/clients/claude.js";
+  Transaction,
+  findTransactionsByUserId,
+  updateTransactionCategories,
+} from "../storage/repositories/transactions.js";
+import { findSplitsByUserId } from "../storage/repositories/transaction-splits.js";
+import { ClaudeClient } from "../utils/clients/claude.js";
+import {
+  CategorizationCandidate,
+  categorizeWithRules,
+  loadCategorizationRules,
+} from "./categorization-service.js";
+import { loadCategoryPromptList } from "./category-taxonomy-service.js";
+import type { JobProgress } from "./background-jobs.js";
+import {
+  CategorizationPreview,
+  ProposedCategory,
+  buildCategorizationPreview,
+} from "../utils/categorization-preview.js";
+import { expandSplitTransactions } from "../utils/transaction-splits.js";
+import { relabelCategoryBudgets } from "../utils/budget-processing-worker.js";
 import { logServiceEvent, serializeError } from "../utils/logger.js";
 
+/**
+ * Transactions categorized and saved per step; a failed batch is counted against the job
+ * and the run carries on with the next one
+ */
+const RECATEGORIZATION_BATCH_SIZE = 250;
+
+/**
+ * Most recent transactions evaluated by a sample preview
+ */
+export const PREVIEW_SAMPLE_SIZE = 200;
+
+/**
+ * Most recent transactions evaluated by an "all" preview, which runs inside the tool request
+ */
+export const PREVIEW_MAX_TRANSACTIONS = 2000;
+
+export interface RecategorizationPreview extends CategorizationPreview {
+  transactionsEvaluated: number;
+  totalTransactions: number;
+  lockedSkipped: number; // Manual overrides and split transactions
+}
+
+function toCategorizationCandidate(tx: Transaction): CategorizationCandidate {
+  return {
+    transaction: {
+      date: tx.date,
+      description: tx.name,
+      merchant_name: tx.merchantName || undefined,
+      amount: tx.amount.toString(),
+      category: tx.plaidCategory?.join(", "),
+      account_name: tx.accountName || undefined,
+      pending: tx.pending ? "true" : "false",
+    },
+    match: {
+      name: tx.name,
+      amount: tx.amount,
+      accountId: tx.accountId,
+      plaidCategory: tx.plaidCategory,
+    },
+  };
+}
+
 /**
  * Recategorize all transactions for a user with new rules
  * Runs asynchronously in background - does not throw errors
+ * @param progress - Background job to report batch progress and failures to
  */
 export async function recategorizeAllTransactions(
   userId: string,
   rules: string,
   supabaseClient: SupabaseClient<Database>,
-  claudeClient?: ClaudeClient
+  claudeClient?: ClaudeClient,
+  progress?: JobProgress
 ): Promise<void> {
   logServiceEvent("recategorization", "start", { userId });
 
   try {
-    // Fetch all transactions for user
-    const allTransactions = await findTransactionsByUserId(userId, supabaseClient);
+    // Fetch all transactions for user; manual overrides are never recategorized, and split
+    // transactions count through their splits, whose categories rules don't touch
+    const userTransactions = await findTransactionsByUserId(userId, supabaseClient);
+    const splits = await findSplitsByUserId(userId, supabaseClient);
+    const splitParentIds = new Set(splits.map((split) => split.transactionId));
+    const allTransactions = userTransactions.filter(
+      (tx) => !tx.categoryLocked && !splitParentIds.has(tx.transactionId)
+    );
+
+    await progress?.setTotal(allTransactions.length);
 
     if (allTransactions.length === 0) {
       logServiceEvent("recategorization", "no-transactions", { userId });
@@ -38,43 +105,77 @@ export async function recategorizeAllTransactions(
     logServiceEvent("recategorization", "transactions-found", {
       userId,
       count: allTransactions.length,
+      lockedSkipped: userTransactions.length - allTransactions.length,
     });
 
     // Prepare transactions for categorization
-    const txsForCategorization: TransactionForCategorization[] =
-      allTransactions.map((tx) => ({
-        date: tx.date,
-        description: tx.name,
-        amount: tx.amount.toString(),
-        category: tx.plaidCategory?.join(", "),
-        account_name: tx.accountName || undefined,
-        pending: tx.pending ? "true" : "false",
-      }));
-
-    // Call Claude API with new rules
+    const candidates = allTransactions.map(toCategorizationCandidate);
+
+    // Structured rules first, then Claude with the new free-text rules for the rest
+    const structuredRules = await loadCategorizationRules(userId, supabaseClient);
     logServiceEvent("recategorization", "categorization-request", {
       userId,
-      count: txsForCategorization.length,
+      count: candidates.length,
+      structuredRuleCount: structuredRules.length,
     });
-    const categorized = await categorizeTransactions(txsForCategorization, rules, claudeClient);
+    const categoryList = await loadCategoryPromptList(userId, supabaseClient);
 
-    // Prepare updates
-    const updates = categorized.map((tx, index) => ({
-      transactionId: allTransactions[index].transactionId,
-      customCategory: tx.custom_category,
-    }));
+    let updatedCount = 0;
+    let failedCount = 0;
 
-    logServiceEvent("recategorization", "database-update", {
-      userId,
-      count: updates.length,
-    });
+    for (let start = 0; start < candidates.length; start += RECATEGORIZATION_BATCH_SIZE) {
+      const batch = candidates.slice(start, start + RECATEGORIZATION_BATCH_SIZE);
+
+      try {
+        const categorized = await categorizeWithRules(userId, batch, structuredRules, {
+          customRules: rules,
+          categoryList,
+          claudeClient,
+        });
 
-    // Update all transactions in database
-    await updateTransactionCategories(updates, supabaseClient);
+        // Prepare updates
+        const updates = categorized.flatMap((outcome, index) =>
+          outcome.customCategory
+            ? [
+                {
+                  transactionId: allTransactions[start + index].transactionId,
+                  customCategory: outcome.customCategory,
+                  categorySource: outcome.source ?? undefined,
+                  categoryRuleId: outcome.ruleId,
+                },
+              ]
+            : []
+        );
+
+        logServiceEvent("recategorization", "database-update", {
+          userId,
+          count: updates.length,
+        });
+
+        await updateTransactionCategories(updates, supabaseClient);
+        updatedCount += updates.length;
+        await progress?.advance(batch.length);
+      } catch (error: any) {
+        failedCount += batch.length;
+        logServiceEvent(
+          "recategorization",
+          "batch-error",
+          { userId, offset: start, count: batch.length, error: serializeError(error) },
+          "error"
+        );
+        await progress?.advance(batch.length, batch.length, error.message);
+      }
+    }
+
+    // Budgets that filter by category can gain or lose matches
+    if (updatedCount > 0) {
+      await relabelCategoryBudgets(userId);
+    }
 
     logServiceEvent("recategorization", "complete", {
       userId,
-      count: updates.length,
+      count: updatedCount,
+      failedCount,
     });
   } catch (error: any) {
     // Fail silently - just log the error
@@ -84,5 +185,79 @@ export async function recategorizeAllTransactions(
       { userId, error: serializeError(error) },
       "error"
     );
+    await progress?.fail(error.message);
   }
 }
+
+/**
+ * Show what recategorizing with proposed free-text rules would change, without saving the
+ * rules or any category. Unlike recategorizeAllTransactions this throws on failure, since
+ * the caller is waiting for the result
+ * @param scope - "sample" evaluates the most recent PREVIEW_SAMPLE_SIZE transactions, "all" up
+ * to PREVIEW_MAX_TRANSACTIONS
+ */
+export async function previewRecategorization(
+  userId: string,
+  rules: string,
+  supabaseClient: SupabaseClient<Database>,
+  scope: "sample" | "all" = "sample",
+  claudeClient?: ClaudeClient
+): Promise<RecategorizationPreview> {
+  // Newest first, so a sample is the most recent activity
+  const userTransactions = await findTransactionsByUserId(userId, supabaseClient);
+  const evaluated = userTransactions.slice(0, scope === "all" ? PREVIEW_MAX_TRANSACTIONS : PREVIEW_SAMPLE_SIZE);
+  // Split transactions count through their splits, whose categories rules don't touch
+  const splits = await findSplitsByUserId(userId, supabaseClient);
+  const splitParentIds = new Set(splits.map((split) => split.transactionId));
+  const unlocked = evaluated.filter((tx) => !tx.categoryLocked && !splitParentIds.has(tx.transactionId));
+
+  logServiceEvent("recategorization", "preview-start", {
+    userId,
+    scope,
+    evaluated: evaluated.length,
+    total: userTransactions.length,
+  });
+
+  const proposed = new Map<string, ProposedCategory>();
+  if (unlocked.length > 0) {
+    const structuredRules = await loadCategorizationRules(userId, supabaseClient);
+    const categoryList = await loadCategoryPromptList(userId, supabaseClient);
+    const candidates = unlocked.map(toCategorizationCandidate);
+
+    for (let start = 0; start < candidates.length; start += RECATEGORIZATION_BATCH_SIZE) {
+      // No merchant cache: a preview must not record observations for rules that aren't saved
+      const outcomes = await categorizeWithRules(
+        userId,
+        candidates.slice(start, start + RECATEGORIZATION_BATCH_SIZE),
+        structuredRules,
+        { customRules: rules, categoryList, claudeClient }
+      );
+      outcomes.forEach((outcome, index) => {
+        proposed.set(unlocked[start + index].transactionId, {
+          category: outcome.customCategory,
+          source: outcome.source,
+        });
+      });
+    }
+  }
+
+  const preview = buildCategorizationPreview(
+    expandSplitTransactions(evaluated, splits).map((tx) =>
+      tx.splitId ? { ...tx, categoryLocked: true } : tx
+    ),
+    proposed
+  );
+
+  logServiceEvent("recategorization", "preview-complete", {
+    userId,
+    evaluated: evaluated.length,
+    changes: preview.changes.length,
+  });
+
+  return {
+    ...preview,
+    transactionsEvaluated: evaluated.length,
+    totalTransactions: userTransactions.length,
+    lockedSkipped: evaluated.length - unlocked.length,
+  };
+}
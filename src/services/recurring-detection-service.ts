@@ -0,0 +1,50 @@
+/**
+ * Recurring Detection Service
+ * Re-runs subscription/recurring charge detection over a user's stored transactions
+ * Called after transaction syncs and on demand from get-recurring-transactions
+ */
+
+import type { SupabaseClient } from "@supabase/supabase-js";
+import type { Database } from "../storage/database.types.js";
+import { findTransactionsByUserId } from "../storage/repositories/transactions.js";
+import { replaceRecurringSeries } from "../storage/repositories/recurring-series.js";
+import {
+  detectRecurringSeries,
+  DetectedRecurringSeries,
+} from "../utils/recurring-detection.js";
+import { logServiceEvent } from "../utils/logger.js";
+
+// Slightly over a year so annual subscriptions have two charges to compare
+const DETECTION_LOOKBACK_DAYS = 400;
+
+/**
+ * Detect recurring series from the last ~13 months of transactions and store them
+ * @returns The detected series
+ */
+export async function refreshRecurringSeries(
+  userId: string,
+  supabaseClient: SupabaseClient<Database>,
+  asOf: Date = new Date()
+): Promise<DetectedRecurringSeries[]> {
+  logServiceEvent("recurring-detection", "start", { userId });
+
+  const startDate = new Date(asOf);
+  startDate.setUTCDate(startDate.getUTCDate() - DETECTION_LOOKBACK_DAYS);
+
+  const transactions = await findTransactionsByUserId(userId, supabaseClient, undefined, undefined, {
+    startDate: startDate.toISOString().split("T")[0],
+    excludePending: true,
+  });
+
+  const series = detectRecurringSeries(transactions, asOf);
+  await replaceRecurringSeries(userId, series, supabaseClient);
+
+  logServiceEvent("recurring-detection", "complete", {
+    userId,
+    transactionCount: transactions.length,
+    seriesCount: series.length,
+    priceIncreases: series.filter((s) => s.priceIncreased).length,
+  });
+
+  return series;
+}
@@ -0,0 +1,126 @@
+/**
+ * Sync Lock Service
+ * Runs a sync while holding the item's lease so cron, webhook and manual refresh syncs don't overlap
+ */
+
+import {
+  acquireSyncLock,
+  releaseSyncLock,
+  releaseSyncLockUnlessResyncRequested,
+  requestSyncLockResync,
+  SyncLease,
+} from "../storage/repositories/sync-locks.js";
+import { logServiceEvent, serializeError } from "../utils/logger.js";
+
+/**
+ * Longest a lease is honored without being released
+ * Comfortably above a full initial sync, so only crashed workers hit it
+ */
+export const DEFAULT_SYNC_LOCK_TTL_MS = 30 * 60 * 1000;
+
+/**
+ * Most extra runs one lease makes for resync requests; a steady stream of webhooks shouldn't
+ * keep a worker on one item forever (the next sync picks up anything later)
+ */
+export const MAX_RESYNC_RUNS = 3;
+
+export type LockedSyncResult<T> =
+  | { acquired: true; result: T }
+  | { acquired: false };
+
+/**
+ * Run fn while holding the sync lease for itemId
+ * Returns { acquired: false } without running fn when another sync holds the lease
+ */
+export async function withItemSyncLock<T>(
+  itemId: string,
+  userId: string,
+  holder: string,
+  fn: () => Promise<T>,
+  ttlMs: number = DEFAULT_SYNC_LOCK_TTL_MS
+): Promise<LockedSyncResult<T>> {
+  const lease = await acquireSyncLock(itemId, userId, holder, ttlMs);
+  if (!lease) {
+    logServiceEvent("sync-lock", "skipped-locked", { itemId, userId, holder });
+    return { acquired: false };
+  }
+
+  let released = false;
+  try {
+    let result = await fn();
+
+    // Run again for resync requests made while fn ran (e.g. a webhook after the last page)
+    for (let run = 1; ; run++) {
+      const release = await releaseUnlessResyncRequested(lease, ttlMs);
+      released = release === "released";
+      if (release !== "resync" || run > MAX_RESYNC_RUNS) {
+        return { acquired: true, result };
+      }
+      logServiceEvent("sync-lock", "resync", { itemId, userId, holder, run });
+      result = await fn();
+    }
+  } finally {
+    if (!released) {
+      await releaseLease(lease);
+    }
+  }
+}
+
+/**
+ * @returns "resync" when a resync was requested and the lease is still held
+ */
+async function releaseUnlessResyncRequested(
+  lease: SyncLease,
+  ttlMs: number
+): Promise<"released" | "resync" | "error"> {
+  try {
+    return (await releaseSyncLockUnlessResyncRequested(lease, ttlMs)) ? "released" : "resync";
+  } catch (error: any) {
+    logServiceEvent(
+      "sync-lock",
+      "release-error",
+      { itemId: lease.itemId, holder: lease.holder, error: serializeError(error) },
+      "warn"
+    );
+    // releaseLease still tries a plain release
+    return "error";
+  }
+}
+
+async function releaseLease(lease: SyncLease): Promise<void> {
+  try {
+    await releaseSyncLock(lease);
+  } catch (error: any) {
+    // The lease expires on its own; don't replace the sync's outcome with a release failure
+    logServiceEvent(
+      "sync-lock",
+      "release-error",
+      { itemId: lease.itemId, holder: lease.holder, error: serializeError(error) },
+      "warn"
+    );
+  }
+}
+
+/**
+ * Run fn under the item's lease, or, when another sync holds it, ask that sync to run again
+ * before it releases (so the caller's update isn't lost)
+ */
+export async function withItemSyncLockOrResync<T>(
+  itemId: string,
+  userId: string,
+  holder: string,
+  fn: () => Promise<T>
+): Promise<LockedSyncResult<T> & { resyncRequested?: boolean }> {
+  // The lease can be released between a failed acquire and the request, so try both twice
+  for (let attempt = 0; attempt < 2; attempt++) {
+    const locked = await withItemSyncLock(itemId, userId, holder, fn);
+    if (locked.acquired) {
+      return locked;
+    }
+    if (await requestSyncLockResync(itemId)) {
+      return { acquired: false, resyncRequested: true };
+    }
+  }
+
+  return { acquired: false, resyncRequested: false };
+}
@@ -10,22 +10,42 @@ import { AccountSyncStateRepository } from "../storage/repositories/account-sync
 import {
   upsertTransactions,
   deleteTransactions,
+  findTransactionsByIds,
 } from "../storage/repositories/transactions.js";
 import {
   getAccountsByItemId,
   upsertAccounts,
   PlaidAccountData,
 } from "../storage/repositories/accounts.js";
+import { recordAccountBalances } from "../storage/repositories/account-balance-history.js";
+import { ClaudeClient } from "../utils/clients/claude.js";
 import {
-  categorizeTransactions,
-  TransactionForCategorization,
-  ClaudeClient,
-} from "../utils/clients/claude.js";
+  CategorizationCandidate,
+  CategorizationOutcome,
+  categorizeWithRules,
+  loadCategorizationRules,
+} from "./categorization-service.js";
+import { loadCategoryPromptList } from "./category-taxonomy-service.js";
+import type { CategorizationRule } from "../utils/categorization-rules.js";
 import {
   labelTransactionArrayForBudgets,
   TransactionForBudgetLabeling,
 } from "../utils/budget-labeling.js";
 import { getBudgets } from "../storage/budgets/budgets.js";
+import { refreshRecurringSeries } from "./recurring-detection-service.js";
+import { matchInternalTransfers } from "./transfer-matching-service.js";
+import { evaluateBudgetAlerts } from "./budget-alert-service.js";
+import { deliverPendingNotifications } from "./notification-delivery.js";
+import {
+  getConnectionStatusForError,
+  recordConnectionError,
+  shouldSkipConnectionSync,
+} from "./connection-health.js";
+import { clearAccountConnectionStatus } from "../storage/repositories/account-connections.js";
+import { collectSyncPages } from "../utils/sync-pagination.js";
+import { getPlaidItemError, isRetryablePlaidError } from "../utils/plaid-errors.js";
+import { extractMerchantEnrichment } from "../utils/transaction-enrichment.js";
+import { withRetry } from "../utils/retry.js";
 import { logServiceEvent, serializeError } from "../utils/logger.js";
 
 interface TransactionSyncOptions {
@@ -53,6 +73,8 @@ export class TransactionSyncService {
   /**
    * Sync transactions for a single account
    * Handles pagination, cursor management, and categorization
+   * Transient Plaid errors are retried with backoff; the stored cursor only advances
+   * after the full page set is persisted, so any failure restarts from the saved cursor
    */
   async syncAccountTransactions(
     options: TransactionSyncOptions
@@ -68,7 +90,7 @@ export class TransactionSyncService {
     try {
       // Get current cursor from database FIRST (before updating status)
       const syncState = await this.syncStateRepo.getSyncState(accountId);
-      let cursor = syncState?.transaction_cursor || undefined;
+      const cursor = syncState?.transaction_cursor || undefined;
 
       logServiceEvent("transaction-sync", "cursor-start", {
         accountId,
@@ -83,37 +105,77 @@ export class TransactionSyncService {
         0
       );
 
-      let hasMore = true;
       let pageCount = 0;
       let totalAdded = 0;
       let totalModified = 0;
       let totalRemoved = 0;
+      let merchantCacheLookups = 0;
+      let merchantCacheHits = 0;
 
       // Track all synced transactions for budget labeling
       const allSyncedTransactions: TransactionForBudgetLabeling[] = [];
 
-      // Paginate through all transactions
-      while (hasMore) {
-        pageCount++;
-        logServiceEvent("transaction-sync", "page-fetch", {
-          accountId,
-          page: pageCount,
-          cursorPreview: cursor ? `${cursor.substring(0, 20)}...` : null,
-        });
+      // Fetch the whole page set before writing anything
+      // If pagination restarts or fails, the saved cursor still points at the last complete sync
+      const { pages, nextCursor, restarts } = await collectSyncPages(
+        async (pageCursor) => {
+          logServiceEvent("transaction-sync", "page-fetch", {
+            accountId,
+            cursorPreview: pageCursor ? `${pageCursor.substring(0, 20)}...` : null,
+          });
 
-        // Call Plaid /transactions/sync
-        const response = await this.plaidClient.transactionsSync({
-          access_token: accessToken,
-          cursor: cursor,
-          count: 500, // Max per page
-          options: {
-            include_original_description: false,
-            account_id: accountId, // Filter to specific account
+          // Call Plaid /transactions/sync
+          const response = await this.plaidClient.transactionsSync({
+            access_token: accessToken,
+            cursor: pageCursor,
+            count: 500, // Max per page
+            options: {
+              include_original_description: false,
+              account_id: accountId, // Filter to specific account
+            },
+          });
+          return response.data;
+        },
+        cursor,
+        {
+          retry: {
+            onRetry: (error, attempt, delayMs) =>
+              logServiceEvent(
+                "transaction-sync",
+                "page-fetch-retry",
+                { accountId, attempt, delayMs, error: serializeError(error) },
+                "warn"
+              ),
           },
-        });
+          onRestart: (restart) =>
+            logServiceEvent(
+              "transaction-sync",
+              "pagination-restart",
+              { accountId, restart, reason: "TRANSACTIONS_SYNC_MUTATION_DURING_PAGINATION" },
+              "warn"
+            ),
+        }
+      );
+
+      // Get account info for enrichment (if we have any transactions)
+      let account: any = null;
+      if (pages.some((page) => page.added.length > 0 || page.modified.length > 0)) {
+        const accounts = await getAccountsByItemId(userId, itemId);
+        account = accounts.find((a) => a.account_id === accountId);
+      }
+
+      // Structured rules and the category list are loaded once per account sync
+      let rules: CategorizationRule[] = [];
+      let categoryList: string | undefined;
+      if (pages.some((page) => page.added.length > 0)) {
+        rules = await loadCategorizationRules(userId, this.supabase);
+        categoryList = await loadCategoryPromptList(userId, this.supabase);
+      }
 
-        const { added, modified, removed, next_cursor, has_more } =
-          response.data;
+      // Persist pages in order so a removal on a later page wins over an earlier add
+      for (const page of pages) {
+        pageCount++;
+        const { added, modified, removed } = page;
 
         logServiceEvent("transaction-sync", "page-summary", {
           accountId,
@@ -123,26 +185,29 @@ export class TransactionSyncService {
           removed: removed.length,
         });
 
-        // Get account info for enrichment (if we have any transactions)
-        let account: any = null;
-        if (added.length > 0 || modified.length > 0) {
-          const accounts = await getAccountsByItemId(userId, itemId);
-          account = accounts.find((a) => a.account_id === accountId);
-        }
-
         // Only categorize NEWLY ADDED transactions (not modified ones)
         // Modified transactions already have categories from when they were first added
-        const categorizedAdded: any[] = [];
+        const categorizedAdded: CategorizationOutcome[] = [];
         if (added.length > 0) {
-          const forCategorization: TransactionForCategorization[] =
-            added.map((tx) => ({
+          const candidates: CategorizationCandidate[] = added.map((tx) => ({
+            transaction: {
               date: tx.date,
               description: tx.name,
+              merchant_name: tx.merchant_name || undefined,
               amount: Math.abs(tx.amount).toFixed(2),
               category: tx.personal_finance_category?.primary || undefined,
               account_name: account?.name,
               pending: tx.pending ? "true" : "false",
-            }));
+            },
+            match: {
+              name: tx.name,
+              amount: tx.amount,
+              accountId: tx.account_id,
+              plaidCategory: tx.personal_finance_category
+                ? [tx.personal_finance_category.primary, tx.personal_finance_category.detailed]
+                : null,
+            },
+          }));
 
           logServiceEvent("transaction-sync", "categorize-added", {
             accountId,
@@ -150,11 +215,20 @@ export class TransactionSyncService {
             addedCount: added.length,
           });
 
-          const result = await categorizeTransactions(forCategorization, undefined, this.claudeClient);
+          // Repeat merchants are answered from the merchant cache instead of Claude
+          const result = await categorizeWithRules(userId, candidates, rules, {
+            categoryList,
+            claudeClient: this.claudeClient,
+            merchantCacheClient: this.supabase,
+          });
           categorizedAdded.push(...result);
+
+          const nonRule = result.filter((outcome) => outcome.source !== "rule");
+          merchantCacheLookups += nonRule.length;
+          merchantCacheHits += nonRule.filter((outcome) => outcome.fromCache).length;
         }
 
-        // Build database objects for added transactions (with AI categorization)
+        // Build database objects for added transactions (with rule or AI categorization)
         const addedForDb = added.map((tx, idx) => ({
           transactionId: tx.transaction_id,
           accountId: tx.account_id,
@@ -169,17 +243,31 @@ export class TransactionSyncService {
                 tx.personal_finance_category.detailed,
               ]
             : null,
+          ...extractMerchantEnrichment(tx),
           pending: tx.pending,
-          customCategory: categorizedAdded[idx]?.custom_category || null,
-          categorizedAt: categorizedAdded[idx]?.custom_category
+          customCategory: categorizedAdded[idx]?.customCategory || null,
+          categorizedAt: categorizedAdded[idx]?.customCategory
             ? new Date()
             : null,
+          categorySource: categorizedAdded[idx]?.source ?? null,
+          categoryRuleId: categorizedAdded[idx]?.ruleId ?? null,
+          categoryLocked: false,
           budgetIds: null, // Budget labeling happens separately
           budgetsUpdatedAt: null,
           accountName: account?.name || null,
           institutionName: null, // Could be enriched later
         }));
 
+        // Modified transactions keep the category (and any manual override) they already have
+        const existingById = new Map(
+          (
+            await findTransactionsByIds(
+              modified.map((tx) => tx.transaction_id),
+              this.supabase
+            )
+          ).map((tx) => [tx.transactionId, tx])
+        );
+
         // Build database objects for modified transactions (NO re-categorization)
         const modifiedForDb = modified.map((tx) => ({
           transactionId: tx.transaction_id,
@@ -195,10 +283,13 @@ export class TransactionSyncService {
                 tx.personal_finance_category.detailed,
               ]
             : null,
+          ...extractMerchantEnrichment(tx),
           pending: tx.pending,
-          // Keep existing categorization - upsert will preserve these fields
-          customCategory: null, // Will be ignored by upsert if already exists
-          categorizedAt: null, // Will be ignored by upsert if already exists
+          customCategory: existingById.get(tx.transaction_id)?.customCategory ?? null,
+          categorizedAt: existingById.get(tx.transaction_id)?.categorizedAt ?? null,
+          categorySource: existingById.get(tx.transaction_id)?.categorySource ?? null,
+          categoryRuleId: existingById.get(tx.transaction_id)?.categoryRuleId ?? null,
+          categoryLocked: existingById.get(tx.transaction_id)?.categoryLocked ?? false,
           budgetIds: null,
           budgetsUpdatedAt: null,
           accountName: account?.name || null,
@@ -219,7 +310,10 @@ export class TransactionSyncService {
               amount: tx.amount,
               customCategory: tx.customCategory,
               accountName: tx.accountName,
+              accountId: tx.accountId,
               pending: tx.pending,
+              tags: existingById.get(tx.transactionId)?.tags ?? [],
+              transferPairId: existingById.get(tx.transactionId)?.transferPairId ?? null,
             }))
           );
         }
@@ -233,7 +327,27 @@ export class TransactionSyncService {
           });
 
           const transactionIds = removed.map((tx) => tx.transaction_id);
-          await deleteTransactions(transactionIds, this.supabase);
+          const unlinked = await deleteTransactions(transactionIds, this.supabase);
+
+          // The other side of a deleted transfer counts toward budgets again
+          for (const tx of unlinked) {
+            const index = allSyncedTransactions.findIndex((synced) => synced.transactionId === tx.transactionId);
+            if (index !== -1) {
+              allSyncedTransactions.splice(index, 1);
+            }
+            allSyncedTransactions.push({
+              transactionId: tx.transactionId,
+              date: tx.date,
+              name: tx.name,
+              amount: tx.amount,
+              customCategory: tx.customCategory,
+              accountName: tx.accountName,
+              accountId: tx.accountId,
+              pending: tx.pending,
+              tags: tx.tags,
+              transferPairId: null,
+            });
+          }
 
           logServiceEvent("transaction-sync", "remove-transactions-complete", {
             accountId,
@@ -242,24 +356,19 @@ export class TransactionSyncService {
           });
         }
 
-        // Update cursor and counters
-        cursor = next_cursor;
-        hasMore = has_more;
         totalAdded += added.length;
         totalModified += modified.length;
         totalRemoved += removed.length;
-
-        // Update sync state after each page
-        await this.syncStateRepo.updateSyncProgress(
-          accountId,
-          next_cursor,
-          "syncing",
-          added.length + modified.length
-        );
       }
 
-      // Mark sync as complete
-      await this.syncStateRepo.markSyncComplete(accountId, cursor || "");
+      // Every page is stored, so it's now safe to move the cursor forward
+      await this.syncStateRepo.updateSyncProgress(
+        accountId,
+        nextCursor,
+        "syncing",
+        totalAdded + totalModified
+      );
+      await this.syncStateRepo.markSyncComplete(accountId, nextCursor);
 
       logServiceEvent("transaction-sync", "account-sync-complete", {
         accountId,
@@ -269,6 +378,11 @@ export class TransactionSyncService {
         modified: totalModified,
         removed: totalRemoved,
         pages: pageCount,
+        restarts,
+        merchantCacheLookups,
+        merchantCacheHits,
+        merchantCacheHitRate:
+          merchantCacheLookups > 0 ? Number((merchantCacheHits / merchantCacheLookups).toFixed(3)) : null,
       });
 
       // Label synced transactions for budgets
@@ -311,6 +425,9 @@ export class TransactionSyncService {
         "error"
       );
 
+      // Item-level errors (login required, institution down) also move the connection status
+      await recordConnectionError(itemId, error);
+
       // Mark sync as failed
       await this.syncStateRepo.markSyncError(accountId, error.message);
 
@@ -337,9 +454,19 @@ export class TransactionSyncService {
       // Refresh account metadata from Plaid FIRST (balances, names, etc.)
       // This ensures last_synced_at and updated_at columns stay fresh
       try {
-        const accountsResponse = await this.plaidClient.accountsGet({
-          access_token: accessToken,
-        });
+        const accountsResponse = await withRetry(
+          () => this.plaidClient.accountsGet({ access_token: accessToken }),
+          {
+            shouldRetry: isRetryablePlaidError,
+            onRetry: (error, attempt, delayMs) =>
+              logServiceEvent(
+                "transaction-sync",
+                "accounts-refresh-retry",
+                { itemId, attempt, delayMs, error: serializeError(error) },
+                "warn"
+              ),
+          }
+        );
 
         const plaidAccounts: PlaidAccountData[] =
           accountsResponse.data.accounts.map((account) => ({
@@ -356,7 +483,11 @@ export class TransactionSyncService {
             },
           }));
 
-        await upsertAccounts(userId, itemId, plaidAccounts);
+        const storedAccounts = await upsertAccounts(userId, itemId, plaidAccounts);
+        await recordAccountBalances(userId, storedAccounts);
+
+        // Plaid answered, so any earlier institution outage is over
+        await clearAccountConnectionStatus(itemId, ["institution_down"]);
 
         logServiceEvent("transaction-sync", "accounts-refreshed", {
           itemId,
@@ -370,6 +501,18 @@ export class TransactionSyncService {
           { itemId, userId, error: serializeError(error) },
           "warn"
         );
+
+        // A broken item fails every call the same way; stop here until the user reconnects
+        const status = await recordConnectionError(itemId, error);
+        if (shouldSkipConnectionSync(status)) {
+          logServiceEvent(
+            "transaction-sync",
+            "connection-needs-reconnect",
+            { itemId, userId, status },
+            "warn"
+          );
+          return;
+        }
         // Continue to transaction sync even if account refresh fails
       }
 
@@ -415,9 +558,58 @@ export class TransactionSyncService {
             { accountId: account.account_id, itemId, error: serializeError(error) },
             "warn"
           );
+
+          // Remaining accounts share the item, so they would fail the same way
+          const itemError = getPlaidItemError(error);
+          if (
+            itemError &&
+            shouldSkipConnectionSync(getConnectionStatusForError(itemError.errorCode, itemError.errorType))
+          ) {
+            break;
+          }
         }
       }
 
+      // Link transfers between the user's accounts (after budget labeling, which they opt out of)
+      try {
+        await matchInternalTransfers(userId, this.supabase);
+      } catch (error: any) {
+        logServiceEvent(
+          "transaction-sync",
+          "transfer-matching-error",
+          { userId, itemId, error: serializeError(error) },
+          "warn"
+        );
+        // Don't throw - transfer matching failure shouldn't fail the entire sync
+      }
+
+      // Refresh recurring series from the updated history
+      try {
+        await refreshRecurringSeries(userId, this.supabase);
+      } catch (error: any) {
+        logServiceEvent(
+          "transaction-sync",
+          "recurring-detection-error",
+          { userId, itemId, error: serializeError(error) },
+          "warn"
+        );
+        // Don't throw - recurring detection failure shouldn't fail the entire sync
+      }
+
+      // Alert on budgets that crossed a threshold, then deliver anything still in the outbox
+      try {
+        await evaluateBudgetAlerts(userId, this.supabase);
+        await deliverPendingNotifications(userId, this.supabase);
+      } catch (error: any) {
+        logServiceEvent(
+          "transaction-sync",
+          "budget-alerts-error",
+          { userId, itemId, error: serializeError(error) },
+          "warn"
+        );
+        // Don't throw - alerts failing shouldn't fail the entire sync
+      }
+
       logServiceEvent("transaction-sync", "connection-sync-complete", {
         itemId,
         userId,
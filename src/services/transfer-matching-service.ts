@@ -0,0 +1,87 @@
+/**
+ * Transfer Matching Service
+ * Links transfers between a user's own accounts so spending, budgets and cash flow skip them
+ * Called after transaction syncs and on demand from match-transfers
+ */
+
+import type { SupabaseClient } from "@supabase/supabase-js";
+import type { Database } from "../storage/database.types.js";
+import {
+  findTransactionsByUserId,
+  linkTransferPairs,
+  Transaction,
+  unlinkTransferPair,
+} from "../storage/repositories/transactions.js";
+import type { ClaudeClient } from "../utils/clients/claude.js";
+import { findTransferPairs, TransferPair } from "../utils/transfer-matching.js";
+import { relabelBudgetsInBackground } from "./categorization-service.js";
+import { logServiceEvent } from "../utils/logger.js";
+
+// Older transactions were matched by earlier syncs
+const MATCH_LOOKBACK_DAYS = 90;
+
+/**
+ * Match and link internal transfers among recent transactions
+ * @param lookbackDays - How far back to look; defaults to the last 90 days
+ * @returns The newly linked pairs
+ */
+export async function matchInternalTransfers(
+  userId: string,
+  supabaseClient: SupabaseClient<Database>,
+  lookbackDays: number = MATCH_LOOKBACK_DAYS,
+  asOf: Date = new Date()
+): Promise<TransferPair[]> {
+  logServiceEvent("transfer-matching", "start", { userId, lookbackDays });
+
+  const startDate = new Date(asOf);
+  startDate.setUTCDate(startDate.getUTCDate() - lookbackDays);
+
+  const transactions = await findTransactionsByUserId(userId, supabaseClient, undefined, undefined, {
+    startDate: startDate.toISOString().split("T")[0],
+    excludePending: true,
+  });
+
+  const pairs = findTransferPairs(transactions);
+  if (pairs.length > 0) {
+    await linkTransferPairs(userId, pairs, supabaseClient);
+  }
+
+  logServiceEvent("transfer-matching", "complete", {
+    userId,
+    transactionCount: transactions.length,
+    pairCount: pairs.length,
+  });
+
+  return pairs;
+}
+
+/**
+ * Unlink a matched transfer that isn't really one. Both sides are kept out of future matching
+ * and budget labels are refreshed in the background
+ * @returns The unlinked transactions, or null when the transaction isn't a matched transfer
+ */
+export async function unlinkInternalTransfer(
+  userId: string,
+  transaction: Transaction,
+  supabaseClient: SupabaseClient<Database>,
+  claudeClient?: ClaudeClient
+): Promise<Transaction[] | null> {
+  if (!transaction.transferPairId) {
+    return null;
+  }
+
+  const unlinked = await unlinkTransferPair(
+    userId,
+    [transaction.transactionId, transaction.transferPairId],
+    supabaseClient
+  );
+
+  logServiceEvent("transfer-matching", "transfer-unlinked", {
+    userId,
+    transactionIds: unlinked.map((tx) => tx.transactionId),
+  });
+
+  relabelBudgetsInBackground(userId, unlinked, supabaseClient, claudeClient, "unlink-budget-labeling-error");
+
+  return unlinked;
+}
@@ -0,0 +1,306 @@
+/**
+ * Plaid Webhook Service
+ * Verifies Plaid webhook signatures and dispatches events to the sync services
+ * so new data lands within minutes instead of waiting for the daily cron run
+ */
+
+import crypto from "crypto";
+import jwt from "jsonwebtoken";
+import { PlaidApi } from "plaid";
+import { TransactionSyncService } from "./transaction-sync.js";
+import { InvestmentSyncService } from "./investment-sync.js";
+import { LiabilitySyncService } from "./liability-sync.js";
+import {
+  ConnectionStatus,
+  findAccountConnectionByItemId,
+  updateAccountConnectionStatus,
+} from "../storage/repositories/account-connections.js";
+import { getConnectionStatusForError, shouldSkipConnectionSync } from "./connection-health.js";
+import { withItemSyncLockOrResync } from "./sync-lock.js";
+import { getSupabaseServiceRole } from "../storage/supabase.js";
+import { ClaudeClient } from "../utils/clients/claude.js";
+import { logServiceEvent, serializeError } from "../utils/logger.js";
+
+/**
+ * Plaid rejects replays older than five minutes; we apply the same window
+ */
+const MAX_WEBHOOK_AGE_SECONDS = 5 * 60;
+
+/**
+ * Verification keys rarely rotate, so cache them by key ID
+ */
+const verificationKeyCache = new Map<string, crypto.KeyObject>();
+
+/**
+ * Subset of the Plaid webhook body we act on
+ */
+export interface PlaidWebhookPayload {
+  webhook_type: string;
+  webhook_code: string;
+  item_id?: string;
+  error?: {
+    error_type?: string;
+    error_code?: string;
+    error_message?: string;
+  } | null;
+  consent_expiration_time?: string | null;
+}
+
+export type PlaidWebhookAction =
+  | "transactions-sync"
+  | "transactions-resync-requested"
+  | "investments-sync"
+  | "investment-transactions-sync"
+  | "liabilities-sync"
+  | "connection-status-updated"
+  | "ignored";
+
+export interface PlaidWebhookResult {
+  action: PlaidWebhookAction;
+  itemId?: string;
+  reason?: string;
+}
+
+/**
+ * Fetch (and cache) the public key Plaid used to sign a webhook
+ */
+async function getVerificationKey(
+  keyId: string,
+  plaidClient: PlaidApi
+): Promise<crypto.KeyObject | null> {
+  const cached = verificationKeyCache.get(keyId);
+  if (cached) {
+    return cached;
+  }
+
+  const response = await plaidClient.webhookVerificationKeyGet({ key_id: keyId });
+  const key = response.data.key;
+
+  if (key.expired_at) {
+    logServiceEvent("plaid-webhook", "verification-key-expired", { keyId }, "warn");
+    return null;
+  }
+
+  const publicKey = crypto.createPublicKey({
+    key: {
+      kty: key.kty,
+      crv: key.crv,
+      x: key.x,
+      y: key.y,
+    },
+    format: "jwk",
+  });
+
+  verificationKeyCache.set(keyId, publicKey);
+  return publicKey;
+}
+
+/**
+ * Verify the Plaid-Verification JWT against the raw request body
+ * @returns true when the signature, age and body hash all check out
+ */
+export async function verifyPlaidWebhook(
+  rawBody: Buffer | string,
+  verificationToken: string | undefined,
+  plaidClient: PlaidApi
+): Promise<boolean> {
+  if (!verificationToken) {
+    return false;
+  }
+
+  const decoded = jwt.decode(verificationToken, { complete: true });
+  if (!decoded || decoded.header.alg !== "ES256" || !decoded.header.kid) {
+    logServiceEvent("plaid-webhook", "invalid-token-header", undefined, "warn");
+    return false;
+  }
+
+  try {
+    const publicKey = await getVerificationKey(decoded.header.kid, plaidClient);
+    if (!publicKey) {
+      return false;
+    }
+
+    const claims = jwt.verify(verificationToken, publicKey, {
+      algorithms: ["ES256"],
+      maxAge: MAX_WEBHOOK_AGE_SECONDS,
+    }) as jwt.JwtPayload;
+
+    const expectedHash = claims.request_body_sha256;
+    if (typeof expectedHash !== "string") {
+      return false;
+    }
+
+    const actualHash = crypto.createHash("sha256").update(rawBody).digest("hex");
+    const expected = Buffer.from(expectedHash, "utf8");
+    const actual = Buffer.from(actualHash, "utf8");
+
+    return expected.length === actual.length && crypto.timingSafeEqual(expected, actual);
+  } catch (error: any) {
+    logServiceEvent("plaid-webhook", "verification-failed", { error: serializeError(error) }, "warn");
+    return false;
+  }
+}
+
+/**
+ * Map an ITEM webhook to the connection status we persist
+ * Returns null for codes that don't change connection health
+ */
+function getConnectionStatusUpdate(
+  payload: PlaidWebhookPayload
+): { status: ConnectionStatus; errorCode: string | null; errorMessage: string | null } | null {
+  switch (payload.webhook_code) {
+    case "ERROR": {
+      const errorCode = payload.error?.error_code || "ITEM_ERROR";
+      return {
+        status: getConnectionStatusForError(errorCode, payload.error?.error_type) ?? "error",
+        errorCode,
+        errorMessage: payload.error?.error_message || "The institution reported an error for this connection",
+      };
+    }
+    case "ITEM_LOGIN_REQUIRED":
+      return {
+        status: "login_required",
+        errorCode: "ITEM_LOGIN_REQUIRED",
+        errorMessage: payload.error?.error_message || "The institution requires you to log in again",
+      };
+    case "PENDING_EXPIRATION":
+    case "PENDING_DISCONNECT":
+      return {
+        status: "pending_expiration",
+        errorCode: payload.webhook_code,
+        errorMessage: payload.consent_expiration_time
+          ? `Access consent expires at ${payload.consent_expiration_time}`
+          : "Access consent is about to expire",
+      };
+    case "LOGIN_REPAIRED":
+      return { status: "active", errorCode: null, errorMessage: null };
+    default:
+      return null;
+  }
+}
+
+/**
+ * Dispatch a verified Plaid webhook to the matching sync or status update
+ */
+export async function handlePlaidWebhook(
+  payload: PlaidWebhookPayload,
+  plaidClient: PlaidApi,
+  claudeClient?: ClaudeClient
+): Promise<PlaidWebhookResult> {
+  const { webhook_type: type, webhook_code: code, item_id: itemId } = payload;
+
+  logServiceEvent("plaid-webhook", "received", { type, code, itemId });
+
+  const isTransactionsUpdate = type === "TRANSACTIONS" && code === "SYNC_UPDATES_AVAILABLE";
+  const isHoldingsUpdate = type === "HOLDINGS" && code === "DEFAULT_UPDATE";
+  const isInvestmentTransactionsUpdate = type === "INVESTMENTS_TRANSACTIONS" && code === "DEFAULT_UPDATE";
+  const isLiabilitiesUpdate = type === "LIABILITIES" && code === "DEFAULT_UPDATE";
+  const statusUpdate = type === "ITEM" ? getConnectionStatusUpdate(payload) : null;
+
+  if (
+    !isTransactionsUpdate &&
+    !isHoldingsUpdate &&
+    !isInvestmentTransactionsUpdate &&
+    !isLiabilitiesUpdate &&
+    !statusUpdate
+  ) {
+    logServiceEvent("plaid-webhook", "ignored", { type, code, itemId });
+    return { action: "ignored", itemId, reason: `Unhandled webhook ${type}:${code}` };
+  }
+
+  if (!itemId) {
+    logServiceEvent("plaid-webhook", "missing-item-id", { type, code }, "warn");
+    return { action: "ignored", reason: "Webhook has no item_id" };
+  }
+
+  const connection = await findAccountConnectionByItemId(itemId);
+  if (!connection) {
+    logServiceEvent("plaid-webhook", "unknown-item", { type, code, itemId }, "warn");
+    return { action: "ignored", itemId, reason: "No connection found for item" };
+  }
+
+  if (statusUpdate) {
+    await updateAccountConnectionStatus(
+      itemId,
+      statusUpdate.status,
+      statusUpdate.errorCode,
+      statusUpdate.errorMessage
+    );
+    logServiceEvent("plaid-webhook", "connection-status-updated", {
+      userId: connection.userId,
+      itemId,
+      status: statusUpdate.status,
+      errorCode: statusUpdate.errorCode,
+    });
+    return { action: "connection-status-updated", itemId };
+  }
+
+  // Data webhooks can still arrive for an item that broke after they were queued
+  if (shouldSkipConnectionSync(connection.status)) {
+    logServiceEvent("plaid-webhook", "skipped-broken-item", {
+      userId: connection.userId,
+      itemId,
+      status: connection.status,
+    });
+    return { action: "ignored", itemId, reason: `Connection needs reconnect (${connection.status})` };
+  }
+
+  if (isTransactionsUpdate) {
+    const syncService = new TransactionSyncService(plaidClient, getSupabaseServiceRole(), claudeClient);
+    const locked = await withItemSyncLockOrResync(itemId, connection.userId, "webhook", () =>
+      syncService.initiateSyncForConnection(itemId, connection.userId, connection.accessToken)
+    );
+    // The running sync may already be past its last page, so it syncs again before releasing
+    if (!locked.acquired) {
+      logServiceEvent("plaid-webhook", "transactions-resync-requested", {
+        userId: connection.userId,
+        itemId,
+        requested: locked.resyncRequested,
+      });
+      return locked.resyncRequested
+        ? { action: "transactions-resync-requested", itemId }
+        : { action: "ignored", itemId, reason: "Sync lease busy; the next sync will pick up the update" };
+    }
+    logServiceEvent("plaid-webhook", "transactions-sync-complete", { userId: connection.userId, itemId });
+    return { action: "transactions-sync", itemId };
+  }
+
+  if (isLiabilitiesUpdate) {
+    const liabilitySyncService = new LiabilitySyncService(plaidClient, getSupabaseServiceRole());
+    const counts = await liabilitySyncService.syncConnectionLiabilities({
+      itemId,
+      userId: connection.userId,
+      accessToken: connection.accessToken,
+    });
+    logServiceEvent("plaid-webhook", "liabilities-sync-complete", {
+      userId: connection.userId,
+      itemId,
+      ...counts,
+    });
+    return { action: "liabilities-sync", itemId };
+  }
+
+  const investmentSyncService = new InvestmentSyncService(plaidClient, getSupabaseServiceRole());
+
+  if (isInvestmentTransactionsUpdate) {
+    const count = await investmentSyncService.syncInvestmentTransactions({
+      itemId,
+      userId: connection.userId,
+      accessToken: connection.accessToken,
+    });
+    logServiceEvent("plaid-webhook", "investment-transactions-sync-complete", {
+      userId: connection.userId,
+      itemId,
+      count,
+    });
+    return { action: "investment-transactions-sync", itemId };
+  }
+
+  await investmentSyncService.syncConnectionInvestments({
+    itemId,
+    userId: connection.userId,
+    accessToken: connection.accessToken,
+  });
+  logServiceEvent("plaid-webhook", "investments-sync-complete", { userId: connection.userId, itemId });
+  return { action: "investments-sync", itemId };
+}
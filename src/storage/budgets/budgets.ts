@@ -152,6 +152,62 @@ export async function deleteBudget(
   logServiceEvent("budgets-repository", "budget-deleted", { userId, budgetId });
 }
 
+/**
+ * Point every budget whose category criterion names one category at another (category rename
+ * or merge). Names match case-insensitively, like budget criteria do
+ * @returns The budgets that changed
+ */
+export async function renameBudgetFilterCategory(
+  userId: string,
+  fromCategory: string,
+  toCategory: string
+): Promise<Budget[]> {
+  const from = fromCategory.trim().toLowerCase();
+
+  return withUserSupabaseRetry(userId, async (client) => {
+    const { data, error } = await client
+      .from("budgets")
+      .select("id, filter_categories")
+      .eq("user_id", userId);
+
+    if (error) {
+      throw new Error(`Failed to fetch budget categories: ${error.message}`);
+    }
+
+    const updated: Budget[] = [];
+    for (const budget of data || []) {
+      if (!budget.filter_categories.some((name) => name.trim().toLowerCase() === from)) {
+        continue;
+      }
+
+      const categories = budget.filter_categories.map((name) =>
+        name.trim().toLowerCase() === from ? toCategory : name
+      );
+      const { data: row, error: updateError } = await client
+        .from("budgets")
+        .update({
+          // A merge can leave both names pointing at the target
+          filter_categories: categories.filter(
+            (name, index) => categories.findIndex((other) => other.toLowerCase() === name.toLowerCase()) === index
+          ),
+          updated_at: new Date().toISOString(),
+        })
+        .eq("user_id", userId)
+        .eq("id", budget.id)
+        .select()
+        .single();
+
+      if (updateError) {
+        throw new Error(`Failed to update budget categories: ${updateError.message}`);
+      }
+      updated.push(row);
+    }
+
+    logServiceEvent("budgets-repository", "filter-category-renamed", { userId, budgetsUpdated: updated.length });
+    return updated;
+  });
+}
+
 /**
  * Update budget processing status to "processing"
  */
@@ -0,0 +1,197 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+import { withUserSupabaseRetry } from "../supabase.js";
+import { Database, Tables } from "../database.types.js";
+import type { Category, DefaultCategory } from "../../utils/category-taxonomy.js";
+import { logServiceEvent, serializeError } from "../../utils/logger.js";
+
+/**
+ * Database type for categories table
+ */
+export type CategoryRow = Tables<"categories">;
+
+export interface NewCategory {
+  name: string;
+  parentId?: string | null;
+  description?: string | null;
+  color?: string | null;
+  icon?: string | null;
+  excludeFromSpending?: boolean;
+}
+
+function rowToCategory(row: CategoryRow): Category {
+  return {
+    id: row.id,
+    name: row.name,
+    parentId: row.parent_id,
+    description: row.description,
+    color: row.color,
+    icon: row.icon,
+    excludeFromSpending: row.exclude_from_spending,
+  };
+}
+
+/**
+ * Get a user's stored categories (empty when they still use the defaults)
+ * @param userId - Clerk user ID
+ * @param supabaseClient - Optional client (sync and cron pass the service role client)
+ */
+export async function getCategories(
+  userId: string,
+  supabaseClient?: SupabaseClient<Database>
+): Promise<Category[]> {
+  return withUserSupabaseRetry(
+    userId,
+    async (client) => {
+      const { data, error } = await client
+        .from("categories")
+        .select("*")
+        .eq("user_id", userId)
+        .order("created_at", { ascending: true });
+
+      if (error) {
+        logServiceEvent("categories", "fetch-error", { userId, error: serializeError(error) }, "error");
+        throw new Error(`Failed to fetch categories: ${error.message}`);
+      }
+
+      return (data || []).map(rowToCategory);
+    },
+    { supabaseClient }
+  );
+}
+
+/**
+ * Store the default taxonomy for a user, so it can be edited
+ */
+export async function insertDefaultCategories(
+  userId: string,
+  defaults: DefaultCategory[]
+): Promise<Category[]> {
+  const inserted = await withUserSupabaseRetry(userId, async (client) => {
+    const { data, error } = await client
+      .from("categories")
+      .insert(
+        defaults.map((category) => ({
+          user_id: userId,
+          name: category.name,
+          description: category.description,
+          color: category.color,
+          icon: category.icon,
+          exclude_from_spending: category.excludeFromSpending,
+        }))
+      )
+      .select("*");
+
+    if (error) {
+      logServiceEvent("categories", "seed-error", { userId, error: serializeError(error) }, "error");
+      throw new Error(`Failed to create default categories: ${error.message}`);
+    }
+
+    return (data || []).map(rowToCategory);
+  });
+
+  logServiceEvent("categories", "seeded", { userId, count: inserted.length });
+  return inserted;
+}
+
+/**
+ * Create a category (validate with validateNewCategory first)
+ */
+export async function createCategory(
+  userId: string,
+  category: NewCategory
+): Promise<Category> {
+  const created = await withUserSupabaseRetry(userId, async (client) => {
+    const { data, error } = await client
+      .from("categories")
+      .insert({
+        user_id: userId,
+        name: category.name,
+        parent_id: category.parentId ?? null,
+        description: category.description ?? null,
+        color: category.color ?? null,
+        icon: category.icon ?? null,
+        exclude_from_spending: category.excludeFromSpending ?? false,
+      })
+      .select("*")
+      .single();
+
+    if (error) {
+      logServiceEvent("categories", "create-error", { userId, error: serializeError(error) }, "error");
+      throw new Error(`Failed to create category: ${error.message}`);
+    }
+
+    return rowToCategory(data);
+  });
+
+  logServiceEvent("categories", "created", { userId, categoryId: created.id });
+  return created;
+}
+
+/**
+ * Rename a category row (transactions and rules are migrated by the taxonomy service)
+ */
+export async function updateCategoryName(
+  userId: string,
+  categoryId: string,
+  name: string
+): Promise<void> {
+  await withUserSupabaseRetry(userId, async (client) => {
+    const { error } = await client
+      .from("categories")
+      .update({ name, updated_at: new Date().toISOString() })
+      .eq("user_id", userId)
+      .eq("id", categoryId);
+
+    if (error) {
+      logServiceEvent("categories", "rename-error", { userId, categoryId, error: serializeError(error) }, "error");
+      throw new Error(`Failed to rename category: ${error.message}`);
+    }
+  });
+
+  logServiceEvent("categories", "renamed", { userId, categoryId });
+}
+
+/**
+ * Move every subcategory of one category under another
+ */
+export async function moveSubcategories(
+  userId: string,
+  fromParentId: string,
+  toParentId: string
+): Promise<void> {
+  await withUserSupabaseRetry(userId, async (client) => {
+    const { error } = await client
+      .from("categories")
+      .update({ parent_id: toParentId, updated_at: new Date().toISOString() })
+      .eq("user_id", userId)
+      .eq("parent_id", fromParentId);
+
+    if (error) {
+      logServiceEvent("categories", "move-error", { userId, fromParentId, error: serializeError(error) }, "error");
+      throw new Error(`Failed to move subcategories: ${error.message}`);
+    }
+  });
+}
+
+/**
+ * Delete a category (its remaining subcategories are deleted with it)
+ */
+export async function deleteCategory(
+  userId: string,
+  categoryId: string
+): Promise<void> {
+  await withUserSupabaseRetry(userId, async (client) => {
+    const { error } = await client
+      .from("categories")
+      .delete()
+      .eq("user_id", userId)
+      .eq("id", categoryId);
+
+    if (error) {
+      logServiceEvent("categories", "delete-error", { userId, categoryId, error: serializeError(error) }, "error");
+      throw new Error(`Failed to delete category: ${error.message}`);
+    }
+  });
+
+  logServiceEvent("categories", "deleted", { userId, categoryId });
+}
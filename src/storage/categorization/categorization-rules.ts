@@ -0,0 +1,155 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+import { withUserSupabaseRetry } from "../supabase.js";
+import { Database, Tables } from "../database.types.js";
+import type { CategorizationRule, MerchantMatchType } from "../../utils/categorization-rules.js";
+import { logServiceEvent, serializeError } from "../../utils/logger.js";
+
+/**
+ * Database type for categorization_rules table
+ */
+export type CategorizationRuleRow = Tables<"categorization_rules">;
+
+export interface NewCategorizationRule {
+  merchantPattern?: string | null;
+  merchantMatchType?: MerchantMatchType;
+  minAmount?: number | null;
+  maxAmount?: number | null;
+  accountIds?: string[] | null;
+  plaidCategory?: string | null;
+  category: string;
+  priority?: number;
+}
+
+function rowToRule(row: CategorizationRuleRow): CategorizationRule {
+  return {
+    id: row.id,
+    merchantPattern: row.merchant_pattern,
+    merchantMatchType: row.merchant_match_type as MerchantMatchType,
+    minAmount: row.min_amount,
+    maxAmount: row.max_amount,
+    accountIds: row.account_ids,
+    plaidCategory: row.plaid_category,
+    category: row.category,
+    priority: row.priority,
+    enabled: row.enabled,
+    createdAt: row.created_at,
+  };
+}
+
+/**
+ * Get a user's structured categorization rules in evaluation order
+ * @param userId - Clerk user ID
+ * @param supabaseClient - Optional client (sync and cron pass the service role client)
+ */
+export async function getCategorizationRules(
+  userId: string,
+  supabaseClient?: SupabaseClient<Database>
+): Promise<CategorizationRule[]> {
+  return withUserSupabaseRetry(
+    userId,
+    async (client) => {
+      const { data, error } = await client
+        .from("categorization_rules")
+        .select("*")
+        .eq("user_id", userId)
+        .order("priority", { ascending: false })
+        .order("created_at", { ascending: true });
+
+      if (error) {
+        logServiceEvent("categorization-rules", "structured-fetch-error", { userId, error: serializeError(error) }, "error");
+        throw new Error(`Failed to fetch categorization rules: ${error.message}`);
+      }
+
+      return (data || []).map(rowToRule);
+    },
+    { supabaseClient }
+  );
+}
+
+/**
+ * Create a structured categorization rule
+ * @param userId - Clerk user ID
+ * @param rule - Rule conditions and target category (validate with validateCategorizationRule first)
+ */
+export async function createCategorizationRule(
+  userId: string,
+  rule: NewCategorizationRule
+): Promise<CategorizationRule> {
+  const created = await withUserSupabaseRetry(userId, async (client) => {
+    const { data, error } = await client
+      .from("categorization_rules")
+      .insert({
+        user_id: userId,
+        merchant_pattern: rule.merchantPattern ?? null,
+        merchant_match_type: rule.merchantMatchType ?? "contains",
+        min_amount: rule.minAmount ?? null,
+        max_amount: rule.maxAmount ?? null,
+        account_ids: rule.accountIds && rule.accountIds.length > 0 ? rule.accountIds : null,
+        plaid_category: rule.plaidCategory ?? null,
+        category: rule.category,
+        priority: rule.priority ?? 0,
+      })
+      .select("*")
+      .single();
+
+    if (error) {
+      logServiceEvent("categorization-rules", "structured-create-error", { userId, error: serializeError(error) }, "error");
+      throw new Error(`Failed to create categorization rule: ${error.message}`);
+    }
+
+    return rowToRule(data);
+  });
+
+  logServiceEvent("categorization-rules", "structured-created", { userId, ruleId: created.id });
+  return created;
+}
+
+/**
+ * Delete a structured categorization rule
+ * @returns true when a rule was deleted, false when no rule with that ID exists for the user
+ */
+export async function deleteCategorizationRule(
+  userId: string,
+  ruleId: string
+): Promise<boolean> {
+  const deleted = await withUserSupabaseRetry(userId, async (client) => {
+    const { data, error } = await client
+      .from("categorization_rules")
+      .delete()
+      .eq("user_id", userId)
+      .eq("id", ruleId)
+      .select("id");
+
+    if (error) {
+      logServiceEvent("categorization-rules", "structured-delete-error", { userId, ruleId, error: serializeError(error) }, "error");
+      throw new Error(`Failed to delete categorization rule: ${error.message}`);
+    }
+
+    return (data || []).length > 0;
+  });
+
+  logServiceEvent("categorization-rules", "structured-deleted", { userId, ruleId, deleted });
+  return deleted;
+}
+
+/**
+ * Point every rule that assigns one category at another (category rename or merge)
+ */
+export async function renameCategorizationRuleCategory(
+  userId: string,
+  fromCategory: string,
+  toCategory: string
+): Promise<void> {
+  await withUserSupabaseRetry(userId, async (client) => {
+    const { error } = await client
+      .from("categorization_rules")
+      .update({ category: toCategory, updated_at: new Date().toISOString() })
+      .eq("user_id", userId)
+      .eq("category", fromCategory);
+
+    if (error) {
+      logServiceEvent("categorization-rules", "structured-rename-error", { userId, error: serializeError(error) }, "error");
+      throw new Error(`Failed to update categorization rules: ${error.message}`);
+    }
+  });
+}
@@ -1,5 +1,6 @@
 import { withUserSupabaseRetry } from "../supabase.js";
 import { Tables } from "../database.types.js";
+import { clearMerchantCategoryCache } from "../repositories/merchant-category-cache.js";
 import { logServiceEvent, serializeError } from "../../utils/logger.js";
 
 /**
@@ -35,6 +36,7 @@ export async function getCustomRules(userId: string): Promise<string | null> {
 
 /**
  * Save or update user's custom categorization rules
+ * Also clears the merchant category cache, which holds answers given under the old rules
  * @param userId - Clerk user ID
  * @param customRules - Custom categorization instructions
  */
@@ -60,6 +62,8 @@ export async function saveCustomRules(
       logServiceEvent("categorization-rules", "save-error", { userId, error: serializeError(error) }, "error");
       throw new Error(`Failed to save categorization rules: ${error.message}`);
     }
+
+    await clearMerchantCategoryCache(userId, client);
   });
 
   logServiceEvent("categorization-rules", "saved", { userId });
@@ -80,6 +84,8 @@ export async function deleteCustomRules(userId: string): Promise<void> {
       logServiceEvent("categorization-rules", "delete-error", { userId, error: serializeError(error) }, "error");
       throw new Error(`Failed to delete categorization rules: ${error.message}`);
     }
+
+    await clearMerchantCategoryCache(userId, client);
   });
 
   logServiceEvent("categorization-rules", "deleted", { userId });
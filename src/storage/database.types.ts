@@ -34,6 +34,53 @@ export type Database = {
   }
   public: {
     Tables: {
+      account_balance_history: {
+        Row: {
+          account_id: string
+          available_balance: number | null
+          balance_date: string
+          created_at: string | null
+          currency_code: string | null
+          current_balance: number | null
+          id: string
+          limit_amount: number | null
+          updated_at: string | null
+          user_id: string
+        }
+        Insert: {
+          account_id: string
+          available_balance?: number | null
+          balance_date: string
+          created_at?: string | null
+          currency_code?: string | null
+          current_balance?: number | null
+          id?: string
+          limit_amount?: number | null
+          updated_at?: string | null
+          user_id: string
+        }
+        Update: {
+          account_id?: string
+          available_balance?: number | null
+          balance_date?: string
+          created_at?: string | null
+          currency_code?: string | null
+          current_balance?: number | null
+          id?: string
+          limit_amount?: number | null
+          updated_at?: string | null
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "account_balance_history_account_id_fkey"
+            columns: ["account_id"]
+            isOneToOne: false
+            referencedRelation: "accounts"
+            referencedColumns: ["account_id"]
+          },
+        ]
+      }
       account_investment_sync_state: {
         Row: {
           account_id: string
@@ -72,6 +119,42 @@ export type Database = {
           },
         ]
       }
+      account_refresh_jobs: {
+        Row: {
+          completed_at: string | null
+          created_at: string
+          error_message: string | null
+          id: string
+          item_ids: string[]
+          item_results: Json
+          started_at: string | null
+          status: string
+          user_id: string
+        }
+        Insert: {
+          completed_at?: string | null
+          created_at?: string
+          error_message?: string | null
+          id?: string
+          item_ids?: string[]
+          item_results?: Json
+          started_at?: string | null
+          status?: string
+          user_id: string
+        }
+        Update: {
+          completed_at?: string | null
+          created_at?: string
+          error_message?: string | null
+          id?: string
+          item_ids?: string[]
+          item_results?: Json
+          started_at?: string | null
+          status?: string
+          user_id?: string
+        }
+        Relationships: []
+      }
       account_sync_state: {
         Row: {
           account_id: string
@@ -175,47 +258,128 @@ export type Database = {
           },
         ]
       }
+      background_jobs: {
+        Row: {
+          completed_at: string | null
+          created_at: string
+          error_message: string | null
+          failed_count: number
+          id: string
+          job_type: string
+          metadata: Json
+          processed_count: number
+          started_at: string | null
+          status: string
+          total_count: number | null
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          completed_at?: string | null
+          created_at?: string
+          error_message?: string | null
+          failed_count?: number
+          id?: string
+          job_type: string
+          metadata?: Json
+          processed_count?: number
+          started_at?: string | null
+          status?: string
+          total_count?: number | null
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          completed_at?: string | null
+          created_at?: string
+          error_message?: string | null
+          failed_count?: number
+          id?: string
+          job_type?: string
+          metadata?: Json
+          processed_count?: number
+          started_at?: string | null
+          status?: string
+          total_count?: number | null
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: []
+      }
       budgets: {
         Row: {
+          alert_thresholds: number[]
           budget_amount: number
           created_at: string | null
           custom_period_days: number | null
-          filter_prompt: string
+          filter_account_ids: string[]
+          filter_categories: string[]
+          filter_max_amount: number | null
+          filter_merchant_patterns: string[]
+          filter_min_amount: number | null
+          filter_prompt: string | null
+          filter_tags: string[]
           fixed_period_start_date: string | null
           id: string
           processing_completed_at: string | null
           processing_error: string | null
           processing_status: string
+          rollover_cap: number | null
+          rollover_mode: string
+          rollover_start_date: string | null
+          tag: string | null
           time_period: string
           title: string
           updated_at: string | null
           user_id: string
         }
         Insert: {
+          alert_thresholds?: number[]
           budget_amount: number
           created_at?: string | null
           custom_period_days?: number | null
-          filter_prompt: string
+          filter_account_ids?: string[]
+          filter_categories?: string[]
+          filter_max_amount?: number | null
+          filter_merchant_patterns?: string[]
+          filter_min_amount?: number | null
+          filter_prompt?: string | null
+          filter_tags?: string[]
           fixed_period_start_date?: string | null
           id: string
           processing_completed_at?: string | null
           processing_error?: string | null
           processing_status?: string
+          rollover_cap?: number | null
+          rollover_mode?: string
+          rollover_start_date?: string | null
+          tag?: string | null
           time_period: string
           title: string
           updated_at?: string | null
           user_id: string
         }
         Update: {
+          alert_thresholds?: number[]
           budget_amount?: number
           created_at?: string | null
           custom_period_days?: number | null
-          filter_prompt?: string
+          filter_account_ids?: string[]
+          filter_categories?: string[]
+          filter_max_amount?: number | null
+          filter_merchant_patterns?: string[]
+          filter_min_amount?: number | null
+          filter_prompt?: string | null
+          filter_tags?: string[]
           fixed_period_start_date?: string | null
           id?: string
           processing_completed_at?: string | null
           processing_error?: string | null
           processing_status?: string
+          rollover_cap?: number | null
+          rollover_mode?: string
+          rollover_start_date?: string | null
+          tag?: string | null
           time_period?: string
           title?: string
           updated_at?: string | null
@@ -223,6 +387,53 @@ export type Database = {
         }
         Relationships: []
       }
+      categories: {
+        Row: {
+          color: string | null
+          created_at: string
+          description: string | null
+          exclude_from_spending: boolean
+          icon: string | null
+          id: string
+          name: string
+          parent_id: string | null
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          color?: string | null
+          created_at?: string
+          description?: string | null
+          exclude_from_spending?: boolean
+          icon?: string | null
+          id?: string
+          name: string
+          parent_id?: string | null
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          color?: string | null
+          created_at?: string
+          description?: string | null
+          exclude_from_spending?: boolean
+          icon?: string | null
+          id?: string
+          name?: string
+          parent_id?: string | null
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "categories_parent_id_fkey"
+            columns: ["parent_id"]
+            isOneToOne: false
+            referencedRelation: "categories"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       categorization_prompts: {
         Row: {
           custom_rules: string | null
@@ -241,6 +452,54 @@ export type Database = {
         }
         Relationships: []
       }
+      categorization_rules: {
+        Row: {
+          account_ids: string[] | null
+          category: string
+          created_at: string
+          enabled: boolean
+          id: string
+          max_amount: number | null
+          merchant_match_type: string
+          merchant_pattern: string | null
+          min_amount: number | null
+          plaid_category: string | null
+          priority: number
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          account_ids?: string[] | null
+          category: string
+          created_at?: string
+          enabled?: boolean
+          id?: string
+          max_amount?: number | null
+          merchant_match_type?: string
+          merchant_pattern?: string | null
+          min_amount?: number | null
+          plaid_category?: string | null
+          priority?: number
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          account_ids?: string[] | null
+          category?: string
+          created_at?: string
+          enabled?: boolean
+          id?: string
+          max_amount?: number | null
+          merchant_match_type?: string
+          merchant_pattern?: string | null
+          min_amount?: number | null
+          plaid_category?: string | null
+          priority?: number
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: []
+      }
       investment_holdings: {
         Row: {
           account_id: string
@@ -318,6 +577,83 @@ export type Database = {
           },
         ]
       }
+      investment_transactions: {
+        Row: {
+          account_id: string
+          amount: number
+          created_at: string | null
+          date: string
+          fees: number | null
+          id: string
+          investment_transaction_id: string
+          iso_currency_code: string | null
+          last_synced_at: string | null
+          name: string
+          price: number
+          quantity: number
+          security_id: string | null
+          security_name: string | null
+          subtype: string | null
+          ticker_symbol: string | null
+          type: string
+          unofficial_currency_code: string | null
+          updated_at: string | null
+          user_id: string
+        }
+        Insert: {
+          account_id: string
+          amount: number
+          created_at?: string | null
+          date: string
+          fees?: number | null
+          id?: string
+          investment_transaction_id: string
+          iso_currency_code?: string | null
+          last_synced_at?: string | null
+          name: string
+          price?: number
+          quantity?: number
+          security_id?: string | null
+          security_name?: string | null
+          subtype?: string | null
+          ticker_symbol?: string | null
+          type: string
+          unofficial_currency_code?: string | null
+          updated_at?: string | null
+          user_id: string
+        }
+        Update: {
+          account_id?: string
+          amount?: number
+          created_at?: string | null
+          date?: string
+          fees?: number | null
+          id?: string
+          investment_transaction_id?: string
+          iso_currency_code?: string | null
+          last_synced_at?: string | null
+          name?: string
+          price?: number
+          quantity?: number
+          security_id?: string | null
+          security_name?: string | null
+          subtype?: string | null
+          ticker_symbol?: string | null
+          type?: string
+          unofficial_currency_code?: string | null
+          updated_at?: string | null
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "investment_transactions_account_id_fkey"
+            columns: ["account_id"]
+            isOneToOne: false
+            referencedRelation: "accounts"
+            referencedColumns: ["account_id"]
+          },
+        ]
+      }
       liabilities_credit: {
         Row: {
           account_id: string
@@ -576,6 +912,89 @@ export type Database = {
           },
         ]
       }
+      liabilities_sync_state: {
+        Row: {
+          created_at: string | null
+          credit_count: number | null
+          item_id: string
+          last_error: string | null
+          last_synced_at: string | null
+          mortgage_count: number | null
+          student_count: number | null
+          sync_status: string
+          updated_at: string | null
+          user_id: string
+        }
+        Insert: {
+          created_at?: string | null
+          credit_count?: number | null
+          item_id: string
+          last_error?: string | null
+          last_synced_at?: string | null
+          mortgage_count?: number | null
+          student_count?: number | null
+          sync_status?: string
+          updated_at?: string | null
+          user_id: string
+        }
+        Update: {
+          created_at?: string | null
+          credit_count?: number | null
+          item_id?: string
+          last_error?: string | null
+          last_synced_at?: string | null
+          mortgage_count?: number | null
+          student_count?: number | null
+          sync_status?: string
+          updated_at?: string | null
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "liabilities_sync_state_item_id_fkey"
+            columns: ["item_id"]
+            isOneToOne: true
+            referencedRelation: "plaid_connections"
+            referencedColumns: ["item_id"]
+          },
+        ]
+      }
+      merchant_category_cache: {
+        Row: {
+          amount_band: string
+          category: string
+          confidence: number
+          created_at: string
+          id: string
+          merchant_key: string
+          observation_count: number
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          amount_band: string
+          category: string
+          confidence: number
+          created_at?: string
+          id?: string
+          merchant_key: string
+          observation_count?: number
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          amount_band?: string
+          category?: string
+          confidence?: number
+          created_at?: string
+          id?: string
+          merchant_key?: string
+          observation_count?: number
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: []
+      }
       net_worth_snapshots: {
         Row: {
           assets_total: number
@@ -609,6 +1028,87 @@ export type Database = {
         }
         Relationships: []
       }
+      notification_channels: {
+        Row: {
+          channel: string
+          created_at: string
+          enabled: boolean
+          id: string
+          target: string
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          channel: string
+          created_at?: string
+          enabled?: boolean
+          id?: string
+          target: string
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          channel?: string
+          created_at?: string
+          enabled?: boolean
+          id?: string
+          target?: string
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: []
+      }
+      notifications: {
+        Row: {
+          created_at: string
+          data: Json
+          dedupe_key: string
+          delivered_at: string | null
+          delivered_channels: string[]
+          delivery_attempts: number
+          delivery_status: string
+          id: string
+          last_delivery_error: string | null
+          message: string
+          read_at: string | null
+          title: string
+          type: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          data?: Json
+          dedupe_key: string
+          delivered_at?: string | null
+          delivered_channels?: string[]
+          delivery_attempts?: number
+          delivery_status?: string
+          id?: string
+          last_delivery_error?: string | null
+          message: string
+          read_at?: string | null
+          title: string
+          type: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          data?: Json
+          dedupe_key?: string
+          delivered_at?: string | null
+          delivered_channels?: string[]
+          delivery_attempts?: number
+          delivery_status?: string
+          id?: string
+          last_delivery_error?: string | null
+          message?: string
+          read_at?: string | null
+          title?: string
+          type?: string
+          user_id?: string
+        }
+        Relationships: []
+      }
       opinions: {
         Row: {
           author: string
@@ -652,6 +1152,7 @@ export type Database = {
           item_id: string
           plaid_env: string
           status: string
+          status_updated_at: string | null
           user_id: string
         }
         Insert: {
@@ -663,6 +1164,7 @@ export type Database = {
           item_id: string
           plaid_env?: string
           status?: string
+          status_updated_at?: string | null
           user_id: string
         }
         Update: {
@@ -674,6 +1176,7 @@ export type Database = {
           item_id?: string
           plaid_env?: string
           status?: string
+          status_updated_at?: string | null
           user_id?: string
         }
         Relationships: []
@@ -708,6 +1211,154 @@ export type Database = {
         }
         Relationships: []
       }
+      recurring_series: {
+        Row: {
+          account_id: string | null
+          cadence: string
+          created_at: string | null
+          detected_at: string | null
+          expected_amount: number
+          first_date: string
+          id: string
+          last_date: string
+          merchant_key: string
+          merchant_name: string
+          next_expected_date: string
+          occurrence_count: number
+          previous_amount: number | null
+          price_increased: boolean
+          status: string
+          transaction_ids: string[]
+          updated_at: string | null
+          user_id: string
+        }
+        Insert: {
+          account_id?: string | null
+          cadence: string
+          created_at?: string | null
+          detected_at?: string | null
+          expected_amount: number
+          first_date: string
+          id?: string
+          last_date: string
+          merchant_key: string
+          merchant_name: string
+          next_expected_date: string
+          occurrence_count: number
+          previous_amount?: number | null
+          price_increased?: boolean
+          status?: string
+          transaction_ids?: string[]
+          updated_at?: string | null
+          user_id: string
+        }
+        Update: {
+          account_id?: string | null
+          cadence?: string
+          created_at?: string | null
+          detected_at?: string | null
+          expected_amount?: number
+          first_date?: string
+          id?: string
+          last_date?: string
+          merchant_key?: string
+          merchant_name?: string
+          next_expected_date?: string
+          occurrence_count?: number
+          previous_amount?: number | null
+          price_increased?: boolean
+          status?: string
+          transaction_ids?: string[]
+          updated_at?: string | null
+          user_id?: string
+        }
+        Relationships: []
+      }
+      sync_locks: {
+        Row: {
+          acquired_at: string
+          expires_at: string
+          holder: string
+          item_id: string
+          lease_token: string
+          resync_requested: boolean
+          user_id: string
+        }
+        Insert: {
+          acquired_at?: string
+          expires_at: string
+          holder: string
+          item_id: string
+          lease_token: string
+          resync_requested?: boolean
+          user_id: string
+        }
+        Update: {
+          acquired_at?: string
+          expires_at?: string
+          holder?: string
+          item_id?: string
+          lease_token?: string
+          resync_requested?: boolean
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "sync_locks_item_id_fkey"
+            columns: ["item_id"]
+            isOneToOne: true
+            referencedRelation: "plaid_connections"
+            referencedColumns: ["item_id"]
+          },
+        ]
+      }
+      transaction_splits: {
+        Row: {
+          amount: number
+          budget_ids: string[]
+          category: string
+          created_at: string
+          id: string
+          note: string | null
+          position: number
+          transaction_id: string
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          amount: number
+          budget_ids?: string[]
+          category: string
+          created_at?: string
+          id?: string
+          note?: string | null
+          position?: number
+          transaction_id: string
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          amount?: number
+          budget_ids?: string[]
+          category?: string
+          created_at?: string
+          id?: string
+          note?: string | null
+          position?: number
+          transaction_id?: string
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "transaction_splits_transaction_id_fkey"
+            columns: ["transaction_id"]
+            isOneToOne: false
+            referencedRelation: "transactions"
+            referencedColumns: ["transaction_id"]
+          },
+        ]
+      }
       transactions: {
         Row: {
           account_id: string
@@ -716,17 +1367,30 @@ export type Database = {
           budget_ids: string[] | null
           budgets_updated_at: string | null
           categorized_at: string | null
+          category_locked: boolean
+          category_rule_id: string | null
+          category_source: string | null
+          counterparties: Json | null
           created_at: string | null
           custom_category: string | null
           date: string
           institution_name: string | null
           item_id: string
+          location: Json | null
+          logo_url: string | null
+          merchant_name: string | null
           name: string
+          notes: string | null
+          payment_channel: string | null
           pending: boolean
           plaid_category: Json | null
+          tags: string[]
           transaction_id: string
+          transfer_match_rejected: boolean
+          transfer_pair_id: string | null
           updated_at: string | null
           user_id: string
+          website: string | null
         }
         Insert: {
           account_id: string
@@ -735,17 +1399,30 @@ export type Database = {
           budget_ids?: string[] | null
           budgets_updated_at?: string | null
           categorized_at?: string | null
+          category_locked?: boolean
+          category_rule_id?: string | null
+          category_source?: string | null
+          counterparties?: Json | null
           created_at?: string | null
           custom_category?: string | null
           date: string
           institution_name?: string | null
           item_id: string
+          location?: Json | null
+          logo_url?: string | null
+          merchant_name?: string | null
           name: string
+          notes?: string | null
+          payment_channel?: string | null
           pending?: boolean
           plaid_category?: Json | null
+          tags?: string[]
           transaction_id: string
+          transfer_match_rejected?: boolean
+          transfer_pair_id?: string | null
           updated_at?: string | null
           user_id: string
+          website?: string | null
         }
         Update: {
           account_id?: string
@@ -754,17 +1431,30 @@ export type Database = {
           budget_ids?: string[] | null
           budgets_updated_at?: string | null
           categorized_at?: string | null
+          category_locked?: boolean
+          category_rule_id?: string | null
+          category_source?: string | null
+          counterparties?: Json | null
           created_at?: string | null
           custom_category?: string | null
           date?: string
           institution_name?: string | null
           item_id?: string
+          location?: Json | null
+          logo_url?: string | null
+          merchant_name?: string | null
           name?: string
+          notes?: string | null
+          payment_channel?: string | null
           pending?: boolean
           plaid_category?: Json | null
+          tags?: string[]
           transaction_id?: string
+          transfer_match_rejected?: boolean
+          transfer_pair_id?: string | null
           updated_at?: string | null
           user_id?: string
+          website?: string | null
         }
         Relationships: [
           {
@@ -781,7 +1471,10 @@ export type Database = {
       [_ in never]: never
     }
     Functions: {
-      [_ in never]: never
+      delete_orphaned_recurring_series: {
+        Args: Record<PropertyKey, never>
+        Returns: number
+      }
     }
     Enums: {
       [_ in never]: never
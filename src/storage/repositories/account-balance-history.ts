@@ -0,0 +1,125 @@
+/**
+ * Account Balance History Repository
+ * Daily per-account balance rows recorded on every account sync
+ */
+
+import { SupabaseClient } from "@supabase/supabase-js";
+import { getSupabaseServiceRole } from "../supabase.js";
+import { Database } from "../database.types.js";
+import type { Account } from "./accounts.js";
+
+export interface AccountBalanceHistoryEntry {
+  account_id: string;
+  account_name: string;
+  account_type: string;
+  account_subtype: string | null;
+  balance_date: string;
+  current_balance: number | null;
+  available_balance: number | null;
+  limit_amount: number | null;
+  currency_code: string | null;
+}
+
+export interface AccountBalanceHistoryFilters {
+  startDate?: string;
+  endDate?: string;
+  accountIds?: string[];
+  accountTypes?: string[];
+}
+
+function getClient(supabaseClient?: SupabaseClient<Database>) {
+  return supabaseClient ?? getSupabaseServiceRole();
+}
+
+/**
+ * Record today's balance for each account
+ * Re-syncing on the same day overwrites that day's row, so each day keeps its latest balance.
+ */
+export async function recordAccountBalances(
+  userId: string,
+  accounts: Account[],
+  supabaseClient?: SupabaseClient<Database>
+): Promise<void> {
+  if (accounts.length === 0) {
+    return;
+  }
+
+  const client = getClient(supabaseClient);
+  const now = new Date().toISOString();
+  const balanceDate = now.split("T")[0];
+
+  const rows = accounts.map((account) => ({
+    user_id: userId,
+    account_id: account.account_id,
+    balance_date: balanceDate,
+    current_balance: account.current_balance,
+    available_balance: account.available_balance,
+    limit_amount: account.limit_amount,
+    currency_code: account.currency_code,
+    updated_at: now,
+  }));
+
+  const { error } = await client
+    .from("account_balance_history")
+    .upsert(rows, { onConflict: "account_id,balance_date" });
+
+  if (error) {
+    throw new Error(`Failed to record account balances: ${error.message}`);
+  }
+}
+
+/**
+ * Fetch balance history for a user, oldest → newest
+ * Includes account metadata via join so callers can group by account or type.
+ */
+export async function getAccountBalanceHistory(
+  userId: string,
+  filters: AccountBalanceHistoryFilters = {},
+  supabaseClient?: SupabaseClient<Database>
+): Promise<AccountBalanceHistoryEntry[]> {
+  const client = getClient(supabaseClient);
+
+  let query = client
+    .from("account_balance_history")
+    .select(`
+      account_id,
+      balance_date,
+      current_balance,
+      available_balance,
+      limit_amount,
+      currency_code,
+      accounts!inner(name, type, subtype)
+    `)
+    .eq("user_id", userId);
+
+  if (filters.startDate) {
+    query = query.gte("balance_date", filters.startDate);
+  }
+  if (filters.endDate) {
+    query = query.lte("balance_date", filters.endDate);
+  }
+  if (filters.accountIds && filters.accountIds.length > 0) {
+    query = query.in("account_id", filters.accountIds);
+  }
+  if (filters.accountTypes && filters.accountTypes.length > 0) {
+    query = query.in("accounts.type", filters.accountTypes);
+  }
+
+  const { data, error } = await query.order("balance_date", { ascending: true });
+
+  if (error) {
+    throw new Error(`Failed to fetch account balance history: ${error.message}`);
+  }
+
+  return (data || []).map((row) => ({
+    account_id: row.account_id,
+    account_name: (row.accounts as any)?.name,
+    account_type: (row.accounts as any)?.type,
+    account_subtype: (row.accounts as any)?.subtype ?? null,
+    balance_date: row.balance_date,
+    current_balance: row.current_balance,
+    available_balance: row.available_balance,
+    limit_amount: row.limit_amount,
+    currency_code: row.currency_code,
+  }));
+}
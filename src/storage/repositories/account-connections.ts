@@ -83,6 +83,18 @@ function decryptAccessToken(encryptedToken: string): string {
  */
 export type AccountConnectionRow = Tables<"plaid_connections">;
 
+/**
+ * Connection health states (enforced by a CHECK constraint on plaid_connections.status)
+ * - login_required / error: the user must reconnect via update mode; syncs are skipped
+ * - pending_expiration / institution_down: still synced, shown as a warning
+ */
+export type ConnectionStatus =
+  | "active"
+  | "login_required"
+  | "pending_expiration"
+  | "institution_down"
+  | "error";
+
 /**
  * Decrypted connection data
  */
@@ -93,7 +105,7 @@ export interface AccountConnection {
   connectedAt: Date;
   environment: "sandbox" | "development" | "production";
   institutionName?: string | null;
-  status?: string;
+  status?: ConnectionStatus;
   errorCode?: string | null;
   errorMessage?: string | null;
 }
@@ -123,6 +135,9 @@ export async function upsertAccountConnection(
         plaid_env: environment,
         institution_name: institutionName || null,
         status: 'active',
+        status_updated_at: new Date().toISOString(),
+        error_code: null,
+        error_message: null,
       },
       {
         onConflict: "item_id",
@@ -171,12 +186,105 @@ export async function findAccountConnectionsByUserId(
     connectedAt: new Date(row.connected_at || new Date()),
     environment: (row.plaid_env || "sandbox") as "sandbox" | "development" | "production",
     institutionName: row.institution_name || null,
-    status: row.status || 'active',
+    status: (row.status || 'active') as ConnectionStatus,
     errorCode: row.error_code || null,
     errorMessage: row.error_message || null,
   }));
 }
 
+/**
+ * Get a single connection by item ID (with decrypted token)
+ * Returns null when no connection exists for the item
+ */
+export async function findAccountConnectionByItemId(
+  itemId: string
+): Promise<AccountConnection | null> {
+  logEvent("REPO/ACCOUNT-CONNECTIONS", "fetching-connection", { itemId });
+
+  const { data, error } = await getSupabaseServiceRole()
+    .from("plaid_connections")
+    .select("*")
+    .eq("item_id", itemId)
+    .maybeSingle();
+
+  if (error) {
+    logEvent("REPO/ACCOUNT-CONNECTIONS", "query-error", { error: error.message }, "error");
+    throw new Error(`Failed to fetch connection: ${error.message}`);
+  }
+
+  if (!data) {
+    logEvent("REPO/ACCOUNT-CONNECTIONS", "connection-not-found", { itemId });
+    return null;
+  }
+
+  return {
+    userId: data.user_id,
+    accessToken: decryptAccessToken(data.access_token_encrypted),
+    itemId: data.item_id,
+    connectedAt: new Date(data.connected_at || new Date()),
+    environment: (data.plaid_env || "sandbox") as "sandbox" | "development" | "production",
+    institutionName: data.institution_name || null,
+    status: (data.status || 'active') as ConnectionStatus,
+    errorCode: data.error_code || null,
+    errorMessage: data.error_message || null,
+  };
+}
+
+/**
+ * Update connection health (status plus optional Plaid error details)
+ * Passing no error clears any previously recorded error
+ */
+export async function updateAccountConnectionStatus(
+  itemId: string,
+  status: ConnectionStatus,
+  errorCode?: string | null,
+  errorMessage?: string | null
+): Promise<void> {
+  logEvent("REPO/ACCOUNT-CONNECTIONS", "updating-status", { itemId, status, errorCode });
+
+  const { error } = await getSupabaseServiceRole()
+    .from("plaid_connections")
+    .update({
+      status,
+      status_updated_at: new Date().toISOString(),
+      error_code: errorCode ?? null,
+      error_message: errorMessage ?? null,
+    })
+    .eq("item_id", itemId);
+
+  if (error) {
+    logEvent("REPO/ACCOUNT-CONNECTIONS", "status-update-error", { error: error.message }, "error");
+    throw new Error(`Failed to update connection status: ${error.message}`);
+  }
+
+  logEvent("REPO/ACCOUNT-CONNECTIONS", "status-updated", { itemId, status });
+}
+
+/**
+ * Reset a connection to active, but only if it is currently in one of the given states
+ * Used after a successful Plaid call so a stale outage doesn't linger on the connection
+ */
+export async function clearAccountConnectionStatus(
+  itemId: string,
+  fromStatuses: ConnectionStatus[]
+): Promise<void> {
+  const { error } = await getSupabaseServiceRole()
+    .from("plaid_connections")
+    .update({
+      status: "active",
+      status_updated_at: new Date().toISOString(),
+      error_code: null,
+      error_message: null,
+    })
+    .eq("item_id", itemId)
+    .in("status", fromStatuses);
+
+  if (error) {
+    logEvent("REPO/ACCOUNT-CONNECTIONS", "status-clear-error", { error: error.message }, "error");
+    throw new Error(`Failed to clear connection status: ${error.message}`);
+  }
+}
+
 /**
  * Delete a connection by item ID
  */
@@ -141,4 +141,37 @@ export class AccountInvestmentSyncStateRepository {
       );
     }
   }
+
+  /**
+   * Get sync states for all of a user's investment accounts
+   */
+  async getSyncStatesByUserId(
+    userId: string
+  ): Promise<AccountInvestmentSyncState[]> {
+    const { data, error } = await this.supabase
+      .from("account_investment_sync_state")
+      .select(
+        `
+        *,
+        accounts!inner(user_id)
+      `
+      )
+      .eq("accounts.user_id", userId);
+
+    if (error) {
+      throw new Error(
+        `Failed to get investment sync states: ${error.message}`
+      );
+    }
+
+    return (data || []).map((row) => ({
+      accountId: row.account_id,
+      syncStatus: row.sync_status as SyncStatus,
+      lastSyncedAt: row.last_synced_at ? new Date(row.last_synced_at) : null,
+      lastError: row.last_error,
+      holdingsCount: row.holdings_count,
+      createdAt: new Date(row.created_at),
+      updatedAt: new Date(row.updated_at),
+    }));
+  }
 }
@@ -0,0 +1,163 @@
+/**
+ * Account Refresh Jobs Repository
+ * On-demand refresh requests created by the refresh-accounts tool
+ */
+
+import { getSupabaseServiceRole } from "../supabase.js";
+import type { Database, Json } from "../database.types.js";
+import { logEvent } from "../../utils/logger.js";
+
+export type AccountRefreshJobStatus = "queued" | "running" | "complete" | "partial" | "failed";
+
+export type AccountRefreshItemStatus = "synced" | "skipped_locked" | "needs_reconnect" | "failed";
+
+export interface AccountRefreshItemResult {
+  itemId: string;
+  institutionName: string | null;
+  status: AccountRefreshItemStatus;
+  error: string | null;
+}
+
+export interface AccountRefreshJob {
+  id: string;
+  userId: string;
+  itemIds: string[];
+  status: AccountRefreshJobStatus;
+  itemResults: AccountRefreshItemResult[];
+  errorMessage: string | null;
+  createdAt: string;
+  startedAt: string | null;
+  completedAt: string | null;
+}
+
+type AccountRefreshJobRow = Database["public"]["Tables"]["account_refresh_jobs"]["Row"];
+
+function mapRow(row: AccountRefreshJobRow): AccountRefreshJob {
+  return {
+    id: row.id,
+    userId: row.user_id,
+    itemIds: row.item_ids,
+    status: row.status as AccountRefreshJobStatus,
+    itemResults: (row.item_results as unknown as AccountRefreshItemResult[]) ?? [],
+    errorMessage: row.error_message,
+    createdAt: row.created_at,
+    startedAt: row.started_at,
+    completedAt: row.completed_at,
+  };
+}
+
+/**
+ * Create a queued refresh job for a set of connections
+ */
+export async function createAccountRefreshJob(
+  userId: string,
+  itemIds: string[]
+): Promise<AccountRefreshJob> {
+  const { data, error } = await getSupabaseServiceRole()
+    .from("account_refresh_jobs")
+    .insert({ user_id: userId, item_ids: itemIds, status: "queued" })
+    .select("*")
+    .single();
+
+  if (error) {
+    throw new Error(`Failed to create account refresh job: ${error.message}`);
+  }
+
+  logEvent("REPO/ACCOUNT-REFRESH-JOBS", "job-created", { userId, jobId: data.id, itemCount: itemIds.length });
+  return mapRow(data);
+}
+
+/**
+ * Get a refresh job by ID, scoped to the user
+ * Returns null when the job doesn't exist or belongs to someone else
+ */
+export async function findAccountRefreshJob(
+  userId: string,
+  jobId: string
+): Promise<AccountRefreshJob | null> {
+  const { data, error } = await getSupabaseServiceRole()
+    .from("account_refresh_jobs")
+    .select("*")
+    .eq("user_id", userId)
+    .eq("id", jobId)
+    .maybeSingle();
+
+  if (error) {
+    throw new Error(`Failed to fetch account refresh job: ${error.message}`);
+  }
+
+  return data ? mapRow(data) : null;
+}
+
+/**
+ * Get the user's most recent refresh job
+ * @param activeOnly Only consider jobs that are still queued or running
+ * @param since Only consider jobs created at or after this time
+ */
+export async function findLatestAccountRefreshJob(
+  userId: string,
+  options: { activeOnly?: boolean; since?: Date } = {}
+): Promise<AccountRefreshJob | null> {
+  let query = getSupabaseServiceRole()
+    .from("account_refresh_jobs")
+    .select("*")
+    .eq("user_id", userId);
+
+  if (options.activeOnly) {
+    query = query.in("status", ["queued", "running"]);
+  }
+  if (options.since) {
+    query = query.gte("created_at", options.since.toISOString());
+  }
+
+  const { data, error } = await query
+    .order("created_at", { ascending: false })
+    .limit(1)
+    .maybeSingle();
+
+  if (error) {
+    throw new Error(`Failed to fetch latest account refresh job: ${error.message}`);
+  }
+
+  return data ? mapRow(data) : null;
+}
+
+/**
+ * Mark a refresh job as running
+ */
+export async function markAccountRefreshJobRunning(jobId: string): Promise<void> {
+  const { error } = await getSupabaseServiceRole()
+    .from("account_refresh_jobs")
+    .update({ status: "running", started_at: new Date().toISOString() })
+    .eq("id", jobId);
+
+  if (error) {
+    throw new Error(`Failed to mark account refresh job running: ${error.message}`);
+  }
+}
+
+/**
+ * Record the final outcome of a refresh job
+ */
+export async function completeAccountRefreshJob(
+  jobId: string,
+  status: Extract<AccountRefreshJobStatus, "complete" | "partial" | "failed">,
+  itemResults: AccountRefreshItemResult[],
+  errorMessage: string | null = null
+): Promise<void> {
+  const { error } = await getSupabaseServiceRole()
+    .from("account_refresh_jobs")
+    .update({
+      status,
+      item_results: itemResults as unknown as Json,
+      error_message: errorMessage,
+      completed_at: new Date().toISOString(),
+    })
+    .eq("id", jobId);
+
+  if (error) {
+    throw new Error(`Failed to complete account refresh job: ${error.message}`);
+  }
+
+  logEvent("REPO/ACCOUNT-REFRESH-JOBS", "job-completed", { jobId, status });
+}
@@ -141,6 +141,26 @@ export class AccountSyncStateRepository {
     return data as AccountSyncState;
   }
 
+  /**
+   * Get sync states for the given accounts
+   */
+  async getSyncStatesByAccountIds(accountIds: string[]): Promise<AccountSyncState[]> {
+    if (accountIds.length === 0) {
+      return [];
+    }
+
+    const { data, error } = await this.supabase
+      .from("account_sync_state")
+      .select("*")
+      .in("account_id", accountIds);
+
+    if (error) {
+      throw new Error(`Failed to get sync states for accounts: ${error.message}`);
+    }
+
+    return data as AccountSyncState[];
+  }
+
   /**
    * Get all sync states for a user's accounts
    */
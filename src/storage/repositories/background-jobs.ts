@@ -0,0 +1,192 @@
+/**
+ * Background Jobs Repository
+ * Progress records for recategorization and budget processing runs
+ */
+
+import { getSupabaseServiceRole } from "../supabase.js";
+import type { Database, Json } from "../database.types.js";
+import { logEvent } from "../../utils/logger.js";
+
+export type BackgroundJobType = "recategorization" | "budget_processing";
+
+export type BackgroundJobStatus = "queued" | "running" | "complete" | "partial" | "failed";
+
+export interface BackgroundJob {
+  id: string;
+  userId: string;
+  jobType: BackgroundJobType;
+  metadata: Record<string, unknown>;
+  status: BackgroundJobStatus;
+  totalCount: number | null;
+  processedCount: number;
+  failedCount: number;
+  errorMessage: string | null;
+  createdAt: string;
+  startedAt: string | null;
+  completedAt: string | null;
+  updatedAt: string;
+}
+
+export type BackgroundJobCounts = Pick<
+  BackgroundJob,
+  "totalCount" | "processedCount" | "failedCount" | "errorMessage"
+>;
+
+type BackgroundJobRow = Database["public"]["Tables"]["background_jobs"]["Row"];
+
+function mapRow(row: BackgroundJobRow): BackgroundJob {
+  return {
+    id: row.id,
+    userId: row.user_id,
+    jobType: row.job_type as BackgroundJobType,
+    metadata: (row.metadata as Record<string, unknown>) ?? {},
+    status: row.status as BackgroundJobStatus,
+    totalCount: row.total_count,
+    processedCount: row.processed_count,
+    failedCount: row.failed_count,
+    errorMessage: row.error_message,
+    createdAt: row.created_at,
+    startedAt: row.started_at,
+    completedAt: row.completed_at,
+    updatedAt: row.updated_at,
+  };
+}
+
+/**
+ * Create a queued background job
+ */
+export async function createBackgroundJob(
+  userId: string,
+  jobType: BackgroundJobType,
+  metadata: Record<string, unknown> = {}
+): Promise<BackgroundJob> {
+  const { data, error } = await getSupabaseServiceRole()
+    .from("background_jobs")
+    .insert({ user_id: userId, job_type: jobType, metadata: metadata as Json, status: "queued" })
+    .select("*")
+    .single();
+
+  if (error) {
+    throw new Error(`Failed to create background job: ${error.message}`);
+  }
+
+  logEvent("REPO/BACKGROUND-JOBS", "job-created", { userId, jobId: data.id, jobType });
+  return mapRow(data);
+}
+
+/**
+ * Get a background job by ID, scoped to the user
+ * Returns null when the job doesn't exist or belongs to someone else
+ */
+export async function findBackgroundJob(
+  userId: string,
+  jobId: string
+): Promise<BackgroundJob | null> {
+  const { data, error } = await getSupabaseServiceRole()
+    .from("background_jobs")
+    .select("*")
+    .eq("user_id", userId)
+    .eq("id", jobId)
+    .maybeSingle();
+
+  if (error) {
+    throw new Error(`Failed to fetch background job: ${error.message}`);
+  }
+
+  return data ? mapRow(data) : null;
+}
+
+/**
+ * Get the user's most recent background jobs, newest first
+ * @param jobType Only return jobs of this type
+ */
+export async function findRecentBackgroundJobs(
+  userId: string,
+  options: { jobType?: BackgroundJobType; limit?: number } = {}
+): Promise<BackgroundJob[]> {
+  let query = getSupabaseServiceRole()
+    .from("background_jobs")
+    .select("*")
+    .eq("user_id", userId);
+
+  if (options.jobType) {
+    query = query.eq("job_type", options.jobType);
+  }
+
+  const { data, error } = await query
+    .order("created_at", { ascending: false })
+    .limit(options.limit ?? 5);
+
+  if (error) {
+    throw new Error(`Failed to fetch background jobs: ${error.message}`);
+  }
+
+  return (data || []).map(mapRow);
+}
+
+/**
+ * Mark a background job as running
+ */
+export async function markBackgroundJobRunning(jobId: string): Promise<void> {
+  const now = new Date().toISOString();
+  const { error } = await getSupabaseServiceRole()
+    .from("background_jobs")
+    .update({ status: "running", started_at: now, updated_at: now })
+    .eq("id", jobId);
+
+  if (error) {
+    throw new Error(`Failed to mark background job running: ${error.message}`);
+  }
+}
+
+/**
+ * Write a job's progress counters
+ */
+export async function updateBackgroundJobProgress(
+  jobId: string,
+  progress: BackgroundJobCounts
+): Promise<void> {
+  const { error } = await getSupabaseServiceRole()
+    .from("background_jobs")
+    .update({
+      total_count: progress.totalCount,
+      processed_count: progress.processedCount,
+      failed_count: progress.failedCount,
+      error_message: progress.errorMessage,
+      updated_at: new Date().toISOString(),
+    })
+    .eq("id", jobId);
+
+  if (error) {
+    throw new Error(`Failed to update background job progress: ${error.message}`);
+  }
+}
+
+/**
+ * Record the final outcome of a background job
+ */
+export async function completeBackgroundJob(
+  jobId: string,
+  status: Extract<BackgroundJobStatus, "complete" | "partial" | "failed">,
+  progress: BackgroundJobCounts
+): Promise<void> {
+  const now = new Date().toISOString();
+  const { error } = await getSupabaseServiceRole()
+    .from("background_jobs")
+    .update({
+      status,
+      total_count: progress.totalCount,
+      processed_count: progress.processedCount,
+      failed_count: progress.failedCount,
+      error_message: progress.errorMessage,
+      completed_at: now,
+      updated_at: now,
+    })
+    .eq("id", jobId);
+
+  if (error) {
+    throw new Error(`Failed to complete background job: ${error.message}`);
+  }
+
+  logEvent("REPO/BACKGROUND-JOBS", "job-completed", { jobId, status });
+}
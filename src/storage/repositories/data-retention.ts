@@ -0,0 +1,95 @@
+/**
+ * Data Retention Repository
+ * Cross-user cleanup queries used by the cleanup-old-data cron job (service role only)
+ */
+
+import { getSupabaseServiceRole } from "../supabase.js";
+import {
+  RetainableSnapshot,
+  SnapshotRetentionPolicy,
+  DEFAULT_SNAPSHOT_RETENTION,
+  selectSnapshotsToPrune,
+} from "../../utils/snapshot-retention.js";
+import { logEvent } from "../../utils/logger.js";
+
+// PostgREST caps responses at 1000 rows, so larger reads are paged
+const PAGE_SIZE = 1000;
+const DELETE_BATCH_SIZE = 200;
+
+/**
+ * Delete recurring series for users with no remaining connections
+ * recurring_series has no foreign key, so disconnecting the last account leaves it behind.
+ * Runs as one NOT EXISTS delete in the database (migration 045); transactions, holdings and
+ * liabilities cascade from their connection or account instead
+ */
+export async function deleteOrphanedRecurringSeries(): Promise<number> {
+  const { data, error } = await getSupabaseServiceRole().rpc("delete_orphaned_recurring_series");
+
+  if (error) {
+    throw new Error(`Failed to delete orphaned recurring_series: ${error.message}`);
+  }
+
+  const deleted = data || 0;
+  if (deleted > 0) {
+    logEvent("REPO/DATA-RETENTION", "deleted-orphans", { table: "recurring_series", count: deleted });
+  }
+
+  return deleted;
+}
+
+/**
+ * Thin out net worth snapshots older than the daily window to weekly, then monthly points
+ * @returns Number of snapshots deleted
+ */
+export async function pruneNetWorthSnapshots(
+  asOf: Date = new Date(),
+  policy: SnapshotRetentionPolicy = DEFAULT_SNAPSHOT_RETENTION
+): Promise<number> {
+  const cutoff = new Date(asOf);
+  cutoff.setUTCDate(cutoff.getUTCDate() - policy.dailyDays);
+  const cutoffDate = cutoff.toISOString().split("T")[0];
+
+  const snapshots: RetainableSnapshot[] = [];
+  for (let from = 0; ; from += PAGE_SIZE) {
+    const { data, error } = await getSupabaseServiceRole()
+      .from("net_worth_snapshots")
+      .select("id, user_id, snapshot_date")
+      .lte("snapshot_date", cutoffDate)
+      .order("user_id", { ascending: true })
+      .order("snapshot_date", { ascending: true })
+      .range(from, from + PAGE_SIZE - 1);
+
+    if (error) {
+      throw new Error(`Failed to fetch net worth snapshots: ${error.message}`);
+    }
+
+    snapshots.push(...(data || []));
+    if (!data || data.length < PAGE_SIZE) {
+      break;
+    }
+  }
+
+  const pruneIds = selectSnapshotsToPrune(snapshots, asOf, policy);
+  let deleted = 0;
+
+  for (let i = 0; i < pruneIds.length; i += DELETE_BATCH_SIZE) {
+    const batch = pruneIds.slice(i, i + DELETE_BATCH_SIZE);
+    const { error, count } = await getSupabaseServiceRole()
+      .from("net_worth_snapshots")
+      .delete({ count: "exact" })
+      .in("id", batch);
+
+    if (error) {
+      throw new Error(`Failed to prune net worth snapshots: ${error.message}`);
+    }
+
+    deleted += count || 0;
+  }
+
+  logEvent("REPO/DATA-RETENTION", "pruned-snapshots", {
+    scanned: snapshots.length,
+    deleted,
+  });
+
+  return deleted;
+}
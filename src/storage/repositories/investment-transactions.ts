@@ -0,0 +1,186 @@
+/**
+ * Investment Transactions Repository
+ * Database operations for investment activity from Plaid Investments API
+ * (buys, sells, dividends, fees, contributions)
+ */
+
+import { getSupabaseServiceRole } from "../supabase.js";
+import type { Database } from "../database.types.js";
+import type { InvestmentTransaction, Security } from "plaid";
+
+type InvestmentTransactionRow = Database["public"]["Tables"]["investment_transactions"]["Row"];
+type InvestmentTransactionInsert = Database["public"]["Tables"]["investment_transactions"]["Insert"];
+
+export interface InvestmentTransactionWithAccount extends InvestmentTransactionRow {
+  account_name?: string;
+  account_subtype?: string;
+}
+
+export interface InvestmentTransactionFilters {
+  startDate?: string;
+  endDate?: string;
+  accountIds?: string[];
+  securities?: string[]; // security_id or ticker symbol
+  types?: string[];
+  subtypes?: string[];
+}
+
+/**
+ * Upsert investment transactions
+ * Denormalizes security metadata the same way holdings do
+ * @param userId - User ID
+ * @param transactions - Array of Plaid investment transactions
+ * @param securities - Array of Plaid securities (for metadata lookup)
+ */
+export async function upsertInvestmentTransactions(
+  userId: string,
+  transactions: InvestmentTransaction[],
+  securities: Security[]
+): Promise<void> {
+  if (transactions.length === 0) {
+    return;
+  }
+
+  const supabase = getSupabaseServiceRole();
+
+  const securityMap = new Map(securities.map(s => [s.security_id, s]));
+
+  const transactionsToInsert: InvestmentTransactionInsert[] = transactions.map(tx => {
+    const security = tx.security_id ? securityMap.get(tx.security_id) : undefined;
+
+    return {
+      investment_transaction_id: tx.investment_transaction_id,
+      user_id: userId,
+      account_id: tx.account_id,
+      security_id: tx.security_id || null,
+      date: tx.date,
+      name: tx.name,
+      quantity: tx.quantity,
+      amount: tx.amount,
+      price: tx.price,
+      fees: tx.fees ?? null,
+      type: tx.type,
+      subtype: tx.subtype || null,
+      ticker_symbol: security?.ticker_symbol || null,
+      security_name: security?.name || null,
+      iso_currency_code: tx.iso_currency_code || null,
+      unofficial_currency_code: tx.unofficial_currency_code || null,
+      last_synced_at: new Date().toISOString(),
+      updated_at: new Date().toISOString(),
+    };
+  });
+
+  const { error } = await supabase
+    .from("investment_transactions")
+    .upsert(transactionsToInsert, {
+      onConflict: "investment_transaction_id",
+      ignoreDuplicates: false,
+    });
+
+  if (error) {
+    throw new Error(`Failed to upsert investment transactions: ${error.message}`);
+  }
+}
+
+/**
+ * Get the most recent investment transaction date for a set of accounts
+ * Used to pick the start of the next incremental sync window
+ * @returns Date in YYYY-MM-DD format, or null if nothing is stored yet
+ */
+export async function getLatestInvestmentTransactionDate(
+  userId: string,
+  accountIds: string[]
+): Promise<string | null> {
+  if (accountIds.length === 0) {
+    return null;
+  }
+
+  const supabase = getSupabaseServiceRole();
+
+  const { data, error } = await supabase
+    .from("investment_transactions")
+    .select("date")
+    .eq("user_id", userId)
+    .in("account_id", accountIds)
+    .order("date", { ascending: false })
+    .limit(1);
+
+  if (error) {
+    throw new Error(`Failed to fetch latest investment transaction date: ${error.message}`);
+  }
+
+  return data && data.length > 0 ? data[0].date : null;
+}
+
+/**
+ * Get investment transactions for a user with optional filters
+ * Includes account metadata via join
+ * @param userId - User ID
+ * @param filters - Optional date range, account, security, type and subtype filters
+ * @returns Transactions sorted newest first
+ */
+export async function getInvestmentTransactionsByUserId(
+  userId: string,
+  filters: InvestmentTransactionFilters = {}
+): Promise<InvestmentTransactionWithAccount[]> {
+  const supabase = getSupabaseServiceRole();
+
+  let query = supabase
+    .from("investment_transactions")
+    .select(`
+      *,
+      accounts!inner(name, subtype)
+    `)
+    .eq("user_id", userId);
+
+  if (filters.startDate) {
+    query = query.gte("date", filters.startDate);
+  }
+  if (filters.endDate) {
+    query = query.lte("date", filters.endDate);
+  }
+  if (filters.accountIds && filters.accountIds.length > 0) {
+    query = query.in("account_id", filters.accountIds);
+  }
+  if (filters.securities && filters.securities.length > 0) {
+    const values = filters.securities.map((s) => `"${s.replace(/"/g, "")}"`).join(",");
+    const tickers = filters.securities.map((s) => `"${s.replace(/"/g, "").toUpperCase()}"`).join(",");
+    query = query.or(`security_id.in.(${values}),ticker_symbol.in.(${tickers})`);
+  }
+  if (filters.types && filters.types.length > 0) {
+    query = query.in("type", filters.types);
+  }
+  if (filters.subtypes && filters.subtypes.length > 0) {
+    query = query.in("subtype", filters.subtypes);
+  }
+
+  const { data, error } = await query.order("date", { ascending: false });
+
+  if (error) {
+    throw new Error(`Failed to fetch investment transactions: ${error.message}`);
+  }
+
+  // Flatten nested account data
+  return (data || []).map(row => ({
+    ...row,
+    account_name: (row.accounts as any)?.name,
+    account_subtype: (row.accounts as any)?.subtype,
+  }));
+}
+
+/**
+ * Delete all investment transactions for a user (used in cleanup/testing)
+ * @param userId - User ID
+ */
+export async function deleteInvestmentTransactionsByUserId(userId: string): Promise<void> {
+  const supabase = getSupabaseServiceRole();
+
+  const { error } = await supabase
+    .from("investment_transactions")
+    .delete()
+    .eq("user_id", userId);
+
+  if (error) {
+    throw new Error(`Failed to delete investment transactions for user: ${error.message}`);
+  }
+}
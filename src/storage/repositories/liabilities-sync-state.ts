@@ -0,0 +1,154 @@
+/**
+ * Liabilities Sync State Repository
+ * Manages sync state tracking for liabilities per connection (Plaid item)
+ */
+
+import { SupabaseClient } from "@supabase/supabase-js";
+import type { Database } from "../database.types.js";
+
+type SyncStatus = "never_synced" | "syncing" | "synced" | "error";
+type LiabilitiesSyncStateRow = Database["public"]["Tables"]["liabilities_sync_state"]["Row"];
+
+export interface LiabilitiesSyncState {
+  itemId: string;
+  userId: string;
+  syncStatus: SyncStatus;
+  lastSyncedAt: Date | null;
+  lastError: string | null;
+  creditCount: number;
+  mortgageCount: number;
+  studentCount: number;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface LiabilityCounts {
+  creditCount: number;
+  mortgageCount: number;
+  studentCount: number;
+}
+
+function mapSyncState(row: LiabilitiesSyncStateRow): LiabilitiesSyncState {
+  return {
+    itemId: row.item_id,
+    userId: row.user_id,
+    syncStatus: row.sync_status as SyncStatus,
+    lastSyncedAt: row.last_synced_at ? new Date(row.last_synced_at) : null,
+    lastError: row.last_error,
+    creditCount: row.credit_count ?? 0,
+    mortgageCount: row.mortgage_count ?? 0,
+    studentCount: row.student_count ?? 0,
+    createdAt: new Date(row.created_at ?? Date.now()),
+    updatedAt: new Date(row.updated_at ?? Date.now()),
+  };
+}
+
+export class LiabilitiesSyncStateRepository {
+  constructor(private supabase: SupabaseClient) {}
+
+  /**
+   * Create sync state record for a connection
+   * Idempotent - safe to call multiple times
+   */
+  async createSyncState(itemId: string, userId: string): Promise<void> {
+    const { error } = await this.supabase
+      .from("liabilities_sync_state")
+      .upsert(
+        {
+          item_id: itemId,
+          user_id: userId,
+          sync_status: "never_synced",
+        },
+        { onConflict: "item_id", ignoreDuplicates: true }
+      );
+
+    if (error) {
+      throw new Error(
+        `Failed to create liabilities sync state: ${error.message}`
+      );
+    }
+  }
+
+  /**
+   * Get sync state for every connection a user owns
+   */
+  async getSyncStatesForUser(userId: string): Promise<LiabilitiesSyncState[]> {
+    const { data, error } = await this.supabase
+      .from("liabilities_sync_state")
+      .select("*")
+      .eq("user_id", userId);
+
+    if (error) {
+      throw new Error(
+        `Failed to get liabilities sync state: ${error.message}`
+      );
+    }
+
+    return (data || []).map(mapSyncState);
+  }
+
+  /**
+   * Mark sync as in progress
+   */
+  async markSyncInProgress(itemId: string): Promise<void> {
+    const { error } = await this.supabase
+      .from("liabilities_sync_state")
+      .update({
+        sync_status: "syncing",
+        last_error: null,
+        updated_at: new Date().toISOString(),
+      })
+      .eq("item_id", itemId);
+
+    if (error) {
+      throw new Error(
+        `Failed to mark liabilities sync in progress: ${error.message}`
+      );
+    }
+  }
+
+  /**
+   * Mark sync as complete with per-type liability counts
+   */
+  async markSyncComplete(itemId: string, counts: LiabilityCounts): Promise<void> {
+    const { error } = await this.supabase
+      .from("liabilities_sync_state")
+      .update({
+        sync_status: "synced",
+        last_synced_at: new Date().toISOString(),
+        last_error: null,
+        credit_count: counts.creditCount,
+        mortgage_count: counts.mortgageCount,
+        student_count: counts.studentCount,
+        updated_at: new Date().toISOString(),
+      })
+      .eq("item_id", itemId);
+
+    if (error) {
+      throw new Error(
+        `Failed to mark liabilities sync complete: ${error.message}`
+      );
+    }
+  }
+
+  /**
+   * Mark sync as error
+   * Keeps last_synced_at so callers can still report how old the stored data is
+   */
+  async markSyncError(itemId: string, errorMessage: string): Promise<void> {
+    const { error } = await this.supabase
+      .from("liabilities_sync_state")
+      .update({
+        sync_status: "error",
+        last_error: errorMessage,
+        updated_at: new Date().toISOString(),
+      })
+      .eq("item_id", itemId);
+
+    if (error) {
+      throw new Error(
+        `Failed to mark liabilities sync error: ${error.message}`
+      );
+    }
+  }
+}
@@ -0,0 +1,104 @@
+/**
+ * Merchant Category Cache Repository
+ * Pure database operations for merchant_category_cache table
+ */
+
+import { SupabaseClient } from "@supabase/supabase-js";
+import { Database, Tables } from "../database.types.js";
+import { logEvent } from "../../utils/logger.js";
+import type { MerchantCacheEntry } from "../../utils/merchant-category-cache.js";
+
+export type MerchantCategoryCacheRow = Tables<"merchant_category_cache">;
+
+function rowToEntry(row: MerchantCategoryCacheRow): MerchantCacheEntry {
+  return {
+    merchantKey: row.merchant_key,
+    amountBand: row.amount_band,
+    category: row.category,
+    confidence: Number(row.confidence),
+    observationCount: row.observation_count,
+  };
+}
+
+/**
+ * Get cached entries for the given merchants (all amount bands)
+ */
+export async function findMerchantCategoryCacheEntries(
+  userId: string,
+  merchantKeys: string[],
+  supabaseClient: SupabaseClient<Database>
+): Promise<MerchantCacheEntry[]> {
+  if (merchantKeys.length === 0) {
+    return [];
+  }
+
+  const { data, error } = await supabaseClient
+    .from("merchant_category_cache")
+    .select("*")
+    .eq("user_id", userId)
+    .in("merchant_key", merchantKeys);
+
+  if (error) {
+    logEvent("REPO/MERCHANT-CACHE", "query-error", { error: error.message }, "error");
+    throw new Error(`Failed to fetch merchant category cache: ${error.message}`);
+  }
+
+  return (data || []).map(rowToEntry);
+}
+
+/**
+ * Insert or update cache entries by (user, merchant, amount band)
+ */
+export async function upsertMerchantCategoryCacheEntries(
+  userId: string,
+  entries: MerchantCacheEntry[],
+  supabaseClient: SupabaseClient<Database>
+): Promise<void> {
+  if (entries.length === 0) {
+    return;
+  }
+
+  const now = new Date().toISOString();
+  const { error } = await supabaseClient
+    .from("merchant_category_cache")
+    .upsert(
+      entries.map((entry) => ({
+        user_id: userId,
+        merchant_key: entry.merchantKey,
+        amount_band: entry.amountBand,
+        category: entry.category,
+        confidence: entry.confidence,
+        observation_count: entry.observationCount,
+        updated_at: now,
+      })),
+      { onConflict: "user_id,merchant_key,amount_band" }
+    );
+
+  if (error) {
+    logEvent("REPO/MERCHANT-CACHE", "upsert-error", { error: error.message }, "error");
+    throw new Error(`Failed to update merchant category cache: ${error.message}`);
+  }
+
+  logEvent("REPO/MERCHANT-CACHE", "upserted", { userId, count: entries.length });
+}
+
+/**
+ * Drop every cached category for a user
+ * Called when the rules Claude categorizes with change, since cached answers reflect the old rules
+ */
+export async function clearMerchantCategoryCache(
+  userId: string,
+  supabaseClient: SupabaseClient<Database>
+): Promise<void> {
+  const { error } = await supabaseClient
+    .from("merchant_category_cache")
+    .delete()
+    .eq("user_id", userId);
+
+  if (error) {
+    logEvent("REPO/MERCHANT-CACHE", "clear-error", { userId, error: error.message }, "error");
+    throw new Error(`Failed to clear merchant category cache: ${error.message}`);
+  }
+
+  logEvent("REPO/MERCHANT-CACHE", "cleared", { userId });
+}
@@ -0,0 +1,271 @@
+/**
+ * Notifications Repository
+ * Pure database operations for the notifications outbox and notification_channels tables
+ */
+
+import { SupabaseClient } from "@supabase/supabase-js";
+import type { Database, Json, Tables } from "../database.types.js";
+import { logEvent } from "../../utils/logger.js";
+
+export type NotificationType = "budget_threshold";
+
+export type NotificationDeliveryStatus = "pending" | "delivered" | "failed" | "skipped";
+
+export type NotificationChannelType = "email" | "webhook";
+
+export interface Notification {
+  id: string;
+  userId: string;
+  type: NotificationType;
+  dedupeKey: string;
+  title: string;
+  message: string;
+  data: Record<string, unknown>;
+  readAt: string | null;
+  deliveryStatus: NotificationDeliveryStatus;
+  deliveredChannels: NotificationChannelType[];
+  deliveryAttempts: number;
+  lastDeliveryError: string | null;
+  deliveredAt: string | null;
+  createdAt: string;
+}
+
+export type NotificationInput = Pick<Notification, "type" | "dedupeKey" | "title" | "message" | "data">;
+
+export interface NotificationChannel {
+  channel: NotificationChannelType;
+  target: string;
+  enabled: boolean;
+}
+
+function mapRow(row: Tables<"notifications">): Notification {
+  return {
+    id: row.id,
+    userId: row.user_id,
+    type: row.type as NotificationType,
+    dedupeKey: row.dedupe_key,
+    title: row.title,
+    message: row.message,
+    data: (row.data as Record<string, unknown>) ?? {},
+    readAt: row.read_at,
+    deliveryStatus: row.delivery_status as NotificationDeliveryStatus,
+    deliveredChannels: (row.delivered_channels ?? []) as NotificationChannelType[],
+    deliveryAttempts: row.delivery_attempts,
+    lastDeliveryError: row.last_delivery_error,
+    deliveredAt: row.delivered_at,
+    createdAt: row.created_at,
+  };
+}
+
+/**
+ * Write notifications to the outbox, skipping any whose dedupe key was already written
+ * @returns Only the newly written notifications
+ */
+export async function insertNotifications(
+  userId: string,
+  notifications: NotificationInput[],
+  supabaseClient: SupabaseClient<Database>
+): Promise<Notification[]> {
+  if (notifications.length === 0) {
+    return [];
+  }
+
+  const { data, error } = await supabaseClient
+    .from("notifications")
+    .upsert(
+      notifications.map((notification) => ({
+        user_id: userId,
+        type: notification.type,
+        dedupe_key: notification.dedupeKey,
+        title: notification.title,
+        message: notification.message,
+        data: notification.data as Json,
+      })),
+      { onConflict: "user_id,dedupe_key", ignoreDuplicates: true }
+    )
+    .select("*");
+
+  if (error) {
+    logEvent("REPO/NOTIFICATIONS", "insert-error", { error: error.message }, "error");
+    throw new Error(`Failed to save notifications: ${error.message}`);
+  }
+
+  logEvent("REPO/NOTIFICATIONS", "inserted", { userId, count: data?.length ?? 0 });
+  return (data || []).map(mapRow);
+}
+
+/**
+ * Get a user's notifications, newest first
+ */
+export async function findNotificationsByUserId(
+  userId: string,
+  supabaseClient: SupabaseClient<Database>,
+  options: { unreadOnly?: boolean; limit?: number } = {}
+): Promise<Notification[]> {
+  let query = supabaseClient
+    .from("notifications")
+    .select("*")
+    .eq("user_id", userId);
+
+  if (options.unreadOnly) {
+    query = query.is("read_at", null);
+  }
+
+  const { data, error } = await query
+    .order("created_at", { ascending: false })
+    .limit(options.limit ?? 20);
+
+  if (error) {
+    logEvent("REPO/NOTIFICATIONS", "query-error", { error: error.message }, "error");
+    throw new Error(`Failed to fetch notifications: ${error.message}`);
+  }
+
+  return (data || []).map(mapRow);
+}
+
+/**
+ * Count a user's unread notifications
+ */
+export async function countUnreadNotifications(
+  userId: string,
+  supabaseClient: SupabaseClient<Database>
+): Promise<number> {
+  const { count, error } = await supabaseClient
+    .from("notifications")
+    .select("*", { count: "exact", head: true })
+    .eq("user_id", userId)
+    .is("read_at", null);
+
+  if (error) {
+    throw new Error(`Failed to count notifications: ${error.message}`);
+  }
+
+  return count || 0;
+}
+
+/**
+ * Mark notifications as read (already-read ones keep their original read time)
+ */
+export async function markNotificationsRead(
+  userId: string,
+  notificationIds: string[],
+  supabaseClient: SupabaseClient<Database>
+): Promise<void> {
+  if (notificationIds.length === 0) {
+    return;
+  }
+
+  const { error } = await supabaseClient
+    .from("notifications")
+    .update({ read_at: new Date().toISOString() })
+    .eq("user_id", userId)
+    .in("id", notificationIds)
+    .is("read_at", null);
+
+  if (error) {
+    throw new Error(`Failed to mark notifications read: ${error.message}`);
+  }
+}
+
+/**
+ * Get notifications still waiting for delivery, oldest first
+ * @param maxAttempts - Failed notifications are retried until they reach this many attempts
+ */
+export async function findUndeliveredNotifications(
+  userId: string,
+  supabaseClient: SupabaseClient<Database>,
+  maxAttempts: number
+): Promise<Notification[]> {
+  const { data, error } = await supabaseClient
+    .from("notifications")
+    .select("*")
+    .eq("user_id", userId)
+    .in("delivery_status", ["pending", "failed"])
+    .lt("delivery_attempts", maxAttempts)
+    .order("created_at", { ascending: true });
+
+  if (error) {
+    logEvent("REPO/NOTIFICATIONS", "query-error", { error: error.message }, "error");
+    throw new Error(`Failed to fetch undelivered notifications: ${error.message}`);
+  }
+
+  return (data || []).map(mapRow);
+}
+
+/**
+ * Record the outcome of a delivery attempt
+ * @param deliveredChannels - Every channel that has received the notification so far
+ */
+export async function recordNotificationDelivery(
+  notification: Notification,
+  status: Exclude<NotificationDeliveryStatus, "pending">,
+  deliveryError: string | null,
+  supabaseClient: SupabaseClient<Database>,
+  deliveredChannels: NotificationChannelType[] = notification.deliveredChannels
+): Promise<void> {
+  const { error } = await supabaseClient
+    .from("notifications")
+    .update({
+      delivery_status: status,
+      delivered_channels: deliveredChannels,
+      delivery_attempts: notification.deliveryAttempts + (status === "skipped" ? 0 : 1),
+      last_delivery_error: deliveryError,
+      delivered_at: status === "delivered" ? new Date().toISOString() : null,
+    })
+    .eq("user_id", notification.userId)
+    .eq("id", notification.id);
+
+  if (error) {
+    throw new Error(`Failed to record notification delivery: ${error.message}`);
+  }
+}
+
+/**
+ * Get a user's notification channels
+ */
+export async function findNotificationChannels(
+  userId: string,
+  supabaseClient: SupabaseClient<Database>
+): Promise<NotificationChannel[]> {
+  const { data, error } = await supabaseClient
+    .from("notification_channels")
+    .select("channel, target, enabled")
+    .eq("user_id", userId)
+    .order("channel", { ascending: true });
+
+  if (error) {
+    throw new Error(`Failed to fetch notification channels: ${error.message}`);
+  }
+
+  return (data || []).map((row) => ({
+    channel: row.channel as NotificationChannelType,
+    target: row.target,
+    enabled: row.enabled,
+  }));
+}
+
+/**
+ * Create or replace the user's settings for one channel
+ */
+export async function upsertNotificationChannel(
+  userId: string,
+  channel: NotificationChannel,
+  supabaseClient: SupabaseClient<Database>
+): Promise<void> {
+  const { error } = await supabaseClient
+    .from("notification_channels")
+    .upsert(
+      {
+        user_id: userId,
+        channel: channel.channel,
+        target: channel.target,
+        enabled: channel.enabled,
+        updated_at: new Date().toISOString(),
+      },
+      { onConflict: "user_id,channel" }
+    );
+
+  if (error) {
+    throw new Error(`Failed to save notification channel: ${error.message}`);
+  }
+}
@@ -0,0 +1,136 @@
+/**
+ * Recurring Series Repository
+ * Pure database operations for recurring_series table
+ */
+
+import { SupabaseClient } from "@supabase/supabase-js";
+import { Database, Tables } from "../database.types.js";
+import { logEvent } from "../../utils/logger.js";
+import type {
+  DetectedRecurringSeries,
+  RecurringCadence,
+  RecurringStatus,
+} from "../../utils/recurring-detection.js";
+
+export type RecurringSeriesRow = Tables<"recurring_series">;
+
+export interface RecurringSeries extends DetectedRecurringSeries {
+  id: string;
+  detectedAt: Date;
+}
+
+function rowToRecurringSeries(row: RecurringSeriesRow): RecurringSeries {
+  return {
+    id: row.id,
+    merchantKey: row.merchant_key,
+    merchantName: row.merchant_name,
+    accountId: row.account_id || "",
+    cadence: row.cadence as RecurringCadence,
+    expectedAmount: Number(row.expected_amount),
+    previousAmount: row.previous_amount === null ? null : Number(row.previous_amount),
+    firstDate: row.first_date,
+    lastDate: row.last_date,
+    nextExpectedDate: row.next_expected_date,
+    occurrenceCount: row.occurrence_count,
+    transactionIds: row.transaction_ids,
+    status: row.status as RecurringStatus,
+    priceIncreased: row.price_increased,
+    detectedAt: new Date(row.detected_at || row.updated_at || Date.now()),
+  };
+}
+
+/**
+ * Replace a user's recurring series with a fresh detection result
+ * Upserts by merchant, then removes series that are no longer detected
+ */
+export async function replaceRecurringSeries(
+  userId: string,
+  series: DetectedRecurringSeries[],
+  supabaseClient: SupabaseClient<Database>
+): Promise<void> {
+  logEvent("REPO/RECURRING", "replacing", { userId, count: series.length });
+
+  const now = new Date().toISOString();
+
+  if (series.length > 0) {
+    const rows = series.map((s) => ({
+      user_id: userId,
+      merchant_key: s.merchantKey,
+      merchant_name: s.merchantName,
+      account_id: s.accountId || null,
+      cadence: s.cadence,
+      expected_amount: s.expectedAmount,
+      previous_amount: s.previousAmount,
+      first_date: s.firstDate,
+      last_date: s.lastDate,
+      next_expected_date: s.nextExpectedDate,
+      occurrence_count: s.occurrenceCount,
+      transaction_ids: s.transactionIds,
+      status: s.status,
+      price_increased: s.priceIncreased,
+      detected_at: now,
+      updated_at: now,
+    }));
+
+    const { error } = await supabaseClient
+      .from("recurring_series")
+      .upsert(rows, { onConflict: "user_id,merchant_key" });
+
+    if (error) {
+      logEvent("REPO/RECURRING", "upsert-error", { error: error.message }, "error");
+      throw new Error(`Failed to save recurring series: ${error.message}`);
+    }
+  }
+
+  // Anything not touched by this run is no longer recurring
+  const { error: deleteError } = await supabaseClient
+    .from("recurring_series")
+    .delete()
+    .eq("user_id", userId)
+    .lt("detected_at", now);
+
+  if (deleteError) {
+    logEvent("REPO/RECURRING", "prune-error", { error: deleteError.message }, "error");
+    throw new Error(`Failed to prune recurring series: ${deleteError.message}`);
+  }
+
+  logEvent("REPO/RECURRING", "replaced", { userId, count: series.length });
+}
+
+/**
+ * Get stored recurring series for a user, soonest next charge first
+ */
+export async function findRecurringSeriesByUserId(
+  userId: string,
+  supabaseClient: SupabaseClient<Database>
+): Promise<RecurringSeries[]> {
+  const { data, error } = await supabaseClient
+    .from("recurring_series")
+    .select("*")
+    .eq("user_id", userId)
+    .order("next_expected_date", { ascending: true });
+
+  if (error) {
+    logEvent("REPO/RECURRING", "query-error", { error: error.message }, "error");
+    throw new Error(`Failed to fetch recurring series: ${error.message}`);
+  }
+
+  return (data || []).map(rowToRecurringSeries);
+}
+
+/**
+ * Delete all recurring series for a user (used in cleanup/testing)
+ */
+export async function deleteRecurringSeriesByUserId(
+  userId: string,
+  supabaseClient: SupabaseClient<Database>
+): Promise<void> {
+  const { error } = await supabaseClient
+    .from("recurring_series")
+    .delete()
+    .eq("user_id", userId);
+
+  if (error) {
+    throw new Error(`Failed to delete recurring series: ${error.message}`);
+  }
+}
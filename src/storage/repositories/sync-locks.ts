@@ -0,0 +1,157 @@
+/**
+ * Sync Locks Repository
+ * Per-item leases in sync_locks so only one sync runs against a Plaid item at a time
+ */
+
+import crypto from "crypto";
+import { getSupabaseServiceRole } from "../supabase.js";
+import { logEvent } from "../../utils/logger.js";
+
+// Postgres unique_violation
+const UNIQUE_VIOLATION = "23505";
+
+export interface SyncLease {
+  itemId: string;
+  leaseToken: string;
+  holder: string;
+  expiresAt: string;
+}
+
+/**
+ * Try to take the lease for an item
+ * Inserts a fresh lease, or takes over one whose expires_at has passed.
+ * Both paths are single statements, so two workers can't both win.
+ * @returns The lease, or null when another holder has it
+ */
+export async function acquireSyncLock(
+  itemId: string,
+  userId: string,
+  holder: string,
+  ttlMs: number
+): Promise<SyncLease | null> {
+  const now = new Date();
+  const lease = {
+    item_id: itemId,
+    user_id: userId,
+    lease_token: crypto.randomUUID(),
+    holder,
+    acquired_at: now.toISOString(),
+    expires_at: new Date(now.getTime() + ttlMs).toISOString(),
+  };
+
+  const { error: insertError } = await getSupabaseServiceRole()
+    .from("sync_locks")
+    .insert(lease);
+
+  if (!insertError) {
+    logEvent("REPO/SYNC-LOCKS", "lock-acquired", { itemId, holder });
+    return { itemId, leaseToken: lease.lease_token, holder, expiresAt: lease.expires_at };
+  }
+
+  if (insertError.code !== UNIQUE_VIOLATION) {
+    throw new Error(`Failed to acquire sync lock: ${insertError.message}`);
+  }
+
+  // Someone holds (or held) the lease - take it over only if it has expired
+  const { data, error: takeoverError } = await getSupabaseServiceRole()
+    .from("sync_locks")
+    .update(lease)
+    .eq("item_id", itemId)
+    .lt("expires_at", now.toISOString())
+    .select("item_id");
+
+  if (takeoverError) {
+    throw new Error(`Failed to acquire sync lock: ${takeoverError.message}`);
+  }
+
+  if (!data || data.length === 0) {
+    logEvent("REPO/SYNC-LOCKS", "lock-busy", { itemId, holder });
+    return null;
+  }
+
+  logEvent("REPO/SYNC-LOCKS", "lock-taken-over", { itemId, holder });
+  return { itemId, leaseToken: lease.lease_token, holder, expiresAt: lease.expires_at };
+}
+
+/**
+ * Release a lease; a no-op if it expired and someone else took it over
+ */
+export async function releaseSyncLock(lease: SyncLease): Promise<void> {
+  const { error } = await getSupabaseServiceRole()
+    .from("sync_locks")
+    .delete()
+    .eq("item_id", lease.itemId)
+    .eq("lease_token", lease.leaseToken);
+
+  if (error) {
+    throw new Error(`Failed to release sync lock: ${error.message}`);
+  }
+
+  logEvent("REPO/SYNC-LOCKS", "lock-released", { itemId: lease.itemId, holder: lease.holder });
+}
+
+/**
+ * Ask the current holder to sync the item again before releasing its lease
+ * @returns false when no live lease exists (the caller can take the lease itself)
+ */
+export async function requestSyncLockResync(itemId: string): Promise<boolean> {
+  const { data, error } = await getSupabaseServiceRole()
+    .from("sync_locks")
+    .update({ resync_requested: true })
+    .eq("item_id", itemId)
+    .gt("expires_at", new Date().toISOString())
+    .select("item_id");
+
+  if (error) {
+    throw new Error(`Failed to request resync: ${error.message}`);
+  }
+
+  const requested = (data || []).length > 0;
+  if (requested) {
+    logEvent("REPO/SYNC-LOCKS", "resync-requested", { itemId });
+  }
+  return requested;
+}
+
+/**
+ * Release a lease unless a resync was requested while it was held
+ * A pending request is cleared and the lease renewed instead, so the holder can sync again.
+ * Both steps are single statements, so a request can't slip in between the check and the release.
+ * @returns false when the holder must sync again; true when released (or no longer held)
+ */
+export async function releaseSyncLockUnlessResyncRequested(lease: SyncLease, ttlMs: number): Promise<boolean> {
+  const { data: released, error: releaseError } = await getSupabaseServiceRole()
+    .from("sync_locks")
+    .delete()
+    .eq("item_id", lease.itemId)
+    .eq("lease_token", lease.leaseToken)
+    .eq("resync_requested", false)
+    .select("item_id");
+
+  if (releaseError) {
+    throw new Error(`Failed to release sync lock: ${releaseError.message}`);
+  }
+
+  if ((released || []).length > 0) {
+    logEvent("REPO/SYNC-LOCKS", "lock-released", { itemId: lease.itemId, holder: lease.holder });
+    return true;
+  }
+
+  const { data: renewed, error: renewError } = await getSupabaseServiceRole()
+    .from("sync_locks")
+    .update({
+      resync_requested: false,
+      expires_at: new Date(Date.now() + ttlMs).toISOString(),
+    })
+    .eq("item_id", lease.itemId)
+    .eq("lease_token", lease.leaseToken)
+    .eq("resync_requested", true)
+    .select("item_id");
+
+  if (renewError) {
+    throw new Error(`Failed to renew sync lock: ${renewError.message}`);
+  }
+
+  // No row: the lease expired and was taken over, so it's no longer ours to release
+  return (renewed || []).length === 0;
+}
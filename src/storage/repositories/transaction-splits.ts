@@ -0,0 +1,251 @@
+/**
+ * Transaction Splits Repository
+ * Pure database operations for transaction_splits table
+ */
+
+import { SupabaseClient } from "@supabase/supabase-js";
+import { Database, Tables } from "../database.types.js";
+import { logEvent } from "../../utils/logger.js";
+
+export type TransactionSplitRow = Tables<"transaction_splits">;
+
+export interface TransactionSplit {
+  id: string;
+  userId: string;
+  transactionId: string;
+  amount: number;
+  category: string;
+  note: string | null;
+  position: number;
+  budgetIds: string[];
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface NewTransactionSplit {
+  amount: number;
+  category: string;
+  note?: string | null;
+}
+
+/**
+ * Get the splits of the given transactions, in the order they were given
+ */
+export async function findSplitsByTransactionIds(
+  transactionIds: string[],
+  supabaseClient: SupabaseClient<Database>
+): Promise<TransactionSplit[]> {
+  if (transactionIds.length === 0) {
+    return [];
+  }
+
+  const { data, error } = await supabaseClient
+    .from("transaction_splits")
+    .select("*")
+    .in("transaction_id", transactionIds)
+    .order("transaction_id", { ascending: true })
+    .order("position", { ascending: true });
+
+  if (error) {
+    logEvent("REPO/TRANSACTION-SPLITS", "query-error", { error: error.message }, "error");
+    throw new Error(`Failed to fetch transaction splits: ${error.message}`);
+  }
+
+  return (data || []).map(rowToTransactionSplit);
+}
+
+/**
+ * Get all of a user's splits
+ */
+export async function findSplitsByUserId(
+  userId: string,
+  supabaseClient: SupabaseClient<Database>
+): Promise<TransactionSplit[]> {
+  const { data, error } = await supabaseClient
+    .from("transaction_splits")
+    .select("*")
+    .eq("user_id", userId)
+    .order("transaction_id", { ascending: true })
+    .order("position", { ascending: true });
+
+  if (error) {
+    logEvent("REPO/TRANSACTION-SPLITS", "query-error", { error: error.message }, "error");
+    throw new Error(`Failed to fetch transaction splits: ${error.message}`);
+  }
+
+  return (data || []).map(rowToTransactionSplit);
+}
+
+/**
+ * Get IDs of transactions with a split in any of the categories
+ * (case-insensitive partial match, like the transaction category filter)
+ */
+export async function findSplitTransactionIdsByCategories(
+  userId: string,
+  categories: string[],
+  supabaseClient: SupabaseClient<Database>
+): Promise<string[]> {
+  if (categories.length === 0) {
+    return [];
+  }
+
+  const { data, error } = await supabaseClient
+    .from("transaction_splits")
+    .select("transaction_id")
+    .eq("user_id", userId)
+    .or(categories.map((category) => `category.ilike.*${category}*`).join(","));
+
+  if (error) {
+    logEvent("REPO/TRANSACTION-SPLITS", "query-error", { error: error.message }, "error");
+    throw new Error(`Failed to fetch transaction splits: ${error.message}`);
+  }
+
+  return [...new Set((data || []).map((row) => row.transaction_id))];
+}
+
+/**
+ * Get splits labeled with a budget
+ */
+export async function findSplitsByBudgetId(
+  userId: string,
+  budgetId: string,
+  supabaseClient: SupabaseClient<Database>
+): Promise<TransactionSplit[]> {
+  const { data, error } = await supabaseClient
+    .from("transaction_splits")
+    .select("*")
+    .eq("user_id", userId)
+    .contains("budget_ids", [budgetId]);
+
+  if (error) {
+    logEvent("REPO/TRANSACTION-SPLITS", "query-error", { error: error.message }, "error");
+    throw new Error(`Failed to fetch budget transaction splits: ${error.message}`);
+  }
+
+  return (data || []).map(rowToTransactionSplit);
+}
+
+/**
+ * Replace a transaction's splits (validate with validateTransactionSplits first)
+ */
+export async function replaceTransactionSplits(
+  userId: string,
+  transactionId: string,
+  splits: NewTransactionSplit[],
+  supabaseClient: SupabaseClient<Database>
+): Promise<TransactionSplit[]> {
+  await deleteTransactionSplits(userId, transactionId, supabaseClient);
+
+  const { data, error } = await supabaseClient
+    .from("transaction_splits")
+    .insert(
+      splits.map((split, position) => ({
+        user_id: userId,
+        transaction_id: transactionId,
+        amount: split.amount,
+        category: split.category,
+        note: split.note ?? null,
+        position,
+      }))
+    )
+    .select("*");
+
+  if (error) {
+    logEvent("REPO/TRANSACTION-SPLITS", "insert-error", { transactionId, error: error.message }, "error");
+    throw new Error(`Failed to save transaction splits: ${error.message}`);
+  }
+
+  logEvent("REPO/TRANSACTION-SPLITS", "replaced", { transactionId, count: splits.length });
+
+  return (data || []).map(rowToTransactionSplit).sort((a, b) => a.position - b.position);
+}
+
+/**
+ * Remove a transaction's splits, so the whole amount counts under its own category again
+ * @returns Number of splits deleted
+ */
+export async function deleteTransactionSplits(
+  userId: string,
+  transactionId: string,
+  supabaseClient: SupabaseClient<Database>
+): Promise<number> {
+  const { error, count } = await supabaseClient
+    .from("transaction_splits")
+    .delete({ count: "exact" })
+    .eq("user_id", userId)
+    .eq("transaction_id", transactionId);
+
+  if (error) {
+    logEvent("REPO/TRANSACTION-SPLITS", "delete-error", { transactionId, error: error.message }, "error");
+    throw new Error(`Failed to delete transaction splits: ${error.message}`);
+  }
+
+  return count || 0;
+}
+
+/**
+ * Move every split in one category to another (category rename or merge)
+ * @returns Number of splits updated
+ */
+export async function renameSplitCategory(
+  userId: string,
+  fromCategory: string,
+  toCategory: string,
+  supabaseClient: SupabaseClient<Database>
+): Promise<number> {
+  const { data, error } = await supabaseClient
+    .from("transaction_splits")
+    .update({ category: toCategory, updated_at: new Date().toISOString() })
+    .eq("user_id", userId)
+    .eq("category", fromCategory)
+    .select("id");
+
+  if (error) {
+    logEvent("REPO/TRANSACTION-SPLITS", "rename-category-error", { error: error.message }, "error");
+    throw new Error(`Failed to rename split category: ${error.message}`);
+  }
+
+  return data?.length || 0;
+}
+
+/**
+ * Batch update budget associations for splits
+ */
+export async function batchUpdateSplitBudgets(
+  updates: { splitId: string; budgetIds: string[] }[],
+  supabaseClient: SupabaseClient<Database>
+): Promise<void> {
+  logEvent("REPO/TRANSACTION-SPLITS", "batch-updating-budgets", { count: updates.length });
+
+  await Promise.all(
+    updates.map(async (update) => {
+      const { error } = await supabaseClient
+        .from("transaction_splits")
+        .update({ budget_ids: update.budgetIds, updated_at: new Date().toISOString() })
+        .eq("id", update.splitId);
+
+      if (error) {
+        logEvent("REPO/TRANSACTION-SPLITS", "update-budget-error", { error: error.message }, "error");
+        throw new Error(`Failed to update split budget associations: ${error.message}`);
+      }
+    })
+  );
+}
+
+/**
+ * Convert database row to TransactionSplit object
+ */
+function rowToTransactionSplit(row: TransactionSplitRow): TransactionSplit {
+  return {
+    id: row.id,
+    userId: row.user_id,
+    transactionId: row.transaction_id,
+    amount: parseFloat(row.amount.toString()),
+    category: row.category,
+    note: row.note,
+    position: row.position,
+    budgetIds: row.budget_ids ?? [],
+    createdAt: new Date(row.created_at),
+    updatedAt: new Date(row.updated_at),
+  };
+}
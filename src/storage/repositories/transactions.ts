@@ -4,12 +4,22 @@
  */
 
 import { SupabaseClient } from "@supabase/supabase-js";
-import { Database, Tables } from "../database.types.js";
+import { Database, Json, Tables } from "../database.types.js";
 import { logEvent } from "../../utils/logger.js";
 import { withUserSupabaseRetry } from "../supabase.js";
+import type {
+  PaymentChannel,
+  TransactionCounterparty,
+  TransactionLocation,
+} from "../../utils/transaction-enrichment.js";
 
 export type TransactionRow = Tables<"transactions">;
 
+/**
+ * Where a transaction's custom_category came from
+ */
+export type CategorySource = "ai" | "rule" | "manual";
+
 export interface Transaction {
   transactionId: string;
   accountId: string;
@@ -19,24 +29,47 @@ export interface Transaction {
   name: string;
   amount: number;
   plaidCategory: string[] | null;
+  merchantName: string | null; // Plaid's cleaned merchant name
+  logoUrl: string | null;
+  website: string | null;
+  paymentChannel: PaymentChannel | null;
+  location: TransactionLocation | null;
+  counterparties: TransactionCounterparty[] | null;
   pending: boolean;
   customCategory: string | null;
   categorizedAt: Date | null;
+  categorySource: CategorySource | null;
+  categoryRuleId: string | null;
+  categoryLocked: boolean; // Manual override - never recategorized
   budgetIds: string[] | null;
   budgetsUpdatedAt: Date | null;
   accountName: string | null;
   institutionName: string | null;
+  notes: string | null; // User annotation
+  tags: string[]; // User tags, normalized with normalizeTag
+  transferPairId: string | null; // Other side of an internal transfer
+  transferMatchRejected: boolean; // User unlinked a match - never matched again
   createdAt: Date;
   updatedAt: Date;
 }
 
+/**
+ * Fields only the user edits; sync upserts leave them as they are
+ */
+export type UserAnnotationField = "notes" | "tags";
+
+/**
+ * Fields set by transfer matching after sync; sync upserts leave them as they are
+ */
+export type TransferMatchField = "transferPairId" | "transferMatchRejected";
+
 /**
  * Upsert transactions (insert new or update existing)
  * @param transactions - Transactions to upsert
  * @param supabaseClient - Optional Supabase client (uses default if not provided)
  */
 export async function upsertTransactions(
-  transactions: Omit<Transaction, "createdAt" | "updatedAt">[],
+  transactions: Omit<Transaction, "createdAt" | "updatedAt" | UserAnnotationField | TransferMatchField>[],
   supabaseClient: SupabaseClient<Database>
 ): Promise<void> {
   logEvent("REPO/TRANSACTIONS", "upserting", { count: transactions.length });
@@ -50,9 +83,18 @@ export async function upsertTransactions(
     name: tx.name,
     amount: tx.amount,
     plaid_category: tx.plaidCategory,
+    merchant_name: tx.merchantName,
+    logo_url: tx.logoUrl,
+    website: tx.website,
+    payment_channel: tx.paymentChannel,
+    location: tx.location as unknown as Json,
+    counterparties: tx.counterparties as unknown as Json,
     pending: tx.pending,
     custom_category: tx.customCategory,
     categorized_at: tx.categorizedAt?.toISOString(),
+    category_source: tx.categorySource,
+    category_rule_id: tx.categoryRuleId,
+    category_locked: tx.categoryLocked,
     budget_ids: tx.budgetIds,
     budgets_updated_at: tx.budgetsUpdatedAt?.toISOString(),
     account_name: tx.accountName,
@@ -79,13 +121,15 @@ export async function upsertTransactions(
  * Used when Plaid reports transactions as removed
  * @param transactionIds - Transaction IDs to delete
  * @param supabaseClient - Optional Supabase client (uses default if not provided)
+ * @returns The other sides of deleted transfers, now unlinked; their budget labels were cleared
+ * when they were linked, so callers should relabel them
  */
 export async function deleteTransactions(
   transactionIds: string[],
   supabaseClient: SupabaseClient<Database>
-): Promise<void> {
+): Promise<Transaction[]> {
   if (transactionIds.length === 0) {
-    return;
+    return [];
   }
 
   logEvent("REPO/TRANSACTIONS", "deleting", { count: transactionIds.length });
@@ -100,7 +144,21 @@ export async function deleteTransactions(
     throw new Error(`Failed to delete transactions: ${error.message}`);
   }
 
-  logEvent("REPO/TRANSACTIONS", "deleted", { count: transactionIds.length });
+  // The other side of a deleted transfer goes back to being matchable
+  const { data: unlinked, error: unlinkError } = await supabaseClient
+    .from("transactions")
+    .update({ transfer_pair_id: null, updated_at: new Date().toISOString() })
+    .in("transfer_pair_id", transactionIds)
+    .select("*");
+
+  if (unlinkError) {
+    logEvent("REPO/TRANSACTIONS", "unlink-transfer-error", { error: unlinkError.message }, "error");
+    throw new Error(`Failed to unlink deleted transfers: ${unlinkError.message}`);
+  }
+
+  logEvent("REPO/TRANSACTIONS", "deleted", { count: transactionIds.length, transfersUnlinked: unlinked?.length || 0 });
+
+  return (unlinked || []).map(rowToTransaction);
 }
 
 export interface FindTransactionsFilters {
@@ -108,9 +166,12 @@ export interface FindTransactionsFilters {
   endDate?: string;
   accountIds?: string[];
   categories?: string[];
+  splitTransactionIds?: string[]; // Split transactions to include alongside the category matches
+  tags?: string[]; // Any of these tags (exact match)
   budgetId?: string;
   pendingOnly?: boolean;
   excludePending?: boolean;
+  excludeInternalTransfers?: boolean;
 }
 
 /**
@@ -155,12 +216,22 @@ export async function findTransactionsByUserId(
     // PostgREST uses * as wildcard for ilike (not %)
     const categoryConditions = filters.categories
       .map((cat) => `custom_category.ilike.*${cat}*`)
+      .concat(
+        filters.splitTransactionIds?.length
+          ? [`transaction_id.in.(${filters.splitTransactionIds.map((id) => `"${id}"`).join(",")})`]
+          : []
+      )
       .join(",");
 
     // Use .or() which creates: WHERE existing_filters AND (cat1 OR cat2 OR cat3)
     query = query.or(categoryConditions);
   }
 
+  // Apply tag filter (transactions carrying any of the tags)
+  if (filters?.tags && filters.tags.length > 0) {
+    query = query.overlaps("tags", filters.tags);
+  }
+
   // Apply budget filter
   if (filters?.budgetId) {
     query = query.contains("budget_ids", [filters.budgetId]);
@@ -173,6 +244,11 @@ export async function findTransactionsByUserId(
     query = query.eq("pending", false);
   }
 
+  // Leave out both sides of matched internal transfers
+  if (filters?.excludeInternalTransfers) {
+    query = query.is("transfer_pair_id", null);
+  }
+
   const { data, error } = await query;
 
   if (error) {
@@ -264,9 +340,15 @@ export async function findUncategorizedTransactions(
 
 /**
  * Update categorization for specific transactions
+ * Locked (manually overridden) transactions are never touched
  */
 export async function updateTransactionCategories(
-  updates: { transactionId: string; customCategory: string }[],
+  updates: {
+    transactionId: string;
+    customCategory: string;
+    categorySource?: Exclude<CategorySource, "manual">;
+    categoryRuleId?: string | null;
+  }[],
   supabaseClient: SupabaseClient<Database>
 ): Promise<void> {
   logEvent("REPO/TRANSACTIONS", "updating-categories", { count: updates.length });
@@ -277,9 +359,12 @@ export async function updateTransactionCategories(
       .update({
         custom_category: update.customCategory,
         categorized_at: new Date().toISOString(),
+        category_source: update.categorySource ?? "ai",
+        category_rule_id: update.categoryRuleId ?? null,
         updated_at: new Date().toISOString(),
       })
       .eq("transaction_id", update.transactionId)
+      .eq("category_locked", false)
   );
 
   const results = await Promise.all(promises);
@@ -295,6 +380,247 @@ export async function updateTransactionCategories(
   logEvent("REPO/TRANSACTIONS", "updated-categories", { count: updates.length });
 }
 
+/**
+ * Set a manual category on transactions and lock it against recategorization
+ * @returns The updated transactions (IDs that don't exist for the user are skipped)
+ */
+export async function setTransactionCategoryOverride(
+  userId: string,
+  transactionIds: string[],
+  customCategory: string,
+  supabaseClient: SupabaseClient<Database>
+): Promise<Transaction[]> {
+  logEvent("REPO/TRANSACTIONS", "setting-category-override", { userId, count: transactionIds.length });
+
+  const { data, error } = await supabaseClient
+    .from("transactions")
+    .update({
+      custom_category: customCategory,
+      categorized_at: new Date().toISOString(),
+      category_source: "manual",
+      category_rule_id: null,
+      category_locked: true,
+      updated_at: new Date().toISOString(),
+    })
+    .eq("user_id", userId)
+    .in("transaction_id", transactionIds)
+    .select("*");
+
+  if (error) {
+    logEvent("REPO/TRANSACTIONS", "override-error", { error: error.message }, "error");
+    throw new Error(`Failed to set transaction category: ${error.message}`);
+  }
+
+  logEvent("REPO/TRANSACTIONS", "set-category-override", { userId, count: data?.length || 0 });
+
+  return (data || []).map(rowToTransaction);
+}
+
+/**
+ * Set or clear a transaction's note
+ * @returns The updated transaction, or null when it doesn't exist for the user
+ */
+export async function setTransactionNote(
+  userId: string,
+  transactionId: string,
+  note: string | null,
+  supabaseClient: SupabaseClient<Database>
+): Promise<Transaction | null> {
+  const { data, error } = await supabaseClient
+    .from("transactions")
+    .update({ notes: note, updated_at: new Date().toISOString() })
+    .eq("user_id", userId)
+    .eq("transaction_id", transactionId)
+    .select("*");
+
+  if (error) {
+    logEvent("REPO/TRANSACTIONS", "update-note-error", { error: error.message }, "error");
+    throw new Error(`Failed to update transaction note: ${error.message}`);
+  }
+
+  return data && data.length > 0 ? rowToTransaction(data[0]) : null;
+}
+
+/**
+ * Replace the tags of multiple transactions (batch operation)
+ */
+export async function batchUpdateTransactionTags(
+  userId: string,
+  updates: { transactionId: string; tags: string[] }[],
+  supabaseClient: SupabaseClient<Database>
+): Promise<void> {
+  logEvent("REPO/TRANSACTIONS", "batch-updating-tags", { count: updates.length });
+
+  await Promise.all(
+    updates.map(async (update) => {
+      const { error } = await supabaseClient
+        .from("transactions")
+        .update({ tags: update.tags, updated_at: new Date().toISOString() })
+        .eq("user_id", userId)
+        .eq("transaction_id", update.transactionId);
+
+      if (error) {
+        logEvent("REPO/TRANSACTIONS", "update-tags-error", { error: error.message }, "error");
+        throw new Error(`Failed to update transaction tags: ${error.message}`);
+      }
+    })
+  );
+}
+
+/**
+ * Link both sides of each internal transfer to each other
+ * Transfers carry no budgets, so their budget labels are cleared
+ */
+export async function linkTransferPairs(
+  userId: string,
+  pairs: { outflowId: string; inflowId: string }[],
+  supabaseClient: SupabaseClient<Database>
+): Promise<void> {
+  logEvent("REPO/TRANSACTIONS", "linking-transfers", { userId, count: pairs.length });
+
+  const now = new Date().toISOString();
+  const links = pairs.flatMap((pair) => [
+    { transactionId: pair.outflowId, transferPairId: pair.inflowId },
+    { transactionId: pair.inflowId, transferPairId: pair.outflowId },
+  ]);
+
+  await Promise.all(
+    links.map(async (link) => {
+      const { error } = await supabaseClient
+        .from("transactions")
+        .update({
+          transfer_pair_id: link.transferPairId,
+          budget_ids: [],
+          budgets_updated_at: now,
+          updated_at: now,
+        })
+        .eq("user_id", userId)
+        .eq("transaction_id", link.transactionId);
+
+      if (error) {
+        logEvent("REPO/TRANSACTIONS", "link-transfer-error", { error: error.message }, "error");
+        throw new Error(`Failed to link transfer: ${error.message}`);
+      }
+    })
+  );
+}
+
+/**
+ * Unlink an internal transfer and mark both sides so matching skips them from now on
+ * @returns The unlinked transactions
+ */
+export async function unlinkTransferPair(
+  userId: string,
+  transactionIds: string[],
+  supabaseClient: SupabaseClient<Database>
+): Promise<Transaction[]> {
+  const { data, error } = await supabaseClient
+    .from("transactions")
+    .update({
+      transfer_pair_id: null,
+      transfer_match_rejected: true,
+      updated_at: new Date().toISOString(),
+    })
+    .eq("user_id", userId)
+    .in("transaction_id", transactionIds)
+    .select("*");
+
+  if (error) {
+    logEvent("REPO/TRANSACTIONS", "unlink-transfer-error", { error: error.message }, "error");
+    throw new Error(`Failed to unlink transfer: ${error.message}`);
+  }
+
+  logEvent("REPO/TRANSACTIONS", "unlinked-transfer", { userId, count: data?.length || 0 });
+
+  return (data || []).map(rowToTransaction);
+}
+
+/**
+ * Get every tag a user has used, with how many transactions carry it
+ */
+export async function findTransactionTagCounts(
+  userId: string,
+  supabaseClient: SupabaseClient<Database>
+): Promise<{ tag: string; count: number }[]> {
+  const { data, error } = await supabaseClient
+    .from("transactions")
+    .select("tags")
+    .eq("user_id", userId)
+    .not("tags", "eq", "{}");
+
+  if (error) {
+    logEvent("REPO/TRANSACTIONS", "query-error", { error: error.message }, "error");
+    throw new Error(`Failed to fetch transaction tags: ${error.message}`);
+  }
+
+  const counts = new Map<string, number>();
+  for (const row of data || []) {
+    for (const tag of row.tags ?? []) {
+      counts.set(tag, (counts.get(tag) ?? 0) + 1);
+    }
+  }
+
+  return [...counts.entries()]
+    .map(([tag, count]) => ({ tag, count }))
+    .sort((a, b) => b.count - a.count || a.tag.localeCompare(b.tag));
+}
+
+/**
+ * Move every transaction in one category to another (category rename or merge)
+ * Manual overrides follow along, since the user's intent was the category itself
+ * @returns Number of transactions updated
+ */
+export async function renameTransactionCategory(
+  userId: string,
+  fromCategory: string,
+  toCategory: string,
+  supabaseClient: SupabaseClient<Database>
+): Promise<number> {
+  const { data, error } = await supabaseClient
+    .from("transactions")
+    .update({
+      custom_category: toCategory,
+      updated_at: new Date().toISOString(),
+    })
+    .eq("user_id", userId)
+    .eq("custom_category", fromCategory)
+    .select("transaction_id");
+
+  if (error) {
+    logEvent("REPO/TRANSACTIONS", "rename-category-error", { error: error.message }, "error");
+    throw new Error(`Failed to rename transaction category: ${error.message}`);
+  }
+
+  logEvent("REPO/TRANSACTIONS", "renamed-category", { userId, count: data?.length || 0 });
+
+  return data?.length || 0;
+}
+
+/**
+ * Get stored transactions by ID
+ * Sync uses this to carry categories over when Plaid reports a transaction as modified
+ */
+export async function findTransactionsByIds(
+  transactionIds: string[],
+  supabaseClient: SupabaseClient<Database>
+): Promise<Transaction[]> {
+  if (transactionIds.length === 0) {
+    return [];
+  }
+
+  const { data, error } = await supabaseClient
+    .from("transactions")
+    .select("*")
+    .in("transaction_id", transactionIds);
+
+  if (error) {
+    logEvent("REPO/TRANSACTIONS", "query-error", { error: error.message }, "error");
+    throw new Error(`Failed to fetch transactions: ${error.message}`);
+  }
+
+  return (data || []).map(rowToTransaction);
+}
+
 /**
  * Update budget associations for a transaction
  */
@@ -393,15 +719,28 @@ function rowToTransaction(row: TransactionRow): Transaction {
     name: row.name,
     amount: parseFloat(row.amount.toString()),
     plaidCategory: row.plaid_category as string[] | null,
+    merchantName: row.merchant_name,
+    logoUrl: row.logo_url,
+    website: row.website,
+    paymentChannel: row.payment_channel as PaymentChannel | null,
+    location: row.location as unknown as TransactionLocation | null,
+    counterparties: row.counterparties as unknown as TransactionCounterparty[] | null,
     pending: row.pending,
     customCategory: row.custom_category,
     categorizedAt: row.categorized_at ? new Date(row.categorized_at) : null,
+    categorySource: row.category_source as CategorySource | null,
+    categoryRuleId: row.category_rule_id,
+    categoryLocked: row.category_locked ?? false,
     budgetIds: row.budget_ids,
     budgetsUpdatedAt: row.budgets_updated_at
       ? new Date(row.budgets_updated_at)
       : null,
     accountName: row.account_name,
     institutionName: row.institution_name,
+    notes: row.notes,
+    tags: row.tags ?? [],
+    transferPairId: row.transfer_pair_id,
+    transferMatchRejected: row.transfer_match_rejected ?? false,
     createdAt: new Date(row.created_at || new Date()),
     updatedAt: new Date(row.updated_at || new Date()),
   };
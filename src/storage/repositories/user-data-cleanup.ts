@@ -60,6 +60,39 @@ export async function deleteAllUserData(
     );
   }
 
+  const { error: structuredRulesError } = await supabase
+    .from("categorization_rules")
+    .delete()
+    .eq("user_id", userId);
+
+  if (structuredRulesError) {
+    throw new Error(
+      `Failed to delete categorization rules: ${structuredRulesError.message}`
+    );
+  }
+
+  const { error: categoriesError } = await supabase
+    .from("categories")
+    .delete()
+    .eq("user_id", userId);
+
+  if (categoriesError) {
+    throw new Error(
+      `Failed to delete categories: ${categoriesError.message}`
+    );
+  }
+
+  const { error: merchantCacheError } = await supabase
+    .from("merchant_category_cache")
+    .delete()
+    .eq("user_id", userId);
+
+  if (merchantCacheError) {
+    throw new Error(
+      `Failed to delete merchant category cache: ${merchantCacheError.message}`
+    );
+  }
+
   logEvent("USER-DATA-CLEANUP", "deleted-rules", { userId, count: rulesDeleted || 0 });
 
   // Step 3: Delete plaid sessions
@@ -76,6 +109,62 @@ export async function deleteAllUserData(
 
   logEvent("USER-DATA-CLEANUP", "deleted-sessions", { userId, count: sessionsDeleted || 0 });
 
+  // Refresh jobs only reference item IDs by value, so they don't cascade with connections
+  const { error: refreshJobsError } = await supabase
+    .from("account_refresh_jobs")
+    .delete()
+    .eq("user_id", userId);
+
+  if (refreshJobsError) {
+    throw new Error(
+      `Failed to delete account refresh jobs: ${refreshJobsError.message}`
+    );
+  }
+
+  const { error: backgroundJobsError } = await supabase
+    .from("background_jobs")
+    .delete()
+    .eq("user_id", userId);
+
+  if (backgroundJobsError) {
+    throw new Error(
+      `Failed to delete background jobs: ${backgroundJobsError.message}`
+    );
+  }
+
+  const { error: notificationsError } = await supabase
+    .from("notifications")
+    .delete()
+    .eq("user_id", userId);
+
+  if (notificationsError) {
+    throw new Error(
+      `Failed to delete notifications: ${notificationsError.message}`
+    );
+  }
+
+  const { error: notificationChannelsError } = await supabase
+    .from("notification_channels")
+    .delete()
+    .eq("user_id", userId);
+
+  if (notificationChannelsError) {
+    throw new Error(
+      `Failed to delete notification channels: ${notificationChannelsError.message}`
+    );
+  }
+
+  const { error: splitsError } = await supabase
+    .from("transaction_splits")
+    .delete()
+    .eq("user_id", userId);
+
+  if (splitsError) {
+    throw new Error(
+      `Failed to delete transaction splits: ${splitsError.message}`
+    );
+  }
+
   // Step 4: Count related records before cascade deletion
   const { count: accountsCount } = await supabase
     .from("accounts")
@@ -0,0 +1,256 @@
+/**
+ * Get Balance History Tool
+ * Daily balance time series per account or per account type
+ */
+
+import { z } from "zod";
+import {
+  getAccountBalanceHistory,
+  type AccountBalanceHistoryEntry,
+} from "../../storage/repositories/account-balance-history.js";
+import { logToolEvent } from "../../utils/logger.js";
+
+const ACCOUNT_TYPES = ["depository", "credit", "loan", "investment", "other"] as const;
+const DEFAULT_RANGE_DAYS = 90;
+
+// Input schema for get-balance-history tool
+export const GetBalanceHistoryArgsSchema = {
+  start_date: z
+    .string()
+    .optional()
+    .describe(`Start date in YYYY-MM-DD format (default: ${DEFAULT_RANGE_DAYS} days ago)`),
+  end_date: z
+    .string()
+    .optional()
+    .describe("End date in YYYY-MM-DD format (default: today)"),
+  account_ids: z
+    .array(z.string())
+    .optional()
+    .describe("Filter by account IDs (exact match). Get account IDs from get-account-status."),
+  account_types: z
+    .array(z.enum(ACCOUNT_TYPES))
+    .optional()
+    .describe("Filter by Plaid account type: depository (checking/savings), credit, loan, investment, other"),
+  group_by: z
+    .enum(["account", "type"])
+    .optional()
+    .describe("Return one series per account (default) or one summed series per account type"),
+};
+
+export type GetBalanceHistoryArgs = {
+  start_date?: string;
+  end_date?: string;
+  account_ids?: string[];
+  account_types?: Array<(typeof ACCOUNT_TYPES)[number]>;
+  group_by?: "account" | "type";
+};
+
+// Output schema for get-balance-history tool (using Zod for type safety and validation)
+export const GetBalanceHistoryOutputSchema = {
+  series: z.array(
+    z.object({
+      key: z.string().describe("Account ID (group_by=account) or account type (group_by=type)"),
+      label: z.string().describe("Account name or account type"),
+      account_type: z.string().describe("Plaid account type for the series"),
+      account_subtype: z.string().nullable().describe("Plaid account subtype (null for type series)"),
+      points: z.array(
+        z.object({
+          date: z.string().describe("Balance date in YYYY-MM-DD format"),
+          balance: z.number().describe("Current balance on that date in USD"),
+        })
+      ).describe("Daily points, oldest first. Days without a sync carry the previous balance forward."),
+      start_balance: z.number().describe("Balance on the first point"),
+      end_balance: z.number().describe("Balance on the last point"),
+      change: z.number().describe("end_balance - start_balance"),
+    })
+  ).describe("Balance time series"),
+  summary: z.object({
+    dateRange: z.object({
+      start: z.string().describe("Start date in YYYY-MM-DD format"),
+      end: z.string().describe("End date in YYYY-MM-DD format"),
+    }),
+    groupBy: z.enum(["account", "type"]).describe("How series are grouped"),
+    seriesCount: z.number().describe("Number of series returned"),
+  }).describe("Query summary"),
+  visualizationInstructions: z.string().describe("Recommendations for charting balance history"),
+};
+
+/**
+ * Format currency for display
+ */
+function formatCurrency(amount: number): string {
+  return new Intl.NumberFormat("en-US", {
+    style: "currency",
+    currency: "USD",
+    minimumFractionDigits: 2,
+    maximumFractionDigits: 2,
+  }).format(amount);
+}
+
+/**
+ * Build a forward-filled daily series per account
+ * History rows only exist for days a sync ran, so gaps carry the last known balance.
+ */
+function buildAccountSeries(
+  entries: AccountBalanceHistoryEntry[],
+  dates: string[]
+): Map<string, { meta: AccountBalanceHistoryEntry; balances: Map<string, number> }> {
+  const byAccount = new Map<string, AccountBalanceHistoryEntry[]>();
+  for (const entry of entries) {
+    const rows = byAccount.get(entry.account_id) || [];
+    rows.push(entry);
+    byAccount.set(entry.account_id, rows);
+  }
+
+  const result = new Map<string, { meta: AccountBalanceHistoryEntry; balances: Map<string, number> }>();
+  for (const [accountId, rows] of byAccount) {
+    const observed = new Map(rows.map((row) => [row.balance_date, row.current_balance ?? 0]));
+    const balances = new Map<string, number>();
+    let last: number | undefined;
+
+    for (const date of dates) {
+      if (observed.has(date)) {
+        last = observed.get(date);
+      }
+      if (last !== undefined) {
+        balances.set(date, last);
+      }
+    }
+
+    result.set(accountId, { meta: rows[rows.length - 1], balances });
+  }
+
+  return result;
+}
+
+/**
+ * Handler for get-balance-history tool
+ */
+export async function getBalanceHistoryHandler(
+  userId: string,
+  args: GetBalanceHistoryArgs
+) {
+  const groupBy = args.group_by || "account";
+  const endDate = args.end_date || new Date().toISOString().split("T")[0];
+  const startDate = args.start_date || (() => {
+    const start = new Date(`${endDate}T00:00:00Z`);
+    start.setUTCDate(start.getUTCDate() - DEFAULT_RANGE_DAYS);
+    return start.toISOString().split("T")[0];
+  })();
+
+  logToolEvent("get-balance-history", "start", { userId, startDate, endDate, groupBy });
+
+  const entries = await getAccountBalanceHistory(userId, {
+    startDate,
+    endDate,
+    accountIds: args.account_ids,
+    accountTypes: args.account_types,
+  });
+
+  if (entries.length === 0) {
+    return {
+      content: [
+        {
+          type: "text" as const,
+          text: `No balance history found between ${startDate} and ${endDate}. Balances are recorded each time accounts sync, so history starts from the day an account was connected.`,
+        },
+      ],
+    };
+  }
+
+  const dates = [...new Set(entries.map((entry) => entry.balance_date))].sort();
+  const accountSeries = buildAccountSeries(entries, dates);
+
+  type Series = {
+    key: string;
+    label: string;
+    account_type: string;
+    account_subtype: string | null;
+    points: Array<{ date: string; balance: number }>;
+  };
+  const series: Series[] = [];
+
+  if (groupBy === "account") {
+    for (const [accountId, { meta, balances }] of accountSeries) {
+      series.push({
+        key: accountId,
+        label: meta.account_name || accountId,
+        account_type: meta.account_type,
+        account_subtype: meta.account_subtype,
+        points: [...balances].map(([date, balance]) => ({ date, balance })),
+      });
+    }
+  } else {
+    const byType = new Map<string, Map<string, number>>();
+    for (const { meta, balances } of accountSeries.values()) {
+      const totals = byType.get(meta.account_type) || new Map<string, number>();
+      for (const [date, balance] of balances) {
+        totals.set(date, (totals.get(date) || 0) + balance);
+      }
+      byType.set(meta.account_type, totals);
+    }
+
+    for (const [type, totals] of byType) {
+      series.push({
+        key: type,
+        label: type,
+        account_type: type,
+        account_subtype: null,
+        points: dates
+          .filter((date) => totals.has(date))
+          .map((date) => ({ date, balance: Math.round(totals.get(date)! * 100) / 100 })),
+      });
+    }
+  }
+
+  const structuredSeries = series.map((s) => {
+    const startBalance = s.points[0]?.balance ?? 0;
+    const endBalance = s.points[s.points.length - 1]?.balance ?? 0;
+    return {
+      ...s,
+      start_balance: startBalance,
+      end_balance: endBalance,
+      change: Math.round((endBalance - startBalance) * 100) / 100,
+    };
+  });
+
+  let responseText = `# Balance History\n\n`;
+  responseText += `**Date Range:** ${startDate} to ${endDate}\n`;
+  responseText += `**Grouped by:** ${groupBy}\n\n`;
+  responseText += `| ${groupBy === "account" ? "Account" : "Type"} | Start | End | Change |\n`;
+  responseText += `|------|-------|-----|--------|\n`;
+  for (const s of structuredSeries) {
+    const sign = s.change > 0 ? "+" : "";
+    responseText += `| ${s.label} | ${formatCurrency(s.start_balance)} | ${formatCurrency(s.end_balance)} | ${sign}${formatCurrency(s.change)} |\n`;
+  }
+
+  logToolEvent("get-balance-history", "complete", {
+    userId,
+    seriesCount: structuredSeries.length,
+    pointCount: dates.length,
+  });
+
+  return {
+    content: [
+      {
+        type: "text" as const,
+        text: responseText.trim(),
+      },
+    ],
+    structuredContent: {
+      series: structuredSeries,
+      summary: {
+        dateRange: { start: startDate, end: endDate },
+        groupBy,
+        seriesCount: structuredSeries.length,
+      },
+      visualizationInstructions: `
+BALANCE HISTORY VISUALIZATION:
+- Line chart with date on the x-axis and balance on the y-axis, one line per series
+- Checking accounts: highlight drawdown between paydays (local minimums)
+- Savings/investment accounts: show growth using start_balance vs end_balance
+- Credit and loan balances are amounts owed - rising lines mean more debt
+      `.trim(),
+    },
+  };
+}
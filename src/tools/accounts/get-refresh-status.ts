@@ -0,0 +1,237 @@
+/**
+ * Get Refresh Status Tool
+ * Reports a refresh job's status with per-account progress from the sync state tables
+ */
+
+import { z } from "zod";
+import {
+  findAccountRefreshJob,
+  findLatestAccountRefreshJob,
+} from "../../storage/repositories/account-refresh-jobs.js";
+import { findAccountConnectionsByUserId } from "../../storage/repositories/account-connections.js";
+import { getAccountsByUserId } from "../../storage/repositories/accounts.js";
+import { AccountSyncStateRepository } from "../../storage/repositories/account-sync-state.js";
+import { AccountInvestmentSyncStateRepository } from "../../storage/repositories/account-investment-sync-state.js";
+import { getSupabaseServiceRole } from "../../storage/supabase.js";
+import { logToolEvent } from "../../utils/logger.js";
+
+const JOB_STATUSES = ["queued", "running", "complete", "partial", "failed"] as const;
+const ITEM_STATUSES = ["synced", "skipped_locked", "needs_reconnect", "failed"] as const;
+
+// Input schema for get-refresh-status tool
+export const GetRefreshStatusArgsSchema = {
+  job_id: z
+    .string()
+    .optional()
+    .describe("Job ID returned by refresh-accounts (default: the most recent refresh)"),
+};
+
+export type GetRefreshStatusArgs = {
+  job_id?: string;
+};
+
+// Output schema for get-refresh-status tool (using Zod for type safety and validation)
+export const GetRefreshStatusOutputSchema = {
+  job: z.object({
+    job_id: z.string().describe("Refresh job ID"),
+    status: z.enum(JOB_STATUSES).describe("queued, running, complete, partial (some institutions failed, were already syncing, or need reconnecting), or failed"),
+    created_at: z.string().describe("ISO timestamp when the refresh was requested"),
+    started_at: z.string().nullable().describe("ISO timestamp when the refresh started running"),
+    completed_at: z.string().nullable().describe("ISO timestamp when the refresh finished"),
+    error_message: z.string().nullable().describe("Job-level error, if the refresh could not run at all"),
+    items: z.array(
+      z.object({
+        item_id: z.string().describe("Plaid item ID"),
+        institution_name: z.string().nullable().describe("Institution name"),
+        status: z.enum(ITEM_STATUSES).describe("synced, skipped_locked (another sync was already running), needs_reconnect, or failed"),
+        error: z.string().nullable().describe("Error message for this institution"),
+      })
+    ).describe("Per-institution outcome (empty until the job finishes)"),
+  }).describe("Refresh job"),
+  accounts: z.array(
+    z.object({
+      account_id: z.string().describe("Plaid account ID"),
+      name: z.string().describe("Account name"),
+      type: z.string().describe("Plaid account type"),
+      item_id: z.string().describe("Plaid item ID of the account's institution"),
+      institution_name: z.string().nullable().describe("Institution name"),
+      transactions: z.object({
+        status: z.string().describe("Transaction sync status: pending, syncing, complete, or error"),
+        last_synced_at: z.string().nullable().describe("ISO timestamp of the last completed transaction sync"),
+        transactions_synced: z.number().describe("Total transactions synced for this account"),
+        error: z.string().nullable().describe("Last transaction sync error"),
+        refreshed: z.boolean().describe("True when transactions finished syncing after this refresh was requested"),
+      }).nullable().describe("Transaction sync progress (null before the first sync)"),
+      investments: z.object({
+        status: z.string().describe("Holdings sync status: never_synced, syncing, synced, or error"),
+        last_synced_at: z.string().nullable().describe("ISO timestamp of the last completed holdings sync"),
+        holdings_count: z.number().describe("Number of holdings stored"),
+        error: z.string().nullable().describe("Last holdings sync error"),
+        refreshed: z.boolean().describe("True when holdings finished syncing after this refresh was requested"),
+      }).nullable().describe("Holdings sync progress (investment accounts only)"),
+    })
+  ).describe("Per-account progress for the institutions in this refresh"),
+  summary: z.object({
+    accountCount: z.number().describe("Accounts covered by the refresh"),
+    refreshedAccountCount: z.number().describe("Accounts whose transactions finished syncing after the refresh was requested"),
+    erroredAccountCount: z.number().describe("Accounts whose last transaction or holdings sync failed"),
+  }).describe("Progress totals"),
+};
+
+/**
+ * Handler for get-refresh-status tool
+ */
+export async function getRefreshStatusHandler(
+  userId: string,
+  args: GetRefreshStatusArgs
+) {
+  logToolEvent("get-refresh-status", "start", { userId, jobId: args.job_id });
+
+  const job = args.job_id
+    ? await findAccountRefreshJob(userId, args.job_id)
+    : await findLatestAccountRefreshJob(userId);
+
+  if (!job) {
+    return {
+      content: [
+        {
+          type: "text" as const,
+          text: args.job_id
+            ? `No refresh job found with ID ${args.job_id}. Use refresh-accounts to start a new refresh.`
+            : "No account refreshes have been requested yet. Use refresh-accounts to start one.",
+        },
+      ],
+    };
+  }
+
+  const supabase = getSupabaseServiceRole();
+  const [connections, allAccounts, transactionStates, investmentStates] = await Promise.all([
+    findAccountConnectionsByUserId(userId),
+    getAccountsByUserId(userId),
+    new AccountSyncStateRepository(supabase).getSyncStatesByUserId(userId),
+    new AccountInvestmentSyncStateRepository(supabase).getSyncStatesByUserId(userId),
+  ]);
+
+  const institutionNames = new Map(connections.map((c) => [c.itemId, c.institutionName ?? null]));
+  const transactionStateByAccount = new Map(transactionStates.map((s) => [s.account_id, s]));
+  const investmentStateByAccount = new Map(investmentStates.map((s) => [s.accountId, s]));
+  const requestedAt = new Date(job.createdAt).getTime();
+
+  const accounts = allAccounts
+    .filter((account) => job.itemIds.includes(account.item_id))
+    .map((account) => {
+      const txState = transactionStateByAccount.get(account.account_id);
+      const invState = account.type === "investment" ? investmentStateByAccount.get(account.account_id) : undefined;
+
+      return {
+        account_id: account.account_id,
+        name: account.name,
+        type: account.type,
+        item_id: account.item_id,
+        institution_name: institutionNames.get(account.item_id) ?? null,
+        transactions: txState
+          ? {
+              status: txState.sync_status,
+              last_synced_at: txState.last_synced_at,
+              transactions_synced: txState.total_transactions_synced,
+              error: txState.error_message,
+              refreshed: Boolean(txState.last_synced_at && new Date(txState.last_synced_at).getTime() >= requestedAt),
+            }
+          : null,
+        investments: invState
+          ? {
+              status: invState.syncStatus,
+              last_synced_at: invState.lastSyncedAt?.toISOString() ?? null,
+              holdings_count: invState.holdingsCount,
+              error: invState.lastError,
+              refreshed: Boolean(invState.lastSyncedAt && invState.lastSyncedAt.getTime() >= requestedAt),
+            }
+          : null,
+      };
+    });
+
+  const refreshedAccountCount = accounts.filter((a) => a.transactions?.refreshed).length;
+  const erroredAccountCount = accounts.filter(
+    (a) => a.transactions?.status === "error" || a.investments?.status === "error"
+  ).length;
+
+  let responseText = `# Account Refresh Status\n\n`;
+  responseText += `**Job ID:** ${job.id}\n`;
+  responseText += `**Status:** ${job.status}\n`;
+  responseText += `**Requested:** ${job.createdAt}\n`;
+  if (job.completedAt) {
+    responseText += `**Finished:** ${job.completedAt}\n`;
+  }
+  responseText += `**Accounts refreshed:** ${refreshedAccountCount} of ${accounts.length}\n\n`;
+
+  if (job.errorMessage) {
+    responseText += `⚠️ ${job.errorMessage}\n\n`;
+  }
+
+  const problemItems = job.itemResults.filter((item) => item.status !== "synced");
+  if (problemItems.length > 0) {
+    responseText += `## Institutions Not Refreshed\n`;
+    for (const item of problemItems) {
+      const name = item.institutionName || item.itemId;
+      if (item.status === "needs_reconnect") {
+        responseText += `- ${name}: needs reconnecting - use update-account-link with item_id ${item.itemId}\n`;
+      } else if (item.status === "skipped_locked") {
+        responseText += `- ${name}: another sync was already running; its data will land shortly\n`;
+      } else {
+        responseText += `- ${name}: failed${item.error ? ` (${item.error})` : ""}\n`;
+      }
+    }
+    responseText += `\n`;
+  }
+
+  responseText += `| Account | Institution | Transactions | Last Synced |\n`;
+  responseText += `|---------|-------------|--------------|-------------|\n`;
+  for (const account of accounts) {
+    const txStatus = account.transactions
+      ? `${account.transactions.status}${account.transactions.refreshed ? " ✓" : ""}`
+      : "pending";
+    responseText += `| ${account.name} | ${account.institution_name || "Unknown"} | ${txStatus} | ${account.transactions?.last_synced_at || "never"} |\n`;
+  }
+
+  if (job.status === "queued" || job.status === "running") {
+    responseText += `\nThe refresh is still running - check again in a few seconds.`;
+  }
+
+  logToolEvent("get-refresh-status", "complete", {
+    userId,
+    jobId: job.id,
+    status: job.status,
+    refreshedAccountCount,
+  });
+
+  return {
+    content: [
+      {
+        type: "text" as const,
+        text: responseText.trim(),
+      },
+    ],
+    structuredContent: {
+      job: {
+        job_id: job.id,
+        status: job.status,
+        created_at: job.createdAt,
+        started_at: job.startedAt,
+        completed_at: job.completedAt,
+        error_message: job.errorMessage,
+        items: job.itemResults.map((item) => ({
+          item_id: item.itemId,
+          institution_name: item.institutionName,
+          status: item.status,
+          error: item.error,
+        })),
+      },
+      accounts,
+      summary: {
+        accountCount: accounts.length,
+        refreshedAccountCount,
+        erroredAccountCount,
+      },
+    },
+  };
+}
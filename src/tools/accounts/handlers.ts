@@ -10,7 +10,9 @@ import {
   disconnectAccount,
   getUserConnections,
 } from "../../services/account-service.js";
+import { connectionNeedsReconnect } from "../../services/connection-health.js";
 import { getAccountsByUserId } from "../../storage/repositories/accounts.js";
+import type { ConnectionStatus } from "../../storage/repositories/account-connections.js";
 import {
   getRecentNetWorthSnapshots,
   type NetWorthSnapshot,
@@ -48,6 +50,14 @@ type NextStepAction =
       promptFallback: string;
     };
 
+const CONNECTION_STATUS_LABELS: Record<ConnectionStatus, string> = {
+  active: "Connected",
+  login_required: "Login required",
+  pending_expiration: "Access expiring soon",
+  institution_down: "Institution temporarily unavailable",
+  error: "Connection error",
+};
+
 function formatCurrency(amount: number): string {
   return currencyFormatter.format(amount);
 }
@@ -73,8 +83,23 @@ function calculateNetTotals(accounts: Awaited<ReturnType<typeof getAccountsByUse
   };
 }
 
-function buildNextSteps(): NextStepAction[] {
+function buildReconnectStep(itemId: string, institutionName: string): NextStepAction {
+  return {
+    id: `reconnect-${itemId}`,
+    label: `Reconnect ${institutionName}`,
+    description: "Log in again so syncing can resume",
+    icon: "🔄",
+    kind: "tool",
+    tool: "update-account-link",
+    toolArgs: { item_id: itemId },
+    variant: "primary",
+    promptFallback: `Update account link for ${itemId}`,
+  };
+}
+
+function buildNextSteps(reconnectSteps: NextStepAction[] = []): NextStepAction[] {
   return [
+    ...reconnectSteps,
     {
       id: "connect-account",
       label: "Connect Account",
@@ -83,7 +108,7 @@ function buildNextSteps(): NextStepAction[] {
       kind: "tool",
       tool: "connect-account",
       toolArgs: {},
-      variant: "primary",
+      variant: reconnectSteps.length > 0 ? "secondary" : "primary",
       promptFallback: "Connect my account",
     },
   ];
@@ -229,10 +254,17 @@ function groupAccountsByInstitution(
       ? new Date(institutionAccounts[0].created_at)
       : null;
 
+    const institutionName = connection?.institutionName || "Unknown Institution";
+    const needsReconnect = connectionNeedsReconnect(connection?.status);
+
     return {
       itemId,
-      institutionName: connection?.institutionName || "Unknown Institution",
+      institutionName,
       status: connection?.status || "unknown",
+      statusLabel: connection?.status ? CONNECTION_STATUS_LABELS[connection.status] : undefined,
+      needsReconnect,
+      reconnectAction: needsReconnect ? buildReconnectStep(itemId, institutionName) : undefined,
+      errorCode: connection?.errorCode || undefined,
       errorMessage: connection?.errorMessage || undefined,
       error: connection?.errorMessage || undefined,
       environment: connection?.environment,
@@ -363,7 +395,9 @@ Say "Connect my account" to launch a secure Plaid Link window.
   const { assets, liabilities, netWorth } = calculateNetTotals(accounts);
   const lastSyncedAt = getMostRecentSync(accounts);
   const liabilitySummary = summarizeLiabilities(liabilityDetails);
-  const accountNextSteps = buildNextSteps();
+  const accountNextSteps = buildNextSteps(
+    institutions.flatMap((institution) => (institution.reconnectAction ? [institution.reconnectAction] : []))
+  );
 
   const responseLines: string[] = [];
   responseLines.push("🔗 **Account Status**");
@@ -375,15 +409,25 @@ Say "Connect my account" to launch a secure Plaid Link window.
   Object.entries(accountsByInstitution).forEach(([itemId, institutionAccounts]) => {
     const connection = connectionMap.get(itemId);
     const institutionName = connection?.institutionName || "Unknown Institution";
-    const status = connection?.status || "unknown";
-    const statusEmoji = status === "active" ? "✓" : status === "error" ? "⚠️" : "•";
-    const statusText = status === "active" ? "" : ` (${status})`;
+    const status = connection?.status;
+    const needsReconnect = connectionNeedsReconnect(status);
+    const statusEmoji = status === "active" ? "✓" : needsReconnect || status === "institution_down" ? "⚠️" : "•";
+    const statusText = !status ? " (unknown)" : status === "active" ? "" : ` (${CONNECTION_STATUS_LABELS[status]})`;
     responseLines.push(`${statusEmoji} **${institutionName}**${statusText}`);
     responseLines.push(`Item ID: ${itemId}`);
-    if (status === "error" && connection?.errorMessage) {
-      responseLines.push(`⚠️ Error: ${connection.errorMessage}`);
+    if (status === "institution_down") {
+      responseLines.push(`⚠️ ${institutionName} isn't responding right now. Balances below may be out of date; syncing retries automatically.`);
+    }
+    if (needsReconnect) {
+      if (connection?.errorMessage) {
+        responseLines.push(`⚠️ Error: ${connection.errorMessage}`);
+      }
+      if (status !== "pending_expiration") {
+        responseLines.push(`Syncing is paused until this connection is repaired.`);
+      }
       responseLines.push(`To fix: say "Update account link for ${itemId}"`);
-    } else {
+    }
+    if (!needsReconnect || status === "pending_expiration") {
       institutionAccounts.forEach((account) => {
         const balanceText =
           account.current_balance !== null ? formatCurrency(Number(account.current_balance)) : "N/A";
@@ -10,6 +10,21 @@ import {
   getAccountStatusHandler,
 } from "./handlers.js";
 import { updateAccountLinkHandler } from "./update-account-link.js";
+import {
+  getBalanceHistoryHandler,
+  GetBalanceHistoryArgsSchema,
+  GetBalanceHistoryOutputSchema,
+} from "./get-balance-history.js";
+import {
+  refreshAccountsHandler,
+  RefreshAccountsArgsSchema,
+  RefreshAccountsOutputSchema,
+} from "./refresh-accounts.js";
+import {
+  getRefreshStatusHandler,
+  GetRefreshStatusArgsSchema,
+  GetRefreshStatusOutputSchema,
+} from "./get-refresh-status.js";
 import { getBaseUrl } from "../../utils/config.js";
 import { WIDGET_META } from "../../utils/widget-metadata.js";
 import type { ToolDefinition } from "../types.js";
@@ -54,10 +69,66 @@ export function getAccountTools(): ToolDefinition[] {
         return getAccountStatusHandler(userId);
       },
     },
+    {
+      name: "get-balance-history",
+      description:
+        "Get daily balance history for connected accounts as a time series, per account or summed per account type. Use this to chart checking-account drawdown, savings growth, or debt paydown over a date range (default: last 90 days).",
+      inputSchema: GetBalanceHistoryArgsSchema,
+      outputSchema: GetBalanceHistoryOutputSchema,
+      options: {
+        readOnlyHint: true,
+        securitySchemes: [{ type: "oauth2" }],
+      },
+      handler: async (args, { authInfo }) => {
+        const userId = authInfo?.extra?.userId as string | undefined;
+        if (!userId) {
+          throw new Error("User authentication required");
+        }
+
+        return getBalanceHistoryHandler(userId, args);
+      },
+    },
+    {
+      name: "refresh-accounts",
+      description:
+        "Refresh balances, transactions, and investment holdings from the user's banks right now instead of waiting for the daily sync. Use when the user asks to refresh or update their accounts, or says a recent purchase is missing. Runs in the background and returns a job_id; call get-refresh-status to check progress. Institutions that need reconnecting are skipped (see get-account-status).",
+      inputSchema: RefreshAccountsArgsSchema,
+      outputSchema: RefreshAccountsOutputSchema,
+      options: {
+        securitySchemes: [{ type: "oauth2" }],
+      },
+      handler: async (args, { authInfo }, { plaidClient }) => {
+        const userId = authInfo?.extra?.userId as string | undefined;
+        if (!userId) {
+          throw new Error("User authentication required");
+        }
+
+        return refreshAccountsHandler(userId, args, plaidClient!);
+      },
+    },
+    {
+      name: "get-refresh-status",
+      description:
+        "Check the progress of an account refresh started with refresh-accounts. Reports the job status, which institutions were refreshed or skipped, and per-account transaction and investment sync progress. Defaults to the most recent refresh when no job_id is given.",
+      inputSchema: GetRefreshStatusArgsSchema,
+      outputSchema: GetRefreshStatusOutputSchema,
+      options: {
+        readOnlyHint: true,
+        securitySchemes: [{ type: "oauth2" }],
+      },
+      handler: async (args, { authInfo }) => {
+        const userId = authInfo?.extra?.userId as string | undefined;
+        if (!userId) {
+          throw new Error("User authentication required");
+        }
+
+        return getRefreshStatusHandler(userId, args);
+      },
+    },
     {
       name: "update-account-link",
       description:
-        "IMPORTANT: Only use this tool when an account connection is broken. ALWAYS call get-account-status FIRST to verify the connection shows an error status (⚠️) before calling this tool. This tool updates a broken or expired account connection by re-authenticating with the financial institution. Returns a secure link for the user to complete re-authentication. After the user completes the update, they should say 'I've updated it, please refresh my transactions' to sync their data.",
+        "IMPORTANT: Only use this tool when an account connection is broken. ALWAYS call get-account-status FIRST to verify the connection needs a reconnect (login required, access expiring, or connection error) before calling this tool. This tool updates a broken or expired account connection by re-authenticating with the financial institution. Returns a secure link for the user to complete re-authentication. Syncing for the connection is paused until the update is completed; once it is, the connection is re-checked and syncing resumes automatically.",
       inputSchema: {
         item_id: z
           .string()
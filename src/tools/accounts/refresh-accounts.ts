@@ -0,0 +1,74 @@
+/**
+ * Refresh Accounts Tool
+ * Starts an on-demand transaction, balance and investment refresh and returns a job ID
+ */
+
+import { z } from "zod";
+import { PlaidApi } from "plaid";
+import { requestAccountRefresh } from "../../services/account-refresh.js";
+import { logToolEvent } from "../../utils/logger.js";
+
+// Input schema for refresh-accounts tool
+export const RefreshAccountsArgsSchema = {
+  item_ids: z
+    .array(z.string())
+    .optional()
+    .describe("Only refresh these institutions (item_id from get-account-status). Default: all connected institutions"),
+};
+
+export type RefreshAccountsArgs = {
+  item_ids?: string[];
+};
+
+// Output schema for refresh-accounts tool (using Zod for type safety and validation)
+export const RefreshAccountsOutputSchema = {
+  job_id: z.string().describe("Refresh job ID - pass to get-refresh-status to check progress"),
+  status: z.enum(["queued", "running", "complete", "partial", "failed"]).describe("Job status when the tool returned"),
+  reused: z.boolean().describe("True when a refresh started in the last few minutes was still running for the requested accounts and was returned instead of starting a new one"),
+  item_ids: z.array(z.string()).describe("Institutions included in the refresh"),
+  created_at: z.string().describe("ISO timestamp when the refresh was requested"),
+};
+
+/**
+ * Handler for refresh-accounts tool
+ */
+export async function refreshAccountsHandler(
+  userId: string,
+  args: RefreshAccountsArgs,
+  plaidClient: PlaidApi
+) {
+  logToolEvent("refresh-accounts", "start", { userId, itemIds: args.item_ids });
+
+  const { job, reused } = await requestAccountRefresh(userId, plaidClient, {
+    itemIds: args.item_ids,
+  });
+
+  let responseText = reused
+    ? `🔄 **Refresh Already In Progress**\n\n`
+    : `🔄 **Account Refresh Started**\n\n`;
+  responseText += `**Job ID:** ${job.id}\n`;
+  responseText += `**Institutions:** ${job.itemIds.length}\n\n`;
+  responseText += `Balances, transactions and investment holdings are being refreshed in the background. `;
+  responseText += `This usually takes under a minute; some banks send new transactions to us a few minutes later.\n\n`;
+  responseText += `**Next Steps:**\n`;
+  responseText += `- Call get-refresh-status with this job ID to check progress\n`;
+  responseText += `- Once it's complete, "Get my transactions" will include the latest activity\n`;
+
+  logToolEvent("refresh-accounts", "complete", { userId, jobId: job.id, reused });
+
+  return {
+    content: [
+      {
+        type: "text" as const,
+        text: responseText.trim(),
+      },
+    ],
+    structuredContent: {
+      job_id: job.id,
+      status: job.status,
+      reused,
+      item_ids: job.itemIds,
+      created_at: job.createdAt,
+    },
+  };
+}
@@ -3,16 +3,52 @@ import crypto from "crypto";
 import {
   createBudget,
 } from "../../storage/budgets/budgets.js";
-import { startBudgetProcessing } from "../../utils/budget-processing-worker.js";
+import {
+  formatBudgetJobNote,
+  processBudgetNow,
+  startBudgetProcessing,
+} from "../../utils/budget-processing-worker.js";
+import { normalizeTag } from "../../utils/transaction-tags.js";
+import {
+  describeRollover,
+  getDefaultRolloverStartDate,
+  ROLLOVER_MODES,
+} from "../../utils/budget-rollover.js";
+import {
+  DEFAULT_ALERT_THRESHOLDS,
+  describeAlertThresholds,
+  MAX_ALERT_THRESHOLD,
+  normalizeAlertThresholds,
+} from "../../utils/budget-alerts.js";
+import {
+  applyBudgetCriteriaArgs,
+  budgetNeedsClaude,
+  describeBudgetFilter,
+  hasBudgetCriteria,
+  NO_BUDGET_CRITERIA,
+  toBudgetCriteriaColumns,
+} from "../../utils/budget-criteria.js";
+import { getBudgetHistory } from "../../services/budget-spending-service.js";
 
 // Input schema for create-budget tool
 export const CreateBudgetArgsSchema = z.object({
   title: z.string().describe("Display name for the budget (e.g., 'Coffee Shop Budget')"),
-  filter_prompt: z.string().describe("Natural language filter criteria describing which transactions to include"),
+  filter_prompt: z.string().optional().describe("Natural language filter criteria describing which transactions to include. Required unless tag or structured criteria are given; alongside criteria it refines their matches"),
+  tag: z.string().optional().describe("Optional: count every transaction carrying this tag (from tag-transactions) instead of matching with filter_prompt"),
+  categories: z.array(z.string()).optional().describe("Optional criterion: transaction categories to include (subcategories included), e.g. ['Food & Dining']"),
+  account_ids: z.array(z.string()).optional().describe("Optional criterion: only transactions from these account IDs"),
+  merchant_patterns: z.array(z.string()).optional().describe("Optional criterion: merchant/description contains any of these (case-insensitive), e.g. ['starbucks', 'peet']"),
+  min_amount: z.number().nonnegative().optional().describe("Optional criterion: smallest transaction amount to include, in dollars"),
+  max_amount: z.number().nonnegative().optional().describe("Optional criterion: largest transaction amount to include, in dollars"),
+  tags: z.array(z.string()).optional().describe("Optional criterion: transactions carrying any of these tags"),
   budget_amount: z.number().positive().describe("Dollar amount limit for the budget"),
   time_period: z.enum(["rolling", "weekly", "biweekly", "monthly", "quarterly", "yearly"]).describe("Budget type: 'rolling' for last N days, or fixed periods (weekly/biweekly/monthly/quarterly/yearly)"),
   custom_period_days: z.number().int().positive().optional().describe("Required for 'rolling' budgets: number of days to track (e.g., 7, 30, 90)"),
   fixed_period_start_date: z.string().optional().describe("Required for fixed budgets: anchor date in YYYY-MM-DD format (e.g., '2025-01-15' for monthly budget starting on 15th)"),
+  rollover_mode: z.enum(ROLLOVER_MODES).optional().describe("Optional, fixed budgets only: carry unspent ('surplus'), overspent ('deficit') or both amounts into the next period (default: 'none')"),
+  rollover_cap: z.number().positive().optional().describe("Optional: largest amount carried into a period either way (default: uncapped)"),
+  rollover_start_date: z.string().optional().describe("Optional: a YYYY-MM-DD date in the first period that carries over (default: the current period, so the first carryover shows up next period)"),
+  alert_thresholds: z.array(z.number().int().min(1).max(MAX_ALERT_THRESHOLD)).optional().describe("Optional: percentages of the limit that raise an alert when crossed (default: [80, 100]); [] turns alerts off"),
 });
 
 export type CreateBudgetArgs = z.infer<typeof CreateBudgetArgsSchema>;
@@ -25,6 +61,55 @@ export async function createBudgetHandler(
   userId: string,
   args: CreateBudgetArgs
 ) {
+  // Validate the budget has something to match transactions with
+  const tag = args.tag ? normalizeTag(args.tag) : null;
+  if (args.tag && !tag) {
+    return {
+      content: [
+        {
+          type: "text" as const,
+          text: `❌ **Error:** "${args.tag}" is not a valid tag. Tags use letters, numbers, hyphens and underscores.`,
+        },
+      ],
+    };
+  }
+
+  const criteriaResult = applyBudgetCriteriaArgs(NO_BUDGET_CRITERIA, args);
+  if ("error" in criteriaResult) {
+    return {
+      content: [
+        {
+          type: "text" as const,
+          text: `❌ **Error:** ${criteriaResult.error}`,
+        },
+      ],
+    };
+  }
+  const criteria = criteriaResult.criteria;
+
+  if (tag && hasBudgetCriteria(criteria)) {
+    return {
+      content: [
+        {
+          type: "text" as const,
+          text: "❌ **Error:** A `tag` budget can't have other criteria. Use `tags` to combine tags with categories, accounts, merchants or amounts",
+        },
+      ],
+    };
+  }
+
+  const filterPrompt = args.filter_prompt?.trim() || (tag ? `Transactions tagged "${tag}"` : null);
+  if (!filterPrompt && !hasBudgetCriteria(criteria)) {
+    return {
+      content: [
+        {
+          type: "text" as const,
+          text: "❌ **Error:** Provide `filter_prompt` describing which transactions to include, a `tag` to budget tagged transactions, or structured criteria (`categories`, `account_ids`, `merchant_patterns`, `min_amount`/`max_amount`, `tags`)",
+        },
+      ],
+    };
+  }
+
   // Validate rolling budgets have custom_period_days
   if (args.time_period === "rolling" && !args.custom_period_days) {
     return {
@@ -65,30 +150,119 @@ export async function createBudgetHandler(
     }
   }
 
+  // Validate rollover (rolling budgets have no period boundary to carry across)
+  const rolloverMode = args.rollover_mode ?? "none";
+  if (rolloverMode !== "none" && args.time_period === "rolling") {
+    return {
+      content: [
+        {
+          type: "text" as const,
+          text: "❌ **Error:** Rollover needs a fixed budget period (weekly/biweekly/monthly/quarterly/yearly); rolling budgets have no period to carry over from",
+        },
+      ],
+    };
+  }
+
+  if (args.rollover_start_date && !/^\d{4}-\d{2}-\d{2}$/.test(args.rollover_start_date)) {
+    return {
+      content: [
+        {
+          type: "text" as const,
+          text: "❌ **Error:** `rollover_start_date` must be in YYYY-MM-DD format (e.g., '2025-01-01')",
+        },
+      ],
+    };
+  }
+
+  const alertThresholds = args.alert_thresholds ? normalizeAlertThresholds(args.alert_thresholds) : DEFAULT_ALERT_THRESHOLDS;
+  if (alertThresholds === null) {
+    return {
+      content: [
+        {
+          type: "text" as const,
+          text: `❌ **Error:** \`alert_thresholds\` must be whole percentages between 1 and ${MAX_ALERT_THRESHOLD} (e.g., [80, 100])`,
+        },
+      ],
+    };
+  }
+
   // CREATE new budget
   const newId = crypto.randomUUID();
   const created = await createBudget({
     id: newId,
     user_id: userId,
     title: args.title,
-    filter_prompt: args.filter_prompt,
+    filter_prompt: filterPrompt,
+    tag,
+    ...toBudgetCriteriaColumns(criteria),
     budget_amount: args.budget_amount,
     time_period: args.time_period,
     custom_period_days: args.custom_period_days || null,
     fixed_period_start_date: args.fixed_period_start_date || null,
+    rollover_mode: rolloverMode,
+    rollover_cap: rolloverMode !== "none" ? args.rollover_cap ?? null : null,
+    rollover_start_date: rolloverMode !== "none"
+      ? args.rollover_start_date || getDefaultRolloverStartDate(args.time_period, args.fixed_period_start_date || null)
+      : null,
+    alert_thresholds: alertThresholds,
     processing_status: "processing",
   });
 
+  const summary = `**${created.title}**\n- Amount: $${created.budget_amount}\n- Period: ${created.time_period}\n${created.rollover_mode !== "none" ? `- Rollover: ${describeRollover(created.rollover_mode, created.rollover_cap)} from ${created.rollover_start_date}\n` : ""}- Alerts: ${describeAlertThresholds(created.alert_thresholds)}\n${describeBudgetFilter(created).map((line) => `- ${line}\n`).join("")}`;
+
+  // Tag and criteria budgets are matched locally, so they're ready before we reply
+  if (!budgetNeedsClaude(created)) {
+    const matchingCount = await processBudgetNow(userId, created);
+    const [current] = await getBudgetHistory(userId, created, 0, true);
+
+    console.log(`[CREATE-BUDGET] Created budget ${created.id}, ${matchingCount} transactions matched`);
+
+    return {
+      content: [
+        {
+          type: "text" as const,
+          text: `✅ **Budget Created**\n\n${summary}\n✅ **Ready** - matched ${matchingCount} transactions by the budget's criteria.\n\nThis period: $${current.spent.toFixed(2)} of $${current.limit.toFixed(2)} spent (${current.percentage}%).`,
+        },
+      ],
+      structuredContent: {
+        budgets: [
+          {
+            id: created.id,
+            title: created.title,
+            amount: created.budget_amount,
+            effectiveAmount: current.limit,
+            period: created.time_period,
+            customPeriodDays: created.custom_period_days,
+            tag: created.tag,
+            spent: current.spent,
+            remaining: current.remaining,
+            percentage: current.percentage,
+            status: current.status,
+            processingStatus: "ready",
+            dateRange: { start: current.start, end: current.end },
+            transactionCount: current.transactionCount,
+          },
+        ],
+      },
+      _meta: {
+        "openai/outputTemplate": "ui://widget/budget-list.html",
+        "openai/widgetAccessible": true,
+        "openai/resultCanProduceWidget": true,
+      },
+      budgetId: created.id,
+    };
+  }
+
   console.log(`[CREATE-BUDGET] Created budget ${created.id}, starting async processing`);
 
   // Start background processing (non-blocking)
-  startBudgetProcessing(userId, created);
+  const job = await startBudgetProcessing(userId, created);
 
   return {
     content: [
       {
         type: "text" as const,
-        text: `✅ **Budget Created**\n\n**${created.title}**\n- Amount: $${created.budget_amount}\n- Period: ${created.time_period}\n- Filter: ${created.filter_prompt.substring(0, 100)}${created.filter_prompt.length > 100 ? "..." : ""}\n\n⏳ **Processing in Progress**\n\nYour budget is being analyzed in the background. This typically takes **3-5 minutes** to match all your transactions.\n\nCheck back in a few minutes by saying "Show my budgets" to see the results!`,
+        text: `✅ **Budget Created**\n\n${summary}\n⏳ **Processing in Progress**\n\nYour budget is being analyzed in the background. This typically takes **3-5 minutes** to match all your transactions.\n\nCheck back in a few minutes by saying "Show my budgets" to see the results!${formatBudgetJobNote(job)}`,
       },
     ],
     structuredContent: {
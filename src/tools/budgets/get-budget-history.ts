@@ -0,0 +1,150 @@
+import { z } from "zod";
+import { getBudgetById } from "../../storage/budgets/budgets.js";
+import { getBudgetHistory } from "../../services/budget-spending-service.js";
+import { logToolEvent } from "../../utils/logger.js";
+
+// Input schema for get-budget-history tool
+export const GetBudgetHistoryArgsSchema = {
+  budget_id: z
+    .string()
+    .describe("Budget ID (from get-budgets)"),
+  periods: z
+    .number()
+    .int()
+    .min(1)
+    .max(24)
+    .default(6)
+    .describe("Number of complete past periods to include (default: 6)"),
+  include_current: z
+    .boolean()
+    .default(true)
+    .describe("Also include the period in progress, as the last entry (default: true)"),
+};
+
+export type GetBudgetHistoryArgs = {
+  budget_id: string;
+  periods?: number;
+  include_current?: boolean;
+};
+
+// Output schema for get-budget-history tool
+export const GetBudgetHistoryOutputSchema = {
+  budget: z.object({
+    id: z.string().describe("Unique budget identifier"),
+    title: z.string().describe("Budget display name"),
+    amount: z.number().describe("Base budget limit in dollars"),
+    period: z.string().describe("Budget time period: 'rolling', 'weekly', 'biweekly', 'monthly', 'quarterly', or 'yearly'"),
+    customPeriodDays: z.number().nullable().describe("Number of days for rolling budgets (null for fixed periods)"),
+  }).describe("The budget the history is for"),
+  periods: z.array(
+    z.object({
+      start: z.string().describe("Period start date in YYYY-MM-DD format"),
+      end: z.string().describe("Period end date in YYYY-MM-DD format (today for the current period)"),
+      limit: z.number().describe("Budget limit for that period, including any rollover carried in"),
+      spent: z.number().describe("Total spent in that period"),
+      remaining: z.number().describe("Limit minus spent (negative when over budget)"),
+      percentage: z.number().describe("Percentage of the limit spent (0-100+)"),
+      status: z.string().describe("'under' (< 70%), 'near' (70-99%), or 'over' (>= 100%)"),
+      transactionCount: z.number().describe("Number of transactions (or transaction splits) counted in that period"),
+      current: z.boolean().describe("True for the period in progress"),
+    })
+  ).describe("One entry per period, oldest first - ready to chart as bars (spent) against a line (limit)"),
+  summary: z.object({
+    averageSpent: z.number().describe("Average spent per complete period"),
+    averagePercentage: z.number().describe("Average percentage of the limit spent per complete period"),
+    periodsOver: z.number().describe("Complete periods that ended over budget"),
+    periodsUnder: z.number().describe("Complete periods that ended within budget"),
+  }).describe("Totals across the complete periods (the current period is left out)"),
+};
+
+function formatPeriodLabel(start: string, end: string): string {
+  return start === end ? start : `${start} to ${end}`;
+}
+
+/**
+ * Get Budget History Tool Handler
+ * Spending, limit and status for each of a budget's recent periods
+ */
+export async function getBudgetHistoryHandler(userId: string, args: GetBudgetHistoryArgs) {
+  const pastPeriodCount = args.periods ?? 6;
+  const includeCurrent = args.include_current ?? true;
+
+  logToolEvent("get-budget-history", "start", { userId, budgetId: args.budget_id, periods: pastPeriodCount });
+
+  const budget = await getBudgetById(userId, args.budget_id);
+
+  if (!budget) {
+    return {
+      content: [
+        {
+          type: "text" as const,
+          text: `❌ **Budget Not Found**\n\nNo budget found with ID: ${args.budget_id}\n\nUse "get-budgets" to see your available budgets.`,
+        },
+      ],
+    };
+  }
+
+  if (budget.processing_status === "processing") {
+    return {
+      content: [
+        {
+          type: "text" as const,
+          text: `⏳ **${budget.title}** is still being analyzed. Check back in a moment for its history.`,
+        },
+      ],
+    };
+  }
+
+  const periods = await getBudgetHistory(userId, budget, pastPeriodCount, includeCurrent);
+  const complete = periods.filter((period) => !period.current);
+
+  const summary = {
+    averageSpent: complete.length > 0
+      ? Math.round((complete.reduce((sum, period) => sum + period.spent, 0) / complete.length) * 100) / 100
+      : 0,
+    averagePercentage: complete.length > 0
+      ? Math.round(complete.reduce((sum, period) => sum + period.percentage, 0) / complete.length)
+      : 0,
+    periodsOver: complete.filter((period) => period.status === "over").length,
+    periodsUnder: complete.filter((period) => period.status !== "over").length,
+  };
+
+  logToolEvent("get-budget-history", "complete", { userId, budgetId: budget.id, periodCount: periods.length });
+
+  let responseText = `📈 **${budget.title} - Budget History**\n\n`;
+  for (const period of periods) {
+    const statusEmoji = period.status === "over" ? "🔴" : period.status === "near" ? "🟡" : "🟢";
+    responseText += `${statusEmoji} ${formatPeriodLabel(period.start, period.end)}${period.current ? " (current)" : ""}: `;
+    responseText += `$${period.spent.toFixed(2)} / $${period.limit.toFixed(2)} (${period.percentage}%)\n`;
+  }
+  if (complete.length > 0) {
+    responseText += `\n**Average:** $${summary.averageSpent.toFixed(2)} per period (${summary.averagePercentage}% of the limit)\n`;
+    responseText += `**Over budget:** ${summary.periodsOver} of ${complete.length} periods\n`;
+  }
+  responseText += `\n💡 Labels come from the budget's current rules, so earlier periods are judged by today's filter.`;
+
+  return {
+    content: [
+      {
+        type: "text" as const,
+        text: responseText.trim(),
+      },
+    ],
+    structuredContent: {
+      budget: {
+        id: budget.id,
+        title: budget.title,
+        amount: budget.budget_amount,
+        period: budget.time_period,
+        customPeriodDays: budget.custom_period_days,
+      },
+      periods,
+      summary,
+    },
+    _meta: {
+      "openai/outputTemplate": "ui://widget/budget-list.html",
+      "openai/widgetAccessible": true,
+      "openai/resultCanProduceWidget": true,
+    },
+  };
+}
@@ -1,8 +1,16 @@
 import { z } from "zod";
 import { getBudgets, getBudgetById, Budget } from "../../storage/budgets/budgets.js";
 import { findAccountConnectionsByUserId } from "../../storage/repositories/account-connections.js";
-import { findTransactionsByBudgetId } from "../../storage/repositories/transactions.js";
+import {
+  findBudgetRollover,
+  findBudgetSpendingLines,
+  getBudgetStatus,
+} from "../../services/budget-spending-service.js";
 import { logToolEvent } from "../../utils/logger.js";
+import { describeSplitLine } from "../../utils/transaction-splits.js";
+import { getBudgetDateRange } from "../../utils/budget-periods.js";
+import { BudgetRecurringSeries, findBudgetRecurringSeries, getBudgetForecast } from "../../services/budget-forecast-service.js";
+import { describeBudgetCriteria, getBudgetCriteria, hasBudgetCriteria } from "../../utils/budget-criteria.js";
 
 // Input schema for get-budgets tool
 export const GetBudgetsArgsSchema = {
@@ -29,20 +37,54 @@ export const GetBudgetsOutputSchema = {
       z.object({
         id: z.string().describe("Unique budget identifier"),
         title: z.string().describe("Budget display name (e.g., 'Coffee Shop Budget')"),
-        amount: z.number().describe("Budget limit in dollars"),
+        amount: z.number().describe("Budget limit in dollars (the base amount, before any rollover)"),
+        effectiveAmount: z.number().optional().describe("Limit for the current period: amount plus rollover carryover (equals amount without rollover). spent, remaining and percentage are measured against it"),
         period: z.string().describe("Budget time period: 'rolling', 'weekly', 'biweekly', 'monthly', 'quarterly', or 'yearly'"),
         customPeriodDays: z.number().optional().describe("Number of days for rolling budgets (only present when period is 'rolling')"),
+        tag: z.string().nullable().optional().describe("Tag the budget counts instead of using its filter prompt (null for prompt budgets)"),
+        criteria: z.string().nullable().optional().describe("Structured criteria the budget matches locally, e.g. 'category Food & Dining; up to $50.00' (null when it only uses a tag or filter prompt)"),
         spent: z.number().describe("Total amount spent in current budget period"),
         remaining: z.number().describe("Amount remaining before hitting budget limit (can be negative if over budget)"),
         percentage: z.number().describe("Percentage of budget spent (0-100+)"),
         status: z.string().describe("Budget status indicator: 'under' (< 70%), 'near' (70-99%), or 'over' (>= 100%)"),
         processingStatus: z.string().optional().describe("Current processing state: 'processing' (analyzing transactions), 'error' (processing failed), or 'ready' (budget is active)"),
         processingError: z.string().optional().describe("Error message when processingStatus is 'error'"),
-        transactionCount: z.number().describe("Number of transactions matching this budget in the current period"),
+        transactionCount: z.number().describe("Number of transactions (or transaction splits) matching this budget in the current period"),
+        rollover: z.object({
+          mode: z.string().describe("What carries over between periods: 'surplus' (unspent), 'deficit' (overspent) or 'both'"),
+          cap: z.number().nullable().describe("Largest amount carried either way (null = uncapped)"),
+          carryover: z.number().describe("Amount carried into the current period (negative when a deficit is carried)"),
+          periods: z.array(
+            z.object({
+              start: z.string().describe("Period start date in YYYY-MM-DD format"),
+              end: z.string().describe("Period end date in YYYY-MM-DD format"),
+              limit: z.number().describe("That period's limit including what carried into it"),
+              spent: z.number().describe("Amount spent in that period"),
+              carriedOut: z.number().describe("Amount that period carried into the next one"),
+            })
+          ).describe("Past periods counted for rollover, oldest first"),
+        }).optional().describe("Rollover breakdown (only present for budgets with rollover enabled)"),
         dateRange: z.object({
           start: z.string().describe("Period start date in YYYY-MM-DD format"),
           end: z.string().describe("Period end date in YYYY-MM-DD format"),
         }).optional().describe("Budget period date range (only present when processingStatus is 'ready')"),
+        forecast: z.object({
+          periodEnd: z.string().describe("Last day of the current period in YYYY-MM-DD format"),
+          daysRemaining: z.number().describe("Days left in the period, including today"),
+          projectedSpend: z.number().describe("Projected spend by the end of the period: spending so far at its daily pace plus upcoming recurring charges"),
+          projectedPercentage: z.number().describe("Projected spend as a percentage of the limit"),
+          projectedStatus: z.string().describe("Status the budget is on pace to end with: 'under', 'near' or 'over'"),
+          projectedOverspendDate: z.string().nullable().describe("Date (YYYY-MM-DD) the limit is projected to be exceeded; null if already over or not projected to go over"),
+          safeToSpendPerDay: z.number().describe("Amount that can be spent per remaining day, after upcoming recurring charges, without going over"),
+          upcomingRecurring: z.number().describe("Total of recurring charges expected before the period ends"),
+          upcomingCharges: z.array(
+            z.object({
+              date: z.string().describe("Expected charge date in YYYY-MM-DD format"),
+              amount: z.number().describe("Expected amount"),
+              merchantName: z.string().describe("Merchant of the recurring charge"),
+            })
+          ).describe("Recurring charges expected before the period ends, soonest first"),
+        }).optional().describe("Pace forecast for the current period (only present for ready fixed-period budgets; rolling budgets never reach a period end)"),
         transactions: z.array(
           z.object({
             date: z.string().describe("Transaction date in YYYY-MM-DD format"),
@@ -51,6 +93,7 @@ export const GetBudgetsOutputSchema = {
             category: z.string().describe("Transaction category (e.g., 'Food & Dining', 'Coffee Shops')"),
             account_name: z.string().describe("Name of the account this transaction came from"),
             pending: z.boolean().describe("Whether this transaction is still pending"),
+            split: z.boolean().describe("True when this is one split of a transaction; amount and category are the split's"),
           })
         ).optional().describe("Matching transactions for this budget (only present when showTransactions=true)"),
         error: z.string().optional().describe("Error message when budget processing completely failed (different from processingError)"),
@@ -60,106 +103,6 @@ export const GetBudgetsOutputSchema = {
   exampleBudgets: z.array(z.string()).describe("Example budget descriptions to help users create their first budget"),
 };
 
-/**
- * Calculate date range for budget period
- */
-function getBudgetDateRange(
-  timePeriod: string,
-  customPeriodDays?: number | null,
-  fixedPeriodStartDate?: string | null
-): { start: Date; end: Date } {
-  const now = new Date();
-  const end = new Date(now); // Today
-
-  // ROLLING BUDGETS: Last N days (continuously rolling window)
-  if (timePeriod === "rolling") {
-    if (!customPeriodDays) {
-      throw new Error("custom_period_days required for rolling budgets");
-    }
-    const start = new Date(now);
-    start.setDate(start.getDate() - customPeriodDays);
-    start.setUTCHours(0, 0, 0, 0); // Use UTC to avoid timezone shifts
-    return { start, end };
-  }
-
-  // FIXED BUDGETS: Calendar-based with anchor date
-  if (!fixedPeriodStartDate) {
-    throw new Error("fixed_period_start_date required for fixed budgets");
-  }
-
-  // Parse anchor date in UTC to avoid timezone shifts
-  const [year, month, day] = fixedPeriodStartDate.split("-").map(Number);
-  const anchorDate = new Date(Date.UTC(year, month - 1, day, 0, 0, 0, 0));
-
-  switch (timePeriod) {
-    case "weekly": {
-      // Find the most recent period start (anchor date or multiples of 7 days later)
-      const start = new Date(anchorDate);
-      const daysSinceAnchor = Math.floor((now.getTime() - anchorDate.getTime()) / (1000 * 60 * 60 * 24));
-      const periodsPassed = Math.floor(daysSinceAnchor / 7);
-      start.setUTCDate(start.getUTCDate() + periodsPassed * 7);
-      start.setUTCHours(0, 0, 0, 0);
-      return { start, end };
-    }
-
-    case "biweekly": {
-      // Find the most recent period start (anchor date or multiples of 14 days later)
-      const start = new Date(anchorDate);
-      const daysSinceAnchor = Math.floor((now.getTime() - anchorDate.getTime()) / (1000 * 60 * 60 * 24));
-      const periodsPassed = Math.floor(daysSinceAnchor / 14);
-      start.setUTCDate(start.getUTCDate() + periodsPassed * 14);
-      start.setUTCHours(0, 0, 0, 0);
-      return { start, end };
-    }
-
-    case "monthly": {
-      // Find the most recent period start on the anchor day of the month
-      const anchorDay = anchorDate.getUTCDate();
-      const start = new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), anchorDay, 0, 0, 0, 0));
-
-      // If anchor day is in the future this month, go back one month
-      if (start > now) {
-        start.setUTCMonth(start.getUTCMonth() - 1);
-      }
-
-      start.setUTCHours(0, 0, 0, 0);
-      return { start, end };
-    }
-
-    case "quarterly": {
-      // Find the most recent period start (anchor date or multiples of 3 months later)
-      const start = new Date(anchorDate);
-      const monthsSinceAnchor = (now.getUTCFullYear() - anchorDate.getUTCFullYear()) * 12 + (now.getUTCMonth() - anchorDate.getUTCMonth());
-      const periodsPassed = Math.floor(monthsSinceAnchor / 3);
-      start.setUTCMonth(start.getUTCMonth() + periodsPassed * 3);
-
-      // If we're past the start, we're in the right period
-      if (start > now) {
-        start.setUTCMonth(start.getUTCMonth() - 3);
-      }
-
-      start.setUTCHours(0, 0, 0, 0);
-      return { start, end };
-    }
-
-    case "yearly": {
-      // Find the most recent period start on the anchor date's month/day
-      const start = new Date(Date.UTC(now.getUTCFullYear(), anchorDate.getUTCMonth(), anchorDate.getUTCDate(), 0, 0, 0, 0));
-
-      // If anchor date is in the future this year, go back one year
-      if (start > now) {
-        start.setUTCFullYear(start.getUTCFullYear() - 1);
-      }
-
-      start.setUTCHours(0, 0, 0, 0);
-      return { start, end };
-    }
-
-    default:
-      throw new Error(`Unknown time period: ${timePeriod}`);
-  }
-}
-
 /**
  * Get Budgets Tool Handler
  * Fetches user budgets with current spending status from pre-labeled transactions
@@ -216,6 +159,14 @@ export async function getBudgetsHandler(userId: string, args: GetBudgetsArgs) {
       };
     }
 
+    // Known recurring charges feed each budget's forecast; budgets still show without them
+    let recurringSeries: BudgetRecurringSeries[] = [];
+    try {
+      recurringSeries = await findBudgetRecurringSeries(userId);
+    } catch (error: any) {
+      logToolEvent("get-budgets", "handler.recurring-error", { userId, error: error.message }, "warn");
+    }
+
     // Process each budget: fetch PRE-LABELED transactions from database
     const budgetResults = [];
 
@@ -267,10 +218,13 @@ export async function getBudgetsHandler(userId: string, args: GetBudgetsArgs) {
         );
 
         // Fetch PRE-LABELED transactions from database (NO AI call)
-        const matchingTransactions = await findTransactionsByBudgetId(userId, budget.id, {
-          startDate: start.toISOString().split("T")[0],
-          endDate: end.toISOString().split("T")[0],
-        });
+        // Split transactions count only their splits labeled with this budget
+        const matchingTransactions = await findBudgetSpendingLines(
+          userId,
+          budget.id,
+          start.toISOString().split("T")[0],
+          end.toISOString().split("T")[0]
+        );
 
         console.log(
           `[GET-BUDGETS] Budget "${budget.title}": ${matchingTransactions.length} matching transactions`
@@ -282,11 +236,23 @@ export async function getBudgetsHandler(userId: string, args: GetBudgetsArgs) {
           0
         );
 
-        // Calculate budget status
-        const remaining = budget.budget_amount - totalSpent;
-        const percentage = (totalSpent / budget.budget_amount) * 100;
-        const status =
-          percentage >= 100 ? "over" : percentage >= 70 ? "near" : "under";
+        const criteria = getBudgetCriteria(budget);
+
+        // Limit for this period, with anything carried over from earlier periods
+        const rollover = await findBudgetRollover(userId, budget);
+        const effectiveAmount = budget.budget_amount + (rollover?.carryover ?? 0);
+
+        // Calculate budget status (a carried deficit can use up the whole limit)
+        const remaining = effectiveAmount - totalSpent;
+        const percentage = effectiveAmount > 0 ? (totalSpent / effectiveAmount) * 100 : 100;
+        const status = getBudgetStatus(percentage);
+
+        const forecast = getBudgetForecast(
+          budget,
+          { start: start.toISOString().split("T")[0], spent: totalSpent, limit: effectiveAmount },
+          matchingTransactions,
+          recurringSeries
+        );
 
         budgetResults.push({
           id: budget.id,
@@ -294,6 +260,9 @@ export async function getBudgetsHandler(userId: string, args: GetBudgetsArgs) {
           amount: budget.budget_amount,
           period: budget.time_period,
           customPeriodDays: budget.custom_period_days,
+          tag: budget.tag,
+          criteria: hasBudgetCriteria(criteria) ? describeBudgetCriteria(criteria) : null,
+          effectiveAmount,
           spent: totalSpent,
           remaining,
           percentage: Math.round(percentage),
@@ -304,14 +273,29 @@ export async function getBudgetsHandler(userId: string, args: GetBudgetsArgs) {
             end: end.toISOString().split("T")[0],
           },
           transactionCount: matchingTransactions.length,
+          ...(forecast && {
+            forecast: {
+              ...forecast,
+              projectedStatus: getBudgetStatus(forecast.projectedPercentage),
+            },
+          }),
+          ...(rollover && {
+            rollover: {
+              mode: budget.rollover_mode,
+              cap: budget.rollover_cap,
+              carryover: rollover.carryover,
+              periods: rollover.periods,
+            },
+          }),
           ...(args.showTransactions && {
             transactions: matchingTransactions.map((tx) => ({
               date: tx.date,
-              description: tx.name,
+              description: describeSplitLine(tx.name, tx.splitNote),
               amount: tx.amount,
               category: tx.customCategory || "Uncategorized",
               account_name: tx.accountName || "",
               pending: tx.pending,
+              split: tx.splitId !== null,
             })),
           }),
         });
@@ -356,10 +340,29 @@ export async function getBudgetsHandler(userId: string, args: GetBudgetsArgs) {
 
       const statusEmoji = result.status === "over" ? "🔴" : result.status === "near" ? "🟡" : "🟢";
       responseText += `${statusEmoji} **${result.title}**\n`;
-      responseText += `- Spent: $${result.spent.toFixed(2)} / $${result.amount.toFixed(2)} (${result.percentage}%)\n`;
+      const limit = "effectiveAmount" in result ? result.effectiveAmount : result.amount;
+      responseText += `- Spent: $${result.spent.toFixed(2)} / $${limit.toFixed(2)} (${result.percentage}%)\n`;
+      if ("rollover" in result && result.rollover) {
+        const carryover = result.rollover.carryover;
+        responseText += `- Rollover (${result.rollover.mode}): ${carryover < 0 ? "-" : "+"}$${Math.abs(carryover).toFixed(2)} carried in on top of $${result.amount.toFixed(2)}\n`;
+      }
       responseText += `- Remaining: $${result.remaining.toFixed(2)}\n`;
       responseText += `- Period: ${result.period}${result.customPeriodDays ? ` (${result.customPeriodDays} days)` : ""}\n`;
       responseText += `- Transactions: ${result.transactionCount}\n`;
+      if ("forecast" in result && result.forecast) {
+        const forecast = result.forecast;
+        responseText += `- Forecast: $${forecast.projectedSpend.toFixed(2)} by ${forecast.periodEnd} (${forecast.projectedPercentage}%)${forecast.upcomingRecurring > 0 ? `, including $${forecast.upcomingRecurring.toFixed(2)} in upcoming recurring charges` : ""}\n`;
+        if (forecast.projectedOverspendDate) {
+          responseText += `- On pace to go over on ${forecast.projectedOverspendDate}\n`;
+        }
+        responseText += `- Safe to spend: $${forecast.safeToSpendPerDay.toFixed(2)}/day for ${forecast.daysRemaining} day${forecast.daysRemaining === 1 ? "" : "s"}\n`;
+      }
+      if ("tag" in result && result.tag) {
+        responseText += `- Tag: ${result.tag}\n`;
+      }
+      if ("criteria" in result && result.criteria) {
+        responseText += `- Criteria: ${result.criteria}\n`;
+      }
       if ("dateRange" in result) {
         responseText += `- Date Range: ${result.dateRange.start} to ${result.dateRange.end}\n`;
       }
@@ -417,18 +420,21 @@ function getWidgetInstructions(): string {
   return `
 BUDGET CREATION GUIDE:
 
-When creating budgets, generate specific filter prompts that describe which transactions to include.
-
-GOOD EXAMPLES:
-✓ "Include coffee shops like Starbucks, Dunkin, local cafes, and any merchant with 'coffee' or 'espresso' in the name"
-✓ "Include grocery stores: Whole Foods, Safeway, Trader Joe's, and transactions categorized as 'Groceries'"
-✓ "Include streaming services: Netflix, Spotify, Hulu, Disney+, and any subscription in Entertainment category"
-✓ "Include restaurants and food delivery services like DoorDash, Uber Eats, and any merchant in Food & Dining category"
-
-BAD EXAMPLES (too vague):
-❌ "Coffee purchases"
-❌ "Food spending"
-❌ "Entertainment"
+Describe which transactions a budget includes with structured criteria whenever they fit.
+Criteria are matched instantly without AI; a transaction must meet every criterion given,
+and any value in a list counts:
+- categories: transaction categories, subcategories included (e.g. ["Groceries"], ["Food & Dining"])
+- merchant_patterns: merchant/description contains any of these, case-insensitive (e.g. ["starbucks", "peet"])
+- account_ids: only transactions from these accounts (from get-account-status)
+- tags: transactions carrying any of these tags (from tag-transactions)
+- min_amount / max_amount: transaction amount range in dollars, inclusive
+
+FILTER PROMPTS (optional refinement):
+Add filter_prompt only for what criteria can't express. Alongside criteria it narrows their
+matches; on its own it describes the whole budget, so make it specific.
+✓ categories: ["Food & Dining"] + filter_prompt: "Only meals with coworkers or clients on weekdays"
+✓ filter_prompt alone: "Include coffee shops like Starbucks, Dunkin, local cafes, and any merchant with 'coffee' or 'espresso' in the name"
+❌ filter_prompt: "Food spending" (too vague; use categories: ["Food & Dining"] instead)
 
 TIME PERIOD OPTIONS:
 
@@ -460,24 +466,37 @@ EXAMPLE BUDGET FLOWS:
 User: "I want to budget for coffee"
 You: "I'll help you create a coffee budget. How much would you like to spend, and should this track the last 7 days or reset weekly?"
 User: "Last 7 days, $100"
-You: [Call upsert-budget with:
+You: [Call create-budget with:
   time_period: "rolling",
   custom_period_days: 7,
   budget_amount: 100,
-  filter_prompt: "Include coffee shops like Starbucks, Dunkin, Peet's Coffee, and any merchant with 'coffee', 'espresso', or 'cafe' in the name"]
+  merchant_patterns: ["starbucks", "dunkin", "peet", "coffee", "espresso", "cafe"]]
 
-User: "Create a grocery budget for $400 per month starting on the 15th"
-You: [Call upsert-budget with:
+User: "Create a grocery budget for $400 per month starting on the 15th, but only on my credit card"
+You: [Call create-budget with:
   time_period: "monthly",
   fixed_period_start_date: "2025-01-15",
   budget_amount: 400,
-  filter_prompt: "Include grocery stores like Whole Foods, Safeway, Trader Joe's, Kroger, and any transaction categorized as 'Groceries' or 'Supermarkets'"]
+  categories: ["Groceries"],
+  account_ids: [the credit card's account ID]]
+
+User: "Budget $200 a month for big dining-out nights with friends"
+You: [Call create-budget with:
+  time_period: "monthly",
+  fixed_period_start_date: "2025-01-01",
+  budget_amount: 200,
+  categories: ["Food & Dining"],
+  min_amount: 50,
+  filter_prompt: "Only restaurant and bar visits, not grocery or delivery orders"]
 
 User: "Budget $1000 every two weeks starting this Friday"
-You: [Calculate next Friday's date, then call upsert-budget with:
+You: [Calculate next Friday's date, then call create-budget with:
   time_period: "biweekly",
   fixed_period_start_date: "2025-10-18",
   budget_amount: 1000,
-  filter_prompt: (based on user's spending category)]
+  plus criteria for the user's spending category]
+
+To change what an existing budget matches, call update-budget-rules with the criteria to replace;
+[] or null clears a criterion.
   `.trim();
 }
@@ -12,6 +12,13 @@ import {
   GetBudgetsOutputSchema
 } from "./get-budgets.js";
 import { deleteBudgetHandler } from "./delete-budget.js";
+import {
+  getBudgetHistoryHandler,
+  GetBudgetHistoryArgsSchema,
+  GetBudgetHistoryOutputSchema,
+} from "./get-budget-history.js";
+import { ROLLOVER_MODES } from "../../utils/budget-rollover.js";
+import { MAX_ALERT_THRESHOLD } from "../../utils/budget-alerts.js";
 import { logToolEvent } from "../../utils/logger.js";
 import { WIDGET_META } from "../../utils/widget-metadata.js";
 import type { ToolDefinition } from "../types.js";
@@ -46,17 +53,69 @@ export function getBudgetTools(): ToolDefinition[] {
         return getBudgetsHandler(userId, args);
       },
     },
+    {
+      name: "get-budget-history",
+      description:
+        "Show how a budget did over its last N periods (default 6) plus the current one: spent, limit, percentage and under/near/over status per period, using the same period boundaries as get-budgets. Use for questions like 'how did I do on groceries the last six months?'. Returns a chart in the budget widget.",
+      inputSchema: GetBudgetHistoryArgsSchema,
+      outputSchema: GetBudgetHistoryOutputSchema,
+      options: {
+        readOnlyHint: true,
+        securitySchemes: [{ type: "oauth2" }],
+        // Widget: Bar chart of spending per period against the limit
+        _meta: WIDGET_META.budgetList,
+      },
+      handler: async (args, { authInfo }) => {
+        const userId = authInfo?.extra?.userId as string | undefined;
+        if (!userId) {
+          throw new Error("User authentication required");
+        }
+
+        return getBudgetHistoryHandler(userId, args);
+      },
+    },
     {
       name: "create-budget",
       description:
-        "Create a new budget after calling get-budgets first. Two budget types: ROLLING (last N days, continuously rolling) or FIXED (calendar-based with custom start date). For rolling budgets: provide time_period='rolling' and custom_period_days. For fixed budgets: provide time_period (weekly/biweekly/monthly/quarterly/yearly) and fixed_period_start_date in YYYY-MM-DD format.",
+        "Create a new budget after calling get-budgets first. Two budget types: ROLLING (last N days, continuously rolling) or FIXED (calendar-based with custom start date). For rolling budgets: provide time_period='rolling' and custom_period_days. For fixed budgets: provide time_period (weekly/biweekly/monthly/quarterly/yearly) and fixed_period_start_date in YYYY-MM-DD format. Fixed budgets can roll unspent and/or overspent amounts into the next period with rollover_mode. Alerts are raised at 80% and 100% of the limit unless alert_thresholds says otherwise. To budget tagged transactions (e.g. 'vacation-2026'), pass tag instead of filter_prompt. Prefer structured criteria (categories, account_ids, merchant_patterns, min_amount/max_amount, tags) when they describe the budget: they are matched instantly without AI, and filter_prompt can be added to refine their matches.",
       inputSchema: {
         title: z
           .string()
           .describe("Display name for the budget (e.g., 'Coffee Shop Budget')"),
         filter_prompt: z
           .string()
-          .describe("Natural language filter criteria describing which transactions to include"),
+          .optional()
+          .describe("Natural language filter criteria describing which transactions to include. Required unless tag or structured criteria are given; alongside criteria it refines their matches"),
+        tag: z
+          .string()
+          .optional()
+          .describe("Optional: count every transaction carrying this tag (from tag-transactions) instead of matching with filter_prompt"),
+        categories: z
+          .array(z.string())
+          .optional()
+          .describe("Optional criterion: transaction categories to include (subcategories included), e.g. ['Food & Dining']"),
+        account_ids: z
+          .array(z.string())
+          .optional()
+          .describe("Optional criterion: only transactions from these account IDs"),
+        merchant_patterns: z
+          .array(z.string())
+          .optional()
+          .describe("Optional criterion: merchant/description contains any of these (case-insensitive), e.g. ['starbucks', 'peet']"),
+        min_amount: z
+          .number()
+          .nonnegative()
+          .optional()
+          .describe("Optional criterion: smallest transaction amount to include, in dollars"),
+        max_amount: z
+          .number()
+          .nonnegative()
+          .optional()
+          .describe("Optional criterion: largest transaction amount to include, in dollars"),
+        tags: z
+          .array(z.string())
+          .optional()
+          .describe("Optional criterion: transactions carrying any of these tags"),
         budget_amount: z
           .number()
           .positive()
@@ -74,6 +133,23 @@ export function getBudgetTools(): ToolDefinition[] {
           .string()
           .optional()
           .describe("Required for fixed budgets: anchor date in YYYY-MM-DD format (e.g., '2025-01-15' for monthly budget starting on 15th)"),
+        rollover_mode: z
+          .enum(ROLLOVER_MODES)
+          .optional()
+          .describe("Optional, fixed budgets only: carry unspent ('surplus'), overspent ('deficit') or both amounts into the next period (default: 'none')"),
+        rollover_cap: z
+          .number()
+          .positive()
+          .optional()
+          .describe("Optional: largest amount carried into a period either way (default: uncapped)"),
+        rollover_start_date: z
+          .string()
+          .optional()
+          .describe("Optional: a YYYY-MM-DD date in the first period that carries over (default: the current period, so the first carryover shows up next period)"),
+        alert_thresholds: z
+          .array(z.number().int().min(1).max(MAX_ALERT_THRESHOLD))
+          .optional()
+          .describe("Optional: percentages of the limit that raise an alert when crossed (default: [80, 100]); [] turns alerts off"),
       },
       options: {
         securitySchemes: [{ type: "oauth2" }],
@@ -92,7 +168,7 @@ export function getBudgetTools(): ToolDefinition[] {
     {
       name: "update-budget-rules",
       description:
-        "Update an existing budget's configuration (title, filter rules, amount, or time period). Call get-budgets first to get the budget ID. All parameters except 'id' are optional - only provide the fields you want to change. After updating, transactions will be re-matched against the new rules.",
+        "Update an existing budget's configuration (title, filter rules, amount, time period, rollover, or alert thresholds). Call get-budgets first to get the budget ID. All parameters except 'id' are optional - only provide the fields you want to change. After updating, transactions will be re-matched against the new rules (instantly for tag and criteria budgets without a filter_prompt).",
       inputSchema: {
         id: z
           .string()
@@ -104,7 +180,39 @@ export function getBudgetTools(): ToolDefinition[] {
         filter_prompt: z
           .string()
           .optional()
-          .describe("Optional: Update natural language filter criteria"),
+          .describe("Optional: Update natural language filter criteria; an empty string removes it from a budget with structured criteria"),
+        tag: z
+          .string()
+          .optional()
+          .describe("Optional: Count transactions carrying this tag instead of using filter_prompt; an empty string goes back to filter_prompt"),
+        categories: z
+          .array(z.string())
+          .optional()
+          .describe("Optional: Replace the category criterion (subcategories included); [] removes it"),
+        account_ids: z
+          .array(z.string())
+          .optional()
+          .describe("Optional: Replace the account criterion; [] removes it"),
+        merchant_patterns: z
+          .array(z.string())
+          .optional()
+          .describe("Optional: Replace the merchant criterion (case-insensitive contains); [] removes it"),
+        min_amount: z
+          .number()
+          .nonnegative()
+          .nullable()
+          .optional()
+          .describe("Optional: Smallest transaction amount to include; null removes it"),
+        max_amount: z
+          .number()
+          .nonnegative()
+          .nullable()
+          .optional()
+          .describe("Optional: Largest transaction amount to include; null removes it"),
+        tags: z
+          .array(z.string())
+          .optional()
+          .describe("Optional: Replace the tags criterion (any of these tags); [] removes it"),
         budget_amount: z
           .number()
           .positive()
@@ -124,6 +232,24 @@ export function getBudgetTools(): ToolDefinition[] {
           .string()
           .optional()
           .describe("Optional: Update anchor date for fixed budgets (YYYY-MM-DD)"),
+        rollover_mode: z
+          .enum(ROLLOVER_MODES)
+          .optional()
+          .describe("Optional: Carry unspent ('surplus'), overspent ('deficit') or both amounts into the next period, or 'none' to stop (fixed budgets only)"),
+        rollover_cap: z
+          .number()
+          .positive()
+          .nullable()
+          .optional()
+          .describe("Optional: Largest amount carried into a period either way; null removes the cap"),
+        rollover_start_date: z
+          .string()
+          .optional()
+          .describe("Optional: A YYYY-MM-DD date in the first period that carries over (default when turning rollover on: the current period)"),
+        alert_thresholds: z
+          .array(z.number().int().min(1).max(MAX_ALERT_THRESHOLD))
+          .optional()
+          .describe("Optional: Percentages of the limit that raise an alert when crossed; [] turns alerts off"),
       },
       options: {
         securitySchemes: [{ type: "oauth2" }],
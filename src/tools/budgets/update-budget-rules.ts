@@ -3,17 +3,52 @@ import {
   getBudgetById,
   updateBudget,
 } from "../../storage/budgets/budgets.js";
-import { startBudgetProcessing } from "../../utils/budget-processing-worker.js";
+import {
+  formatBudgetJobNote,
+  processBudgetNow,
+  startBudgetProcessing,
+} from "../../utils/budget-processing-worker.js";
+import { normalizeTag } from "../../utils/transaction-tags.js";
+import {
+  describeRollover,
+  getDefaultRolloverStartDate,
+  ROLLOVER_MODES,
+} from "../../utils/budget-rollover.js";
+import {
+  describeAlertThresholds,
+  MAX_ALERT_THRESHOLD,
+  normalizeAlertThresholds,
+} from "../../utils/budget-alerts.js";
+import {
+  applyBudgetCriteriaArgs,
+  budgetNeedsClaude,
+  describeBudgetFilter,
+  getBudgetCriteria,
+  hasBudgetCriteria,
+  toBudgetCriteriaColumns,
+} from "../../utils/budget-criteria.js";
+import { getBudgetHistory } from "../../services/budget-spending-service.js";
 
 // Input schema for update-budget-rules tool
 export const UpdateBudgetRulesArgsSchema = z.object({
   id: z.string().describe("Budget ID to update"),
   title: z.string().optional().describe("Optional: Update display name for the budget"),
-  filter_prompt: z.string().optional().describe("Optional: Update natural language filter criteria"),
+  filter_prompt: z.string().optional().describe("Optional: Update natural language filter criteria; an empty string removes it from a budget with structured criteria"),
+  tag: z.string().optional().describe("Optional: Count transactions carrying this tag instead of using filter_prompt; an empty string goes back to filter_prompt"),
+  categories: z.array(z.string()).optional().describe("Optional: Replace the category criterion (subcategories included); [] removes it"),
+  account_ids: z.array(z.string()).optional().describe("Optional: Replace the account criterion; [] removes it"),
+  merchant_patterns: z.array(z.string()).optional().describe("Optional: Replace the merchant criterion (case-insensitive contains); [] removes it"),
+  min_amount: z.number().nonnegative().nullable().optional().describe("Optional: Smallest transaction amount to include; null removes it"),
+  max_amount: z.number().nonnegative().nullable().optional().describe("Optional: Largest transaction amount to include; null removes it"),
+  tags: z.array(z.string()).optional().describe("Optional: Replace the tags criterion (any of these tags); [] removes it"),
   budget_amount: z.number().positive().optional().describe("Optional: Update dollar amount limit"),
   time_period: z.enum(["rolling", "weekly", "biweekly", "monthly", "quarterly", "yearly"]).optional().describe("Optional: Update budget type"),
   custom_period_days: z.number().int().positive().optional().describe("Optional: Update number of days for rolling budgets"),
   fixed_period_start_date: z.string().optional().describe("Optional: Update anchor date for fixed budgets (YYYY-MM-DD)"),
+  rollover_mode: z.enum(ROLLOVER_MODES).optional().describe("Optional: Carry unspent ('surplus'), overspent ('deficit') or both amounts into the next period, or 'none' to stop (fixed budgets only)"),
+  rollover_cap: z.number().positive().nullable().optional().describe("Optional: Largest amount carried into a period either way; null removes the cap"),
+  rollover_start_date: z.string().optional().describe("Optional: A YYYY-MM-DD date in the first period that carries over (default when turning rollover on: the current period)"),
+  alert_thresholds: z.array(z.number().int().min(1).max(MAX_ALERT_THRESHOLD)).optional().describe("Optional: Percentages of the limit that raise an alert when crossed; [] turns alerts off"),
 });
 
 export type UpdateBudgetRulesArgs = z.infer<typeof UpdateBudgetRulesArgsSchema>;
@@ -40,16 +75,70 @@ export async function updateBudgetRulesHandler(
     };
   }
 
+  const tag = args.tag ? normalizeTag(args.tag) : null;
+  if (args.tag && !tag) {
+    return {
+      content: [
+        {
+          type: "text" as const,
+          text: `❌ **Error:** "${args.tag}" is not a valid tag. Tags use letters, numbers, hyphens and underscores.`,
+        },
+      ],
+    };
+  }
+
+  const criteriaResult = applyBudgetCriteriaArgs(getBudgetCriteria(existingBudget), args);
+  if ("error" in criteriaResult) {
+    return {
+      content: [
+        {
+          type: "text" as const,
+          text: `❌ **Error:** ${criteriaResult.error}`,
+        },
+      ],
+    };
+  }
+  const criteria = criteriaResult.criteria;
+
   // Merge updates with existing values
+  const updatedTag = args.tag !== undefined ? tag : existingBudget.tag;
+  const updatedPrompt = args.filter_prompt !== undefined ? args.filter_prompt.trim() || null : existingBudget.filter_prompt;
   const updatedFields = {
+    tag: updatedTag,
     title: args.title ?? existingBudget.title,
-    filter_prompt: args.filter_prompt ?? existingBudget.filter_prompt,
+    filter_prompt: updatedPrompt ?? (updatedTag ? `Transactions tagged "${updatedTag}"` : null),
     budget_amount: args.budget_amount ?? existingBudget.budget_amount,
     time_period: args.time_period ?? existingBudget.time_period,
     custom_period_days: args.custom_period_days !== undefined ? args.custom_period_days : existingBudget.custom_period_days,
     fixed_period_start_date: args.fixed_period_start_date !== undefined ? args.fixed_period_start_date : existingBudget.fixed_period_start_date,
+    rollover_mode: args.rollover_mode ?? existingBudget.rollover_mode,
+    rollover_cap: args.rollover_cap !== undefined ? args.rollover_cap : existingBudget.rollover_cap,
+    rollover_start_date: args.rollover_start_date ?? existingBudget.rollover_start_date,
+    alert_thresholds: args.alert_thresholds ? normalizeAlertThresholds(args.alert_thresholds) : existingBudget.alert_thresholds,
   };
 
+  if (updatedFields.tag && hasBudgetCriteria(criteria)) {
+    return {
+      content: [
+        {
+          type: "text" as const,
+          text: "❌ **Error:** A `tag` budget can't have other criteria. Use `tags` to combine tags with categories, accounts, merchants or amounts, or pass `tag: \"\"` to stop using the tag",
+        },
+      ],
+    };
+  }
+
+  if (!updatedFields.filter_prompt && !hasBudgetCriteria(criteria)) {
+    return {
+      content: [
+        {
+          type: "text" as const,
+          text: "❌ **Error:** A budget needs a `filter_prompt`, a `tag` or structured criteria to match transactions with",
+        },
+      ],
+    };
+  }
+
   // Validate rolling budgets have custom_period_days
   if (updatedFields.time_period === "rolling" && !updatedFields.custom_period_days) {
     return {
@@ -90,27 +179,121 @@ export async function updateBudgetRulesHandler(
     }
   }
 
+  // Validate rollover (rolling budgets have no period boundary to carry across)
+  if (updatedFields.rollover_mode !== "none" && updatedFields.time_period === "rolling") {
+    return {
+      content: [
+        {
+          type: "text" as const,
+          text: "❌ **Error:** Rollover needs a fixed budget period (weekly/biweekly/monthly/quarterly/yearly); rolling budgets have no period to carry over from. Set `rollover_mode` to 'none' to switch to a rolling budget",
+        },
+      ],
+    };
+  }
+
+  if (args.rollover_start_date && !/^\d{4}-\d{2}-\d{2}$/.test(args.rollover_start_date)) {
+    return {
+      content: [
+        {
+          type: "text" as const,
+          text: "❌ **Error:** `rollover_start_date` must be in YYYY-MM-DD format (e.g., '2025-01-01')",
+        },
+      ],
+    };
+  }
+
+  const alertThresholds = updatedFields.alert_thresholds;
+  if (alertThresholds === null) {
+    return {
+      content: [
+        {
+          type: "text" as const,
+          text: `❌ **Error:** \`alert_thresholds\` must be whole percentages between 1 and ${MAX_ALERT_THRESHOLD} (e.g., [80, 100])`,
+        },
+      ],
+    };
+  }
+
+  // Turning rollover on starts it from the current period unless a start date is given
+  if (updatedFields.rollover_mode !== "none" && existingBudget.rollover_mode === "none" && !args.rollover_start_date) {
+    updatedFields.rollover_start_date = getDefaultRolloverStartDate(
+      updatedFields.time_period,
+      updatedFields.fixed_period_start_date
+    );
+  }
+
   // UPDATE existing budget
   const updated = await updateBudget(userId, args.id, {
     title: updatedFields.title,
     filter_prompt: updatedFields.filter_prompt,
+    tag: updatedFields.tag,
+    ...toBudgetCriteriaColumns(criteria),
     budget_amount: updatedFields.budget_amount,
     time_period: updatedFields.time_period,
     custom_period_days: updatedFields.custom_period_days,
     fixed_period_start_date: updatedFields.fixed_period_start_date,
+    rollover_mode: updatedFields.rollover_mode,
+    rollover_cap: updatedFields.rollover_cap,
+    rollover_start_date: updatedFields.rollover_start_date,
+    alert_thresholds: alertThresholds,
     processing_status: "processing",
   });
 
+  const summary = `**${updated.title}**\n- Amount: $${updated.budget_amount}\n- Period: ${updated.time_period}\n${updated.rollover_mode !== "none" ? `- Rollover: ${describeRollover(updated.rollover_mode, updated.rollover_cap)} from ${updated.rollover_start_date}\n` : ""}- Alerts: ${describeAlertThresholds(updated.alert_thresholds)}\n${describeBudgetFilter(updated).map((line) => `- ${line}\n`).join("")}`;
+
+  // Tag and criteria budgets are matched locally, so they're ready before we reply
+  if (!budgetNeedsClaude(updated)) {
+    const matchingCount = await processBudgetNow(userId, updated);
+    const [current] = await getBudgetHistory(userId, updated, 0, true);
+
+    console.log(`[UPDATE-BUDGET-RULES] Updated budget ${updated.id}, ${matchingCount} transactions matched`);
+
+    return {
+      content: [
+        {
+          type: "text" as const,
+          text: `✅ **Budget Updated**\n\n${summary}\n✅ **Ready** - matched ${matchingCount} transactions by the budget's criteria.\n\nThis period: $${current.spent.toFixed(2)} of $${current.limit.toFixed(2)} spent (${current.percentage}%).`,
+        },
+      ],
+      structuredContent: {
+        budgets: [
+          {
+            id: updated.id,
+            title: updated.title,
+            amount: updated.budget_amount,
+            effectiveAmount: current.limit,
+            period: updated.time_period,
+            customPeriodDays: updated.custom_period_days,
+            tag: updated.tag,
+            spent: current.spent,
+            remaining: current.remaining,
+            percentage: current.percentage,
+            status: current.status,
+            processingStatus: "ready",
+            dateRange: { start: current.start, end: current.end },
+            transactionCount: current.transactionCount,
+          },
+        ],
+      },
+      _meta: {
+        "openai/outputTemplate": "ui://widget/budget-list.html",
+        "openai/widgetAccessible": true,
+        "openai/resultCanProduceWidget": true,
+      },
+      budgetId: updated.id,
+    };
+  }
+
   console.log(`[UPDATE-BUDGET-RULES] Updated budget ${updated.id}, starting async processing`);
 
   // Start background processing (non-blocking)
-  startBudgetProcessing(userId, updated);
+  const job = await startBudgetProcessing(userId, updated);
 
   return {
     content: [
       {
         type: "text" as const,
-        text: `✅ **Budget Updated**\n\n**${updated.title}**\n- Amount: $${updated.budget_amount}\n- Period: ${updated.time_period}\n- Filter: ${updated.filter_prompt.substring(0, 100)}${updated.filter_prompt.length > 100 ? "..." : ""}\n\n⏳ **Processing in Progress**\n\nYour budget is being re-analyzed in the background. This typically takes **3-5 minutes** to match all your transactions.\n\nCheck back in a few minutes by saying "Show my budgets" to see the results!`,
+        text: `✅ **Budget Updated**\n\n${summary}\n⏳ **Processing in Progress**\n\nYour budget is being re-analyzed in the background. This typically takes **3-5 minutes** to match all your transactions.\n\nCheck back in a few minutes by saying "Show my budgets" to see the results!${formatBudgetJobNote(job)}`,
       },
     ],
     structuredContent: {
@@ -5,7 +5,7 @@ import {
   createBudget,
   updateBudget,
 } from "../../storage/budgets/budgets.js";
-import { startBudgetProcessing } from "../../utils/budget-processing-worker.js";
+import { formatBudgetJobNote, startBudgetProcessing } from "../../utils/budget-processing-worker.js";
 
 // Input schema for upsert-budget tool
 export const UpsertBudgetArgsSchema = z.object({
@@ -87,13 +87,13 @@ export async function upsertBudgetHandler(
       console.log(`[UPSERT-BUDGET] Updated budget ${updated.id}, starting async processing`);
 
       // Start background processing (non-blocking)
-      startBudgetProcessing(userId, updated);
+      const job = await startBudgetProcessing(userId, updated);
 
       return {
         content: [
           {
             type: "text" as const,
-            text: `✅ **Budget Updated**\n\n**${updated.title}**\n- Amount: $${updated.budget_amount}\n- Period: ${updated.time_period}\n- Filter: ${updated.filter_prompt.substring(0, 100)}${updated.filter_prompt.length > 100 ? "..." : ""}\n\n⏳ **Processing in Progress**\n\nYour budget is being analyzed in the background. This typically takes **3-5 minutes** to match all your transactions.\n\nCheck back in a few minutes by saying "Show my budgets" to see the results!`,
+            text: `✅ **Budget Updated**\n\n**${updated.title}**\n- Amount: $${updated.budget_amount}\n- Period: ${updated.time_period}\n- Filter: ${(updated.filter_prompt ?? "").substring(0, 100)}${(updated.filter_prompt ?? "").length > 100 ? "..." : ""}\n\n⏳ **Processing in Progress**\n\nYour budget is being analyzed in the background. This typically takes **3-5 minutes** to match all your transactions.\n\nCheck back in a few minutes by saying "Show my budgets" to see the results!${formatBudgetJobNote(job)}`,
           },
         ],
         structuredContent: {
@@ -140,13 +140,13 @@ export async function upsertBudgetHandler(
   console.log(`[UPSERT-BUDGET] Created budget ${created.id}, starting async processing`);
 
   // Start background processing (non-blocking)
-  startBudgetProcessing(userId, created);
+  const job = await startBudgetProcessing(userId, created);
 
   return {
     content: [
       {
         type: "text" as const,
-        text: `✅ **Budget Created**\n\n**${created.title}**\n- Amount: $${created.budget_amount}\n- Period: ${created.time_period}\n- Filter: ${created.filter_prompt.substring(0, 100)}${created.filter_prompt.length > 100 ? "..." : ""}\n\n⏳ **Processing in Progress**\n\nYour budget is being analyzed in the background. This typically takes **3-5 minutes** to match all your transactions.\n\nCheck back in a few minutes by saying "Show my budgets" to see the results!`,
+        text: `✅ **Budget Created**\n\n**${created.title}**\n- Amount: $${created.budget_amount}\n- Period: ${created.time_period}\n- Filter: ${(created.filter_prompt ?? "").substring(0, 100)}${(created.filter_prompt ?? "").length > 100 ? "..." : ""}\n\n⏳ **Processing in Progress**\n\nYour budget is being analyzed in the background. This typically takes **3-5 minutes** to match all your transactions.\n\nCheck back in a few minutes by saying "Show my budgets" to see the results!${formatBudgetJobNote(job)}`,
       },
     ],
     structuredContent: {
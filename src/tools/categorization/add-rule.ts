@@ -0,0 +1,123 @@
+import { z } from "zod";
+import type { SupabaseClient } from "@supabase/supabase-js";
+import type { Database } from "../../storage/database.types.js";
+import { createCategorizationRule } from "../../storage/categorization/categorization-rules.js";
+import { applyRuleToExistingTransactions } from "../../services/categorization-service.js";
+import { validateCategorizationRule } from "../../utils/categorization-rules.js";
+import { logToolEvent } from "../../utils/logger.js";
+
+// Input schema for add-categorization-rule tool
+export const AddCategorizationRuleArgsSchema = {
+  category: z
+    .string()
+    .describe("Category to assign when the rule matches (e.g., 'Coffee', 'Business', 'Groceries')"),
+  merchant_pattern: z
+    .string()
+    .optional()
+    .describe("Text matched against the transaction description, case-insensitive (e.g., 'starbucks')"),
+  merchant_match_type: z
+    .enum(["contains", "regex"])
+    .optional()
+    .describe("How merchant_pattern is matched: 'contains' (default) or 'regex' (case-insensitive; no backreferences or nested repetition like (a+)+)"),
+  min_amount: z
+    .number()
+    .optional()
+    .describe("Only match transactions whose absolute amount is at least this many dollars"),
+  max_amount: z
+    .number()
+    .optional()
+    .describe("Only match transactions whose absolute amount is at most this many dollars"),
+  account_ids: z
+    .array(z.string())
+    .optional()
+    .describe("Only match transactions from these accounts (get account IDs from get-account-status)"),
+  plaid_category: z
+    .string()
+    .optional()
+    .describe("Only match transactions with this Plaid category, primary or detailed (e.g., 'FOOD_AND_DRINK', 'FOOD_AND_DRINK_COFFEE')"),
+  priority: z
+    .number()
+    .int()
+    .optional()
+    .describe("Higher priority rules are checked first (default: 0). Among equal priorities the oldest rule wins."),
+};
+
+export type AddCategorizationRuleArgs = {
+  category: string;
+  merchant_pattern?: string;
+  merchant_match_type?: "contains" | "regex";
+  min_amount?: number;
+  max_amount?: number;
+  account_ids?: string[];
+  plaid_category?: string;
+  priority?: number;
+};
+
+/**
+ * Add Categorization Rule Tool
+ * Saves a deterministic rule and applies it to stored transactions right away
+ */
+export async function addCategorizationRuleHandler(
+  userId: string,
+  args: AddCategorizationRuleArgs,
+  supabaseClient: SupabaseClient<Database>
+) {
+  const rule = {
+    merchantPattern: args.merchant_pattern?.trim() || null,
+    merchantMatchType: args.merchant_match_type ?? ("contains" as const),
+    minAmount: args.min_amount ?? null,
+    maxAmount: args.max_amount ?? null,
+    accountIds: args.account_ids && args.account_ids.length > 0 ? args.account_ids : null,
+    plaidCategory: args.plaid_category?.trim() || null,
+    category: args.category.trim(),
+    priority: args.priority ?? 0,
+  };
+
+  const validationError = validateCategorizationRule(rule);
+  if (validationError) {
+    return {
+      content: [
+        {
+          type: "text" as const,
+          text: `⚠️ **Invalid Rule**\n\n${validationError}`,
+        },
+      ],
+    };
+  }
+
+  logToolEvent("add-categorization-rule", "start", { userId, category: rule.category });
+
+  const created = await createCategorizationRule(userId, rule);
+  const updatedCount = await applyRuleToExistingTransactions(userId, created.id, supabaseClient);
+
+  logToolEvent("add-categorization-rule", "complete", { userId, ruleId: created.id, updatedCount });
+
+  const conditions: string[] = [];
+  if (created.merchantPattern) {
+    conditions.push(
+      created.merchantMatchType === "regex"
+        ? `description matches /${created.merchantPattern}/i`
+        : `description contains "${created.merchantPattern}"`
+    );
+  }
+  if (created.minAmount !== null) conditions.push(`amount ≥ $${created.minAmount}`);
+  if (created.maxAmount !== null) conditions.push(`amount ≤ $${created.maxAmount}`);
+  if (created.accountIds) conditions.push(`account in ${created.accountIds.join(", ")}`);
+  if (created.plaidCategory) conditions.push(`Plaid category is ${created.plaidCategory}`);
+
+  let responseText = `✅ **Categorization Rule Added**\n\n`;
+  responseText += `**When:** ${conditions.join(" AND ")}\n`;
+  responseText += `**Category:** ${created.category}\n`;
+  responseText += `**Rule ID:** ${created.id}\n\n`;
+  responseText += `Updated ${updatedCount} existing transaction${updatedCount === 1 ? "" : "s"}. `;
+  responseText += `New transactions that match are categorized by this rule during sync, without AI.`;
+
+  return {
+    content: [
+      {
+        type: "text" as const,
+        text: responseText,
+      },
+    ],
+  };
+}
@@ -0,0 +1,88 @@
+import { z } from "zod";
+import type { SupabaseClient } from "@supabase/supabase-js";
+import type { Database } from "../../storage/database.types.js";
+import { createUserCategory } from "../../services/category-taxonomy-service.js";
+import { logToolEvent } from "../../utils/logger.js";
+
+// Input schema for create-category tool
+export const CreateCategoryArgsSchema = {
+  name: z
+    .string()
+    .describe("Name of the new category (e.g., 'Kids', 'Pets', 'Coffee')"),
+  parent: z
+    .string()
+    .optional()
+    .describe("Existing top-level category to file this under as a subcategory (e.g., 'Food & Dining' for 'Coffee')"),
+  description: z
+    .string()
+    .optional()
+    .describe("Examples of what belongs here, shown to the AI when categorizing (e.g., 'daycare, school supplies, toys')"),
+  color: z
+    .string()
+    .optional()
+    .describe("Display color as a hex value (e.g., '#3D85C6')"),
+  icon: z
+    .string()
+    .optional()
+    .describe("Display icon, usually an emoji (e.g., '☕')"),
+  exclude_from_spending: z
+    .boolean()
+    .optional()
+    .describe("Leave this category out of spending totals, like Income and Transfer (default: false)"),
+};
+
+export type CreateCategoryArgs = {
+  name: string;
+  parent?: string;
+  description?: string;
+  color?: string;
+  icon?: string;
+  exclude_from_spending?: boolean;
+};
+
+/**
+ * Create Category Tool
+ * Adds a category or subcategory that new AI categorizations can use
+ */
+export async function createCategoryHandler(
+  userId: string,
+  args: CreateCategoryArgs,
+  supabaseClient: SupabaseClient<Database>
+) {
+  logToolEvent("create-category", "start", { userId, name: args.name, parent: args.parent });
+
+  const category = await createUserCategory(
+    userId,
+    {
+      name: args.name,
+      parentName: args.parent,
+      description: args.description,
+      color: args.color,
+      icon: args.icon,
+      excludeFromSpending: args.exclude_from_spending,
+    },
+    supabaseClient
+  );
+
+  logToolEvent("create-category", "complete", { userId, categoryId: category.id });
+
+  let responseText = `✅ **Category Created**\n\n`;
+  responseText += `**Name:** ${category.icon ? `${category.icon} ` : ""}${category.name}\n`;
+  if (args.parent) {
+    responseText += `**Under:** ${args.parent}\n`;
+  }
+  if (category.excludeFromSpending) {
+    responseText += `**Excluded from spending totals**\n`;
+  }
+  responseText += `\nNew transactions can now be categorized as ${category.name}. `;
+  responseText += `To move existing transactions, use update-categorization-rules (recategorizes everything) or set-transaction-category.`;
+
+  return {
+    content: [
+      {
+        type: "text" as const,
+        text: responseText,
+      },
+    ],
+  };
+}
@@ -0,0 +1,23 @@
+import { deleteCategorizationRule } from "../../storage/categorization/categorization-rules.js";
+import { logToolEvent } from "../../utils/logger.js";
+
+/**
+ * Delete Categorization Rule Tool
+ * Removes a structured rule; transactions it already categorized keep their category
+ */
+export async function deleteCategorizationRuleHandler(userId: string, ruleId: string) {
+  const deleted = await deleteCategorizationRule(userId, ruleId);
+
+  logToolEvent("delete-categorization-rule", "complete", { userId, ruleId, deleted });
+
+  return {
+    content: [
+      {
+        type: "text" as const,
+        text: deleted
+          ? `✅ **Rule Deleted**\n\nRule ${ruleId} will no longer be applied. Transactions it already categorized keep their current category until you recategorize with update-categorization-rules.`
+          : `⚠️ No categorization rule found with ID ${ruleId}. Use get-categorization-rules to see your rules.`,
+      },
+    ],
+  };
+}
@@ -0,0 +1,83 @@
+import { z } from "zod";
+import { getCategorizationRules } from "../../storage/categorization/categorization-rules.js";
+import { getCustomRules } from "../../storage/categorization/rules.js";
+import { sortCategorizationRules } from "../../utils/categorization-rules.js";
+import { logToolEvent } from "../../utils/logger.js";
+
+// Output schema for get-categorization-rules tool (using Zod for type safety and validation)
+export const GetCategorizationRulesOutputSchema = {
+  rules: z.array(
+    z.object({
+      id: z.string().describe("Rule ID (pass to delete-categorization-rule)"),
+      category: z.string().describe("Category assigned when the rule matches"),
+      merchant_pattern: z.string().nullable().describe("Text or regex matched against the description"),
+      merchant_match_type: z.enum(["contains", "regex"]).describe("How merchant_pattern is matched"),
+      min_amount: z.number().nullable().describe("Inclusive lower bound on the absolute amount"),
+      max_amount: z.number().nullable().describe("Inclusive upper bound on the absolute amount"),
+      account_ids: z.array(z.string()).nullable().describe("Accounts the rule is limited to"),
+      plaid_category: z.string().nullable().describe("Plaid category the rule is limited to"),
+      priority: z.number().describe("Higher priority rules are checked first"),
+    })
+  ).describe("Structured rules in evaluation order; the first match wins"),
+  custom_rules: z.string().nullable().describe("Free-text rules given to the AI for transactions no structured rule matches"),
+};
+
+/**
+ * Get Categorization Rules Tool
+ * Lists structured rules in the order they're evaluated, plus the free-text AI rules
+ */
+export async function getCategorizationRulesHandler(userId: string) {
+  logToolEvent("get-categorization-rules", "start", { userId });
+
+  const [storedRules, customRules] = await Promise.all([
+    getCategorizationRules(userId),
+    getCustomRules(userId),
+  ]);
+  const rules = sortCategorizationRules(storedRules);
+
+  let responseText = `# Categorization Rules\n\n`;
+  if (rules.length === 0) {
+    responseText += `No structured rules yet. Use add-categorization-rule to always put a merchant in a category.\n\n`;
+  } else {
+    responseText += `Checked in this order before any AI categorization; the first match wins.\n\n`;
+    responseText += `| # | Merchant | Amount | Plaid Category | Category | Rule ID |\n`;
+    responseText += `|---|----------|--------|----------------|----------|---------|\n`;
+    rules.forEach((rule, index) => {
+      const merchant = rule.merchantPattern
+        ? rule.merchantMatchType === "regex" ? `/${rule.merchantPattern}/` : rule.merchantPattern
+        : "any";
+      const amount =
+        rule.minAmount === null && rule.maxAmount === null
+          ? "any"
+          : `${rule.minAmount ?? 0} - ${rule.maxAmount ?? "∞"}`;
+      responseText += `| ${index + 1} | ${merchant} | ${amount} | ${rule.plaidCategory || "any"} | ${rule.category} | ${rule.id} |\n`;
+    });
+    responseText += `\n`;
+  }
+  responseText += `**AI Rules:** ${customRules || "None (using defaults)"}`;
+
+  logToolEvent("get-categorization-rules", "complete", { userId, ruleCount: rules.length });
+
+  return {
+    content: [
+      {
+        type: "text" as const,
+        text: responseText.trim(),
+      },
+    ],
+    structuredContent: {
+      rules: rules.map((rule) => ({
+        id: rule.id,
+        category: rule.category,
+        merchant_pattern: rule.merchantPattern,
+        merchant_match_type: rule.merchantMatchType,
+        min_amount: rule.minAmount,
+        max_amount: rule.maxAmount,
+        account_ids: rule.accountIds,
+        plaid_category: rule.plaidCategory,
+        priority: rule.priority,
+      })),
+      custom_rules: customRules,
+    },
+  };
+}
@@ -1,10 +1,17 @@
 /**
  * Categorization Tools Registry
- * AI-powered transaction categorization rules
+ * Structured and AI-powered transaction categorization rules
  */
 
 import { z } from "zod";
 import { updateCategorizationRulesHandler } from "./update-rules.js";
+import { addCategorizationRuleHandler, AddCategorizationRuleArgsSchema } from "./add-rule.js";
+import { getCategorizationRulesHandler, GetCategorizationRulesOutputSchema } from "./get-rules.js";
+import { deleteCategorizationRuleHandler } from "./delete-rule.js";
+import { listCategoriesHandler, ListCategoriesOutputSchema } from "./list-categories.js";
+import { createCategoryHandler, CreateCategoryArgsSchema } from "./create-category.js";
+import { renameCategoryHandler, RenameCategoryArgsSchema } from "./rename-category.js";
+import { mergeCategoriesHandler, MergeCategoriesArgsSchema } from "./merge-categories.js";
 import { getSupabaseForUser } from "../../storage/supabase.js";
 import type { ToolDefinition } from "../types.js";
 
@@ -12,11 +19,19 @@ export function getCategorizationTools(): ToolDefinition[] {
   return [
     {
       name: "update-categorization-rules",
-      description: "Update global transaction categorization rules that apply to ALL transactions (e.g., 'Categorize all Amazon Prime as Business expenses'). This updates the general category field for transactions but does NOT affect budget matching. To update which transactions match a specific budget, use 'update-budget-rules' instead. After updating, all transactions will be automatically re-categorized with the new rules in the background.",
+      description: "Update global transaction categorization rules that apply to ALL transactions (e.g., 'Categorize all Amazon Prime as Business expenses'). This updates the general category field for transactions but does NOT affect budget matching. To update which transactions match a specific budget, use 'update-budget-rules' instead. After updating, all transactions will be automatically re-categorized with the new rules in the background. Set preview to true first to show the user what would change, then call again without preview once they confirm.",
       inputSchema: {
         rules: z
           .string()
           .describe("Custom categorization instructions (e.g., 'Categorize all Amazon Prime as Business expenses', 'Put Starbucks in Personal Care instead of Food & Dining')"),
+        preview: z
+          .boolean()
+          .optional()
+          .describe("Dry run: show which transactions would change category and the per-category totals before and after, without saving the rules or changing anything (default: false)"),
+        preview_scope: z
+          .enum(["sample", "all"])
+          .optional()
+          .describe("Transactions a preview evaluates: 'sample' (the 200 most recent, default) or 'all' (up to the 2000 most recent)"),
       },
       options: {
         securitySchemes: [{ type: "oauth2" }],
@@ -31,5 +46,130 @@ export function getCategorizationTools(): ToolDefinition[] {
         return updateCategorizationRulesHandler(userId, args, supabaseClient);
       },
     },
+    {
+      name: "add-categorization-rule",
+      description: "Add a deterministic categorization rule, e.g. 'anything from Starbucks is Coffee' or 'charges over $1000 on my business card are Business'. Matching is exact and repeatable: matching transactions skip AI categorization entirely, both during sync and when rules are re-run. Conditions (merchant text or regex, amount range, accounts, Plaid category) are combined with AND. The rule is applied to existing transactions immediately. Prefer this over update-categorization-rules when the user names a specific merchant.",
+      inputSchema: AddCategorizationRuleArgsSchema,
+      options: {
+        securitySchemes: [{ type: "oauth2" }],
+      },
+      handler: async (args, { authInfo }) => {
+        const userId = authInfo?.extra?.userId as string | undefined;
+        if (!userId) {
+          throw new Error("User authentication required");
+        }
+
+        const supabaseClient = getSupabaseForUser(userId);
+        return addCategorizationRuleHandler(userId, args, supabaseClient);
+      },
+    },
+    {
+      name: "get-categorization-rules",
+      description: "List the user's categorization rules: structured rules in the order they're evaluated (with rule IDs), plus the free-text rules given to the AI for everything else.",
+      inputSchema: {},
+      outputSchema: GetCategorizationRulesOutputSchema,
+      options: {
+        readOnlyHint: true,
+        securitySchemes: [{ type: "oauth2" }],
+      },
+      handler: async (_args, { authInfo }) => {
+        const userId = authInfo?.extra?.userId as string | undefined;
+        if (!userId) {
+          throw new Error("User authentication required");
+        }
+
+        return getCategorizationRulesHandler(userId);
+      },
+    },
+    {
+      name: "delete-categorization-rule",
+      description: "Delete a structured categorization rule by ID (get IDs from get-categorization-rules).",
+      inputSchema: {
+        rule_id: z
+          .string()
+          .describe("ID of the rule to delete (from get-categorization-rules)"),
+      },
+      options: {
+        securitySchemes: [{ type: "oauth2" }],
+      },
+      handler: async (args, { authInfo }) => {
+        const userId = authInfo?.extra?.userId as string | undefined;
+        if (!userId) {
+          throw new Error("User authentication required");
+        }
+
+        return deleteCategorizationRuleHandler(userId, args.rule_id);
+      },
+    },
+    {
+      name: "list-categories",
+      description: "List the user's categories: top-level categories with their subcategories, colors, icons and which ones are excluded from spending. These are the categories the AI assigns transactions to.",
+      inputSchema: {},
+      outputSchema: ListCategoriesOutputSchema,
+      options: {
+        readOnlyHint: true,
+        securitySchemes: [{ type: "oauth2" }],
+      },
+      handler: async (_args, { authInfo }) => {
+        const userId = authInfo?.extra?.userId as string | undefined;
+        if (!userId) {
+          throw new Error("User authentication required");
+        }
+
+        const supabaseClient = getSupabaseForUser(userId);
+        return listCategoriesHandler(userId, supabaseClient);
+      },
+    },
+    {
+      name: "create-category",
+      description: "Create a category or subcategory, e.g. 'Kids', 'Pets', or 'Coffee' under 'Food & Dining'. New transactions are categorized into it from then on; mark exclude_from_spending for categories like reimbursements that shouldn't count as spending.",
+      inputSchema: CreateCategoryArgsSchema,
+      options: {
+        securitySchemes: [{ type: "oauth2" }],
+      },
+      handler: async (args, { authInfo }) => {
+        const userId = authInfo?.extra?.userId as string | undefined;
+        if (!userId) {
+          throw new Error("User authentication required");
+        }
+
+        const supabaseClient = getSupabaseForUser(userId);
+        return createCategoryHandler(userId, args, supabaseClient);
+      },
+    },
+    {
+      name: "rename-category",
+      description: "Rename a category. Existing transactions and categorization rules that use the old name are updated to the new one.",
+      inputSchema: RenameCategoryArgsSchema,
+      options: {
+        securitySchemes: [{ type: "oauth2" }],
+      },
+      handler: async (args, { authInfo }) => {
+        const userId = authInfo?.extra?.userId as string | undefined;
+        if (!userId) {
+          throw new Error("User authentication required");
+        }
+
+        const supabaseClient = getSupabaseForUser(userId);
+        return renameCategoryHandler(userId, args, supabaseClient);
+      },
+    },
+    {
+      name: "merge-categories",
+      description: "Merge one category into another, e.g. fold 'Restaurants' into 'Food & Dining'. The source category's transactions, rules and subcategories move to the target and the source is deleted.",
+      inputSchema: MergeCategoriesArgsSchema,
+      options: {
+        securitySchemes: [{ type: "oauth2" }],
+      },
+      handler: async (args, { authInfo }) => {
+        const userId = authInfo?.extra?.userId as string | undefined;
+        if (!userId) {
+          throw new Error("User authentication required");
+        }
+
+        const supabaseClient = getSupabaseForUser(userId);
+        return mergeCategoriesHandler(userId, args, supabaseClient);
+      },
+    },
   ];
 }
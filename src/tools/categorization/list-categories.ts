@@ -0,0 +1,75 @@
+import { z } from "zod";
+import type { SupabaseClient } from "@supabase/supabase-js";
+import type { Database } from "../../storage/database.types.js";
+import { getCategories } from "../../storage/categorization/categories.js";
+import {
+  getDefaultTaxonomy,
+  getExcludedFromSpendingNames,
+  orderTaxonomy,
+} from "../../utils/category-taxonomy.js";
+import { logToolEvent } from "../../utils/logger.js";
+
+// Output schema for list-categories tool (using Zod for type safety and validation)
+export const ListCategoriesOutputSchema = {
+  categories: z.array(
+    z.object({
+      name: z.string().describe("Category name, as used in transaction categories and rules"),
+      parent: z.string().nullable().describe("Parent category name for subcategories (null for top-level)"),
+      description: z.string().nullable().describe("Examples given to the AI when categorizing"),
+      color: z.string().nullable().describe("Display color as a hex value"),
+      icon: z.string().nullable().describe("Display icon (emoji)"),
+      exclude_from_spending: z.boolean().describe("Left out of spending totals (directly or through its parent)"),
+    })
+  ).describe("Categories in display order: each top-level category followed by its subcategories"),
+  is_default: z.boolean().describe("True when the user hasn't customized the built-in categories yet"),
+};
+
+/**
+ * List Categories Tool
+ * Shows the category tree the AI categorizes into
+ */
+export async function listCategoriesHandler(
+  userId: string,
+  supabaseClient: SupabaseClient<Database>
+) {
+  logToolEvent("list-categories", "start", { userId });
+
+  const stored = await getCategories(userId, supabaseClient);
+  const taxonomy = stored.length > 0 ? stored : getDefaultTaxonomy();
+  const ordered = orderTaxonomy(taxonomy);
+  const excluded = getExcludedFromSpendingNames(taxonomy);
+  const namesById = new Map(taxonomy.map((category) => [category.id, category.name]));
+
+  let responseText = `# Categories\n\n`;
+  if (stored.length === 0) {
+    responseText += `Using the built-in categories. Creating, renaming or merging a category makes them editable.\n\n`;
+  }
+  for (const category of ordered) {
+    const indent = category.parentId ? "  " : "";
+    const icon = category.icon ? `${category.icon} ` : "";
+    const flag = excluded.includes(category.name) ? " _(not spending)_" : "";
+    responseText += `${indent}- ${icon}**${category.name}**${flag}\n`;
+  }
+
+  logToolEvent("list-categories", "complete", { userId, categoryCount: ordered.length });
+
+  return {
+    content: [
+      {
+        type: "text" as const,
+        text: responseText.trim(),
+      },
+    ],
+    structuredContent: {
+      categories: ordered.map((category) => ({
+        name: category.name,
+        parent: category.parentId ? namesById.get(category.parentId) ?? null : null,
+        description: category.description,
+        color: category.color,
+        icon: category.icon,
+        exclude_from_spending: excluded.includes(category.name),
+      })),
+      is_default: stored.length === 0,
+    },
+  };
+}
@@ -0,0 +1,57 @@
+import { z } from "zod";
+import type { SupabaseClient } from "@supabase/supabase-js";
+import type { Database } from "../../storage/database.types.js";
+import { mergeUserCategories } from "../../services/category-taxonomy-service.js";
+import { logToolEvent } from "../../utils/logger.js";
+
+// Input schema for merge-categories tool
+export const MergeCategoriesArgsSchema = {
+  source: z
+    .string()
+    .describe("Category to merge away (from list-categories); it is deleted afterwards"),
+  target: z
+    .string()
+    .describe("Category that receives the source's transactions, rules and subcategories"),
+};
+
+export type MergeCategoriesArgs = {
+  source: string;
+  target: string;
+};
+
+/**
+ * Merge Categories Tool
+ * Folds one category into another, moving its transactions, rules and subcategories
+ */
+export async function mergeCategoriesHandler(
+  userId: string,
+  args: MergeCategoriesArgs,
+  supabaseClient: SupabaseClient<Database>
+) {
+  logToolEvent("merge-categories", "start", { userId, source: args.source, target: args.target });
+
+  const { category, transactionsUpdated, budgetsRelabeled } = await mergeUserCategories(
+    userId,
+    args.source,
+    args.target,
+    supabaseClient
+  );
+
+  logToolEvent("merge-categories", "complete", { userId, targetId: category.id, transactionsUpdated });
+
+  let responseText = `✅ **Categories Merged**\n\n`;
+  responseText += `**${args.source}** was merged into **${category.name}** and removed.\n\n`;
+  responseText += `Moved ${transactionsUpdated} transaction${transactionsUpdated === 1 ? "" : "s"}; categorization rules and subcategories now point at ${category.name}.`;
+  if (budgetsRelabeled > 0) {
+    responseText += `\n\nRe-matching transactions for ${budgetsRelabeled} budget${budgetsRelabeled === 1 ? "" : "s"} that filter by category.`;
+  }
+
+  return {
+    content: [
+      {
+        type: "text" as const,
+        text: responseText,
+      },
+    ],
+  };
+}
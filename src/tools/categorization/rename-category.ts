@@ -0,0 +1,57 @@
+import { z } from "zod";
+import type { SupabaseClient } from "@supabase/supabase-js";
+import type { Database } from "../../storage/database.types.js";
+import { renameUserCategory } from "../../services/category-taxonomy-service.js";
+import { logToolEvent } from "../../utils/logger.js";
+
+// Input schema for rename-category tool
+export const RenameCategoryArgsSchema = {
+  name: z
+    .string()
+    .describe("Current category name (from list-categories)"),
+  new_name: z
+    .string()
+    .describe("New name for the category"),
+};
+
+export type RenameCategoryArgs = {
+  name: string;
+  new_name: string;
+};
+
+/**
+ * Rename Category Tool
+ * Renames a category along with the transactions and rules that use it
+ */
+export async function renameCategoryHandler(
+  userId: string,
+  args: RenameCategoryArgs,
+  supabaseClient: SupabaseClient<Database>
+) {
+  logToolEvent("rename-category", "start", { userId, name: args.name });
+
+  const { category, transactionsUpdated, budgetsRelabeled } = await renameUserCategory(
+    userId,
+    args.name,
+    args.new_name,
+    supabaseClient
+  );
+
+  logToolEvent("rename-category", "complete", { userId, categoryId: category.id, transactionsUpdated });
+
+  let responseText = `✅ **Category Renamed**\n\n`;
+  responseText += `**${args.name}** is now **${category.name}**.\n\n`;
+  responseText += `Updated ${transactionsUpdated} transaction${transactionsUpdated === 1 ? "" : "s"} and any categorization rules that used the old name.`;
+  if (budgetsRelabeled > 0) {
+    responseText += `\n\nUpdated ${budgetsRelabeled} budget${budgetsRelabeled === 1 ? "" : "s"} that filter on this category; their transactions are being re-matched.`;
+  }
+
+  return {
+    content: [
+      {
+        type: "text" as const,
+        text: responseText,
+      },
+    ],
+  };
+}
@@ -2,11 +2,71 @@ import type { SupabaseClient } from "@supabase/supabase-js";
 import type { Database } from "../../storage/database.types.js";
 import { saveCustomRules, getCustomRules } from "../../storage/categorization/rules.js";
 import { findTransactionsByUserId } from "../../storage/repositories/transactions.js";
-import { recategorizeAllTransactions } from "../../services/recategorization-service.js";
+import {
+  PREVIEW_MAX_TRANSACTIONS,
+  RecategorizationPreview,
+  previewRecategorization,
+  recategorizeAllTransactions,
+} from "../../services/recategorization-service.js";
+import { startBackgroundJob } from "../../services/background-jobs.js";
 import { logToolEvent, serializeError } from "../../utils/logger.js";
 
 export interface UpdateCategorizationArgs {
   rules: string;
+  preview?: boolean;
+  preview_scope?: "sample" | "all";
+}
+
+/**
+ * Changes listed individually in a preview; the rest are only counted
+ */
+const PREVIEW_CHANGE_LIMIT = 25;
+
+function formatAmount(amount: number): string {
+  return `${amount < 0 ? "-" : ""}$${Math.abs(amount).toFixed(2)}`;
+}
+
+function formatPreview(rules: string, preview: RecategorizationPreview): string {
+  let text = `🔍 **Categorization Rules Preview** (nothing was saved)\n\n`;
+  text += `**Proposed Rules:**\n${rules}\n\n`;
+  text += `Evaluated ${preview.transactionsEvaluated} of ${preview.totalTransactions} transactions`;
+  if (preview.transactionsEvaluated === PREVIEW_MAX_TRANSACTIONS && preview.totalTransactions > PREVIEW_MAX_TRANSACTIONS) {
+    text += ` (the most recent; previews stop at ${PREVIEW_MAX_TRANSACTIONS})`;
+  } else if (preview.transactionsEvaluated < preview.totalTransactions) {
+    text += ` (most recent)`;
+  }
+  text += preview.lockedSkipped > 0 ? `; ${preview.lockedSkipped} manually categorized transactions keep their category` : "";
+  text += `.\n\n`;
+
+  if (preview.changes.length === 0) {
+    text += `**No category changes.** These rules would leave every evaluated transaction as it is.\n`;
+    return text;
+  }
+
+  text += `## ${preview.changes.length} Transactions Would Change\n\n`;
+  text += `| Date | Description | Amount | From | To |\n`;
+  text += `|------|-------------|--------|------|----|\n`;
+  for (const change of preview.changes.slice(0, PREVIEW_CHANGE_LIMIT)) {
+    text += `| ${change.date} | ${change.description} | ${formatAmount(change.amount)} | ${change.fromCategory || "Uncategorized"} | ${change.toCategory} |\n`;
+  }
+  if (preview.changes.length > PREVIEW_CHANGE_LIMIT) {
+    text += `\n...and ${preview.changes.length - PREVIEW_CHANGE_LIMIT} more.\n`;
+  }
+
+  const changedTotals = preview.totals.filter(
+    (total) => total.countBefore !== total.countAfter || total.amountBefore !== total.amountAfter
+  );
+  text += `\n## Category Totals (Before → After)\n\n`;
+  text += `| Category | Transactions | Amount |\n`;
+  text += `|----------|--------------|--------|\n`;
+  for (const total of changedTotals) {
+    text += `| ${total.category} | ${total.countBefore} → ${total.countAfter} | ${formatAmount(total.amountBefore)} → ${formatAmount(total.amountAfter)} |\n`;
+  }
+
+  text += `\n**Next Steps:**\n`;
+  text += `- Apply these rules: call update-categorization-rules again with the same rules and preview off\n`;
+  text += `- Adjust the wording and preview again\n`;
+  return text;
 }
 
 /**
@@ -43,6 +103,45 @@ ${(await getCustomRules(userId)) || "No custom rules set (using defaults)"}
     };
   }
 
+  if (args.preview) {
+    try {
+      const preview = await previewRecategorization(
+        userId,
+        rules.trim(),
+        supabaseClient,
+        args.preview_scope ?? "sample"
+      );
+      logToolEvent("update-categorization-rules", "preview", {
+        userId,
+        evaluated: preview.transactionsEvaluated,
+        changes: preview.changes.length,
+      });
+      return {
+        content: [
+          {
+            type: "text" as const,
+            text: formatPreview(rules.trim(), preview).trim(),
+          },
+        ],
+      };
+    } catch (error: any) {
+      logToolEvent(
+        "update-categorization-rules",
+        "preview-error",
+        { userId, error: serializeError(error) },
+        "error"
+      );
+      return {
+        content: [
+          {
+            type: "text" as const,
+            text: `❌ **Failed to Preview Rules**\n\n${error.message}\n\nNothing was changed. Please try again.`,
+          },
+        ],
+      };
+    }
+  }
+
   try {
     // Save the new rules
     await saveCustomRules(userId, rules.trim());
@@ -76,18 +175,19 @@ You don't have any transactions yet. Run "Refresh transactions" to sync data fro
       userId,
       transactionCount: allTransactions.length,
     });
-    setImmediate(() => {
-      recategorizeAllTransactions(userId, rules.trim(), supabaseClient);
-    });
+    const job = await startBackgroundJob(userId, "recategorization", {}, (progress) =>
+      recategorizeAllTransactions(userId, rules.trim(), supabaseClient, undefined, progress)
+    );
 
     // Return immediately
     let responseText = `✅ **Categorization Rules Updated**\n\n`;
     responseText += `**Your New Rules:**\n${rules.trim()}\n\n`;
     responseText += `**Background Recategorization Started**\n`;
     responseText += `Re-categorizing ${allTransactions.length} transactions with new rules.\n`;
-    responseText += `This may take 1-2 minutes depending on transaction volume.\n\n`;
+    responseText += `This may take 1-2 minutes depending on transaction volume.\n`;
+    responseText += `Job ID: ${job.id}\n\n`;
     responseText += `**Next Steps:**\n`;
-    responseText += `- Wait a minute or two for recategorization to complete\n`;
+    responseText += `- "Check the recategorization job" - Track progress with get-job-status\n`;
     responseText += `- "Get my transactions" - View updated categories\n`;
     responseText += `- "Check my budgets" - See if budget spending changed\n`;
 
@@ -13,6 +13,8 @@ import { getTransactionTools } from "./transactions/index.js";
 import { getInvestmentTools } from "./investments/index.js";
 import { getLiabilityTools } from "./liabilities/index.js";
 import { getFinancialSummaryTools } from "./financial-summary/index.js";
+import { getJobTools } from "./jobs/index.js";
+import { getNotificationTools } from "./notifications/index.js";
 import type { ToolDefinition } from "./types.js";
 import { logEvent, serializeError } from "../utils/logger.js";
 import {
@@ -34,6 +36,8 @@ export function registerAllTools(server: McpServer, plaidClient: PlaidApi) {
     ...getTransactionTools(),
     ...getInvestmentTools(),
     ...getLiabilityTools(),
+    ...getJobTools(),
+    ...getNotificationTools(),
     ...getAdminTools(),
   ];
 
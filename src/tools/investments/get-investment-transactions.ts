@@ -0,0 +1,185 @@
+/**
+ * Get Investment Transactions Tool
+ * View investment activity (buys, sells, dividends, fees, contributions)
+ */
+
+import { z } from "zod";
+import { getInvestmentTransactionsByUserId } from "../../storage/repositories/investment-transactions.js";
+
+const INVESTMENT_TRANSACTION_TYPES = ["buy", "sell", "cancel", "cash", "fee", "transfer"] as const;
+
+// Input schema for get-investment-transactions tool
+export const GetInvestmentTransactionsArgsSchema = {
+  start_date: z
+    .string()
+    .optional()
+    .describe("Start date in YYYY-MM-DD format (default: January 1 of the current year)"),
+  end_date: z
+    .string()
+    .optional()
+    .describe("End date in YYYY-MM-DD format (default: today)"),
+  account_ids: z
+    .array(z.string())
+    .optional()
+    .describe("Filter by investment account IDs (exact match). Get account IDs from get-account-status or get-investment-holdings."),
+  securities: z
+    .array(z.string())
+    .optional()
+    .describe("Filter by security - accepts ticker symbols (e.g., 'AAPL') or Plaid security IDs"),
+  types: z
+    .array(z.enum(INVESTMENT_TRANSACTION_TYPES))
+    .optional()
+    .describe("Filter by transaction type: buy, sell, cancel, cash, fee, transfer"),
+  subtypes: z
+    .array(z.string())
+    .optional()
+    .describe("Filter by Plaid subtype (e.g., 'dividend', 'contribution', 'interest', 'deposit', 'withdrawal')"),
+};
+
+export type GetInvestmentTransactionsArgs = {
+  start_date?: string;
+  end_date?: string;
+  account_ids?: string[];
+  securities?: string[];
+  types?: Array<(typeof INVESTMENT_TRANSACTION_TYPES)[number]>;
+  subtypes?: string[];
+};
+
+// Output schema for get-investment-transactions tool (using Zod for type safety and validation)
+export const GetInvestmentTransactionsOutputSchema = {
+  transactions: z.array(
+    z.object({
+      investment_transaction_id: z.string().describe("Plaid investment transaction ID"),
+      date: z.string().describe("Transaction date in YYYY-MM-DD format"),
+      name: z.string().describe("Institution description of the activity"),
+      account_id: z.string().describe("Plaid account ID"),
+      account_name: z.string().describe("Display name of the investment account"),
+      type: z.string().describe("Transaction type: buy, sell, cancel, cash, fee, transfer"),
+      subtype: z.string().nullable().describe("Transaction subtype (e.g., 'dividend', 'contribution')"),
+      security_id: z.string().nullable().describe("Plaid security ID (null for pure cash activity)"),
+      ticker_symbol: z.string().nullable().describe("Ticker symbol of the security, if any"),
+      security_name: z.string().nullable().describe("Security name, if any"),
+      quantity: z.number().describe("Units bought (positive) or sold (negative)"),
+      price: z.number().describe("Price per unit"),
+      amount: z.number().describe("Cash impact: positive = cash out of the account (buy, fee), negative = cash in (sell, dividend, contribution)"),
+      fees: z.number().nullable().describe("Fees charged on the transaction"),
+      iso_currency_code: z.string().nullable().describe("ISO currency code"),
+    })
+  ).describe("Investment transactions, newest first"),
+  summary: z.object({
+    transactionCount: z.number().describe("Number of transactions returned"),
+    dateRange: z.object({
+      start: z.string().describe("Start date in YYYY-MM-DD format"),
+      end: z.string().describe("End date in YYYY-MM-DD format"),
+    }),
+    totalsBySubtype: z.record(z.number()).describe("Sum of absolute amounts keyed by subtype (or type when subtype is missing)"),
+    totalFees: z.number().describe("Sum of fees across all returned transactions"),
+  }).describe("Totals for the returned transactions"),
+};
+
+/**
+ * Format currency for display
+ */
+function formatCurrency(amount: number): string {
+  return new Intl.NumberFormat("en-US", {
+    style: "currency",
+    currency: "USD",
+    minimumFractionDigits: 2,
+    maximumFractionDigits: 2,
+  }).format(amount);
+}
+
+/**
+ * Handler for get-investment-transactions tool
+ */
+export async function getInvestmentTransactionsHandler(
+  userId: string,
+  args: GetInvestmentTransactionsArgs
+) {
+  const endDate = args.end_date || new Date().toISOString().split("T")[0];
+  const startDate = args.start_date || `${new Date().getUTCFullYear()}-01-01`;
+
+  const transactions = await getInvestmentTransactionsByUserId(userId, {
+    startDate,
+    endDate,
+    accountIds: args.account_ids,
+    securities: args.securities,
+    types: args.types,
+    subtypes: args.subtypes,
+  });
+
+  if (transactions.length === 0) {
+    return {
+      content: [
+        {
+          type: "text" as const,
+          text: `No investment transactions found between ${startDate} and ${endDate}. If you haven't connected an investment account yet, use connect-account to link your 401k, IRA, or brokerage.`,
+        },
+      ],
+    };
+  }
+
+  const totalsBySubtype: Record<string, number> = {};
+  let totalFees = 0;
+
+  for (const tx of transactions) {
+    const key = tx.subtype || tx.type;
+    totalsBySubtype[key] = (totalsBySubtype[key] || 0) + Math.abs(tx.amount);
+    totalFees += tx.fees || 0;
+  }
+
+  let responseText = `# Investment Transactions\n\n`;
+  responseText += `**Date Range:** ${startDate} to ${endDate}\n`;
+  responseText += `**Transactions:** ${transactions.length}\n\n`;
+
+  responseText += `## Totals\n`;
+  for (const [subtype, total] of Object.entries(totalsBySubtype).sort((a, b) => b[1] - a[1])) {
+    responseText += `- ${subtype}: ${formatCurrency(total)}\n`;
+  }
+  if (totalFees > 0) {
+    responseText += `- fees paid: ${formatCurrency(totalFees)}\n`;
+  }
+  responseText += `\n`;
+
+  responseText += `| Date | Account | Type | Security | Quantity | Amount |\n`;
+  responseText += `|------|---------|------|----------|----------|--------|\n`;
+  for (const tx of transactions) {
+    const security = tx.ticker_symbol || tx.security_name || "—";
+    const type = tx.subtype && tx.subtype !== tx.type ? `${tx.type} (${tx.subtype})` : tx.type;
+    responseText += `| ${tx.date} | ${tx.account_name || tx.account_id} | ${type} | ${security} | ${tx.quantity} | ${formatCurrency(tx.amount)} |\n`;
+  }
+
+  return {
+    content: [
+      {
+        type: "text" as const,
+        text: responseText.trim(),
+      },
+    ],
+    structuredContent: {
+      transactions: transactions.map((tx) => ({
+        investment_transaction_id: tx.investment_transaction_id,
+        date: tx.date,
+        name: tx.name,
+        account_id: tx.account_id,
+        account_name: tx.account_name || "Unknown Account",
+        type: tx.type,
+        subtype: tx.subtype,
+        security_id: tx.security_id,
+        ticker_symbol: tx.ticker_symbol,
+        security_name: tx.security_name,
+        quantity: tx.quantity,
+        price: tx.price,
+        amount: tx.amount,
+        fees: tx.fees,
+        iso_currency_code: tx.iso_currency_code,
+      })),
+      summary: {
+        transactionCount: transactions.length,
+        dateRange: { start: startDate, end: endDate },
+        totalsBySubtype,
+        totalFees,
+      },
+    },
+  };
+}
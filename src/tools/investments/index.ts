@@ -7,6 +7,11 @@ import {
   getInvestmentHoldingsHandler,
   GetInvestmentHoldingsOutputSchema,
 } from "./get-investment-holdings.js";
+import {
+  getInvestmentTransactionsHandler,
+  GetInvestmentTransactionsArgsSchema,
+  GetInvestmentTransactionsOutputSchema,
+} from "./get-investment-transactions.js";
 import type { ToolDefinition } from "../types.js";
 
 export function getInvestmentTools(): ToolDefinition[] {
@@ -30,5 +35,24 @@ export function getInvestmentTools(): ToolDefinition[] {
         return getInvestmentHoldingsHandler(userId);
       },
     },
+    {
+      name: "get-investment-transactions",
+      description:
+        "View investment activity across connected investment accounts: buys, sells, dividends, fees, and contributions. Filter by account, security (ticker or security ID), type, subtype, and date range. Use this to answer questions like 'how much did I contribute to my 401k this year' (subtypes=['contribution']) or 'what dividends did I get' (subtypes=['dividend']). Defaults to the current calendar year.",
+      inputSchema: GetInvestmentTransactionsArgsSchema,
+      outputSchema: GetInvestmentTransactionsOutputSchema,
+      options: {
+        readOnlyHint: true,
+        securitySchemes: [{ type: "oauth2" }],
+      },
+      handler: async (args, { authInfo }) => {
+        const userId = authInfo?.extra?.userId as string | undefined;
+        if (!userId) {
+          throw new Error("User authentication required");
+        }
+
+        return getInvestmentTransactionsHandler(userId, args);
+      },
+    },
   ];
 }
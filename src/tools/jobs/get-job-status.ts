@@ -0,0 +1,167 @@
+/**
+ * Get Job Status Tool
+ * Reports progress and failures for background recategorization and budget processing jobs
+ */
+
+import { z } from "zod";
+import {
+  BackgroundJob,
+  findBackgroundJob,
+  findRecentBackgroundJobs,
+} from "../../storage/repositories/background-jobs.js";
+import { getJobPercentComplete, isBackgroundJobStale } from "../../utils/background-job-status.js";
+import { logToolEvent } from "../../utils/logger.js";
+
+const JOB_TYPES = ["recategorization", "budget_processing"] as const;
+const JOB_STATUSES = ["queued", "running", "complete", "partial", "failed"] as const;
+
+// Input schema for get-job-status tool
+export const GetJobStatusArgsSchema = {
+  job_id: z
+    .string()
+    .optional()
+    .describe("Job ID returned by update-categorization-rules or a budget tool (default: the most recent jobs)"),
+  job_type: z
+    .enum(JOB_TYPES)
+    .optional()
+    .describe("Only show jobs of this type when no job_id is given"),
+};
+
+export type GetJobStatusArgs = {
+  job_id?: string;
+  job_type?: (typeof JOB_TYPES)[number];
+};
+
+// Output schema for get-job-status tool (using Zod for type safety and validation)
+export const GetJobStatusOutputSchema = {
+  jobs: z.array(
+    z.object({
+      job_id: z.string().describe("Background job ID"),
+      job_type: z.enum(JOB_TYPES).describe("recategorization or budget_processing"),
+      status: z.enum(JOB_STATUSES).describe("queued, running, complete, partial (some transactions failed), or failed"),
+      total_count: z.number().nullable().describe("Transactions the job will process (null until known)"),
+      processed_count: z.number().describe("Transactions attempted so far, including failures"),
+      failed_count: z.number().describe("Transactions that could not be processed"),
+      percent_complete: z.number().nullable().describe("Progress percentage (null until the total is known)"),
+      error_message: z.string().nullable().describe("Most recent error"),
+      stale: z.boolean().describe("True when an unfinished job has stopped reporting progress"),
+      budget_id: z.string().nullable().describe("Budget being processed (budget_processing jobs only)"),
+      budget_title: z.string().nullable().describe("Title of the budget being processed"),
+      created_at: z.string().describe("ISO timestamp when the job was queued"),
+      started_at: z.string().nullable().describe("ISO timestamp when the job started running"),
+      completed_at: z.string().nullable().describe("ISO timestamp when the job finished"),
+    })
+  ).describe("Requested job, or the most recent jobs newest first"),
+};
+
+const JOB_TYPE_LABELS: Record<BackgroundJob["jobType"], string> = {
+  recategorization: "Recategorization",
+  budget_processing: "Budget processing",
+};
+
+function describeJob(job: BackgroundJob, stale: boolean, percent: number | null): string {
+  const budgetTitle = typeof job.metadata.budget_title === "string" ? job.metadata.budget_title : null;
+
+  let text = `## ${JOB_TYPE_LABELS[job.jobType]}${budgetTitle ? `: ${budgetTitle}` : ""}\n`;
+  text += `**Job ID:** ${job.id}\n`;
+  text += `**Status:** ${job.status}${stale ? " (no progress in over 15 minutes - it may have stopped)" : ""}\n`;
+  if (job.totalCount !== null) {
+    text += `**Progress:** ${job.processedCount} of ${job.totalCount} transactions${percent !== null ? ` (${percent}%)` : ""}\n`;
+  }
+  if (job.failedCount > 0) {
+    text += `**Failed:** ${job.failedCount} transactions\n`;
+  }
+  text += `**Started:** ${job.startedAt || "not yet"}\n`;
+  if (job.completedAt) {
+    text += `**Finished:** ${job.completedAt}\n`;
+  }
+  if (job.errorMessage) {
+    text += `⚠️ ${job.errorMessage}\n`;
+  }
+
+  if (job.status === "partial") {
+    text += `\nSome transactions weren't updated. Running the job again (re-saving the rules or budget) retries them.\n`;
+  } else if (job.status === "failed") {
+    text += `\nThe job failed. Try again, or contact support if it keeps failing.\n`;
+  }
+
+  return text;
+}
+
+/**
+ * Handler for get-job-status tool
+ */
+export async function getJobStatusHandler(
+  userId: string,
+  args: GetJobStatusArgs
+) {
+  logToolEvent("get-job-status", "start", { userId, jobId: args.job_id, jobType: args.job_type });
+
+  let jobs: BackgroundJob[];
+  if (args.job_id) {
+    const job = await findBackgroundJob(userId, args.job_id);
+    jobs = job ? [job] : [];
+  } else {
+    jobs = await findRecentBackgroundJobs(userId, { jobType: args.job_type });
+  }
+
+  if (jobs.length === 0) {
+    return {
+      content: [
+        {
+          type: "text" as const,
+          text: args.job_id
+            ? `No background job found with ID ${args.job_id}.`
+            : "No background jobs have run yet. Jobs start when categorization rules are updated or a budget is created or changed.",
+        },
+      ],
+    };
+  }
+
+  const now = new Date();
+  const results = jobs.map((job) => ({
+    job,
+    stale: isBackgroundJobStale(job, now),
+    percent: getJobPercentComplete(job),
+  }));
+
+  let responseText = `# Background Job Status\n\n`;
+  responseText += results.map(({ job, stale, percent }) => describeJob(job, stale, percent)).join("\n");
+
+  if (results.some(({ job, stale }) => !stale && (job.status === "queued" || job.status === "running"))) {
+    responseText += `\nStill in progress - check again in a minute.`;
+  }
+
+  logToolEvent("get-job-status", "complete", {
+    userId,
+    jobCount: jobs.length,
+    statuses: jobs.map((job) => job.status),
+  });
+
+  return {
+    content: [
+      {
+        type: "text" as const,
+        text: responseText.trim(),
+      },
+    ],
+    structuredContent: {
+      jobs: results.map(({ job, stale, percent }) => ({
+        job_id: job.id,
+        job_type: job.jobType,
+        status: job.status,
+        total_count: job.totalCount,
+        processed_count: job.processedCount,
+        failed_count: job.failedCount,
+        percent_complete: percent,
+        error_message: job.errorMessage,
+        stale,
+        budget_id: typeof job.metadata.budget_id === "string" ? job.metadata.budget_id : null,
+        budget_title: typeof job.metadata.budget_title === "string" ? job.metadata.budget_title : null,
+        created_at: job.createdAt,
+        started_at: job.startedAt,
+        completed_at: job.completedAt,
+      })),
+    },
+  };
+}
@@ -0,0 +1,35 @@
+/**
+ * Job Tools Registry
+ * Status of background work started by other tools
+ */
+
+import {
+  getJobStatusHandler,
+  GetJobStatusArgsSchema,
+  GetJobStatusOutputSchema,
+} from "./get-job-status.js";
+import type { ToolDefinition } from "../types.js";
+
+export function getJobTools(): ToolDefinition[] {
+  return [
+    {
+      name: "get-job-status",
+      description:
+        "Check the progress of background work: recategorization after update-categorization-rules, and transaction matching after a budget is created or updated. Reports status, transactions processed, and any failures (a partial job means some transactions weren't updated). Pass the job_id from the tool that started the job, or omit it to see the most recent jobs.",
+      inputSchema: GetJobStatusArgsSchema,
+      outputSchema: GetJobStatusOutputSchema,
+      options: {
+        readOnlyHint: true,
+        securitySchemes: [{ type: "oauth2" }],
+      },
+      handler: async (args, { authInfo }) => {
+        const userId = authInfo?.extra?.userId as string | undefined;
+        if (!userId) {
+          throw new Error("User authentication required");
+        }
+
+        return getJobStatusHandler(userId, args);
+      },
+    },
+  ];
+}
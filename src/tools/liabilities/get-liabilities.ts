@@ -4,17 +4,20 @@
  */
 
 import { z } from "zod";
-import { PlaidApi } from "plaid";
 import {
   getLiabilitiesByUserId,
-  upsertCreditLiabilities,
-  upsertMortgageLiabilities,
-  upsertStudentLiabilities,
   type LiabilityWithAccount,
 } from "../../storage/repositories/liabilities.js";
-import { getUserConnections } from "../../services/account-service.js";
+import {
+  LiabilitiesSyncStateRepository,
+  type LiabilitiesSyncState,
+} from "../../storage/repositories/liabilities-sync-state.js";
+import { getSupabaseServiceRole } from "../../storage/supabase.js";
 import { logToolEvent } from "../../utils/logger.js";
 
+// liabilities-sync runs daily; anything older than two runs is considered stale
+const STALE_AFTER_HOURS = 48;
+
 // Input schema for get-liabilities tool
 export const GetLiabilitiesArgsSchema = {
   type: z
@@ -47,6 +50,11 @@ export const GetLiabilitiesOutputSchema = {
       mortgageCount: z.number().describe("Number of mortgage liabilities"),
       studentCount: z.number().describe("Number of student loan liabilities"),
   }).describe("Summary statistics for liabilities"),
+  syncStatus: z.object({
+    lastSyncedAt: z.string().nullable().describe("ISO timestamp of the oldest successful liabilities sync across connections (null if never synced)"),
+    isStale: z.boolean().describe(`True when any connection hasn't synced liabilities in the last ${STALE_AFTER_HOURS} hours`),
+    connectionsWithErrors: z.number().describe("Number of connections whose most recent liabilities sync failed"),
+  }).describe("Freshness of the stored liabilities data"),
   dataInstructions: z.string().describe("Guidelines for analyzing liability data (credit card APRs, mortgage terms, student loan repayment)"),
 };
 
@@ -90,109 +98,54 @@ function formatAprs(aprs: any): string {
     .join(", ");
 }
 
+/**
+ * Summarize sync state across connections
+ * Uses the oldest successful sync so one lagging connection isn't hidden by fresher ones
+ */
+function summarizeSyncStatus(syncStates: LiabilitiesSyncState[]) {
+  const syncedAt = syncStates.map((state) => state.lastSyncedAt);
+  const neverSynced = syncedAt.some((date) => date === null);
+  const oldest = neverSynced || syncedAt.length === 0
+    ? null
+    : new Date(Math.min(...syncedAt.map((date) => date!.getTime())));
+  const staleBefore = Date.now() - STALE_AFTER_HOURS * 60 * 60 * 1000;
+
+  return {
+    lastSyncedAt: oldest ? oldest.toISOString() : null,
+    isStale: neverSynced || (oldest !== null && oldest.getTime() < staleBefore),
+    connectionsWithErrors: syncStates.filter((state) => state.syncStatus === "error").length,
+  };
+}
+
 /**
  * Handler for get-liabilities tool
+ * Reads from the database only - liabilities are refreshed by the liabilities-sync cron job
  */
 export async function getLiabilitiesHandler(
   userId: string,
-  type?: "credit" | "mortgage" | "student",
-  plaidClient?: PlaidApi
+  type?: "credit" | "mortgage" | "student"
 ) {
   logToolEvent("get-liabilities", "start", { userId, type });
 
-  // First, try to get liabilities from database
-  let liabilities = await getLiabilitiesByUserId(userId, type);
-
-  // If no data in database, fetch from Plaid
-  if (liabilities.length === 0 && plaidClient) {
-    logToolEvent("get-liabilities", "no-data-fetching-from-plaid", { userId });
-
-    try {
-      const connections = await getUserConnections(userId);
-
-      for (const connection of connections) {
-        try {
-          // getUserConnections already returns decrypted access tokens
-          const accessToken = connection.accessToken;
-
-          // Fetch liabilities from Plaid
-          const response = await plaidClient.liabilitiesGet({
-            access_token: accessToken,
-          });
+  const syncStateRepo = new LiabilitiesSyncStateRepository(getSupabaseServiceRole());
+  const [liabilities, syncStates] = await Promise.all([
+    getLiabilitiesByUserId(userId, type),
+    syncStateRepo.getSyncStatesForUser(userId),
+  ]);
+  const syncStatus = summarizeSyncStatus(syncStates);
 
-          const { liabilities: plaidLiabilities } = response.data;
-
-          // Process credit card liabilities
-          if (plaidLiabilities.credit) {
-            for (const credit of plaidLiabilities.credit) {
-              if (credit.account_id) {
-                await upsertCreditLiabilities(userId, credit.account_id, credit);
-              }
-            }
-          }
-
-          // Process mortgage liabilities
-          if (plaidLiabilities.mortgage) {
-            for (const mortgage of plaidLiabilities.mortgage) {
-              await upsertMortgageLiabilities(userId, mortgage.account_id, mortgage);
-            }
-          }
-
-          // Process student loan liabilities
-          if (plaidLiabilities.student) {
-            for (const student of plaidLiabilities.student) {
-              if (student.account_id) {
-                await upsertStudentLiabilities(userId, student.account_id, student);
-              }
-            }
-          }
-
-          logToolEvent("get-liabilities", "plaid-sync-complete", {
-            userId,
-            itemId: connection.itemId,
-            creditCount: plaidLiabilities.credit?.length || 0,
-            mortgageCount: plaidLiabilities.mortgage?.length || 0,
-            studentCount: plaidLiabilities.student?.length || 0,
-          });
-        } catch (error: any) {
-          logToolEvent(
-            "get-liabilities",
-            "plaid-sync-error",
-            { userId, itemId: connection.itemId, error: error.message },
-            "error"
-          );
-          // Continue to next connection
-        }
-      }
-
-      // Fetch updated liabilities from database
-      liabilities = await getLiabilitiesByUserId(userId, type);
-    } catch (error: any) {
-      logToolEvent(
-        "get-liabilities",
-        "error",
-        { userId, error: error.message },
-        "error"
-      );
-      return {
-        content: [
-          {
-            type: "text",
-            text: `❌ **Error Fetching Liabilities**\n\nFailed to fetch liabilities: ${error.message}`,
-          },
-        ],
-      };
-    }
-  }
-
-  // If still no liabilities found
   if (liabilities.length === 0) {
     const typeFilter = type ? ` ${type}` : "";
+    const pendingSync = syncStates.length === 0 || syncStates.every((state) => state.lastSyncedAt === null);
+    const text = pendingSync
+      ? `No${typeFilter} liabilities found yet. Liabilities are synced in the background after you connect an account - check back in a few minutes.`
+      : `No${typeFilter} liabilities found. Make sure you have connected accounts with credit cards, mortgages, or student loans.`;
+
     return {
       content: [
         {
-          type: "text",
-          text: `No${typeFilter} liabilities found. Make sure you have connected accounts with credit cards, mortgages, or student loans.`,
+          type: "text" as const,
+          text,
         },
       ],
     };
@@ -289,7 +242,17 @@ export async function getLiabilitiesHandler(
     }
   }
 
-  responseText += `*Last synced: ${new Date().toLocaleString()}*\n`;
+  if (syncStatus.lastSyncedAt) {
+    responseText += `*Last synced: ${new Date(syncStatus.lastSyncedAt).toLocaleString()}*\n`;
+  } else {
+    responseText += `*Last synced: unknown*\n`;
+  }
+  if (syncStatus.isStale) {
+    responseText += `\n⚠️ Some liability data may be out of date - it hasn't been refreshed in over ${STALE_AFTER_HOURS} hours.\n`;
+  }
+  if (syncStatus.connectionsWithErrors > 0) {
+    responseText += `\n⚠️ The last liabilities sync failed for ${syncStatus.connectionsWithErrors} connection(s). Run get-account-status to check connection health.\n`;
+  }
 
   // Build structured content
   const structuredLiabilities = liabilities.map((l) => ({
@@ -307,6 +270,7 @@ export async function getLiabilitiesHandler(
     creditCount: creditLiabilities.length,
     mortgageCount: mortgageLiabilities.length,
     studentCount: studentLiabilities.length,
+    isStale: syncStatus.isStale,
   });
 
   return {
@@ -324,6 +288,7 @@ export async function getLiabilitiesHandler(
         mortgageCount: mortgageLiabilities.length,
         studentCount: studentLiabilities.length,
       },
+      syncStatus,
       dataInstructions: `
 LIABILITIES DATA ANALYSIS GUIDELINES:
 - Credit cards show APRs, payment schedules, and overdue status
@@ -331,6 +296,7 @@ LIABILITIES DATA ANALYSIS GUIDELINES:
 - Student loans show repayment plans, guarantors, and outstanding interest
 - All amounts are in USD unless otherwise specified
 - Dates are in ISO format (YYYY-MM-DD)
+- Data is refreshed daily; check syncStatus.isStale before relying on balances or due dates
       `.trim(),
     },
   };
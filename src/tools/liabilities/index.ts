@@ -15,23 +15,22 @@ export function getLiabilityTools(): ToolDefinition[] {
     {
       name: "get-liabilities",
       description:
-        "View your liabilities across all connected accounts including credit cards, mortgages, and student loans. Shows payment schedules, interest rates, balances, and overdue status. Optionally filter by liability type (credit, mortgage, or student). Data is fetched from Plaid on first call and then cached in the database for instant access.",
+        "View your liabilities across all connected accounts including credit cards, mortgages, and student loans. Shows payment schedules, interest rates, balances, and overdue status. Optionally filter by liability type (credit, mortgage, or student). Reads from the database (refreshed daily in the background) and reports when the stored data is stale.",
       inputSchema: GetLiabilitiesArgsSchema,
       outputSchema: GetLiabilitiesOutputSchema,
       options: {
         readOnlyHint: true,
         securitySchemes: [{ type: "oauth2" }],
       },
-      handler: async (args, { authInfo }, deps) => {
+      handler: async (args, { authInfo }) => {
         const userId = authInfo?.extra?.userId as string | undefined;
         if (!userId) {
           throw new Error("User authentication required");
         }
 
         const type = args.type as "credit" | "mortgage" | "student" | undefined;
-        const plaidClient = (deps as any)?.plaidClient;
 
-        return getLiabilitiesHandler(userId, type, plaidClient);
+        return getLiabilitiesHandler(userId, type);
       },
     },
   ];
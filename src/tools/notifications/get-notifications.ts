@@ -0,0 +1,119 @@
+/**
+ * Get Notifications Tool
+ * Surfaces budget alerts from the notifications outbox and marks them read
+ */
+
+import { z } from "zod";
+import type { SupabaseClient } from "@supabase/supabase-js";
+import type { Database } from "../../storage/database.types.js";
+import {
+  countUnreadNotifications,
+  findNotificationsByUserId,
+  markNotificationsRead,
+} from "../../storage/repositories/notifications.js";
+import { logToolEvent } from "../../utils/logger.js";
+
+// Input schema for get-notifications tool
+export const GetNotificationsArgsSchema = {
+  unread_only: z
+    .boolean()
+    .default(true)
+    .describe("Only return notifications the user hasn't seen yet (default: true)"),
+  limit: z
+    .number()
+    .int()
+    .min(1)
+    .max(50)
+    .default(10)
+    .describe("Maximum number of notifications to return, newest first (default: 10)"),
+  mark_read: z
+    .boolean()
+    .default(true)
+    .describe("Mark the returned notifications as read (default: true)"),
+};
+
+export type GetNotificationsArgs = {
+  unread_only?: boolean;
+  limit?: number;
+  mark_read?: boolean;
+};
+
+// Output schema for get-notifications tool
+export const GetNotificationsOutputSchema = {
+  notifications: z.array(
+    z.object({
+      id: z.string().describe("Notification ID"),
+      type: z.string().describe("Notification type: 'budget_threshold'"),
+      title: z.string().describe("Short headline, e.g. 'Groceries reached 80%'"),
+      message: z.string().describe("Full alert text"),
+      created_at: z.string().describe("ISO timestamp when the alert was raised"),
+      read: z.boolean().describe("True if the notification had already been read before this call"),
+      data: z.record(z.unknown()).describe("Event details: budget_id, budget_title, threshold, percentage, spent, limit, period_start, period_end"),
+    })
+  ).describe("Notifications, newest first"),
+  unread_count: z.number().describe("Unread notifications before this call"),
+};
+
+/**
+ * Get Notifications Tool Handler
+ */
+export async function getNotificationsHandler(
+  userId: string,
+  args: GetNotificationsArgs,
+  supabaseClient: SupabaseClient<Database>
+) {
+  const unreadOnly = args.unread_only ?? true;
+  const markRead = args.mark_read ?? true;
+
+  logToolEvent("get-notifications", "start", { userId, unreadOnly, markRead });
+
+  const unreadCount = await countUnreadNotifications(userId, supabaseClient);
+  const notifications = await findNotificationsByUserId(userId, supabaseClient, {
+    unreadOnly,
+    limit: args.limit ?? 10,
+  });
+
+  if (markRead) {
+    await markNotificationsRead(
+      userId,
+      notifications.filter((notification) => !notification.readAt).map((notification) => notification.id),
+      supabaseClient
+    );
+  }
+
+  logToolEvent("get-notifications", "complete", { userId, count: notifications.length, unreadCount });
+
+  let responseText: string;
+  if (notifications.length === 0) {
+    responseText = unreadOnly
+      ? "No new notifications. Budget alerts show up here when spending crosses a budget's alert thresholds."
+      : "No notifications yet. Budget alerts show up here when spending crosses a budget's alert thresholds.";
+  } else {
+    responseText = `🔔 **Notifications** (${unreadCount} unread)\n\n`;
+    for (const notification of notifications) {
+      responseText += `${notification.readAt ? "" : "🆕 "}**${notification.title}** - ${notification.createdAt.split("T")[0]}\n`;
+      responseText += `${notification.message}\n\n`;
+    }
+  }
+
+  return {
+    content: [
+      {
+        type: "text" as const,
+        text: responseText.trim(),
+      },
+    ],
+    structuredContent: {
+      notifications: notifications.map((notification) => ({
+        id: notification.id,
+        type: notification.type,
+        title: notification.title,
+        message: notification.message,
+        created_at: notification.createdAt,
+        read: notification.readAt !== null,
+        data: notification.data,
+      })),
+      unread_count: unreadCount,
+    },
+  };
+}
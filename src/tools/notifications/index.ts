@@ -0,0 +1,58 @@
+/**
+ * Notification Tools Registry
+ * Budget alerts and where they are delivered
+ */
+
+import {
+  getNotificationsHandler,
+  GetNotificationsArgsSchema,
+  GetNotificationsOutputSchema,
+} from "./get-notifications.js";
+import {
+  setNotificationChannelHandler,
+  SetNotificationChannelArgsSchema,
+} from "./set-notification-channel.js";
+import { getSupabaseForUser } from "../../storage/supabase.js";
+import type { ToolDefinition } from "../types.js";
+
+export function getNotificationTools(): ToolDefinition[] {
+  return [
+    {
+      name: "get-notifications",
+      description:
+        "Get the user's unread alerts, such as a budget crossing 80% or 100% of its limit. Call this at the start of a conversation and mention any new alerts to the user. Returned notifications are marked read unless mark_read is false; pass unread_only=false to see past alerts.",
+      inputSchema: GetNotificationsArgsSchema,
+      outputSchema: GetNotificationsOutputSchema,
+      options: {
+        securitySchemes: [{ type: "oauth2" }],
+      },
+      handler: async (args, { authInfo }) => {
+        const userId = authInfo?.extra?.userId as string | undefined;
+        if (!userId) {
+          throw new Error("User authentication required");
+        }
+
+        const supabaseClient = getSupabaseForUser(userId);
+        return getNotificationsHandler(userId, args, supabaseClient);
+      },
+    },
+    {
+      name: "set-notification-channel",
+      description:
+        "Deliver budget alerts by email or to an https:// webhook URL on a public address (JSON POST) as well as through get-notifications. One setting per channel; calling again replaces it, and enabled=false turns the channel off.",
+      inputSchema: SetNotificationChannelArgsSchema,
+      options: {
+        securitySchemes: [{ type: "oauth2" }],
+      },
+      handler: async (args, { authInfo }) => {
+        const userId = authInfo?.extra?.userId as string | undefined;
+        if (!userId) {
+          throw new Error("User authentication required");
+        }
+
+        const supabaseClient = getSupabaseForUser(userId);
+        return setNotificationChannelHandler(userId, args, supabaseClient);
+      },
+    },
+  ];
+}
@@ -0,0 +1,97 @@
+/**
+ * Set Notification Channel Tool
+ * Chooses where budget alerts are delivered besides get-notifications
+ */
+
+import { z } from "zod";
+import type { SupabaseClient } from "@supabase/supabase-js";
+import type { Database } from "../../storage/database.types.js";
+import {
+  findNotificationChannels,
+  upsertNotificationChannel,
+} from "../../storage/repositories/notifications.js";
+import { checkWebhookTarget } from "../../utils/clients/webhook.js";
+import { logToolEvent } from "../../utils/logger.js";
+
+const CHANNELS = ["email", "webhook"] as const;
+
+// Input schema for set-notification-channel tool
+export const SetNotificationChannelArgsSchema = {
+  channel: z
+    .enum(CHANNELS)
+    .describe("'email' to send alerts to an address, 'webhook' to POST them as JSON to a URL"),
+  target: z
+    .string()
+    .describe("Email address or https:// webhook URL (must resolve to a public address)"),
+  enabled: z
+    .boolean()
+    .default(true)
+    .describe("Set to false to stop delivering to this channel (default: true)"),
+};
+
+export type SetNotificationChannelArgs = {
+  channel: (typeof CHANNELS)[number];
+  target: string;
+  enabled?: boolean;
+};
+
+/**
+ * Set Notification Channel Tool Handler
+ */
+export async function setNotificationChannelHandler(
+  userId: string,
+  args: SetNotificationChannelArgs,
+  supabaseClient: SupabaseClient<Database>
+) {
+  const target = args.target.trim();
+  const enabled = args.enabled ?? true;
+
+  if (args.channel === "email" && !/^[^\s@]+@[^\s@]+$/.test(target)) {
+    return {
+      content: [
+        {
+          type: "text" as const,
+          text: `⚠️ **Invalid Email**\n\n"${target}" is not an email address.`,
+        },
+      ],
+    };
+  }
+
+  // Checked again before every delivery, in case the host's DNS changes
+  const webhookProblem = args.channel === "webhook" ? await checkWebhookTarget(target) : null;
+  if (webhookProblem) {
+    return {
+      content: [
+        {
+          type: "text" as const,
+          text: `⚠️ **Invalid Webhook URL**\n\n"${target}" ${webhookProblem}.`,
+        },
+      ],
+    };
+  }
+
+  logToolEvent("set-notification-channel", "start", { userId, channel: args.channel, enabled });
+
+  await upsertNotificationChannel(userId, { channel: args.channel, target, enabled }, supabaseClient);
+  const channels = await findNotificationChannels(userId, supabaseClient);
+
+  logToolEvent("set-notification-channel", "complete", { userId, channel: args.channel });
+
+  let responseText = enabled
+    ? `✅ **Notifications On**\n\nBudget alerts will be sent by ${args.channel} to ${target}.\n\n`
+    : `✅ **Notifications Off**\n\nBudget alerts will no longer be sent by ${args.channel}.\n\n`;
+  responseText += `**Channels:**\n`;
+  for (const channel of channels) {
+    responseText += `- ${channel.channel}: ${channel.target}${channel.enabled ? "" : " (off)"}\n`;
+  }
+  responseText += `\nAlerts are always available through get-notifications.`;
+
+  return {
+    content: [
+      {
+        type: "text" as const,
+        text: responseText,
+      },
+    ],
+  };
+}
@@ -0,0 +1,190 @@
+/**
+ * Transaction Annotation Tools
+ * User tags and notes on transactions; sync never overwrites them
+ */
+
+import { z } from "zod";
+import type { SupabaseClient } from "@supabase/supabase-js";
+import type { Database } from "../../storage/database.types.js";
+import { setTransactionNote } from "../../storage/repositories/transactions.js";
+import { tagTransactions, untagTransactions } from "../../services/categorization-service.js";
+import {
+  MAX_NOTE_LENGTH,
+  MAX_TAGS_PER_TRANSACTION,
+  normalizeNote,
+  normalizeTags,
+} from "../../utils/transaction-tags.js";
+import { logToolEvent } from "../../utils/logger.js";
+
+// Input schema for tag-transactions and untag-transactions tools
+export const TagTransactionsArgsSchema = {
+  transaction_ids: z
+    .array(z.string())
+    .min(1)
+    .max(500)
+    .describe("Transaction IDs (from get-transactions)"),
+  tags: z
+    .array(z.string())
+    .min(1)
+    .max(MAX_TAGS_PER_TRANSACTION)
+    .describe("Tags, e.g. ['reimbursable', 'vacation-2026']. Lowercased, spaces become hyphens"),
+};
+
+export type TagTransactionsArgs = {
+  transaction_ids: string[];
+  tags: string[];
+};
+
+// Input schema for set-transaction-note tool
+export const SetTransactionNoteArgsSchema = {
+  transaction_id: z
+    .string()
+    .describe("Transaction ID to annotate (from get-transactions)"),
+  note: z
+    .string()
+    .max(MAX_NOTE_LENGTH)
+    .describe("Note text; an empty string removes the note"),
+};
+
+export type SetTransactionNoteArgs = {
+  transaction_id: string;
+  note: string;
+};
+
+function invalidTagsResponse(invalid: string[]) {
+  return {
+    content: [
+      {
+        type: "text" as const,
+        text: `⚠️ **Invalid Tags**\n\n${invalid.map((tag) => `"${tag}"`).join(", ")} can't be used. Tags use letters, numbers, hyphens and underscores (up to 40 characters).`,
+      },
+    ],
+  };
+}
+
+/**
+ * Tag Transactions Tool
+ * Adds tags to transactions, keeping the tags they already have
+ */
+export async function tagTransactionsHandler(
+  userId: string,
+  args: TagTransactionsArgs,
+  supabaseClient: SupabaseClient<Database>
+) {
+  const { tags, invalid } = normalizeTags(args.tags);
+  if (invalid.length > 0) {
+    return invalidTagsResponse(invalid);
+  }
+
+  const transactionIds = [...new Set(args.transaction_ids)];
+  logToolEvent("tag-transactions", "start", { userId, count: transactionIds.length, tags });
+
+  const updated = await tagTransactions(userId, transactionIds, tags, supabaseClient);
+
+  // Left untouched because the new tags would go over the limit
+  const tooMany = updated.filter((tx) => tags.some((tag) => !tx.tags.includes(tag)));
+
+  const updatedIds = new Set(updated.map((tx) => tx.transactionId));
+  const notFound = transactionIds.filter((id) => !updatedIds.has(id));
+
+  logToolEvent("tag-transactions", "complete", { userId, updated: updated.length, notFound: notFound.length });
+
+  let responseText = `✅ **Transactions Tagged**\n\n`;
+  responseText += `Tagged ${updated.length - tooMany.length} transaction${updated.length - tooMany.length === 1 ? "" : "s"} with ${tags.map((tag) => `\`${tag}\``).join(", ")}.`;
+  responseText += `\n\nFind them with get-transactions using tags, or create a budget for a tag.`;
+  if (tooMany.length > 0) {
+    responseText += `\n\n⚠️ Not tagged (would exceed ${MAX_TAGS_PER_TRANSACTION} tags): ${tooMany.map((tx) => tx.transactionId).join(", ")}`;
+  }
+  if (notFound.length > 0) {
+    responseText += `\n\n⚠️ Not found: ${notFound.join(", ")}`;
+  }
+
+  return {
+    content: [
+      {
+        type: "text" as const,
+        text: responseText,
+      },
+    ],
+  };
+}
+
+/**
+ * Untag Transactions Tool
+ * Removes tags from transactions
+ */
+export async function untagTransactionsHandler(
+  userId: string,
+  args: TagTransactionsArgs,
+  supabaseClient: SupabaseClient<Database>
+) {
+  const { tags, invalid } = normalizeTags(args.tags);
+  if (invalid.length > 0) {
+    return invalidTagsResponse(invalid);
+  }
+
+  const transactionIds = [...new Set(args.transaction_ids)];
+  logToolEvent("untag-transactions", "start", { userId, count: transactionIds.length, tags });
+
+  const updated = await untagTransactions(userId, transactionIds, tags, supabaseClient);
+
+  const updatedIds = new Set(updated.map((tx) => tx.transactionId));
+  const notFound = transactionIds.filter((id) => !updatedIds.has(id));
+
+  logToolEvent("untag-transactions", "complete", { userId, updated: updated.length, notFound: notFound.length });
+
+  let responseText = `✅ **Tags Removed**\n\n`;
+  responseText += `Removed ${tags.map((tag) => `\`${tag}\``).join(", ")} from ${updated.length} transaction${updated.length === 1 ? "" : "s"}.`;
+  if (notFound.length > 0) {
+    responseText += `\n\n⚠️ Not found: ${notFound.join(", ")}`;
+  }
+
+  return {
+    content: [
+      {
+        type: "text" as const,
+        text: responseText,
+      },
+    ],
+  };
+}
+
+/**
+ * Set Transaction Note Tool
+ * Sets or clears the free-text note on one transaction
+ */
+export async function setTransactionNoteHandler(
+  userId: string,
+  args: SetTransactionNoteArgs,
+  supabaseClient: SupabaseClient<Database>
+) {
+  const note = normalizeNote(args.note);
+
+  logToolEvent("set-transaction-note", "start", { userId, transactionId: args.transaction_id, clear: note === null });
+
+  const updated = await setTransactionNote(userId, args.transaction_id, note, supabaseClient);
+
+  if (!updated) {
+    return {
+      content: [
+        {
+          type: "text" as const,
+          text: `⚠️ **Transaction Not Found**\n\nNo transaction with ID "${args.transaction_id}". Use get-transactions to look up transaction IDs.`,
+        },
+      ],
+    };
+  }
+
+  const label = `${updated.name} (${updated.date}, $${Math.abs(updated.amount).toFixed(2)})`;
+
+  return {
+    content: [
+      {
+        type: "text" as const,
+        text: note
+          ? `✅ **Note Saved**\n\n**Transaction:** ${label}\n**Note:** ${note}`
+          : `✅ **Note Removed**\n\n**Transaction:** ${label}`,
+      },
+    ],
+  };
+}
@@ -1,6 +1,10 @@
 import { PlaidApi } from "plaid";
 import { generateSignedUrl } from "../../utils/signed-urls.js";
 import { findAccountConnectionsByUserId } from "../../storage/repositories/account-connections.js";
+import {
+  extractMerchantEnrichment,
+  formatTransactionLocation,
+} from "../../utils/transaction-enrichment.js";
 
 interface GetRawTransactionsArgs {
   start_date?: string;
@@ -26,10 +30,20 @@ function convertRawTransactionsToCSV(
     "account_name",
     "pending",
     "transaction_id",
+    "merchant_name",
+    "payment_channel",
+    "location",
+    "website",
+    "logo_url",
+    "counterparties",
   ];
 
   const rows = transactions.map((tx) => {
     const accountName = accountMap.get(tx.account_id) || tx.account_id;
+    const enrichment = extractMerchantEnrichment(tx);
+    const counterparties = (enrichment.counterparties ?? [])
+      .map((counterparty) => `${counterparty.name} (${counterparty.type})`)
+      .join("; ");
 
     return [
       tx.date,
@@ -39,6 +53,12 @@ function convertRawTransactionsToCSV(
       `"${accountName}"`,
       tx.pending ? "true" : "false",
       `"${tx.transaction_id}"`,
+      `"${(enrichment.merchantName ?? "").replace(/"/g, '""')}"`,
+      enrichment.paymentChannel ?? "",
+      `"${formatTransactionLocation(enrichment.location).replace(/"/g, '""')}"`,
+      enrichment.website ?? "",
+      enrichment.logoUrl ?? "",
+      `"${counterparties.replace(/"/g, '""')}"`,
     ].join(",");
   });
 
@@ -171,7 +191,7 @@ Please connect your account first by saying:
     responseText += `**Warnings:**\n${errors.map(e => `- ${e}`).join('\n')}\n\n`;
   }
 
-  responseText += `**CSV Format:**\n- date, description, amount, plaid_category, account_name, pending, transaction_id\n\n`;
+  responseText += `**CSV Format:**\n- date, description, amount, plaid_category, account_name, pending, transaction_id\n- merchant_name, payment_channel, location, website, logo_url, counterparties (Plaid merchant enrichment; empty when unavailable)\n\n`;
 
   // Provide clickable download link
   responseText += `**Download CSV:**\n[Download raw-transactions.csv](${transactionsUrl})\n\n`;
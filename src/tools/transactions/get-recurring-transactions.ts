@@ -0,0 +1,193 @@
+/**
+ * Get Recurring Transactions Tool
+ * Lists detected subscriptions and repeating bills with price-increase and missed-charge flags
+ */
+
+import { z } from "zod";
+import type { SupabaseClient } from "@supabase/supabase-js";
+import type { Database } from "../../storage/database.types.js";
+import { findRecurringSeriesByUserId } from "../../storage/repositories/recurring-series.js";
+import { refreshRecurringSeries } from "../../services/recurring-detection-service.js";
+import {
+  getRecurringStatus,
+  DetectedRecurringSeries,
+  RecurringCadence,
+} from "../../utils/recurring-detection.js";
+import { logToolEvent } from "../../utils/logger.js";
+
+const RECURRING_STATUSES = ["active", "missed", "cancelled"] as const;
+
+// Multipliers to express any cadence as a monthly cost
+const MONTHLY_MULTIPLIER: Record<RecurringCadence, number> = {
+  weekly: 52 / 12,
+  biweekly: 26 / 12,
+  monthly: 1,
+  quarterly: 1 / 3,
+  annual: 1 / 12,
+};
+
+// Input schema for get-recurring-transactions tool
+export const GetRecurringTransactionsArgsSchema = {
+  status: z
+    .array(z.enum(RECURRING_STATUSES))
+    .optional()
+    .describe("Filter by status: 'active' (charging on schedule), 'missed' (next charge is overdue), 'cancelled' (no charge for over a full period). Default: all"),
+  refresh: z
+    .boolean()
+    .optional()
+    .describe("Re-run detection over stored transactions before answering (default: false - series are refreshed after every transaction sync)"),
+};
+
+export type GetRecurringTransactionsArgs = {
+  status?: Array<(typeof RECURRING_STATUSES)[number]>;
+  refresh?: boolean;
+};
+
+// Output schema for get-recurring-transactions tool (using Zod for type safety and validation)
+export const GetRecurringTransactionsOutputSchema = {
+  series: z.array(
+    z.object({
+      merchant_name: z.string().describe("Most recent transaction description for this merchant"),
+      merchant_key: z.string().describe("Normalized merchant name used to group charges"),
+      account_id: z.string().describe("Account of the most recent charge"),
+      cadence: z.enum(["weekly", "biweekly", "monthly", "quarterly", "annual"]).describe("Inferred billing cadence"),
+      expected_amount: z.number().describe("Expected amount of the next charge (the latest charge amount)"),
+      previous_amount: z.number().nullable().describe("Amount of the charge before the latest one"),
+      monthly_cost: z.number().describe("Expected amount normalized to a monthly cost"),
+      last_date: z.string().describe("Date of the most recent charge (YYYY-MM-DD)"),
+      next_expected_date: z.string().describe("Projected date of the next charge (YYYY-MM-DD)"),
+      occurrence_count: z.number().describe("Number of charges seen"),
+      status: z.enum(RECURRING_STATUSES).describe("active, missed, or cancelled as of today"),
+      price_increased: z.boolean().describe("True when the latest charge is higher than the one before it"),
+    })
+  ).describe("Detected recurring series, soonest next charge first"),
+  summary: z.object({
+    seriesCount: z.number().describe("Number of series returned"),
+    activeMonthlyTotal: z.number().describe("Sum of monthly_cost across active series"),
+    priceIncreaseCount: z.number().describe("Series whose latest charge went up"),
+    missedCount: z.number().describe("Series with an overdue charge"),
+    cancelledCount: z.number().describe("Series that appear to have stopped"),
+  }).describe("Totals for the returned series"),
+};
+
+/**
+ * Format currency for display
+ */
+function formatCurrency(amount: number): string {
+  return new Intl.NumberFormat("en-US", {
+    style: "currency",
+    currency: "USD",
+    minimumFractionDigits: 2,
+    maximumFractionDigits: 2,
+  }).format(amount);
+}
+
+/**
+ * Handler for get-recurring-transactions tool
+ * Status is re-evaluated against today, since stored series only change on sync
+ */
+export async function getRecurringTransactionsHandler(
+  userId: string,
+  args: GetRecurringTransactionsArgs,
+  supabaseClient: SupabaseClient<Database>
+) {
+  logToolEvent("get-recurring-transactions", "start", { userId, args });
+
+  let stored: DetectedRecurringSeries[] = await findRecurringSeriesByUserId(userId, supabaseClient);
+
+  // Series are normally written by transaction sync; detect now if nothing is stored yet
+  if (args.refresh || stored.length === 0) {
+    stored = await refreshRecurringSeries(userId, supabaseClient);
+  }
+
+  const today = new Date();
+  const series = stored
+    .map((s) => ({ ...s, status: getRecurringStatus(s.nextExpectedDate, s.cadence, today) }))
+    .filter((s) => !args.status || args.status.length === 0 || args.status.includes(s.status));
+
+  if (series.length === 0) {
+    return {
+      content: [
+        {
+          type: "text" as const,
+          text: "No recurring charges found. Detection needs at least three charges from the same merchant on a regular schedule (two for annual charges), so recently connected accounts may not show subscriptions yet.",
+        },
+      ],
+    };
+  }
+
+  const structuredSeries = series.map((s) => ({
+    merchant_name: s.merchantName,
+    merchant_key: s.merchantKey,
+    account_id: s.accountId,
+    cadence: s.cadence,
+    expected_amount: s.expectedAmount,
+    previous_amount: s.previousAmount,
+    monthly_cost: Math.round(s.expectedAmount * MONTHLY_MULTIPLIER[s.cadence] * 100) / 100,
+    last_date: s.lastDate,
+    next_expected_date: s.nextExpectedDate,
+    occurrence_count: s.occurrenceCount,
+    status: s.status,
+    price_increased: s.priceIncreased,
+  }));
+
+  const activeMonthlyTotal = structuredSeries
+    .filter((s) => s.status === "active")
+    .reduce((sum, s) => sum + s.monthly_cost, 0);
+  const priceIncreases = structuredSeries.filter((s) => s.price_increased);
+  const missed = structuredSeries.filter((s) => s.status === "missed");
+  const cancelled = structuredSeries.filter((s) => s.status === "cancelled");
+
+  let responseText = `# Recurring Charges\n\n`;
+  responseText += `**Series found:** ${structuredSeries.length}\n`;
+  responseText += `**Active monthly cost:** ${formatCurrency(activeMonthlyTotal)}\n\n`;
+
+  if (priceIncreases.length > 0) {
+    responseText += `## ⚠️ Price Increases\n`;
+    for (const s of priceIncreases) {
+      responseText += `- ${s.merchant_name}: ${formatCurrency(s.previous_amount ?? 0)} → ${formatCurrency(s.expected_amount)}\n`;
+    }
+    responseText += `\n`;
+  }
+
+  if (missed.length > 0 || cancelled.length > 0) {
+    responseText += `## Missed or Cancelled\n`;
+    for (const s of [...missed, ...cancelled]) {
+      responseText += `- ${s.merchant_name}: expected ${s.next_expected_date}, last charged ${s.last_date} (${s.status})\n`;
+    }
+    responseText += `\n`;
+  }
+
+  responseText += `| Merchant | Cadence | Amount | Next Expected | Status |\n`;
+  responseText += `|----------|---------|--------|---------------|--------|\n`;
+  for (const s of structuredSeries) {
+    responseText += `| ${s.merchant_name} | ${s.cadence} | ${formatCurrency(s.expected_amount)} | ${s.next_expected_date} | ${s.status} |\n`;
+  }
+
+  logToolEvent("get-recurring-transactions", "complete", {
+    userId,
+    seriesCount: structuredSeries.length,
+    priceIncreaseCount: priceIncreases.length,
+    missedCount: missed.length,
+    cancelledCount: cancelled.length,
+  });
+
+  return {
+    content: [
+      {
+        type: "text" as const,
+        text: responseText.trim(),
+      },
+    ],
+    structuredContent: {
+      series: structuredSeries,
+      summary: {
+        seriesCount: structuredSeries.length,
+        activeMonthlyTotal: Math.round(activeMonthlyTotal * 100) / 100,
+        priceIncreaseCount: priceIncreases.length,
+        missedCount: missed.length,
+        cancelledCount: cancelled.length,
+      },
+    },
+  };
+}
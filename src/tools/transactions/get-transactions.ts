@@ -4,6 +4,19 @@ import type { Database } from "../../storage/database.types.js";
 import { generateSignedUrl } from "../../utils/signed-urls.js";
 import { findAccountConnectionsByUserId } from "../../storage/repositories/account-connections.js";
 import { findTransactionsByUserId } from "../../storage/repositories/transactions.js";
+import {
+  findSplitsByUserId,
+  findSplitTransactionIdsByCategories,
+} from "../../storage/repositories/transaction-splits.js";
+import { loadCategoryTaxonomy } from "../../services/category-taxonomy-service.js";
+import {
+  expandCategoryFilter,
+  findCategoryByName,
+  getExcludedFromSpendingNames,
+} from "../../utils/category-taxonomy.js";
+import { formatTransactionLocation } from "../../utils/transaction-enrichment.js";
+import { describeSplitLine, expandSplitTransactions } from "../../utils/transaction-splits.js";
+import { normalizeTags } from "../../utils/transaction-tags.js";
 import { logToolEvent } from "../../utils/logger.js";
 
 // Input schema for get-transactions tool
@@ -23,7 +36,11 @@ export const GetTransactionsArgsSchema = {
   categories: z
     .array(z.string())
     .optional()
-    .describe("Filter transactions by category names (case-insensitive partial match). Searches AI-generated custom categories. Multiple categories use OR logic. Example: ['Food', 'Transport'] will match 'Food & Dining', 'Transportation', etc."),
+    .describe("Filter transactions by category names (case-insensitive partial match). Searches AI-generated custom categories. Naming a category from list-categories also includes its subcategories. Multiple categories use OR logic. Example: ['Food', 'Transport'] will match 'Food & Dining', 'Transportation', etc."),
+  tags: z
+    .array(z.string())
+    .optional()
+    .describe("Filter transactions by user tags added with tag-transactions (exact match, case-insensitive). Multiple tags use OR logic. Example: ['reimbursable', 'vacation-2026']"),
   budget_id: z
     .string()
     .optional()
@@ -36,6 +53,10 @@ export const GetTransactionsArgsSchema = {
     .boolean()
     .optional()
     .describe("Exclude pending transactions (exact match). Shows only confirmed/cleared transactions. Useful for accurate spending analysis. Cannot be used with pending_only."),
+  include_transfers: z
+    .boolean()
+    .optional()
+    .describe("Include internal transfers between the user's own accounts and credit card payments, which are left out by default so they don't count as spending and income twice (default: false)"),
 };
 
 export type GetTransactionsArgs = {
@@ -43,9 +64,11 @@ export type GetTransactionsArgs = {
   end_date?: string;
   account_ids?: string[];
   categories?: string[];
+  tags?: string[];
   budget_id?: string;
   pending_only?: boolean;
   exclude_pending?: boolean;
+  include_transfers?: boolean;
 };
 
 // Output schema for get-transactions tool (using Zod for type safety and validation)
@@ -53,14 +76,43 @@ export type GetTransactionsArgs = {
 export const GetTransactionsOutputSchema = {
   transactions: z.array(
       z.object({
+        transaction_id: z.string().describe("Transaction ID (for set-transaction-category and split-transaction)"),
         date: z.string().describe("Transaction date in YYYY-MM-DD format"),
-        description: z.string().describe("Merchant or transaction description"),
+        description: z.string().describe("Merchant or transaction description (with the split note for a split)"),
+        merchant_name: z.string().nullable().describe("Cleaned merchant name from Plaid (null when the merchant wasn't identified); use this to group by merchant"),
+        logo_url: z.string().nullable().describe("Merchant logo URL"),
+        website: z.string().nullable().describe("Merchant website"),
+        payment_channel: z.enum(["online", "in store", "other"]).nullable().describe("How the purchase was made"),
+        location: z.object({
+          address: z.string().nullable(),
+          city: z.string().nullable(),
+          region: z.string().nullable(),
+          postal_code: z.string().nullable(),
+          country: z.string().nullable(),
+          lat: z.number().nullable(),
+          lon: z.number().nullable(),
+          store_number: z.string().nullable(),
+        }).nullable().describe("Merchant location (mostly for in-store purchases)"),
+        counterparties: z.array(
+          z.object({
+            name: z.string().describe("Counterparty name"),
+            type: z.string().describe("merchant, financial_institution, payment_app, marketplace, payment_terminal, or income_source"),
+            website: z.string().nullable().describe("Counterparty website"),
+            logo_url: z.string().nullable().describe("Counterparty logo URL"),
+          })
+        ).describe("Parties to the transaction, e.g. the merchant behind a payment app charge"),
         amount: z.number().describe("Transaction amount in dollars (positive = spending, negative = income in some systems)"),
         category: z.string().describe("AI-assigned category using user's custom categorization rules"),
+        parent_category: z.string().nullable().describe("Parent category when category is a subcategory in the user's taxonomy"),
+        exclude_from_spending: z.boolean().describe("True when the category is marked to be left out of spending totals (e.g., Income, Transfer)"),
         account_name: z.string().describe("Name of the account this transaction came from"),
         pending: z.boolean().describe("Whether this transaction is still pending"),
+        split: z.boolean().describe("True when this row is one split of a transaction; amount and category are the split's"),
+        tags: z.array(z.string()).describe("User tags (e.g. 'reimbursable', 'vacation-2026')"),
+        notes: z.string().nullable().describe("User note on the transaction"),
+        internal_transfer: z.boolean().describe("True when this is one side of a transfer between the user's own accounts (only with include_transfers; transfers are left out otherwise)"),
       })
-    ).describe("Array of transactions with AI-powered categorization"),
+    ).describe("Array of transactions with AI-powered categorization; split transactions appear once per split"),
     summary: z.object({
       transactionCount: z.number().describe("Total number of transactions returned"),
       dateRange: z.object({
@@ -80,22 +132,40 @@ const userTransactionData = new Map<string, string>();
  */
 function convertTransactionsToCSV(transactions: any[]): string {
   const headers = [
+    "transaction_id",
     "date",
     "description",
+    "merchant_name",
     "amount",
     "category",
     "account_name",
     "pending",
+    "payment_channel",
+    "location",
+    "website",
+    "split",
+    "tags",
+    "notes",
+    "internal_transfer",
   ];
 
   const rows = transactions.map((tx) => {
     return [
+      `"${tx.transaction_id}"`,
       tx.date,
       `"${tx.description.replace(/"/g, '""')}"`, // Escape quotes in description
+      `"${(tx.merchant_name ?? "").replace(/"/g, '""')}"`,
       tx.amount,
       `"${tx.category}"`,
       `"${tx.account_name}"`,
       tx.pending ? "true" : "false",
+      tx.payment_channel ?? "",
+      `"${tx.location_label.replace(/"/g, '""')}"`,
+      tx.website ?? "",
+      tx.split ? "true" : "false",
+      `"${tx.tags.join("; ")}"`,
+      `"${(tx.notes ?? "").replace(/"/g, '""')}"`,
+      tx.internal_transfer ? "true" : "false",
     ].join(",");
   });
 
@@ -141,17 +211,37 @@ Please connect your account first by saying:
     return date.toISOString().split("T")[0];
   })();
 
+  const taxonomy = await loadCategoryTaxonomy(userId, supabaseClient);
+
+  // Split transactions match a category filter through their splits
+  const categories = args.categories ? expandCategoryFilter(taxonomy, args.categories) : undefined;
+  const splitTransactionIds = categories
+    ? await findSplitTransactionIdsByCategories(userId, categories, supabaseClient)
+    : undefined;
+
   // Fetch transactions from DATABASE (not Plaid)
-  const transactions = await findTransactionsByUserId(userId, supabaseClient, startDate, endDate, {
+  const storedTransactions = await findTransactionsByUserId(userId, supabaseClient, startDate, endDate, {
     startDate,
     endDate,
     accountIds: args.account_ids,
-    categories: args.categories,
+    categories,
+    splitTransactionIds,
+    tags: args.tags ? normalizeTags(args.tags).tags : undefined,
     budgetId: args.budget_id,
     pendingOnly: args.pending_only,
     excludePending: args.exclude_pending,
+    excludeInternalTransfers: !args.include_transfers,
   });
 
+  // One row per split, keeping only the splits in the filtered categories
+  const splits = await findSplitsByUserId(userId, supabaseClient);
+  const transactions = expandSplitTransactions(storedTransactions, splits).filter(
+    (tx) =>
+      !categories ||
+      tx.splitId === null ||
+      categories.some((category) => tx.customCategory?.toLowerCase().includes(category.toLowerCase()))
+  );
+
   logToolEvent("get-transactions", "transactions-loaded", {
     userId,
     count: transactions.length,
@@ -159,8 +249,10 @@ Please connect your account first by saying:
     endDate,
     accountFilter: args.account_ids ? `${args.account_ids.length} accounts` : "all accounts",
     categoryFilter: args.categories ? `${args.categories.length} categories` : "all categories",
+    tagFilter: args.tags ? args.tags.join(",") : "no tag filter",
     budgetFilter: args.budget_id || "no budget filter",
     pendingFilter: args.pending_only ? "pending only" : args.exclude_pending ? "exclude pending" : "all",
+    includeTransfers: !!args.include_transfers,
   });
 
   if (transactions.length === 0) {
@@ -181,17 +273,56 @@ Please connect your account first by saying:
   }
 
   // Convert to structured format
-  const structuredTransactions = transactions.map((tx) => ({
-    date: tx.date,
-    description: tx.name,
-    amount: tx.amount,
-    category: tx.customCategory || "Uncategorized",
-    account_name: tx.accountName || "",
-    pending: tx.pending,
-  }));
+  const excludedFromSpending = getExcludedFromSpendingNames(taxonomy);
+  const structuredTransactions = transactions.map((tx) => {
+    const category = tx.customCategory ? findCategoryByName(taxonomy, tx.customCategory) : undefined;
+    const parent = category?.parentId ? taxonomy.find((c) => c.id === category.parentId) : undefined;
+    return {
+      transaction_id: tx.transactionId,
+      date: tx.date,
+      description: describeSplitLine(tx.name, tx.splitNote),
+      merchant_name: tx.merchantName,
+      logo_url: tx.logoUrl,
+      website: tx.website,
+      payment_channel: tx.paymentChannel,
+      location: tx.location
+        ? {
+            address: tx.location.address,
+            city: tx.location.city,
+            region: tx.location.region,
+            postal_code: tx.location.postalCode,
+            country: tx.location.country,
+            lat: tx.location.lat,
+            lon: tx.location.lon,
+            store_number: tx.location.storeNumber,
+          }
+        : null,
+      counterparties: (tx.counterparties ?? []).map((counterparty) => ({
+        name: counterparty.name,
+        type: counterparty.type,
+        website: counterparty.website,
+        logo_url: counterparty.logoUrl,
+      })),
+      amount: tx.amount,
+      category: tx.customCategory || "Uncategorized",
+      parent_category: parent?.name ?? null,
+      exclude_from_spending: category ? excludedFromSpending.includes(category.name) : false,
+      account_name: tx.accountName || "",
+      pending: tx.pending,
+      split: tx.splitId !== null,
+      tags: tx.tags,
+      notes: tx.notes,
+      internal_transfer: tx.transferPairId !== null,
+    };
+  });
 
   // Generate CSV for download
-  const csvContent = convertTransactionsToCSV(structuredTransactions);
+  const csvContent = convertTransactionsToCSV(
+    structuredTransactions.map((tx, index) => ({
+      ...tx,
+      location_label: formatTransactionLocation(transactions[index].location),
+    }))
+  );
   const downloadUrl = generateSignedUrl(baseUrl, userId, "transactions", 600);
   userTransactionData.set(userId, csvContent);
 
@@ -204,6 +335,9 @@ Please connect your account first by saying:
   let responseText = `📊 **Transactions Retrieved**\n\n`;
   responseText += `Found ${transactions.length} transactions from database\n\n`;
   responseText += `**Date Range:**\n- Start: ${startDate}\n- End: ${endDate}\n\n`;
+  if (!args.include_transfers) {
+    responseText += `Transfers between your own accounts are left out (include_transfers shows them).\n\n`;
+  }
   responseText += `**Raw Data Download:**\n\`\`\`bash\ncurl "${downloadUrl}" -o transactions.csv\n\`\`\`\n\n`;
   responseText += `**Note:** Download link expires in 10 minutes.`;
   responseText += stalenessWarning;
@@ -214,34 +348,44 @@ Please connect your account first by saying:
 TRANSACTION DATA ANALYSIS GUIDELINES:
 
 1. SPENDING CATEGORIES (exclude these when analyzing spending):
-   - Income: Money received (salary, refunds, etc.)
-   - Transfer: Money moved between accounts
+   - Transactions with exclude_from_spending = true (the user's categories: ${excludedFromSpending.join(", ") || "none"})
    - Payment: Bill payments and transfers out
+   - Internal transfers between the user's own accounts are already left out unless include_transfers was set; when included, skip rows with internal_transfer = true
 
 2. SPENDING ANALYSIS:
    - Use category field for categorization (AI-assigned using user's custom rules)
    - Spending transactions typically have positive amounts
    - Income transactions are in the "Income" category
    - Group by category and sum amounts to get spending by category
+   - Subcategories carry their parent in parent_category; roll them up for a top-level view
 
 3. LARGE EXPENSES:
    - To find what a large expense is, look at the top 5 purchase in a given month and assume that if their is a price drop off, the purchases larger than that are considered large expenses.
    - Consider separating recurring vs. one-time expenses
 
 4. DATA STRUCTURE:
+   - transaction_id: Transaction ID (a split transaction's rows share it)
    - date: Transaction date (YYYY-MM-DD)
-   - description: Merchant or transaction description
+   - description: Merchant or transaction description (raw bank text, plus the note on a split)
+   - merchant_name: Cleaned merchant name (null when unidentified); prefer it over description when grouping
+   - payment_channel: online, in store, or other
+   - location / website / logo_url / counterparties: Merchant details from the bank data provider
    - amount: Transaction amount (positive = spending, negative = income in some systems)
    - category: AI-assigned category using user's custom categorization rules
+   - parent_category: Parent of a subcategory (null for top-level categories)
+   - exclude_from_spending: Whether the category is left out of spending totals
    - account_name: Which account the transaction came from
    - pending: Whether transaction is still pending
+   - tags / notes: The user's own tags and note (tags like "reimbursable" or "tax-deductible" often mean the amount isn't really the user's spending)
+   - split: The row is one part of a split transaction; its amount and category are the split's, so sum rows as-is
+   - internal_transfer: One side of a matched transfer between the user's own accounts (money moved, not spent or earned)
   `.trim();
 
   const visualizationInstructions = `
 VISUALIZATION RECOMMENDATIONS:
 
 1. SPENDING BY CATEGORY (Bar Chart):
-   - Filter out Income, Transfer, and Payment categories
+   - Filter out transactions with exclude_from_spending = true and Payment categories
    - Group remaining transactions by category
    - Sum the amounts for each category
    - Sort categories by total amount (highest first)
@@ -250,11 +394,11 @@ VISUALIZATION RECOMMENDATIONS:
 2. SPENDING OVER TIME (Line Chart):
    - Group transactions by date
    - Calculate daily/weekly/monthly spending totals
-   - Exclude Income/Transfer/Payment categories
+   - Exclude transactions with exclude_from_spending = true and Payment categories
    - Show trend line
 
 3. TOP MERCHANTS:
-   - Group by description field
+   - Group by merchant_name, falling back to description when it is null
    - Sum amounts per merchant
    - Show top 10 merchants by spending
 
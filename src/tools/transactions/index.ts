@@ -10,6 +10,26 @@ import {
   GetTransactionsOutputSchema,
 } from "./get-transactions.js";
 import { getRawTransactionsHandler } from "./get-raw-transactions.js";
+import {
+  getRecurringTransactionsHandler,
+  GetRecurringTransactionsArgsSchema,
+  GetRecurringTransactionsOutputSchema,
+} from "./get-recurring-transactions.js";
+import {
+  setTransactionCategoryHandler,
+  SetTransactionCategoryArgsSchema,
+  setTransactionCategoriesHandler,
+  SetTransactionCategoriesArgsSchema,
+} from "./set-transaction-category.js";
+import { splitTransactionHandler, SplitTransactionArgsSchema } from "./split-transaction.js";
+import {
+  setTransactionNoteHandler,
+  SetTransactionNoteArgsSchema,
+  tagTransactionsHandler,
+  TagTransactionsArgsSchema,
+  untagTransactionsHandler,
+} from "./annotate-transactions.js";
+import { matchTransfersHandler, MatchTransfersArgsSchema } from "./match-transfers.js";
 import { getBaseUrl } from "../../utils/config.js";
 import { getSupabaseForUser } from "../../storage/supabase.js";
 import type { ToolDefinition } from "../types.js";
@@ -63,5 +83,143 @@ export function getTransactionTools(): ToolDefinition[] {
         return getRawTransactionsHandler(userId, baseUrl, args, plaidClient!);
       },
     },
+    {
+      name: "get-recurring-transactions",
+      description: "List recurring charges and subscriptions detected from transaction history. Shows cadence (weekly to annual), expected amount, next expected date, and flags price increases and missed or cancelled subscriptions. Use this instead of scanning raw transactions to find subscriptions.",
+      inputSchema: GetRecurringTransactionsArgsSchema,
+      outputSchema: GetRecurringTransactionsOutputSchema,
+      options: {
+        readOnlyHint: true,
+        securitySchemes: [{ type: "oauth2" }],
+      },
+      handler: async (args, { authInfo }) => {
+        const userId = authInfo?.extra?.userId as string | undefined;
+        if (!userId) {
+          throw new Error("User authentication required");
+        }
+
+        const supabaseClient = getSupabaseForUser(userId);
+        return getRecurringTransactionsHandler(userId, args, supabaseClient);
+      },
+    },
+    {
+      name: "set-transaction-category",
+      description: "Manually set the category of a single transaction, e.g. when the user says 'that Costco charge was Business'. The override is recorded as manual and locked: rule changes and recategorization never overwrite it. Set create_rule to also categorize future transactions from the same merchant this way.",
+      inputSchema: SetTransactionCategoryArgsSchema,
+      options: {
+        securitySchemes: [{ type: "oauth2" }],
+      },
+      handler: async (args, { authInfo }) => {
+        const userId = authInfo?.extra?.userId as string | undefined;
+        if (!userId) {
+          throw new Error("User authentication required");
+        }
+
+        const supabaseClient = getSupabaseForUser(userId);
+        return setTransactionCategoryHandler(userId, args, supabaseClient);
+      },
+    },
+    {
+      name: "set-transaction-categories",
+      description: "Manually set the same category on several transactions at once. Each one becomes a locked manual override that recategorization never overwrites. For a pattern that should apply to future transactions too, use add-categorization-rule instead.",
+      inputSchema: SetTransactionCategoriesArgsSchema,
+      options: {
+        securitySchemes: [{ type: "oauth2" }],
+      },
+      handler: async (args, { authInfo }) => {
+        const userId = authInfo?.extra?.userId as string | undefined;
+        if (!userId) {
+          throw new Error("User authentication required");
+        }
+
+        const supabaseClient = getSupabaseForUser(userId);
+        return setTransactionCategoriesHandler(userId, args, supabaseClient);
+      },
+    },
+    {
+      name: "split-transaction",
+      description: "Split one transaction into parts with their own amount, category and optional note, e.g. a $120 Target run that was $80 groceries and $40 household. The amounts must add up exactly to the transaction. Spending totals, category filters in get-transactions and budgets then count the parts instead of the whole transaction. Calling it again replaces the split; clear=true removes it.",
+      inputSchema: SplitTransactionArgsSchema,
+      options: {
+        securitySchemes: [{ type: "oauth2" }],
+      },
+      handler: async (args, { authInfo }) => {
+        const userId = authInfo?.extra?.userId as string | undefined;
+        if (!userId) {
+          throw new Error("User authentication required");
+        }
+
+        const supabaseClient = getSupabaseForUser(userId);
+        return splitTransactionHandler(userId, args, supabaseClient);
+      },
+    },
+    {
+      name: "tag-transactions",
+      description: "Add tags to transactions so they can be found later, e.g. 'reimbursable', 'vacation-2026' or 'tax-deductible'. Existing tags are kept. Filter get-transactions by tags, or create a budget that targets a tag.",
+      inputSchema: TagTransactionsArgsSchema,
+      options: {
+        securitySchemes: [{ type: "oauth2" }],
+      },
+      handler: async (args, { authInfo }) => {
+        const userId = authInfo?.extra?.userId as string | undefined;
+        if (!userId) {
+          throw new Error("User authentication required");
+        }
+
+        const supabaseClient = getSupabaseForUser(userId);
+        return tagTransactionsHandler(userId, args, supabaseClient);
+      },
+    },
+    {
+      name: "untag-transactions",
+      description: "Remove tags from transactions. Other tags on the transactions are kept.",
+      inputSchema: TagTransactionsArgsSchema,
+      options: {
+        securitySchemes: [{ type: "oauth2" }],
+      },
+      handler: async (args, { authInfo }) => {
+        const userId = authInfo?.extra?.userId as string | undefined;
+        if (!userId) {
+          throw new Error("User authentication required");
+        }
+
+        const supabaseClient = getSupabaseForUser(userId);
+        return untagTransactionsHandler(userId, args, supabaseClient);
+      },
+    },
+    {
+      name: "set-transaction-note",
+      description: "Add or replace the free-text note on a transaction (e.g. 'dinner with Sam, split later'). An empty note removes it. Notes show up in get-transactions and its CSV export.",
+      inputSchema: SetTransactionNoteArgsSchema,
+      options: {
+        securitySchemes: [{ type: "oauth2" }],
+      },
+      handler: async (args, { authInfo }) => {
+        const userId = authInfo?.extra?.userId as string | undefined;
+        if (!userId) {
+          throw new Error("User authentication required");
+        }
+
+        const supabaseClient = getSupabaseForUser(userId);
+        return setTransactionNoteHandler(userId, args, supabaseClient);
+      },
+    },
+    {
+      name: "match-transfers",
+      description: "Find transfers between the user's own accounts and credit card payments (an outflow and an inflow of the same amount on different accounts within a few days) and link both sides as an internal transfer. Linked transfers are left out of get-transactions, budgets and cash-flow totals by default. Runs automatically after every sync; use unlink_transaction_id to undo a wrong match.",
+      inputSchema: MatchTransfersArgsSchema,
+      options: {
+        securitySchemes: [{ type: "oauth2" }],
+      },
+      handler: async (args, { authInfo }) => {
+        const userId = authInfo?.extra?.userId as string | undefined;
+        if (!userId) {
+          throw new Error("User authentication required");
+        }
+
+        const supabaseClient = getSupabaseForUser(userId);
+        return matchTransfersHandler(userId, args, supabaseClient);
+      },
+    },
   ];
 }
@@ -0,0 +1,137 @@
+/**
+ * Match Transfers Tool
+ * Finds transfers between the user's own accounts (and credit card payments) and links both
+ * sides, or unlinks a match that isn't really a transfer
+ */
+
+import { z } from "zod";
+import type { SupabaseClient } from "@supabase/supabase-js";
+import type { Database } from "../../storage/database.types.js";
+import { findTransactionsByIds, Transaction } from "../../storage/repositories/transactions.js";
+import {
+  matchInternalTransfers,
+  unlinkInternalTransfer,
+} from "../../services/transfer-matching-service.js";
+import { TRANSFER_MATCH_WINDOW_DAYS } from "../../utils/transfer-matching.js";
+import { logToolEvent } from "../../utils/logger.js";
+
+// Input schema for match-transfers tool
+export const MatchTransfersArgsSchema = {
+  lookback_days: z
+    .number()
+    .int()
+    .min(1)
+    .max(730)
+    .optional()
+    .describe("How many days of history to check (default: 90; syncs check the last 90 days automatically)"),
+  unlink_transaction_id: z
+    .string()
+    .optional()
+    .describe("Unlink the matched transfer this transaction belongs to; both sides count as spending/income again and are never matched again"),
+};
+
+export type MatchTransfersArgs = {
+  lookback_days?: number;
+  unlink_transaction_id?: string;
+};
+
+function describeTransaction(tx: Transaction): string {
+  return `${tx.name} (${tx.date}, ${tx.accountName || tx.accountId})`;
+}
+
+/**
+ * Match Transfers Tool
+ * Links matching outflow/inflow pairs so spending, budgets and cash flow leave them out
+ */
+export async function matchTransfersHandler(
+  userId: string,
+  args: MatchTransfersArgs,
+  supabaseClient: SupabaseClient<Database>
+) {
+  if (args.unlink_transaction_id) {
+    logToolEvent("match-transfers", "unlink-start", { userId, transactionId: args.unlink_transaction_id });
+
+    const [transaction] = await findTransactionsByIds([args.unlink_transaction_id], supabaseClient);
+
+    if (!transaction) {
+      return {
+        content: [
+          {
+            type: "text" as const,
+            text: `⚠️ **Transaction Not Found**\n\nNo transaction with ID "${args.unlink_transaction_id}". Use get-transactions with include_transfers=true to look up transaction IDs.`,
+          },
+        ],
+      };
+    }
+
+    const unlinked = await unlinkInternalTransfer(userId, transaction, supabaseClient);
+
+    if (!unlinked) {
+      return {
+        content: [
+          {
+            type: "text" as const,
+            text: `ℹ️ **Not a Matched Transfer**\n\n${describeTransaction(transaction)} isn't linked to another transaction.`,
+          },
+        ],
+      };
+    }
+
+    logToolEvent("match-transfers", "unlinked", { userId, count: unlinked.length });
+
+    let responseText = `✅ **Transfer Unlinked**\n\n`;
+    for (const tx of unlinked) {
+      responseText += `- ${describeTransaction(tx)}: $${Math.abs(tx.amount).toFixed(2)}\n`;
+    }
+    responseText += `\nThese count as spending and income again and won't be matched again. Budgets update in the background.`;
+
+    return {
+      content: [
+        {
+          type: "text" as const,
+          text: responseText,
+        },
+      ],
+    };
+  }
+
+  logToolEvent("match-transfers", "start", { userId, lookbackDays: args.lookback_days });
+
+  const pairs = await matchInternalTransfers(userId, supabaseClient, args.lookback_days);
+
+  logToolEvent("match-transfers", "complete", { userId, pairCount: pairs.length });
+
+  if (pairs.length === 0) {
+    return {
+      content: [
+        {
+          type: "text" as const,
+          text: `ℹ️ **No New Transfers Found**\n\nNo unmatched transactions of equal amount moved between your accounts within ${TRANSFER_MATCH_WINDOW_DAYS} days of each other.`,
+        },
+      ],
+    };
+  }
+
+  const byId = new Map(
+    (await findTransactionsByIds(pairs.flatMap((pair) => [pair.outflowId, pair.inflowId]), supabaseClient))
+      .map((tx) => [tx.transactionId, tx])
+  );
+
+  let responseText = `✅ **Transfers Linked**\n\n`;
+  responseText += `Found ${pairs.length} transfer${pairs.length === 1 ? "" : "s"} between your accounts:\n\n`;
+  for (const pair of pairs) {
+    const outflow = byId.get(pair.outflowId);
+    const inflow = byId.get(pair.inflowId);
+    responseText += `- $${pair.amount.toFixed(2)}: ${outflow ? describeTransaction(outflow) : pair.outflowId} → ${inflow ? describeTransaction(inflow) : pair.inflowId}\n`;
+  }
+  responseText += `\nThese are left out of spending, budgets and cash-flow totals. If one isn't really a transfer, unlink it with unlink_transaction_id.`;
+
+  return {
+    content: [
+      {
+        type: "text" as const,
+        text: responseText,
+      },
+    ],
+  };
+}
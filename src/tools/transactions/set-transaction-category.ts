@@ -0,0 +1,181 @@
+/**
+ * Set Transaction Category Tools
+ * Manual category overrides that are locked against recategorization
+ */
+
+import { z } from "zod";
+import type { SupabaseClient } from "@supabase/supabase-js";
+import type { Database } from "../../storage/database.types.js";
+import { createCategorizationRule } from "../../storage/categorization/categorization-rules.js";
+import { overrideTransactionCategory } from "../../services/categorization-service.js";
+import { buildMerchantPattern } from "../../utils/categorization-rules.js";
+import { logToolEvent } from "../../utils/logger.js";
+
+// Input schema for set-transaction-category tool
+export const SetTransactionCategoryArgsSchema = {
+  transaction_id: z
+    .string()
+    .describe("Transaction ID to recategorize (from get-transactions)"),
+  category: z
+    .string()
+    .describe("Category to assign (e.g., 'Groceries', 'Business')"),
+  create_rule: z
+    .boolean()
+    .optional()
+    .describe("Also add a categorization rule so future transactions from this merchant get the same category (default: false)"),
+};
+
+export type SetTransactionCategoryArgs = {
+  transaction_id: string;
+  category: string;
+  create_rule?: boolean;
+};
+
+// Input schema for set-transaction-categories tool
+export const SetTransactionCategoriesArgsSchema = {
+  transaction_ids: z
+    .array(z.string())
+    .min(1)
+    .max(500)
+    .describe("Transaction IDs to recategorize (from get-transactions)"),
+  category: z
+    .string()
+    .describe("Category to assign to every listed transaction"),
+};
+
+export type SetTransactionCategoriesArgs = {
+  transaction_ids: string[];
+  category: string;
+};
+
+/**
+ * Set Transaction Category Tool
+ * Overrides one transaction's category and optionally turns the correction into a merchant rule
+ */
+export async function setTransactionCategoryHandler(
+  userId: string,
+  args: SetTransactionCategoryArgs,
+  supabaseClient: SupabaseClient<Database>
+) {
+  const category = args.category.trim();
+  if (!category) {
+    return {
+      content: [
+        {
+          type: "text" as const,
+          text: "⚠️ **Invalid Category**\n\nProvide a non-empty category name.",
+        },
+      ],
+    };
+  }
+
+  logToolEvent("set-transaction-category", "start", { userId, transactionId: args.transaction_id });
+
+  const [updated] = await overrideTransactionCategory(
+    userId,
+    [args.transaction_id],
+    category,
+    supabaseClient
+  );
+
+  if (!updated) {
+    return {
+      content: [
+        {
+          type: "text" as const,
+          text: `⚠️ **Transaction Not Found**\n\nNo transaction with ID "${args.transaction_id}". Use get-transactions to look up transaction IDs.`,
+        },
+      ],
+    };
+  }
+
+  let responseText = `✅ **Category Updated**\n\n`;
+  responseText += `**Transaction:** ${updated.name} (${updated.date}, $${Math.abs(updated.amount).toFixed(2)})\n`;
+  responseText += `**Category:** ${category}\n\n`;
+  responseText += `This is a manual override: rule changes and recategorization will not change it.`;
+
+  let ruleId: string | null = null;
+  if (args.create_rule) {
+    const merchantPattern = buildMerchantPattern(updated.name);
+    if (merchantPattern) {
+      const rule = await createCategorizationRule(userId, {
+        merchantPattern,
+        merchantMatchType: "regex",
+        category,
+      });
+      ruleId = rule.id;
+      responseText += `\n\n**Rule Added:** descriptions matching /${merchantPattern}/i are now categorized as ${category} during sync (rule ID ${rule.id}).`;
+    } else {
+      responseText += `\n\n⚠️ Could not build a merchant rule from "${updated.name}". Use add-categorization-rule to create one by hand.`;
+    }
+  }
+
+  logToolEvent("set-transaction-category", "complete", { userId, transactionId: args.transaction_id, ruleId });
+
+  return {
+    content: [
+      {
+        type: "text" as const,
+        text: responseText,
+      },
+    ],
+  };
+}
+
+/**
+ * Set Transaction Categories Tool
+ * Bulk variant: applies the same manual override to many transactions
+ */
+export async function setTransactionCategoriesHandler(
+  userId: string,
+  args: SetTransactionCategoriesArgs,
+  supabaseClient: SupabaseClient<Database>
+) {
+  const category = args.category.trim();
+  if (!category) {
+    return {
+      content: [
+        {
+          type: "text" as const,
+          text: "⚠️ **Invalid Category**\n\nProvide a non-empty category name.",
+        },
+      ],
+    };
+  }
+
+  const transactionIds = [...new Set(args.transaction_ids)];
+
+  logToolEvent("set-transaction-categories", "start", { userId, count: transactionIds.length });
+
+  const updated = await overrideTransactionCategory(
+    userId,
+    transactionIds,
+    category,
+    supabaseClient
+  );
+
+  const updatedIds = new Set(updated.map((tx) => tx.transactionId));
+  const notFound = transactionIds.filter((id) => !updatedIds.has(id));
+
+  logToolEvent("set-transaction-categories", "complete", {
+    userId,
+    updated: updated.length,
+    notFound: notFound.length,
+  });
+
+  let responseText = `✅ **Categories Updated**\n\n`;
+  responseText += `Set ${updated.length} transaction${updated.length === 1 ? "" : "s"} to **${category}** as manual overrides. `;
+  responseText += `Rule changes and recategorization will not change them.`;
+  if (notFound.length > 0) {
+    responseText += `\n\n⚠️ Not found: ${notFound.join(", ")}`;
+  }
+
+  return {
+    content: [
+      {
+        type: "text" as const,
+        text: responseText,
+      },
+    ],
+  };
+}
@@ -0,0 +1,122 @@
+/**
+ * Split Transaction Tool
+ * Divides one transaction into parts with their own amount, category and note
+ */
+
+import { z } from "zod";
+import type { SupabaseClient } from "@supabase/supabase-js";
+import type { Database } from "../../storage/database.types.js";
+import { findTransactionsByIds } from "../../storage/repositories/transactions.js";
+import { splitTransaction, unsplitTransaction } from "../../services/categorization-service.js";
+import { MAX_SPLITS, validateTransactionSplits } from "../../utils/transaction-splits.js";
+import { logToolEvent } from "../../utils/logger.js";
+
+// Input schema for split-transaction tool
+export const SplitTransactionArgsSchema = {
+  transaction_id: z
+    .string()
+    .describe("Transaction ID to split (from get-transactions)"),
+  splits: z
+    .array(
+      z.object({
+        amount: z.number().describe("Amount of this part, same sign as the transaction (e.g., 80.25)"),
+        category: z.string().describe("Category for this part (e.g., 'Groceries', 'Household')"),
+        note: z.string().optional().describe("Optional note, e.g. 'paper towels'"),
+      })
+    )
+    .max(MAX_SPLITS)
+    .optional()
+    .describe("The parts; amounts must add up exactly to the transaction amount. Replaces any existing split. Required unless clear=true"),
+  clear: z
+    .boolean()
+    .optional()
+    .describe("Remove the split so the whole transaction counts under its own category again (default: false)"),
+};
+
+export type SplitTransactionArgs = {
+  transaction_id: string;
+  splits?: { amount: number; category: string; note?: string }[];
+  clear?: boolean;
+};
+
+/**
+ * Split Transaction Tool
+ * Saves (or clears) a transaction's splits after checking they add up to the transaction
+ */
+export async function splitTransactionHandler(
+  userId: string,
+  args: SplitTransactionArgs,
+  supabaseClient: SupabaseClient<Database>
+) {
+  logToolEvent("split-transaction", "start", { userId, transactionId: args.transaction_id, clear: !!args.clear });
+
+  const [transaction] = await findTransactionsByIds([args.transaction_id], supabaseClient);
+
+  if (!transaction) {
+    return {
+      content: [
+        {
+          type: "text" as const,
+          text: `⚠️ **Transaction Not Found**\n\nNo transaction with ID "${args.transaction_id}". Use get-transactions to look up transaction IDs.`,
+        },
+      ],
+    };
+  }
+
+  const label = `${transaction.name} (${transaction.date}, $${Math.abs(transaction.amount).toFixed(2)})`;
+
+  if (args.clear) {
+    const removed = await unsplitTransaction(userId, transaction, supabaseClient);
+
+    logToolEvent("split-transaction", "cleared", { userId, transactionId: args.transaction_id, removed });
+
+    return {
+      content: [
+        {
+          type: "text" as const,
+          text: removed > 0
+            ? `✅ **Split Removed**\n\n**Transaction:** ${label}\n\nThe whole amount counts under ${transaction.customCategory || "Uncategorized"} again.`
+            : `ℹ️ **Not Split**\n\n${label} has no split to remove.`,
+        },
+      ],
+    };
+  }
+
+  const splits = (args.splits ?? []).map((split) => ({
+    amount: split.amount,
+    category: split.category.trim(),
+    note: split.note?.trim() || null,
+  }));
+
+  const problem = validateTransactionSplits(transaction.amount, splits);
+  if (problem) {
+    return {
+      content: [
+        {
+          type: "text" as const,
+          text: `⚠️ **Invalid Split**\n\n${problem}\n\n**Transaction:** ${label}`,
+        },
+      ],
+    };
+  }
+
+  const saved = await splitTransaction(userId, transaction, splits, supabaseClient);
+
+  logToolEvent("split-transaction", "complete", { userId, transactionId: args.transaction_id, splitCount: saved.length });
+
+  let responseText = `✅ **Transaction Split**\n\n`;
+  responseText += `**Transaction:** ${label}\n\n`;
+  for (const split of saved) {
+    responseText += `- $${Math.abs(split.amount).toFixed(2)} → ${split.category}${split.note ? ` (${split.note})` : ""}\n`;
+  }
+  responseText += `\nSpending totals, category filters and budgets now use these amounts instead of the full transaction. Budgets update in the background.`;
+
+  return {
+    content: [
+      {
+        type: "text" as const,
+        text: responseText,
+      },
+    ],
+  };
+}
@@ -0,0 +1,58 @@
+/**
+ * Background Job Status
+ * How a job's counters translate into its final status and the progress shown to the user
+ */
+
+import type { BackgroundJob } from "../storage/repositories/background-jobs.js";
+
+/**
+ * A running job with no progress write for this long has probably died with its process
+ */
+export const STALE_JOB_THRESHOLD_MS = 15 * 60 * 1000;
+
+/**
+ * Final status from a job's counters
+ * Nothing failed → complete; some items succeeded → partial; otherwise failed.
+ * A fatal error still reports partial when earlier batches were saved.
+ */
+export function resolveBackgroundJobStatus(
+  counts: Pick<BackgroundJob, "processedCount" | "failedCount">,
+  fatal: boolean
+): "complete" | "partial" | "failed" {
+  const succeeded = counts.processedCount - counts.failedCount;
+  if (!fatal && counts.failedCount === 0) {
+    return "complete";
+  }
+  return succeeded > 0 ? "partial" : "failed";
+}
+
+/**
+ * Percentage of items processed, or null while the total is unknown
+ */
+export function getJobPercentComplete(
+  job: Pick<BackgroundJob, "status" | "totalCount" | "processedCount">
+): number | null {
+  if (job.status === "complete") {
+    return 100;
+  }
+  if (job.totalCount === null) {
+    return null;
+  }
+  if (job.totalCount === 0) {
+    return job.status === "queued" || job.status === "running" ? 0 : 100;
+  }
+  return Math.min(100, Math.round((job.processedCount / job.totalCount) * 100));
+}
+
+/**
+ * Whether an unfinished job has stopped reporting progress
+ */
+export function isBackgroundJobStale(
+  job: Pick<BackgroundJob, "status" | "updatedAt">,
+  now: Date = new Date()
+): boolean {
+  if (job.status !== "queued" && job.status !== "running") {
+    return false;
+  }
+  return now.getTime() - new Date(job.updatedAt).getTime() > STALE_JOB_THRESHOLD_MS;
+}
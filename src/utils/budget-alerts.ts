@@ -0,0 +1,76 @@
+/**
+ * Budget Alerts
+ * Decides which alert threshold a budget's spending has crossed and words the alert
+ *
+ * Only the highest crossed threshold raises an alert, so a sync that jumps from 50% to 110%
+ * sends "over budget" rather than both the 80% and 100% alerts. Pure functions - no database
+ * access - so the logic can be unit tested directly.
+ */
+
+export const DEFAULT_ALERT_THRESHOLDS = [80, 100];
+
+// Thresholds are percentages of the period limit
+export const MAX_ALERT_THRESHOLD = 500;
+
+export interface BudgetAlert {
+  budgetId: string;
+  budgetTitle: string;
+  threshold: number;
+  percentage: number; // Rounded share of the limit spent
+  spent: number;
+  limit: number;
+  periodStart: string; // YYYY-MM-DD
+  periodEnd: string; // YYYY-MM-DD
+}
+
+/**
+ * Sort and de-duplicate thresholds, or return null if any is out of range
+ */
+export function normalizeAlertThresholds(thresholds: number[]): number[] | null {
+  if (thresholds.some((threshold) => !Number.isInteger(threshold) || threshold < 1 || threshold > MAX_ALERT_THRESHOLD)) {
+    return null;
+  }
+  return [...new Set(thresholds)].sort((a, b) => a - b);
+}
+
+/**
+ * Highest threshold the spending has reached, or null when none has been
+ */
+export function getCrossedAlertThreshold(thresholds: number[], percentage: number): number | null {
+  const crossed = thresholds.filter((threshold) => percentage >= threshold);
+  return crossed.length > 0 ? Math.max(...crossed) : null;
+}
+
+/**
+ * Identifies one alert: each budget period raises each threshold at most once
+ */
+export function getBudgetAlertDedupeKey(budgetId: string, periodStart: string, threshold: number): string {
+  return `budget:${budgetId}:${periodStart}:${threshold}`;
+}
+
+/**
+ * Short description of a budget's alert setting, e.g. "80%, 100%"
+ */
+export function describeAlertThresholds(thresholds: number[]): string {
+  return thresholds.length > 0 ? thresholds.map((threshold) => `${threshold}%`).join(", ") : "off";
+}
+
+/**
+ * Title and message for an alert
+ */
+export function formatBudgetAlert(alert: BudgetAlert): { title: string; message: string } {
+  const spending = `$${alert.spent.toFixed(2)} of $${alert.limit.toFixed(2)} (${alert.percentage}%)`;
+  const period = `${alert.periodStart} to ${alert.periodEnd}`;
+
+  if (alert.threshold >= 100) {
+    return {
+      title: `${alert.budgetTitle} is over budget`,
+      message: `You've spent ${spending} of your ${alert.budgetTitle} budget for ${period}.`,
+    };
+  }
+
+  return {
+    title: `${alert.budgetTitle} reached ${alert.threshold}%`,
+    message: `You've spent ${spending} of your ${alert.budgetTitle} budget for ${period}, leaving $${Math.max(0, alert.limit - alert.spent).toFixed(2)}.`,
+  };
+}
@@ -0,0 +1,237 @@
+/**
+ * Budget Criteria
+ * Structured budget filters (categories, accounts, merchant patterns, amount range, tags)
+ * evaluated locally, so simple budgets don't need Claude at all
+ *
+ * Every criterion that is set must hold; a list criterion holds when any of its values matches.
+ */
+
+import type { Budget } from "../storage/budgets/budgets.js";
+import { normalizeTag } from "./transaction-tags.js";
+
+export interface BudgetCriteria {
+  categories: string[];
+  accountIds: string[];
+  merchantPatterns: string[]; // Case-insensitive "contains"
+  minAmount: number | null; // Absolute amount, inclusive
+  maxAmount: number | null;
+  tags: string[];
+}
+
+/**
+ * Transaction (or split) fields criteria can match on
+ */
+export interface BudgetCriteriaInput {
+  name: string;
+  amount: number;
+  customCategory: string | null;
+  accountId?: string;
+  tags?: string[];
+}
+
+type BudgetCriteriaColumns = Pick<
+  Budget,
+  | "filter_categories"
+  | "filter_account_ids"
+  | "filter_merchant_patterns"
+  | "filter_min_amount"
+  | "filter_max_amount"
+  | "filter_tags"
+>;
+
+export function getBudgetCriteria(budget: BudgetCriteriaColumns): BudgetCriteria {
+  return {
+    categories: budget.filter_categories ?? [],
+    accountIds: budget.filter_account_ids ?? [],
+    merchantPatterns: budget.filter_merchant_patterns ?? [],
+    minAmount: budget.filter_min_amount === null ? null : Number(budget.filter_min_amount),
+    maxAmount: budget.filter_max_amount === null ? null : Number(budget.filter_max_amount),
+    tags: budget.filter_tags ?? [],
+  };
+}
+
+export function hasBudgetCriteria(criteria: BudgetCriteria): boolean {
+  return (
+    criteria.categories.length > 0 ||
+    criteria.accountIds.length > 0 ||
+    criteria.merchantPatterns.length > 0 ||
+    criteria.minAmount !== null ||
+    criteria.maxAmount !== null ||
+    criteria.tags.length > 0
+  );
+}
+
+/**
+ * @returns An error message, or null when the criteria are valid
+ */
+export function validateBudgetCriteria(criteria: BudgetCriteria): string | null {
+  if (criteria.merchantPatterns.some((pattern) => !pattern.trim())) {
+    return "Merchant patterns can't be empty";
+  }
+  if (criteria.minAmount !== null && criteria.maxAmount !== null && criteria.minAmount > criteria.maxAmount) {
+    return "min_amount must be less than or equal to max_amount";
+  }
+  return null;
+}
+
+/**
+ * Whether a transaction meets every criterion
+ * @param categoryNames - Lowercase category names to match, with subcategories already added;
+ * defaults to criteria.categories
+ */
+export function matchesBudgetCriteria(
+  criteria: BudgetCriteria,
+  tx: BudgetCriteriaInput,
+  categoryNames: Set<string> = new Set(criteria.categories.map((name) => name.toLowerCase()))
+): boolean {
+  if (criteria.categories.length > 0 && !categoryNames.has((tx.customCategory || "").trim().toLowerCase())) {
+    return false;
+  }
+
+  if (criteria.accountIds.length > 0 && !(tx.accountId && criteria.accountIds.includes(tx.accountId))) {
+    return false;
+  }
+
+  if (criteria.merchantPatterns.length > 0) {
+    const name = tx.name.toLowerCase();
+    if (!criteria.merchantPatterns.some((pattern) => name.includes(pattern.toLowerCase()))) {
+      return false;
+    }
+  }
+
+  const amount = Math.abs(tx.amount);
+  if (criteria.minAmount !== null && amount < criteria.minAmount) {
+    return false;
+  }
+  if (criteria.maxAmount !== null && amount > criteria.maxAmount) {
+    return false;
+  }
+
+  if (criteria.tags.length > 0 && !criteria.tags.some((tag) => tx.tags?.includes(tag))) {
+    return false;
+  }
+
+  return true;
+}
+
+/**
+ * One-line summary, e.g. "category Food & Dining; account acc_1; $5.00-$50.00"
+ */
+export function describeBudgetCriteria(criteria: BudgetCriteria): string {
+  const parts: string[] = [];
+  if (criteria.categories.length > 0) {
+    parts.push(`${criteria.categories.length > 1 ? "categories" : "category"} ${criteria.categories.join(", ")}`);
+  }
+  if (criteria.accountIds.length > 0) {
+    parts.push(`${criteria.accountIds.length > 1 ? "accounts" : "account"} ${criteria.accountIds.join(", ")}`);
+  }
+  if (criteria.merchantPatterns.length > 0) {
+    parts.push(`merchant contains ${criteria.merchantPatterns.map((pattern) => `"${pattern}"`).join(" or ")}`);
+  }
+  if (criteria.minAmount !== null || criteria.maxAmount !== null) {
+    if (criteria.maxAmount === null) {
+      parts.push(`$${criteria.minAmount!.toFixed(2)} or more`);
+    } else if (criteria.minAmount === null) {
+      parts.push(`up to $${criteria.maxAmount.toFixed(2)}`);
+    } else {
+      parts.push(`$${criteria.minAmount.toFixed(2)}-$${criteria.maxAmount.toFixed(2)}`);
+    }
+  }
+  if (criteria.tags.length > 0) {
+    parts.push(`${criteria.tags.length > 1 ? "tags" : "tag"} ${criteria.tags.join(", ")}`);
+  }
+  return parts.join("; ");
+}
+
+/**
+ * What a budget matches on, one line each: its tag, or its criteria and/or filter prompt
+ */
+export function describeBudgetFilter(
+  budget: BudgetCriteriaColumns & Pick<Budget, "tag" | "filter_prompt">
+): string[] {
+  if (budget.tag) {
+    return [`Tag: ${budget.tag}`];
+  }
+
+  const lines: string[] = [];
+  const criteria = getBudgetCriteria(budget);
+  if (hasBudgetCriteria(criteria)) {
+    lines.push(`Criteria: ${describeBudgetCriteria(criteria)}`);
+  }
+  if (budget.filter_prompt) {
+    const prompt = budget.filter_prompt;
+    lines.push(`${lines.length > 0 ? "Refined by" : "Filter"}: ${prompt.substring(0, 100)}${prompt.length > 100 ? "..." : ""}`);
+  }
+  return lines;
+}
+
+/**
+ * Budgets matched entirely locally (tag or criteria without a prompt) can be labeled
+ * right away instead of in a background job
+ */
+export function budgetNeedsClaude(budget: Pick<Budget, "tag" | "filter_prompt">): boolean {
+  return !budget.tag && Boolean(budget.filter_prompt);
+}
+
+/**
+ * Criteria fields as create-budget and update-budget-rules accept them
+ */
+export interface BudgetCriteriaArgs {
+  categories?: string[];
+  account_ids?: string[];
+  merchant_patterns?: string[];
+  min_amount?: number | null;
+  max_amount?: number | null;
+  tags?: string[];
+}
+
+/**
+ * Apply tool arguments over a budget's criteria: omitted fields keep their value, [] or null
+ * clears them. Tags are normalized the same way as tag-transactions
+ */
+export function applyBudgetCriteriaArgs(
+  base: BudgetCriteria,
+  args: BudgetCriteriaArgs
+): { criteria: BudgetCriteria } | { error: string } {
+  const tags = args.tags?.map((tag) => ({ input: tag, normalized: normalizeTag(tag) }));
+  const invalidTag = tags?.find((tag) => !tag.normalized);
+  if (invalidTag) {
+    return { error: `"${invalidTag.input}" is not a valid tag. Tags use letters, numbers, hyphens and underscores.` };
+  }
+
+  const trimAll = (values: string[]) => [...new Set(values.map((value) => value.trim()).filter(Boolean))];
+  const criteria: BudgetCriteria = {
+    categories: args.categories ? trimAll(args.categories) : base.categories,
+    accountIds: args.account_ids ? trimAll(args.account_ids) : base.accountIds,
+    merchantPatterns: args.merchant_patterns ? trimAll(args.merchant_patterns) : base.merchantPatterns,
+    minAmount: args.min_amount !== undefined ? args.min_amount : base.minAmount,
+    maxAmount: args.max_amount !== undefined ? args.max_amount : base.maxAmount,
+    tags: tags ? [...new Set(tags.map((tag) => tag.normalized!))] : base.tags,
+  };
+
+  const error = validateBudgetCriteria(criteria);
+  return error ? { error } : { criteria };
+}
+
+/**
+ * Criteria as budgets table columns
+ */
+export function toBudgetCriteriaColumns(criteria: BudgetCriteria): BudgetCriteriaColumns {
+  return {
+    filter_categories: criteria.categories,
+    filter_account_ids: criteria.accountIds,
+    filter_merchant_patterns: criteria.merchantPatterns,
+    filter_min_amount: criteria.minAmount,
+    filter_max_amount: criteria.maxAmount,
+    filter_tags: criteria.tags,
+  };
+}
+
+export const NO_BUDGET_CRITERIA: BudgetCriteria = {
+  categories: [],
+  accountIds: [],
+  merchantPatterns: [],
+  minAmount: null,
+  maxAmount: null,
+  tags: [],
+};
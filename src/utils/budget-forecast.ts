@@ -0,0 +1,130 @@
+/**
+ * Budget Forecast
+ * Projects where a fixed-period budget will land: spending so far continues at its daily pace,
+ * and known recurring charges are added on the days they're expected
+ */
+
+import { getCadenceGraceDays, getNextExpectedDate, RecurringCadence } from "./recurring-detection.js";
+
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
+export interface UpcomingCharge {
+  date: string; // YYYY-MM-DD
+  amount: number;
+  merchantName: string;
+}
+
+export interface BudgetForecastInput {
+  spent: number;
+  limit: number; // Includes rollover carryover
+  recurringSpent: number; // Part of spent that came from recurring charges
+  periodStart: string; // YYYY-MM-DD
+  periodEnd: string; // YYYY-MM-DD, inclusive
+  today: string; // YYYY-MM-DD
+  upcomingCharges: UpcomingCharge[];
+}
+
+export interface BudgetForecast {
+  periodEnd: string;
+  daysRemaining: number; // Including today
+  projectedSpend: number;
+  projectedPercentage: number; // Rounded
+  projectedOverspendDate: string | null; // null when already over or not projected to go over
+  safeToSpendPerDay: number;
+  upcomingRecurring: number;
+  upcomingCharges: UpcomingCharge[];
+}
+
+function parseDate(date: string): Date {
+  return new Date(`${date}T00:00:00Z`);
+}
+
+function toDateString(date: Date): string {
+  return date.toISOString().split("T")[0];
+}
+
+function daysBetween(start: string, end: string): number {
+  return Math.round((parseDate(end).getTime() - parseDate(start).getTime()) / MS_PER_DAY);
+}
+
+function roundCurrency(amount: number): number {
+  return Math.round(amount * 100) / 100;
+}
+
+/**
+ * Charges a recurring series is still expected to make between two dates (inclusive)
+ * An occurrence is skipped once a charge from the series has posted within its grace window,
+ * and an overdue one that hasn't posted yet is expected on the from date instead
+ * @param postedDates - Dates the series has already charged
+ */
+export function getUpcomingCharges(
+  series: { merchantName: string; cadence: RecurringCadence; expectedAmount: number; nextExpectedDate: string },
+  from: string,
+  through: string,
+  postedDates: string[] = []
+): UpcomingCharge[] {
+  const graceDays = getCadenceGraceDays(series.cadence);
+  const charges: UpcomingCharge[] = [];
+  let date = series.nextExpectedDate;
+
+  while (date <= through) {
+    const posted = postedDates.some((postedDate) => Math.abs(daysBetween(postedDate, date)) <= graceDays);
+    if (!posted && date >= from) {
+      charges.push({ date, amount: series.expectedAmount, merchantName: series.merchantName });
+    } else if (!posted && daysBetween(date, from) <= graceDays) {
+      charges.push({ date: from, amount: series.expectedAmount, merchantName: series.merchantName });
+    }
+    date = getNextExpectedDate(date, series.cadence);
+  }
+
+  return charges;
+}
+
+/**
+ * Project end-of-period spend, the day the limit is crossed, and what can be spent per day
+ * without crossing it
+ * Recurring charges are left out of the daily pace so a rent payment on day 1 doesn't make
+ * every following day look expensive
+ */
+export function forecastBudget(input: BudgetForecastInput): BudgetForecast {
+  const elapsedDays = Math.max(1, daysBetween(input.periodStart, input.today) + 1);
+  const daysRemaining = Math.max(1, daysBetween(input.today, input.periodEnd) + 1);
+  const dailyPace = Math.max(0, input.spent - input.recurringSpent) / elapsedDays;
+
+  const charges = input.upcomingCharges
+    .filter((charge) => charge.date >= input.today && charge.date <= input.periodEnd)
+    .sort((a, b) => a.date.localeCompare(b.date));
+  const upcomingRecurring = charges.reduce((sum, charge) => sum + charge.amount, 0);
+
+  // Today's pace is already part of spent; the remaining days each add one day's pace
+  const projectedSpend = input.spent + dailyPace * (daysRemaining - 1) + upcomingRecurring;
+  const projectedPercentage = input.limit > 0 ? (projectedSpend / input.limit) * 100 : 100;
+
+  let projectedOverspendDate: string | null = null;
+  if (input.spent <= input.limit) {
+    let running = input.spent;
+    const day = parseDate(input.today);
+    for (let offset = 0; offset < daysRemaining; offset++) {
+      const date = toDateString(day);
+      running += (offset > 0 ? dailyPace : 0) + charges
+        .filter((charge) => charge.date === date)
+        .reduce((sum, charge) => sum + charge.amount, 0);
+      if (running > input.limit) {
+        projectedOverspendDate = date;
+        break;
+      }
+      day.setUTCDate(day.getUTCDate() + 1);
+    }
+  }
+
+  return {
+    periodEnd: input.periodEnd,
+    daysRemaining,
+    projectedSpend: roundCurrency(projectedSpend),
+    projectedPercentage: Math.round(projectedPercentage),
+    projectedOverspendDate,
+    safeToSpendPerDay: roundCurrency(Math.max(0, input.limit - input.spent - upcomingRecurring) / daysRemaining),
+    upcomingRecurring: roundCurrency(upcomingRecurring),
+    upcomingCharges: charges,
+  };
+}
@@ -1,6 +1,7 @@
 /**
  * Budget Labeling Utility
- * Uses Claude API to determine which budgets each transaction matches
+ * Uses Claude API to determine which budgets each transaction matches (tag budgets match on
+ * the transaction's tags instead, and structured criteria are checked locally before Claude)
  */
 
 import { SupabaseClient } from "@supabase/supabase-js";
@@ -8,12 +9,22 @@ import {
   findTransactionsByUserId,
   batchUpdateTransactionBudgets,
 } from "../storage/repositories/transactions.js";
+import {
+  batchUpdateSplitBudgets,
+  findSplitsByTransactionIds,
+  findSplitsByUserId,
+  TransactionSplit,
+} from "../storage/repositories/transaction-splits.js";
 import { Budget } from "../storage/budgets/budgets.js";
 import {
   filterTransactionsForBudget,
   TransactionForBudgetFilter,
   ClaudeClient,
 } from "./clients/claude.js";
+import { describeSplitLine, expandSplitTransactions, SplitLine } from "./transaction-splits.js";
+import { getBudgetCriteria, hasBudgetCriteria, matchesBudgetCriteria } from "./budget-criteria.js";
+import { Category, expandCategoryFilter } from "./category-taxonomy.js";
+import { loadCategoryTaxonomy } from "../services/category-taxonomy-service.js";
 import { logEvent } from "./logger.js";
 import type { Database } from "../storage/database.types.js";
 
@@ -27,7 +38,127 @@ export interface TransactionForBudgetLabeling {
   amount: number;
   customCategory: string | null;
   accountName: string | null;
+  accountId?: string; // Needed for budgets with account criteria
   pending: boolean;
+  tags?: string[]; // Needed for tag budgets; missing means untagged
+  transferPairId?: string | null; // Internal transfers never count toward budgets
+}
+
+/**
+ * Lines budgets are checked against: one per split for split transactions, and none for
+ * internal transfers (their labels are cleared when saved)
+ */
+function toBudgetLines(
+  transactions: TransactionForBudgetLabeling[],
+  splits: TransactionSplit[]
+): SplitLine<TransactionForBudgetLabeling>[] {
+  return expandSplitTransactions(
+    transactions.filter((tx) => !tx.transferPairId),
+    splits
+  );
+}
+
+/**
+ * Budget filter rows for transactions, with split transactions sent as one row per split
+ * (keyed by split ID) so each part can land in a different budget
+ */
+function toBudgetFilterItems(
+  lines: SplitLine<TransactionForBudgetLabeling>[]
+): TransactionForBudgetFilter[] {
+  return lines.map((line) => ({
+    id: line.splitId ?? line.transactionId,
+    date: line.date,
+    description: describeSplitLine(line.name, line.splitNote),
+    amount: line.amount,
+    category: line.customCategory || "Uncategorized",
+    account_name: line.accountName || "",
+    pending: line.pending,
+  }));
+}
+
+/**
+ * Category taxonomy for expanding category criteria, loaded only when a budget has some
+ */
+async function loadCriteriaTaxonomy(
+  budgets: Budget[],
+  supabaseClient: SupabaseClient<Database>
+): Promise<Category[]> {
+  const budget = budgets.find((candidate) => (candidate.filter_categories ?? []).length > 0);
+  return budget ? loadCategoryTaxonomy(budget.user_id, supabaseClient) : [];
+}
+
+/**
+ * IDs (transaction or split) of the lines a budget matches
+ * Tag budgets match on the tag alone. Structured criteria are checked locally; the filter
+ * prompt (if any) then asks Claude about only the lines that passed them
+ */
+async function findBudgetMatches(
+  budget: Budget,
+  lines: SplitLine<TransactionForBudgetLabeling>[],
+  taxonomy: Category[],
+  claudeClient?: ClaudeClient
+): Promise<string[]> {
+  if (budget.tag) {
+    return lines
+      .filter((line) => line.tags?.includes(budget.tag!))
+      .map((line) => line.splitId ?? line.transactionId);
+  }
+
+  const criteria = getBudgetCriteria(budget);
+  let candidates = lines;
+  if (hasBudgetCriteria(criteria)) {
+    // Naming a category also matches its subcategories
+    const categoryNames = new Set(
+      expandCategoryFilter(taxonomy, criteria.categories).map((name) => name.toLowerCase())
+    );
+    candidates = lines.filter((line) => matchesBudgetCriteria(criteria, line, categoryNames));
+
+    if (!budget.filter_prompt || candidates.length === 0) {
+      return candidates.map((line) => line.splitId ?? line.transactionId);
+    }
+  }
+
+  if (!budget.filter_prompt) {
+    return [];
+  }
+
+  const filterResults = await filterTransactionsForBudget(
+    toBudgetFilterItems(candidates),
+    budget.filter_prompt,
+    claudeClient
+  );
+  return filterResults.filter((r) => r.matches).map((r) => r.transaction_id);
+}
+
+/**
+ * Write budget labels back: split rows to their splits, everything else to the transaction.
+ * Split parents are cleared so the parent amount isn't counted alongside its splits
+ */
+async function saveBudgetLabels(
+  transactions: TransactionForBudgetLabeling[],
+  splits: TransactionSplit[],
+  labels: Map<string, Set<string>>,
+  supabaseClient: SupabaseClient<Database>
+): Promise<number> {
+  const splitParentIds = new Set(splits.map((split) => split.transactionId));
+
+  const transactionUpdates = transactions.map((tx) => ({
+    transactionId: tx.transactionId,
+    budgetIds: splitParentIds.has(tx.transactionId)
+      ? []
+      : Array.from(labels.get(tx.transactionId) || []),
+  }));
+  const splitUpdates = splits.map((split) => ({
+    splitId: split.id,
+    budgetIds: Array.from(labels.get(split.id) || []),
+  }));
+
+  await batchUpdateTransactionBudgets(transactionUpdates, supabaseClient);
+  if (splitUpdates.length > 0) {
+    await batchUpdateSplitBudgets(splitUpdates, supabaseClient);
+  }
+
+  return [...transactionUpdates, ...splitUpdates].filter((u) => u.budgetIds.length > 0).length;
 }
 
 /**
@@ -53,45 +184,33 @@ export async function labelTransactionArrayForBudgets(
     return;
   }
 
-  // Map: transaction_id -> Set<budget_id>
+  const splits = await findSplitsByTransactionIds(
+    transactions.map((tx) => tx.transactionId),
+    supabaseClient
+  );
+
+  // One line per split for split transactions, none for internal transfers
+  const lines = toBudgetLines(transactions, splits);
+  const taxonomy = await loadCriteriaTaxonomy(budgets, supabaseClient);
+
+  // Map: transaction_id (or split id) -> Set<budget_id>
   const transactionBudgetMap = new Map<string, Set<string>>();
 
-  // For each budget, filter transactions using Claude
+  // For each budget, filter transactions (criteria and/or Claude, or the tag for tag budgets)
   for (const budget of budgets) {
     logEvent("BUDGET-LABELING", "processing-budget", { budgetId: budget.id, budgetTitle: budget.title });
 
-    // Prepare transactions for budget filter
-    const txsForFilter: TransactionForBudgetFilter[] = transactions.map(
-      (tx) => ({
-        id: tx.transactionId,
-        date: tx.date,
-        description: tx.name,
-        amount: tx.amount,
-        category: tx.customCategory || "Uncategorized",
-        account_name: tx.accountName || "",
-        pending: tx.pending,
-      })
-    );
-
     try {
-      // Call Claude API to filter
-      const filterResults = await filterTransactionsForBudget(
-        txsForFilter,
-        budget.filter_prompt,
-        claudeClient
-      );
+      const matchingIds = await findBudgetMatches(budget, lines, taxonomy, claudeClient);
 
       // Add budget ID to matching transactions
-      let matchCount = 0;
-      for (const result of filterResults) {
-        if (result.matches) {
-          if (!transactionBudgetMap.has(result.transaction_id)) {
-            transactionBudgetMap.set(result.transaction_id, new Set());
-          }
-          transactionBudgetMap.get(result.transaction_id)!.add(budget.id);
-          matchCount++;
+      for (const id of matchingIds) {
+        if (!transactionBudgetMap.has(id)) {
+          transactionBudgetMap.set(id, new Set());
         }
+        transactionBudgetMap.get(id)!.add(budget.id);
       }
+      const matchCount = matchingIds.length;
 
       logEvent("BUDGET-LABELING", "budget-matches", { budgetId: budget.id, budgetTitle: budget.title, matchCount });
     } catch (error: any) {
@@ -101,14 +220,8 @@ export async function labelTransactionArrayForBudgets(
   }
 
   // Update database with budget associations
-  const updates = transactions.map((tx) => ({
-    transactionId: tx.transactionId,
-    budgetIds: Array.from(transactionBudgetMap.get(tx.transactionId) || []),
-  }));
+  const txsWithBudgets = await saveBudgetLabels(transactions, splits, transactionBudgetMap, supabaseClient);
 
-  await batchUpdateTransactionBudgets(updates, supabaseClient);
-
-  const txsWithBudgets = updates.filter((u) => u.budgetIds.length > 0).length;
   logEvent("BUDGET-LABELING", "complete", { labeledCount: txsWithBudgets, totalCount: transactions.length });
 }
 
@@ -134,56 +247,38 @@ export async function labelTransactionsForBudgets(
     return 0;
   }
 
+  const splits = await findSplitsByUserId(userId, supabaseClient);
+
   if (budgets.length === 0) {
     logEvent("BUDGET-LABELING", "no-budgets-clearing-labels");
 
-    // Clear budget_ids for all transactions
-    const updates = allTransactions.map((tx) => ({
-      transactionId: tx.transactionId,
-      budgetIds: [],
-    }));
-
-    await batchUpdateTransactionBudgets(updates, supabaseClient);
+    // Clear budget_ids for all transactions and splits
+    await saveBudgetLabels(allTransactions, splits, new Map(), supabaseClient);
     return allTransactions.length;
   }
 
-  // Map: transaction_id -> Set<budget_id>
+  // One line per split for split transactions, none for internal transfers
+  const lines = toBudgetLines(allTransactions, splits);
+  const taxonomy = await loadCriteriaTaxonomy(budgets, supabaseClient);
+
+  // Map: transaction_id (or split id) -> Set<budget_id>
   const transactionBudgetMap = new Map<string, Set<string>>();
 
-  // For each budget, filter transactions using Claude
+  // For each budget, filter transactions (criteria and/or Claude, or the tag for tag budgets)
   for (const budget of budgets) {
     logEvent("BUDGET-LABELING", "processing-budget", { budgetId: budget.id, budgetTitle: budget.title });
 
-    // Prepare transactions for budget filter
-    const txsForFilter: TransactionForBudgetFilter[] = allTransactions.map((tx) => ({
-      id: tx.transactionId,
-      date: tx.date,
-      description: tx.name,
-      amount: tx.amount,
-      category: tx.customCategory || "Uncategorized",
-      account_name: tx.accountName || "",
-      pending: tx.pending,
-    }));
-
     try {
-      // Call existing Claude API filter function
-      const filterResults = await filterTransactionsForBudget(
-        txsForFilter,
-        budget.filter_prompt,
-        claudeClient
-      );
+      const matchingIds = await findBudgetMatches(budget, lines, taxonomy, claudeClient);
 
       // Add budget ID to matching transactions
-      let matchCount = 0;
-      for (const result of filterResults) {
-        if (result.matches) {
-          if (!transactionBudgetMap.has(result.transaction_id)) {
-            transactionBudgetMap.set(result.transaction_id, new Set());
-          }
-          transactionBudgetMap.get(result.transaction_id)!.add(budget.id);
-          matchCount++;
+      for (const id of matchingIds) {
+        if (!transactionBudgetMap.has(id)) {
+          transactionBudgetMap.set(id, new Set());
         }
+        transactionBudgetMap.get(id)!.add(budget.id);
       }
+      const matchCount = matchingIds.length;
 
       logEvent("BUDGET-LABELING", "budget-matches", { budgetId: budget.id, budgetTitle: budget.title, matchCount });
     } catch (error: any) {
@@ -193,14 +288,8 @@ export async function labelTransactionsForBudgets(
   }
 
   // Update database with budget associations
-  const updates = allTransactions.map((tx) => ({
-    transactionId: tx.transactionId,
-    budgetIds: Array.from(transactionBudgetMap.get(tx.transactionId) || []),
-  }));
-
-  await batchUpdateTransactionBudgets(updates, supabaseClient);
+  const txsWithBudgets = await saveBudgetLabels(allTransactions, splits, transactionBudgetMap, supabaseClient);
 
-  const txsWithBudgets = updates.filter((u) => u.budgetIds.length > 0).length;
   logEvent("BUDGET-LABELING", "complete", { labeledCount: txsWithBudgets, totalCount: allTransactions.length });
 
   return txsWithBudgets;
@@ -209,84 +298,82 @@ export async function labelTransactionsForBudgets(
 /**
  * Label transactions for a single budget (used when creating/updating a budget)
  * Returns count of transactions that match this budget
+ * @param onTransactionsLoaded - Called with the number of transactions about to be checked
  */
 export async function labelTransactionsForSingleBudget(
   userId: string,
   budget: Budget,
   supabaseClient: SupabaseClient<Database>,
-  claudeClient?: ClaudeClient
+  claudeClient?: ClaudeClient,
+  onTransactionsLoaded?: (count: number) => Promise<void>
 ): Promise<number> {
   logEvent("BUDGET-LABELING", "labeling-single-budget", { userId, budgetId: budget.id, budgetTitle: budget.title });
 
   // Fetch all user transactions from database
   const allTransactions = await findTransactionsByUserId(userId, supabaseClient);
+  await onTransactionsLoaded?.(allTransactions.length);
 
   if (allTransactions.length === 0) {
     logEvent("BUDGET-LABELING", "no-transactions");
     return 0;
   }
 
-  // Prepare transactions for budget filter
-  const txsForFilter: TransactionForBudgetFilter[] = allTransactions.map((tx) => ({
-    id: tx.transactionId,
-    date: tx.date,
-    description: tx.name,
-    amount: tx.amount,
-    category: tx.customCategory || "Uncategorized",
-    account_name: tx.accountName || "",
-    pending: tx.pending,
-  }));
-
-  // Call Claude API to filter
-  const filterResults = await filterTransactionsForBudget(
-    txsForFilter,
-    budget.filter_prompt,
-    claudeClient
-  );
+  const splits = await findSplitsByUserId(userId, supabaseClient);
+  const splitParentIds = new Set(splits.map((split) => split.transactionId));
 
-  // Build set of matching transaction IDs
+  // Build set of matching transaction (and split) IDs
   const matchingTxIds = new Set(
-    filterResults.filter((r) => r.matches).map((r) => r.transaction_id)
+    await findBudgetMatches(
+      budget,
+      toBudgetLines(allTransactions, splits),
+      await loadCriteriaTaxonomy([budget], supabaseClient),
+      claudeClient
+    )
   );
 
-  // Update database: add/remove this budget ID from budget_ids arrays
-  const updates = allTransactions.map((tx) => {
-    const currentBudgetIds = tx.budgetIds || [];
-
-    // Check if transaction matches this budget
-    const shouldInclude = matchingTxIds.has(tx.transactionId);
+  // Add/remove this budget ID from a budget_ids array
+  const withBudget = (currentBudgetIds: string[], shouldInclude: boolean): string[] => {
     const isIncluded = currentBudgetIds.includes(budget.id);
-
-    // Update budget_ids array
-    let newBudgetIds: string[];
     if (shouldInclude && !isIncluded) {
-      // Add budget ID
-      newBudgetIds = [...currentBudgetIds, budget.id];
-    } else if (!shouldInclude && isIncluded) {
-      // Remove budget ID
-      newBudgetIds = currentBudgetIds.filter((id) => id !== budget.id);
-    } else {
-      // No change needed
-      newBudgetIds = currentBudgetIds;
+      return [...currentBudgetIds, budget.id];
+    }
+    if (!shouldInclude && isIncluded) {
+      return currentBudgetIds.filter((id) => id !== budget.id);
     }
+    return currentBudgetIds;
+  };
 
-    return {
-      transactionId: tx.transactionId,
-      budgetIds: newBudgetIds,
-    };
-  });
+  // Update database: split parents carry no budgets of their own, their splits do
+  const updates = allTransactions.map((tx) => ({
+    transactionId: tx.transactionId,
+    budgetIds: splitParentIds.has(tx.transactionId)
+      ? []
+      : withBudget(tx.budgetIds || [], matchingTxIds.has(tx.transactionId)),
+  }));
+  const splitUpdates = splits.map((split) => ({
+    splitId: split.id,
+    budgetIds: withBudget(split.budgetIds, matchingTxIds.has(split.id)),
+  }));
 
-  // Only update transactions that changed
+  // Only update transactions and splits that changed
   const changedUpdates = updates.filter((update, index) => {
     const original = allTransactions[index].budgetIds || [];
     return JSON.stringify(update.budgetIds) !== JSON.stringify(original);
   });
+  const changedSplitUpdates = splitUpdates.filter(
+    (update, index) => JSON.stringify(update.budgetIds) !== JSON.stringify(splits[index].budgetIds)
+  );
 
   if (changedUpdates.length > 0) {
     await batchUpdateTransactionBudgets(changedUpdates, supabaseClient);
     logEvent("BUDGET-LABELING", "updated-transactions", { count: changedUpdates.length });
   }
 
+  if (changedSplitUpdates.length > 0) {
+    await batchUpdateSplitBudgets(changedSplitUpdates, supabaseClient);
+    logEvent("BUDGET-LABELING", "updated-splits", { count: changedSplitUpdates.length });
+  }
+
   logEvent("BUDGET-LABELING", "single-budget-complete", { budgetId: budget.id, budgetTitle: budget.title, matchCount: matchingTxIds.size });
 
   return matchingTxIds.size;
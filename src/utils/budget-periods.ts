@@ -0,0 +1,178 @@
+/**
+ * Budget Periods
+ * Date math for budget periods: the current period, and the complete periods before it
+ */
+
+export interface BudgetPeriod {
+  start: string; // YYYY-MM-DD
+  end: string; // YYYY-MM-DD, inclusive
+}
+
+function toDateString(date: Date): string {
+  return date.toISOString().split("T")[0];
+}
+
+/**
+ * Calculate date range for budget period
+ * @param now - The date the period should contain (default: today)
+ */
+export function getBudgetDateRange(
+  timePeriod: string,
+  customPeriodDays?: number | null,
+  fixedPeriodStartDate?: string | null,
+  now: Date = new Date()
+): { start: Date; end: Date } {
+  const end = new Date(now); // Today
+
+  // ROLLING BUDGETS: Last N days (continuously rolling window)
+  if (timePeriod === "rolling") {
+    if (!customPeriodDays) {
+      throw new Error("custom_period_days required for rolling budgets");
+    }
+    const start = new Date(now);
+    start.setDate(start.getDate() - customPeriodDays);
+    start.setUTCHours(0, 0, 0, 0); // Use UTC to avoid timezone shifts
+    return { start, end };
+  }
+
+  // FIXED BUDGETS: Calendar-based with anchor date
+  if (!fixedPeriodStartDate) {
+    throw new Error("fixed_period_start_date required for fixed budgets");
+  }
+
+  // Parse anchor date in UTC to avoid timezone shifts
+  const [year, month, day] = fixedPeriodStartDate.split("-").map(Number);
+  const anchorDate = new Date(Date.UTC(year, month - 1, day, 0, 0, 0, 0));
+
+  switch (timePeriod) {
+    case "weekly": {
+      // Find the most recent period start (anchor date or multiples of 7 days later)
+      const start = new Date(anchorDate);
+      const daysSinceAnchor = Math.floor((now.getTime() - anchorDate.getTime()) / (1000 * 60 * 60 * 24));
+      const periodsPassed = Math.floor(daysSinceAnchor / 7);
+      start.setUTCDate(start.getUTCDate() + periodsPassed * 7);
+      start.setUTCHours(0, 0, 0, 0);
+      return { start, end };
+    }
+
+    case "biweekly": {
+      // Find the most recent period start (anchor date or multiples of 14 days later)
+      const start = new Date(anchorDate);
+      const daysSinceAnchor = Math.floor((now.getTime() - anchorDate.getTime()) / (1000 * 60 * 60 * 24));
+      const periodsPassed = Math.floor(daysSinceAnchor / 14);
+      start.setUTCDate(start.getUTCDate() + periodsPassed * 14);
+      start.setUTCHours(0, 0, 0, 0);
+      return { start, end };
+    }
+
+    case "monthly": {
+      // Find the most recent period start on the anchor day of the month
+      const anchorDay = anchorDate.getUTCDate();
+      const start = new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), anchorDay, 0, 0, 0, 0));
+
+      // If anchor day is in the future this month, go back one month
+      if (start > now) {
+        start.setUTCMonth(start.getUTCMonth() - 1);
+      }
+
+      start.setUTCHours(0, 0, 0, 0);
+      return { start, end };
+    }
+
+    case "quarterly": {
+      // Find the most recent period start (anchor date or multiples of 3 months later)
+      const start = new Date(anchorDate);
+      const monthsSinceAnchor = (now.getUTCFullYear() - anchorDate.getUTCFullYear()) * 12 + (now.getUTCMonth() - anchorDate.getUTCMonth());
+      const periodsPassed = Math.floor(monthsSinceAnchor / 3);
+      start.setUTCMonth(start.getUTCMonth() + periodsPassed * 3);
+
+      // If we're past the start, we're in the right period
+      if (start > now) {
+        start.setUTCMonth(start.getUTCMonth() - 3);
+      }
+
+      start.setUTCHours(0, 0, 0, 0);
+      return { start, end };
+    }
+
+    case "yearly": {
+      // Find the most recent period start on the anchor date's month/day
+      const start = new Date(Date.UTC(now.getUTCFullYear(), anchorDate.getUTCMonth(), anchorDate.getUTCDate(), 0, 0, 0, 0));
+
+      // If anchor date is in the future this year, go back one year
+      if (start > now) {
+        start.setUTCFullYear(start.getUTCFullYear() - 1);
+      }
+
+      start.setUTCHours(0, 0, 0, 0);
+      return { start, end };
+    }
+
+    default:
+      throw new Error(`Unknown time period: ${timePeriod}`);
+  }
+}
+
+/**
+ * Complete periods before the current one, most recent first
+ * Each period ends the day before the next one starts; for rolling budgets these are
+ * back-to-back windows of the same length as the current one
+ * @param count - How many periods to go back
+ */
+export function getPreviousBudgetPeriods(
+  timePeriod: string,
+  customPeriodDays: number | null,
+  fixedPeriodStartDate: string | null,
+  count: number,
+  now: Date = new Date()
+): BudgetPeriod[] {
+  const periods: BudgetPeriod[] = [];
+  let { start } = getBudgetDateRange(timePeriod, customPeriodDays, fixedPeriodStartDate, now);
+
+  while (periods.length < count) {
+    const end = new Date(start);
+    end.setUTCDate(end.getUTCDate() - 1);
+
+    const previous = getBudgetDateRange(timePeriod, customPeriodDays, fixedPeriodStartDate, end).start;
+    // Anchor days past the end of a short month can land a "previous" start after the end
+    if (previous > end) {
+      break;
+    }
+
+    periods.push({ start: toDateString(previous), end: toDateString(end) });
+    start = previous;
+  }
+
+  return periods;
+}
+
+/**
+ * Last day of the period containing now (rolling windows always end today)
+ * Steps forward until getBudgetDateRange starts a new period, so short-month anchors behave the same
+ */
+export function getBudgetPeriodEnd(
+  timePeriod: string,
+  customPeriodDays: number | null,
+  fixedPeriodStartDate: string | null,
+  now: Date = new Date()
+): string {
+  if (timePeriod === "rolling") {
+    return toDateString(now);
+  }
+
+  const { start } = getBudgetDateRange(timePeriod, customPeriodDays, fixedPeriodStartDate, now);
+  const end = new Date(now);
+  end.setUTCHours(0, 0, 0, 0);
+
+  // A yearly period is at most 366 days long
+  for (let day = 0; day < 366; day++) {
+    const next = new Date(end);
+    next.setUTCDate(next.getUTCDate() + 1);
+    if (getBudgetDateRange(timePeriod, customPeriodDays, fixedPeriodStartDate, next).start.getTime() !== start.getTime()) {
+      break;
+    }
+    end.setTime(next.getTime());
+  }
+
+  return toDateString(end);
+}
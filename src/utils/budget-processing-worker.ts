@@ -3,37 +3,53 @@
  * Handles asynchronous transaction labeling for budgets
  */
 
-import { Budget } from "../storage/budgets/budgets.js";
+import { Budget, getBudgets } from "../storage/budgets/budgets.js";
 import {
   markBudgetAsProcessing,
   markBudgetAsReady,
   markBudgetAsError,
 } from "../storage/budgets/budgets.js";
+import type { BackgroundJob } from "../storage/repositories/background-jobs.js";
+import { JobProgress, startBackgroundJob } from "../services/background-jobs.js";
 import { labelTransactionsForSingleBudget } from "./budget-labeling.js";
 import { getSupabaseForUser } from "../storage/supabase.js";
 
 /**
  * Process a budget asynchronously (labels transactions in background)
  * This function is fire-and-forget - it updates status in database when complete
+ * @param progress - Background job tracking this run
  */
 export async function processBudgetAsync(
   userId: string,
-  budget: Budget
+  budget: Budget,
+  progress?: JobProgress
 ): Promise<void> {
   console.log(`[BUDGET-WORKER] Starting async processing for budget ${budget.id}`);
 
+  let transactionCount = 0;
+
   try {
     // Mark as processing
     await markBudgetAsProcessing(userId, budget.id);
 
     // Label transactions (this is the slow part that uses Claude API)
     const supabaseClient = getSupabaseForUser(userId);
-    const matchingCount = await labelTransactionsForSingleBudget(userId, budget, supabaseClient);
+    const matchingCount = await labelTransactionsForSingleBudget(
+      userId,
+      budget,
+      supabaseClient,
+      undefined,
+      async (count) => {
+        transactionCount = count;
+        await progress?.setTotal(count);
+      }
+    );
 
     console.log(`[BUDGET-WORKER] Labeling complete for ${budget.id}: ${matchingCount} transactions matched`);
 
     // Mark as ready
     await markBudgetAsReady(userId, budget.id);
+    await progress?.advance(transactionCount);
 
     console.log(`[BUDGET-WORKER] Budget ${budget.id} processing complete`);
   } catch (error: any) {
@@ -41,21 +57,84 @@ export async function processBudgetAsync(
 
     // Mark as error
     await markBudgetAsError(userId, budget.id, error.message || "Unknown error");
+    await progress?.fail(error.message || "Unknown error");
   }
 }
 
 /**
  * Start processing a budget in the background
  * Returns immediately while processing continues
+ * @returns The background job tracking the run, or null when the job record couldn't be
+ * created (the budget is still processed, just without progress tracking)
  */
-export function startBudgetProcessing(
+export async function startBudgetProcessing(
   userId: string,
   budget: Budget
-): void {
+): Promise<BackgroundJob | null> {
+  try {
+    const job = await startBackgroundJob(
+      userId,
+      "budget_processing",
+      { budget_id: budget.id, budget_title: budget.title },
+      (progress) => processBudgetAsync(userId, budget, progress)
+    );
+    console.log(`[BUDGET-WORKER] Background processing started for budget ${budget.id} (job ${job.id})`);
+    return job;
+  } catch (error: any) {
+    console.error(`[BUDGET-WORKER] Could not create background job for budget ${budget.id}:`, error);
+  }
+
   // Fire and forget - don't await
   processBudgetAsync(userId, budget).catch((error) => {
     console.error(`[BUDGET-WORKER] Unhandled error in async processing:`, error);
   });
 
   console.log(`[BUDGET-WORKER] Background processing started for budget ${budget.id}`);
+  return null;
+}
+
+/**
+ * Re-match budgets with a category criterion after transactions changed category in bulk,
+ * in background jobs. A budget that can't be started keeps its old labels, so failures are
+ * logged rather than thrown
+ * @param budgets - Defaults to every budget of the user's with a category criterion
+ * @returns The budgets being re-matched
+ */
+export async function relabelCategoryBudgets(userId: string, budgets?: Budget[]): Promise<Budget[]> {
+  const categoryBudgets =
+    budgets ?? (await getBudgets(userId)).filter((budget) => budget.filter_categories.length > 0);
+
+  for (const budget of categoryBudgets) {
+    try {
+      await startBudgetProcessing(userId, budget);
+    } catch (error: any) {
+      console.error(`[BUDGET-WORKER] Could not start relabeling budget ${budget.id}:`, error);
+    }
+  }
+
+  return categoryBudgets;
+}
+
+/**
+ * Label a budget's transactions before returning - for budgets that don't need Claude
+ * Marks the budget ready (or errored, rethrowing the error)
+ * @returns Number of matching transactions (or splits)
+ */
+export async function processBudgetNow(userId: string, budget: Budget): Promise<number> {
+  try {
+    const matchingCount = await labelTransactionsForSingleBudget(userId, budget, getSupabaseForUser(userId));
+    await markBudgetAsReady(userId, budget.id);
+    console.log(`[BUDGET-WORKER] Budget ${budget.id} labeled without Claude: ${matchingCount} transactions matched`);
+    return matchingCount;
+  } catch (error: any) {
+    await markBudgetAsError(userId, budget.id, error.message || "Unknown error");
+    throw error;
+  }
+}
+
+/**
+ * Line for tool responses pointing at the job that tracks a budget's processing
+ */
+export function formatBudgetJobNote(job: BackgroundJob | null): string {
+  return job ? `\n\nJob ID: ${job.id} (ask for the job status to track progress)` : "";
 }
@@ -0,0 +1,91 @@
+/**
+ * Budget Rollover
+ * Carries what was left (or overspent) in past budget periods into the current one
+ *
+ * Each period's limit is the base amount plus what the period before carried in, so a
+ * surplus keeps growing month after month unless a cap stops it. Pure functions - no
+ * database access - so the logic can be unit tested directly.
+ */
+
+import { BudgetPeriod, getBudgetDateRange } from "./budget-periods.js";
+
+export const ROLLOVER_MODES = ["none", "surplus", "deficit", "both"] as const;
+export type RolloverMode = (typeof ROLLOVER_MODES)[number];
+
+// Rollover never looks further back than this many periods
+export const MAX_ROLLOVER_PERIODS = 24;
+
+export interface RolloverPeriod extends BudgetPeriod {
+  limit: number; // Base amount plus what carried in
+  spent: number;
+  carriedOut: number; // Positive = surplus, negative = deficit
+}
+
+export interface BudgetRollover {
+  carryover: number; // Amount added to (or, when negative, taken from) the current limit
+  periods: RolloverPeriod[]; // Oldest first
+}
+
+function roundCurrency(amount: number): number {
+  return Math.round(amount * 100) / 100;
+}
+
+export function isRolloverMode(value: string): value is RolloverMode {
+  return (ROLLOVER_MODES as readonly string[]).includes(value);
+}
+
+/**
+ * Rollover start when the user doesn't pick one: the current period, so the first
+ * carryover shows up next period
+ */
+export function getDefaultRolloverStartDate(timePeriod: string, fixedPeriodStartDate: string | null): string {
+  return getBudgetDateRange(timePeriod, null, fixedPeriodStartDate).start.toISOString().split("T")[0];
+}
+
+/**
+ * Short description of a budget's rollover setting, e.g. "surplus (up to $50.00)"
+ */
+export function describeRollover(mode: string, cap: number | null): string {
+  return cap === null ? mode : `${mode} (up to $${cap.toFixed(2)})`;
+}
+
+/**
+ * What one period passes on to the next under a rollover mode and cap
+ * @param leftover - Limit minus spending (negative when overspent)
+ */
+export function getCarriedAmount(leftover: number, mode: RolloverMode, cap: number | null): number {
+  if (leftover > 0 && (mode === "surplus" || mode === "both")) {
+    return roundCurrency(cap === null ? leftover : Math.min(leftover, cap));
+  }
+  if (leftover < 0 && (mode === "deficit" || mode === "both")) {
+    return roundCurrency(cap === null ? leftover : Math.max(leftover, -cap));
+  }
+  return 0;
+}
+
+/**
+ * Carry leftovers forward through past periods to get the current period's carryover
+ * @param pastPeriods - Complete periods before the current one, oldest first
+ */
+export function calculateBudgetRollover(
+  baseAmount: number,
+  mode: RolloverMode,
+  cap: number | null,
+  pastPeriods: (BudgetPeriod & { spent: number })[]
+): BudgetRollover {
+  if (mode === "none") {
+    return { carryover: 0, periods: [] };
+  }
+
+  let carryover = 0;
+  const periods: RolloverPeriod[] = [];
+
+  for (const period of pastPeriods) {
+    const limit = roundCurrency(baseAmount + carryover);
+    const spent = roundCurrency(period.spent);
+    carryover = getCarriedAmount(limit - spent, mode, cap);
+    periods.push({ start: period.start, end: period.end, limit, spent, carriedOut: carryover });
+  }
+
+  return { carryover, periods };
+}
@@ -28,7 +28,7 @@ export function getAccountCapabilityHints(accountTypes: string[]): CapabilityHin
 
     hints.push({
       action: "track_subscriptions",
-      description: "Offer to help identify recurring charges and subscription services from their transaction history."
+      description: "Offer to list their recurring charges and subscriptions (get-recurring-transactions), including price increases and missed charges."
     });
   }
 
@@ -85,7 +85,7 @@ export function getTransactionAnalysisHints(): CapabilityHint[] {
     },
     {
       action: "find_subscriptions",
-      description: "Offer to identify all recurring subscription charges."
+      description: "Offer to identify all recurring subscription charges with get-recurring-transactions."
     }
   ];
 }
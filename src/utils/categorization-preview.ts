@@ -0,0 +1,108 @@
+/**
+ * Categorization Preview
+ * Compares transactions' current categories with the categories proposed rules would give
+ * them, without writing anything
+ */
+
+import type { CategorySource, Transaction } from "../storage/repositories/transactions.js";
+
+export const UNCATEGORIZED_LABEL = "Uncategorized";
+
+export type PreviewTransaction = Pick<
+  Transaction,
+  "transactionId" | "date" | "name" | "amount" | "customCategory" | "categoryLocked"
+>;
+
+export interface ProposedCategory {
+  category: string | null;
+  source: Exclude<CategorySource, "manual"> | null;
+}
+
+export interface CategoryChange {
+  transactionId: string;
+  date: string;
+  description: string;
+  amount: number;
+  fromCategory: string | null;
+  toCategory: string;
+  source: Exclude<CategorySource, "manual"> | null;
+}
+
+export interface CategoryTotalChange {
+  category: string;
+  countBefore: number;
+  countAfter: number;
+  amountBefore: number;
+  amountAfter: number;
+}
+
+export interface CategorizationPreview {
+  changes: CategoryChange[];
+  totals: CategoryTotalChange[];
+}
+
+function roundCents(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+/**
+ * Diff current categories against proposed ones
+ * Locked (manual) transactions and transactions without a proposal keep their category.
+ * Totals cover every transaction given, sorted by the size of the change in amount
+ */
+export function buildCategorizationPreview(
+  transactions: PreviewTransaction[],
+  proposed: Map<string, ProposedCategory>
+): CategorizationPreview {
+  const changes: CategoryChange[] = [];
+  const totals = new Map<string, CategoryTotalChange>();
+
+  const totalFor = (category: string) => {
+    let total = totals.get(category);
+    if (!total) {
+      total = { category, countBefore: 0, countAfter: 0, amountBefore: 0, amountAfter: 0 };
+      totals.set(category, total);
+    }
+    return total;
+  };
+
+  for (const tx of transactions) {
+    const proposal = tx.categoryLocked ? undefined : proposed.get(tx.transactionId);
+    const after = proposal?.category || tx.customCategory;
+
+    const before = totalFor(tx.customCategory || UNCATEGORIZED_LABEL);
+    before.countBefore++;
+    before.amountBefore += tx.amount;
+
+    const afterTotal = totalFor(after || UNCATEGORIZED_LABEL);
+    afterTotal.countAfter++;
+    afterTotal.amountAfter += tx.amount;
+
+    if (proposal?.category && proposal.category !== tx.customCategory) {
+      changes.push({
+        transactionId: tx.transactionId,
+        date: tx.date,
+        description: tx.name,
+        amount: tx.amount,
+        fromCategory: tx.customCategory,
+        toCategory: proposal.category,
+        source: proposal.source,
+      });
+    }
+  }
+
+  return {
+    changes,
+    totals: [...totals.values()]
+      .map((total) => ({
+        ...total,
+        amountBefore: roundCents(total.amountBefore),
+        amountAfter: roundCents(total.amountAfter),
+      }))
+      .sort(
+        (a, b) =>
+          Math.abs(b.amountAfter - b.amountBefore) - Math.abs(a.amountAfter - a.amountBefore) ||
+          a.category.localeCompare(b.category)
+      ),
+  };
+}
@@ -0,0 +1,270 @@
+/**
+ * Categorization Rule Engine
+ * Deterministic merchant/amount/account/Plaid-category rules evaluated before Claude categorization
+ */
+
+import { normalizeMerchantName } from "./recurring-detection.js";
+
+export type MerchantMatchType = "contains" | "regex";
+
+export interface CategorizationRule {
+  id: string;
+  merchantPattern: string | null;
+  merchantMatchType: MerchantMatchType;
+  minAmount: number | null;
+  maxAmount: number | null;
+  accountIds: string[] | null;
+  plaidCategory: string | null;
+  category: string;
+  priority: number;
+  enabled: boolean;
+  createdAt: string;
+}
+
+/**
+ * Transaction fields a rule can match on
+ */
+export interface RuleMatchInput {
+  name: string;
+  amount: number;
+  accountId: string;
+  plaidCategory: string[] | null;
+}
+
+export interface RuleMatch {
+  ruleId: string;
+  category: string;
+}
+
+/**
+ * Longest merchant pattern a rule can store
+ */
+export const MAX_MERCHANT_PATTERN_LENGTH = 200;
+
+/**
+ * Why a merchant regex could backtrack catastrophically, or null when it's safe to run
+ * Regexes run against every transaction on the shared event loop, so patterns that can take
+ * exponential time are refused: backreferences, and repeated groups that themselves contain a
+ * repetition or an alternation, like (a+)+ or (a|ab)*
+ */
+export function findUnsafeRegexReason(pattern: string): string | null {
+  // Per open group: whether it contains a repetition or an alternation
+  const groups: { risky: boolean }[] = [];
+  let lastGroupRisky = false; // The group that just closed, if the previous token was ")"
+  let inClass = false;
+
+  const repeatsAt = (index: number): boolean => {
+    const char = pattern[index];
+    if (char === "*" || char === "+") {
+      return true;
+    }
+    if (char === "{") {
+      const bounds = /^\{(\d+)(,?)(\d*)\}/.exec(pattern.slice(index));
+      if (!bounds) {
+        return false; // A literal "{"
+      }
+      const max = bounds[2] === "," ? (bounds[3] === "" ? Infinity : Number(bounds[3])) : Number(bounds[1]);
+      return max > 1;
+    }
+    return false;
+  };
+
+  for (let index = 0; index < pattern.length; index++) {
+    const char = pattern[index];
+    const closedGroupRisky = lastGroupRisky;
+    lastGroupRisky = false;
+
+    if (char === "\\") {
+      if (/[1-9k]/.test(pattern[index + 1] ?? "")) {
+        return "backreferences are not supported";
+      }
+      index++;
+      continue;
+    }
+    if (inClass) {
+      inClass = char !== "]";
+      continue;
+    }
+
+    if (char === "[") {
+      inClass = true;
+    } else if (char === "(") {
+      groups.push({ risky: false });
+    } else if (char === ")") {
+      const group = groups.pop();
+      lastGroupRisky = group?.risky ?? false;
+      if (groups.length > 0 && lastGroupRisky) {
+        groups[groups.length - 1].risky = true;
+      }
+    } else if (char === "|") {
+      if (groups.length > 0) {
+        groups[groups.length - 1].risky = true;
+      }
+    } else if (repeatsAt(index)) {
+      if (closedGroupRisky) {
+        return "repeated groups can't contain another repetition or an alternation, e.g. (a+)+";
+      }
+      if (groups.length > 0) {
+        groups[groups.length - 1].risky = true;
+      }
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Check that a rule has at least one condition and a valid pattern
+ * @returns An error message, or null when the rule is valid
+ */
+export function validateCategorizationRule(
+  rule: Pick<
+    CategorizationRule,
+    "merchantPattern" | "merchantMatchType" | "minAmount" | "maxAmount" | "accountIds" | "plaidCategory" | "category"
+  >
+): string | null {
+  if (!rule.category.trim()) {
+    return "A rule needs a category";
+  }
+
+  const hasCondition =
+    Boolean(rule.merchantPattern) ||
+    rule.minAmount !== null ||
+    rule.maxAmount !== null ||
+    Boolean(rule.accountIds && rule.accountIds.length > 0) ||
+    Boolean(rule.plaidCategory);
+  if (!hasCondition) {
+    return "A rule needs at least one condition (merchant, amount range, account, or Plaid category)";
+  }
+
+  if (rule.minAmount !== null && rule.maxAmount !== null && rule.minAmount > rule.maxAmount) {
+    return "min_amount must be less than or equal to max_amount";
+  }
+
+  if (rule.merchantPattern && rule.merchantPattern.length > MAX_MERCHANT_PATTERN_LENGTH) {
+    return `merchant_pattern must be at most ${MAX_MERCHANT_PATTERN_LENGTH} characters`;
+  }
+
+  if (rule.merchantPattern && rule.merchantMatchType === "regex") {
+    try {
+      new RegExp(rule.merchantPattern, "i");
+    } catch (error: any) {
+      return `Invalid merchant regex: ${error.message}`;
+    }
+
+    const unsafeReason = findUnsafeRegexReason(rule.merchantPattern);
+    if (unsafeReason) {
+      return `Unsupported merchant regex: ${unsafeReason}`;
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Put rules in evaluation order: higher priority first, then the oldest rule
+ * Disabled rules are dropped
+ */
+export function sortCategorizationRules(rules: CategorizationRule[]): CategorizationRule[] {
+  return rules
+    .filter((rule) => rule.enabled)
+    .sort((a, b) => b.priority - a.priority || a.createdAt.localeCompare(b.createdAt));
+}
+
+// Compiled merchant regexes, so a run over many transactions compiles each rule once
+const compiledPatterns = new WeakMap<CategorizationRule, RegExp | null>();
+
+function compileMerchantPattern(rule: CategorizationRule): RegExp | null {
+  if (!compiledPatterns.has(rule)) {
+    let regex: RegExp | null = null;
+    // Rules are validated on save; a bad or unsafe pattern that slipped through never matches
+    if (
+      rule.merchantPattern &&
+      rule.merchantPattern.length <= MAX_MERCHANT_PATTERN_LENGTH &&
+      !findUnsafeRegexReason(rule.merchantPattern)
+    ) {
+      try {
+        regex = new RegExp(rule.merchantPattern, "i");
+      } catch {
+        regex = null;
+      }
+    }
+    compiledPatterns.set(rule, regex);
+  }
+  return compiledPatterns.get(rule) ?? null;
+}
+
+function merchantMatches(rule: CategorizationRule, name: string): boolean {
+  if (!rule.merchantPattern) {
+    return true;
+  }
+
+  if (rule.merchantMatchType === "regex") {
+    return compileMerchantPattern(rule)?.test(name) ?? false;
+  }
+
+  return name.toLowerCase().includes(rule.merchantPattern.toLowerCase());
+}
+
+/**
+ * Whether every condition on the rule holds for the transaction
+ * Amount bounds are inclusive and compare the absolute amount, so "over $100" works for
+ * both expenses (positive in Plaid) and refunds
+ */
+export function ruleMatchesTransaction(rule: CategorizationRule, tx: RuleMatchInput): boolean {
+  if (!merchantMatches(rule, tx.name)) {
+    return false;
+  }
+
+  const amount = Math.abs(tx.amount);
+  if (rule.minAmount !== null && amount < rule.minAmount) {
+    return false;
+  }
+  if (rule.maxAmount !== null && amount > rule.maxAmount) {
+    return false;
+  }
+
+  if (rule.accountIds && rule.accountIds.length > 0 && !rule.accountIds.includes(tx.accountId)) {
+    return false;
+  }
+
+  if (rule.plaidCategory) {
+    const wanted = rule.plaidCategory.toUpperCase();
+    if (!(tx.plaidCategory || []).some((category) => category.toUpperCase() === wanted)) {
+      return false;
+    }
+  }
+
+  return true;
+}
+
+/**
+ * Find the first rule (in evaluation order) that matches the transaction
+ * @param rules - Rules already in evaluation order (see sortCategorizationRules)
+ */
+export function findMatchingRule(
+  rules: CategorizationRule[],
+  tx: RuleMatchInput
+): RuleMatch | null {
+  for (const rule of rules) {
+    if (ruleMatchesTransaction(rule, tx)) {
+      return { ruleId: rule.id, category: rule.category };
+    }
+  }
+  return null;
+}
+
+/**
+ * Build a regex merchant pattern from a transaction description
+ * Uses the same normalization as recurring detection: "SQ *BLUE BOTTLE #123" becomes
+ * "blue\W+bottle", which also matches "Blue Bottle Coffee" and other store numbers
+ * @returns null when the description has no usable merchant words
+ */
+export function buildMerchantPattern(name: string): string | null {
+  const merchant = normalizeMerchantName(name);
+  if (!merchant) {
+    return null;
+  }
+  // Normalized words are plain [a-z] runs, so they need no escaping
+  return merchant.split(" ").join("\\W+");
+}
@@ -0,0 +1,146 @@
+/**
+ * Category Taxonomy
+ * Per-user category tree (one level of subcategories) that drives the categorization prompt,
+ * category filters and which categories count as spending
+ */
+
+export interface Category {
+  id: string;
+  name: string;
+  parentId: string | null;
+  description: string | null;
+  color: string | null;
+  icon: string | null;
+  excludeFromSpending: boolean;
+}
+
+export type DefaultCategory = Omit<Category, "id" | "parentId">;
+
+/**
+ * Taxonomy used until a user edits theirs (matches the original hard-coded prompt)
+ */
+export const DEFAULT_CATEGORIES: DefaultCategory[] = [
+  { name: "Housing", description: "rent, mortgage, utilities, internet, phone", color: "#8E7CC3", icon: "🏠", excludeFromSpending: false },
+  { name: "Transportation", description: "gas, uber, public transit, car payments, parking", color: "#3D85C6", icon: "🚗", excludeFromSpending: false },
+  { name: "Food & Dining", description: "groceries, restaurants, coffee, delivery", color: "#E69138", icon: "🍽️", excludeFromSpending: false },
+  { name: "Shopping", description: "retail, clothing, online purchases, general merchandise", color: "#C27BA0", icon: "🛍️", excludeFromSpending: false },
+  { name: "Entertainment", description: "movies, streaming services, games, hobbies", color: "#A64D79", icon: "🎬", excludeFromSpending: false },
+  { name: "Healthcare", description: "medical, pharmacy, insurance premiums", color: "#CC0000", icon: "🩺", excludeFromSpending: false },
+  { name: "Personal Care", description: "gym, haircuts, beauty, wellness", color: "#76A5AF", icon: "💇", excludeFromSpending: false },
+  { name: "Travel", description: "flights, hotels, vacation expenses", color: "#45818E", icon: "✈️", excludeFromSpending: false },
+  { name: "Business", description: "office supplies, professional services, business meals", color: "#674EA7", icon: "💼", excludeFromSpending: false },
+  { name: "Income", description: "salary/payroll, reimbursements, refunds, money received from others", color: "#6AA84F", icon: "💰", excludeFromSpending: true },
+  { name: "Transfer", description: "moving money between accounts, credit card payments, Zelle/Venmo transfers between own accounts", color: "#999999", icon: "🔁", excludeFromSpending: true },
+  { name: "Other", description: "anything that doesn't fit above", color: "#B7B7B7", icon: "📦", excludeFromSpending: false },
+];
+
+/**
+ * The default taxonomy as Category objects (ids are the names, since nothing is stored yet)
+ */
+export function getDefaultTaxonomy(): Category[] {
+  return DEFAULT_CATEGORIES.map((category) => ({ ...category, id: category.name, parentId: null }));
+}
+
+function sameName(a: string, b: string): boolean {
+  return a.trim().toLowerCase() === b.trim().toLowerCase();
+}
+
+/**
+ * Find a category by name (case-insensitive)
+ */
+export function findCategoryByName(categories: Category[], name: string): Category | undefined {
+  return categories.find((category) => sameName(category.name, name));
+}
+
+export function getSubcategories(categories: Category[], parentId: string): Category[] {
+  return categories.filter((category) => category.parentId === parentId);
+}
+
+/**
+ * Order a taxonomy for display: each top-level category followed by its subcategories
+ */
+export function orderTaxonomy(categories: Category[]): Category[] {
+  const ordered: Category[] = [];
+  for (const parent of categories.filter((category) => category.parentId === null)) {
+    ordered.push(parent, ...getSubcategories(categories, parent.id));
+  }
+  return ordered;
+}
+
+/**
+ * Render the taxonomy as the category list in the categorization prompt
+ */
+export function formatTaxonomyForPrompt(categories: Category[]): string {
+  return orderTaxonomy(categories)
+    .map((category) => {
+      const indent = category.parentId ? "  " : "";
+      const description = category.description ? ` (${category.description})` : "";
+      return `${indent}- ${category.name}${description}`;
+    })
+    .join("\n");
+}
+
+/**
+ * Expand category filter terms with their subcategories
+ * Terms naming a category also match everything filed under it; other terms pass through
+ * unchanged for partial matching
+ */
+export function expandCategoryFilter(categories: Category[], terms: string[]): string[] {
+  const expanded = new Set<string>();
+  for (const term of terms) {
+    expanded.add(term);
+    const category = findCategoryByName(categories, term);
+    if (category) {
+      for (const child of getSubcategories(categories, category.id)) {
+        expanded.add(child.name);
+      }
+    }
+  }
+  return [...expanded];
+}
+
+/**
+ * Names of categories left out of spending totals
+ * A subcategory of an excluded category is excluded too
+ */
+export function getExcludedFromSpendingNames(categories: Category[]): string[] {
+  const excludedIds = new Set(
+    categories.filter((category) => category.excludeFromSpending).map((category) => category.id)
+  );
+  return categories
+    .filter((category) => excludedIds.has(category.id) || (category.parentId !== null && excludedIds.has(category.parentId)))
+    .map((category) => category.name);
+}
+
+/**
+ * Check a new category against the existing taxonomy
+ * @returns An error message, or null when the category can be created
+ */
+export function validateNewCategory(
+  categories: Category[],
+  input: { name: string; parentName?: string | null; color?: string | null }
+): string | null {
+  const name = input.name.trim();
+  if (!name) {
+    return "A category needs a name";
+  }
+  if (findCategoryByName(categories, name)) {
+    return `Category "${name}" already exists`;
+  }
+
+  if (input.parentName) {
+    const parent = findCategoryByName(categories, input.parentName);
+    if (!parent) {
+      return `Parent category "${input.parentName}" not found`;
+    }
+    if (parent.parentId !== null) {
+      return `"${parent.name}" is already a subcategory; subcategories can't have their own subcategories`;
+    }
+  }
+
+  if (input.color && !/^#[0-9A-Fa-f]{6}$/.test(input.color)) {
+    return "Color must be a hex value like #3D85C6";
+  }
+
+  return null;
+}
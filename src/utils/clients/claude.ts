@@ -1,3 +1,5 @@
+import { formatTaxonomyForPrompt, getDefaultTaxonomy } from "../category-taxonomy.js";
+
 /**
  * Claude API model to use for all requests
  */
@@ -9,6 +11,7 @@ const CLAUDE_MODEL = "claude-haiku-4-5-20251001";
 export interface TransactionForCategorization {
   date: string;
   description: string;
+  merchant_name?: string; // Plaid's cleaned merchant name, when it identified one
   amount: string;
   category?: string;
   account_name?: string;
@@ -53,7 +56,8 @@ export interface CategorizedTransaction {
 export interface ClaudeClient {
   categorizeTransactions(
     transactions: TransactionForCategorization[],
-    customRules?: string
+    customRules?: string,
+    categoryList?: string
   ): CategorizedTransaction[] | Promise<CategorizedTransaction[]>;
 
   filterTransactionsForBudget(
@@ -71,23 +75,15 @@ const CATEGORIZATION_PROMPT = `You are analyzing bank transaction data to catego
 Categorize each transaction into ONE of the following categories:
 
 **Core Categories:**
-- Housing (rent, mortgage, utilities, internet, phone)
-- Transportation (gas, uber, public transit, car payments, parking)
-- Food & Dining (groceries, restaurants, coffee, delivery)
-- Shopping (retail, clothing, online purchases, general merchandise)
-- Entertainment (movies, streaming services, games, hobbies)
-- Healthcare (medical, pharmacy, insurance premiums)
-- Personal Care (gym, haircuts, beauty, wellness)
-- Travel (flights, hotels, vacation expenses)
-- Business (office supplies, professional services, business meals)
-- Income (salary/payroll, reimbursements, refunds, money received from others)
-- Transfer (moving money between accounts, credit card payments, Zelle/Venmo transfers between own accounts)
-- Other (anything that doesn't fit above)
+{CATEGORIES}
+
+Subcategories are indented under their parent. When a subcategory fits, use it instead of its parent, and return only the category's own name.
 
 # Input Format
 You will receive transaction data as CSV with columns:
 - date: Transaction date (YYYY-MM-DD)
 - description: Merchant or payee name
+- merchant_name: Cleaned merchant name from the bank data provider (may be empty)
 - amount: Transaction amount (positive = expense)
 - category: Plaid's auto-generated category (may be inaccurate, use as a hint only)
 - account_name: Bank account name
@@ -108,7 +104,7 @@ Return ONLY a valid JSON array with one object per transaction:
 \`\`\`
 
 # Rules
-1. Use the description field as the PRIMARY signal for categorization
+1. Use the description field as the PRIMARY signal for categorization; merchant_name, when present, is a cleaner version of it
 2. Consider transaction amounts (e.g., large amounts might be rent/mortgage)
 3. Look for keywords to identify Income (PAYROLL, SALARY, DES:, reimbursement, refund) and Transfer (DES:EPAY, Transfer, Zelle payment to yourself)
 4. Credit card payments (e.g., "CHASE CREDIT CRD DES:EPAY") should be "Transfer"
@@ -125,11 +121,13 @@ If custom rules conflict with core categories, ALWAYS prioritize custom rules.
 `;
 
 /**
- * Get the categorization prompt with custom rules injected
+ * Get the categorization prompt with the category list and custom rules injected
  */
-function getPromptTemplate(customRules?: string): string {
+function getPromptTemplate(customRules?: string, categoryList?: string): string {
   const rulesText = customRules || "No custom rules defined.";
-  return CATEGORIZATION_PROMPT.replace("{CUSTOM_RULES}", rulesText);
+  return CATEGORIZATION_PROMPT
+    .replace("{CATEGORIES}", categoryList || formatTaxonomyForPrompt(getDefaultTaxonomy()))
+    .replace("{CUSTOM_RULES}", rulesText);
 }
 
 /**
@@ -140,7 +138,8 @@ function getPromptTemplate(customRules?: string): string {
  */
 async function categorizeBatch(
   transactions: TransactionForCategorization[],
-  customRules?: string
+  customRules?: string,
+  categoryList?: string
 ): Promise<CategorizedTransaction[]> {
   const apiKey = process.env.ANTHROPIC_API_KEY;
 
@@ -150,16 +149,17 @@ async function categorizeBatch(
     );
   }
 
-  // Get prompt template with custom rules injected
-  const systemPrompt = getPromptTemplate(customRules);
+  // Get prompt template with the user's categories and custom rules injected
+  const systemPrompt = getPromptTemplate(customRules, categoryList);
 
   // Convert transactions to CSV format for Claude
   const csvLines = [
-    "date,description,amount,category,account_name,pending",
+    "date,description,merchant_name,amount,category,account_name,pending",
     ...transactions.map((tx) =>
       [
         tx.date,
         `"${tx.description.replace(/"/g, '""')}"`,
+        tx.merchant_name ? `"${tx.merchant_name.replace(/"/g, '""')}"` : '""',
         tx.amount,
         tx.category ? `"${tx.category.replace(/"/g, '""')}"` : '""',
         tx.account_name ? `"${tx.account_name.replace(/"/g, '""')}"` : '""',
@@ -244,16 +244,18 @@ async function categorizeBatch(
  * @param transactions - Array of transactions to categorize (any size)
  * @param customRules - User's custom categorization rules (optional)
  * @param claudeClient - Optional Claude client for dependency injection (testing)
+ * @param categoryList - User's category taxonomy rendered for the prompt (default: built-in categories)
  * @returns Array of categorized transactions
  */
 export async function categorizeTransactions(
   transactions: TransactionForCategorization[],
   customRules?: string,
-  claudeClient?: ClaudeClient
+  claudeClient?: ClaudeClient,
+  categoryList?: string
 ): Promise<CategorizedTransaction[]> {
   // If a custom client is provided (e.g., MockClaudeClient), use it
   if (claudeClient) {
-    const result = claudeClient.categorizeTransactions(transactions, customRules);
+    const result = claudeClient.categorizeTransactions(transactions, customRules, categoryList);
     return Promise.resolve(result);
   }
 
@@ -262,7 +264,7 @@ export async function categorizeTransactions(
   // If small dataset, process in single batch
   if (transactions.length <= BATCH_SIZE) {
     console.log(`[CATEGORIZATION] Processing ${transactions.length} transactions in single batch`);
-    return categorizeBatch(transactions, customRules);
+    return categorizeBatch(transactions, customRules, categoryList);
   }
 
   // For large datasets, process in batches with concurrency limit
@@ -289,7 +291,7 @@ export async function categorizeTransactions(
       console.log(`[CATEGORIZATION] Batch ${i + 1}/${batchCount}: Queueing ${batch.length} transactions (${start + 1}-${end})`);
 
       groupPromises.push(
-        categorizeBatch(batch, customRules)
+        categorizeBatch(batch, customRules, categoryList)
           .then((result) => {
             console.log(`[CATEGORIZATION] Batch ${i + 1}/${batchCount}: ✓ Categorized ${result.length} transactions`);
             return { index: i, result };
@@ -0,0 +1,169 @@
+/**
+ * SMTP Client
+ * Minimal plain-SMTP sender for a local mail catcher (Mailpit, MailHog) during development
+ *
+ * No TLS or AUTH: production email should go through a relay that accepts local
+ * unauthenticated submissions, or a different delivery channel.
+ */
+
+import net from "node:net";
+
+export interface SmtpConfig {
+  host: string;
+  port: number;
+  from: string;
+  timeoutMs?: number;
+}
+
+export interface EmailMessage {
+  to: string;
+  subject: string;
+  text: string;
+}
+
+/**
+ * Reads complete SMTP replies ("250-..." lines continue, "250 ..." ends a reply)
+ */
+function createReplyReader(socket: net.Socket) {
+  let buffer = "";
+  const replies: string[] = [];
+  let waiting: { resolve: (reply: string) => void; reject: (error: Error) => void } | null = null;
+  let failure: Error | null = null;
+
+  function flush() {
+    while (waiting && replies.length > 0) {
+      const next = waiting;
+      waiting = null;
+      next.resolve(replies.shift()!);
+    }
+  }
+
+  socket.on("data", (chunk) => {
+    buffer += chunk.toString("utf8");
+    let lines: string[] = [];
+    let index: number;
+    while ((index = buffer.indexOf("\r\n")) !== -1) {
+      const line = buffer.slice(0, index);
+      buffer = buffer.slice(index + 2);
+      lines.push(line);
+      if (/^\d{3} /.test(line) || /^\d{3}$/.test(line)) {
+        replies.push(lines.join("\n"));
+        lines = [];
+      }
+    }
+    if (lines.length > 0) {
+      buffer = lines.map((line) => `${line}\r\n`).join("") + buffer;
+    }
+    flush();
+  });
+
+  const fail = (error: Error) => {
+    failure = error;
+    if (waiting) {
+      waiting.reject(error);
+      waiting = null;
+    }
+  };
+  socket.on("error", fail);
+  socket.on("close", () => fail(new Error("SMTP connection closed")));
+
+  return (expectedCode: number): Promise<string> =>
+    new Promise<string>((resolve, reject) => {
+      if (replies.length === 0 && failure) {
+        reject(failure);
+        return;
+      }
+      waiting = {
+        resolve: (reply) => {
+          if (!reply.startsWith(String(expectedCode))) {
+            reject(new Error(`SMTP server replied "${reply}", expected ${expectedCode}`));
+            return;
+          }
+          resolve(reply);
+        },
+        reject,
+      };
+      flush();
+    });
+}
+
+/**
+ * Line breaks in a header value would start a new header (or the body), so they're dropped
+ */
+function sanitizeHeaderValue(value: string): string {
+  return value.replace(/[\r\n]+/g, " ").trim();
+}
+
+/**
+ * Non-ASCII text is sent as RFC 2047 encoded words ("=?UTF-8?B?...?="), folded onto
+ * continuation lines; each word holds whole characters and stays under the 75-character limit
+ */
+function encodeHeaderValue(value: string): string {
+  if (/^[\x20-\x7e]*$/.test(value)) {
+    return value;
+  }
+
+  const words: string[] = [];
+  let chunk = "";
+  for (const character of value) {
+    if (Buffer.byteLength(chunk + character, "utf8") > 45) {
+      words.push(chunk);
+      chunk = "";
+    }
+    chunk += character;
+  }
+  words.push(chunk);
+
+  return words.map((word) => `=?UTF-8?B?${Buffer.from(word, "utf8").toString("base64")}?=`).join("\r\n ");
+}
+
+/**
+ * Lines starting with "." are escaped so they don't end the message early
+ */
+function formatMessageBody(config: SmtpConfig, message: EmailMessage): string {
+  const headers = [
+    `From: ${sanitizeHeaderValue(config.from)}`,
+    `To: ${sanitizeHeaderValue(message.to)}`,
+    `Subject: ${encodeHeaderValue(sanitizeHeaderValue(message.subject))}`,
+    `Date: ${new Date().toUTCString()}`,
+    "MIME-Version: 1.0",
+    "Content-Type: text/plain; charset=utf-8",
+  ];
+  const body = message.text
+    .replace(/\r?\n/g, "\r\n")
+    .split("\r\n")
+    .map((line) => (line.startsWith(".") ? `.${line}` : line))
+    .join("\r\n");
+
+  return `${headers.join("\r\n")}\r\n\r\n${body}\r\n.\r\n`;
+}
+
+/**
+ * Send one plain-text email
+ */
+export async function sendEmail(config: SmtpConfig, message: EmailMessage): Promise<void> {
+  const socket = net.createConnection({ host: config.host, port: config.port });
+  socket.setTimeout(config.timeoutMs ?? 10_000, () => socket.destroy(new Error("SMTP connection timed out")));
+
+  const readReply = createReplyReader(socket);
+  const command = async (line: string, expectedCode: number) => {
+    socket.write(`${line}\r\n`);
+    return readReply(expectedCode);
+  };
+
+  try {
+    if (/[\r\n]/.test(config.from) || /[\r\n]/.test(message.to)) {
+      throw new Error("Email addresses can't contain line breaks");
+    }
+    await readReply(220);
+    await command("EHLO localhost", 250);
+    await command(`MAIL FROM:<${config.from}>`, 250);
+    await command(`RCPT TO:<${message.to}>`, 250);
+    await command("DATA", 354);
+    socket.write(formatMessageBody(config, message));
+    await readReply(250);
+    await command("QUIT", 221);
+  } finally {
+    socket.destroy();
+  }
+}
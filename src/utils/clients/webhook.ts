@@ -0,0 +1,125 @@
+/**
+ * Webhook Client
+ * Posts JSON to user-supplied URLs without letting them reach the server's own network
+ *
+ * Targets must be https:// and resolve only to public addresses. The check runs when a
+ * channel is saved and again on every request, where the connection itself refuses private
+ * addresses so a DNS answer that changes between the two can't slip through.
+ * Redirects are never followed.
+ */
+
+import dns from "node:dns";
+import https from "node:https";
+import net from "node:net";
+
+const blockedAddresses = new net.BlockList();
+// "This network", private, carrier-grade NAT, loopback, link-local (cloud metadata), benchmarking, multicast, reserved
+blockedAddresses.addSubnet("0.0.0.0", 8, "ipv4");
+blockedAddresses.addSubnet("10.0.0.0", 8, "ipv4");
+blockedAddresses.addSubnet("100.64.0.0", 10, "ipv4");
+blockedAddresses.addSubnet("127.0.0.0", 8, "ipv4");
+blockedAddresses.addSubnet("169.254.0.0", 16, "ipv4");
+blockedAddresses.addSubnet("172.16.0.0", 12, "ipv4");
+blockedAddresses.addSubnet("192.0.0.0", 24, "ipv4");
+blockedAddresses.addSubnet("192.168.0.0", 16, "ipv4");
+blockedAddresses.addSubnet("198.18.0.0", 15, "ipv4");
+blockedAddresses.addSubnet("224.0.0.0", 4, "ipv4");
+blockedAddresses.addSubnet("240.0.0.0", 4, "ipv4");
+// Unspecified, loopback, NAT64, unique-local (includes fd00:ec2::254), link-local, multicast
+blockedAddresses.addAddress("::", "ipv6");
+blockedAddresses.addAddress("::1", "ipv6");
+blockedAddresses.addSubnet("64:ff9b::", 96, "ipv6");
+blockedAddresses.addSubnet("fc00::", 7, "ipv6");
+blockedAddresses.addSubnet("fe80::", 10, "ipv6");
+blockedAddresses.addSubnet("ff00::", 8, "ipv6");
+
+/**
+ * Whether an IP address is safe to send a webhook to
+ * IPv4-mapped IPv6 addresses (::ffff:127.0.0.1) are judged by the IPv4 address they carry
+ */
+export function isPublicAddress(address: string): boolean {
+  const mapped = address.match(/^::ffff:(\d+\.\d+\.\d+\.\d+)$/i);
+  if (mapped) {
+    return isPublicAddress(mapped[1]);
+  }
+
+  const family = net.isIP(address);
+  if (family === 0) {
+    return false;
+  }
+  return !blockedAddresses.check(address, family === 4 ? "ipv4" : "ipv6");
+}
+
+/**
+ * Why a URL can't be used as a webhook target, or null when it can
+ */
+export async function checkWebhookTarget(target: string): Promise<string | null> {
+  let url: URL;
+  try {
+    url = new URL(target);
+  } catch {
+    return "is not a URL";
+  }
+  if (url.protocol !== "https:") {
+    return "must use https://";
+  }
+
+  const hostname = url.hostname.replace(/^\[(.*)\]$/, "$1");
+  let addresses: dns.LookupAddress[];
+  try {
+    addresses = await dns.promises.lookup(hostname, { all: true });
+  } catch {
+    return `has a host (${hostname}) that could not be resolved`;
+  }
+  if (addresses.length === 0 || addresses.some((entry) => !isPublicAddress(entry.address))) {
+    return "points to a private or local network address";
+  }
+  return null;
+}
+
+/**
+ * Resolves like dns.lookup, but fails when any answer is a private address
+ */
+const lookupPublicAddress: net.LookupFunction = (hostname, options, callback) => {
+  dns.lookup(hostname, options, (error, address, family) => {
+    if (error) {
+      callback(error, address, family);
+      return;
+    }
+    const answers = Array.isArray(address) ? address : [{ address, family }];
+    if (answers.some((entry) => !isPublicAddress(entry.address))) {
+      callback(new Error(`Webhook host ${hostname} resolved to a private address`), address, family);
+      return;
+    }
+    callback(null, address, family);
+  });
+};
+
+/**
+ * POST a JSON body and return the response status
+ * A redirect comes back as its 3xx status rather than being followed
+ */
+export async function postWebhook(target: string, body: string, timeoutMs: number): Promise<number> {
+  const problem = await checkWebhookTarget(target);
+  if (problem) {
+    throw new Error(`Webhook URL ${problem}`);
+  }
+
+  return new Promise<number>((resolve, reject) => {
+    const request = https.request(
+      target,
+      {
+        method: "POST",
+        headers: { "Content-Type": "application/json", "Content-Length": Buffer.byteLength(body) },
+        lookup: lookupPublicAddress,
+        signal: AbortSignal.timeout(timeoutMs),
+      },
+      (response) => {
+        response.resume();
+        resolve(response.statusCode ?? 0);
+      }
+    );
+    request.on("error", reject);
+    request.end(body);
+  });
+}
@@ -72,6 +72,16 @@ export const CONFIG = {
     tokenMintAllowList: parseListEnv(process.env.MCP_BEARER_ALLOWED_USER_IDS),
   },
 
+  notifications: {
+    // Plain SMTP, e.g. a local Mailpit on port 1025; email delivery is off when no host is set
+    smtp: {
+      host: process.env.SMTP_HOST || "",
+      port: parseNumberEnv(process.env.SMTP_PORT, 1025),
+      from: process.env.SMTP_FROM || "alerts@localhost",
+    },
+    webhookTimeoutMs: parseNumberEnv(process.env.NOTIFICATION_WEBHOOK_TIMEOUT_MS, 10_000),
+  },
+
   widgets: {
     financialSummary: {
       uri: "ui://widget/financial-summary.html",
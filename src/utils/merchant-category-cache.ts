@@ -0,0 +1,108 @@
+/**
+ * Merchant Category Cache
+ * Keys, confidence bookkeeping and trust threshold for reusing AI categories per merchant
+ */
+
+import { normalizeMerchantName } from "./recurring-detection.js";
+
+/**
+ * Minimum AI categorizations before a cached category is reused
+ */
+export const MERCHANT_CACHE_MIN_OBSERVATIONS = 2;
+
+/**
+ * Minimum share of those categorizations that must agree
+ */
+export const MERCHANT_CACHE_MIN_CONFIDENCE = 0.8;
+
+/**
+ * Observations are capped so a merchant whose category drifts can still flip
+ */
+export const MERCHANT_CACHE_MAX_OBSERVATIONS = 20;
+
+// Upper bounds of the amount bands (absolute dollars)
+const AMOUNT_BAND_LIMITS = [10, 25, 50, 100, 250, 500, 1000];
+
+export interface MerchantCacheKey {
+  merchantKey: string;
+  amountBand: string;
+}
+
+export interface MerchantCacheEntry extends MerchantCacheKey {
+  category: string;
+  confidence: number;
+  observationCount: number;
+}
+
+/**
+ * Bucket an amount by direction and size, e.g. "debit:10-25" or "credit:1000+"
+ * Direction matters because a refund from a merchant is categorized differently than a purchase
+ */
+export function getAmountBand(amount: number): string {
+  const direction = amount < 0 ? "credit" : "debit";
+  const absolute = Math.abs(amount);
+
+  let lower = 0;
+  for (const limit of AMOUNT_BAND_LIMITS) {
+    if (absolute < limit) {
+      return `${direction}:${lower}-${limit}`;
+    }
+    lower = limit;
+  }
+  return `${direction}:${lower}+`;
+}
+
+/**
+ * Build the cache key for a transaction
+ * @returns null when the description has no usable merchant words
+ */
+export function getMerchantCacheKey(name: string, amount: number): MerchantCacheKey | null {
+  const merchantKey = normalizeMerchantName(name);
+  if (!merchantKey) {
+    return null;
+  }
+  return { merchantKey, amountBand: getAmountBand(amount) };
+}
+
+export function merchantCacheKeyString(key: MerchantCacheKey): string {
+  return `${key.merchantKey}|${key.amountBand}`;
+}
+
+/**
+ * Whether a cached category is trusted enough to skip Claude
+ */
+export function isMerchantCacheEntryUsable(entry: MerchantCacheEntry): boolean {
+  return (
+    entry.observationCount >= MERCHANT_CACHE_MIN_OBSERVATIONS &&
+    entry.confidence >= MERCHANT_CACHE_MIN_CONFIDENCE
+  );
+}
+
+/**
+ * Fold a new AI categorization into a cache entry
+ * Confidence is the share of observations that agree with the cached category; when it falls
+ * below one half the newer category takes over and has to earn trust again
+ */
+export function recordMerchantCategoryObservation(
+  key: MerchantCacheKey,
+  existing: MerchantCacheEntry | null,
+  category: string
+): MerchantCacheEntry {
+  if (!existing) {
+    return { ...key, category, confidence: 1, observationCount: 1 };
+  }
+
+  const previousCount = Math.min(existing.observationCount, MERCHANT_CACHE_MAX_OBSERVATIONS - 1);
+  const agreeing = Math.round(existing.confidence * previousCount);
+  const observationCount = previousCount + 1;
+
+  if (existing.category === category) {
+    return { ...key, category, confidence: (agreeing + 1) / observationCount, observationCount };
+  }
+
+  const confidence = agreeing / observationCount;
+  if (confidence < 0.5) {
+    return { ...key, category, confidence: 1, observationCount: 1 };
+  }
+  return { ...key, category: existing.category, confidence, observationCount };
+}
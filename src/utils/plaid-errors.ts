@@ -0,0 +1,83 @@
+/**
+ * Plaid Error Classification
+ * Reads the Plaid error body from SDK errors and decides how callers should react
+ */
+
+export interface PlaidItemError {
+  errorType: string | null;
+  errorCode: string;
+  errorMessage: string;
+}
+
+/**
+ * Error types Plaid documents as safe to retry
+ */
+const RETRYABLE_ERROR_TYPES = new Set(["API_ERROR", "RATE_LIMIT_EXCEEDED"]);
+
+/**
+ * Error codes that are transient regardless of error type
+ */
+const RETRYABLE_ERROR_CODES = new Set([
+  "INTERNAL_SERVER_ERROR",
+  "PLANNED_MAINTENANCE",
+  "RATE_LIMIT_EXCEEDED",
+]);
+
+/**
+ * Socket-level failures where the request never got a response
+ */
+const RETRYABLE_NETWORK_CODES = new Set([
+  "ECONNRESET",
+  "ECONNREFUSED",
+  "ECONNABORTED",
+  "ETIMEDOUT",
+  "EPIPE",
+  "EAI_AGAIN",
+  "ENOTFOUND",
+]);
+
+/**
+ * Extract Plaid's error body from an SDK (axios) error
+ * Returns null for non-Plaid failures such as database errors
+ */
+export function getPlaidItemError(error: any): PlaidItemError | null {
+  const data = error?.response?.data;
+  if (!data || typeof data.error_code !== "string") {
+    return null;
+  }
+
+  return {
+    errorType: data.error_type ?? null,
+    errorCode: data.error_code,
+    errorMessage: data.display_message || data.error_message || data.error_code,
+  };
+}
+
+/**
+ * Whether a failed Plaid call is worth retrying with backoff
+ * Item errors (login required, institution down) are not - they need the user or time
+ */
+export function isRetryablePlaidError(error: any): boolean {
+  const plaidError = getPlaidItemError(error);
+  if (plaidError) {
+    return (
+      RETRYABLE_ERROR_CODES.has(plaidError.errorCode) ||
+      (plaidError.errorType !== null && RETRYABLE_ERROR_TYPES.has(plaidError.errorType))
+    );
+  }
+
+  const status = error?.response?.status;
+  if (typeof status === "number") {
+    return status >= 500 || status === 429;
+  }
+
+  return typeof error?.code === "string" && RETRYABLE_NETWORK_CODES.has(error.code);
+}
+
+/**
+ * Plaid reports this when transactions changed while we were paging through /transactions/sync
+ * The whole page set must be re-fetched from the cursor we started with
+ */
+export function isSyncMutationDuringPaginationError(error: any): boolean {
+  return getPlaidItemError(error)?.errorCode === "TRANSACTIONS_SYNC_MUTATION_DURING_PAGINATION";
+}
@@ -0,0 +1,282 @@
+/**
+ * Recurring Transaction Detection
+ * Finds subscriptions and other repeating charges in transaction history
+ *
+ * Transactions are grouped by normalized merchant name, then each group is checked
+ * for a consistent interval (weekly → annual) and a consistent amount.
+ * Pure functions - no database access - so the logic can be unit tested directly.
+ */
+
+export type RecurringCadence = "weekly" | "biweekly" | "monthly" | "quarterly" | "annual";
+export type RecurringStatus = "active" | "missed" | "cancelled";
+
+export interface RecurringTransactionInput {
+  transactionId: string;
+  accountId: string;
+  date: string; // YYYY-MM-DD
+  name: string;
+  amount: number;
+  pending: boolean;
+}
+
+export interface DetectedRecurringSeries {
+  merchantKey: string;
+  merchantName: string;
+  accountId: string;
+  cadence: RecurringCadence;
+  expectedAmount: number;
+  previousAmount: number | null;
+  firstDate: string;
+  lastDate: string;
+  nextExpectedDate: string;
+  occurrenceCount: number;
+  transactionIds: string[];
+  status: RecurringStatus;
+  priceIncreased: boolean;
+}
+
+interface CadenceRule {
+  cadence: RecurringCadence;
+  minDays: number;
+  maxDays: number;
+  months: number; // Calendar months per period (0 for day-based cadences)
+  days: number; // Nominal period length in days
+  graceDays: number; // How late a charge can be before it counts as missed
+  minOccurrences: number;
+}
+
+const CADENCE_RULES: CadenceRule[] = [
+  { cadence: "weekly", minDays: 5, maxDays: 9, months: 0, days: 7, graceDays: 3, minOccurrences: 3 },
+  { cadence: "biweekly", minDays: 12, maxDays: 16, months: 0, days: 14, graceDays: 4, minOccurrences: 3 },
+  { cadence: "monthly", minDays: 26, maxDays: 35, months: 1, days: 30, graceDays: 7, minOccurrences: 3 },
+  { cadence: "quarterly", minDays: 84, maxDays: 98, months: 3, days: 91, graceDays: 14, minOccurrences: 3 },
+  { cadence: "annual", minDays: 350, maxDays: 380, months: 12, days: 365, graceDays: 30, minOccurrences: 2 },
+];
+
+// Share of intervals that must match the cadence (tolerates one skipped or doubled charge)
+const MIN_INTERVAL_MATCH_RATIO = 0.75;
+// Charges within this fraction of the median amount count as "the same" charge
+const AMOUNT_TOLERANCE = 0.2;
+// Ignore rounding-level changes when flagging price increases
+const MIN_PRICE_INCREASE = 0.5;
+
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
+// Payment processor prefixes that hide the real merchant (e.g. "SQ *BLUE BOTTLE")
+const PROCESSOR_PREFIXES = /^(sq|tst|sp|pp|paypal|py|ck|dd|ic|apl|google|amzn mktp us)\s*\*\s*/i;
+
+/**
+ * Normalize a transaction name into a merchant grouping key
+ * Strips processor prefixes, store/reference numbers and punctuation
+ * e.g. "NETFLIX.COM 866-579-7172" and "Netflix.com #1234" both become "netflix com"
+ */
+export function normalizeMerchantName(name: string): string {
+  const withoutPrefix = name.trim().replace(PROCESSOR_PREFIXES, "");
+
+  const words = withoutPrefix
+    .toLowerCase()
+    .replace(/[^a-z0-9\s]/g, " ")
+    .split(/\s+/)
+    .filter((word) => word.length > 0 && !/\d/.test(word));
+
+  return words.slice(0, 3).join(" ");
+}
+
+function parseDate(date: string): Date {
+  return new Date(`${date}T00:00:00Z`);
+}
+
+function toDateString(date: Date): string {
+  return date.toISOString().split("T")[0];
+}
+
+function daysBetween(start: string, end: string): number {
+  return Math.round((parseDate(end).getTime() - parseDate(start).getTime()) / MS_PER_DAY);
+}
+
+function median(values: number[]): number {
+  const sorted = [...values].sort((a, b) => a - b);
+  const mid = Math.floor(sorted.length / 2);
+  return sorted.length % 2 === 0 ? (sorted[mid - 1] + sorted[mid]) / 2 : sorted[mid];
+}
+
+function roundCurrency(amount: number): number {
+  return Math.round(amount * 100) / 100;
+}
+
+function getCadenceRule(cadence: RecurringCadence): CadenceRule {
+  return CADENCE_RULES.find((rule) => rule.cadence === cadence)!;
+}
+
+/**
+ * How far a charge can land from its expected date and still be that occurrence
+ */
+export function getCadenceGraceDays(cadence: RecurringCadence): number {
+  return getCadenceRule(cadence).graceDays;
+}
+
+/**
+ * Project the next charge date from the most recent one
+ * Monthly-style cadences step by calendar month so "the 15th" stays the 15th
+ */
+export function getNextExpectedDate(lastDate: string, cadence: RecurringCadence): string {
+  const rule = getCadenceRule(cadence);
+  const next = parseDate(lastDate);
+
+  if (rule.months > 0) {
+    const day = next.getUTCDate();
+    next.setUTCDate(1);
+    next.setUTCMonth(next.getUTCMonth() + rule.months);
+    const daysInMonth = new Date(Date.UTC(next.getUTCFullYear(), next.getUTCMonth() + 1, 0)).getUTCDate();
+    next.setUTCDate(Math.min(day, daysInMonth));
+  } else {
+    next.setUTCDate(next.getUTCDate() + rule.days);
+  }
+
+  return toDateString(next);
+}
+
+/**
+ * Classify a series relative to a date
+ * - missed: the next charge is overdue by more than the cadence's grace period
+ * - cancelled: a whole extra period has passed with no charge
+ */
+export function getRecurringStatus(
+  nextExpectedDate: string,
+  cadence: RecurringCadence,
+  asOf: Date = new Date()
+): RecurringStatus {
+  const rule = getCadenceRule(cadence);
+  const daysOverdue = daysBetween(nextExpectedDate, toDateString(asOf));
+
+  if (daysOverdue > rule.days + rule.graceDays) {
+    return "cancelled";
+  }
+  if (daysOverdue > rule.graceDays) {
+    return "missed";
+  }
+  return "active";
+}
+
+/**
+ * Infer the cadence of a sorted list of charge dates
+ * @returns null when the intervals don't fit any cadence consistently
+ */
+function inferCadence(dates: string[]): CadenceRule | null {
+  const intervals: number[] = [];
+  for (let i = 1; i < dates.length; i++) {
+    intervals.push(daysBetween(dates[i - 1], dates[i]));
+  }
+
+  if (intervals.length === 0) {
+    return null;
+  }
+
+  const typicalInterval = median(intervals);
+  const rule = CADENCE_RULES.find(
+    (candidate) => typicalInterval >= candidate.minDays && typicalInterval <= candidate.maxDays
+  );
+
+  if (!rule || dates.length < rule.minOccurrences) {
+    return null;
+  }
+
+  const matching = intervals.filter(
+    (interval) => interval >= rule.minDays && interval <= rule.maxDays
+  ).length;
+
+  return matching / intervals.length >= MIN_INTERVAL_MATCH_RATIO ? rule : null;
+}
+
+/**
+ * Detect recurring series for one merchant's charges
+ */
+function detectSeries(
+  merchantKey: string,
+  transactions: RecurringTransactionInput[],
+  asOf: Date
+): DetectedRecurringSeries | null {
+  // Collapse same-day duplicates (split authorizations, retries) into one charge
+  const byDate = new Map<string, RecurringTransactionInput>();
+  for (const tx of transactions) {
+    const existing = byDate.get(tx.date);
+    if (!existing || tx.amount > existing.amount) {
+      byDate.set(tx.date, tx);
+    }
+  }
+
+  const charges = [...byDate.values()].sort((a, b) => a.date.localeCompare(b.date));
+  const rule = inferCadence(charges.map((tx) => tx.date));
+
+  if (!rule) {
+    return null;
+  }
+
+  const typicalAmount = median(charges.map((tx) => tx.amount));
+  const consistentAmounts = charges.filter(
+    (tx) => Math.abs(tx.amount - typicalAmount) <= typicalAmount * AMOUNT_TOLERANCE
+  ).length;
+
+  if (consistentAmounts / charges.length < MIN_INTERVAL_MATCH_RATIO) {
+    return null;
+  }
+
+  const last = charges[charges.length - 1];
+  const previous = charges.length > 1 ? charges[charges.length - 2] : null;
+  const nextExpectedDate = getNextExpectedDate(last.date, rule.cadence);
+
+  return {
+    merchantKey,
+    merchantName: last.name,
+    accountId: last.accountId,
+    cadence: rule.cadence,
+    expectedAmount: roundCurrency(last.amount),
+    previousAmount: previous ? roundCurrency(previous.amount) : null,
+    firstDate: charges[0].date,
+    lastDate: last.date,
+    nextExpectedDate,
+    occurrenceCount: charges.length,
+    transactionIds: charges.map((tx) => tx.transactionId),
+    status: getRecurringStatus(nextExpectedDate, rule.cadence, asOf),
+    priceIncreased: previous !== null && last.amount - previous.amount >= MIN_PRICE_INCREASE,
+  };
+}
+
+/**
+ * Detect recurring charges across a user's transaction history
+ * Only posted outflows (positive amounts in Plaid's convention) are considered
+ * @param transactions - Transaction history, ideally 12+ months so annual charges show up
+ * @param asOf - Date used to decide whether a series is missed or cancelled
+ * @returns Detected series, soonest next charge first
+ */
+export function detectRecurringSeries(
+  transactions: RecurringTransactionInput[],
+  asOf: Date = new Date()
+): DetectedRecurringSeries[] {
+  const groups = new Map<string, RecurringTransactionInput[]>();
+
+  for (const tx of transactions) {
+    if (tx.pending || tx.amount <= 0) {
+      continue;
+    }
+
+    const merchantKey = normalizeMerchantName(tx.name);
+    if (!merchantKey) {
+      continue;
+    }
+
+    const group = groups.get(merchantKey) || [];
+    group.push(tx);
+    groups.set(merchantKey, group);
+  }
+
+  const series: DetectedRecurringSeries[] = [];
+  for (const [merchantKey, group] of groups) {
+    const detected = detectSeries(merchantKey, group, asOf);
+    if (detected) {
+      series.push(detected);
+    }
+  }
+
+  return series.sort((a, b) => a.nextExpectedDate.localeCompare(b.nextExpectedDate));
+}
@@ -0,0 +1,75 @@
+/**
+ * Retry Helpers
+ * Exponential backoff with jitter for transient failures from external APIs
+ */
+
+export interface RetryOptions {
+  /** Total attempts including the first call (default: 4) */
+  maxAttempts?: number;
+  /** Delay before the first retry, doubled on each attempt (default: 500ms) */
+  baseDelayMs?: number;
+  /** Upper bound for a single delay (default: 8s) */
+  maxDelayMs?: number;
+  /** Return false to fail immediately (default: retry everything) */
+  shouldRetry?: (error: unknown) => boolean;
+  /** Called before waiting for the next attempt */
+  onRetry?: (error: unknown, attempt: number, delayMs: number) => void;
+  /** Overridable for tests */
+  sleep?: (ms: number) => Promise<void>;
+  random?: () => number;
+}
+
+const DEFAULT_MAX_ATTEMPTS = 4;
+const DEFAULT_BASE_DELAY_MS = 500;
+const DEFAULT_MAX_DELAY_MS = 8000;
+
+function defaultSleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+/**
+ * Delay before retry number `attempt` (1-based)
+ * Equal jitter: half the exponential step is fixed, half is random,
+ * so concurrent cron workers don't retry in lockstep but never retry instantly
+ */
+export function getBackoffDelay(
+  attempt: number,
+  baseDelayMs: number = DEFAULT_BASE_DELAY_MS,
+  maxDelayMs: number = DEFAULT_MAX_DELAY_MS,
+  random: () => number = Math.random
+): number {
+  const step = Math.min(maxDelayMs, baseDelayMs * 2 ** (attempt - 1));
+  return Math.round(step / 2 + random() * (step / 2));
+}
+
+/**
+ * Run an operation, retrying with backoff while shouldRetry allows it
+ * Rethrows the last error once attempts are exhausted
+ */
+export async function withRetry<T>(
+  operation: (attempt: number) => Promise<T>,
+  options: RetryOptions = {}
+): Promise<T> {
+  const maxAttempts = options.maxAttempts ?? DEFAULT_MAX_ATTEMPTS;
+  const sleep = options.sleep ?? defaultSleep;
+
+  for (let attempt = 1; ; attempt++) {
+    try {
+      return await operation(attempt);
+    } catch (error) {
+      const retryable = options.shouldRetry ? options.shouldRetry(error) : true;
+      if (!retryable || attempt >= maxAttempts) {
+        throw error;
+      }
+
+      const delayMs = getBackoffDelay(
+        attempt,
+        options.baseDelayMs,
+        options.maxDelayMs,
+        options.random
+      );
+      options.onRetry?.(error, attempt, delayMs);
+      await sleep(delayMs);
+    }
+  }
+}
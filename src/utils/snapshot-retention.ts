@@ -0,0 +1,72 @@
+/**
+ * Net Worth Snapshot Retention
+ * Decides which snapshots to drop so old history thins out to weekly, then monthly points
+ */
+
+export interface SnapshotRetentionPolicy {
+  /** Keep every snapshot newer than this many days */
+  dailyDays: number;
+  /** Keep the latest snapshot per week up to this age; older history keeps one per month */
+  weeklyDays: number;
+}
+
+export const DEFAULT_SNAPSHOT_RETENTION: SnapshotRetentionPolicy = {
+  dailyDays: 90,
+  weeklyDays: 730,
+};
+
+export interface RetainableSnapshot {
+  id: string;
+  user_id: string;
+  snapshot_date: string;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Monday (UTC) of the week containing the date, as YYYY-MM-DD
+ */
+function getWeekStart(date: Date): string {
+  const weekStart = new Date(date);
+  const daysSinceMonday = (weekStart.getUTCDay() + 6) % 7;
+  weekStart.setUTCDate(weekStart.getUTCDate() - daysSinceMonday);
+  return weekStart.toISOString().split("T")[0];
+}
+
+/**
+ * Return the IDs of snapshots that fall outside the retention policy
+ * Within each week (or month) bucket the latest snapshot is kept, so charts keep their shape
+ */
+export function selectSnapshotsToPrune(
+  snapshots: RetainableSnapshot[],
+  asOf: Date = new Date(),
+  policy: SnapshotRetentionPolicy = DEFAULT_SNAPSHOT_RETENTION
+): string[] {
+  const keepers = new Map<string, RetainableSnapshot>();
+  const prune: string[] = [];
+
+  for (const snapshot of snapshots) {
+    const date = new Date(`${snapshot.snapshot_date}T00:00:00Z`);
+    const ageDays = Math.floor((asOf.getTime() - date.getTime()) / DAY_MS);
+
+    if (ageDays < policy.dailyDays) {
+      continue;
+    }
+
+    const bucket = ageDays < policy.weeklyDays
+      ? `${snapshot.user_id}:week:${getWeekStart(date)}`
+      : `${snapshot.user_id}:month:${snapshot.snapshot_date.slice(0, 7)}`;
+
+    const current = keepers.get(bucket);
+    if (!current) {
+      keepers.set(bucket, snapshot);
+    } else if (snapshot.snapshot_date > current.snapshot_date) {
+      prune.push(current.id);
+      keepers.set(bucket, snapshot);
+    } else {
+      prune.push(snapshot.id);
+    }
+  }
+
+  return prune;
+}
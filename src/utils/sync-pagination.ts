@@ -0,0 +1,78 @@
+/**
+ * Sync Pagination
+ * Collects a complete /transactions/sync page set before anything is persisted,
+ * following Plaid's guidance for cursor-based pagination
+ */
+
+import { withRetry, RetryOptions } from "./retry.js";
+import { isRetryablePlaidError, isSyncMutationDuringPaginationError } from "./plaid-errors.js";
+
+/**
+ * Minimal shape of a /transactions/sync response page
+ */
+export interface SyncPage {
+  next_cursor: string;
+  has_more: boolean;
+}
+
+export interface CollectSyncPagesOptions {
+  /** How many times to start over after a mutation-during-pagination error (default: 3) */
+  maxRestarts?: number;
+  /** Backoff settings for transient errors on a single page */
+  retry?: Omit<RetryOptions, "shouldRetry">;
+  /** Called when pagination starts over from the original cursor */
+  onRestart?: (restart: number, error: unknown) => void;
+}
+
+export interface CollectedSyncPages<TPage extends SyncPage> {
+  pages: TPage[];
+  /** Cursor to store once every page has been persisted */
+  nextCursor: string;
+  restarts: number;
+}
+
+const DEFAULT_MAX_RESTARTS = 3;
+
+/**
+ * Fetch every page from startCursor until has_more is false
+ * - Transient Plaid/network errors retry the same page with backoff
+ * - TRANSACTIONS_SYNC_MUTATION_DURING_PAGINATION discards collected pages and restarts from startCursor
+ * Nothing here touches the database, so a failure leaves the saved cursor where it was.
+ */
+export async function collectSyncPages<TPage extends SyncPage>(
+  fetchPage: (cursor: string | undefined) => Promise<TPage>,
+  startCursor: string | undefined,
+  options: CollectSyncPagesOptions = {}
+): Promise<CollectedSyncPages<TPage>> {
+  const maxRestarts = options.maxRestarts ?? DEFAULT_MAX_RESTARTS;
+  let restarts = 0;
+
+  for (;;) {
+    const pages: TPage[] = [];
+    let cursor = startCursor;
+
+    try {
+      let hasMore = true;
+      while (hasMore) {
+        const requestCursor = cursor;
+        const page = await withRetry(() => fetchPage(requestCursor), {
+          ...options.retry,
+          shouldRetry: isRetryablePlaidError,
+        });
+
+        pages.push(page);
+        cursor = page.next_cursor;
+        hasMore = page.has_more;
+      }
+
+      return { pages, nextCursor: cursor ?? "", restarts };
+    } catch (error) {
+      if (!isSyncMutationDuringPaginationError(error) || restarts >= maxRestarts) {
+        throw error;
+      }
+
+      restarts++;
+      options.onRestart?.(restarts, error);
+    }
+  }
+}
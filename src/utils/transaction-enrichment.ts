@@ -0,0 +1,101 @@
+/**
+ * Transaction Enrichment
+ * Merchant details from Plaid's transaction enrichment (clean merchant name, logo, website,
+ * payment channel, location, counterparties) in the shape stored on transactions
+ */
+
+import type { Transaction as PlaidTransaction } from "plaid";
+
+export type PaymentChannel = "online" | "in store" | "other";
+
+export interface TransactionLocation {
+  address: string | null;
+  city: string | null;
+  region: string | null;
+  postalCode: string | null;
+  country: string | null;
+  lat: number | null;
+  lon: number | null;
+  storeNumber: string | null;
+}
+
+export interface TransactionCounterparty {
+  name: string;
+  type: string; // merchant, financial_institution, payment_app, marketplace, payment_terminal, income_source
+  website: string | null;
+  logoUrl: string | null;
+  entityId: string | null;
+  confidenceLevel: string | null;
+}
+
+export interface MerchantEnrichment {
+  merchantName: string | null;
+  logoUrl: string | null;
+  website: string | null;
+  paymentChannel: PaymentChannel | null;
+  location: TransactionLocation | null;
+  counterparties: TransactionCounterparty[] | null;
+}
+
+export const EMPTY_MERCHANT_ENRICHMENT: MerchantEnrichment = {
+  merchantName: null,
+  logoUrl: null,
+  website: null,
+  paymentChannel: null,
+  location: null,
+  counterparties: null,
+};
+
+const PAYMENT_CHANNELS: PaymentChannel[] = ["online", "in store", "other"];
+
+/**
+ * Pull the enrichment fields out of a Plaid transaction
+ * A location with every field empty is stored as null
+ */
+export function extractMerchantEnrichment(
+  tx: Pick<PlaidTransaction, "merchant_name" | "logo_url" | "website" | "payment_channel" | "location" | "counterparties">
+): MerchantEnrichment {
+  const location: TransactionLocation | null = tx.location
+    ? {
+        address: tx.location.address ?? null,
+        city: tx.location.city ?? null,
+        region: tx.location.region ?? null,
+        postalCode: tx.location.postal_code ?? null,
+        country: tx.location.country ?? null,
+        lat: tx.location.lat ?? null,
+        lon: tx.location.lon ?? null,
+        storeNumber: tx.location.store_number ?? null,
+      }
+    : null;
+
+  const counterparties = (tx.counterparties ?? []).map((counterparty) => ({
+    name: counterparty.name,
+    type: counterparty.type,
+    website: counterparty.website ?? null,
+    logoUrl: counterparty.logo_url ?? null,
+    entityId: counterparty.entity_id ?? null,
+    confidenceLevel: counterparty.confidence_level ?? null,
+  }));
+
+  return {
+    merchantName: tx.merchant_name?.trim() || null,
+    logoUrl: tx.logo_url ?? null,
+    website: tx.website ?? null,
+    paymentChannel: PAYMENT_CHANNELS.includes(tx.payment_channel as PaymentChannel)
+      ? (tx.payment_channel as PaymentChannel)
+      : null,
+    location: location && Object.values(location).some((value) => value !== null) ? location : null,
+    counterparties: counterparties.length > 0 ? counterparties : null,
+  };
+}
+
+/**
+ * One-line location for display and CSV, e.g. "Seattle, WA"
+ */
+export function formatTransactionLocation(location: TransactionLocation | null): string {
+  if (!location) {
+    return "";
+  }
+  const place = [location.city, location.region].filter(Boolean).join(", ");
+  return place || location.country || "";
+}
@@ -0,0 +1,98 @@
+/**
+ * Transaction Splits
+ * Validation of split allocations, and expansion of split transactions into one line per
+ * split so spending totals use the split amounts and categories instead of the parent's
+ */
+
+import type { Transaction } from "../storage/repositories/transactions.js";
+import type { NewTransactionSplit, TransactionSplit } from "../storage/repositories/transaction-splits.js";
+
+export const MIN_SPLITS = 2;
+export const MAX_SPLITS = 20;
+
+/**
+ * A transaction, or one split of it, as counted in spending totals
+ */
+export type SplitLine<T> = T & {
+  splitId: string | null;
+  splitNote: string | null;
+};
+
+function toCents(amount: number): number {
+  return Math.round(amount * 100);
+}
+
+/**
+ * Check proposed splits against the parent transaction
+ * Splits must be non-zero, share the parent's sign and add up to it to the cent
+ * @returns A message describing the first problem, or null when the splits are valid
+ */
+export function validateTransactionSplits(
+  parentAmount: number,
+  splits: NewTransactionSplit[]
+): string | null {
+  if (splits.length < MIN_SPLITS) {
+    return `A split needs at least ${MIN_SPLITS} parts.`;
+  }
+  if (splits.length > MAX_SPLITS) {
+    return `A transaction can be split into at most ${MAX_SPLITS} parts.`;
+  }
+
+  for (const split of splits) {
+    if (!split.category.trim()) {
+      return "Every split needs a category.";
+    }
+    if (toCents(split.amount) === 0) {
+      return "Split amounts can't be zero.";
+    }
+    if (Math.sign(split.amount) !== Math.sign(parentAmount)) {
+      return `Split amounts must have the same sign as the transaction amount (${parentAmount.toFixed(2)}).`;
+    }
+  }
+
+  const totalCents = splits.reduce((sum, split) => sum + toCents(split.amount), 0);
+  if (totalCents !== toCents(parentAmount)) {
+    return `Splits add up to ${(totalCents / 100).toFixed(2)} but the transaction amount is ${parentAmount.toFixed(2)}.`;
+  }
+
+  return null;
+}
+
+/**
+ * Replace split transactions with one line per split (split amount, category and note);
+ * other transactions pass through unchanged
+ */
+export function expandSplitTransactions<T extends Pick<Transaction, "transactionId" | "amount" | "customCategory">>(
+  transactions: T[],
+  splits: TransactionSplit[]
+): SplitLine<T>[] {
+  const splitsByTransaction = new Map<string, TransactionSplit[]>();
+  for (const split of splits) {
+    const group = splitsByTransaction.get(split.transactionId) ?? [];
+    group.push(split);
+    splitsByTransaction.set(split.transactionId, group);
+  }
+
+  return transactions.flatMap((tx): SplitLine<T>[] => {
+    const txSplits = splitsByTransaction.get(tx.transactionId);
+    if (!txSplits || txSplits.length === 0) {
+      return [{ ...tx, splitId: null, splitNote: null }];
+    }
+    return [...txSplits]
+      .sort((a, b) => a.position - b.position)
+      .map((split) => ({
+        ...tx,
+        amount: split.amount,
+        customCategory: split.category,
+        splitId: split.id,
+        splitNote: split.note,
+      }));
+  });
+}
+
+/**
+ * Description for a split line: the parent's description plus the split note
+ */
+export function describeSplitLine(name: string, splitNote: string | null): string {
+  return splitNote ? `${name} (${splitNote})` : name;
+}
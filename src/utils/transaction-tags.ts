@@ -0,0 +1,68 @@
+/**
+ * Transaction Tags
+ * Normalization of user tags and notes, so "Vacation 2026" and "vacation-2026" are the same tag
+ */
+
+export const MAX_TAG_LENGTH = 40;
+export const MAX_TAGS_PER_TRANSACTION = 20;
+export const MAX_NOTE_LENGTH = 500;
+
+const TAG_PATTERN = /^[a-z0-9][a-z0-9_-]*$/;
+
+/**
+ * Lowercase a tag and join words with hyphens
+ * @returns The normalized tag, or null when it has characters tags can't contain or is too long
+ */
+export function normalizeTag(raw: string): string | null {
+  const tag = raw
+    .trim()
+    .replace(/^#/, "")
+    .toLowerCase()
+    .replace(/\s+/g, "-");
+
+  if (!tag || tag.length > MAX_TAG_LENGTH || !TAG_PATTERN.test(tag)) {
+    return null;
+  }
+  return tag;
+}
+
+/**
+ * Normalize a list of tags, dropping duplicates
+ */
+export function normalizeTags(raw: string[]): { tags: string[]; invalid: string[] } {
+  const tags: string[] = [];
+  const invalid: string[] = [];
+
+  for (const value of raw) {
+    const tag = normalizeTag(value);
+    if (!tag) {
+      invalid.push(value);
+    } else if (!tags.includes(tag)) {
+      tags.push(tag);
+    }
+  }
+
+  return { tags, invalid };
+}
+
+/**
+ * Add tags to a transaction's current tags, keeping their order
+ */
+export function addTags(current: string[], tags: string[]): string[] {
+  return [...current, ...tags.filter((tag) => !current.includes(tag))];
+}
+
+/**
+ * Remove tags from a transaction's current tags
+ */
+export function removeTags(current: string[], tags: string[]): string[] {
+  return current.filter((tag) => !tags.includes(tag));
+}
+
+/**
+ * Trim a note; blank notes clear it
+ */
+export function normalizeNote(raw: string): string | null {
+  const note = raw.trim();
+  return note ? note : null;
+}
@@ -0,0 +1,97 @@
+/**
+ * Internal Transfer Matching
+ * Pairs the two sides of money moving between a user's own accounts
+ *
+ * A transfer (or credit card payment) shows up as an outflow on one account and an inflow of
+ * the same amount on another a few days apart. Left alone, both sides count as spending and
+ * income. Pure functions - no database access - so the logic can be unit tested directly.
+ */
+
+export const TRANSFER_MATCH_WINDOW_DAYS = 3;
+
+export interface TransferCandidate {
+  transactionId: string;
+  accountId: string;
+  date: string; // YYYY-MM-DD
+  amount: number; // Plaid sign: positive = money out, negative = money in
+  pending: boolean;
+  transferPairId: string | null;
+  transferMatchRejected: boolean;
+}
+
+export interface TransferPair {
+  outflowId: string;
+  inflowId: string;
+  amount: number; // Absolute amount moved
+  daysApart: number;
+}
+
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
+function daysBetween(start: string, end: string): number {
+  return Math.round(
+    (new Date(`${end}T00:00:00Z`).getTime() - new Date(`${start}T00:00:00Z`).getTime()) / MS_PER_DAY
+  );
+}
+
+function toCents(amount: number): number {
+  return Math.round(Math.abs(amount) * 100);
+}
+
+/**
+ * Find internal transfers among transactions that aren't linked yet
+ *
+ * Outflows and inflows of exactly the same amount on different accounts, no more than
+ * windowDays apart, are paired. When several could pair up, the closest dates win
+ * (ties go to the lowest transaction IDs) so results don't depend on input order.
+ * Pending, already linked and user-rejected transactions are never paired.
+ */
+export function findTransferPairs(
+  candidates: TransferCandidate[],
+  windowDays: number = TRANSFER_MATCH_WINDOW_DAYS
+): TransferPair[] {
+  const eligible = candidates.filter(
+    (tx) => !tx.pending && !tx.transferPairId && !tx.transferMatchRejected && tx.amount !== 0
+  );
+
+  // Inflows grouped by amount in cents
+  const inflowsByCents = new Map<number, TransferCandidate[]>();
+  for (const tx of eligible.filter((tx) => tx.amount < 0)) {
+    const cents = toCents(tx.amount);
+    inflowsByCents.set(cents, [...(inflowsByCents.get(cents) ?? []), tx]);
+  }
+
+  const options: TransferPair[] = [];
+  for (const outflow of eligible.filter((tx) => tx.amount > 0)) {
+    for (const inflow of inflowsByCents.get(toCents(outflow.amount)) ?? []) {
+      const daysApart = Math.abs(daysBetween(outflow.date, inflow.date));
+      if (inflow.accountId !== outflow.accountId && daysApart <= windowDays) {
+        options.push({
+          outflowId: outflow.transactionId,
+          inflowId: inflow.transactionId,
+          amount: toCents(outflow.amount) / 100,
+          daysApart,
+        });
+      }
+    }
+  }
+
+  options.sort(
+    (a, b) =>
+      a.daysApart - b.daysApart ||
+      a.outflowId.localeCompare(b.outflowId) ||
+      a.inflowId.localeCompare(b.inflowId)
+  );
+
+  const paired = new Set<string>();
+  const pairs: TransferPair[] = [];
+  for (const option of options) {
+    if (!paired.has(option.outflowId) && !paired.has(option.inflowId)) {
+      paired.add(option.outflowId);
+      paired.add(option.inflowId);
+      pairs.push(option);
+    }
+  }
+
+  return pairs;
+}
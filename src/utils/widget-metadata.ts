@@ -40,7 +40,7 @@ export const WIDGET_META = {
   /**
    * Budget List Widget
    * Interactive budget cards showing spending progress with color-coded status bars.
-   * Used by: get-budgets, create-budget, update-budget-rules
+   * Used by: get-budgets, get-budget-history, create-budget, update-budget-rules
    */
   budgetList: {
     "openai/outputTemplate": "ui://widget/budget-list.html",
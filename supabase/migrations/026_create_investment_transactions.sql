@@ -0,0 +1,63 @@
+-- Migration 026: Create investment_transactions table
+-- Purpose: Store investment activity (buys, sells, dividends, fees, contributions) from Plaid
+-- /investments/transactions/get so users can answer questions like "what did I contribute this year"
+
+CREATE TABLE investment_transactions (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  investment_transaction_id TEXT NOT NULL UNIQUE,
+  user_id TEXT NOT NULL,
+  account_id TEXT NOT NULL REFERENCES accounts(account_id) ON DELETE CASCADE,
+  security_id TEXT, -- null for pure cash activity (e.g., contributions, fees)
+
+  -- Transaction data from Plaid
+  date DATE NOT NULL,
+  name TEXT NOT NULL,
+  quantity NUMERIC NOT NULL DEFAULT 0,
+  amount NUMERIC NOT NULL, -- positive = cash out of the account, negative = cash in
+  price NUMERIC NOT NULL DEFAULT 0,
+  fees NUMERIC,
+  type TEXT NOT NULL, -- buy, sell, cancel, cash, fee, transfer
+  subtype TEXT, -- dividend, contribution, interest, deposit, withdrawal, etc.
+
+  -- Security metadata (denormalized like investment_holdings)
+  ticker_symbol TEXT,
+  security_name TEXT,
+
+  -- Currency
+  iso_currency_code TEXT,
+  unofficial_currency_code TEXT,
+
+  -- Timestamps
+  last_synced_at TIMESTAMP DEFAULT NOW(),
+  created_at TIMESTAMP DEFAULT NOW(),
+  updated_at TIMESTAMP DEFAULT NOW()
+);
+
+-- Indexes for fast queries
+CREATE INDEX idx_investment_transactions_user_date ON investment_transactions(user_id, date DESC);
+CREATE INDEX idx_investment_transactions_account_id ON investment_transactions(account_id);
+CREATE INDEX idx_investment_transactions_security_id ON investment_transactions(security_id);
+CREATE INDEX idx_investment_transactions_type ON investment_transactions(user_id, type, subtype);
+
+-- Comments for documentation
+COMMENT ON TABLE investment_transactions IS 'Investment activity from Plaid Investments API - buys, sells, dividends, fees, and contributions';
+COMMENT ON COLUMN investment_transactions.amount IS 'Cash impact on the account: positive when cash leaves (buy, fee), negative when it arrives (sell, dividend, contribution)';
+COMMENT ON COLUMN investment_transactions.subtype IS 'Plaid investment transaction subtype (e.g., dividend, contribution, interest)';
+
+-- Row Level Security (same pattern as migration 023)
+alter table public.investment_transactions enable row level security;
+alter table public.investment_transactions force row level security;
+
+create policy "investment transactions users manage own rows"
+  on public.investment_transactions
+  for all
+  to authenticated, anon
+  using (user_id = private.get_clerk_user_id())
+  with check (user_id = private.get_clerk_user_id());
+
+create policy "investment transactions service role full access"
+  on public.investment_transactions
+  for all
+  to service_role
+  using (true)
+  with check (true);
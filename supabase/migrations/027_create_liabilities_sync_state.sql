@@ -0,0 +1,49 @@
+-- Migration 027: Create liabilities_sync_state table
+-- Purpose: Track liabilities sync status per connection for the scheduled liabilities-sync job
+-- Similar to account_investment_sync_state, but keyed by item since /liabilities/get is called once per item
+
+CREATE TABLE liabilities_sync_state (
+  item_id TEXT PRIMARY KEY REFERENCES plaid_connections(item_id) ON DELETE CASCADE,
+  user_id TEXT NOT NULL,
+
+  -- Sync status tracking
+  sync_status TEXT NOT NULL DEFAULT 'never_synced' CHECK (sync_status IN ('never_synced', 'syncing', 'synced', 'error')),
+  last_synced_at TIMESTAMP,
+  last_error TEXT,
+
+  -- Metrics for observability
+  credit_count INT DEFAULT 0,
+  mortgage_count INT DEFAULT 0,
+  student_count INT DEFAULT 0,
+
+  -- Timestamps
+  created_at TIMESTAMP DEFAULT NOW(),
+  updated_at TIMESTAMP DEFAULT NOW()
+);
+
+-- Indexes for staleness lookups and cron observability
+CREATE INDEX idx_liabilities_sync_state_user_id ON liabilities_sync_state(user_id);
+CREATE INDEX idx_liabilities_sync_state_status ON liabilities_sync_state(sync_status);
+CREATE INDEX idx_liabilities_sync_state_last_synced ON liabilities_sync_state(last_synced_at);
+
+-- Comments for documentation
+COMMENT ON TABLE liabilities_sync_state IS 'Tracks liabilities sync status per Plaid item';
+COMMENT ON COLUMN liabilities_sync_state.sync_status IS 'Current sync status: never_synced, syncing, synced, or error';
+COMMENT ON COLUMN liabilities_sync_state.last_synced_at IS 'Time of last successful sync; get-liabilities uses this to report staleness';
+
+-- Row Level Security (same pattern as migration 023)
+alter table public.liabilities_sync_state enable row level security;
+alter table public.liabilities_sync_state force row level security;
+
+create policy "liabilities sync state users read own rows"
+  on public.liabilities_sync_state
+  for select
+  to authenticated, anon
+  using (user_id = private.get_clerk_user_id());
+
+create policy "liabilities sync state service role full access"
+  on public.liabilities_sync_state
+  for all
+  to service_role
+  using (true)
+  with check (true);
@@ -0,0 +1,63 @@
+-- Migration 028: Create recurring_series table
+-- Purpose: Store recurring charges (subscriptions, bills) detected from the transactions table
+-- Rows are derived data: the detector rewrites a user's series after each transaction sync
+
+CREATE TABLE recurring_series (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id TEXT NOT NULL,
+
+  -- Merchant identity (merchant_key is the normalized grouping key)
+  merchant_key TEXT NOT NULL,
+  merchant_name TEXT NOT NULL,
+  account_id TEXT,
+
+  -- Inferred schedule
+  cadence TEXT NOT NULL CHECK (cadence IN ('weekly', 'biweekly', 'monthly', 'quarterly', 'annual')),
+  expected_amount DECIMAL(12, 2) NOT NULL,
+  previous_amount DECIMAL(12, 2),
+  first_date DATE NOT NULL,
+  last_date DATE NOT NULL,
+  next_expected_date DATE NOT NULL,
+  occurrence_count INT NOT NULL,
+  transaction_ids TEXT[] NOT NULL DEFAULT '{}',
+
+  -- Flags as of detected_at
+  status TEXT NOT NULL DEFAULT 'active' CHECK (status IN ('active', 'missed', 'cancelled')),
+  price_increased BOOLEAN NOT NULL DEFAULT FALSE,
+
+  -- Timestamps
+  detected_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+
+  UNIQUE (user_id, merchant_key)
+);
+
+-- Indexes for fast queries
+CREATE INDEX idx_recurring_series_user_id ON recurring_series(user_id);
+CREATE INDEX idx_recurring_series_next_expected ON recurring_series(user_id, next_expected_date);
+
+-- Comments for documentation
+COMMENT ON TABLE recurring_series IS 'Recurring charges and subscriptions detected from transaction history';
+COMMENT ON COLUMN recurring_series.merchant_key IS 'Normalized merchant name used to group transactions (store numbers, processor prefixes removed)';
+COMMENT ON COLUMN recurring_series.expected_amount IS 'Amount of the most recent charge - what the next charge is expected to be';
+COMMENT ON COLUMN recurring_series.previous_amount IS 'Amount of the charge before the most recent one, used to flag price increases';
+COMMENT ON COLUMN recurring_series.status IS 'active, missed (next charge is overdue), or cancelled (more than a full period overdue)';
+
+-- Row Level Security (same pattern as migration 023)
+alter table public.recurring_series enable row level security;
+alter table public.recurring_series force row level security;
+
+create policy "recurring series users manage own rows"
+  on public.recurring_series
+  for all
+  to authenticated, anon
+  using (user_id = private.get_clerk_user_id())
+  with check (user_id = private.get_clerk_user_id());
+
+create policy "recurring series service role full access"
+  on public.recurring_series
+  for all
+  to service_role
+  using (true)
+  with check (true);
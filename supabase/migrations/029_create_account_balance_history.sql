@@ -0,0 +1,48 @@
+-- Migration 029: Create account_balance_history table
+-- Purpose: Keep one balance row per account per day so balances can be charted over time
+-- accounts only holds the latest balance and net_worth_snapshots only stores user-level totals
+
+CREATE TABLE account_balance_history (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id TEXT NOT NULL,
+  account_id TEXT NOT NULL REFERENCES accounts(account_id) ON DELETE CASCADE,
+  balance_date DATE NOT NULL,
+
+  -- Balances as reported by Plaid at the last sync of the day
+  current_balance DECIMAL(15, 2),
+  available_balance DECIMAL(15, 2),
+  limit_amount DECIMAL(15, 2),
+  currency_code TEXT DEFAULT 'USD',
+
+  -- Timestamps
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+
+  UNIQUE (account_id, balance_date)
+);
+
+-- Indexes for fast queries
+CREATE INDEX idx_account_balance_history_user_date ON account_balance_history(user_id, balance_date DESC);
+CREATE INDEX idx_account_balance_history_account_date ON account_balance_history(account_id, balance_date DESC);
+
+-- Comments for documentation
+COMMENT ON TABLE account_balance_history IS 'Daily per-account balance history, written on every account sync (last sync of the day wins)';
+COMMENT ON COLUMN account_balance_history.balance_date IS 'UTC date the balance was observed';
+
+-- Row Level Security (same pattern as migration 023)
+alter table public.account_balance_history enable row level security;
+alter table public.account_balance_history force row level security;
+
+create policy "account balance history users manage own rows"
+  on public.account_balance_history
+  for all
+  to authenticated, anon
+  using (user_id = private.get_clerk_user_id())
+  with check (user_id = private.get_clerk_user_id());
+
+create policy "account balance history service role full access"
+  on public.account_balance_history
+  for all
+  to service_role
+  using (true)
+  with check (true);
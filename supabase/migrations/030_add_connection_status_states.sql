@@ -0,0 +1,27 @@
+-- Migration 030: Typed connection status on plaid_connections
+-- Purpose: Replace the free-form status with the states the sync and reconnect flows act on
+--   active             - healthy, synced by cron and webhooks
+--   login_required     - user must re-authenticate via update-account-link (syncs skipped)
+--   pending_expiration - consent expires soon, still syncing
+--   institution_down   - transient institution outage, retried on the next sync
+--   error              - other item error that needs the user (syncs skipped)
+
+-- Backfill rows written before the states were typed
+UPDATE plaid_connections
+SET status = 'login_required'
+WHERE status = 'error' AND error_code = 'ITEM_LOGIN_REQUIRED';
+
+UPDATE plaid_connections
+SET status = 'active'
+WHERE status NOT IN ('active', 'login_required', 'pending_expiration', 'institution_down', 'error');
+
+ALTER TABLE plaid_connections
+ADD CONSTRAINT plaid_connections_status_check
+CHECK (status IN ('active', 'login_required', 'pending_expiration', 'institution_down', 'error'));
+
+-- Track when the status last changed so stale errors are easy to spot
+ALTER TABLE plaid_connections
+ADD COLUMN IF NOT EXISTS status_updated_at TIMESTAMP WITH TIME ZONE;
+
+COMMENT ON COLUMN plaid_connections.status IS 'Connection health: active, login_required, pending_expiration, institution_down, or error';
+COMMENT ON COLUMN plaid_connections.status_updated_at IS 'When status last changed (set by sync error handling, webhooks, and update mode)';
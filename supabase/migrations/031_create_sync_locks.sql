@@ -0,0 +1,34 @@
+-- Migration 031: Create sync_locks table
+-- Purpose: Per-item lease so the cron job, webhooks and manual refreshes never sync the same Plaid item at once
+-- A lease is held until released or until expires_at passes (crashed workers don't block an item forever)
+
+CREATE TABLE sync_locks (
+  item_id TEXT PRIMARY KEY REFERENCES plaid_connections(item_id) ON DELETE CASCADE,
+  user_id TEXT NOT NULL,
+
+  -- Lease ownership
+  lease_token UUID NOT NULL,
+  holder TEXT NOT NULL,
+  acquired_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+  expires_at TIMESTAMP WITH TIME ZONE NOT NULL
+);
+
+-- Index for spotting stale leases
+CREATE INDEX idx_sync_locks_expires_at ON sync_locks(expires_at);
+
+-- Comments for documentation
+COMMENT ON TABLE sync_locks IS 'Per-item sync leases shared by cron, webhook and manual refresh syncs';
+COMMENT ON COLUMN sync_locks.lease_token IS 'Random token identifying the holder; required to release the lease';
+COMMENT ON COLUMN sync_locks.holder IS 'Which sync path holds the lease (e.g. cron:plaid-sync, webhook)';
+COMMENT ON COLUMN sync_locks.expires_at IS 'After this time the lease may be taken over by another sync';
+
+-- Row Level Security (service role only; users never read locks)
+alter table public.sync_locks enable row level security;
+alter table public.sync_locks force row level security;
+
+create policy "sync locks service role full access"
+  on public.sync_locks
+  for all
+  to service_role
+  using (true)
+  with check (true);
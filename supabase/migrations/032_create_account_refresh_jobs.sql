@@ -0,0 +1,46 @@
+-- Migration 032: Create account_refresh_jobs table
+-- Purpose: Track on-demand refreshes started by the refresh-accounts tool so get-refresh-status can report progress
+-- Per-account progress still lives in account_sync_state / account_investment_sync_state; this table records the request itself
+
+CREATE TABLE account_refresh_jobs (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id TEXT NOT NULL,
+
+  -- Which connections the refresh covers
+  item_ids TEXT[] NOT NULL DEFAULT '{}',
+
+  -- Job status tracking
+  status TEXT NOT NULL DEFAULT 'queued' CHECK (status IN ('queued', 'running', 'complete', 'partial', 'failed')),
+  item_results JSONB NOT NULL DEFAULT '[]'::jsonb,
+  error_message TEXT,
+
+  -- Timestamps
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+  started_at TIMESTAMP WITH TIME ZONE,
+  completed_at TIMESTAMP WITH TIME ZONE
+);
+
+-- Index for "latest refresh" lookups per user
+CREATE INDEX idx_account_refresh_jobs_user_created ON account_refresh_jobs(user_id, created_at DESC);
+
+-- Comments for documentation
+COMMENT ON TABLE account_refresh_jobs IS 'On-demand account refreshes requested through the refresh-accounts tool';
+COMMENT ON COLUMN account_refresh_jobs.status IS 'queued, running, complete, partial (some items failed or were skipped), or failed';
+COMMENT ON COLUMN account_refresh_jobs.item_results IS 'Per-item outcome: [{ item_id, institution_name, status, error }]';
+
+-- Row Level Security (same pattern as migration 023)
+alter table public.account_refresh_jobs enable row level security;
+alter table public.account_refresh_jobs force row level security;
+
+create policy "account refresh jobs users read own rows"
+  on public.account_refresh_jobs
+  for select
+  to authenticated, anon
+  using (user_id = private.get_clerk_user_id());
+
+create policy "account refresh jobs service role full access"
+  on public.account_refresh_jobs
+  for all
+  to service_role
+  using (true)
+  with check (true);
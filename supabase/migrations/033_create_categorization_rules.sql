@@ -0,0 +1,64 @@
+-- Migration 033: Create categorization_rules table
+-- Purpose: Structured, deterministic categorization rules evaluated before any transaction is sent to Claude
+-- Complements categorization_prompts.custom_rules (free text for the LLM); a matching rule always wins
+
+CREATE TABLE categorization_rules (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id TEXT NOT NULL,
+
+  -- Conditions (all provided conditions must match)
+  merchant_pattern TEXT,
+  merchant_match_type TEXT NOT NULL DEFAULT 'contains' CHECK (merchant_match_type IN ('contains', 'regex')),
+  min_amount NUMERIC(12, 2),
+  max_amount NUMERIC(12, 2),
+  account_ids TEXT[],
+  plaid_category TEXT,
+
+  -- Outcome
+  category TEXT NOT NULL,
+
+  -- Evaluation order: higher priority first, then oldest first
+  priority INT NOT NULL DEFAULT 0,
+  enabled BOOLEAN NOT NULL DEFAULT TRUE,
+
+  -- Timestamps
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+
+  -- A rule with no conditions would match every transaction
+  CONSTRAINT categorization_rules_has_condition CHECK (
+    merchant_pattern IS NOT NULL
+    OR min_amount IS NOT NULL
+    OR max_amount IS NOT NULL
+    OR account_ids IS NOT NULL
+    OR plaid_category IS NOT NULL
+  )
+);
+
+-- Index for loading a user's rules in evaluation order
+CREATE INDEX idx_categorization_rules_user_priority ON categorization_rules(user_id, priority DESC, created_at);
+
+-- Comments for documentation
+COMMENT ON TABLE categorization_rules IS 'Per-user deterministic categorization rules, applied during sync and recategorization before Claude';
+COMMENT ON COLUMN categorization_rules.merchant_pattern IS 'Case-insensitive substring (contains) or regular expression (regex) matched against the transaction name';
+COMMENT ON COLUMN categorization_rules.min_amount IS 'Inclusive lower bound on the absolute transaction amount';
+COMMENT ON COLUMN categorization_rules.max_amount IS 'Inclusive upper bound on the absolute transaction amount';
+COMMENT ON COLUMN categorization_rules.plaid_category IS 'Plaid personal finance category (primary or detailed, e.g. FOOD_AND_DRINK or FOOD_AND_DRINK_COFFEE)';
+
+-- Row Level Security (same pattern as migration 023)
+alter table public.categorization_rules enable row level security;
+alter table public.categorization_rules force row level security;
+
+create policy "categorization rules users manage own rows"
+  on public.categorization_rules
+  for all
+  to authenticated, anon
+  using (user_id = private.get_clerk_user_id())
+  with check (user_id = private.get_clerk_user_id());
+
+create policy "categorization rules service role full access"
+  on public.categorization_rules
+  for all
+  to service_role
+  using (true)
+  with check (true);
@@ -0,0 +1,24 @@
+-- Migration 034: Category provenance and manual overrides on transactions
+-- Purpose: Record where each custom_category came from (AI, structured rule, or the user) and
+-- lock manual corrections so recategorization and sync never overwrite them
+
+ALTER TABLE transactions
+ADD COLUMN IF NOT EXISTS category_source TEXT CHECK (category_source IN ('ai', 'rule', 'manual'));
+
+ALTER TABLE transactions
+ADD COLUMN IF NOT EXISTS category_rule_id UUID REFERENCES categorization_rules(id) ON DELETE SET NULL;
+
+ALTER TABLE transactions
+ADD COLUMN IF NOT EXISTS category_locked BOOLEAN NOT NULL DEFAULT FALSE;
+
+-- Everything categorized before this migration came from Claude
+UPDATE transactions
+SET category_source = 'ai'
+WHERE custom_category IS NOT NULL AND category_source IS NULL;
+
+-- Index for skipping locked transactions during recategorization
+CREATE INDEX IF NOT EXISTS idx_transactions_user_category_locked ON transactions(user_id) WHERE category_locked;
+
+COMMENT ON COLUMN transactions.category_source IS 'Where custom_category came from: ai, rule (see category_rule_id), or manual';
+COMMENT ON COLUMN transactions.category_rule_id IS 'Structured rule that set custom_category when category_source = rule';
+COMMENT ON COLUMN transactions.category_locked IS 'Manual override; recategorization and sync keep custom_category as-is';
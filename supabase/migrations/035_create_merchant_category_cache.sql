@@ -0,0 +1,51 @@
+-- Migration 035: Create merchant_category_cache table
+-- Purpose: Remember the AI category per normalized merchant and amount band so repeat merchants skip Claude during sync
+-- Cleared whenever the user's free-text categorization rules change
+
+CREATE TABLE merchant_category_cache (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id TEXT NOT NULL,
+
+  -- Cache key
+  merchant_key TEXT NOT NULL,
+  amount_band TEXT NOT NULL,
+
+  -- Last AI category and how consistently Claude has returned it
+  category TEXT NOT NULL,
+  confidence NUMERIC(4, 3) NOT NULL CHECK (confidence >= 0 AND confidence <= 1),
+  observation_count INT NOT NULL DEFAULT 1,
+
+  -- Timestamps
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+
+  CONSTRAINT merchant_category_cache_user_key UNIQUE (user_id, merchant_key, amount_band)
+);
+
+-- Index for looking up a sync page's merchants
+CREATE INDEX idx_merchant_category_cache_user_merchant ON merchant_category_cache(user_id, merchant_key);
+
+-- Comments for documentation
+COMMENT ON TABLE merchant_category_cache IS 'Per-user cache of AI categories keyed by normalized merchant and amount band, consulted during sync before Claude';
+COMMENT ON COLUMN merchant_category_cache.merchant_key IS 'Merchant name normalized the same way as recurring detection (processor prefixes and store numbers removed)';
+COMMENT ON COLUMN merchant_category_cache.amount_band IS 'Direction and size bucket of the amount, e.g. debit:10-25 or credit:100-250';
+COMMENT ON COLUMN merchant_category_cache.confidence IS 'Share of recent observations where Claude returned this category';
+COMMENT ON COLUMN merchant_category_cache.observation_count IS 'AI categorizations folded into confidence (capped so the cache keeps adapting)';
+
+-- Row Level Security (same pattern as migration 023)
+alter table public.merchant_category_cache enable row level security;
+alter table public.merchant_category_cache force row level security;
+
+create policy "merchant category cache users manage own rows"
+  on public.merchant_category_cache
+  for all
+  to authenticated, anon
+  using (user_id = private.get_clerk_user_id())
+  with check (user_id = private.get_clerk_user_id());
+
+create policy "merchant category cache service role full access"
+  on public.merchant_category_cache
+  for all
+  to service_role
+  using (true)
+  with check (true);
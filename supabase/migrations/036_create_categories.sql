@@ -0,0 +1,57 @@
+-- Migration 036: Create categories table
+-- Purpose: Per-user category taxonomy (top-level categories with one level of subcategories)
+-- Drives the categorization prompt and category filters; users without rows get the built-in defaults
+
+CREATE TABLE categories (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id TEXT NOT NULL,
+
+  -- Category
+  name TEXT NOT NULL,
+  parent_id UUID REFERENCES categories(id) ON DELETE CASCADE,
+  description TEXT,
+
+  -- Display
+  color TEXT CHECK (color IS NULL OR color ~ '^#[0-9A-Fa-f]{6}$'),
+  icon TEXT,
+
+  -- Income, transfers and similar categories that shouldn't count as spending
+  exclude_from_spending BOOLEAN NOT NULL DEFAULT FALSE,
+
+  -- Timestamps
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+
+  CONSTRAINT categories_not_own_parent CHECK (parent_id IS NULL OR parent_id <> id)
+);
+
+-- Category names are unique per user regardless of case (transactions store the name)
+CREATE UNIQUE INDEX idx_categories_user_name ON categories(user_id, lower(name));
+
+-- Index for loading a user's taxonomy
+CREATE INDEX idx_categories_user_parent ON categories(user_id, parent_id);
+
+-- Comments for documentation
+COMMENT ON TABLE categories IS 'Per-user category taxonomy used by AI categorization, category filters and spending totals';
+COMMENT ON COLUMN categories.name IS 'Category name as stored in transactions.custom_category and categorization_rules.category';
+COMMENT ON COLUMN categories.parent_id IS 'Parent category for subcategories (NULL for top-level); only one level of nesting';
+COMMENT ON COLUMN categories.description IS 'Examples given to Claude in the categorization prompt';
+COMMENT ON COLUMN categories.exclude_from_spending IS 'Leave this category (and its subcategories) out of spending analysis';
+
+-- Row Level Security (same pattern as migration 023)
+alter table public.categories enable row level security;
+alter table public.categories force row level security;
+
+create policy "categories users manage own rows"
+  on public.categories
+  for all
+  to authenticated, anon
+  using (user_id = private.get_clerk_user_id())
+  with check (user_id = private.get_clerk_user_id());
+
+create policy "categories service role full access"
+  on public.categories
+  for all
+  to service_role
+  using (true)
+  with check (true);
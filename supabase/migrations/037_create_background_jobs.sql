@@ -0,0 +1,54 @@
+-- Migration 037: Create background_jobs table
+-- Purpose: Track long-running background work (recategorization, budget processing) so get-job-status can report progress
+-- Counters are updated as the job advances; partial means some items failed but others were processed
+
+CREATE TABLE background_jobs (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id TEXT NOT NULL,
+
+  -- What the job does
+  job_type TEXT NOT NULL CHECK (job_type IN ('recategorization', 'budget_processing')),
+  metadata JSONB NOT NULL DEFAULT '{}'::jsonb,
+
+  -- Job status tracking
+  status TEXT NOT NULL DEFAULT 'queued' CHECK (status IN ('queued', 'running', 'complete', 'partial', 'failed')),
+  total_count INT,
+  processed_count INT NOT NULL DEFAULT 0,
+  failed_count INT NOT NULL DEFAULT 0,
+  error_message TEXT,
+
+  -- Timestamps
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+  started_at TIMESTAMP WITH TIME ZONE,
+  completed_at TIMESTAMP WITH TIME ZONE,
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW()
+);
+
+-- Index for "latest job" lookups per user and type
+CREATE INDEX idx_background_jobs_user_type_created ON background_jobs(user_id, job_type, created_at DESC);
+
+-- Comments for documentation
+COMMENT ON TABLE background_jobs IS 'Background work started by tools (recategorization, budget processing), polled through get-job-status';
+COMMENT ON COLUMN background_jobs.metadata IS 'Job-specific context, e.g. { "budget_id": ..., "budget_title": ... } for budget processing';
+COMMENT ON COLUMN background_jobs.status IS 'queued, running, complete, partial (some items failed), or failed';
+COMMENT ON COLUMN background_jobs.total_count IS 'Items the job will process (NULL until known)';
+COMMENT ON COLUMN background_jobs.processed_count IS 'Items attempted so far, including failures';
+COMMENT ON COLUMN background_jobs.failed_count IS 'Items that failed';
+COMMENT ON COLUMN background_jobs.error_message IS 'Most recent error (a job can be partial and still carry one)';
+
+-- Row Level Security (same pattern as migration 023)
+alter table public.background_jobs enable row level security;
+alter table public.background_jobs force row level security;
+
+create policy "background jobs users read own rows"
+  on public.background_jobs
+  for select
+  to authenticated, anon
+  using (user_id = private.get_clerk_user_id());
+
+create policy "background jobs service role full access"
+  on public.background_jobs
+  for all
+  to service_role
+  using (true)
+  with check (true);
@@ -0,0 +1,31 @@
+-- Migration 038: Merchant enrichment on transactions
+-- Purpose: Keep Plaid's cleaned merchant name, logo, website, payment channel, location and
+-- counterparties so transactions can be grouped by merchant and categorized with better input
+
+ALTER TABLE transactions
+ADD COLUMN IF NOT EXISTS merchant_name TEXT;
+
+ALTER TABLE transactions
+ADD COLUMN IF NOT EXISTS logo_url TEXT;
+
+ALTER TABLE transactions
+ADD COLUMN IF NOT EXISTS website TEXT;
+
+ALTER TABLE transactions
+ADD COLUMN IF NOT EXISTS payment_channel TEXT CHECK (payment_channel IN ('online', 'in store', 'other'));
+
+ALTER TABLE transactions
+ADD COLUMN IF NOT EXISTS location JSONB;
+
+ALTER TABLE transactions
+ADD COLUMN IF NOT EXISTS counterparties JSONB;
+
+-- Index for grouping a user's spending by merchant
+CREATE INDEX IF NOT EXISTS idx_transactions_user_merchant_name ON transactions(user_id, merchant_name) WHERE merchant_name IS NOT NULL;
+
+COMMENT ON COLUMN transactions.merchant_name IS 'Cleaned merchant name from Plaid enrichment (null when Plaid could not identify one)';
+COMMENT ON COLUMN transactions.logo_url IS 'Merchant logo URL from Plaid';
+COMMENT ON COLUMN transactions.website IS 'Merchant website from Plaid';
+COMMENT ON COLUMN transactions.payment_channel IS 'How the transaction was made: online, in store, or other';
+COMMENT ON COLUMN transactions.location IS 'Merchant location {address, city, region, postalCode, country, lat, lon, storeNumber}; null when Plaid has none';
+COMMENT ON COLUMN transactions.counterparties IS 'Parties to the transaction [{name, type, website, logoUrl, entityId, confidenceLevel}]';
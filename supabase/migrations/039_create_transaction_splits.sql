@@ -0,0 +1,57 @@
+-- Migration 039: Create transaction_splits table
+-- Purpose: Allocate one transaction across several categories (e.g. a Costco charge that is part
+-- groceries, part household goods). When a transaction has splits, budgets, category filters and
+-- spending totals use the split amounts instead of the parent transaction
+
+CREATE TABLE transaction_splits (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id TEXT NOT NULL,
+  transaction_id TEXT NOT NULL REFERENCES transactions(transaction_id) ON DELETE CASCADE,
+
+  -- Allocation (amounts of a transaction's splits sum to the transaction amount)
+  amount NUMERIC(12, 2) NOT NULL CHECK (amount <> 0),
+  category TEXT NOT NULL,
+  note TEXT,
+  position INT NOT NULL DEFAULT 0,
+
+  -- Budget associations (labeled like transactions.budget_ids)
+  budget_ids TEXT[] NOT NULL DEFAULT '{}',
+
+  -- Timestamps
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW()
+);
+
+-- Index for loading a transaction's splits
+CREATE INDEX idx_transaction_splits_transaction ON transaction_splits(transaction_id, position);
+
+-- Index for category filters
+CREATE INDEX idx_transaction_splits_user_category ON transaction_splits(user_id, category);
+
+-- Index for budget queries
+CREATE INDEX idx_transaction_splits_budget_ids ON transaction_splits USING GIN (budget_ids);
+
+-- Comments for documentation
+COMMENT ON TABLE transaction_splits IS 'Category allocations of a single transaction; replace the parent in budgets, category filters and spending totals';
+COMMENT ON COLUMN transaction_splits.amount IS 'Portion of the parent amount, same sign convention as transactions.amount';
+COMMENT ON COLUMN transaction_splits.note IS 'Optional user note, e.g. "paper towels"';
+COMMENT ON COLUMN transaction_splits.position IS 'Order the splits were given in';
+COMMENT ON COLUMN transaction_splits.budget_ids IS 'Budgets this split counts toward';
+
+-- Row Level Security (same pattern as migration 023)
+alter table public.transaction_splits enable row level security;
+alter table public.transaction_splits force row level security;
+
+create policy "transaction splits users manage own rows"
+  on public.transaction_splits
+  for all
+  to authenticated, anon
+  using (user_id = private.get_clerk_user_id())
+  with check (user_id = private.get_clerk_user_id());
+
+create policy "transaction splits service role full access"
+  on public.transaction_splits
+  for all
+  to service_role
+  using (true)
+  with check (true);
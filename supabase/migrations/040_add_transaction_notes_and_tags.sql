@@ -0,0 +1,19 @@
+-- Migration 040: Transaction notes and tags
+-- Purpose: Let users annotate transactions with a free-text note and tags ("reimbursable",
+-- "vacation-2026") and find them later; budgets can target a tag instead of a filter prompt
+
+ALTER TABLE transactions
+ADD COLUMN IF NOT EXISTS notes TEXT;
+
+ALTER TABLE transactions
+ADD COLUMN IF NOT EXISTS tags TEXT[] NOT NULL DEFAULT '{}';
+
+ALTER TABLE budgets
+ADD COLUMN IF NOT EXISTS tag TEXT;
+
+-- GIN index for tag filters (tags && ARRAY[...])
+CREATE INDEX IF NOT EXISTS idx_transactions_tags ON transactions USING GIN(tags);
+
+COMMENT ON COLUMN transactions.notes IS 'User note; sync never overwrites it';
+COMMENT ON COLUMN transactions.tags IS 'User tags, lowercase (e.g. reimbursable, vacation-2026); sync never overwrites them';
+COMMENT ON COLUMN budgets.tag IS 'When set, the budget matches transactions carrying this tag instead of using filter_prompt';
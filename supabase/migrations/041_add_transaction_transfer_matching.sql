@@ -0,0 +1,15 @@
+-- Migration 041: Internal transfer matching
+-- Purpose: Link the two sides of a transfer between a user's own accounts (or a credit card
+-- payment) so they can be left out of spending, budgets and cash-flow totals
+
+ALTER TABLE transactions
+ADD COLUMN IF NOT EXISTS transfer_pair_id TEXT;
+
+ALTER TABLE transactions
+ADD COLUMN IF NOT EXISTS transfer_match_rejected BOOLEAN NOT NULL DEFAULT false;
+
+-- Index for excluding internal transfers from a user's transactions
+CREATE INDEX IF NOT EXISTS idx_transactions_user_transfer_pair ON transactions(user_id, transfer_pair_id) WHERE transfer_pair_id IS NOT NULL;
+
+COMMENT ON COLUMN transactions.transfer_pair_id IS 'transaction_id of the other side of an internal transfer (null when not a matched transfer); sync never overwrites it';
+COMMENT ON COLUMN transactions.transfer_match_rejected IS 'User said this is not an internal transfer; the matcher skips it';
@@ -0,0 +1,17 @@
+-- Migration 042: Budget rollover
+-- Purpose: Let fixed-period budgets carry unspent (surplus) and/or overspent (deficit) amounts
+-- into the next period, optionally capped
+
+ALTER TABLE budgets
+ADD COLUMN IF NOT EXISTS rollover_mode TEXT NOT NULL DEFAULT 'none'
+CHECK (rollover_mode IN ('none', 'surplus', 'deficit', 'both'));
+
+ALTER TABLE budgets
+ADD COLUMN IF NOT EXISTS rollover_cap DECIMAL(10, 2) CHECK (rollover_cap IS NULL OR rollover_cap >= 0);
+
+ALTER TABLE budgets
+ADD COLUMN IF NOT EXISTS rollover_start_date DATE;
+
+COMMENT ON COLUMN budgets.rollover_mode IS 'What carries into the next period: none, surplus (unspent), deficit (overspent) or both';
+COMMENT ON COLUMN budgets.rollover_cap IS 'Largest amount carried either way (null = uncapped)';
+COMMENT ON COLUMN budgets.rollover_start_date IS 'First period counted for rollover; earlier periods never carry over';
@@ -0,0 +1,97 @@
+-- Migration 043: Budget alerts and notification outbox
+-- Purpose: Tell users when spending crosses a budget's alert thresholds. Alerts are written once
+-- per budget, period and threshold to the notifications outbox, then delivered to the user's
+-- notification channels (email, webhook) and surfaced by get-notifications
+
+ALTER TABLE budgets
+ADD COLUMN IF NOT EXISTS alert_thresholds INT[] NOT NULL DEFAULT '{80,100}';
+
+COMMENT ON COLUMN budgets.alert_thresholds IS 'Percentages of the period limit that raise an alert when crossed (empty = no alerts)';
+
+CREATE TABLE notifications (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id TEXT NOT NULL,
+
+  -- Event
+  type TEXT NOT NULL CHECK (type IN ('budget_threshold')),
+  dedupe_key TEXT NOT NULL,
+  title TEXT NOT NULL,
+  message TEXT NOT NULL,
+  data JSONB NOT NULL DEFAULT '{}',
+
+  -- In-app state
+  read_at TIMESTAMP WITH TIME ZONE,
+
+  -- Outbox delivery state
+  delivery_status TEXT NOT NULL DEFAULT 'pending' CHECK (delivery_status IN ('pending', 'delivered', 'failed', 'skipped')),
+  delivery_attempts INT NOT NULL DEFAULT 0,
+  last_delivery_error TEXT,
+  delivered_at TIMESTAMP WITH TIME ZONE,
+
+  -- Timestamps
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+
+  UNIQUE (user_id, dedupe_key)
+);
+
+-- Index for listing a user's notifications, newest first
+CREATE INDEX idx_notifications_user_created ON notifications(user_id, created_at DESC);
+
+-- Index for the delivery worker
+CREATE INDEX idx_notifications_undelivered ON notifications(user_id, created_at)
+WHERE delivery_status IN ('pending', 'failed');
+
+COMMENT ON TABLE notifications IS 'Outbox of user alerts: written once per event, then delivered to notification_channels';
+COMMENT ON COLUMN notifications.dedupe_key IS 'Identifies the event, e.g. budget:<id>:<period start>:<threshold>, so it is only written once';
+COMMENT ON COLUMN notifications.data IS 'Event details (budget, period, threshold, spending) for tools and webhooks';
+COMMENT ON COLUMN notifications.delivery_status IS 'pending, delivered (to every enabled channel), failed (retried until attempts run out) or skipped (no channels)';
+
+CREATE TABLE notification_channels (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id TEXT NOT NULL,
+  channel TEXT NOT NULL CHECK (channel IN ('email', 'webhook')),
+  target TEXT NOT NULL,
+  enabled BOOLEAN NOT NULL DEFAULT TRUE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+
+  UNIQUE (user_id, channel)
+);
+
+COMMENT ON TABLE notification_channels IS 'Where a user''s notifications are delivered, one row per channel';
+COMMENT ON COLUMN notification_channels.target IS 'Email address or webhook URL';
+
+-- Row Level Security (same pattern as migration 023)
+alter table public.notifications enable row level security;
+alter table public.notifications force row level security;
+
+create policy "notifications users manage own rows"
+  on public.notifications
+  for all
+  to authenticated, anon
+  using (user_id = private.get_clerk_user_id())
+  with check (user_id = private.get_clerk_user_id());
+
+create policy "notifications service role full access"
+  on public.notifications
+  for all
+  to service_role
+  using (true)
+  with check (true);
+
+alter table public.notification_channels enable row level security;
+alter table public.notification_channels force row level security;
+
+create policy "notification channels users manage own rows"
+  on public.notification_channels
+  for all
+  to authenticated, anon
+  using (user_id = private.get_clerk_user_id())
+  with check (user_id = private.get_clerk_user_id());
+
+create policy "notification channels service role full access"
+  on public.notification_channels
+  for all
+  to service_role
+  using (true)
+  with check (true);
@@ -0,0 +1,46 @@
+-- Migration 044: Structured budget filters
+-- Purpose: Let budgets match transactions on categories, accounts, merchant patterns, an amount
+-- range and tags, evaluated locally without Claude. filter_prompt becomes optional; when a budget
+-- has both, the prompt refines the transactions the criteria matched
+
+ALTER TABLE budgets
+ALTER COLUMN filter_prompt DROP NOT NULL;
+
+ALTER TABLE budgets
+ADD COLUMN IF NOT EXISTS filter_categories TEXT[] NOT NULL DEFAULT '{}';
+
+ALTER TABLE budgets
+ADD COLUMN IF NOT EXISTS filter_account_ids TEXT[] NOT NULL DEFAULT '{}';
+
+ALTER TABLE budgets
+ADD COLUMN IF NOT EXISTS filter_merchant_patterns TEXT[] NOT NULL DEFAULT '{}';
+
+ALTER TABLE budgets
+ADD COLUMN IF NOT EXISTS filter_min_amount DECIMAL(10, 2) CHECK (filter_min_amount IS NULL OR filter_min_amount >= 0);
+
+ALTER TABLE budgets
+ADD COLUMN IF NOT EXISTS filter_max_amount DECIMAL(10, 2) CHECK (filter_max_amount IS NULL OR filter_max_amount >= 0);
+
+ALTER TABLE budgets
+ADD COLUMN IF NOT EXISTS filter_tags TEXT[] NOT NULL DEFAULT '{}';
+
+-- A budget needs something to match transactions with
+ALTER TABLE budgets
+ADD CONSTRAINT budgets_has_filter CHECK (
+  filter_prompt IS NOT NULL
+  OR tag IS NOT NULL
+  OR cardinality(filter_categories) > 0
+  OR cardinality(filter_account_ids) > 0
+  OR cardinality(filter_merchant_patterns) > 0
+  OR filter_min_amount IS NOT NULL
+  OR filter_max_amount IS NOT NULL
+  OR cardinality(filter_tags) > 0
+);
+
+COMMENT ON COLUMN budgets.filter_prompt IS 'Natural language filter for Claude; with structured criteria it only refines what they matched (null = criteria only)';
+COMMENT ON COLUMN budgets.filter_categories IS 'Match transactions in any of these categories (subcategories included); empty = any category';
+COMMENT ON COLUMN budgets.filter_account_ids IS 'Match transactions from any of these accounts; empty = any account';
+COMMENT ON COLUMN budgets.filter_merchant_patterns IS 'Match descriptions containing any of these (case-insensitive); empty = any merchant';
+COMMENT ON COLUMN budgets.filter_min_amount IS 'Smallest absolute amount matched, inclusive';
+COMMENT ON COLUMN budgets.filter_max_amount IS 'Largest absolute amount matched, inclusive';
+COMMENT ON COLUMN budgets.filter_tags IS 'Match transactions carrying any of these tags; empty = tags not checked';
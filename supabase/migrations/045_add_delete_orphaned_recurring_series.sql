@@ -0,0 +1,30 @@
+-- Migration 045: Server-side cleanup of orphaned recurring series
+-- Purpose: recurring_series has no foreign key to plaid_connections, so series outlive a user's
+-- last connection. The cleanup-old-data cron job removes them with a single NOT EXISTS delete
+-- instead of shipping every user ID to the API. Transactions, holdings and liabilities already
+-- cascade from their connection or account (migrations 010, 019, 021) and need no cleanup.
+
+CREATE OR REPLACE FUNCTION public.delete_orphaned_recurring_series()
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY INVOKER
+SET search_path = public
+AS $$
+DECLARE
+  deleted_count INTEGER;
+BEGIN
+  DELETE FROM recurring_series rs
+  WHERE NOT EXISTS (
+    SELECT 1 FROM plaid_connections pc WHERE pc.user_id = rs.user_id
+  );
+
+  GET DIAGNOSTICS deleted_count = ROW_COUNT;
+  RETURN deleted_count;
+END;
+$$;
+
+-- Cross-user cleanup: only the service role may run it
+REVOKE EXECUTE ON FUNCTION public.delete_orphaned_recurring_series() FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.delete_orphaned_recurring_series() TO service_role;
+
+COMMENT ON FUNCTION public.delete_orphaned_recurring_series() IS 'Deletes recurring series of users with no Plaid connections; returns the number deleted (cleanup-old-data cron job)';
@@ -0,0 +1,9 @@
+-- Migration 046: Resync requests on sync leases
+-- Purpose: A SYNC_UPDATES_AVAILABLE webhook that arrives while another sync holds the item's lease
+-- flags the lease instead of being dropped. The holder sees the flag when it releases and runs
+-- the sync again, so updates that land after it paged past has_more=false aren't missed
+
+ALTER TABLE sync_locks
+ADD COLUMN IF NOT EXISTS resync_requested BOOLEAN NOT NULL DEFAULT false;
+
+COMMENT ON COLUMN sync_locks.resync_requested IS 'Set when new data arrived during the sync; the holder syncs again before releasing';
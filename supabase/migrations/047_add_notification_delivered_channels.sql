@@ -0,0 +1,9 @@
+-- Migration 047: Per-channel notification delivery
+-- Purpose: Remember which channels already received a notification, so a retry after one channel
+-- fails only goes to the channels that haven't got it yet instead of sending duplicates to the rest
+
+ALTER TABLE notifications
+ADD COLUMN IF NOT EXISTS delivered_channels TEXT[] NOT NULL DEFAULT '{}';
+
+COMMENT ON COLUMN notifications.delivered_channels IS 'Channels (email, webhook) that have received this notification; retries skip them';
+COMMENT ON COLUMN notifications.delivery_status IS 'pending, delivered (to every enabled channel), failed (failed channels retried until attempts run out) or skipped (no channels)';
@@ -54,6 +54,7 @@ export interface TestTransaction {
   name: string;
   amount: number;
   pending: boolean;
+  custom_category?: string | null;
 }
 
 /**
@@ -112,11 +113,17 @@ export async function cleanupTestUser(
   const adminClient = createTestSupabaseAdminClient();
 
   // Delete in reverse order of dependencies (foreign keys)
+  await adminClient.from("transaction_splits").delete().eq("user_id", userId);
   await adminClient.from("transactions").delete().eq("user_id", userId);
+  await adminClient.from("recurring_series").delete().eq("user_id", userId);
+  await adminClient.from("account_balance_history").delete().eq("user_id", userId);
   await adminClient.from("investment_holdings").delete().eq("user_id", userId);
+  await adminClient.from("investment_transactions").delete().eq("user_id", userId);
   await adminClient.from("liabilities_credit").delete().eq("user_id", userId);
   await adminClient.from("liabilities_mortgage").delete().eq("user_id", userId);
   await adminClient.from("liabilities_student").delete().eq("user_id", userId);
+  await adminClient.from("liabilities_sync_state").delete().eq("user_id", userId);
+  await adminClient.from("account_refresh_jobs").delete().eq("user_id", userId);
 
   const { data: userAccountIds, error: accountFetchError } = await adminClient
     .from("accounts")
@@ -134,8 +141,14 @@ export async function cleanupTestUser(
   }
 
   await adminClient.from("accounts").delete().eq("user_id", userId);
+  await adminClient.from("background_jobs").delete().eq("user_id", userId);
+  await adminClient.from("notifications").delete().eq("user_id", userId);
+  await adminClient.from("notification_channels").delete().eq("user_id", userId);
   await adminClient.from("budgets").delete().eq("user_id", userId);
+  await adminClient.from("categories").delete().eq("user_id", userId);
   await adminClient.from("categorization_prompts").delete().eq("user_id", userId);
+  await adminClient.from("categorization_rules").delete().eq("user_id", userId);
+  await adminClient.from("merchant_category_cache").delete().eq("user_id", userId);
   await adminClient.from("net_worth_snapshots").delete().eq("user_id", userId);
   await adminClient.from("plaid_connections").delete().eq("user_id", userId);
   await adminClient.from("plaid_sessions").delete().eq("user_id", userId);
@@ -9,6 +9,7 @@ import { describe, it, before, beforeEach, after } from "node:test";
 import assert from "node:assert";
 import { setSupabaseMock, resetSupabase } from "../../src/storage/supabase.js";
 import { getAccountStatusHandler } from "../../src/tools/accounts/handlers.js";
+import { getBalanceHistoryHandler } from "../../src/tools/accounts/get-balance-history.js";
 import {
   getFinancialSummaryHandler,
   GetFinancialSummaryOutputSchema,
@@ -359,4 +360,77 @@ describe("Account Dashboard Tool Integration Tests", () => {
 
     console.log("✓ Financial summary output successfully validated against Zod schema");
   });
+
+  it("balance history should forward-fill gaps and sum by account type", async () => {
+    await createTestConnection(supabase, {
+      itemId: "item_test_history",
+      userId: testUserId,
+      institutionName: "Test Bank",
+    });
+
+    const accountsToInsert: Database["public"]["Tables"]["accounts"]["Insert"][] = [
+      {
+        account_id: "acc_history_checking",
+        user_id: testUserId,
+        item_id: "item_test_history",
+        name: "Checking Account",
+        type: "depository",
+        subtype: "checking",
+        current_balance: 800,
+        last_synced_at: new Date().toISOString(),
+        currency_code: "USD",
+      },
+      {
+        account_id: "acc_history_savings",
+        user_id: testUserId,
+        item_id: "item_test_history",
+        name: "Savings Account",
+        type: "depository",
+        subtype: "savings",
+        current_balance: 5200,
+        last_synced_at: new Date().toISOString(),
+        currency_code: "USD",
+      },
+    ];
+    const { error: accountsError } = await adminClient.from("accounts").insert(accountsToInsert);
+    if (accountsError) throw accountsError;
+
+    // Checking draws down daily; savings only synced on the first and last day
+    const { error: historyError } = await adminClient.from("account_balance_history").insert([
+      { user_id: testUserId, account_id: "acc_history_checking", balance_date: "2025-03-01", current_balance: 1500 },
+      { user_id: testUserId, account_id: "acc_history_checking", balance_date: "2025-03-02", current_balance: 1100 },
+      { user_id: testUserId, account_id: "acc_history_checking", balance_date: "2025-03-03", current_balance: 800 },
+      { user_id: testUserId, account_id: "acc_history_savings", balance_date: "2025-03-01", current_balance: 5000 },
+      { user_id: testUserId, account_id: "acc_history_savings", balance_date: "2025-03-03", current_balance: 5200 },
+    ]);
+    if (historyError) throw historyError;
+
+    const byAccount = await getBalanceHistoryHandler(testUserId, {
+      start_date: "2025-03-01",
+      end_date: "2025-03-03",
+    });
+
+    assert(byAccount.structuredContent, "Should return structured content");
+    const checking = byAccount.structuredContent.series.find((s) => s.key === "acc_history_checking");
+    const savings = byAccount.structuredContent.series.find((s) => s.key === "acc_history_savings");
+    assert.equal(checking?.change, -700, "Checking should show the drawdown");
+    assert.deepEqual(
+      savings?.points.map((p) => p.balance),
+      [5000, 5000, 5200],
+      "Savings gap on 03-02 should carry the previous balance forward"
+    );
+
+    const byType = await getBalanceHistoryHandler(testUserId, {
+      start_date: "2025-03-01",
+      end_date: "2025-03-03",
+      group_by: "type",
+    });
+
+    assert(byType.structuredContent, "Should return structured content");
+    assert.equal(byType.structuredContent.series.length, 1);
+    assert.deepEqual(
+      byType.structuredContent.series[0].points.map((p) => p.balance),
+      [6500, 6100, 6000]
+    );
+  });
 });
@@ -0,0 +1,159 @@
+/**
+ * Account Refresh Integration Tests
+ * Tests the refresh-accounts job flow: per-item outcomes recorded on account_refresh_jobs,
+ * per-account progress in get-refresh-status, and reuse of a refresh that's still running
+ */
+
+import { describe, it, before, beforeEach, after } from "node:test";
+import assert from "node:assert";
+import { MockPlaidClient } from "../mocks/plaid-mock.js";
+import { MockClaudeClient } from "../mocks/claude-mock.js";
+import { setSupabaseMock, resetSupabase } from "../../src/storage/supabase.js";
+import { requestAccountRefresh, runAccountRefreshJob } from "../../src/services/account-refresh.js";
+import {
+  createAccountRefreshJob,
+  findAccountRefreshJob,
+} from "../../src/storage/repositories/account-refresh-jobs.js";
+import {
+  findAccountConnectionsByUserId,
+  updateAccountConnectionStatus,
+} from "../../src/storage/repositories/account-connections.js";
+import { acquireSyncLock, releaseSyncLock } from "../../src/storage/repositories/sync-locks.js";
+import { getRefreshStatusHandler } from "../../src/tools/accounts/get-refresh-status.js";
+import {
+  createTestSupabaseClient,
+  cleanupTestUser,
+  createTestConnection,
+} from "../helpers/test-db.js";
+
+describe("Account Refresh", () => {
+  const testUserId = "test-user-account-refresh";
+  const testItemId = "item-test-account-refresh";
+  const supabase = createTestSupabaseClient(testUserId);
+  const mockClaudeClient = new MockClaudeClient();
+  let mockPlaidClient: any;
+
+  before(() => {
+    setSupabaseMock(supabase);
+  });
+
+  beforeEach(async () => {
+    mockPlaidClient = new MockPlaidClient();
+    await cleanupTestUser(supabase, testUserId);
+    await createTestConnection(supabase, {
+      itemId: testItemId,
+      userId: testUserId,
+      institutionName: "Mock Bank",
+    });
+  });
+
+  after(async () => {
+    await cleanupTestUser(supabase, testUserId);
+    resetSupabase();
+  });
+
+  it("refreshes every connection and reports per-account progress", async () => {
+    const connections = await findAccountConnectionsByUserId(testUserId);
+    const job = await createAccountRefreshJob(testUserId, [testItemId]);
+
+    const results = await runAccountRefreshJob(job, connections, mockPlaidClient, mockClaudeClient);
+
+    assert.deepEqual(results.map((r) => r.status), ["synced"]);
+    assert.equal(mockPlaidClient.transactionsRefreshCount, 1);
+
+    const status = await getRefreshStatusHandler(testUserId, { job_id: job.id });
+    assert.equal(status.structuredContent?.job.status, "complete");
+    assert(status.structuredContent!.accounts.length > 0, "Accounts should be listed");
+    assert(
+      status.structuredContent!.accounts.every((account) => account.transactions?.refreshed),
+      "Every account should have synced after the refresh was requested"
+    );
+  });
+
+  it("marks the job partial when an item is already being synced or needs reconnecting", async () => {
+    const lease = await acquireSyncLock(testItemId, testUserId, "cron:test", 60_000);
+    assert(lease);
+
+    try {
+      const connections = await findAccountConnectionsByUserId(testUserId);
+      const job = await createAccountRefreshJob(testUserId, [testItemId]);
+      const results = await runAccountRefreshJob(job, connections, mockPlaidClient, mockClaudeClient);
+
+      assert.equal(results[0].status, "skipped_locked");
+      assert.equal((await findAccountRefreshJob(testUserId, job.id))?.status, "partial");
+    } finally {
+      await releaseSyncLock(lease);
+    }
+
+    await updateAccountConnectionStatus(testItemId, "login_required", "ITEM_LOGIN_REQUIRED", "login required");
+    const connections = await findAccountConnectionsByUserId(testUserId);
+    const job = await createAccountRefreshJob(testUserId, [testItemId]);
+    const results = await runAccountRefreshJob(job, connections, mockPlaidClient, mockClaudeClient);
+
+    assert.equal(results[0].status, "needs_reconnect");
+    assert.equal(mockPlaidClient.transactionsRefreshCount, 0);
+  });
+
+  it("marks a connection failed when its accounts fail to sync", async () => {
+    const connections = await findAccountConnectionsByUserId(testUserId);
+    await runAccountRefreshJob(
+      await createAccountRefreshJob(testUserId, [testItemId]),
+      connections,
+      mockPlaidClient,
+      mockClaudeClient
+    );
+
+    // Institution outages don't need a reconnect, so the sync moves on to each account and fails there
+    mockPlaidClient.setItemError({
+      error_type: "INSTITUTION_ERROR",
+      error_code: "INSTITUTION_DOWN",
+      error_message: "institution down",
+    });
+    const job = await createAccountRefreshJob(testUserId, [testItemId]);
+    const results = await runAccountRefreshJob(job, connections, mockPlaidClient, mockClaudeClient);
+
+    assert.equal(results[0].status, "failed");
+    assert.match(results[0].error ?? "", /status code 400/);
+    assert.equal((await findAccountRefreshJob(testUserId, job.id))?.status, "failed");
+  });
+
+  it("returns the running job instead of starting a second refresh", async () => {
+    const first = await requestAccountRefresh(testUserId, mockPlaidClient, { claudeClient: mockClaudeClient });
+    const second = await requestAccountRefresh(testUserId, mockPlaidClient, { claudeClient: mockClaudeClient });
+
+    assert.equal(first.reused, false);
+    assert.equal(second.reused, true);
+    assert.equal(second.job.id, first.job.id);
+  });
+
+  it("starts a new refresh when the running job doesn't cover the requested connections", async () => {
+    const otherItemId = "item-test-account-refresh-2";
+    await createTestConnection(supabase, {
+      itemId: otherItemId,
+      userId: testUserId,
+      institutionName: "Other Bank",
+    });
+
+    const first = await requestAccountRefresh(testUserId, mockPlaidClient, {
+      itemIds: [testItemId],
+      claudeClient: mockClaudeClient,
+    });
+    const all = await requestAccountRefresh(testUserId, mockPlaidClient, { claudeClient: mockClaudeClient });
+    const covered = await requestAccountRefresh(testUserId, mockPlaidClient, {
+      itemIds: [otherItemId],
+      claudeClient: mockClaudeClient,
+    });
+
+    assert.equal(all.reused, false);
+    assert.notEqual(all.job.id, first.job.id);
+    assert.equal(covered.reused, true);
+    assert.equal(covered.job.id, all.job.id);
+  });
+
+  it("rejects item IDs that don't belong to the user", async () => {
+    await assert.rejects(
+      requestAccountRefresh(testUserId, mockPlaidClient, { itemIds: ["item-someone-else"] }),
+      /not found/
+    );
+  });
+});
@@ -8,8 +8,12 @@
 import { describe, it, before, beforeEach, after } from "node:test";
 import assert from "node:assert";
 import { setSupabaseMock, resetSupabase } from "../../src/storage/supabase.js";
-import { recategorizeAllTransactions } from "../../src/services/recategorization-service.js";
+import {
+  previewRecategorization,
+  recategorizeAllTransactions,
+} from "../../src/services/recategorization-service.js";
 import { findTransactionsByUserId } from "../../src/storage/repositories/transactions.js";
+import { replaceTransactionSplits } from "../../src/storage/repositories/transaction-splits.js";
 import { saveCustomRules, getCustomRules } from "../../src/storage/categorization/rules.js";
 import {
   createTestSupabaseAdminClient,
@@ -134,4 +138,66 @@ describe("Async Recategorization Integration Tests", () => {
     const retrievedTransactions = await findTransactionsByUserId(testUserId, supabase);
     assert.equal(retrievedTransactions.length, 3, "Transactions should still exist after failed recategorization");
   });
+
+  it("should preview rule changes without writing anything", async () => {
+    await createTestConnection(supabase, {
+      itemId: "item_test_preview",
+      userId: testUserId,
+      institutionName: "Test Bank",
+    });
+
+    await createTestTransactions(supabase, [
+      { transaction_id: "tx_preview_1", user_id: testUserId, item_id: "item_test_preview", account_id: "acc_1", date: "2024-01-03", name: "Starbucks", amount: 5.0, pending: false, custom_category: "Shopping" },
+      { transaction_id: "tx_preview_2", user_id: testUserId, item_id: "item_test_preview", account_id: "acc_1", date: "2024-01-02", name: "Starbucks", amount: 6.0, pending: false, custom_category: "Food & Dining" },
+    ]);
+    await saveCustomRules(testUserId, "Existing rules");
+
+    const preview = await previewRecategorization(testUserId, "Coffee shops are Food & Dining", supabase, "all", mockClaudeClient);
+
+    assert.equal(preview.transactionsEvaluated, 2);
+    assert.deepEqual(
+      preview.changes.map((change) => [change.transactionId, change.fromCategory, change.toCategory]),
+      [["tx_preview_1", "Shopping", "Food & Dining"]]
+    );
+    const dining = preview.totals.find((total) => total.category === "Food & Dining");
+    assert.equal(dining?.countBefore, 1);
+    assert.equal(dining?.countAfter, 2);
+
+    // Nothing was saved
+    const stored = await findTransactionsByUserId(testUserId, supabase);
+    assert.equal(stored.find((tx) => tx.transactionId === "tx_preview_1")?.customCategory, "Shopping");
+    assert.equal(await getCustomRules(testUserId), "Existing rules");
+  });
+
+  it("should leave split transactions alone when recategorizing and previewing", async () => {
+    await createTestConnection(supabase, {
+      itemId: "item_test_split",
+      userId: testUserId,
+      institutionName: "Test Bank",
+    });
+
+    await createTestTransactions(supabase, [
+      { transaction_id: "tx_split_parent", user_id: testUserId, item_id: "item_test_split", account_id: "acc_1", date: "2024-01-03", name: "Starbucks", amount: 30.0, pending: false, custom_category: "Shopping" },
+      { transaction_id: "tx_split_other", user_id: testUserId, item_id: "item_test_split", account_id: "acc_1", date: "2024-01-02", name: "Starbucks", amount: 6.0, pending: false, custom_category: "Shopping" },
+    ]);
+    await replaceTransactionSplits(
+      testUserId,
+      "tx_split_parent",
+      [
+        { amount: 20.0, category: "Shopping" },
+        { amount: 10.0, category: "Groceries" },
+      ],
+      supabase
+    );
+
+    const preview = await previewRecategorization(testUserId, "Coffee shops are Food & Dining", supabase, "all", mockClaudeClient);
+    assert.equal(preview.lockedSkipped, 1);
+    assert.deepEqual(preview.changes.map((change) => change.transactionId), ["tx_split_other"]);
+
+    await recategorizeAllTransactions(testUserId, "Coffee shops are Food & Dining", supabase, mockClaudeClient);
+
+    const stored = await findTransactionsByUserId(testUserId, supabase);
+    assert.equal(stored.find((tx) => tx.transactionId === "tx_split_parent")?.customCategory, "Shopping");
+    assert.equal(stored.find((tx) => tx.transactionId === "tx_split_other")?.customCategory, "Food & Dining");
+  });
 });
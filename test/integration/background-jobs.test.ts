@@ -0,0 +1,130 @@
+/**
+ * Integration tests for background job tracking
+ * Runs recategorization under a background job and checks the recorded progress and outcome
+ *
+ * NOTE: Uses MockClaudeClient via dependency injection, no API calls
+ */
+
+import { describe, it, before, beforeEach, after } from "node:test";
+import assert from "node:assert";
+import { setSupabaseMock, resetSupabase } from "../../src/storage/supabase.js";
+import { recategorizeAllTransactions } from "../../src/services/recategorization-service.js";
+import { runBackgroundJob } from "../../src/services/background-jobs.js";
+import {
+  createBackgroundJob,
+  findBackgroundJob,
+  findRecentBackgroundJobs,
+} from "../../src/storage/repositories/background-jobs.js";
+import type { ClaudeClient } from "../../src/utils/clients/claude.js";
+import {
+  createTestSupabaseAdminClient,
+  cleanupTestUser,
+  createTestConnection,
+  createTestTransactions,
+} from "../helpers/test-db.js";
+import { MockClaudeClient } from "../mocks/claude-mock.js";
+
+describe("Background Jobs Integration Tests", () => {
+  const testUserId = "test-user-background-jobs";
+  const otherUserId = "test-user-background-jobs-other";
+  const supabase = createTestSupabaseAdminClient();
+
+  const failingClaudeClient: ClaudeClient = {
+    categorizeTransactions() {
+      throw new Error("Claude API error: 500");
+    },
+    filterTransactionsForBudget() {
+      throw new Error("Claude API error: 500");
+    },
+  };
+
+  async function seedTransactions() {
+    await createTestConnection(supabase, {
+      itemId: "item_jobs_1",
+      userId: testUserId,
+      institutionName: "Test Bank",
+    });
+    await createTestTransactions(supabase, [
+      { transaction_id: "tx_job_1", user_id: testUserId, item_id: "item_jobs_1", account_id: "acc_1", date: "2024-01-01", name: "Starbucks", amount: 5.0, pending: false },
+      { transaction_id: "tx_job_2", user_id: testUserId, item_id: "item_jobs_1", account_id: "acc_1", date: "2024-01-02", name: "Whole Foods", amount: 80.0, pending: false },
+      { transaction_id: "tx_job_3", user_id: testUserId, item_id: "item_jobs_1", account_id: "acc_1", date: "2024-01-03", name: "Shell Gas", amount: 40.0, pending: false },
+    ]);
+  }
+
+  before(() => {
+    setSupabaseMock(supabase);
+  });
+
+  beforeEach(async () => {
+    await cleanupTestUser(supabase, testUserId);
+    await cleanupTestUser(supabase, otherUserId);
+  });
+
+  after(async () => {
+    await cleanupTestUser(supabase, testUserId);
+    await cleanupTestUser(supabase, otherUserId);
+    resetSupabase();
+  });
+
+  it("records a completed recategorization with its progress counts", async () => {
+    await seedTransactions();
+
+    const job = await createBackgroundJob(testUserId, "recategorization");
+    assert.equal(job.status, "queued");
+
+    await runBackgroundJob(job, (progress) =>
+      recategorizeAllTransactions(testUserId, "test rules", supabase, new MockClaudeClient(), progress)
+    );
+
+    const finished = await findBackgroundJob(testUserId, job.id);
+    assert.ok(finished);
+    assert.equal(finished.status, "complete");
+    assert.equal(finished.totalCount, 3);
+    assert.equal(finished.processedCount, 3);
+    assert.equal(finished.failedCount, 0);
+    assert.ok(finished.startedAt, "Job should record when it started");
+    assert.ok(finished.completedAt, "Job should record when it finished");
+  });
+
+  it("records failed batches instead of losing them", async () => {
+    await seedTransactions();
+
+    const job = await createBackgroundJob(testUserId, "recategorization");
+    await runBackgroundJob(job, (progress) =>
+      recategorizeAllTransactions(testUserId, "test rules", supabase, failingClaudeClient, progress)
+    );
+
+    const finished = await findBackgroundJob(testUserId, job.id);
+    assert.ok(finished);
+    assert.equal(finished.status, "failed");
+    assert.equal(finished.processedCount, 3);
+    assert.equal(finished.failedCount, 3);
+    assert.match(finished.errorMessage ?? "", /Claude API error/);
+  });
+
+  it("marks a job failed when its work throws", async () => {
+    const job = await createBackgroundJob(testUserId, "budget_processing", { budget_id: "budget-1" });
+    await runBackgroundJob(job, async () => {
+      throw new Error("Budget not found");
+    });
+
+    const finished = await findBackgroundJob(testUserId, job.id);
+    assert.ok(finished);
+    assert.equal(finished.status, "failed");
+    assert.equal(finished.errorMessage, "Budget not found");
+    assert.deepEqual(finished.metadata, { budget_id: "budget-1" });
+  });
+
+  it("only returns the user's own jobs", async () => {
+    const own = await createBackgroundJob(testUserId, "recategorization");
+    const other = await createBackgroundJob(otherUserId, "recategorization");
+
+    assert.equal(await findBackgroundJob(testUserId, other.id), null);
+
+    const recent = await findRecentBackgroundJobs(testUserId);
+    assert.deepEqual(recent.map((job) => job.id), [own.id]);
+
+    const budgetJobs = await findRecentBackgroundJobs(testUserId, { jobType: "budget_processing" });
+    assert.equal(budgetJobs.length, 0);
+  });
+});
@@ -0,0 +1,136 @@
+/**
+ * Budget Alerts Integration Tests
+ * Tests that crossing a budget's alert threshold writes one notification, which is then
+ * delivered (retrying only the channels that failed) and surfaced by get-notifications
+ *
+ * NOTE: Uses MockClaudeClient via dependency injection, no API calls
+ */
+
+import { describe, it, before, beforeEach, after } from "node:test";
+import assert from "node:assert";
+import crypto from "crypto";
+import { setSupabaseMock, resetSupabase } from "../../src/storage/supabase.js";
+import { createBudget } from "../../src/storage/budgets/budgets.js";
+import { labelTransactionsForSingleBudget } from "../../src/utils/budget-labeling.js";
+import { getBudgetDateRange } from "../../src/utils/budget-periods.js";
+import { evaluateBudgetAlerts } from "../../src/services/budget-alert-service.js";
+import {
+  deliverPendingNotifications,
+  NotificationDeliverer,
+} from "../../src/services/notification-delivery.js";
+import { upsertNotificationChannel } from "../../src/storage/repositories/notifications.js";
+import { getNotificationsHandler } from "../../src/tools/notifications/get-notifications.js";
+import {
+  createTestSupabaseAdminClient,
+  cleanupTestUser,
+  createTestConnection,
+  createTestTransactions,
+} from "../helpers/test-db.js";
+import { MockClaudeClient } from "../mocks/claude-mock.js";
+
+describe("Budget Alerts", () => {
+  const testUserId = "test-user-budget-alerts";
+  const testItemId = "item-test-budget-alerts";
+  const supabase = createTestSupabaseAdminClient();
+
+  const periodStart = getBudgetDateRange("monthly", null, "2025-01-01").start.toISOString().split("T")[0];
+
+  before(() => {
+    setSupabaseMock(supabase);
+  });
+
+  beforeEach(async () => {
+    await cleanupTestUser(supabase, testUserId);
+    await createTestConnection(supabase, {
+      itemId: testItemId,
+      userId: testUserId,
+      institutionName: "Test Bank",
+    });
+    await createTestTransactions(supabase, [
+      { transaction_id: "tx_alerts_1", user_id: testUserId, item_id: testItemId, account_id: "acc_1", date: periodStart, name: "GROCERY OUTLET", amount: 255, pending: false },
+    ]);
+
+    const budget = await createBudget({
+      id: crypto.randomUUID(),
+      user_id: testUserId,
+      title: "Groceries",
+      filter_prompt: "Grocery stores",
+      budget_amount: 300,
+      time_period: "monthly",
+      fixed_period_start_date: "2025-01-01",
+      alert_thresholds: [80, 100],
+    });
+    await labelTransactionsForSingleBudget(testUserId, budget, supabase, new MockClaudeClient());
+  });
+
+  after(async () => {
+    await cleanupTestUser(supabase, testUserId);
+    resetSupabase();
+  });
+
+  it("writes one alert per threshold and period, however often it runs", async () => {
+    const first = await evaluateBudgetAlerts(testUserId, supabase);
+    const second = await evaluateBudgetAlerts(testUserId, supabase);
+
+    assert.equal(first.length, 1);
+    assert.equal(first[0].title, "Groceries reached 80%");
+    assert.equal(first[0].data.period_start, periodStart);
+    assert.equal(second.length, 0);
+  });
+
+  it("delivers alerts to enabled channels and surfaces them once", async () => {
+    const delivered: string[] = [];
+    const webhook: NotificationDeliverer = {
+      channel: "webhook",
+      deliver: async (notification, target) => {
+        delivered.push(`${target} ${notification.title}`);
+      },
+    };
+
+    await upsertNotificationChannel(testUserId, { channel: "webhook", target: "https://example.com/hook", enabled: true }, supabase);
+    await evaluateBudgetAlerts(testUserId, supabase);
+    const summary = await deliverPendingNotifications(testUserId, supabase, [webhook]);
+
+    assert.deepEqual(summary, { delivered: 1, failed: 0, skipped: 0 });
+    assert.deepEqual(delivered, ["https://example.com/hook Groceries reached 80%"]);
+
+    const unread = await getNotificationsHandler(testUserId, {}, supabase);
+    assert.equal(unread.structuredContent!.unread_count, 1);
+    assert.equal(unread.structuredContent!.notifications.length, 1);
+
+    const again = await getNotificationsHandler(testUserId, {}, supabase);
+    assert.equal(again.structuredContent!.notifications.length, 0);
+  });
+
+  it("retries only the channels that failed", async () => {
+    const delivered: string[] = [];
+    let emailUp = false;
+    const email: NotificationDeliverer = {
+      channel: "email",
+      deliver: async (notification) => {
+        if (!emailUp) {
+          throw new Error("SMTP connection closed");
+        }
+        delivered.push(`email ${notification.title}`);
+      },
+    };
+    const webhook: NotificationDeliverer = {
+      channel: "webhook",
+      deliver: async (notification) => {
+        delivered.push(`webhook ${notification.title}`);
+      },
+    };
+
+    await upsertNotificationChannel(testUserId, { channel: "email", target: "user@example.com", enabled: true }, supabase);
+    await upsertNotificationChannel(testUserId, { channel: "webhook", target: "https://example.com/hook", enabled: true }, supabase);
+    await evaluateBudgetAlerts(testUserId, supabase);
+
+    const first = await deliverPendingNotifications(testUserId, supabase, [email, webhook]);
+    emailUp = true;
+    const second = await deliverPendingNotifications(testUserId, supabase, [email, webhook]);
+
+    assert.deepEqual(first, { delivered: 0, failed: 1, skipped: 0 });
+    assert.deepEqual(second, { delivered: 1, failed: 0, skipped: 0 });
+    assert.deepEqual(delivered, ["webhook Groceries reached 80%", "email Groceries reached 80%"]);
+  });
+});
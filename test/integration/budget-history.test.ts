@@ -0,0 +1,97 @@
+/**
+ * Budget History Integration Tests
+ * Tests that get-budget-history reports spending for each past period of a budget
+ *
+ * NOTE: Uses MockClaudeClient via dependency injection, no API calls
+ */
+
+import { describe, it, before, beforeEach, after } from "node:test";
+import assert from "node:assert";
+import crypto from "crypto";
+import { setSupabaseMock, resetSupabase } from "../../src/storage/supabase.js";
+import { createBudget } from "../../src/storage/budgets/budgets.js";
+import { labelTransactionsForSingleBudget } from "../../src/utils/budget-labeling.js";
+import { getPreviousBudgetPeriods } from "../../src/utils/budget-periods.js";
+import { getBudgetHistoryHandler } from "../../src/tools/budgets/get-budget-history.js";
+import {
+  createTestSupabaseAdminClient,
+  cleanupTestUser,
+  createTestConnection,
+  createTestTransactions,
+} from "../helpers/test-db.js";
+import { MockClaudeClient } from "../mocks/claude-mock.js";
+
+describe("Budget History", () => {
+  const testUserId = "test-user-budget-history";
+  const testItemId = "item-test-budget-history";
+  const supabase = createTestSupabaseAdminClient();
+
+  // The three complete monthly periods before this one, oldest first
+  const [oldest, earlier, previous] = getPreviousBudgetPeriods("monthly", null, "2025-01-01", 3).reverse();
+
+  before(() => {
+    setSupabaseMock(supabase);
+  });
+
+  beforeEach(async () => {
+    await cleanupTestUser(supabase, testUserId);
+    await createTestConnection(supabase, {
+      itemId: testItemId,
+      userId: testUserId,
+      institutionName: "Test Bank",
+    });
+    await createTestTransactions(supabase, [
+      { transaction_id: "tx_history_oldest", user_id: testUserId, item_id: testItemId, account_id: "acc_1", date: oldest.start, name: "GROCERY OUTLET", amount: 120, pending: false },
+      { transaction_id: "tx_history_earlier", user_id: testUserId, item_id: testItemId, account_id: "acc_1", date: earlier.end, name: "GROCERY OUTLET", amount: 250, pending: false },
+      { transaction_id: "tx_history_previous", user_id: testUserId, item_id: testItemId, account_id: "acc_1", date: previous.start, name: "GROCERY OUTLET", amount: 330, pending: false },
+    ]);
+  });
+
+  after(async () => {
+    await cleanupTestUser(supabase, testUserId);
+    resetSupabase();
+  });
+
+  async function createGroceryBudget() {
+    const budget = await createBudget({
+      id: crypto.randomUUID(),
+      user_id: testUserId,
+      title: "Groceries",
+      filter_prompt: "Grocery stores",
+      budget_amount: 300,
+      time_period: "monthly",
+      fixed_period_start_date: "2025-01-01",
+    });
+    await labelTransactionsForSingleBudget(testUserId, budget, supabase, new MockClaudeClient());
+    return budget;
+  }
+
+  it("reports spend and status for each past period, oldest first", async () => {
+    const budget = await createGroceryBudget();
+
+    const result = await getBudgetHistoryHandler(testUserId, { budget_id: budget.id, periods: 3, include_current: false });
+    const { periods, summary } = result.structuredContent!;
+
+    assert.deepEqual(
+      periods.map((period) => [period.start, period.spent, period.status]),
+      [
+        [oldest.start, 120, "under"],
+        [earlier.start, 250, "near"],
+        [previous.start, 330, "over"],
+      ]
+    );
+    assert.equal(summary.periodsOver, 1);
+    assert.equal(summary.averageSpent, 233.33);
+  });
+
+  it("ends with the current period when asked", async () => {
+    const budget = await createGroceryBudget();
+
+    const result = await getBudgetHistoryHandler(testUserId, { budget_id: budget.id, periods: 2 });
+    const { periods } = result.structuredContent!;
+
+    assert.equal(periods.length, 3);
+    assert.equal(periods[2].current, true);
+    assert.equal(periods[2].spent, 0);
+  });
+});
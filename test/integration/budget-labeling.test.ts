@@ -418,4 +418,93 @@ describe("Budget Labeling Integration Tests", () => {
     console.log(`[TEST] Total coffee spending: $${totalSpent.toFixed(2)}`);
     assert(totalSpent > 0, "Total spending should be greater than 0");
   });
+
+  it("should label budgets with structured criteria without calling Claude", async () => {
+    await createTestConnection(adminSupabase, {
+      itemId: "item_test_criteria",
+      userId: testUserId,
+      institutionName: "Test Bank",
+    });
+
+    const transactions = [
+      {
+        transaction_id: "tx_criteria_coffee",
+        user_id: testUserId,
+        item_id: "item_test_criteria",
+        account_id: "acc_1",
+        date: "2024-01-15",
+        name: "Starbucks Coffee",
+        amount: 5.75,
+        pending: false,
+      },
+      {
+        transaction_id: "tx_criteria_beans",
+        user_id: testUserId,
+        item_id: "item_test_criteria",
+        account_id: "acc_1",
+        date: "2024-01-16",
+        name: "Starbucks Reserve Beans",
+        amount: 48.0,
+        pending: false,
+      },
+      {
+        transaction_id: "tx_criteria_other_account",
+        user_id: testUserId,
+        item_id: "item_test_criteria",
+        account_id: "acc_2",
+        date: "2024-01-16",
+        name: "Starbucks Coffee",
+        amount: 4.25,
+        pending: false,
+      },
+    ];
+
+    await createTestTransactions(adminSupabase, transactions);
+
+    const coffeeBudget = await createBudget({
+      id: crypto.randomUUID(),
+      user_id: testUserId,
+      title: "Coffee Runs",
+      filter_prompt: null,
+      filter_merchant_patterns: ["starbucks"],
+      filter_account_ids: ["acc_1"],
+      filter_max_amount: 20,
+      budget_amount: 50.0,
+      time_period: "rolling",
+      custom_period_days: 30,
+      fixed_period_start_date: null,
+    });
+
+    // Fails the test if structured criteria ever fall back to Claude
+    const noClaudeClient = {
+      ...mockClaudeClient,
+      categorizeTransactions: mockClaudeClient.categorizeTransactions.bind(mockClaudeClient),
+      filterTransactionsForBudget: () => {
+        throw new Error("Claude should not be called for structured criteria");
+      },
+    };
+
+    await labelTransactionArrayForBudgets(
+      transactions.map((tx) => ({
+        transactionId: tx.transaction_id,
+        date: tx.date,
+        name: tx.name,
+        amount: tx.amount,
+        customCategory: null,
+        accountName: null,
+        accountId: tx.account_id,
+        pending: tx.pending,
+      })),
+      [coffeeBudget],
+      adminSupabase,
+      noClaudeClient
+    );
+
+    const updatedTransactions = await findTransactionsByUserId(testUserId, userSupabase);
+    const labeled = updatedTransactions
+      .filter((tx) => tx.budgetIds?.includes(coffeeBudget.id))
+      .map((tx) => tx.transactionId);
+
+    assert.deepEqual(labeled, ["tx_criteria_coffee"]);
+  });
 });
@@ -0,0 +1,96 @@
+/**
+ * Budget Rollover Integration Tests
+ * Tests that get-budgets adds carryover from past periods to the current limit
+ *
+ * NOTE: Uses MockClaudeClient via dependency injection, no API calls
+ */
+
+import { describe, it, before, beforeEach, after } from "node:test";
+import assert from "node:assert";
+import crypto from "crypto";
+import { setSupabaseMock, resetSupabase } from "../../src/storage/supabase.js";
+import { createBudget } from "../../src/storage/budgets/budgets.js";
+import { labelTransactionsForSingleBudget } from "../../src/utils/budget-labeling.js";
+import { getPreviousBudgetPeriods } from "../../src/utils/budget-periods.js";
+import { getBudgetsHandler } from "../../src/tools/budgets/get-budgets.js";
+import {
+  createTestSupabaseAdminClient,
+  cleanupTestUser,
+  createTestConnection,
+  createTestTransactions,
+} from "../helpers/test-db.js";
+import { MockClaudeClient } from "../mocks/claude-mock.js";
+
+describe("Budget Rollover", () => {
+  const testUserId = "test-user-budget-rollover";
+  const testItemId = "item-test-budget-rollover";
+  const supabase = createTestSupabaseAdminClient();
+
+  // The two complete monthly periods before this one, oldest first
+  const [earlier, previous] = getPreviousBudgetPeriods("monthly", null, "2025-01-01", 2).reverse();
+
+  before(() => {
+    setSupabaseMock(supabase);
+  });
+
+  beforeEach(async () => {
+    await cleanupTestUser(supabase, testUserId);
+    await createTestConnection(supabase, {
+      itemId: testItemId,
+      userId: testUserId,
+      institutionName: "Test Bank",
+    });
+    await createTestTransactions(supabase, [
+      { transaction_id: "tx_rollover_earlier", user_id: testUserId, item_id: testItemId, account_id: "acc_1", date: earlier.start, name: "GROCERY OUTLET", amount: 200, pending: false },
+      { transaction_id: "tx_rollover_previous", user_id: testUserId, item_id: testItemId, account_id: "acc_1", date: previous.start, name: "GROCERY OUTLET", amount: 350, pending: false },
+    ]);
+  });
+
+  after(async () => {
+    await cleanupTestUser(supabase, testUserId);
+    resetSupabase();
+  });
+
+  async function createGroceryBudget(rolloverMode: string, rolloverCap: number | null = null) {
+    const budget = await createBudget({
+      id: crypto.randomUUID(),
+      user_id: testUserId,
+      title: "Groceries",
+      filter_prompt: "Grocery stores",
+      budget_amount: 300,
+      time_period: "monthly",
+      fixed_period_start_date: "2025-01-01",
+      rollover_mode: rolloverMode,
+      rollover_cap: rolloverCap,
+      rollover_start_date: earlier.start,
+    });
+    await labelTransactionsForSingleBudget(testUserId, budget, supabase, new MockClaudeClient());
+    return budget;
+  }
+
+  it("adds surplus from past periods to the current limit", async () => {
+    const budget = await createGroceryBudget("surplus");
+
+    const result = await getBudgetsHandler(testUserId, { budget_id: budget.id });
+    const [status] = result.structuredContent!.budgets;
+
+    // $100 left over in the earlier period, then $50 of the $400 the period after
+    assert.equal(status.amount, 300);
+    assert.equal(status.effectiveAmount, 350);
+    assert.equal(status.rollover!.carryover, 50);
+    assert.deepEqual(
+      status.rollover!.periods.map((period) => period.carriedOut),
+      [100, 50]
+    );
+  });
+
+  it("leaves the limit alone without rollover", async () => {
+    const budget = await createGroceryBudget("none");
+
+    const result = await getBudgetsHandler(testUserId, { budget_id: budget.id });
+    const [status] = result.structuredContent!.budgets;
+
+    assert.equal(status.effectiveAmount, 300);
+    assert.equal(status.rollover, undefined);
+  });
+});
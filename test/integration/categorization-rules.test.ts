@@ -0,0 +1,126 @@
+/**
+ * Structured Categorization Rules Integration Tests
+ * Tests that rules stored in categorization_rules are applied before Claude during
+ * recategorization, and that new rules are applied to existing transactions
+ *
+ * NOTE: Uses MockClaudeClient via dependency injection, no API calls
+ */
+
+import { describe, it, before, beforeEach, after } from "node:test";
+import assert from "node:assert";
+import crypto from "crypto";
+import { setSupabaseMock, resetSupabase } from "../../src/storage/supabase.js";
+import { recategorizeAllTransactions } from "../../src/services/recategorization-service.js";
+import { applyRuleToExistingTransactions } from "../../src/services/categorization-service.js";
+import { createCategorizationRule } from "../../src/storage/categorization/categorization-rules.js";
+import { findTransactionsByUserId } from "../../src/storage/repositories/transactions.js";
+import { findRecentBackgroundJobs } from "../../src/storage/repositories/background-jobs.js";
+import { createBudget } from "../../src/storage/budgets/budgets.js";
+import type { TransactionForCategorization } from "../../src/utils/clients/claude.js";
+import {
+  createTestSupabaseAdminClient,
+  cleanupTestUser,
+  createTestConnection,
+  createTestTransactions,
+} from "../helpers/test-db.js";
+import { MockClaudeClient } from "../mocks/claude-mock.js";
+
+/**
+ * Mock client that records what was sent to Claude
+ */
+class RecordingClaudeClient extends MockClaudeClient {
+  sent: TransactionForCategorization[] = [];
+
+  categorizeTransactions(transactions: TransactionForCategorization[], customRules?: string) {
+    this.sent.push(...transactions);
+    return super.categorizeTransactions(transactions, customRules);
+  }
+}
+
+describe("Structured Categorization Rules", () => {
+  const testUserId = "test-user-categorization-rules";
+  const testItemId = "item-test-categorization-rules";
+  const supabase = createTestSupabaseAdminClient();
+
+  before(() => {
+    setSupabaseMock(supabase);
+  });
+
+  beforeEach(async () => {
+    await cleanupTestUser(supabase, testUserId);
+    await createTestConnection(supabase, {
+      itemId: testItemId,
+      userId: testUserId,
+      institutionName: "Test Bank",
+    });
+    await createTestTransactions(supabase, [
+      { transaction_id: "tx_rules_1", user_id: testUserId, item_id: testItemId, account_id: "acc_1", date: "2025-01-01", name: "STARBUCKS STORE 1234", amount: 6.45, pending: false },
+      { transaction_id: "tx_rules_2", user_id: testUserId, item_id: testItemId, account_id: "acc_1", date: "2025-01-02", name: "SHELL OIL 5555", amount: 42.1, pending: false },
+      { transaction_id: "tx_rules_3", user_id: testUserId, item_id: testItemId, account_id: "acc_1", date: "2025-01-03", name: "Starbucks Reserve", amount: 150, pending: false },
+    ]);
+  });
+
+  after(async () => {
+    await cleanupTestUser(supabase, testUserId);
+    resetSupabase();
+  });
+
+  it("categorizes rule matches without sending them to Claude", async () => {
+    await createCategorizationRule(testUserId, { merchantPattern: "starbucks", category: "Coffee" });
+    await createCategorizationRule(testUserId, {
+      merchantPattern: "starbucks",
+      minAmount: 100,
+      category: "Business",
+      priority: 10,
+    });
+
+    const claudeClient = new RecordingClaudeClient();
+    await recategorizeAllTransactions(testUserId, "", supabase, claudeClient);
+
+    assert.deepEqual(claudeClient.sent.map((tx) => tx.description), ["SHELL OIL 5555"]);
+
+    const categories = Object.fromEntries(
+      (await findTransactionsByUserId(testUserId, supabase)).map((tx) => [tx.transactionId, tx.customCategory])
+    );
+    assert.equal(categories.tx_rules_1, "Coffee");
+    assert.equal(categories.tx_rules_2, "Transportation");
+    assert.equal(categories.tx_rules_3, "Business");
+  });
+
+  it("applies a new rule to existing transactions it wins", async () => {
+    await createCategorizationRule(testUserId, {
+      merchantPattern: "starbucks",
+      minAmount: 100,
+      category: "Business",
+      priority: 10,
+    });
+    const rule = await createCategorizationRule(testUserId, { merchantPattern: "starbucks", category: "Coffee" });
+
+    const updated = await applyRuleToExistingTransactions(testUserId, rule.id, supabase);
+    assert.equal(updated, 1);
+
+    const transactions = await findTransactionsByUserId(testUserId, supabase);
+    assert.equal(transactions.find((tx) => tx.transactionId === "tx_rules_1")?.customCategory, "Coffee");
+    assert.notEqual(transactions.find((tx) => tx.transactionId === "tx_rules_3")?.customCategory, "Coffee");
+  });
+
+  it("re-matches category budgets after applying a rule", async () => {
+    const budget = await createBudget({
+      id: crypto.randomUUID(),
+      user_id: testUserId,
+      title: "Coffee",
+      filter_prompt: null,
+      filter_categories: ["Coffee"],
+      budget_amount: 50,
+      time_period: "rolling",
+      custom_period_days: 30,
+      fixed_period_start_date: null,
+    });
+    const rule = await createCategorizationRule(testUserId, { merchantPattern: "starbucks", category: "Coffee" });
+
+    await applyRuleToExistingTransactions(testUserId, rule.id, supabase);
+
+    const jobs = await findRecentBackgroundJobs(testUserId, { jobType: "budget_processing" });
+    assert.deepEqual(jobs.map((job) => job.metadata.budget_id), [budget.id]);
+  });
+});
@@ -0,0 +1,123 @@
+/**
+ * Category Taxonomy Integration Tests
+ * Tests that creating categories seeds the defaults, and that renaming and merging
+ * migrate existing transaction categories, categorization rules and budget criteria
+ */
+
+import { describe, it, before, beforeEach, after } from "node:test";
+import assert from "node:assert";
+import { setSupabaseMock, resetSupabase } from "../../src/storage/supabase.js";
+import {
+  createUserCategory,
+  loadCategoryTaxonomy,
+  mergeUserCategories,
+  renameUserCategory,
+} from "../../src/services/category-taxonomy-service.js";
+import {
+  createCategorizationRule,
+  getCategorizationRules,
+} from "../../src/storage/categorization/categorization-rules.js";
+import { findTransactionsByUserId } from "../../src/storage/repositories/transactions.js";
+import { createBudget, getBudgetById } from "../../src/storage/budgets/budgets.js";
+import crypto from "crypto";
+import {
+  createTestSupabaseAdminClient,
+  cleanupTestUser,
+  createTestConnection,
+  createTestTransactions,
+} from "../helpers/test-db.js";
+
+describe("Category Taxonomy", () => {
+  const testUserId = "test-user-category-taxonomy";
+  const testItemId = "item-test-category-taxonomy";
+  const supabase = createTestSupabaseAdminClient();
+
+  async function categoriesById() {
+    return Object.fromEntries(
+      (await findTransactionsByUserId(testUserId, supabase)).map((tx) => [tx.transactionId, tx.customCategory])
+    );
+  }
+
+  before(() => {
+    setSupabaseMock(supabase);
+  });
+
+  beforeEach(async () => {
+    await cleanupTestUser(supabase, testUserId);
+    await createTestConnection(supabase, {
+      itemId: testItemId,
+      userId: testUserId,
+      institutionName: "Test Bank",
+    });
+    await createTestTransactions(supabase, [
+      { transaction_id: "tx_taxonomy_1", user_id: testUserId, item_id: testItemId, account_id: "acc_1", date: "2025-01-01", name: "STARBUCKS STORE 1234", amount: 6.45, pending: false, custom_category: "Coffee" },
+      { transaction_id: "tx_taxonomy_2", user_id: testUserId, item_id: testItemId, account_id: "acc_1", date: "2025-01-02", name: "CHEWY.COM", amount: 48.2, pending: false, custom_category: "Shopping" },
+    ]);
+  });
+
+  after(async () => {
+    await cleanupTestUser(supabase, testUserId);
+    resetSupabase();
+  });
+
+  it("seeds the default categories on the first edit", async () => {
+    await createUserCategory(testUserId, { name: "Coffee", parentName: "Food & Dining", icon: "☕" }, supabase);
+
+    const taxonomy = await loadCategoryTaxonomy(testUserId, supabase);
+    assert.equal(taxonomy.length, 13);
+    const coffee = taxonomy.find((category) => category.name === "Coffee")!;
+    const food = taxonomy.find((category) => category.name === "Food & Dining")!;
+    assert.equal(coffee.parentId, food.id);
+  });
+
+  it("renames transactions and rules along with the category", async () => {
+    await createUserCategory(testUserId, { name: "Coffee", parentName: "Food & Dining" }, supabase);
+    await createCategorizationRule(testUserId, { merchantPattern: "starbucks", category: "Coffee" });
+
+    const result = await renameUserCategory(testUserId, "coffee", "Coffee Shops", supabase);
+
+    assert.equal(result.transactionsUpdated, 1);
+    assert.equal((await categoriesById()).tx_taxonomy_1, "Coffee Shops");
+    assert.equal((await getCategorizationRules(testUserId, supabase))[0].category, "Coffee Shops");
+  });
+
+  it("renames the category in budget criteria and re-matches those budgets", async () => {
+    await createUserCategory(testUserId, { name: "Coffee", parentName: "Food & Dining" }, supabase);
+    const budget = await createBudget({
+      id: crypto.randomUUID(),
+      user_id: testUserId,
+      title: "Coffee",
+      filter_prompt: null,
+      filter_categories: ["coffee", "Groceries"],
+      budget_amount: 50,
+      time_period: "rolling",
+      custom_period_days: 30,
+      fixed_period_start_date: null,
+    });
+
+    const result = await renameUserCategory(testUserId, "Coffee", "Coffee Shops", supabase);
+
+    assert.equal(result.budgetsRelabeled, 1);
+    assert.deepEqual((await getBudgetById(testUserId, budget.id))?.filter_categories, ["Coffee Shops", "Groceries"]);
+  });
+
+  it("merges a category into another and removes it", async () => {
+    await createUserCategory(testUserId, { name: "Pets" }, supabase);
+
+    const result = await mergeUserCategories(testUserId, "Shopping", "Pets", supabase);
+
+    assert.equal(result.transactionsUpdated, 1);
+    assert.equal((await categoriesById()).tx_taxonomy_2, "Pets");
+    const names = (await loadCategoryTaxonomy(testUserId, supabase)).map((category) => category.name);
+    assert.ok(!names.includes("Shopping"));
+  });
+
+  it("refuses to merge a category into its own subcategory", async () => {
+    await createUserCategory(testUserId, { name: "Coffee", parentName: "Food & Dining" }, supabase);
+
+    await assert.rejects(
+      mergeUserCategories(testUserId, "Food & Dining", "Coffee", supabase),
+      /merge it the other way around/
+    );
+  });
+});
@@ -0,0 +1,138 @@
+/**
+ * Connection Health Integration Tests
+ * Tests that Plaid item errors during sync move plaid_connections to a typed state,
+ * that broken items are skipped, and that update mode completion repairs them
+ */
+
+import { describe, it, before, beforeEach, after } from "node:test";
+import assert from "node:assert";
+import { MockPlaidClient } from "../mocks/plaid-mock.js";
+import { MockClaudeClient } from "../mocks/claude-mock.js";
+import { setSupabaseMock, resetSupabase } from "../../src/storage/supabase.js";
+import { TransactionSyncService } from "../../src/services/transaction-sync.js";
+import { completeAccountUpdate } from "../../src/services/account-service.js";
+import { getAccountStatusHandler } from "../../src/tools/accounts/handlers.js";
+import { findAccountConnectionByItemId } from "../../src/storage/repositories/account-connections.js";
+import { createAccountSession, findAccountSessionById } from "../../src/storage/repositories/account-sessions.js";
+import { getAccountsByItemId } from "../../src/storage/repositories/accounts.js";
+import {
+  createTestSupabaseClient,
+  cleanupTestUser,
+  createTestConnection,
+} from "../helpers/test-db.js";
+
+describe("Connection Health", () => {
+  const testUserId = "test-user-connection-health";
+  const testItemId = "item-test-connection-health";
+  const testAccessToken = `test-access-token-${testItemId}`;
+  const supabase = createTestSupabaseClient(testUserId);
+  const mockClaudeClient = new MockClaudeClient();
+  let mockPlaidClient: any;
+
+  before(() => {
+    setSupabaseMock(supabase);
+  });
+
+  beforeEach(async () => {
+    mockPlaidClient = new MockPlaidClient();
+    await cleanupTestUser(supabase, testUserId);
+    await createTestConnection(supabase, {
+      itemId: testItemId,
+      userId: testUserId,
+      institutionName: "Mock Bank",
+    });
+  });
+
+  after(async () => {
+    await cleanupTestUser(supabase, testUserId);
+    resetSupabase();
+  });
+
+  it("marks the connection login_required and stops syncing on ITEM_LOGIN_REQUIRED", async () => {
+    const syncService = new TransactionSyncService(mockPlaidClient, supabase, mockClaudeClient);
+
+    // Initial healthy sync stores accounts
+    await syncService.initiateSyncForConnection(testItemId, testUserId, testAccessToken);
+    assert((await getAccountsByItemId(testUserId, testItemId)).length > 0);
+
+    mockPlaidClient.setItemError({
+      error_type: "ITEM_ERROR",
+      error_code: "ITEM_LOGIN_REQUIRED",
+      error_message: "the login details of this item have changed",
+    });
+
+    await syncService.initiateSyncForConnection(testItemId, testUserId, testAccessToken);
+
+    const connection = await findAccountConnectionByItemId(testItemId);
+    assert.equal(connection?.status, "login_required");
+    assert.equal(connection?.errorCode, "ITEM_LOGIN_REQUIRED");
+  });
+
+  it("offers a reconnect action in get-account-status for broken connections", async () => {
+    const syncService = new TransactionSyncService(mockPlaidClient, supabase, mockClaudeClient);
+    await syncService.initiateSyncForConnection(testItemId, testUserId, testAccessToken);
+
+    mockPlaidClient.setItemError({
+      error_type: "ITEM_ERROR",
+      error_code: "ITEM_LOGIN_REQUIRED",
+      error_message: "the login details of this item have changed",
+    });
+    await syncService.initiateSyncForConnection(testItemId, testUserId, testAccessToken);
+
+    const result = await getAccountStatusHandler(testUserId);
+    const institution = result.structuredContent.institutions.find((inst) => inst.itemId === testItemId);
+
+    assert.equal(institution?.needsReconnect, true);
+    assert.equal(institution?.reconnectAction?.tool, "update-account-link");
+    assert.deepEqual(institution?.reconnectAction?.toolArgs, { item_id: testItemId });
+    assert(
+      result.structuredContent.dashboard.accounts.nextSteps.some((step) => step.id === `reconnect-${testItemId}`),
+      "Reconnect should be offered as a next step"
+    );
+  });
+
+  it("restores the connection to active once update mode completes", async () => {
+    mockPlaidClient.setItemError({
+      error_type: "ITEM_ERROR",
+      error_code: "ITEM_LOGIN_REQUIRED",
+      error_message: "the login details of this item have changed",
+    });
+    const syncService = new TransactionSyncService(mockPlaidClient, supabase, mockClaudeClient);
+    await syncService.initiateSyncForConnection(testItemId, testUserId, testAccessToken);
+
+    const sessionId = `update-${testItemId}-${Date.now()}`;
+    await createAccountSession(sessionId, testUserId);
+
+    // Still broken: the check keeps it login_required
+    let result = await completeAccountUpdate(sessionId, testItemId, mockPlaidClient, mockClaudeClient);
+    assert.equal(result.status, "login_required");
+
+    mockPlaidClient.setItemError(null);
+    result = await completeAccountUpdate(sessionId, testItemId, mockPlaidClient, mockClaudeClient);
+    assert.equal(result.status, "active");
+    assert.equal((await findAccountSessionById(sessionId))?.status, "completed");
+
+    const connection = await findAccountConnectionByItemId(testItemId);
+    assert.equal(connection?.status, "active");
+    assert.equal(connection?.errorCode, null);
+  });
+
+  it("rejects an update completion without a session for the item's owner", async () => {
+    await assert.rejects(
+      completeAccountUpdate("no-such-session", testItemId, mockPlaidClient, mockClaudeClient),
+      /Session not found/
+    );
+
+    const otherUserId = "test-user-connection-health-other";
+    const sessionId = `update-${otherUserId}-${Date.now()}`;
+    await createAccountSession(sessionId, otherUserId);
+    try {
+      await assert.rejects(
+        completeAccountUpdate(sessionId, testItemId, mockPlaidClient, mockClaudeClient),
+        /not found/
+      );
+    } finally {
+      await cleanupTestUser(supabase, otherUserId);
+    }
+  });
+});
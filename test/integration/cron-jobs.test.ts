@@ -10,10 +10,15 @@ import assert from "node:assert";
 import { setSupabaseMock, resetSupabase } from "../../src/storage/supabase.js";
 import { plaidSyncJob } from "../../src/cron/jobs/plaid-sync.js";
 import { plaidSyncSandboxJob } from "../../src/cron/jobs/plaid-sync-sandbox.js";
+import {
+  cleanupOldDataJob,
+  runDataRetentionCleanup,
+} from "../../src/cron/jobs/cleanup-old-data.js";
 import {
   createTestSupabaseClient,
   cleanupTestUser,
   createTestConnection,
+  createTestSupabaseAdminClient,
 } from "../helpers/test-db.js";
 import { MockClaudeClient } from "../mocks/claude-mock.js";
 
@@ -151,6 +156,43 @@ describe("Cron Job Infrastructure Tests", () => {
     // (Sync failures are expected due to invalid tokens)
   });
 
+  it("should purge expired sessions and orphaned data in cleanup-old-data", async () => {
+    const adminClient = createTestSupabaseAdminClient();
+
+    await adminClient.from("plaid_sessions").insert({
+      session_id: "test-session-cleanup-expired",
+      user_id: testUserId,
+      status: "pending",
+      created_at: new Date(Date.now() - 2 * 60 * 60 * 1000).toISOString(),
+      expires_at: new Date(Date.now() - 60 * 60 * 1000).toISOString(),
+    });
+
+    // testUserId has no connections, so this series is orphaned
+    await adminClient.from("recurring_series").insert({
+      user_id: testUserId,
+      merchant_key: "netflix com",
+      merchant_name: "NETFLIX.COM",
+      cadence: "monthly",
+      expected_amount: 15.49,
+      first_date: "2025-01-15",
+      last_date: "2025-03-15",
+      next_expected_date: "2025-04-15",
+      occurrence_count: 3,
+    });
+
+    const summary = await runDataRetentionCleanup();
+
+    assert.deepEqual(summary.failedSteps, []);
+    assert(summary.sessionsDeleted >= 1, "Expired session should be purged");
+    assert(summary.orphanedRecurringSeriesDeleted >= 1, "Orphaned recurring series should be removed");
+
+    const { data: remaining } = await adminClient
+      .from("recurring_series")
+      .select("id")
+      .eq("user_id", testUserId);
+    assert.equal(remaining?.length, 0);
+  });
+
   it("should list all registered cron jobs", async () => {
     // Verify jobs are defined and exported
     assert(plaidSyncJob, "Production sync job should be defined");
@@ -159,6 +201,7 @@ describe("Cron Job Infrastructure Tests", () => {
     // Verify job metadata
     assert.equal(plaidSyncJob.name, "plaid-sync");
     assert.equal(plaidSyncSandboxJob.name, "plaid-sync-sandbox");
+    assert.equal(cleanupOldDataJob.name, "cleanup-old-data");
 
     // Verify job descriptions
     assert(plaidSyncJob.description.length > 0, "Job should have description");
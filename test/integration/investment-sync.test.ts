@@ -13,6 +13,7 @@ import {
   createTestConnection,
 } from "../helpers/test-db.js";
 import { getHoldingsByUserId } from "../../src/storage/repositories/investment-holdings.js";
+import { getInvestmentTransactionsByUserId } from "../../src/storage/repositories/investment-transactions.js";
 import { upsertAccounts } from "../../src/storage/repositories/accounts.js";
 import { AccountInvestmentSyncStateRepository } from "../../src/storage/repositories/account-investment-sync-state.js";
 
@@ -328,4 +329,57 @@ describe("Investment Sync Service", () => {
     const holdings = await getHoldingsByUserId(testUserId);
     assert(holdings.length > 0);
   });
+
+  it("should sync investment transactions alongside holdings", async () => {
+    // Setup: Get mock accounts and create them in database
+    const accountsResponse = await mockPlaidClient.accountsGet({
+      access_token: testAccessToken,
+    });
+
+    const accounts = accountsResponse.data.accounts.map((acc: any) => ({
+      account_id: acc.account_id,
+      name: acc.name,
+      official_name: acc.official_name,
+      type: acc.type,
+      subtype: acc.subtype,
+      balances: {
+        current: acc.balances.current,
+        available: acc.balances.available,
+        limit: acc.balances.limit,
+        iso_currency_code: acc.balances.iso_currency_code,
+      },
+    }));
+
+    await upsertAccounts(testUserId, testItemId, accounts);
+
+    // Execute: Sync twice - second run is incremental and must not duplicate
+    await investmentSyncService.syncConnectionInvestments({
+      itemId: testItemId,
+      userId: testUserId,
+      accessToken: testAccessToken,
+    });
+    await investmentSyncService.syncConnectionInvestments({
+      itemId: testItemId,
+      userId: testUserId,
+      accessToken: testAccessToken,
+    });
+
+    // Verify: All 4 mock investment transactions stored once
+    const transactions = await getInvestmentTransactionsByUserId(testUserId);
+    assert.equal(transactions.length, 4);
+
+    // Verify: Filters by subtype and security
+    const contributions = await getInvestmentTransactionsByUserId(testUserId, {
+      subtypes: ["contribution"],
+    });
+    assert.equal(contributions.length, 1);
+    assert.equal(contributions[0].account_id, "acc_401k_789");
+    assert.equal(contributions[0].amount, -500.0);
+
+    const appleActivity = await getInvestmentTransactionsByUserId(testUserId, {
+      securities: ["aapl"],
+    });
+    assert.equal(appleActivity.length, 2); // dividend + sell
+    assert(appleActivity.every((tx) => tx.security_name === "Apple Inc."));
+  });
 });
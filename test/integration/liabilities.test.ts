@@ -19,6 +19,7 @@ import {
 } from "../../src/storage/repositories/liabilities.js";
 import { upsertAccounts } from "../../src/storage/repositories/accounts.js";
 import { getLiabilitiesHandler } from "../../src/tools/liabilities/get-liabilities.js";
+import { LiabilitySyncService } from "../../src/services/liability-sync.js";
 
 describe("Liabilities Integration", () => {
   const testUserId = "test-liabilities-user";
@@ -26,6 +27,7 @@ describe("Liabilities Integration", () => {
   const mockPlaidClient = new MockPlaidClient() as any;
   const testItemId = "item-test-liabilities-123";
   const testAccessToken = `access-test-${testItemId}`;
+  const liabilitySyncService = new LiabilitySyncService(mockPlaidClient, supabase);
 
   beforeEach(async () => {
     // Clean up any existing test data
@@ -186,7 +188,7 @@ describe("Liabilities Integration", () => {
     assert.equal(studentOnly[0].type, "student");
   });
 
-  it("should handle get-liabilities tool with Plaid fetch", async () => {
+  it("should sync liabilities and serve them from storage in get-liabilities", async () => {
     // Setup: Create accounts first (required for foreign key)
     const accountsResponse = await mockPlaidClient.accountsGet({
       access_token: testAccessToken,
@@ -208,12 +210,15 @@ describe("Liabilities Integration", () => {
 
     await upsertAccounts(testUserId, testItemId, accounts);
 
-    // Execute: Call handler (should fetch from Plaid and store)
-    const result = await getLiabilitiesHandler(
-      testUserId,
-      undefined,
-      mockPlaidClient
-    );
+    // Execute: Sync from Plaid, then read through the tool
+    const counts = await liabilitySyncService.syncConnectionLiabilities({
+      itemId: testItemId,
+      userId: testUserId,
+      accessToken: testAccessToken,
+    });
+    assert.deepEqual(counts, { creditCount: 1, mortgageCount: 1, studentCount: 1 });
+
+    const result = await getLiabilitiesHandler(testUserId);
 
     // Verify response structure
     assert(result.content);
@@ -229,6 +234,9 @@ describe("Liabilities Integration", () => {
     assert.equal(result.structuredContent.summary.creditCount, 1);
     assert.equal(result.structuredContent.summary.mortgageCount, 1);
     assert.equal(result.structuredContent.summary.studentCount, 1);
+    assert.equal(result.structuredContent.syncStatus.isStale, false);
+    assert.equal(result.structuredContent.syncStatus.connectionsWithErrors, 0);
+    assert(result.structuredContent.syncStatus.lastSyncedAt);
 
     // Verify data was persisted to database
     const storedLiabilities = await getLiabilitiesByUserId(testUserId);
@@ -257,15 +265,15 @@ describe("Liabilities Integration", () => {
 
     await upsertAccounts(testUserId, testItemId, accounts);
 
-    // First call to populate data
-    await getLiabilitiesHandler(testUserId, undefined, mockPlaidClient);
+    // Populate data
+    await liabilitySyncService.syncConnectionLiabilities({
+      itemId: testItemId,
+      userId: testUserId,
+      accessToken: testAccessToken,
+    });
 
     // Test: Filter by credit only
-    const creditResult = await getLiabilitiesHandler(
-      testUserId,
-      "credit",
-      mockPlaidClient
-    );
+    const creditResult = await getLiabilitiesHandler(testUserId, "credit");
 
     assert(creditResult.structuredContent);
     assert.equal(creditResult.structuredContent.liabilities.length, 1);
@@ -273,13 +281,50 @@ describe("Liabilities Integration", () => {
     assert(creditResult.content[0].text.includes("Credit Cards"));
   });
 
+  it("should report stale data when the last sync is too old", async () => {
+    // Setup: Create accounts and sync liabilities
+    const accountsResponse = await mockPlaidClient.accountsGet({
+      access_token: testAccessToken,
+    });
+
+    const accounts = accountsResponse.data.accounts.map((acc: any) => ({
+      account_id: acc.account_id,
+      name: acc.name,
+      official_name: acc.official_name,
+      type: acc.type,
+      subtype: acc.subtype,
+      balances: {
+        current: acc.balances.current,
+        available: acc.balances.available,
+        limit: acc.balances.limit,
+        iso_currency_code: acc.balances.iso_currency_code,
+      },
+    }));
+
+    await upsertAccounts(testUserId, testItemId, accounts);
+    await liabilitySyncService.syncConnectionLiabilities({
+      itemId: testItemId,
+      userId: testUserId,
+      accessToken: testAccessToken,
+    });
+
+    // Backdate the last successful sync past the staleness window
+    const threeDaysAgo = new Date(Date.now() - 3 * 24 * 60 * 60 * 1000);
+    await supabase
+      .from("liabilities_sync_state")
+      .update({ last_synced_at: threeDaysAgo.toISOString() })
+      .eq("item_id", testItemId);
+
+    const result = await getLiabilitiesHandler(testUserId);
+
+    assert(result.structuredContent);
+    assert.equal(result.structuredContent.syncStatus.isStale, true);
+    assert(result.content[0].text.includes("out of date"));
+  });
+
   it("should return empty result when no liabilities exist", async () => {
     // Execute: Call handler with no liabilities
-    const result = await getLiabilitiesHandler(
-      testUserId,
-      undefined,
-      mockPlaidClient
-    );
+    const result = await getLiabilitiesHandler(testUserId);
 
     // Verify response
     assert(result.content);
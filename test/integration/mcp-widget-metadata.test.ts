@@ -142,6 +142,7 @@ describe("MCP Widget Metadata Configuration", () => {
       "financial-summary",
       "get-account-status",
       "get-budgets",
+      "get-budget-history",
       "create-budget",
       "update-budget-rules",
     ];
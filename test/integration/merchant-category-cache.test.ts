@@ -0,0 +1,93 @@
+/**
+ * Merchant Category Cache Integration Tests
+ * Tests that repeat merchants are answered from merchant_category_cache instead of Claude,
+ * and that saving new free-text rules clears the cache
+ *
+ * NOTE: Uses MockClaudeClient via dependency injection, no API calls
+ */
+
+import { describe, it, before, beforeEach, after } from "node:test";
+import assert from "node:assert";
+import { setSupabaseMock, resetSupabase } from "../../src/storage/supabase.js";
+import {
+  CategorizationCandidate,
+  categorizeWithRules,
+} from "../../src/services/categorization-service.js";
+import { saveCustomRules } from "../../src/storage/categorization/rules.js";
+import { findMerchantCategoryCacheEntries } from "../../src/storage/repositories/merchant-category-cache.js";
+import type { TransactionForCategorization } from "../../src/utils/clients/claude.js";
+import { createTestSupabaseAdminClient, cleanupTestUser } from "../helpers/test-db.js";
+import { MockClaudeClient } from "../mocks/claude-mock.js";
+
+/**
+ * Mock client that records what was sent to Claude
+ */
+class RecordingClaudeClient extends MockClaudeClient {
+  sent: TransactionForCategorization[] = [];
+
+  categorizeTransactions(transactions: TransactionForCategorization[], customRules?: string) {
+    this.sent.push(...transactions);
+    return super.categorizeTransactions(transactions, customRules);
+  }
+}
+
+function candidate(name: string, amount: number): CategorizationCandidate {
+  return {
+    transaction: { date: "2025-01-01", description: name, amount: amount.toFixed(2) },
+    match: { name, amount, accountId: "acc_1", plaidCategory: null },
+  };
+}
+
+describe("Merchant Category Cache", () => {
+  const testUserId = "test-user-merchant-cache";
+  const supabase = createTestSupabaseAdminClient();
+
+  before(() => {
+    setSupabaseMock(supabase);
+  });
+
+  beforeEach(async () => {
+    await cleanupTestUser(supabase, testUserId);
+  });
+
+  after(async () => {
+    await cleanupTestUser(supabase, testUserId);
+    resetSupabase();
+  });
+
+  it("skips Claude for a merchant it has categorized consistently", async () => {
+    const claudeClient = new RecordingClaudeClient();
+    const options = { claudeClient, merchantCacheClient: supabase };
+
+    await categorizeWithRules(testUserId, [candidate("STARBUCKS STORE 1234", 6.45)], [], options);
+    await categorizeWithRules(testUserId, [candidate("STARBUCKS STORE 5678", 5.95)], [], options);
+    assert.equal(claudeClient.sent.length, 2);
+
+    const outcomes = await categorizeWithRules(
+      testUserId,
+      [candidate("STARBUCKS STORE 9012", 7.1), candidate("STARBUCKS STORE 9012", 42)],
+      [],
+      options
+    );
+
+    // Same merchant and band comes from the cache; a different amount band still goes to Claude
+    assert.equal(outcomes[0].fromCache, true);
+    assert.equal(outcomes[0].source, "ai");
+    assert.equal(outcomes[0].customCategory, "Food & Dining");
+    assert.equal(outcomes[1].fromCache, false);
+    assert.equal(claudeClient.sent.length, 3);
+  });
+
+  it("is cleared when the free-text rules change", async () => {
+    const claudeClient = new RecordingClaudeClient();
+    await categorizeWithRules(testUserId, [candidate("STARBUCKS STORE 1234", 6.45)], [], {
+      claudeClient,
+      merchantCacheClient: supabase,
+    });
+    assert.equal((await findMerchantCategoryCacheEntries(testUserId, ["starbucks store"], supabase)).length, 1);
+
+    await saveCustomRules(testUserId, "Coffee shops are Business");
+
+    assert.equal((await findMerchantCategoryCacheEntries(testUserId, ["starbucks store"], supabase)).length, 0);
+  });
+});
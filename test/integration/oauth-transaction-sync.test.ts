@@ -156,6 +156,14 @@ describe("OAuth Transaction Sync Integration Test", () => {
       `[TEST] ${categorizedTransactions.length} transactions were categorized`
     );
 
+    // Step 7b: Verify Plaid merchant enrichment was stored
+    const starbucks = transactions.find((tx) => tx.transactionId === "txn_sync_checking_1");
+    assert(starbucks, "Should have stored the Starbucks transaction");
+    assert.equal(starbucks.merchantName, "Starbucks");
+    assert.equal(starbucks.paymentChannel, "in store");
+    assert.equal(starbucks.location?.city, "Seattle");
+    assert.equal(starbucks.counterparties?.[0]?.name, "Starbucks");
+
     // Step 8: Verify transaction count matches mock data expectations
     // We expect 3 transactions for checking + 1 for savings = 4 total
     assert(
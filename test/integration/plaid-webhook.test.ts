@@ -0,0 +1,214 @@
+/**
+ * Plaid Webhook Integration Tests
+ * Tests signature verification on POST /plaid/webhook and event dispatch
+ * against the local Supabase database
+ */
+
+import { describe, it, before, beforeEach, after } from "node:test";
+import assert from "node:assert";
+import express from "express";
+import request from "supertest";
+import { MockPlaidClient } from "../mocks/plaid-mock.js";
+import { MockClaudeClient } from "../mocks/claude-mock.js";
+import { setSupabaseMock, resetSupabase } from "../../src/storage/supabase.js";
+import { createPlaidRouter } from "../../src/routes/plaid/index.js";
+import { captureRawBody } from "../../src/routes/plaid/webhook.js";
+import { handlePlaidWebhook } from "../../src/services/webhook-service.js";
+import {
+  findAccountConnectionByItemId,
+  updateAccountConnectionStatus,
+} from "../../src/storage/repositories/account-connections.js";
+import { findTransactionsByUserId } from "../../src/storage/repositories/transactions.js";
+import {
+  createTestSupabaseClient,
+  cleanupTestUser,
+  createTestConnection,
+} from "../helpers/test-db.js";
+
+describe("Plaid Webhook Route", () => {
+  const mockPlaidClient = new MockPlaidClient();
+  const app = express();
+  app.use(express.json({ verify: captureRawBody }));
+  app.use("/plaid", createPlaidRouter(mockPlaidClient as any));
+
+  // Unhandled webhook type so the background dispatch never touches the database
+  const body = JSON.stringify({
+    webhook_type: "ITEM",
+    webhook_code: "WEBHOOK_UPDATE_ACKNOWLEDGED",
+    item_id: "item-webhook-route-test",
+  });
+
+  it("accepts a correctly signed webhook", async () => {
+    const response = await request(app)
+      .post("/plaid/webhook")
+      .set("Content-Type", "application/json")
+      .set("Plaid-Verification", mockPlaidClient.signWebhookBody(body))
+      .send(body)
+      .expect(200);
+
+    assert.deepEqual(response.body, { received: true });
+  });
+
+  it("rejects a webhook without a verification header", async () => {
+    await request(app)
+      .post("/plaid/webhook")
+      .set("Content-Type", "application/json")
+      .send(body)
+      .expect(401);
+  });
+
+  it("rejects a webhook whose body does not match the signed hash", async () => {
+    const tampered = body.replace("item-webhook-route-test", "item-someone-else");
+
+    await request(app)
+      .post("/plaid/webhook")
+      .set("Content-Type", "application/json")
+      .set("Plaid-Verification", mockPlaidClient.signWebhookBody(body))
+      .send(tampered)
+      .expect(401);
+  });
+
+  it("rejects a webhook signed more than five minutes ago", async () => {
+    const issuedAt = Math.floor(Date.now() / 1000) - 10 * 60;
+
+    await request(app)
+      .post("/plaid/webhook")
+      .set("Content-Type", "application/json")
+      .set("Plaid-Verification", mockPlaidClient.signWebhookBody(body, { issuedAt }))
+      .send(body)
+      .expect(401);
+  });
+
+  it("rejects a signature from an unknown key", async () => {
+    const otherClient = new MockPlaidClient();
+
+    await request(app)
+      .post("/plaid/webhook")
+      .set("Content-Type", "application/json")
+      .set("Plaid-Verification", otherClient.signWebhookBody(body))
+      .send(body)
+      .expect(401);
+  });
+});
+
+describe("Plaid Webhook Dispatch", () => {
+  const testUserId = "test-user-plaid-webhook";
+  const testItemId = "item-test-plaid-webhook";
+  const supabase = createTestSupabaseClient(testUserId);
+  const mockPlaidClient = new MockPlaidClient() as any;
+  const mockClaudeClient = new MockClaudeClient();
+
+  before(() => {
+    setSupabaseMock(supabase);
+  });
+
+  beforeEach(async () => {
+    await cleanupTestUser(supabase, testUserId);
+    await createTestConnection(supabase, {
+      itemId: testItemId,
+      userId: testUserId,
+      institutionName: "Mock Bank",
+    });
+  });
+
+  after(async () => {
+    await cleanupTestUser(supabase, testUserId);
+    resetSupabase();
+  });
+
+  it("syncs transactions on SYNC_UPDATES_AVAILABLE", async () => {
+    const result = await handlePlaidWebhook(
+      {
+        webhook_type: "TRANSACTIONS",
+        webhook_code: "SYNC_UPDATES_AVAILABLE",
+        item_id: testItemId,
+      },
+      mockPlaidClient,
+      mockClaudeClient
+    );
+
+    assert.equal(result.action, "transactions-sync");
+
+    const transactions = await findTransactionsByUserId(testUserId, supabase);
+    assert(transactions.length > 0, "Webhook should pull new transactions");
+  });
+
+  it("marks the connection as login_required on ITEM_LOGIN_REQUIRED", async () => {
+    const result = await handlePlaidWebhook(
+      {
+        webhook_type: "ITEM",
+        webhook_code: "ERROR",
+        item_id: testItemId,
+        error: {
+          error_code: "ITEM_LOGIN_REQUIRED",
+          error_message: "the login details of this item have changed",
+        },
+      },
+      mockPlaidClient
+    );
+
+    assert.equal(result.action, "connection-status-updated");
+
+    const connection = await findAccountConnectionByItemId(testItemId);
+    assert.equal(connection?.status, "login_required");
+    assert.equal(connection?.errorCode, "ITEM_LOGIN_REQUIRED");
+  });
+
+  it("skips data webhooks until a broken connection is repaired", async () => {
+    await updateAccountConnectionStatus(testItemId, "login_required", "ITEM_LOGIN_REQUIRED", "Login required");
+
+    const result = await handlePlaidWebhook(
+      {
+        webhook_type: "TRANSACTIONS",
+        webhook_code: "SYNC_UPDATES_AVAILABLE",
+        item_id: testItemId,
+      },
+      mockPlaidClient,
+      mockClaudeClient
+    );
+
+    assert.equal(result.action, "ignored");
+
+    await handlePlaidWebhook(
+      {
+        webhook_type: "ITEM",
+        webhook_code: "LOGIN_REPAIRED",
+        item_id: testItemId,
+      },
+      mockPlaidClient
+    );
+
+    const connection = await findAccountConnectionByItemId(testItemId);
+    assert.equal(connection?.status, "active");
+    assert.equal(connection?.errorCode, null);
+  });
+
+  it("flags the connection on PENDING_EXPIRATION", async () => {
+    await handlePlaidWebhook(
+      {
+        webhook_type: "ITEM",
+        webhook_code: "PENDING_EXPIRATION",
+        item_id: testItemId,
+        consent_expiration_time: "2030-01-01T00:00:00Z",
+      },
+      mockPlaidClient
+    );
+
+    const connection = await findAccountConnectionByItemId(testItemId);
+    assert.equal(connection?.status, "pending_expiration");
+    assert(connection?.errorMessage?.includes("2030-01-01"));
+  });
+
+  it("ignores webhooks for unknown items", async () => {
+    const result = await handlePlaidWebhook(
+      {
+        webhook_type: "TRANSACTIONS",
+        webhook_code: "SYNC_UPDATES_AVAILABLE",
+        item_id: "item-does-not-exist",
+      },
+      mockPlaidClient
+    );
+
+    assert.equal(result.action, "ignored");
+  });
+});
@@ -0,0 +1,106 @@
+/**
+ * Sync Lock Integration Tests
+ * Tests that per-item leases in sync_locks keep overlapping syncs off the same item,
+ * that expired leases can be taken over, and that a resync requested during a sync runs
+ * before the lease is released
+ */
+
+import { describe, it, before, beforeEach, after } from "node:test";
+import assert from "node:assert";
+import { setSupabaseMock, resetSupabase } from "../../src/storage/supabase.js";
+import { acquireSyncLock, releaseSyncLock } from "../../src/storage/repositories/sync-locks.js";
+import { withItemSyncLock, withItemSyncLockOrResync } from "../../src/services/sync-lock.js";
+import {
+  createTestSupabaseClient,
+  cleanupTestUser,
+  createTestConnection,
+} from "../helpers/test-db.js";
+
+describe("Sync Locks", () => {
+  const testUserId = "test-user-sync-locks";
+  const testItemId = "item-test-sync-locks";
+  const supabase = createTestSupabaseClient(testUserId);
+
+  before(() => {
+    setSupabaseMock(supabase);
+  });
+
+  beforeEach(async () => {
+    await cleanupTestUser(supabase, testUserId);
+    await createTestConnection(supabase, {
+      itemId: testItemId,
+      userId: testUserId,
+      institutionName: "Mock Bank",
+    });
+  });
+
+  after(async () => {
+    await cleanupTestUser(supabase, testUserId);
+    resetSupabase();
+  });
+
+  it("refuses a second lease while the first is held", async () => {
+    const first = await acquireSyncLock(testItemId, testUserId, "cron:test", 60_000);
+    assert(first, "first acquire should succeed");
+
+    const second = await acquireSyncLock(testItemId, testUserId, "webhook", 60_000);
+    assert.equal(second, null);
+
+    await releaseSyncLock(first);
+    const third = await acquireSyncLock(testItemId, testUserId, "webhook", 60_000);
+    assert(third, "acquire should succeed after release");
+    await releaseSyncLock(third);
+  });
+
+  it("takes over an expired lease", async () => {
+    const stale = await acquireSyncLock(testItemId, testUserId, "crashed-worker", -1000);
+    assert(stale);
+
+    const fresh = await acquireSyncLock(testItemId, testUserId, "cron:test", 60_000);
+    assert(fresh, "expired lease should be taken over");
+    assert.notEqual(fresh.leaseToken, stale.leaseToken);
+
+    // The stale holder's release must not drop the new lease
+    await releaseSyncLock(stale);
+    assert.equal(await acquireSyncLock(testItemId, testUserId, "webhook", 60_000), null);
+    await releaseSyncLock(fresh);
+  });
+
+  it("skips the work and reports acquired=false when the item is locked", async () => {
+    let ran = false;
+    const outer = await withItemSyncLock(testItemId, testUserId, "cron:test", async () => {
+      const inner = await withItemSyncLock(testItemId, testUserId, "webhook", async () => {
+        ran = true;
+      });
+      return inner.acquired;
+    });
+
+    assert.deepEqual(outer, { acquired: true, result: false });
+    assert.equal(ran, false);
+  });
+
+  it("runs the sync again when a resync is requested while the lease is held", async () => {
+    let runs = 0;
+    const outer = await withItemSyncLock(testItemId, testUserId, "cron:test", async () => {
+      runs++;
+      if (runs === 1) {
+        // A webhook arrives after the holder has paged past the last update
+        const inner = await withItemSyncLockOrResync(testItemId, testUserId, "webhook", async () => "webhook-ran");
+        assert.deepEqual(inner, { acquired: false, resyncRequested: true });
+      }
+      return runs;
+    });
+
+    assert.deepEqual(outer, { acquired: true, result: 2 });
+
+    // The lease is released once the resync ran
+    const next = await acquireSyncLock(testItemId, testUserId, "webhook", 60_000);
+    assert(next, "lease should be free after the resync");
+    await releaseSyncLock(next);
+  });
+
+  it("takes the lease itself when no sync is running", async () => {
+    const result = await withItemSyncLockOrResync(testItemId, testUserId, "webhook", async () => "synced");
+    assert.deepEqual(result, { acquired: true, result: "synced" });
+  });
+});
@@ -0,0 +1,104 @@
+/**
+ * Manual Category Override Integration Tests
+ * Tests that set-transaction-category overrides are recorded as manual, locked, and
+ * survive recategorization and newly added rules
+ *
+ * NOTE: Uses MockClaudeClient via dependency injection, no API calls
+ */
+
+import { describe, it, before, beforeEach, after } from "node:test";
+import assert from "node:assert";
+import { setSupabaseMock, resetSupabase } from "../../src/storage/supabase.js";
+import { recategorizeAllTransactions } from "../../src/services/recategorization-service.js";
+import {
+  applyRuleToExistingTransactions,
+  overrideTransactionCategory,
+} from "../../src/services/categorization-service.js";
+import {
+  createCategorizationRule,
+  getCategorizationRules,
+} from "../../src/storage/categorization/categorization-rules.js";
+import { findTransactionsByUserId } from "../../src/storage/repositories/transactions.js";
+import { setTransactionCategoryHandler } from "../../src/tools/transactions/set-transaction-category.js";
+import {
+  createTestSupabaseAdminClient,
+  cleanupTestUser,
+  createTestConnection,
+  createTestTransactions,
+} from "../helpers/test-db.js";
+import { MockClaudeClient } from "../mocks/claude-mock.js";
+
+describe("Manual Category Overrides", () => {
+  const testUserId = "test-user-category-override";
+  const testItemId = "item-test-category-override";
+  const supabase = createTestSupabaseAdminClient();
+
+  async function transactionsById() {
+    return new Map(
+      (await findTransactionsByUserId(testUserId, supabase)).map((tx) => [tx.transactionId, tx])
+    );
+  }
+
+  before(() => {
+    setSupabaseMock(supabase);
+  });
+
+  beforeEach(async () => {
+    await cleanupTestUser(supabase, testUserId);
+    await createTestConnection(supabase, {
+      itemId: testItemId,
+      userId: testUserId,
+      institutionName: "Test Bank",
+    });
+    await createTestTransactions(supabase, [
+      { transaction_id: "tx_override_1", user_id: testUserId, item_id: testItemId, account_id: "acc_1", date: "2025-01-01", name: "COSTCO WHSE #0123", amount: 210.5, pending: false },
+      { transaction_id: "tx_override_2", user_id: testUserId, item_id: testItemId, account_id: "acc_1", date: "2025-01-02", name: "STARBUCKS STORE 1234", amount: 6.45, pending: false },
+    ]);
+  });
+
+  after(async () => {
+    await cleanupTestUser(supabase, testUserId);
+    resetSupabase();
+  });
+
+  it("records a locked manual override that recategorization keeps", async () => {
+    const updated = await overrideTransactionCategory(testUserId, ["tx_override_1", "tx_missing"], "Business", supabase);
+    assert.deepEqual(updated.map((tx) => tx.transactionId), ["tx_override_1"]);
+
+    await recategorizeAllTransactions(testUserId, "", supabase, new MockClaudeClient());
+
+    const transactions = await transactionsById();
+    const overridden = transactions.get("tx_override_1")!;
+    assert.equal(overridden.customCategory, "Business");
+    assert.equal(overridden.categorySource, "manual");
+    assert.equal(overridden.categoryLocked, true);
+
+    const recategorized = transactions.get("tx_override_2")!;
+    assert.equal(recategorized.categorySource, "ai");
+    assert.equal(recategorized.categoryLocked, false);
+  });
+
+  it("leaves overrides alone when a new rule is applied to existing transactions", async () => {
+    await overrideTransactionCategory(testUserId, ["tx_override_2"], "Business", supabase);
+
+    const rule = await createCategorizationRule(testUserId, { merchantPattern: "starbucks", category: "Coffee" });
+    const updatedCount = await applyRuleToExistingTransactions(testUserId, rule.id, supabase);
+
+    assert.equal(updatedCount, 0);
+    assert.equal((await transactionsById()).get("tx_override_2")!.customCategory, "Business");
+  });
+
+  it("turns a correction into a merchant rule when asked", async () => {
+    await setTransactionCategoryHandler(
+      testUserId,
+      { transaction_id: "tx_override_1", category: "Groceries", create_rule: true },
+      supabase
+    );
+
+    const rules = await getCategorizationRules(testUserId, supabase);
+    assert.equal(rules.length, 1);
+    assert.equal(rules[0].merchantPattern, "costco\\W+whse");
+    assert.equal(rules[0].merchantMatchType, "regex");
+    assert.equal(rules[0].category, "Groceries");
+  });
+});
@@ -0,0 +1,146 @@
+/**
+ * Transaction Splits Integration Tests
+ * Tests that split-transaction only saves splits adding up to the transaction, and that
+ * category filters and budget totals count the splits instead of the parent
+ *
+ * NOTE: Uses MockClaudeClient via dependency injection, no API calls
+ */
+
+import { describe, it, before, beforeEach, after } from "node:test";
+import assert from "node:assert";
+import crypto from "crypto";
+import { setSupabaseMock, resetSupabase } from "../../src/storage/supabase.js";
+import { createBudget } from "../../src/storage/budgets/budgets.js";
+import { findSplitsByTransactionIds } from "../../src/storage/repositories/transaction-splits.js";
+import { findTransactionsByIds } from "../../src/storage/repositories/transactions.js";
+import { labelTransactionsForSingleBudget } from "../../src/utils/budget-labeling.js";
+import { splitTransactionHandler } from "../../src/tools/transactions/split-transaction.js";
+import { getPlaidTransactionsHandler } from "../../src/tools/transactions/get-transactions.js";
+import { getBudgetsHandler } from "../../src/tools/budgets/get-budgets.js";
+import {
+  createTestSupabaseAdminClient,
+  cleanupTestUser,
+  createTestConnection,
+  createTestTransactions,
+} from "../helpers/test-db.js";
+import { MockClaudeClient } from "../mocks/claude-mock.js";
+
+describe("Transaction Splits", () => {
+  const testUserId = "test-user-transaction-splits";
+  const testItemId = "item-test-transaction-splits";
+  const supabase = createTestSupabaseAdminClient();
+  const today = new Date().toISOString().split("T")[0];
+
+  before(() => {
+    setSupabaseMock(supabase);
+  });
+
+  beforeEach(async () => {
+    await cleanupTestUser(supabase, testUserId);
+    await createTestConnection(supabase, {
+      itemId: testItemId,
+      userId: testUserId,
+      institutionName: "Test Bank",
+    });
+    await createTestTransactions(supabase, [
+      { transaction_id: "tx_split_target", user_id: testUserId, item_id: testItemId, account_id: "acc_1", date: today, name: "TARGET 00012345", amount: 120, pending: false, custom_category: "Shopping" },
+      { transaction_id: "tx_split_cafe", user_id: testUserId, item_id: testItemId, account_id: "acc_1", date: today, name: "BLUE BOTTLE CAFE", amount: 6.5, pending: false, custom_category: "Food & Dining" },
+    ]);
+  });
+
+  after(async () => {
+    await cleanupTestUser(supabase, testUserId);
+    resetSupabase();
+  });
+
+  async function splitTarget() {
+    return splitTransactionHandler(
+      testUserId,
+      {
+        transaction_id: "tx_split_target",
+        splits: [
+          { amount: 80.25, category: "Groceries", note: "weekly groceries" },
+          { amount: 39.75, category: "Household", note: "paper towels" },
+        ],
+      },
+      supabase
+    );
+  }
+
+  it("rejects splits that don't add up to the transaction", async () => {
+    const result = await splitTransactionHandler(
+      testUserId,
+      {
+        transaction_id: "tx_split_target",
+        splits: [
+          { amount: 80, category: "Groceries" },
+          { amount: 30, category: "Household" },
+        ],
+      },
+      supabase
+    );
+
+    assert.match(result.content[0].text, /Invalid Split/);
+    assert.equal((await findSplitsByTransactionIds(["tx_split_target"], supabase)).length, 0);
+  });
+
+  it("saves, replaces and clears a split", async () => {
+    const result = await splitTarget();
+    assert.match(result.content[0].text, /Transaction Split/);
+
+    const splits = await findSplitsByTransactionIds(["tx_split_target"], supabase);
+    assert.deepEqual(
+      splits.map((split) => [split.amount, split.category, split.note]),
+      [
+        [80.25, "Groceries", "weekly groceries"],
+        [39.75, "Household", "paper towels"],
+      ]
+    );
+
+    await splitTransactionHandler(testUserId, { transaction_id: "tx_split_target", clear: true }, supabase);
+    assert.equal((await findSplitsByTransactionIds(["tx_split_target"], supabase)).length, 0);
+  });
+
+  it("filters get-transactions by split category using the split amount", async () => {
+    await splitTarget();
+
+    const result = await getPlaidTransactionsHandler(
+      testUserId,
+      "http://localhost:3000",
+      { categories: ["Household"] },
+      supabase
+    );
+
+    const transactions = result.structuredContent!.transactions;
+    assert.equal(transactions.length, 1);
+    assert.equal(transactions[0].transaction_id, "tx_split_target");
+    assert.equal(transactions[0].amount, 39.75);
+    assert.equal(transactions[0].category, "Household");
+    assert.equal(transactions[0].split, true);
+  });
+
+  it("counts only the matching split toward a budget", async () => {
+    await splitTarget();
+
+    const budget = await createBudget({
+      id: crypto.randomUUID(),
+      user_id: testUserId,
+      title: "Groceries",
+      filter_prompt: "Weekly groceries",
+      budget_amount: 500,
+      time_period: "rolling",
+      custom_period_days: 30,
+      fixed_period_start_date: null,
+    });
+
+    await labelTransactionsForSingleBudget(testUserId, budget, supabase, new MockClaudeClient());
+
+    const [parent] = await findTransactionsByIds(["tx_split_target"], supabase);
+    assert.deepEqual(parent.budgetIds, []);
+
+    const result = await getBudgetsHandler(testUserId, { budget_id: budget.id, showTransactions: true });
+    const [status] = result.structuredContent!.budgets;
+    assert.equal(status.spent, 80.25);
+    assert.equal(status.transactionCount, 1);
+  });
+});
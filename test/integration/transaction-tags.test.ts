@@ -0,0 +1,126 @@
+/**
+ * Transaction Tags and Notes Integration Tests
+ * Tests tagging, untagging and notes on transactions, the get-transactions tag filter, and
+ * budgets that target a tag
+ *
+ * NOTE: Uses MockClaudeClient via dependency injection, no API calls
+ */
+
+import { describe, it, before, beforeEach, after } from "node:test";
+import assert from "node:assert";
+import crypto from "crypto";
+import { setSupabaseMock, resetSupabase } from "../../src/storage/supabase.js";
+import { createBudget } from "../../src/storage/budgets/budgets.js";
+import { findTransactionsByIds } from "../../src/storage/repositories/transactions.js";
+import { labelTransactionsForSingleBudget } from "../../src/utils/budget-labeling.js";
+import {
+  setTransactionNoteHandler,
+  tagTransactionsHandler,
+  untagTransactionsHandler,
+} from "../../src/tools/transactions/annotate-transactions.js";
+import { getPlaidTransactionsHandler } from "../../src/tools/transactions/get-transactions.js";
+import {
+  createTestSupabaseAdminClient,
+  cleanupTestUser,
+  createTestConnection,
+  createTestTransactions,
+} from "../helpers/test-db.js";
+import { MockClaudeClient } from "../mocks/claude-mock.js";
+
+describe("Transaction Tags and Notes", () => {
+  const testUserId = "test-user-transaction-tags";
+  const testItemId = "item-test-transaction-tags";
+  const supabase = createTestSupabaseAdminClient();
+
+  before(() => {
+    setSupabaseMock(supabase);
+  });
+
+  beforeEach(async () => {
+    await cleanupTestUser(supabase, testUserId);
+    await createTestConnection(supabase, {
+      itemId: testItemId,
+      userId: testUserId,
+      institutionName: "Test Bank",
+    });
+    await createTestTransactions(supabase, [
+      { transaction_id: "tx_tags_hotel", user_id: testUserId, item_id: testItemId, account_id: "acc_1", date: "2025-06-01", name: "HOTEL LISBOA", amount: 420, pending: false },
+      { transaction_id: "tx_tags_taxi", user_id: testUserId, item_id: testItemId, account_id: "acc_1", date: "2025-06-02", name: "TAXI LISBOA", amount: 18, pending: false },
+      { transaction_id: "tx_tags_grocery", user_id: testUserId, item_id: testItemId, account_id: "acc_1", date: "2025-06-03", name: "SAFEWAY", amount: 64.2, pending: false },
+    ]);
+  });
+
+  after(async () => {
+    await cleanupTestUser(supabase, testUserId);
+    resetSupabase();
+  });
+
+  it("tags and untags transactions, keeping their other tags", async () => {
+    await tagTransactionsHandler(
+      testUserId,
+      { transaction_ids: ["tx_tags_hotel", "tx_tags_taxi"], tags: ["Vacation 2026", "reimbursable"] },
+      supabase
+    );
+    await untagTransactionsHandler(testUserId, { transaction_ids: ["tx_tags_taxi"], tags: ["reimbursable"] }, supabase);
+
+    const byId = new Map(
+      (await findTransactionsByIds(["tx_tags_hotel", "tx_tags_taxi"], supabase)).map((tx) => [tx.transactionId, tx])
+    );
+    assert.deepEqual(byId.get("tx_tags_hotel")!.tags, ["vacation-2026", "reimbursable"]);
+    assert.deepEqual(byId.get("tx_tags_taxi")!.tags, ["vacation-2026"]);
+  });
+
+  it("rejects tags that can't be normalized", async () => {
+    const result = await tagTransactionsHandler(
+      testUserId,
+      { transaction_ids: ["tx_tags_hotel"], tags: ["50% off"] },
+      supabase
+    );
+
+    assert.match(result.content[0].text, /Invalid Tags/);
+  });
+
+  it("filters get-transactions by tag and includes tags and notes", async () => {
+    await tagTransactionsHandler(testUserId, { transaction_ids: ["tx_tags_hotel"], tags: ["reimbursable"] }, supabase);
+    await setTransactionNoteHandler(testUserId, { transaction_id: "tx_tags_hotel", note: " expense report #12 " }, supabase);
+
+    const result = await getPlaidTransactionsHandler(
+      testUserId,
+      "http://localhost:3000",
+      { start_date: "2025-06-01", end_date: "2025-06-30", tags: ["Reimbursable"] },
+      supabase
+    );
+
+    const transactions = result.structuredContent!.transactions;
+    assert.equal(transactions.length, 1);
+    assert.equal(transactions[0].transaction_id, "tx_tags_hotel");
+    assert.deepEqual(transactions[0].tags, ["reimbursable"]);
+    assert.equal(transactions[0].notes, "expense report #12");
+  });
+
+  it("labels a tag budget with exactly the tagged transactions", async () => {
+    await tagTransactionsHandler(
+      testUserId,
+      { transaction_ids: ["tx_tags_hotel", "tx_tags_taxi"], tags: ["vacation-2026"] },
+      supabase
+    );
+
+    const budget = await createBudget({
+      id: crypto.randomUUID(),
+      user_id: testUserId,
+      title: "Lisbon trip",
+      filter_prompt: 'Transactions tagged "vacation-2026"',
+      tag: "vacation-2026",
+      budget_amount: 1500,
+      time_period: "rolling",
+      custom_period_days: 30,
+      fixed_period_start_date: null,
+    });
+
+    const matched = await labelTransactionsForSingleBudget(testUserId, budget, supabase, new MockClaudeClient());
+    assert.equal(matched, 2);
+
+    const grocery = (await findTransactionsByIds(["tx_tags_grocery"], supabase))[0];
+    assert.ok(!grocery.budgetIds?.includes(budget.id));
+  });
+});
@@ -0,0 +1,131 @@
+/**
+ * Transfer Matching Integration Tests
+ * Tests linking internal transfers, leaving them out of get-transactions and budgets, and
+ * unlinking a wrong match
+ *
+ * NOTE: Uses MockClaudeClient via dependency injection, no API calls
+ */
+
+import { describe, it, before, beforeEach, after } from "node:test";
+import assert from "node:assert";
+import crypto from "crypto";
+import { setSupabaseMock, resetSupabase } from "../../src/storage/supabase.js";
+import { createBudget } from "../../src/storage/budgets/budgets.js";
+import { deleteTransactions, findTransactionsByIds } from "../../src/storage/repositories/transactions.js";
+import { labelTransactionsForSingleBudget } from "../../src/utils/budget-labeling.js";
+import { matchInternalTransfers } from "../../src/services/transfer-matching-service.js";
+import { matchTransfersHandler } from "../../src/tools/transactions/match-transfers.js";
+import { getPlaidTransactionsHandler } from "../../src/tools/transactions/get-transactions.js";
+import {
+  createTestSupabaseAdminClient,
+  cleanupTestUser,
+  createTestConnection,
+  createTestTransactions,
+} from "../helpers/test-db.js";
+import { MockClaudeClient } from "../mocks/claude-mock.js";
+
+describe("Transfer Matching", () => {
+  const testUserId = "test-user-transfer-matching";
+  const testItemId = "item-test-transfer-matching";
+  const supabase = createTestSupabaseAdminClient();
+  const asOf = new Date("2025-06-30T00:00:00Z");
+
+  before(() => {
+    setSupabaseMock(supabase);
+  });
+
+  beforeEach(async () => {
+    await cleanupTestUser(supabase, testUserId);
+    await createTestConnection(supabase, {
+      itemId: testItemId,
+      userId: testUserId,
+      institutionName: "Test Bank",
+    });
+    await createTestTransactions(supabase, [
+      { transaction_id: "tx_transfer_out", user_id: testUserId, item_id: testItemId, account_id: "acc_checking", date: "2025-06-10", name: "PAYMENT TO CREDIT CARD", amount: 812.4, pending: false },
+      { transaction_id: "tx_transfer_in", user_id: testUserId, item_id: testItemId, account_id: "acc_card", date: "2025-06-11", name: "PAYMENT THANK YOU", amount: -812.4, pending: false },
+      { transaction_id: "tx_transfer_grocery", user_id: testUserId, item_id: testItemId, account_id: "acc_card", date: "2025-06-12", name: "SAFEWAY", amount: 64.2, pending: false },
+    ]);
+  });
+
+  after(async () => {
+    await cleanupTestUser(supabase, testUserId);
+    resetSupabase();
+  });
+
+  it("links both sides of a transfer to each other", async () => {
+    const pairs = await matchInternalTransfers(testUserId, supabase, 90, asOf);
+    assert.equal(pairs.length, 1);
+
+    const byId = new Map(
+      (await findTransactionsByIds(["tx_transfer_out", "tx_transfer_in", "tx_transfer_grocery"], supabase))
+        .map((tx) => [tx.transactionId, tx])
+    );
+    assert.equal(byId.get("tx_transfer_out")!.transferPairId, "tx_transfer_in");
+    assert.equal(byId.get("tx_transfer_in")!.transferPairId, "tx_transfer_out");
+    assert.equal(byId.get("tx_transfer_grocery")!.transferPairId, null);
+  });
+
+  it("leaves transfers out of get-transactions unless include_transfers is set", async () => {
+    await matchInternalTransfers(testUserId, supabase, 90, asOf);
+
+    const args = { start_date: "2025-06-01", end_date: "2025-06-30" };
+    const withoutTransfers = await getPlaidTransactionsHandler(testUserId, "http://localhost:3000", args, supabase);
+    assert.deepEqual(
+      withoutTransfers.structuredContent!.transactions.map((tx) => tx.transaction_id),
+      ["tx_transfer_grocery"]
+    );
+
+    const withTransfers = await getPlaidTransactionsHandler(
+      testUserId,
+      "http://localhost:3000",
+      { ...args, include_transfers: true },
+      supabase
+    );
+    assert.equal(
+      withTransfers.structuredContent!.transactions.filter((tx) => tx.internal_transfer).length,
+      2
+    );
+  });
+
+  it("keeps transfers out of budgets", async () => {
+    await matchInternalTransfers(testUserId, supabase, 90, asOf);
+
+    const budget = await createBudget({
+      id: crypto.randomUUID(),
+      user_id: testUserId,
+      title: "Card spending",
+      filter_prompt: "Payment and Safeway purchases",
+      budget_amount: 2000,
+      time_period: "rolling",
+      custom_period_days: 30,
+      fixed_period_start_date: null,
+    });
+
+    // The prompt names both transfer sides, but only the grocery run can match
+    const matched = await labelTransactionsForSingleBudget(testUserId, budget, supabase, new MockClaudeClient());
+    assert.equal(matched, 1);
+  });
+
+  it("unlinks a wrong match and never matches it again", async () => {
+    await matchInternalTransfers(testUserId, supabase, 90, asOf);
+
+    const result = await matchTransfersHandler(testUserId, { unlink_transaction_id: "tx_transfer_in" }, supabase);
+    assert.match(result.content[0].text, /Transfer Unlinked/);
+
+    const pairs = await matchInternalTransfers(testUserId, supabase, 90, asOf);
+    assert.equal(pairs.length, 0);
+
+    const [transaction] = await findTransactionsByIds(["tx_transfer_out"], supabase);
+    assert.equal(transaction.transferPairId, null);
+    assert.equal(transaction.transferMatchRejected, true);
+  });
+
+  it("returns the surviving side when one side of a transfer is deleted", async () => {
+    await matchInternalTransfers(testUserId, supabase, 90, asOf);
+
+    const unlinked = await deleteTransactions(["tx_transfer_in"], supabase);
+    assert.deepEqual(unlinked.map((tx) => tx.transactionId), ["tx_transfer_out"]);
+    assert.equal(unlinked[0].transferPairId, null);
+  });
+});
@@ -3,10 +3,42 @@
  * Implements the same interface as PlaidApi but returns fake data
  */
 
+import crypto from "crypto";
+import jwt from "jsonwebtoken";
+
 export class MockPlaidClient {
   // Store mock connections for stateful testing
   private mockConnections: Map<string, any> = new Map();
 
+  // Webhook signing key (stands in for Plaid's ES256 verification keys)
+  private webhookKeyId = `mock-webhook-key-${crypto.randomUUID()}`;
+  private webhookKeyPair = crypto.generateKeyPairSync("ec", { namedCurve: "P-256" });
+
+  // Item error Plaid reports for every call (null when the item is healthy)
+  private itemError: { error_type: string; error_code: string; error_message: string } | null = null;
+
+  // Number of /transactions/refresh calls received
+  transactionsRefreshCount = 0;
+
+  /**
+   * Simulate an item error (e.g. ITEM_LOGIN_REQUIRED) on subsequent calls
+   * Pass null to simulate the user repairing the item via update mode
+   */
+  setItemError(error: { error_type: string; error_code: string; error_message: string } | null) {
+    this.itemError = error;
+  }
+
+  /**
+   * Throw the way the Plaid SDK does (axios error with the Plaid body on response.data)
+   */
+  private throwIfItemError() {
+    if (this.itemError) {
+      const error: any = new Error(`Request failed with status code 400`);
+      error.response = { status: 400, data: { ...this.itemError, display_message: null } };
+      throw error;
+    }
+  }
+
   async linkTokenCreate(config: any) {
     return {
       data: {
@@ -52,6 +84,7 @@ export class MockPlaidClient {
   }
 
   async accountsGet(request: any) {
+    this.throwIfItemError();
     const connection = this.mockConnections.get(request.access_token);
 
     return {
@@ -203,6 +236,7 @@ export class MockPlaidClient {
   }
 
   async transactionsSync(request: any) {
+    this.throwIfItemError();
     const accountId = request.options?.account_id;
 
     // Generate different mock transactions based on account
@@ -219,6 +253,30 @@ export class MockPlaidClient {
               primary: "FOOD_AND_DRINK",
               detailed: "FOOD_AND_DRINK_COFFEE",
             },
+            merchant_name: "Starbucks",
+            logo_url: "https://plaid-merchant-logos.plaid.com/starbucks_956.png",
+            website: "starbucks.com",
+            payment_channel: "in store",
+            location: {
+              address: "1912 Pike Pl",
+              city: "Seattle",
+              region: "WA",
+              postal_code: "98101",
+              country: "US",
+              lat: 47.6097,
+              lon: -122.3422,
+              store_number: "1912",
+            },
+            counterparties: [
+              {
+                name: "Starbucks",
+                type: "merchant",
+                website: "starbucks.com",
+                logo_url: "https://plaid-merchant-logos.plaid.com/starbucks_956.png",
+                entity_id: "NZNrx4bx7Yp9bZ6eKdvLWdXWmqXw7QbN",
+                confidence_level: "VERY_HIGH",
+              },
+            ],
           },
           {
             transaction_id: "txn_sync_checking_2",
@@ -671,4 +729,163 @@ export class MockPlaidClient {
       },
     };
   }
+
+  async investmentsTransactionsGet(request: any) {
+    // Relative dates keep the activity inside the 24-month window Plaid serves
+    const daysAgo = (days: number) =>
+      new Date(Date.now() - days * 24 * 60 * 60 * 1000).toISOString().split("T")[0];
+
+    const allTransactions = [
+      {
+        investment_transaction_id: "inv_txn_401k_contribution_1",
+        account_id: "acc_401k_789",
+        security_id: null,
+        date: daysAgo(60),
+        name: "Employee 401k Contribution",
+        quantity: 0,
+        amount: -500.0,
+        price: 0,
+        fees: 0,
+        type: "cash",
+        subtype: "contribution",
+        iso_currency_code: "USD",
+        unofficial_currency_code: null,
+      },
+      {
+        investment_transaction_id: "inv_txn_401k_buy_1",
+        account_id: "acc_401k_789",
+        security_id: "sec_vtsax_123",
+        date: daysAgo(59),
+        name: "BUY Vanguard Total Stock Market Index",
+        quantity: 4.0,
+        amount: 500.0,
+        price: 125.0,
+        fees: 0,
+        type: "buy",
+        subtype: "buy",
+        iso_currency_code: "USD",
+        unofficial_currency_code: null,
+      },
+      {
+        investment_transaction_id: "inv_txn_brokerage_dividend_1",
+        account_id: "acc_brokerage_101",
+        security_id: "sec_aapl_111",
+        date: daysAgo(30),
+        name: "DIVIDEND Apple Inc.",
+        quantity: 0,
+        amount: -12.5,
+        price: 0,
+        fees: 0,
+        type: "cash",
+        subtype: "dividend",
+        iso_currency_code: "USD",
+        unofficial_currency_code: null,
+      },
+      {
+        investment_transaction_id: "inv_txn_brokerage_sell_1",
+        account_id: "acc_brokerage_101",
+        security_id: "sec_aapl_111",
+        date: daysAgo(20),
+        name: "SELL Apple Inc.",
+        quantity: -2.0,
+        amount: -450.0,
+        price: 225.0,
+        fees: 1.0,
+        type: "sell",
+        subtype: "sell",
+        iso_currency_code: "USD",
+        unofficial_currency_code: null,
+      },
+    ];
+
+    const accountIds: string[] | undefined = request.options?.account_ids;
+    const matching = allTransactions.filter(
+      (tx) =>
+        tx.date >= request.start_date &&
+        tx.date <= request.end_date &&
+        (!accountIds || accountIds.includes(tx.account_id))
+    );
+
+    const offset = request.options?.offset ?? 0;
+    const count = request.options?.count ?? 100;
+
+    return {
+      data: {
+        investment_transactions: matching.slice(offset, offset + count),
+        securities: [
+          {
+            security_id: "sec_vtsax_123",
+            name: "Vanguard Total Stock Market Index Fund",
+            ticker_symbol: "VTSAX",
+            type: "mutual fund",
+          },
+          {
+            security_id: "sec_aapl_111",
+            name: "Apple Inc.",
+            ticker_symbol: "AAPL",
+            type: "equity",
+          },
+        ],
+        total_investment_transactions: matching.length,
+        request_id: "mock-request-id",
+      },
+    };
+  }
+
+  async transactionsRefresh(request: any) {
+    this.throwIfItemError();
+    this.transactionsRefreshCount++;
+    return { data: { request_id: "mock-request-id" } };
+  }
+
+  async itemGet(request: any) {
+    return {
+      data: {
+        item: {
+          item_id: "item-mock",
+          error: this.itemError ? { ...this.itemError, display_message: null } : null,
+        },
+        request_id: "mock-request-id",
+      },
+    };
+  }
+
+  async webhookVerificationKeyGet(request: any) {
+    if (request.key_id !== this.webhookKeyId) {
+      throw new Error(`Unknown webhook verification key: ${request.key_id}`);
+    }
+
+    const jwk = this.webhookKeyPair.publicKey.export({ format: "jwk" });
+
+    return {
+      data: {
+        key: {
+          ...jwk,
+          alg: "ES256",
+          kid: this.webhookKeyId,
+          use: "sig",
+          created_at: Math.floor(Date.now() / 1000),
+          expired_at: null,
+        },
+        request_id: "mock-request-id",
+      },
+    };
+  }
+
+  /**
+   * Build a Plaid-Verification header value for a webhook body
+   * Mirrors how Plaid signs webhooks so the route can be tested end to end
+   */
+  signWebhookBody(body: string, options: { issuedAt?: number } = {}) {
+    const requestBodySha256 = crypto.createHash("sha256").update(body).digest("hex");
+
+    return jwt.sign(
+      {
+        request_body_sha256: requestBodySha256,
+        iat: options.issuedAt ?? Math.floor(Date.now() / 1000),
+      },
+      this.webhookKeyPair.privateKey,
+      { algorithm: "ES256", keyid: this.webhookKeyId }
+    );
+  }
 }
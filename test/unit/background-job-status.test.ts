@@ -0,0 +1,69 @@
+/**
+ * Background Job Status Unit Tests
+ *
+ * Tests how job counters are reported:
+ * 1. Final status (complete, partial, failed) from processed/failed counts
+ * 2. Percent complete
+ * 3. Detecting unfinished jobs that stopped reporting progress
+ */
+
+import { describe, it } from "node:test";
+import assert from "node:assert";
+import {
+  getJobPercentComplete,
+  isBackgroundJobStale,
+  resolveBackgroundJobStatus,
+  STALE_JOB_THRESHOLD_MS,
+} from "../../src/utils/background-job-status.js";
+
+describe("resolveBackgroundJobStatus", () => {
+  it("is complete when nothing failed", () => {
+    assert.equal(resolveBackgroundJobStatus({ processedCount: 10, failedCount: 0 }, false), "complete");
+    assert.equal(resolveBackgroundJobStatus({ processedCount: 0, failedCount: 0 }, false), "complete");
+  });
+
+  it("is partial when some items failed and others succeeded", () => {
+    assert.equal(resolveBackgroundJobStatus({ processedCount: 500, failedCount: 250 }, false), "partial");
+  });
+
+  it("is failed when every item failed", () => {
+    assert.equal(resolveBackgroundJobStatus({ processedCount: 250, failedCount: 250 }, false), "failed");
+  });
+
+  it("keeps saved progress visible after a fatal error", () => {
+    assert.equal(resolveBackgroundJobStatus({ processedCount: 250, failedCount: 0 }, true), "partial");
+    assert.equal(resolveBackgroundJobStatus({ processedCount: 0, failedCount: 0 }, true), "failed");
+  });
+});
+
+describe("getJobPercentComplete", () => {
+  it("is unknown until the total is set", () => {
+    assert.equal(getJobPercentComplete({ status: "running", totalCount: null, processedCount: 0 }), null);
+  });
+
+  it("rounds processed over total", () => {
+    assert.equal(getJobPercentComplete({ status: "running", totalCount: 3, processedCount: 1 }), 33);
+    assert.equal(getJobPercentComplete({ status: "partial", totalCount: 500, processedCount: 500 }), 100);
+  });
+
+  it("treats finished jobs with nothing to do as done", () => {
+    assert.equal(getJobPercentComplete({ status: "complete", totalCount: 0, processedCount: 0 }), 100);
+    assert.equal(getJobPercentComplete({ status: "running", totalCount: 0, processedCount: 0 }), 0);
+  });
+});
+
+describe("isBackgroundJobStale", () => {
+  const now = new Date("2025-03-01T12:00:00Z");
+  const longAgo = new Date(now.getTime() - STALE_JOB_THRESHOLD_MS - 1000).toISOString();
+  const recently = new Date(now.getTime() - 60 * 1000).toISOString();
+
+  it("flags running jobs that stopped updating", () => {
+    assert.equal(isBackgroundJobStale({ status: "running", updatedAt: longAgo }, now), true);
+    assert.equal(isBackgroundJobStale({ status: "running", updatedAt: recently }, now), false);
+  });
+
+  it("never flags finished jobs", () => {
+    assert.equal(isBackgroundJobStale({ status: "complete", updatedAt: longAgo }, now), false);
+    assert.equal(isBackgroundJobStale({ status: "failed", updatedAt: longAgo }, now), false);
+  });
+});
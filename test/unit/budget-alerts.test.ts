@@ -0,0 +1,61 @@
+/**
+ * Budget Alerts Unit Tests
+ *
+ * Tests deciding and wording budget threshold alerts:
+ * 1. Only the highest crossed threshold alerts
+ * 2. Threshold validation and ordering
+ * 3. One dedupe key per budget, period and threshold
+ */
+
+import { describe, it } from "node:test";
+import assert from "node:assert";
+import {
+  formatBudgetAlert,
+  getBudgetAlertDedupeKey,
+  getCrossedAlertThreshold,
+  normalizeAlertThresholds,
+} from "../../src/utils/budget-alerts.js";
+
+describe("getCrossedAlertThreshold", () => {
+  it("should return the highest threshold reached", () => {
+    assert.equal(getCrossedAlertThreshold([80, 100], 79.6), null);
+    assert.equal(getCrossedAlertThreshold([80, 100], 80), 80);
+    assert.equal(getCrossedAlertThreshold([80, 100], 112), 100);
+    assert.equal(getCrossedAlertThreshold([], 150), null);
+  });
+});
+
+describe("normalizeAlertThresholds", () => {
+  it("should sort and de-duplicate thresholds", () => {
+    assert.deepEqual(normalizeAlertThresholds([100, 50, 100, 80]), [50, 80, 100]);
+    assert.deepEqual(normalizeAlertThresholds([]), []);
+  });
+
+  it("should reject thresholds out of range", () => {
+    assert.equal(normalizeAlertThresholds([0, 80]), null);
+    assert.equal(normalizeAlertThresholds([80.5]), null);
+  });
+});
+
+describe("formatBudgetAlert", () => {
+  const alert = {
+    budgetId: "budget-1",
+    budgetTitle: "Groceries",
+    threshold: 80,
+    percentage: 85,
+    spent: 255,
+    limit: 300,
+    periodStart: "2025-10-01",
+    periodEnd: "2025-10-20",
+  };
+
+  it("should word approaching and over budget alerts differently", () => {
+    assert.equal(formatBudgetAlert(alert).title, "Groceries reached 80%");
+    assert.match(formatBudgetAlert(alert).message, /leaving \$45\.00/);
+    assert.equal(formatBudgetAlert({ ...alert, threshold: 100 }).title, "Groceries is over budget");
+  });
+
+  it("should key alerts by budget, period and threshold", () => {
+    assert.equal(getBudgetAlertDedupeKey("budget-1", "2025-10-01", 80), "budget:budget-1:2025-10-01:80");
+  });
+});
@@ -0,0 +1,113 @@
+/**
+ * Budget Criteria Unit Tests
+ *
+ * Tests structured budget filters matched without Claude:
+ * 1. Every criterion must hold; any value in a list criterion matches
+ * 2. Merging tool arguments over existing criteria
+ * 3. Describing a budget's filter
+ */
+
+import { describe, it } from "node:test";
+import assert from "node:assert";
+import {
+  applyBudgetCriteriaArgs,
+  budgetNeedsClaude,
+  BudgetCriteria,
+  describeBudgetFilter,
+  matchesBudgetCriteria,
+  NO_BUDGET_CRITERIA,
+  toBudgetCriteriaColumns,
+} from "../../src/utils/budget-criteria.js";
+
+const coffee = {
+  name: "STARBUCKS #1234",
+  amount: 6.5,
+  customCategory: "Coffee Shops",
+  accountId: "acc_checking",
+  tags: ["work"],
+};
+
+function criteria(overrides: Partial<BudgetCriteria>): BudgetCriteria {
+  return { ...NO_BUDGET_CRITERIA, ...overrides };
+}
+
+describe("matchesBudgetCriteria", () => {
+  it("should match categories case-insensitively, using expanded names when given", () => {
+    assert.equal(matchesBudgetCriteria(criteria({ categories: ["coffee shops"] }), coffee), true);
+    assert.equal(matchesBudgetCriteria(criteria({ categories: ["Food & Dining"] }), coffee), false);
+    assert.equal(
+      matchesBudgetCriteria(criteria({ categories: ["Food & Dining"] }), coffee, new Set(["food & dining", "coffee shops"])),
+      true
+    );
+  });
+
+  it("should match merchant patterns as case-insensitive substrings", () => {
+    assert.equal(matchesBudgetCriteria(criteria({ merchantPatterns: ["peet", "starbucks"] }), coffee), true);
+    assert.equal(matchesBudgetCriteria(criteria({ merchantPatterns: ["dunkin"] }), coffee), false);
+  });
+
+  it("should compare absolute amounts inclusively", () => {
+    assert.equal(matchesBudgetCriteria(criteria({ minAmount: 6.5, maxAmount: 10 }), coffee), true);
+    assert.equal(matchesBudgetCriteria(criteria({ maxAmount: 6.5 }), { ...coffee, amount: -6.5 }), true);
+    assert.equal(matchesBudgetCriteria(criteria({ minAmount: 7 }), coffee), false);
+  });
+
+  it("should require every criterion that is set", () => {
+    const both = criteria({ merchantPatterns: ["starbucks"], accountIds: ["acc_credit"] });
+    assert.equal(matchesBudgetCriteria(both, coffee), false);
+    assert.equal(matchesBudgetCriteria(both, { ...coffee, accountId: "acc_credit" }), true);
+    assert.equal(matchesBudgetCriteria(criteria({ tags: ["travel", "work"] }), coffee), true);
+    assert.equal(matchesBudgetCriteria(criteria({ tags: ["travel"] }), { ...coffee, tags: undefined }), false);
+  });
+});
+
+describe("applyBudgetCriteriaArgs", () => {
+  const base = criteria({ categories: ["Groceries"], maxAmount: 200 });
+
+  it("should keep omitted fields and clear fields set to [] or null", () => {
+    const result = applyBudgetCriteriaArgs(base, { merchant_patterns: [" Whole Foods "], max_amount: null });
+    assert.ok("criteria" in result);
+    assert.deepEqual(result.criteria.categories, ["Groceries"]);
+    assert.deepEqual(result.criteria.merchantPatterns, ["Whole Foods"]);
+    assert.equal(result.criteria.maxAmount, null);
+
+    const cleared = applyBudgetCriteriaArgs(base, { categories: [] });
+    assert.ok("criteria" in cleared);
+    assert.deepEqual(cleared.criteria.categories, []);
+  });
+
+  it("should normalize tags and reject invalid ones", () => {
+    const result = applyBudgetCriteriaArgs(NO_BUDGET_CRITERIA, { tags: ["#Vacation 2026", "vacation-2026"] });
+    assert.ok("criteria" in result);
+    assert.deepEqual(result.criteria.tags, ["vacation-2026"]);
+
+    assert.ok("error" in applyBudgetCriteriaArgs(NO_BUDGET_CRITERIA, { tags: ["no/slashes"] }));
+  });
+
+  it("should reject a minimum above the maximum", () => {
+    const result = applyBudgetCriteriaArgs(base, { min_amount: 500 });
+    assert.ok("error" in result);
+  });
+});
+
+describe("describeBudgetFilter", () => {
+  const budget = {
+    tag: null,
+    filter_prompt: null,
+    ...toBudgetCriteriaColumns(criteria({ categories: ["Coffee Shops"], maxAmount: 20 })),
+  };
+
+  it("should describe criteria and a refining prompt", () => {
+    assert.deepEqual(describeBudgetFilter(budget), ["Criteria: category Coffee Shops; up to $20.00"]);
+    assert.deepEqual(describeBudgetFilter({ ...budget, filter_prompt: "Only work meetings" }), [
+      "Criteria: category Coffee Shops; up to $20.00",
+      "Refined by: Only work meetings",
+    ]);
+  });
+
+  it("should only need Claude when a prompt has to be evaluated", () => {
+    assert.equal(budgetNeedsClaude(budget), false);
+    assert.equal(budgetNeedsClaude({ ...budget, filter_prompt: "Only work meetings" }), true);
+    assert.equal(budgetNeedsClaude({ tag: "trip", filter_prompt: 'Transactions tagged "trip"' }), false);
+  });
+});
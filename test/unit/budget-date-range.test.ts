@@ -8,100 +8,7 @@
 
 import { describe, it } from "node:test";
 import assert from "node:assert";
-
-/**
- * Calculate date range for budget period
- * This is extracted from src/tools/budgets/get-budgets.ts:24-118
- */
-function getBudgetDateRange(
-  timePeriod: string,
-  customPeriodDays?: number | null,
-  fixedPeriodStartDate?: string | null,
-  currentDate: Date = new Date() // Allow injecting test date
-): { start: Date; end: Date } {
-  const now = currentDate;
-  const end = new Date(now); // Today
-
-  // ROLLING BUDGETS: Last N days (continuously rolling window)
-  if (timePeriod === "rolling") {
-    if (!customPeriodDays) {
-      throw new Error("custom_period_days required for rolling budgets");
-    }
-    const start = new Date(now);
-    start.setDate(start.getDate() - customPeriodDays);
-    start.setUTCHours(0, 0, 0, 0);
-    return { start, end };
-  }
-
-  // FIXED BUDGETS: Calendar-based with anchor date
-  if (!fixedPeriodStartDate) {
-    throw new Error("fixed_period_start_date required for fixed budgets");
-  }
-
-  // Parse anchor date in UTC to avoid timezone shifts
-  const [year, month, day] = fixedPeriodStartDate.split("-").map(Number);
-  const anchorDate = new Date(Date.UTC(year, month - 1, day, 0, 0, 0, 0));
-
-  switch (timePeriod) {
-    case "weekly": {
-      const start = new Date(anchorDate);
-      const daysSinceAnchor = Math.floor((now.getTime() - anchorDate.getTime()) / (1000 * 60 * 60 * 24));
-      const periodsPassed = Math.floor(daysSinceAnchor / 7);
-      start.setUTCDate(start.getUTCDate() + periodsPassed * 7);
-      start.setUTCHours(0, 0, 0, 0);
-      return { start, end };
-    }
-
-    case "biweekly": {
-      const start = new Date(anchorDate);
-      const daysSinceAnchor = Math.floor((now.getTime() - anchorDate.getTime()) / (1000 * 60 * 60 * 24));
-      const periodsPassed = Math.floor(daysSinceAnchor / 14);
-      start.setUTCDate(start.getUTCDate() + periodsPassed * 14);
-      start.setUTCHours(0, 0, 0, 0);
-      return { start, end };
-    }
-
-    case "monthly": {
-      const anchorDay = anchorDate.getUTCDate();
-      const start = new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), anchorDay, 0, 0, 0, 0));
-
-      if (start > now) {
-        start.setUTCMonth(start.getUTCMonth() - 1);
-      }
-
-      start.setUTCHours(0, 0, 0, 0);
-      return { start, end };
-    }
-
-    case "quarterly": {
-      const start = new Date(anchorDate);
-      const monthsSinceAnchor = (now.getUTCFullYear() - anchorDate.getUTCFullYear()) * 12 + (now.getUTCMonth() - anchorDate.getUTCMonth());
-      const periodsPassed = Math.floor(monthsSinceAnchor / 3);
-      start.setUTCMonth(start.getUTCMonth() + periodsPassed * 3);
-
-      if (start > now) {
-        start.setUTCMonth(start.getUTCMonth() - 3);
-      }
-
-      start.setUTCHours(0, 0, 0, 0);
-      return { start, end };
-    }
-
-    case "yearly": {
-      const start = new Date(Date.UTC(now.getUTCFullYear(), anchorDate.getUTCMonth(), anchorDate.getUTCDate(), 0, 0, 0, 0));
-
-      if (start > now) {
-        start.setUTCFullYear(start.getUTCFullYear() - 1);
-      }
-
-      start.setUTCHours(0, 0, 0, 0);
-      return { start, end };
-    }
-
-    default:
-      throw new Error(`Unknown time period: ${timePeriod}`);
-  }
-}
+import { getBudgetDateRange, getPreviousBudgetPeriods } from "../../src/utils/budget-periods.js";
 
 describe("Budget Date Range Calculations", () => {
   describe("Quarterly Budget (Issue Case)", () => {
@@ -350,3 +257,33 @@ describe("Budget Date Range Calculations", () => {
     });
   });
 });
+
+describe("getPreviousBudgetPeriods", () => {
+  it("should list complete monthly periods before the current one, most recent first", () => {
+    const periods = getPreviousBudgetPeriods("monthly", null, "2025-01-15", 3, new Date("2025-10-20"));
+
+    assert.deepEqual(periods, [
+      { start: "2025-09-15", end: "2025-10-14" },
+      { start: "2025-08-15", end: "2025-09-14" },
+      { start: "2025-07-15", end: "2025-08-14" },
+    ]);
+  });
+
+  it("should step back 14 days at a time for biweekly budgets", () => {
+    const periods = getPreviousBudgetPeriods("biweekly", null, "2025-10-03", 2, new Date("2025-10-20"));
+
+    assert.deepEqual(periods, [
+      { start: "2025-10-03", end: "2025-10-16" },
+      { start: "2025-09-19", end: "2025-10-02" },
+    ]);
+  });
+
+  it("should use back-to-back windows for rolling budgets", () => {
+    const periods = getPreviousBudgetPeriods("rolling", 7, null, 2, new Date("2025-10-20T12:00:00Z"));
+
+    assert.deepEqual(periods, [
+      { start: "2025-10-05", end: "2025-10-12" },
+      { start: "2025-09-27", end: "2025-10-04" },
+    ]);
+  });
+});
@@ -0,0 +1,136 @@
+/**
+ * Budget Forecast Unit Tests
+ *
+ * Tests projecting a budget's current period:
+ * 1. Spending pace extended to the end of the period
+ * 2. Upcoming recurring charges added on their expected dates, once, and even when overdue
+ * 3. Projected overspend date and daily safe-to-spend amount
+ */
+
+import { describe, it } from "node:test";
+import assert from "node:assert";
+import { forecastBudget, getUpcomingCharges } from "../../src/utils/budget-forecast.js";
+import { getBudgetPeriodEnd } from "../../src/utils/budget-periods.js";
+import { BudgetRecurringSeries, getBudgetForecast } from "../../src/services/budget-forecast-service.js";
+import type { Budget } from "../../src/storage/budgets/budgets.js";
+
+const october = {
+  limit: 310,
+  recurringSpent: 0,
+  periodStart: "2025-10-01",
+  periodEnd: "2025-10-31",
+  upcomingCharges: [],
+};
+
+describe("forecastBudget", () => {
+  it("should tell an early fast pace from a late one at the same spend", () => {
+    const early = forecastBudget({ ...october, spent: 186, today: "2025-10-05" });
+    assert.equal(early.projectedSpend, 1153.2); // $37.20/day for 31 days
+    assert.equal(early.projectedOverspendDate, "2025-10-09");
+    assert.equal(early.daysRemaining, 27);
+
+    const late = forecastBudget({ ...october, spent: 186, today: "2025-10-28" });
+    assert.equal(late.projectedOverspendDate, null);
+    assert.equal(late.projectedPercentage, 66);
+    assert.equal(late.safeToSpendPerDay, 31); // $124 left over 4 days
+  });
+
+  it("should add upcoming recurring charges without counting them in the pace", () => {
+    const forecast = forecastBudget({
+      ...october,
+      spent: 110,
+      recurringSpent: 100, // e.g. a subscription charged on the 1st
+      today: "2025-10-10",
+      upcomingCharges: [
+        { date: "2025-10-20", amount: 150, merchantName: "Gym" },
+        { date: "2025-11-01", amount: 100, merchantName: "Next period" },
+      ],
+    });
+
+    // $10 over 10 days is $1/day, plus the $150 charge on the 20th
+    assert.equal(forecast.upcomingRecurring, 150);
+    assert.equal(forecast.projectedSpend, 281);
+    assert.equal(forecast.projectedOverspendDate, null);
+    assert.equal(forecast.safeToSpendPerDay, 2.27); // ($310 - $110 - $150) / 22 days
+    assert.deepEqual(forecast.upcomingCharges.map((charge) => charge.date), ["2025-10-20"]);
+  });
+
+  it("should project the overspend on the day a recurring charge lands", () => {
+    const forecast = forecastBudget({
+      ...october,
+      spent: 200,
+      recurringSpent: 200,
+      today: "2025-10-10",
+      upcomingCharges: [{ date: "2025-10-15", amount: 150, merchantName: "Insurance" }],
+    });
+    assert.equal(forecast.projectedOverspendDate, "2025-10-15");
+    assert.equal(forecast.safeToSpendPerDay, 0);
+  });
+
+  it("should not project an overspend date once the budget is over", () => {
+    const forecast = forecastBudget({ ...october, spent: 400, today: "2025-10-20" });
+    assert.equal(forecast.projectedOverspendDate, null);
+    assert.equal(forecast.safeToSpendPerDay, 0);
+  });
+});
+
+describe("getBudgetForecast", () => {
+  const budget = { id: "budget_1", time_period: "monthly", custom_period_days: null, fixed_period_start_date: "2025-01-01" } as Budget;
+  const gym = {
+    merchantKey: "gym",
+    merchantName: "Gym",
+    cadence: "monthly",
+    expectedAmount: 50,
+    lastDate: "2025-09-15",
+    nextExpectedDate: "2025-10-15",
+    transactionIds: ["tx_sept"],
+    budgetIds: ["budget_1"],
+  } as BudgetRecurringSeries;
+
+  it("should not expect a charge that posted today again", () => {
+    const forecast = getBudgetForecast(
+      budget,
+      { start: "2025-10-01", spent: 50, limit: 310 },
+      [{ transactionId: "tx_oct", date: "2025-10-15", name: "GYM", amount: 50 }],
+      [gym],
+      new Date("2025-10-15T12:00:00Z")
+    );
+    assert.equal(forecast?.upcomingRecurring, 0);
+    assert.equal(forecast?.projectedSpend, 50); // The charge isn't part of the daily pace either
+  });
+});
+
+describe("getUpcomingCharges", () => {
+  it("should list every expected charge in the range", () => {
+    const charges = getUpcomingCharges(
+      { merchantName: "Yoga", cadence: "weekly", expectedAmount: 20, nextExpectedDate: "2025-10-03" },
+      "2025-10-10",
+      "2025-10-31"
+    );
+    assert.deepEqual(charges.map((charge) => charge.date), ["2025-10-10", "2025-10-17", "2025-10-24", "2025-10-31"]);
+  });
+
+  it("should skip an occurrence that already posted", () => {
+    const gym = { merchantName: "Gym", cadence: "monthly" as const, expectedAmount: 50, nextExpectedDate: "2025-10-10" };
+    assert.deepEqual(getUpcomingCharges(gym, "2025-10-10", "2025-10-31", ["2025-10-10"]), []);
+    assert.deepEqual(getUpcomingCharges(gym, "2025-10-10", "2025-10-31", ["2025-10-08"]), []);
+    assert.equal(getUpcomingCharges(gym, "2025-10-10", "2025-10-31", ["2025-09-10"]).length, 1);
+  });
+
+  it("should expect an overdue charge today instead of dropping it", () => {
+    const rent = { merchantName: "Rent", cadence: "monthly" as const, expectedAmount: 1200, nextExpectedDate: "2025-10-01" };
+    assert.deepEqual(getUpcomingCharges(rent, "2025-10-04", "2025-10-31"), [
+      { date: "2025-10-04", amount: 1200, merchantName: "Rent" },
+    ]);
+    assert.deepEqual(getUpcomingCharges(rent, "2025-10-20", "2025-10-31"), []);
+  });
+});
+
+describe("getBudgetPeriodEnd", () => {
+  it("should return the day before the next period starts", () => {
+    assert.equal(getBudgetPeriodEnd("monthly", null, "2025-01-15", new Date("2025-10-20T12:00:00Z")), "2025-11-14");
+    assert.equal(getBudgetPeriodEnd("weekly", null, "2025-10-06", new Date("2025-10-08T12:00:00Z")), "2025-10-12");
+    assert.equal(getBudgetPeriodEnd("yearly", null, "2025-01-01", new Date("2025-10-08T12:00:00Z")), "2025-12-31");
+    assert.equal(getBudgetPeriodEnd("rolling", 30, null, new Date("2025-10-08T12:00:00Z")), "2025-10-08");
+  });
+});
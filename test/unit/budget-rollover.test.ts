@@ -0,0 +1,60 @@
+/**
+ * Budget Rollover Unit Tests
+ *
+ * Tests carrying leftovers between budget periods:
+ * 1. Surplus, deficit and both modes
+ * 2. Caps in either direction
+ * 3. Carryover compounding across several periods
+ */
+
+import { describe, it } from "node:test";
+import assert from "node:assert";
+import { calculateBudgetRollover, getCarriedAmount } from "../../src/utils/budget-rollover.js";
+
+describe("getCarriedAmount", () => {
+  it("should carry only the directions the mode allows", () => {
+    assert.equal(getCarriedAmount(40, "surplus", null), 40);
+    assert.equal(getCarriedAmount(-40, "surplus", null), 0);
+    assert.equal(getCarriedAmount(40, "deficit", null), 0);
+    assert.equal(getCarriedAmount(-40, "deficit", null), -40);
+    assert.equal(getCarriedAmount(-40, "both", null), -40);
+    assert.equal(getCarriedAmount(40, "none", null), 0);
+  });
+
+  it("should cap the carried amount either way", () => {
+    assert.equal(getCarriedAmount(140, "both", 50), 50);
+    assert.equal(getCarriedAmount(-140, "both", 50), -50);
+  });
+});
+
+describe("calculateBudgetRollover", () => {
+  it("should compound surplus across periods", () => {
+    const rollover = calculateBudgetRollover(300, "surplus", null, [
+      { start: "2025-08-01", end: "2025-08-31", spent: 200 },
+      { start: "2025-09-01", end: "2025-09-30", spent: 350 },
+    ]);
+
+    assert.equal(rollover.carryover, 50);
+    assert.deepEqual(rollover.periods, [
+      { start: "2025-08-01", end: "2025-08-31", limit: 300, spent: 200, carriedOut: 100 },
+      { start: "2025-09-01", end: "2025-09-30", limit: 400, spent: 350, carriedOut: 50 },
+    ]);
+  });
+
+  it("should reset to nothing after an overspent period in surplus mode", () => {
+    const rollover = calculateBudgetRollover(300, "surplus", 75, [
+      { start: "2025-08-01", end: "2025-08-31", spent: 100 },
+      { start: "2025-09-01", end: "2025-09-30", spent: 420.5 },
+    ]);
+
+    assert.equal(rollover.carryover, 0);
+    assert.equal(rollover.periods[1].limit, 375);
+  });
+
+  it("should return no carryover when rollover is off", () => {
+    assert.deepEqual(
+      calculateBudgetRollover(300, "none", null, [{ start: "2025-09-01", end: "2025-09-30", spent: 10 }]),
+      { carryover: 0, periods: [] }
+    );
+  });
+});
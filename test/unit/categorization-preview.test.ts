@@ -0,0 +1,88 @@
+/**
+ * Categorization Preview Unit Tests
+ *
+ * Tests the dry-run diff for proposed categorization rules:
+ * 1. Which transactions change category, and from what to what
+ * 2. Locked (manual) transactions and missing proposals keep their category
+ * 3. Per-category counts and amounts before and after
+ */
+
+import { describe, it } from "node:test";
+import assert from "node:assert";
+import {
+  buildCategorizationPreview,
+  PreviewTransaction,
+  ProposedCategory,
+} from "../../src/utils/categorization-preview.js";
+
+function tx(
+  transactionId: string,
+  amount: number,
+  customCategory: string | null,
+  categoryLocked = false
+): PreviewTransaction {
+  return { transactionId, date: "2025-03-01", name: `Merchant ${transactionId}`, amount, customCategory, categoryLocked };
+}
+
+describe("buildCategorizationPreview", () => {
+  it("lists transactions whose category would change", () => {
+    const preview = buildCategorizationPreview(
+      [tx("a", 5, "Food & Dining"), tx("b", 40, "Transportation"), tx("c", 12, null)],
+      new Map<string, ProposedCategory>([
+        ["a", { category: "Coffee", source: "ai" }],
+        ["b", { category: "Transportation", source: "rule" }],
+        ["c", { category: "Shopping", source: "ai" }],
+      ])
+    );
+
+    assert.deepEqual(
+      preview.changes.map((change) => [change.transactionId, change.fromCategory, change.toCategory]),
+      [
+        ["a", "Food & Dining", "Coffee"],
+        ["c", null, "Shopping"],
+      ]
+    );
+  });
+
+  it("keeps locked transactions and those without a proposal", () => {
+    const preview = buildCategorizationPreview(
+      [tx("a", 5, "Business", true), tx("b", 40, "Transportation")],
+      new Map<string, ProposedCategory>([
+        ["a", { category: "Food & Dining", source: "ai" }],
+        ["b", { category: null, source: null }],
+      ])
+    );
+
+    assert.equal(preview.changes.length, 0);
+    assert.ok(preview.totals.every((total) => total.countBefore === total.countAfter));
+  });
+
+  it("totals each category before and after", () => {
+    const preview = buildCategorizationPreview(
+      [tx("a", 5.1, "Food & Dining"), tx("b", 4.2, "Food & Dining"), tx("c", 100, "Shopping")],
+      new Map<string, ProposedCategory>([
+        ["a", { category: "Coffee", source: "ai" }],
+        ["b", { category: "Coffee", source: "ai" }],
+      ])
+    );
+
+    const byCategory = new Map(preview.totals.map((total) => [total.category, total]));
+    assert.deepEqual(byCategory.get("Food & Dining"), {
+      category: "Food & Dining",
+      countBefore: 2,
+      countAfter: 0,
+      amountBefore: 9.3,
+      amountAfter: 0,
+    });
+    assert.deepEqual(byCategory.get("Coffee"), {
+      category: "Coffee",
+      countBefore: 0,
+      countAfter: 2,
+      amountBefore: 0,
+      amountAfter: 9.3,
+    });
+    assert.equal(byCategory.get("Shopping")?.amountAfter, 100);
+    // Biggest movement first, unchanged categories last
+    assert.equal(preview.totals[preview.totals.length - 1].category, "Shopping");
+  });
+});
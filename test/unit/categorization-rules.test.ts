@@ -0,0 +1,172 @@
+/**
+ * Categorization Rule Engine Unit Tests
+ *
+ * Tests deterministic rule matching used before Claude categorization:
+ * 1. Merchant contains / regex matching
+ * 2. Amount range, account and Plaid category conditions
+ * 3. Evaluation order (priority, then age) and disabled rules
+ * 4. Rule validation, including regexes that could backtrack catastrophically
+ * 5. Merchant patterns built from a transaction description
+ */
+
+import { describe, it } from "node:test";
+import assert from "node:assert";
+import {
+  buildMerchantPattern,
+  CategorizationRule,
+  findMatchingRule,
+  findUnsafeRegexReason,
+  MAX_MERCHANT_PATTERN_LENGTH,
+  ruleMatchesTransaction,
+  sortCategorizationRules,
+  validateCategorizationRule,
+} from "../../src/utils/categorization-rules.js";
+
+let nextId = 0;
+
+function rule(overrides: Partial<CategorizationRule>): CategorizationRule {
+  nextId++;
+  return {
+    id: `rule_${nextId}`,
+    merchantPattern: null,
+    merchantMatchType: "contains",
+    minAmount: null,
+    maxAmount: null,
+    accountIds: null,
+    plaidCategory: null,
+    category: "Other",
+    priority: 0,
+    enabled: true,
+    createdAt: `2025-01-${String(nextId).padStart(2, "0")}T00:00:00Z`,
+    ...overrides,
+  };
+}
+
+const coffee = {
+  name: "STARBUCKS STORE 1234",
+  amount: 6.45,
+  accountId: "acc_checking",
+  plaidCategory: ["FOOD_AND_DRINK", "FOOD_AND_DRINK_COFFEE"],
+};
+
+describe("ruleMatchesTransaction", () => {
+  it("should match merchant text case-insensitively", () => {
+    assert.equal(ruleMatchesTransaction(rule({ merchantPattern: "starbucks" }), coffee), true);
+    assert.equal(ruleMatchesTransaction(rule({ merchantPattern: "peet's" }), coffee), false);
+  });
+
+  it("should match merchant regex patterns", () => {
+    assert.equal(
+      ruleMatchesTransaction(rule({ merchantPattern: "^starbucks store \\d+$", merchantMatchType: "regex" }), coffee),
+      true
+    );
+    assert.equal(
+      ruleMatchesTransaction(rule({ merchantPattern: "^store", merchantMatchType: "regex" }), coffee),
+      false
+    );
+  });
+
+  it("should require every condition to hold", () => {
+    const bigCoffee = rule({ merchantPattern: "starbucks", minAmount: 20 });
+    assert.equal(ruleMatchesTransaction(bigCoffee, coffee), false);
+    assert.equal(ruleMatchesTransaction(bigCoffee, { ...coffee, amount: 25 }), true);
+
+    const businessCard = rule({ accountIds: ["acc_business"] });
+    assert.equal(ruleMatchesTransaction(businessCard, coffee), false);
+    assert.equal(ruleMatchesTransaction(businessCard, { ...coffee, accountId: "acc_business" }), true);
+  });
+
+  it("should compare amount bounds against the absolute amount, inclusively", () => {
+    const range = rule({ minAmount: 6.45, maxAmount: 10 });
+    assert.equal(ruleMatchesTransaction(range, coffee), true);
+    assert.equal(ruleMatchesTransaction(range, { ...coffee, amount: -6.45 }), true);
+    assert.equal(ruleMatchesTransaction(range, { ...coffee, amount: 10.01 }), false);
+  });
+
+  it("should match primary or detailed Plaid categories", () => {
+    assert.equal(ruleMatchesTransaction(rule({ plaidCategory: "food_and_drink" }), coffee), true);
+    assert.equal(ruleMatchesTransaction(rule({ plaidCategory: "FOOD_AND_DRINK_COFFEE" }), coffee), true);
+    assert.equal(ruleMatchesTransaction(rule({ plaidCategory: "TRAVEL" }), coffee), false);
+    assert.equal(
+      ruleMatchesTransaction(rule({ plaidCategory: "TRAVEL" }), { ...coffee, plaidCategory: null }),
+      false
+    );
+  });
+});
+
+describe("findMatchingRule", () => {
+  it("should return the first match in priority order, oldest first on ties", () => {
+    const general = rule({ merchantPattern: "starbucks", category: "Food & Dining" });
+    const older = rule({ plaidCategory: "FOOD_AND_DRINK_COFFEE", category: "Coffee" });
+    const urgent = rule({ merchantPattern: "starbucks", minAmount: 100, category: "Business", priority: 10 });
+    const disabled = rule({ merchantPattern: "starbucks", category: "Ignored", priority: 99, enabled: false });
+
+    const ordered = sortCategorizationRules([older, urgent, disabled, general]);
+    assert.deepEqual(ordered.map((r) => r.id), [urgent.id, general.id, older.id]);
+
+    assert.deepEqual(findMatchingRule(ordered, coffee), { ruleId: general.id, category: "Food & Dining" });
+    assert.deepEqual(findMatchingRule(ordered, { ...coffee, amount: 150 }), {
+      ruleId: urgent.id,
+      category: "Business",
+    });
+    assert.equal(findMatchingRule(ordered, { ...coffee, name: "SHELL OIL", plaidCategory: null }), null);
+  });
+});
+
+describe("validateCategorizationRule", () => {
+  it("should reject rules without conditions, bad ranges and invalid regexes", () => {
+    assert.match(validateCategorizationRule(rule({ category: "Coffee" })) ?? "", /at least one condition/);
+    assert.match(validateCategorizationRule(rule({ minAmount: 50, maxAmount: 10 })) ?? "", /min_amount/);
+    assert.match(
+      validateCategorizationRule(rule({ merchantPattern: "(", merchantMatchType: "regex" })) ?? "",
+      /Invalid merchant regex/
+    );
+    assert.equal(validateCategorizationRule(rule({ merchantPattern: "starbucks", category: "Coffee" })), null);
+  });
+
+  it("should reject overly long patterns and regexes that can backtrack catastrophically", () => {
+    assert.match(
+      validateCategorizationRule(rule({ merchantPattern: "a".repeat(MAX_MERCHANT_PATTERN_LENGTH + 1) })) ?? "",
+      /at most/
+    );
+    assert.match(
+      validateCategorizationRule(rule({ merchantPattern: "(a+)+$", merchantMatchType: "regex" })) ?? "",
+      /Unsupported merchant regex/
+    );
+  });
+});
+
+describe("findUnsafeRegexReason", () => {
+  it("should flag repeated groups that contain a repetition or an alternation", () => {
+    for (const pattern of ["(a+)+$", "(a*)*", "(a|ab)*", "((a)+){2,}", "(?:x\\d+y){1,5}", "(a)\\1"]) {
+      assert.ok(findUnsafeRegexReason(pattern), pattern);
+    }
+  });
+
+  it("should allow ordinary merchant patterns", () => {
+    for (const pattern of ["^starbucks store \\d+$", "blue\\W+bottle", "(inc|llc)?", "(ab)+", "[(+]+", "a{2}b{1}", "\\(x+\\)+"]) {
+      assert.equal(findUnsafeRegexReason(pattern), null, pattern);
+    }
+  });
+
+  it("should never match a stored rule whose regex is unsafe", () => {
+    const unsafe = rule({ merchantPattern: "(a+)+$", merchantMatchType: "regex" });
+    assert.equal(ruleMatchesTransaction(unsafe, { ...coffee, name: "a".repeat(40) + "!" }), false);
+  });
+});
+
+describe("buildMerchantPattern", () => {
+  it("should build a regex that matches other descriptions from the same merchant", () => {
+    const pattern = buildMerchantPattern("SQ *BLUE BOTTLE #123");
+    assert.equal(pattern, "blue\\W+bottle");
+
+    const merchantRule = rule({ merchantPattern: pattern, merchantMatchType: "regex" });
+    assert.equal(validateCategorizationRule(merchantRule), null);
+    assert.ok(ruleMatchesTransaction(merchantRule, { name: "Blue Bottle Coffee", amount: 5, accountId: "acc_1", plaidCategory: null }));
+    assert.ok(!ruleMatchesTransaction(merchantRule, { name: "BLUE APRON", amount: 5, accountId: "acc_1", plaidCategory: null }));
+  });
+
+  it("should return null when the description has no merchant words", () => {
+    assert.equal(buildMerchantPattern("#4411 0923"), null);
+  });
+});
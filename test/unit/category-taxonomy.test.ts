@@ -0,0 +1,79 @@
+/**
+ * Category Taxonomy Unit Tests
+ *
+ * Tests the pure taxonomy helpers:
+ * 1. Prompt rendering (defaults match the original prompt list, subcategories indented)
+ * 2. Category filter expansion to subcategories
+ * 3. Exclude-from-spending inheritance
+ * 4. New category validation
+ */
+
+import { describe, it } from "node:test";
+import assert from "node:assert";
+import {
+  Category,
+  expandCategoryFilter,
+  formatTaxonomyForPrompt,
+  getDefaultTaxonomy,
+  getExcludedFromSpendingNames,
+  orderTaxonomy,
+  validateNewCategory,
+} from "../../src/utils/category-taxonomy.js";
+
+function category(id: string, parentId: string | null = null, excludeFromSpending = false): Category {
+  return { id, name: id, parentId, description: null, color: null, icon: null, excludeFromSpending };
+}
+
+const taxonomy: Category[] = [
+  category("Food & Dining"),
+  category("Income", null, true),
+  category("Coffee", "Food & Dining"),
+  category("Reimbursements", "Income"),
+  category("Pets"),
+];
+
+describe("formatTaxonomyForPrompt", () => {
+  it("should render the defaults as the built-in category list", () => {
+    const lines = formatTaxonomyForPrompt(getDefaultTaxonomy()).split("\n");
+    assert.equal(lines.length, 12);
+    assert.equal(lines[0], "- Housing (rent, mortgage, utilities, internet, phone)");
+    assert.equal(lines[11], "- Other (anything that doesn't fit above)");
+  });
+
+  it("should list subcategories indented under their parent", () => {
+    assert.deepEqual(orderTaxonomy(taxonomy).map((c) => c.name), [
+      "Food & Dining",
+      "Coffee",
+      "Income",
+      "Reimbursements",
+      "Pets",
+    ]);
+    assert.match(formatTaxonomyForPrompt(taxonomy), /- Food & Dining\n  - Coffee\n- Income/);
+  });
+});
+
+describe("expandCategoryFilter", () => {
+  it("should add subcategories of named categories and keep other terms", () => {
+    assert.deepEqual(expandCategoryFilter(taxonomy, ["food & dining", "Transport"]), [
+      "food & dining",
+      "Coffee",
+      "Transport",
+    ]);
+  });
+});
+
+describe("getExcludedFromSpendingNames", () => {
+  it("should exclude subcategories of excluded categories", () => {
+    assert.deepEqual(getExcludedFromSpendingNames(taxonomy), ["Income", "Reimbursements"]);
+  });
+});
+
+describe("validateNewCategory", () => {
+  it("should reject duplicates, unknown or nested parents and bad colors", () => {
+    assert.match(validateNewCategory(taxonomy, { name: "coffee" }) ?? "", /already exists/);
+    assert.match(validateNewCategory(taxonomy, { name: "Kids", parentName: "Family" }) ?? "", /not found/);
+    assert.match(validateNewCategory(taxonomy, { name: "Espresso", parentName: "Coffee" }) ?? "", /already a subcategory/);
+    assert.match(validateNewCategory(taxonomy, { name: "Kids", color: "blue" }) ?? "", /hex/);
+    assert.equal(validateNewCategory(taxonomy, { name: "Kids", parentName: "Food & Dining", color: "#3D85C6" }), null);
+  });
+});
@@ -0,0 +1,81 @@
+/**
+ * Connection Health Unit Tests
+ *
+ * Tests how Plaid item errors map to connection states:
+ * 1. Error code → status classification
+ * 2. Which states pause syncing vs. only prompt a reconnect
+ * 3. Extracting Plaid's error body from SDK errors
+ */
+
+import { describe, it } from "node:test";
+import assert from "node:assert";
+import {
+  connectionNeedsReconnect,
+  getConnectionStatusForError,
+  shouldSkipConnectionSync,
+} from "../../src/services/connection-health.js";
+import { getPlaidItemError } from "../../src/utils/plaid-errors.js";
+
+describe("getConnectionStatusForError", () => {
+  it("should map credential errors to login_required", () => {
+    assert.equal(getConnectionStatusForError("ITEM_LOGIN_REQUIRED"), "login_required");
+    assert.equal(getConnectionStatusForError("INVALID_CREDENTIALS"), "login_required");
+    assert.equal(getConnectionStatusForError("ITEM_LOCKED"), "login_required");
+  });
+
+  it("should map institution outages to institution_down", () => {
+    assert.equal(getConnectionStatusForError("INSTITUTION_DOWN"), "institution_down");
+    assert.equal(getConnectionStatusForError("INSTITUTION_NOT_RESPONDING"), "institution_down");
+    assert.equal(getConnectionStatusForError("SOMETHING_NEW", "INSTITUTION_ERROR"), "institution_down");
+  });
+
+  it("should map expiring consent to pending_expiration", () => {
+    assert.equal(getConnectionStatusForError("PENDING_EXPIRATION"), "pending_expiration");
+  });
+
+  it("should ignore errors that say nothing about item health", () => {
+    assert.equal(getConnectionStatusForError("RATE_LIMIT_EXCEEDED", "RATE_LIMIT_EXCEEDED"), null);
+    assert.equal(getConnectionStatusForError("PRODUCT_NOT_READY", "ITEM_ERROR"), null);
+  });
+});
+
+describe("shouldSkipConnectionSync / connectionNeedsReconnect", () => {
+  it("should pause syncing only for states the user has to fix", () => {
+    assert.equal(shouldSkipConnectionSync("login_required"), true);
+    assert.equal(shouldSkipConnectionSync("error"), true);
+    assert.equal(shouldSkipConnectionSync("institution_down"), false);
+    assert.equal(shouldSkipConnectionSync("pending_expiration"), false);
+    assert.equal(shouldSkipConnectionSync("active"), false);
+  });
+
+  it("should offer a reconnect before consent expires", () => {
+    assert.equal(connectionNeedsReconnect("pending_expiration"), true);
+    assert.equal(connectionNeedsReconnect("login_required"), true);
+    assert.equal(connectionNeedsReconnect("institution_down"), false);
+    assert.equal(connectionNeedsReconnect(undefined), false);
+  });
+});
+
+describe("getPlaidItemError", () => {
+  it("should read the Plaid error body from an SDK error", () => {
+    const error: any = new Error("Request failed with status code 400");
+    error.response = {
+      data: {
+        error_type: "ITEM_ERROR",
+        error_code: "ITEM_LOGIN_REQUIRED",
+        error_message: "the login details of this item have changed",
+        display_message: null,
+      },
+    };
+
+    assert.deepEqual(getPlaidItemError(error), {
+      errorType: "ITEM_ERROR",
+      errorCode: "ITEM_LOGIN_REQUIRED",
+      errorMessage: "the login details of this item have changed",
+    });
+  });
+
+  it("should return null for non-Plaid errors", () => {
+    assert.equal(getPlaidItemError(new Error("fetch failed")), null);
+  });
+});
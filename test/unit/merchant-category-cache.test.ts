@@ -0,0 +1,71 @@
+/**
+ * Merchant Category Cache Unit Tests
+ *
+ * Tests the bookkeeping behind reusing AI categories per merchant:
+ * 1. Cache keys (normalized merchant + direction/size amount band)
+ * 2. Confidence updates as Claude agrees or disagrees with the cached category
+ * 3. The trust threshold for skipping Claude
+ */
+
+import { describe, it } from "node:test";
+import assert from "node:assert";
+import {
+  getAmountBand,
+  getMerchantCacheKey,
+  isMerchantCacheEntryUsable,
+  recordMerchantCategoryObservation,
+  MERCHANT_CACHE_MAX_OBSERVATIONS,
+} from "../../src/utils/merchant-category-cache.js";
+
+describe("getMerchantCacheKey", () => {
+  it("should group store numbers and processor prefixes under one merchant", () => {
+    assert.deepEqual(getMerchantCacheKey("SQ *BLUE BOTTLE #123", 5.5), {
+      merchantKey: "blue bottle",
+      amountBand: "debit:0-10",
+    });
+    assert.deepEqual(getMerchantCacheKey("Blue Bottle 0456", 6.25), getMerchantCacheKey("SQ *BLUE BOTTLE #123", 5.5));
+    assert.equal(getMerchantCacheKey("#4411 0923", 10), null);
+  });
+
+  it("should separate refunds and amount sizes", () => {
+    assert.equal(getAmountBand(24.99), "debit:10-25");
+    assert.equal(getAmountBand(25), "debit:25-50");
+    assert.equal(getAmountBand(-120), "credit:100-250");
+    assert.equal(getAmountBand(4200), "debit:1000+");
+  });
+});
+
+describe("recordMerchantCategoryObservation", () => {
+  const key = { merchantKey: "blue bottle", amountBand: "debit:0-10" };
+
+  it("should only trust a category Claude has repeated", () => {
+    const first = recordMerchantCategoryObservation(key, null, "Food & Dining");
+    assert.equal(isMerchantCacheEntryUsable(first), false);
+
+    const second = recordMerchantCategoryObservation(key, first, "Food & Dining");
+    assert.deepEqual(second, { ...key, category: "Food & Dining", confidence: 1, observationCount: 2 });
+    assert.equal(isMerchantCacheEntryUsable(second), true);
+  });
+
+  it("should lower confidence on disagreement and switch once the new category wins", () => {
+    let entry = recordMerchantCategoryObservation(key, null, "Food & Dining");
+    entry = recordMerchantCategoryObservation(key, entry, "Food & Dining");
+    entry = recordMerchantCategoryObservation(key, entry, "Business");
+    assert.equal(entry.category, "Food & Dining");
+    assert.equal(entry.observationCount, 3);
+    assert.ok(Math.abs(entry.confidence - 2 / 3) < 1e-9);
+    assert.equal(isMerchantCacheEntryUsable(entry), false);
+
+    entry = recordMerchantCategoryObservation(key, entry, "Business");
+    entry = recordMerchantCategoryObservation(key, entry, "Business");
+    assert.deepEqual(entry, { ...key, category: "Business", confidence: 1, observationCount: 1 });
+  });
+
+  it("should cap observations so a long history can still change", () => {
+    let entry = recordMerchantCategoryObservation(key, null, "Food & Dining");
+    for (let i = 0; i < 50; i++) {
+      entry = recordMerchantCategoryObservation(key, entry, "Food & Dining");
+    }
+    assert.equal(entry.observationCount, MERCHANT_CACHE_MAX_OBSERVATIONS);
+  });
+});
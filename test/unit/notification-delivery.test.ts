@@ -0,0 +1,229 @@
+/**
+ * Notification Delivery Unit Tests
+ *
+ * Tests the email deliverer against a local SMTP stand-in and the webhook deliverer:
+ * 1. Email goes through a plain SMTP conversation, with header values kept on one line
+ * 2. Webhooks receive the notification as JSON
+ * 3. Non-2xx webhook responses fail the delivery
+ * 4. Webhook targets must be https:// and resolve to public addresses
+ */
+
+import { describe, it } from "node:test";
+import assert from "node:assert";
+import net from "node:net";
+import type { AddressInfo } from "node:net";
+import {
+  createEmailDeliverer,
+  createWebhookDeliverer,
+} from "../../src/services/notification-delivery.js";
+import { checkWebhookTarget, isPublicAddress } from "../../src/utils/clients/webhook.js";
+import type { Notification } from "../../src/storage/repositories/notifications.js";
+
+const notification: Notification = {
+  id: "notification-1",
+  userId: "user-1",
+  type: "budget_threshold",
+  dedupeKey: "budget:budget-1:2025-10-01:80",
+  title: "Groceries reached 80%",
+  message: "You've spent $255.00 of $300.00 (85%) of your Groceries budget.\n.dot line",
+  data: { budget_id: "budget-1", threshold: 80 },
+  readAt: null,
+  deliveryStatus: "pending",
+  deliveredChannels: [],
+  deliveryAttempts: 0,
+  lastDeliveryError: null,
+  deliveredAt: null,
+  createdAt: "2025-10-20T12:00:00.000Z",
+};
+
+/**
+ * Accepts one message and records the commands and message data it received
+ */
+function startSmtpStandIn(): Promise<{ server: net.Server; port: number; received: { commands: string[]; data: string } }> {
+  const received = { commands: [] as string[], data: "" };
+  const server = net.createServer((socket) => {
+    let buffer = "";
+    let inData = false;
+    socket.write("220 localhost ready\r\n");
+    socket.on("data", (chunk) => {
+      buffer += chunk.toString();
+      let index: number;
+      while ((index = buffer.indexOf("\r\n")) !== -1) {
+        const line = buffer.slice(0, index);
+        buffer = buffer.slice(index + 2);
+        if (inData) {
+          if (line === ".") {
+            inData = false;
+            socket.write("250 queued\r\n");
+          } else {
+            received.data += `${line}\n`;
+          }
+          continue;
+        }
+        received.commands.push(line);
+        if (line.startsWith("EHLO")) {
+          socket.write("250-localhost\r\n250 SIZE 1000000\r\n");
+        } else if (line === "DATA") {
+          inData = true;
+          socket.write("354 go ahead\r\n");
+        } else if (line === "QUIT") {
+          socket.end("221 bye\r\n");
+        } else {
+          socket.write("250 ok\r\n");
+        }
+      }
+    });
+  });
+
+  return new Promise((resolve) => {
+    server.listen(0, "127.0.0.1", () => {
+      resolve({ server, port: (server.address() as AddressInfo).port, received });
+    });
+  });
+}
+
+describe("createEmailDeliverer", () => {
+  it("should send the notification through SMTP", async () => {
+    const { server, port, received } = await startSmtpStandIn();
+    try {
+      const deliverer = createEmailDeliverer({ host: "127.0.0.1", port, from: "alerts@localhost" });
+      await deliverer.deliver(notification, "user@example.com");
+
+      assert.deepEqual(received.commands, [
+        "EHLO localhost",
+        "MAIL FROM:<alerts@localhost>",
+        "RCPT TO:<user@example.com>",
+        "DATA",
+        "QUIT",
+      ]);
+      assert.match(received.data, /Subject: Groceries reached 80%/);
+      // Leading dots are escaped on the wire
+      assert.match(received.data, /\n\.\.dot line\n/);
+    } finally {
+      server.close();
+    }
+  });
+
+  it("should keep line breaks in the title out of the headers", async () => {
+    const { server, port, received } = await startSmtpStandIn();
+    try {
+      const deliverer = createEmailDeliverer({ host: "127.0.0.1", port, from: "alerts@localhost" });
+      await deliverer.deliver({ ...notification, title: "Groceries\r\nBcc: attacker@example.com" }, "user@example.com");
+
+      assert.match(received.data, /Subject: Groceries Bcc: attacker@example.com\n/);
+      assert.doesNotMatch(received.data, /^Bcc:/m);
+    } finally {
+      server.close();
+    }
+  });
+
+  it("should encode a non-ASCII title", async () => {
+    const { server, port, received } = await startSmtpStandIn();
+    try {
+      const title = "Café & épicerie reached 80% – déjà plus de la moitié du budget mensuel";
+      const deliverer = createEmailDeliverer({ host: "127.0.0.1", port, from: "alerts@localhost" });
+      await deliverer.deliver({ ...notification, title }, "user@example.com");
+
+      const subject = received.data.match(/^Subject: ([^\n]*(?:\n [^\n]*)*)/m)![1];
+      const words = subject.split("\n ");
+      assert.ok(words.length > 1);
+      const decoded = words
+        .map((word) => {
+          assert.ok(word.length <= 75);
+          return Buffer.from(word.match(/^=\?UTF-8\?B\?(.*)\?=$/)![1], "base64").toString("utf8");
+        })
+        .join("");
+      assert.equal(decoded, title);
+    } finally {
+      server.close();
+    }
+  });
+
+  it("should refuse a recipient with line breaks", async () => {
+    const deliverer = createEmailDeliverer({ host: "127.0.0.1", port: 1025, from: "alerts@localhost" });
+    await assert.rejects(
+      deliverer.deliver(notification, "user@example.com>\r\nRCPT TO:<other@example.com"),
+      /line breaks/
+    );
+  });
+
+  it("should fail when no SMTP host is configured", async () => {
+    const deliverer = createEmailDeliverer({ host: "", port: 1025, from: "alerts@localhost" });
+    await assert.rejects(deliverer.deliver(notification, "user@example.com"), /SMTP_HOST is not set/);
+  });
+});
+
+describe("createWebhookDeliverer", () => {
+  it("should POST the notification as JSON", async () => {
+    const posts: { target: string; body: any }[] = [];
+    const deliverer = createWebhookDeliverer(5000, async (target, body) => {
+      posts.push({ target, body: JSON.parse(body) });
+      return 200;
+    });
+    await deliverer.deliver(notification, "https://hooks.example.com/alerts");
+
+    assert.equal(posts[0].target, "https://hooks.example.com/alerts");
+    assert.equal(posts[0].body.id, "notification-1");
+    assert.equal(posts[0].body.type, "budget_threshold");
+    assert.deepEqual(posts[0].body.data, { budget_id: "budget-1", threshold: 80 });
+  });
+
+  it("should fail on a non-2xx response, including redirects", async () => {
+    await assert.rejects(
+      createWebhookDeliverer(5000, async () => 500).deliver(notification, "https://hooks.example.com/alerts"),
+      /responded with 500/
+    );
+    await assert.rejects(
+      createWebhookDeliverer(5000, async () => 302).deliver(notification, "https://hooks.example.com/alerts"),
+      /responded with 302/
+    );
+  });
+
+  it("should refuse plain http and local targets before connecting", async () => {
+    const deliverer = createWebhookDeliverer(5000);
+    await assert.rejects(deliverer.deliver(notification, "http://hooks.example.com/alerts"), /must use https/);
+    await assert.rejects(deliverer.deliver(notification, "https://127.0.0.1:8443/hook"), /private or local/);
+    await assert.rejects(deliverer.deliver(notification, "https://169.254.169.254/latest/meta-data"), /private or local/);
+  });
+});
+
+describe("checkWebhookTarget", () => {
+  it("should accept https URLs on public addresses", async () => {
+    assert.equal(await checkWebhookTarget("https://93.184.216.34/hook"), null);
+  });
+
+  it("should reject private, loopback, link-local and mapped addresses", async () => {
+    for (const target of [
+      "https://10.0.0.5/hook",
+      "https://172.20.1.1/hook",
+      "https://192.168.1.10/hook",
+      "https://100.64.0.1/hook",
+      "https://0.0.0.0/hook",
+      "https://[::1]/hook",
+      "https://[fd00:ec2::254]/hook",
+      "https://[fe80::1]/hook",
+      "https://[::ffff:127.0.0.1]/hook",
+      "https://localhost/hook",
+    ]) {
+      assert.match((await checkWebhookTarget(target)) ?? "", /private or local/, target);
+    }
+  });
+
+  it("should reject other schemes and malformed URLs", async () => {
+    assert.match((await checkWebhookTarget("http://93.184.216.34/hook")) ?? "", /must use https/);
+    assert.match((await checkWebhookTarget("file:///etc/passwd")) ?? "", /must use https/);
+    assert.match((await checkWebhookTarget("not a url")) ?? "", /is not a URL/);
+  });
+});
+
+describe("isPublicAddress", () => {
+  it("should judge addresses by range", () => {
+    assert.equal(isPublicAddress("8.8.8.8"), true);
+    assert.equal(isPublicAddress("2606:4700:4700::1111"), true);
+    assert.equal(isPublicAddress("172.15.255.255"), true);
+    assert.equal(isPublicAddress("172.16.0.1"), false);
+    assert.equal(isPublicAddress("169.254.169.254"), false);
+    assert.equal(isPublicAddress("::ffff:10.1.2.3"), false);
+    assert.equal(isPublicAddress("not-an-ip"), false);
+  });
+});
@@ -0,0 +1,137 @@
+/**
+ * Recurring Detection Unit Tests
+ *
+ * Tests the subscription/recurring charge detector:
+ * 1. Merchant name normalization
+ * 2. Cadence inference (weekly → annual)
+ * 3. Price increase flags
+ * 4. Missed / cancelled status relative to a date
+ */
+
+import { describe, it } from "node:test";
+import assert from "node:assert";
+import {
+  detectRecurringSeries,
+  getNextExpectedDate,
+  getRecurringStatus,
+  normalizeMerchantName,
+  RecurringTransactionInput,
+} from "../../src/utils/recurring-detection.js";
+
+let nextId = 0;
+
+function charge(date: string, name: string, amount: number): RecurringTransactionInput {
+  nextId++;
+  return {
+    transactionId: `tx_${nextId}`,
+    accountId: "acc_checking",
+    date,
+    name,
+    amount,
+    pending: false,
+  };
+}
+
+describe("normalizeMerchantName", () => {
+  it("should strip store numbers and punctuation", () => {
+    assert.equal(normalizeMerchantName("NETFLIX.COM 866-579-7172"), "netflix com");
+    assert.equal(normalizeMerchantName("Netflix.com #1234"), "netflix com");
+  });
+
+  it("should strip payment processor prefixes", () => {
+    assert.equal(normalizeMerchantName("SQ *BLUE BOTTLE COFFEE 0042"), "blue bottle coffee");
+    assert.equal(normalizeMerchantName("PAYPAL *SPOTIFY"), "spotify");
+  });
+});
+
+describe("detectRecurringSeries", () => {
+  const asOf = new Date("2025-06-20T00:00:00Z");
+
+  it("should detect a monthly subscription and project the next charge", () => {
+    const series = detectRecurringSeries(
+      [
+        charge("2025-02-15", "NETFLIX.COM 1111", 15.49),
+        charge("2025-03-15", "NETFLIX.COM 2222", 15.49),
+        charge("2025-04-15", "NETFLIX.COM 3333", 15.49),
+        charge("2025-05-15", "NETFLIX.COM 4444", 15.49),
+        charge("2025-06-15", "NETFLIX.COM 5555", 15.49),
+      ],
+      asOf
+    );
+
+    assert.equal(series.length, 1);
+    assert.equal(series[0].cadence, "monthly");
+    assert.equal(series[0].expectedAmount, 15.49);
+    assert.equal(series[0].nextExpectedDate, "2025-07-15");
+    assert.equal(series[0].occurrenceCount, 5);
+    assert.equal(series[0].status, "active");
+    assert.equal(series[0].priceIncreased, false);
+  });
+
+  it("should detect weekly and annual cadences", () => {
+    const series = detectRecurringSeries(
+      [
+        charge("2025-05-30", "Gym Membership", 12),
+        charge("2025-06-06", "Gym Membership", 12),
+        charge("2025-06-13", "Gym Membership", 12),
+        charge("2025-06-20", "Gym Membership", 12),
+        charge("2024-03-01", "Amazon Prime", 139),
+        charge("2025-03-01", "Amazon Prime", 139),
+      ],
+      asOf
+    );
+
+    const cadences = Object.fromEntries(series.map((s) => [s.merchantKey, s.cadence]));
+    assert.equal(cadences["gym membership"], "weekly");
+    assert.equal(cadences["amazon prime"], "annual");
+  });
+
+  it("should flag a price increase on the latest charge", () => {
+    const series = detectRecurringSeries(
+      [
+        charge("2025-03-05", "Spotify USA", 10.99),
+        charge("2025-04-05", "Spotify USA", 10.99),
+        charge("2025-05-05", "Spotify USA", 10.99),
+        charge("2025-06-05", "Spotify USA", 11.99),
+      ],
+      asOf
+    );
+
+    assert.equal(series.length, 1);
+    assert.equal(series[0].priceIncreased, true);
+    assert.equal(series[0].previousAmount, 10.99);
+    assert.equal(series[0].expectedAmount, 11.99);
+  });
+
+  it("should ignore irregular merchants, income, and pending charges", () => {
+    const series = detectRecurringSeries(
+      [
+        charge("2025-03-02", "Whole Foods", 84.12),
+        charge("2025-03-09", "Whole Foods", 12.5),
+        charge("2025-04-27", "Whole Foods", 230.0),
+        charge("2025-05-01", "Payroll Deposit", -2500),
+        charge("2025-05-15", "Payroll Deposit", -2500),
+        charge("2025-06-01", "Payroll Deposit", -2500),
+        { ...charge("2025-06-15", "Hulu", 7.99), pending: true },
+      ],
+      asOf
+    );
+
+    assert.equal(series.length, 0);
+  });
+});
+
+describe("getRecurringStatus", () => {
+  it("should move from active to missed to cancelled as the charge goes overdue", () => {
+    assert.equal(getRecurringStatus("2025-06-15", "monthly", new Date("2025-06-20T00:00:00Z")), "active");
+    assert.equal(getRecurringStatus("2025-06-15", "monthly", new Date("2025-06-30T00:00:00Z")), "missed");
+    assert.equal(getRecurringStatus("2025-06-15", "monthly", new Date("2025-08-01T00:00:00Z")), "cancelled");
+  });
+});
+
+describe("getNextExpectedDate", () => {
+  it("should clamp month-end charges to the last day of shorter months", () => {
+    assert.equal(getNextExpectedDate("2025-01-31", "monthly"), "2025-02-28");
+    assert.equal(getNextExpectedDate("2025-06-01", "biweekly"), "2025-06-15");
+  });
+});
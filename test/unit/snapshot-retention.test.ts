@@ -0,0 +1,72 @@
+/**
+ * Snapshot Retention Unit Tests
+ *
+ * Tests how old net worth snapshots thin out:
+ * 1. Recent snapshots are always kept
+ * 2. Older history keeps the latest snapshot per week, then per month
+ * 3. Buckets are per user
+ */
+
+import { describe, it } from "node:test";
+import assert from "node:assert";
+import { selectSnapshotsToPrune } from "../../src/utils/snapshot-retention.js";
+
+const asOf = new Date("2025-06-30T00:00:00Z");
+const policy = { dailyDays: 30, weeklyDays: 365 };
+
+function snapshot(id: string, date: string, userId = "user-a") {
+  return { id, user_id: userId, snapshot_date: date };
+}
+
+describe("selectSnapshotsToPrune", () => {
+  it("should keep every snapshot inside the daily window", () => {
+    const pruned = selectSnapshotsToPrune(
+      [snapshot("1", "2025-06-20"), snapshot("2", "2025-06-21"), snapshot("3", "2025-06-22")],
+      asOf,
+      policy
+    );
+
+    assert.deepEqual(pruned, []);
+  });
+
+  it("should keep only the latest snapshot per week in the weekly window", () => {
+    // 2025-03-03 is a Monday; the 3rd-5th share a week, the 10th starts the next one
+    const pruned = selectSnapshotsToPrune(
+      [
+        snapshot("mon", "2025-03-03"),
+        snapshot("wed", "2025-03-05"),
+        snapshot("tue", "2025-03-04"),
+        snapshot("next", "2025-03-10"),
+      ],
+      asOf,
+      policy
+    );
+
+    assert.deepEqual(pruned.sort(), ["mon", "tue"]);
+  });
+
+  it("should keep only the latest snapshot per month beyond the weekly window", () => {
+    const pruned = selectSnapshotsToPrune(
+      [
+        snapshot("jan-1", "2024-01-01"),
+        snapshot("jan-15", "2024-01-15"),
+        snapshot("jan-29", "2024-01-29"),
+        snapshot("feb-5", "2024-02-05"),
+      ],
+      asOf,
+      policy
+    );
+
+    assert.deepEqual(pruned.sort(), ["jan-1", "jan-15"]);
+  });
+
+  it("should bucket each user separately", () => {
+    const pruned = selectSnapshotsToPrune(
+      [snapshot("a", "2024-01-01", "user-a"), snapshot("b", "2024-01-02", "user-b")],
+      asOf,
+      policy
+    );
+
+    assert.deepEqual(pruned, []);
+  });
+});
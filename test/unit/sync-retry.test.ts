@@ -0,0 +1,149 @@
+/**
+ * Sync Retry Unit Tests
+ *
+ * Tests the resilience helpers behind transaction sync:
+ * 1. Backoff delay growth, cap and jitter
+ * 2. withRetry attempt accounting
+ * 3. Retryable vs. permanent Plaid error classification
+ * 4. Page set collection with retries and mutation-during-pagination restarts
+ */
+
+import { describe, it } from "node:test";
+import assert from "node:assert";
+import { getBackoffDelay, withRetry } from "../../src/utils/retry.js";
+import {
+  isRetryablePlaidError,
+  isSyncMutationDuringPaginationError,
+} from "../../src/utils/plaid-errors.js";
+import { collectSyncPages } from "../../src/utils/sync-pagination.js";
+
+const noSleep = async () => {};
+
+function plaidError(errorType: string, errorCode: string, status = 400): any {
+  const error: any = new Error(`Request failed with status code ${status}`);
+  error.response = { status, data: { error_type: errorType, error_code: errorCode, error_message: errorCode } };
+  return error;
+}
+
+function page(cursor: string, hasMore: boolean, ids: string[] = []) {
+  return { next_cursor: cursor, has_more: hasMore, added: ids };
+}
+
+describe("getBackoffDelay", () => {
+  it("should double each attempt within the jitter band and respect the cap", () => {
+    assert.equal(getBackoffDelay(1, 500, 8000, () => 0), 250);
+    assert.equal(getBackoffDelay(1, 500, 8000, () => 1), 500);
+    assert.equal(getBackoffDelay(3, 500, 8000, () => 1), 2000);
+    assert.equal(getBackoffDelay(10, 500, 8000, () => 1), 8000);
+  });
+});
+
+describe("withRetry", () => {
+  it("should retry until the operation succeeds", async () => {
+    let calls = 0;
+    const result = await withRetry(
+      async () => {
+        calls++;
+        if (calls < 3) throw new Error("flaky");
+        return "ok";
+      },
+      { sleep: noSleep }
+    );
+
+    assert.equal(result, "ok");
+    assert.equal(calls, 3);
+  });
+
+  it("should stop immediately on non-retryable errors and after maxAttempts", async () => {
+    let calls = 0;
+    await assert.rejects(
+      withRetry(async () => { calls++; throw new Error("permanent"); }, { sleep: noSleep, shouldRetry: () => false })
+    );
+    assert.equal(calls, 1);
+
+    calls = 0;
+    await assert.rejects(
+      withRetry(async () => { calls++; throw new Error("down"); }, { sleep: noSleep, maxAttempts: 3 })
+    );
+    assert.equal(calls, 3);
+  });
+});
+
+describe("isRetryablePlaidError", () => {
+  it("should retry Plaid API errors, rate limits, 5xx and dropped connections", () => {
+    assert.equal(isRetryablePlaidError(plaidError("API_ERROR", "INTERNAL_SERVER_ERROR", 500)), true);
+    assert.equal(isRetryablePlaidError(plaidError("RATE_LIMIT_EXCEEDED", "TRANSACTIONS_LIMIT", 429)), true);
+    assert.equal(isRetryablePlaidError({ response: { status: 502, data: "Bad Gateway" } }), true);
+    assert.equal(isRetryablePlaidError(Object.assign(new Error("socket hang up"), { code: "ECONNRESET" })), true);
+  });
+
+  it("should not retry item errors or bad requests", () => {
+    assert.equal(isRetryablePlaidError(plaidError("ITEM_ERROR", "ITEM_LOGIN_REQUIRED")), false);
+    assert.equal(isRetryablePlaidError(plaidError("INVALID_INPUT", "INVALID_ACCESS_TOKEN")), false);
+    assert.equal(
+      isRetryablePlaidError(plaidError("TRANSACTIONS_ERROR", "TRANSACTIONS_SYNC_MUTATION_DURING_PAGINATION")),
+      false
+    );
+    assert.equal(isRetryablePlaidError(new Error("duplicate key value")), false);
+  });
+});
+
+describe("collectSyncPages", () => {
+  it("should collect every page and return the final cursor", async () => {
+    const responses: Record<string, ReturnType<typeof page>> = {
+      start: page("c1", true, ["a"]),
+      c1: page("c2", false, ["b"]),
+    };
+
+    const result = await collectSyncPages(async (cursor) => responses[cursor ?? "start"], undefined);
+
+    assert.equal(result.pages.length, 2);
+    assert.equal(result.nextCursor, "c2");
+    assert.equal(result.restarts, 0);
+  });
+
+  it("should retry a page that fails with a transient error", async () => {
+    let failures = 0;
+    const result = await collectSyncPages(
+      async () => {
+        if (failures++ === 0) throw plaidError("API_ERROR", "INTERNAL_SERVER_ERROR", 500);
+        return page("done", false);
+      },
+      "saved",
+      { retry: { sleep: noSleep } }
+    );
+
+    assert.equal(result.nextCursor, "done");
+    assert.equal(result.pages.length, 1);
+  });
+
+  it("should restart from the original cursor on mutation during pagination", async () => {
+    const requested: Array<string | undefined> = [];
+    let mutated = false;
+
+    const result = await collectSyncPages(async (cursor) => {
+      requested.push(cursor);
+      if (cursor === "saved") return page("p2", true, ["a"]);
+      if (!mutated) {
+        mutated = true;
+        throw plaidError("TRANSACTIONS_ERROR", "TRANSACTIONS_SYNC_MUTATION_DURING_PAGINATION");
+      }
+      return page("final", false, ["b"]);
+    }, "saved");
+
+    assert.deepEqual(requested, ["saved", "p2", "saved", "p2"]);
+    assert.equal(result.restarts, 1);
+    assert.equal(result.pages.length, 2, "Pages from the abandoned pass should be discarded");
+    assert.equal(result.nextCursor, "final");
+  });
+
+  it("should give up after maxRestarts", async () => {
+    const error = plaidError("TRANSACTIONS_ERROR", "TRANSACTIONS_SYNC_MUTATION_DURING_PAGINATION");
+    assert.equal(isSyncMutationDuringPaginationError(error), true);
+
+    await assert.rejects(
+      collectSyncPages(async () => { throw error; }, "saved", { maxRestarts: 2 }),
+      /status code 400/
+    );
+  });
+});
@@ -0,0 +1,104 @@
+/**
+ * Transaction Enrichment Unit Tests
+ *
+ * Tests how Plaid's merchant enrichment is mapped onto stored transactions:
+ * 1. Merchant name, logo, website and payment channel
+ * 2. Location and counterparties (empty values stored as null)
+ * 3. Location formatting for CSV exports
+ */
+
+import { describe, it } from "node:test";
+import assert from "node:assert";
+import {
+  extractMerchantEnrichment,
+  formatTransactionLocation,
+} from "../../src/utils/transaction-enrichment.js";
+
+const emptyLocation = {
+  address: null,
+  city: null,
+  region: null,
+  postal_code: null,
+  country: null,
+  lat: null,
+  lon: null,
+  store_number: null,
+};
+
+describe("extractMerchantEnrichment", () => {
+  it("maps Plaid's enrichment fields", () => {
+    const enrichment = extractMerchantEnrichment({
+      merchant_name: "Starbucks",
+      logo_url: "https://example.com/starbucks.png",
+      website: "starbucks.com",
+      payment_channel: "in store" as any,
+      location: { ...emptyLocation, city: "Seattle", region: "WA", postal_code: "98101", lat: 47.6, lon: -122.3 },
+      counterparties: [
+        {
+          name: "Starbucks",
+          type: "merchant" as any,
+          website: "starbucks.com",
+          logo_url: null,
+          entity_id: "entity_1",
+          confidence_level: "VERY_HIGH",
+        },
+      ],
+    });
+
+    assert.equal(enrichment.merchantName, "Starbucks");
+    assert.equal(enrichment.logoUrl, "https://example.com/starbucks.png");
+    assert.equal(enrichment.website, "starbucks.com");
+    assert.equal(enrichment.paymentChannel, "in store");
+    assert.equal(enrichment.location?.city, "Seattle");
+    assert.equal(enrichment.location?.postalCode, "98101");
+    assert.deepEqual(enrichment.counterparties, [
+      {
+        name: "Starbucks",
+        type: "merchant",
+        website: "starbucks.com",
+        logoUrl: null,
+        entityId: "entity_1",
+        confidenceLevel: "VERY_HIGH",
+      },
+    ]);
+  });
+
+  it("stores missing enrichment as null", () => {
+    const enrichment = extractMerchantEnrichment({
+      merchant_name: "  ",
+      logo_url: undefined,
+      website: null,
+      payment_channel: "unknown" as any,
+      location: emptyLocation,
+      counterparties: [],
+    });
+
+    assert.deepEqual(enrichment, {
+      merchantName: null,
+      logoUrl: null,
+      website: null,
+      paymentChannel: null,
+      location: null,
+      counterparties: null,
+    });
+  });
+});
+
+describe("formatTransactionLocation", () => {
+  it("shows city and region", () => {
+    const location = extractMerchantEnrichment({
+      payment_channel: "in store" as any,
+      location: { ...emptyLocation, city: "Seattle", region: "WA", country: "US" },
+    }).location;
+    assert.equal(formatTransactionLocation(location), "Seattle, WA");
+  });
+
+  it("falls back to the country, or nothing", () => {
+    const location = extractMerchantEnrichment({
+      payment_channel: "online" as any,
+      location: { ...emptyLocation, country: "CA" },
+    }).location;
+    assert.equal(formatTransactionLocation(location), "CA");
+    assert.equal(formatTransactionLocation(null), "");
+  });
+});
@@ -0,0 +1,98 @@
+/**
+ * Transaction Splits Unit Tests
+ *
+ * Tests the split helpers:
+ * 1. Splits must be non-zero, share the parent's sign and add up to it to the cent
+ * 2. Split transactions expand into one line per split with the split's amount and category
+ */
+
+import { describe, it } from "node:test";
+import assert from "node:assert";
+import {
+  expandSplitTransactions,
+  validateTransactionSplits,
+} from "../../src/utils/transaction-splits.js";
+import type { TransactionSplit } from "../../src/storage/repositories/transaction-splits.js";
+
+function split(id: string, transactionId: string, amount: number, category: string, position: number): TransactionSplit {
+  return {
+    id,
+    userId: "user-1",
+    transactionId,
+    amount,
+    category,
+    note: `note ${id}`,
+    position,
+    budgetIds: [],
+    createdAt: new Date(),
+    updatedAt: new Date(),
+  };
+}
+
+describe("validateTransactionSplits", () => {
+  it("accepts splits that add up to the cent despite float error", () => {
+    assert.equal(
+      validateTransactionSplits(0.3, [
+        { amount: 0.1, category: "Groceries" },
+        { amount: 0.2, category: "Household" },
+      ]),
+      null
+    );
+  });
+
+  it("rejects splits that don't add up", () => {
+    assert.match(
+      validateTransactionSplits(120, [
+        { amount: 80, category: "Groceries" },
+        { amount: 39.99, category: "Household" },
+      ])!,
+      /add up to 119\.99/
+    );
+  });
+
+  it("rejects a single split, zero amounts, mixed signs and blank categories", () => {
+    assert.match(validateTransactionSplits(50, [{ amount: 50, category: "Groceries" }])!, /at least 2/);
+    assert.match(
+      validateTransactionSplits(50, [
+        { amount: 50, category: "Groceries" },
+        { amount: 0, category: "Household" },
+      ])!,
+      /zero/
+    );
+    assert.match(
+      validateTransactionSplits(50, [
+        { amount: 60, category: "Groceries" },
+        { amount: -10, category: "Refund" },
+      ])!,
+      /same sign/
+    );
+    assert.match(
+      validateTransactionSplits(-50, [
+        { amount: -20, category: "Income" },
+        { amount: -30, category: " " },
+      ])!,
+      /needs a category/
+    );
+  });
+});
+
+describe("expandSplitTransactions", () => {
+  it("replaces a split transaction with its splits in position order", () => {
+    const lines = expandSplitTransactions(
+      [
+        { transactionId: "a", amount: 120, customCategory: "Shopping" },
+        { transactionId: "b", amount: 6.5, customCategory: null },
+      ],
+      [split("s2", "a", 40, "Household", 1), split("s1", "a", 80, "Groceries", 0)]
+    );
+
+    assert.deepEqual(
+      lines.map((line) => [line.transactionId, line.splitId, line.amount, line.customCategory]),
+      [
+        ["a", "s1", 80, "Groceries"],
+        ["a", "s2", 40, "Household"],
+        ["b", null, 6.5, null],
+      ]
+    );
+  });
+});
@@ -0,0 +1,55 @@
+/**
+ * Transaction Tags Unit Tests
+ *
+ * Tests tag and note normalization:
+ * 1. Tags are lowercased and hyphenated; unusable tags are reported
+ * 2. Adding and removing tags keeps the other tags in order
+ */
+
+import { describe, it } from "node:test";
+import assert from "node:assert";
+import {
+  addTags,
+  normalizeNote,
+  normalizeTag,
+  normalizeTags,
+  removeTags,
+} from "../../src/utils/transaction-tags.js";
+
+describe("normalizeTag", () => {
+  it("lowercases and hyphenates tags", () => {
+    assert.equal(normalizeTag("Vacation 2026"), "vacation-2026");
+    assert.equal(normalizeTag("  #Tax-Deductible "), "tax-deductible");
+    assert.equal(normalizeTag("work_trip"), "work_trip");
+  });
+
+  it("rejects empty, overlong and punctuated tags", () => {
+    assert.equal(normalizeTag("   "), null);
+    assert.equal(normalizeTag("a".repeat(41)), null);
+    assert.equal(normalizeTag("trip, paris"), null);
+    assert.equal(normalizeTag("-leading"), null);
+  });
+});
+
+describe("normalizeTags", () => {
+  it("drops duplicates and collects invalid tags", () => {
+    assert.deepEqual(normalizeTags(["Reimbursable", "reimbursable", "vacation 2026", "50%"]), {
+      tags: ["reimbursable", "vacation-2026"],
+      invalid: ["50%"],
+    });
+  });
+});
+
+describe("addTags / removeTags", () => {
+  it("adds only new tags and removes only the given ones", () => {
+    assert.deepEqual(addTags(["reimbursable"], ["vacation-2026", "reimbursable"]), ["reimbursable", "vacation-2026"]);
+    assert.deepEqual(removeTags(["reimbursable", "vacation-2026"], ["reimbursable", "missing"]), ["vacation-2026"]);
+  });
+});
+
+describe("normalizeNote", () => {
+  it("trims notes and treats blank notes as cleared", () => {
+    assert.equal(normalizeNote("  dinner with Sam "), "dinner with Sam");
+    assert.equal(normalizeNote("   "), null);
+  });
+});
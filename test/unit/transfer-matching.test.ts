@@ -0,0 +1,88 @@
+/**
+ * Transfer Matching Unit Tests
+ *
+ * Tests the internal transfer matcher:
+ * 1. Opposite-signed, equal amounts on different accounts within the window are paired
+ * 2. Same-account, pending, linked and rejected transactions are never paired
+ * 3. The closest dates win when several transactions could pair up
+ */
+
+import { describe, it } from "node:test";
+import assert from "node:assert";
+import { findTransferPairs, TransferCandidate } from "../../src/utils/transfer-matching.js";
+
+function tx(
+  transactionId: string,
+  accountId: string,
+  date: string,
+  amount: number,
+  overrides: Partial<TransferCandidate> = {}
+): TransferCandidate {
+  return {
+    transactionId,
+    accountId,
+    date,
+    amount,
+    pending: false,
+    transferPairId: null,
+    transferMatchRejected: false,
+    ...overrides,
+  };
+}
+
+describe("findTransferPairs", () => {
+  it("pairs an outflow with the matching inflow on another account", () => {
+    const pairs = findTransferPairs([
+      tx("tx_checking_out", "acc_checking", "2025-06-01", 500),
+      tx("tx_card_payment", "acc_card", "2025-06-03", -500),
+      tx("tx_coffee", "acc_card", "2025-06-02", 4.5),
+    ]);
+
+    assert.deepEqual(pairs, [
+      { outflowId: "tx_checking_out", inflowId: "tx_card_payment", amount: 500, daysApart: 2 },
+    ]);
+  });
+
+  it("requires the amount to match to the cent and the dates to fall within the window", () => {
+    assert.deepEqual(
+      findTransferPairs([
+        tx("tx_out", "acc_checking", "2025-06-01", 500),
+        tx("tx_in_cents", "acc_savings", "2025-06-01", -500.01),
+        tx("tx_in_late", "acc_savings", "2025-06-05", -500),
+      ]),
+      []
+    );
+  });
+
+  it("skips same-account, pending, linked and rejected transactions", () => {
+    const pairs = findTransferPairs([
+      tx("tx_refund_out", "acc_checking", "2025-06-01", 25),
+      tx("tx_refund_in", "acc_checking", "2025-06-01", -25),
+      tx("tx_pending_out", "acc_checking", "2025-06-01", 60),
+      tx("tx_pending_in", "acc_savings", "2025-06-01", -60, { pending: true }),
+      tx("tx_linked_out", "acc_checking", "2025-06-01", 70, { transferPairId: "tx_other" }),
+      tx("tx_linked_in", "acc_savings", "2025-06-01", -70),
+      tx("tx_rejected_out", "acc_checking", "2025-06-01", 80, { transferMatchRejected: true }),
+      tx("tx_rejected_in", "acc_savings", "2025-06-01", -80),
+    ]);
+
+    assert.deepEqual(pairs, []);
+  });
+
+  it("prefers the closest dates and pairs each transaction once", () => {
+    const pairs = findTransferPairs([
+      tx("tx_out_a", "acc_checking", "2025-06-01", 200),
+      tx("tx_out_b", "acc_checking", "2025-06-04", 200),
+      tx("tx_in_a", "acc_savings", "2025-06-02", -200),
+      tx("tx_in_b", "acc_savings", "2025-06-04", -200),
+    ]);
+
+    assert.deepEqual(
+      pairs.map((pair) => [pair.outflowId, pair.inflowId]),
+      [
+        ["tx_out_b", "tx_in_b"],
+        ["tx_out_a", "tx_in_a"],
+      ]
+    );
+  });
+});
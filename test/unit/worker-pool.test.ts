@@ -0,0 +1,54 @@
+/**
+ * Worker Pool Unit Tests
+ *
+ * Tests the bounded-concurrency runner used by batch sync:
+ * 1. Never more than `concurrency` workers in flight
+ * 2. Results keep input order
+ * 3. Degenerate inputs (empty list, concurrency below 1)
+ */
+
+import { describe, it } from "node:test";
+import assert from "node:assert";
+import { runWithConcurrency } from "../../src/utils/worker-pool.js";
+
+const tick = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+describe("runWithConcurrency", () => {
+  it("should cap the number of in-flight workers", async () => {
+    let inFlight = 0;
+    let maxInFlight = 0;
+
+    await runWithConcurrency([1, 2, 3, 4, 5, 6, 7], 3, async () => {
+      inFlight++;
+      maxInFlight = Math.max(maxInFlight, inFlight);
+      await tick(5);
+      inFlight--;
+    });
+
+    assert.equal(maxInFlight, 3);
+  });
+
+  it("should return results in input order regardless of completion order", async () => {
+    const results = await runWithConcurrency([30, 5, 15, 1], 4, async (delay, index) => {
+      await tick(delay);
+      return `${index}:${delay}`;
+    });
+
+    assert.deepEqual(results, ["0:30", "1:5", "2:15", "3:1"]);
+  });
+
+  it("should handle an empty list and treat concurrency below 1 as sequential", async () => {
+    assert.deepEqual(await runWithConcurrency([], 4, async (item) => item), []);
+
+    let inFlight = 0;
+    let maxInFlight = 0;
+    await runWithConcurrency(["a", "b", "c"], 0, async () => {
+      inFlight++;
+      maxInFlight = Math.max(maxInFlight, inFlight);
+      await tick(1);
+      inFlight--;
+    });
+
+    assert.equal(maxInFlight, 1);
+  });
+});
@@ -27,6 +27,9 @@ interface Institution {
   institutionName: string;
   lastSyncedAt?: string;
   status?: string;
+  statusLabel?: string;
+  needsReconnect?: boolean;
+  reconnectAction?: NextStepAction;
   errorMessage?: string;
   accounts: Account[];
 }
@@ -100,10 +103,16 @@ function AccountStatusWidget() {
         .filter((date): date is Date => Boolean(date))
         .sort((a, b) => b.getTime() - a.getTime())[0] ?? null;
 
-  const accountNextSteps = normalizeNextSteps(toolOutput.dashboard?.accounts?.nextSteps);
-
   const errorInstitutions = institutions.filter(
-    (inst) => (inst.status === "error" || inst.errorMessage) && inst.errorMessage
+    (inst) => inst.needsReconnect || inst.status === "institution_down" || inst.errorMessage
+  );
+
+  // Reconnect actions render inline next to their institution, so keep them out of the pill row
+  const inlineActionIds = new Set(
+    errorInstitutions.flatMap((inst) => (inst.reconnectAction ? [inst.reconnectAction.id] : []))
+  );
+  const accountNextSteps = normalizeNextSteps(toolOutput.dashboard?.accounts?.nextSteps).filter(
+    (step) => !inlineActionIds.has(step.id)
   );
 
   async function handleNextStepClick(step: NextStepAction) {
@@ -197,7 +206,19 @@ function AccountStatusWidget() {
             <ul>
               {errorInstitutions.map((institution) => (
                 <li key={institution.itemId}>
-                  {institution.institutionName}: {institution.errorMessage}
+                  {institution.institutionName}: {institution.statusLabel ?? "Connection error"}
+                  {institution.errorMessage && ` — ${institution.errorMessage}`}
+                  {institution.reconnectAction && (
+                    <button
+                      className={`next-step-pill primary reconnect-button${
+                        pendingActionId === institution.reconnectAction.id ? " loading" : ""
+                      }`}
+                      onClick={() => handleNextStepClick(institution.reconnectAction!)}
+                      disabled={!!pendingActionId}
+                    >
+                      Reconnect
+                    </button>
+                  )}
                 </li>
               ))}
             </ul>
@@ -6,6 +6,7 @@ interface Budget {
   id: string;
   title: string;
   amount: number;
+  effectiveAmount?: number;
   period: string;
   customPeriodDays?: number;
   spent: number;
@@ -17,11 +18,40 @@ interface Budget {
     end: string;
   };
   transactionCount: number;
+  rollover?: {
+    mode: string;
+    cap: number | null;
+    carryover: number;
+  };
+  forecast?: {
+    periodEnd: string;
+    daysRemaining: number;
+    projectedSpend: number;
+    projectedPercentage: number;
+    projectedStatus: "under" | "near" | "over";
+    projectedOverspendDate: string | null;
+    safeToSpendPerDay: number;
+    upcomingRecurring: number;
+  };
   error?: string;
 }
 
+interface BudgetHistoryPeriod {
+  start: string;
+  end: string;
+  limit: number;
+  spent: number;
+  percentage: number;
+  status: "under" | "near" | "over";
+  current: boolean;
+}
+
 interface BudgetListOutput {
-  budgets: Budget[];
+  budgets?: Budget[];
+  // get-budget-history output
+  budget?: { id: string; title: string; period: string };
+  periods?: BudgetHistoryPeriod[];
+  summary?: { averageSpent: number; periodsOver: number };
 }
 
 // Hook to subscribe to window.openai.toolOutput changes
@@ -75,6 +105,21 @@ function BudgetListWidget() {
     );
   }
 
+  if (toolOutput.budget && toolOutput.periods) {
+    return (
+      <>
+        <style>{`body { margin: 0; padding: 0; }`}</style>
+        <div className="budget-list-widget" style={{ padding: "15px", width: "100%", boxSizing: "border-box" }}>
+          <BudgetHistoryChart
+            title={toolOutput.budget.title}
+            periods={toolOutput.periods}
+            averageSpent={toolOutput.summary?.averageSpent}
+          />
+        </div>
+      </>
+    );
+  }
+
   const budgets = toolOutput.budgets || [];
 
   return (
@@ -109,6 +154,11 @@ function BudgetListWidget() {
   );
 }
 
+// "2025-09-01" -> "Sep 1"
+function formatShortDate(date: string): string {
+  return new Date(`${date}T00:00:00Z`).toLocaleDateString("en-US", { month: "short", day: "numeric", timeZone: "UTC" });
+}
+
 interface BudgetCardProps {
   budget: Budget;
   isFirst: boolean;
@@ -185,6 +235,10 @@ function BudgetCard({ budget, isFirst }: BudgetCardProps) {
   // Cap percentage at 100 for display
   const displayPercentage = Math.min(budget.percentage, 100);
 
+  // Limit for this period, including anything rolled over
+  const limit = budget.effectiveAmount ?? budget.amount;
+  const carryover = budget.rollover?.carryover ?? 0;
+
   return (
     <div>
       {!isFirst && (
@@ -229,7 +283,7 @@ function BudgetCard({ budget, isFirst }: BudgetCardProps) {
           <div style={{ fontSize: "1.1rem", fontWeight: "600" }}>
             ${budget.spent.toFixed(2)}{" "}
             <span style={{ fontSize: "0.85rem", color: "#666" }}>
-              / ${budget.amount.toFixed(2)}
+              / ${limit.toFixed(2)}
             </span>
           </div>
           <div
@@ -283,7 +337,111 @@ function BudgetCard({ budget, isFirst }: BudgetCardProps) {
           </div>
           <div>{budget.transactionCount} transactions</div>
         </div>
+
+        {/* Rollover Info */}
+        {carryover !== 0 && (
+          <div style={{ fontSize: "0.75rem", color: "#666", marginTop: "0.25rem" }}>
+            Includes {carryover > 0 ? "+" : "-"}${Math.abs(carryover).toFixed(2)} rolled over from last period
+          </div>
+        )}
+
+        {/* Pace Forecast */}
+        {budget.forecast && (
+          <div
+            style={{
+              display: "flex",
+              justifyContent: "space-between",
+              fontSize: "0.75rem",
+              color: "#666",
+              marginTop: "0.25rem",
+            }}
+          >
+            <div>
+              Projected:{" "}
+              <span
+                style={{
+                  fontWeight: "600",
+                  color: budget.forecast.projectedStatus === "over" ? "#d32f2f" : budget.forecast.projectedStatus === "near" ? "#f57c00" : "#388e3c",
+                }}
+              >
+                ${budget.forecast.projectedSpend.toFixed(2)}
+              </span>
+              {budget.forecast.projectedOverspendDate
+                ? ` · over on ${formatShortDate(budget.forecast.projectedOverspendDate)}`
+                : ` by ${formatShortDate(budget.forecast.periodEnd)}`}
+            </div>
+            <div>${budget.forecast.safeToSpendPerDay.toFixed(2)}/day safe to spend</div>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
+
+interface BudgetHistoryChartProps {
+  title: string;
+  periods: BudgetHistoryPeriod[];
+  averageSpent?: number;
+}
+
+function BudgetHistoryChart({ title, periods, averageSpent }: BudgetHistoryChartProps) {
+  // Scale bars so the largest of spent and limit fills the chart height
+  const maxValue = Math.max(1, ...periods.map((p) => Math.max(p.spent, p.limit)));
+  const chartHeight = 120;
+
+  const barColor = (status: BudgetHistoryPeriod["status"]) =>
+    status === "over" ? "#f44336" : status === "near" ? "#ff9800" : "#4caf50";
+
+  return (
+    <div className="budget-history">
+      <div style={{ fontWeight: "600", fontSize: "0.95rem", marginBottom: "0.75rem" }}>
+        {title} - History
+      </div>
+
+      {/* Bars: spent per period, with a marker at that period's limit */}
+      <div style={{ display: "flex", alignItems: "flex-end", gap: "6px", height: `${chartHeight}px` }}>
+        {periods.map((period) => (
+          <div
+            key={period.start}
+            title={`${period.start} to ${period.end}: $${period.spent.toFixed(2)} of $${period.limit.toFixed(2)}`}
+            style={{ flex: 1, position: "relative", height: "100%" }}
+          >
+            <div
+              style={{
+                position: "absolute",
+                bottom: 0,
+                width: "100%",
+                height: `${(period.spent / maxValue) * chartHeight}px`,
+                background: barColor(period.status),
+                opacity: period.current ? 0.6 : 1,
+                borderRadius: "3px 3px 0 0",
+              }}
+            />
+            <div
+              style={{
+                position: "absolute",
+                bottom: `${(period.limit / maxValue) * chartHeight}px`,
+                width: "100%",
+                borderTop: "2px dashed #666",
+              }}
+            />
+          </div>
+        ))}
       </div>
+
+      <div style={{ display: "flex", gap: "6px", marginTop: "0.25rem" }}>
+        {periods.map((period) => (
+          <div key={period.start} style={{ flex: 1, fontSize: "0.65rem", color: "#999", textAlign: "center" }}>
+            {period.current ? "Now" : formatShortDate(period.start)}
+          </div>
+        ))}
+      </div>
+
+      {averageSpent !== undefined && (
+        <div style={{ fontSize: "0.75rem", color: "#666", marginTop: "0.5rem" }}>
+          Average per period: <span style={{ fontWeight: "600" }}>${averageSpent.toFixed(2)}</span> · dashed line = limit
+        </div>
+      )}
     </div>
   );
 }